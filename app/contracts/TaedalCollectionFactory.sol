@@ -0,0 +1,31 @@
+// app/contracts/TaedalCollectionFactory.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/*
+ * Deploys one TaedalNFT per creator collection (Studio → Deploy Contract).
+ * The caller owns the new contract and is the only one who can mint into it.
+ * The API trusts a collection contract only if it came out of this factory
+ * (CollectionDeployed log / isCollection).
+ */
+
+import {TaedalNFT} from "./TaedalNFT.sol";
+
+contract TaedalCollectionFactory {
+    /// @notice contracts deployed by this factory
+    mapping(address => bool) public isCollection;
+
+    event CollectionDeployed(address indexed collection, address indexed owner, string name, string symbol);
+
+    error InvalidName();
+    error InvalidSymbol();
+
+    function deployCollection(string calldata name, string calldata symbol) external returns (address collection) {
+        if (bytes(name).length == 0 || bytes(name).length > 64) revert InvalidName();
+        if (bytes(symbol).length == 0 || bytes(symbol).length > 10) revert InvalidSymbol();
+
+        collection = address(new TaedalNFT(name, symbol, msg.sender, false));
+        isCollection[collection] = true;
+        emit CollectionDeployed(collection, msg.sender, name, symbol);
+    }
+}
@@ -2,8 +2,24 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+/*
+ * Taedal v10 ERC-721 (matches your app-side ABI)
+ * Deployed once as the shared platform contract (open mint) and once per
+ * creator collection through TaedalCollectionFactory (only its owner mints).
+ * - publicMint(string uri, address royaltyReceiver, uint96 royaltyBps)
+ * - safeMint(address to, string uri, address royaltyReceiver, uint96 royaltyBps)
+ * - redeem(MintVoucher voucher, bytes signature)   lazy mint, buyer pays gas
+ * - cancelVoucher(uint256 nonce)
+ * Uses OZ ERC721URIStorage for per-token tokenURI (e.g., ipfs://...)
+ * and ERC2981 for per-token royalties, fixed at mint and capped at MAX_ROYALTY_BPS.
+ */
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721URIStorage} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
+import {ERC2981} from "@openzeppelin/contracts/token/common/ERC2981.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
 abstract contract Counter {
     uint256 internal _counter;
@@ -11,20 +27,130 @@ abstract contract Counter {
     function currentId() public view returns (uint256) { return _counter; }
 }
 
-contract TaedalNFT is ERC721URIStorage, Ownable, Counter {
-    constructor() ERC721("Taedal", "TAEDAL") Ownable(msg.sender) {}
+contract TaedalNFT is ERC721URIStorage, ERC2981, EIP712, Ownable, Counter {
+    /// @notice 10%; the app's artwork form enforces the same ceiling
+    uint96 public constant MAX_ROYALTY_BPS = 1000;
+
+    /// @notice signed off-chain by the creator when publishing; nothing is minted until redeemed
+    struct MintVoucher {
+        address creator;   // signer; receives the price and the royalty
+        string uri;        // full ipfs:// tokenURI
+        uint256 price;     // wei, paid by the redeemer
+        uint96 royaltyBps;
+        uint256 nonce;     // per creator; spent on redeem or cancel
+    }
+
+    bytes32 public constant MINT_VOUCHER_TYPEHASH =
+        keccak256("MintVoucher(address creator,string uri,uint256 price,uint96 royaltyBps,uint256 nonce)");
+
+    /// @notice creator => nonce => spent (redeemed or cancelled)
+    mapping(address => mapping(uint256 => bool)) public nonceUsed;
+
+    event VoucherRedeemed(
+        uint256 indexed tokenId,
+        address indexed creator,
+        address indexed buyer,
+        uint256 nonce,
+        uint256 price
+    );
+    event VoucherCancelled(address indexed creator, uint256 nonce);
+
+    error RoyaltyTooHigh(uint96 bps, uint96 max);
+    error InvalidVoucherSignature();
+    error VoucherAlreadyUsed(address creator, uint256 nonce);
+    error WrongPayment(uint256 sent, uint256 price);
+    error CreatorPaymentFailed();
+    error MintingRestricted();
 
-    // owner-only (kept for you)
-    function safeMint(address to, string memory uri) external onlyOwner {
-        uint256 tokenId = _nextId();
+    /// @notice anyone may publicMint / sign vouchers; false for a creator's own collection
+    bool public immutable openMint;
+
+    constructor(string memory name_, string memory symbol_, address initialOwner, bool openMint_)
+        ERC721(name_, symbol_)
+        EIP712("Taedal", "1")
+        Ownable(initialOwner)
+    {
+        openMint = openMint_;
+    }
+
+    modifier canMint(address minter) {
+        if (!openMint && minter != owner()) revert MintingRestricted();
+        _;
+    }
+
+    /// @notice owner-only (kept to satisfy your UI’s safeMint detection)
+    function safeMint(address to, string memory uri, address royaltyReceiver, uint96 royaltyBps)
+        external
+        onlyOwner
+    {
+        _mintWithRoyalty(to, uri, royaltyReceiver, royaltyBps);
+    }
+
+    /// @notice open mint; the UI passes a full ipfs:// tokenURI and the artwork's royalty
+    function publicMint(string memory uri, address royaltyReceiver, uint96 royaltyBps) external canMint(msg.sender) {
+        _mintWithRoyalty(msg.sender, uri, royaltyReceiver, royaltyBps);
+    }
+
+    /// @notice lazy mint: mints to the caller and forwards the exact price to the creator
+    function redeem(MintVoucher calldata voucher, bytes calldata signature)
+        external
+        payable
+        canMint(voucher.creator)
+        returns (uint256 tokenId)
+    {
+        if (nonceUsed[voucher.creator][voucher.nonce]) revert VoucherAlreadyUsed(voucher.creator, voucher.nonce);
+        if (msg.value != voucher.price) revert WrongPayment(msg.value, voucher.price);
+        if (ECDSA.recover(hashVoucher(voucher), signature) != voucher.creator) revert InvalidVoucherSignature();
+
+        nonceUsed[voucher.creator][voucher.nonce] = true;
+        tokenId = _mintWithRoyalty(msg.sender, voucher.uri, voucher.creator, voucher.royaltyBps);
+        emit VoucherRedeemed(tokenId, voucher.creator, msg.sender, voucher.nonce, voucher.price);
+
+        (bool ok, ) = payable(voucher.creator).call{value: msg.value}("");
+        if (!ok) revert CreatorPaymentFailed();
+    }
+
+    /// @notice spends one of the caller's nonces so a voucher signed with it can't be redeemed
+    function cancelVoucher(uint256 nonce) external {
+        if (nonceUsed[msg.sender][nonce]) revert VoucherAlreadyUsed(msg.sender, nonce);
+        nonceUsed[msg.sender][nonce] = true;
+        emit VoucherCancelled(msg.sender, nonce);
+    }
+
+    /// @notice the EIP-712 digest the creator signs
+    function hashVoucher(MintVoucher calldata voucher) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    MINT_VOUCHER_TYPEHASH,
+                    voucher.creator,
+                    keccak256(bytes(voucher.uri)),
+                    voucher.price,
+                    voucher.royaltyBps,
+                    voucher.nonce
+                )
+            )
+        );
+    }
+
+    /// @dev bps = 0 mints without a royalty (royaltyInfo answers (0x0, 0))
+    function _mintWithRoyalty(address to, string memory uri, address royaltyReceiver, uint96 royaltyBps)
+        internal
+        returns (uint256 tokenId)
+    {
+        if (royaltyBps > MAX_ROYALTY_BPS) revert RoyaltyTooHigh(royaltyBps, MAX_ROYALTY_BPS);
+        tokenId = _nextId();
         _safeMint(to, tokenId);
         _setTokenURI(tokenId, uri);
+        if (royaltyBps > 0) _setTokenRoyalty(tokenId, royaltyReceiver, royaltyBps);
     }
 
-    // public mint (any EOA)
-    function publicMint(string memory uri) external {
-        uint256 tokenId = _nextId();
-        _safeMint(msg.sender, tokenId);
-        _setTokenURI(tokenId, uri);
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        override(ERC721URIStorage, ERC2981)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceId);
     }
 }
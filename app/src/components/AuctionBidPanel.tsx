@@ -1,6 +1,16 @@
 // app/src/components/AuctionBidPanel.tsx
 import { useEffect, useMemo, useState } from "react";
-import { placeBid, fetchTopBid, subscribeBids, endAuction, type Bid } from "../lib/bids";
+import {
+  placeBid,
+  placeMaxBid,
+  fetchMyMaxBid,
+  fetchTopBid,
+  subscribeBids,
+  endAuction,
+  fetchAuctionState,
+  type AuctionState,
+  type Bid,
+} from "../lib/bids";
 
 function Countdown({ endAt, onElapsed }: { endAt: string; onElapsed?: () => void }) {
   const [now, setNow] = useState(() => Date.now());
@@ -56,8 +66,9 @@ export default function AuctionBidPanel({
   const [bidInput, setBidInput] = useState("");
   const [busy, setBusy] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
-
-  const MIN_INC_BPS = 500; // 5%
+  const [auction, setAuction] = useState<AuctionState | null>(null);
+  const [asMax, setAsMax] = useState(false);
+  const [myMax, setMyMax] = useState<number | null>(null);
 
   // initial load
   useEffect(() => {
@@ -69,18 +80,28 @@ export default function AuctionBidPanel({
     return () => { alive = false; };
   }, [listingId]);
 
-  // realtime
   useEffect(() => {
+    if (!viewerId) {
+      setMyMax(null);
+      return;
+    }
+    fetchMyMaxBid(listingId).then(setMyMax, () => setMyMax(null));
+  }, [listingId, viewerId]);
+
+  // realtime; a late bid can extend end_at (soft close), so re-read the server state too
+  useEffect(() => {
+    const refresh = () => fetchAuctionState(listingId).then(setAuction, () => {});
+    refresh();
     const off = subscribeBids(listingId, (b) => {
       setTopBid((cur) => (!cur || b.amount >= cur.amount ? b : cur));
+      refresh();
     });
     return () => { try { off(); } catch {} };
   }, [listingId]);
 
-  const minNextBid = useMemo(() => {
-    const base = topBid ? topBid.amount * (1 + MIN_INC_BPS / 10000) : 0;
-    return Math.max(reservePrice ?? 0, base || (reservePrice ?? 0) || 0);
-  }, [topBid, reservePrice]);
+  // the server decides: reserve first, then min_increment_bps over the top bid
+  const minNextBid = auction?.min_bid ?? reservePrice ?? 0;
+  const liveEndAt = auction?.listing.end_at ?? endAt;
 
   async function onPlaceBid() {
     setBusy(true); setMsg(null);
@@ -90,10 +111,17 @@ export default function AuctionBidPanel({
       if (minNextBid && amt < minNextBid) {
         throw new Error(`Bid must be ≥ ${minNextBid}`);
       }
-      const b = await placeBid(listingId, amt);
-      setTopBid(b);
+      if (asMax) {
+        const r = await placeMaxBid(listingId, amt);
+        setMyMax(r.my_max);
+        setMsg(r.is_leading ? `You’re leading at ${r.top_amount} — we’ll bid up to ${r.my_max} for you` : "Outbid: another bidder’s maximum is higher");
+      } else {
+        await placeBid(listingId, amt);
+        setMsg("Bid placed ✅");
+      }
+      setTopBid(await fetchTopBid(listingId));
+      setAuction(await fetchAuctionState(listingId));
       setBidInput("");
-      setMsg("Bid placed ✅");
     } catch (e: any) {
       setMsg(e?.message || "Bid failed");
     } finally {
@@ -116,9 +144,9 @@ export default function AuctionBidPanel({
             </div>
           )}
         </div>
-        {endAt ? (
+        {liveEndAt ? (
           <Countdown
-            endAt={endAt}
+            endAt={liveEndAt}
             onElapsed={async () => {
               try { await endAuction(listingId); } catch {}
             }}
@@ -134,12 +162,12 @@ export default function AuctionBidPanel({
               type="number"
               min={minNextBid || 0}
               step="0.00000001"
-              placeholder={minNextBid ? `≥ ${minNextBid}` : "Your bid"}
+              placeholder={minNextBid ? `≥ ${minNextBid}` : asMax ? "Your maximum" : "Your bid"}
               value={bidInput}
               onChange={(e) => setBidInput(e.target.value)}
             />
             <button className="btn" onClick={onPlaceBid} disabled={busy}>
-              {busy ? "Bidding…" : "Place bid"}
+              {busy ? "Bidding…" : asMax ? "Set max" : "Place bid"}
             </button>
           </>
         ) : (
@@ -149,9 +177,17 @@ export default function AuctionBidPanel({
         )}
       </div>
 
+      {viewerId && !isSeller && (
+        <label className="flex items-center gap-2 text-xs text-neutral-400">
+          <input type="checkbox" checked={asMax} onChange={(e) => setAsMax(e.target.checked)} />
+          Bid automatically up to a private maximum
+        </label>
+      )}
+
       <div className="text-[11px] text-neutral-500">
         Min next bid: {minNextBid || "—"} {saleCurrency}
         {viewerId && topBid?.bidder_id === viewerId ? " • You’re winning" : ""}
+        {myMax != null ? ` • Your max: ${myMax} ${saleCurrency}` : ""}
       </div>
       {msg && <div className="text-xs text-neutral-300">{msg}</div>}
     </div>
@@ -10,6 +10,9 @@ type Profile = {
   avatar_url: string | null;
 };
 
+// equal amounts: the later bid leads (proxy bidding writes the leader last)
+const byRank = (a: Bid, z: Bid) => z.amount - a.amount || z.created_at.localeCompare(a.created_at);
+
 export default function BidList({ listingId }: { listingId: string }) {
   const [bids, setBids] = useState<Bid[]>([]);
   const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map());
@@ -22,9 +25,10 @@ export default function BidList({ listingId }: { listingId: string }) {
       try {
         const { data, error } = await supabase
           .from("bids")
-          .select("id, listing_id, bidder_id, amount, created_at")
+          .select("id, listing_id, bidder_id, amount, created_at, is_auto")
           .eq("listing_id", listingId)
           .order("amount", { ascending: false })
+          .order("created_at", { ascending: false })
           .limit(50);
         if (error) throw error;
         if (!alive) return;
@@ -54,7 +58,7 @@ export default function BidList({ listingId }: { listingId: string }) {
     const off = subscribeBids(listingId, (b) => {
       setBids((cur) => {
         const next = [...cur, b]
-          .sort((a, z) => z.amount - a.amount)
+          .sort(byRank)
           .slice(0, 50);
         return next;
       });
@@ -62,7 +66,7 @@ export default function BidList({ listingId }: { listingId: string }) {
     return () => { try { off(); } catch {} };
   }, [listingId]);
 
-  const rows = useMemo(() => bids.sort((a,z)=>z.amount-a.amount), [bids]);
+  const rows = useMemo(() => bids.sort(byRank), [bids]);
 
   if (loading) return <div className="text-sm text-neutral-400">Loading bids…</div>;
   if (rows.length === 0) return <div className="text-sm text-neutral-400">No bids yet.</div>;
@@ -86,6 +90,7 @@ export default function BidList({ listingId }: { listingId: string }) {
             <div className="flex-1">
               <div className="text-sm">
                 <span className="font-medium">{b.amount}</span> <span className="text-white/70">ETH</span>
+                {b.is_auto && <span className="ml-2 text-[10px] text-white/50">auto</span>}
               </div>
               <div className="text-xs text-white/70">
                 by <a className="underline" href={href}>{who}</a> •{" "}
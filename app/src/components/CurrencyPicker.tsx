@@ -1,4 +1,5 @@
 import { useMemo, useState } from "react";
+import { CURRENCIES, isFiat } from "../lib/currencies";
 
 type Props = {
   value: string;
@@ -8,42 +9,11 @@ type Props = {
   label?: string;
 };
 
-const CRYPTO: Array<[string, string]> = [
-  ["ETH", "Ethereum"],
-  ["BTC", "Bitcoin"],
-  ["SOL", "Solana"],
-  ["MATIC", "Polygon"],
-  ["AVAX", "Avalanche"],
-  ["BNB", "BNB Chain"],
-  ["USDT", "Tether"],
-  ["USDC", "USD Coin"],
-  ["DAI", "Dai"],
-];
-
-const FIAT: Array<[string, string]> = [
-  ["USD", "US Dollar"],
-  ["EUR", "Euro"],
-  ["GBP", "British Pound"],
-  ["JPY", "Japanese Yen"],
-  ["KRW", "South Korean Won"],
-  ["CNY", "Chinese Yuan"],
-  ["INR", "Indian Rupee"],
-  ["AUD", "Australian Dollar"],
-  ["CAD", "Canadian Dollar"],
-  ["SGD", "Singapore Dollar"],
-  ["MYR", "Malaysian Ringgit"],
-  ["PHP", "Philippine Peso"],
-  ["IDR", "Indonesian Rupiah"],
-  ["THB", "Thai Baht"],
-  ["BRL", "Brazilian Real"],
-  ["ZAR", "South African Rand"],
-];
+const CRYPTO = CURRENCIES.filter((c) => c.kind === "crypto").map((c) => [c.code, c.name] as const);
+const FIAT = CURRENCIES.filter((c) => c.kind === "fiat").map((c) => [c.code, c.name] as const);
 
 function guessGroup(code: string) {
-  const c = code?.toUpperCase?.() || "";
-  if (CRYPTO.some(([k]) => k === c)) return "crypto";
-  if (FIAT.some(([k]) => k === c)) return "fiat";
-  return "crypto";
+  return isFiat(code) ? "fiat" : "crypto";
 }
 
 export default function CurrencyPicker({
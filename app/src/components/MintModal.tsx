@@ -3,6 +3,8 @@ import { useEffect, useState } from "react";
 import { BrowserProvider, Contract, ethers, Interface } from "ethers";
 import { supabase } from "../lib/supabase";
 import { ensureSepolia, requestAccounts } from "../lib/wallet";
+import { artworkEdition, artworkRoyaltyBps, assertRoyaltyBps, mintEdition } from "../lib/mint";
+import { contractForArtwork } from "../lib/collections";
 import ABI from "../lib/abi/NFT.json";
 import MintingOverlay from "./MintingOverlay";
 
@@ -12,7 +14,7 @@ type Props = {
   onDone: (ok: boolean) => void;
 };
 
-// Contract address comes from Vite env
+// Shared contract from Vite env; artworks in a deployed collection mint into its own contract
 const CONTRACT_ADDR = import.meta.env.VITE_NFT_CONTRACT as string;
 
 // ERC-721 Transfer event (topic0)
@@ -37,7 +39,24 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
   useEffect(() => {
     (async () => {
       try {
-        if (!CONTRACT_ADDR) {
+        // Editions are ERC-1155 tokens on TaedalEditions
+        if ((await artworkEdition(artworkId)).type !== "unique") {
+          const [acc] = await requestAccounts();
+          setAccount(acc);
+          setMsg("Creating edition…");
+          setMinting(true);
+          await mintEdition(tokenURI, artworkId, (hash) => {
+            setTxHash(hash);
+            setMsg("Waiting for confirmations…");
+          });
+          setMsg("Minted successfully ✅");
+          setMinting(false);
+          onDone(true);
+          return;
+        }
+
+        const contractAddr = (await contractForArtwork(artworkId)) ?? CONTRACT_ADDR;
+        if (!contractAddr) {
           throw new Error("VITE_NFT_CONTRACT is not configured.");
         }
 
@@ -56,18 +75,22 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
         const signer = await provider.getSigner();
         const me = await signer.getAddress();
 
-        const contract = new Contract(CONTRACT_ADDR, ABI as any, signer);
+        const contract = new Contract(contractAddr, ABI as any, signer);
         const iface = contract.interface as Interface;
 
+        // ERC-2981 royalty: the artwork's bps, paid to the creator's wallet
+        const royaltyBps = await artworkRoyaltyBps(artworkId);
+        assertRoyaltyBps(royaltyBps);
+
         // 4) Choose mint fn
         let hasPublicMint = false;
         let hasSafeMint = false;
         try {
-          iface.getFunction("publicMint(string)");
+          iface.getFunction("publicMint(string,address,uint96)");
           hasPublicMint = true;
         } catch {}
         try {
-          iface.getFunction("safeMint(address,string)");
+          iface.getFunction("safeMint(address,string,address,uint96)");
           hasSafeMint = true;
         } catch {}
 
@@ -76,7 +99,7 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
         if (hasPublicMint) {
           setMsg("Sending publicMint…");
           setMinting(true);
-          tx = await (contract as any).publicMint(tokenURI);
+          tx = await (contract as any).publicMint(tokenURI, me, royaltyBps);
         } else if (hasSafeMint) {
           setMsg("Checking ownership for safeMint…");
           const owner =
@@ -92,10 +115,10 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
 
           setMsg("Sending safeMint (owner)…");
           setMinting(true);
-          tx = await (contract as any).safeMint(me, tokenURI);
+          tx = await (contract as any).safeMint(me, tokenURI, me, royaltyBps);
         } else {
           throw new Error(
-            "Contract must have publicMint(string) or safeMint(address,string)."
+            "Contract must have publicMint(string,address,uint96) or safeMint(address,string,address,uint96)."
           );
         }
 
@@ -108,7 +131,7 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
         let tokenId: bigint | null = null;
         for (const log of receipt?.logs ?? []) {
           if (
-            log.address?.toLowerCase() === CONTRACT_ADDR.toLowerCase() &&
+            log.address?.toLowerCase() === contractAddr.toLowerCase() &&
             Array.isArray(log.topics) &&
             log.topics[0] === TRANSFER_TOPIC
           ) {
@@ -129,7 +152,7 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
               artwork_id: artworkId,
               tx_hash: receipt?.hash ?? tx.hash,
               token_id: tokenId ? tokenId.toString() : null,
-              contract_address: CONTRACT_ADDR,
+              contract_address: contractAddr,
             },
           });
         } catch {
@@ -137,7 +160,7 @@ export default function MintModal({ artworkId, tokenURI, onDone }: Props) {
           await supabase
             .from("artworks")
             .update({
-              contract_address: CONTRACT_ADDR,
+              contract_address: contractAddr,
               tx_hash: receipt?.hash ?? tx.hash,
               token_id: tokenId ? Number(tokenId) : null,
               status: "active",
@@ -2,6 +2,7 @@
 import { Link, NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabase";
+import { searchEverything, type SearchHit } from "../lib/search";
 
 type UserBits = {
   id: string;
@@ -10,19 +11,6 @@ type UserBits = {
   email?: string | null;
 };
 
-// search result shapes (match your views)
-type HitUser = {
-  id: string;
-  username: string | null;
-  display_name: string | null;
-  avatar_url: string | null;
-};
-type HitArtwork = {
-  id: string;
-  title: string | null;
-  image_url: string | null;
-};
-
 const cx = (...xs: Array<string | false | null | undefined>) =>
   xs.filter(Boolean).join(" ");
 
@@ -116,8 +104,7 @@ useEffect(() => {
   useEffect(() => {
     setMenuOpen(false);
     setOpenSearch(false);
-    setUsers([]);
-    setArts([]);
+    setHits([]);
     setSel(-1);
     setQ("");
   }, [loc.pathname, loc.search]);
@@ -160,17 +147,15 @@ useEffect(() => {
   const [q, setQ] = useState("");
   const [openSearch, setOpenSearch] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [users, setUsers] = useState<HitUser[]>([]);
-  const [arts, setArts] = useState<HitArtwork[]>([]);
+  const [hits, setHits] = useState<SearchHit[]>([]);
   const [sel, setSel] = useState(-1);
 
-  // DEBOUNCED fetch from the *views*
+  // DEBOUNCED fetch from /api/search (artworks, users and collections ranked together)
   useEffect(() => {
     const term = q.trim();
     if (term && !openSearch) setOpenSearch(true);
     if (!term) {
-      setUsers([]);
-      setArts([]);
+      setHits([]);
       setOpenSearch(false);
       setSel(-1);
       setLoading(false);
@@ -182,61 +167,9 @@ useEffect(() => {
 
     const t = setTimeout(async () => {
       try {
-        const likePrefix = `${term}%`;
-        const likeAny = `%${term}%`;
-
-        // PROFILES: search username prefix, then contains on username/display_name
-        const pPrefix = supabase
-          .from("search_profiles_v")
-          .select("id, username, display_name, avatar_url")
-          .ilike("username", likePrefix)
-          .order("username")
-          .limit(12);
-
-        const pAny = supabase
-          .from("search_profiles_v")
-          .select("id, username, display_name, avatar_url")
-          .or(`username.ilike.${likeAny},display_name.ilike.${likeAny}`)
-          .order("username")
-          .limit(18);
-
-        // ARTWORKS: title prefix, then contains; the view already filters draft/deleted
-        const aPrefix = supabase
-          .from("search_artworks_v")
-          .select("id, title, image_url")
-          .ilike("title", likePrefix)
-          .order("title")
-          .limit(16);
-
-        const aAny = supabase
-          .from("search_artworks_v")
-          .select("id, title, image_url")
-          .ilike("title", likeAny)
-          .order("title")
-          .limit(24);
-
-        const [pp, pa, ap, aa] = await Promise.all([pPrefix, pAny, aPrefix, aAny]);
-
+        const res = await searchEverything(term, { limit: 30 });
         if (!alive) return;
-
-        // helpful logging if something is wrong with RLS/GRANTs
-        if (pp.error) console.warn("[search] profiles prefix error:", pp.error);
-        if (pa.error) console.warn("[search] profiles any error:", pa.error);
-        if (ap.error) console.warn("[search] artworks prefix error:", ap.error);
-        if (aa.error) console.warn("[search] artworks any error:", aa.error);
-
-        const uniqById = <T extends { id: string }>(arr: T[]) => {
-          const seen = new Set<string>();
-          const out: T[] = [];
-          for (const x of arr) if (!seen.has(x.id)) { seen.add(x.id); out.push(x); }
-          return out;
-        };
-
-        const usersRows = uniqById([...(pp.data ?? []), ...(pa.data ?? [])] as HitUser[]);
-        const artsRows  = uniqById([...(ap.data ?? []), ...(aa.data ?? [])] as HitArtwork[]);
-
-        setUsers(usersRows.slice(0, 20));
-        setArts(artsRows.slice(0, 32));
+        setHits(res.hits);
         setSel(-1);
       } catch (err) {
         console.warn("[search] unexpected error:", err);
@@ -251,26 +184,13 @@ useEffect(() => {
     };
   }, [q, openSearch]);
 
-  // Flatten for keyboard nav
-  const flat = useMemo(
-    () => [
-      ...users.map((u) => ({ kind: "user" as const, data: u })),
-      ...arts.map((a) => ({ kind: "art" as const, data: a })),
-    ],
-    [users, arts]
-  );
+  const hrefFor = (h: SearchHit) =>
+    h.kind === "profile" ? `/profiles/${h.handle}` : h.kind === "collection" ? `/collection/${h.handle}` : `/art/${h.handle}`;
 
   const goToIndex = (i: number) => {
-    const item = flat[i];
+    const item = hits[i];
     if (!item) return;
-    if (item.kind === "user") {
-      const u = item.data as HitUser;
-      const url = u.username ? `/profiles/${u.username}` : `/profiles/${u.id}`;
-      nav(url);
-    } else {
-      const a = item.data as HitArtwork;
-      nav(`/art/${a.id}`);
-    }
+    nav(hrefFor(item));
     setOpenSearch(false);
     setSel(-1);
     setQ("");
@@ -284,7 +204,7 @@ useEffect(() => {
       }
       return;
     }
-    if (!openSearch && e.key === "ArrowDown" && flat.length > 0) {
+    if (!openSearch && e.key === "ArrowDown" && hits.length > 0) {
       setOpenSearch(true);
       setSel(0);
       return;
@@ -293,7 +213,7 @@ useEffect(() => {
 
     if (e.key === "ArrowDown") {
       e.preventDefault();
-      setSel((i) => Math.min(i + 1, flat.length - 1));
+      setSel((i) => Math.min(i + 1, hits.length - 1));
     } else if (e.key === "ArrowUp") {
       e.preventDefault();
       setSel((i) => Math.max(i - 1, 0));
@@ -314,7 +234,7 @@ useEffect(() => {
         <div className="flex-1 relative">
           <input
             className="w-full input"
-            placeholder="🔎 search artworks or users"
+            placeholder="🔎 search artworks, users or collections"
             value={q}
             onChange={(e) => setQ(e.target.value)}
             onFocus={() => (q.trim() ? setOpenSearch(true) : null)}
@@ -330,69 +250,48 @@ useEffect(() => {
                   </div>
                 )}
 
-                {/* Users */}
-                {users.length > 0 && (
+                {/* Results, best match first */}
+                {hits.length > 0 && (
                   <div className="py-2">
-                    <div className="px-3 pb-1 text-xs uppercase tracking-wider text-neutral-400">Users</div>
-                    {users.map((u, idx) => {
-                      const flatIdx = idx;
-                      const active = sel === flatIdx;
+                    {hits.map((h, idx) => {
+                      const active = sel === idx;
                       return (
                         <button
-                          key={`${u.id}-${idx}`}
-                          onMouseEnter={() => setSel(flatIdx)}
+                          key={`${h.kind}-${h.id}`}
+                          onMouseEnter={() => setSel(idx)}
                           onMouseDown={(e) => e.preventDefault()}
-                          onClick={() => goToIndex(flatIdx)}
+                          onClick={() => goToIndex(idx)}
                           className={cx(
                             "w-full flex items-center gap-3 px-3 py-2 text-left",
                             active ? "bg-neutral-800" : "hover:bg-neutral-800/60"
                           )}
                         >
-                          <img
-                            src={u.avatar_url || "/images/taedal-logo.svg"}
-                            alt=""
-                            className="h-7 w-7 rounded-full object-cover bg-neutral-800"
-                          />
-                          <div className="min-w-0">
-                            <div className="text-sm truncate">
-                              {u.display_name || u.username || "User"}
+                          {h.kind === "profile" ? (
+                            <img
+                              src={h.image_url || "/images/taedal-logo.svg"}
+                              alt=""
+                              className="h-7 w-7 rounded-full object-cover bg-neutral-800"
+                            />
+                          ) : (
+                            <div className="h-9 w-9 rounded-md overflow-hidden bg-neutral-800 border border-neutral-700">
+                              {h.image_url ? (
+                                <img src={h.image_url} alt="" className="h-full w-full object-cover" />
+                              ) : null}
                             </div>
-                            {u.username && (
-                              <div className="text-xs text-neutral-400 truncate">@{u.username}</div>
-                            )}
-                          </div>
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-
-                {/* Artworks */}
-                {arts.length > 0 && (
-                  <div className="py-2 border-t border-neutral-800">
-                    <div className="px-3 pb-1 text-xs uppercase tracking-wider text-neutral-400">Artworks</div>
-                    {arts.map((a, idx) => {
-                      const flatIdx = users.length + idx;
-                      const active = sel === flatIdx;
-                      return (
-                        <button
-                          key={`${a.id}-${idx}`}
-                          onMouseEnter={() => setSel(flatIdx)}
-                          onMouseDown={(e) => e.preventDefault()}
-                          onClick={() => goToIndex(flatIdx)}
-                          className={cx(
-                            "w-full flex items-center gap-3 px-3 py-2 text-left",
-                            active ? "bg-neutral-800" : "hover:bg-neutral-800/60"
                           )}
-                        >
-                          <div className="h-9 w-9 rounded-md overflow-hidden bg-neutral-800 border border-neutral-700">
-                            {a.image_url ? (
-                              <img src={a.image_url} alt="" className="h-full w-full object-cover" />
-                            ) : null}
-                          </div>
                           <div className="min-w-0">
-                            <div className="text-sm truncate">{a.title || "Untitled"}</div>
-                            <div className="text-xs text-neutral-400">Artwork</div>
+                            <div className="text-sm truncate">
+                              {h.title || (h.kind === "profile" ? "User" : "Untitled")}
+                            </div>
+                            <div className="text-xs text-neutral-400 truncate">
+                              {h.kind === "profile"
+                                ? h.subtitle
+                                : h.kind === "collection"
+                                ? "Collection"
+                                : h.subtitle
+                                ? `Artwork · ${h.subtitle}`
+                                : "Artwork"}
+                            </div>
                           </div>
                         </button>
                       );
@@ -400,23 +299,22 @@ useEffect(() => {
                   </div>
                 )}
 
-                {!loading && users.length === 0 && arts.length === 0 && (
+                {!loading && hits.length === 0 && (
                   <div className="px-3 py-2 text-sm text-neutral-400">No results</div>
                 )}
               </div>
 
               <div className="px-3 py-2 border-t border-neutral-800 flex items-center justify-between">
                 <div className="text-xs text-neutral-500">
-                  {users.length + arts.length} result{users.length + arts.length === 1 ? "" : "s"}
+                  {hits.length} result{hits.length === 1 ? "" : "s"}
                 </div>
                 <button
                   className="text-sm text-neutral-200 hover:underline"
                   onMouseDown={(e) => e.preventDefault()}
                   onClick={() => {
-                    // Optional: add a /search route to show a full page of results
                     const term = q.trim();
                     if (!term) return;
-                    nav(`/search?q=${encodeURIComponent(term)}`);
+                    nav(`/discover?q=${encodeURIComponent(term)}`);
                     setOpenSearch(false);
                     setSel(-1);
                   }}
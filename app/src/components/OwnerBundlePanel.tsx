@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { createBundleListing } from "../lib/bundles";
+import CurrencyPicker from "./CurrencyPicker";
+
+type Props = {
+  /** The cover: always in the bundle, listed first. */
+  artworkId: string;
+  onCreated: () => Promise<void> | void;
+};
+
+type OwnedArt = { id: string; title: string | null; image_url: string | null };
+
+export default function OwnerBundlePanel({ artworkId, onCreated }: Props) {
+  const [owned, setOwned] = useState<OwnedArt[]>([]);
+  const [weights, setWeights] = useState<Record<string, string>>({ [artworkId]: "1" });
+  const [type, setType] = useState<"fixed_price" | "auction">("fixed_price");
+  const [price, setPrice] = useState<string>("0.5");
+  const [reserve, setReserve] = useState<string>("");
+  const [minutes, setMinutes] = useState<string>("1440");
+  const [currency, setCurrency] = useState<string>("ETH");
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth.user?.id;
+      if (!uid) return;
+      const { data } = await supabase
+        .from("artworks")
+        .select("id,title,image_url,edition_type,type")
+        .eq("owner_id", uid)
+        .order("created_at", { ascending: false })
+        .limit(200);
+      if (!alive) return;
+      setOwned(
+        // bundles settle at payment, so physical works (held in escrow until delivery) sell on their own
+        (data ?? []).filter((a) => (a.edition_type ?? "unique") === "unique" && a.type !== "physical") as OwnedArt[]
+      );
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const selected = [artworkId, ...Object.keys(weights).filter((id) => id !== artworkId)];
+
+  function toggle(id: string) {
+    if (id === artworkId) return;
+    setWeights((w) => {
+      const next = { ...w };
+      if (id in next) delete next[id];
+      else next[id] = "1";
+      return next;
+    });
+  }
+
+  async function onCreate() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      if (selected.length < 2) throw new Error("Pick at least one more artwork.");
+      const items = selected.map((id) => {
+        const w = Number(weights[id] || 1);
+        if (!isFinite(w) || w <= 0) throw new Error("Weights must be above 0.");
+        return { artworkId: id, weight: w };
+      });
+
+      if (type === "fixed_price") {
+        const p = Number(price);
+        if (!isFinite(p) || p <= 0) throw new Error("Enter a valid price.");
+        await createBundleListing({ items, type, currency, price: p });
+      } else {
+        const mins = Number(minutes || 0);
+        if (!isFinite(mins) || mins <= 0) throw new Error("Enter a valid duration in minutes.");
+        await createBundleListing({
+          items,
+          type,
+          currency,
+          reservePrice: reserve ? Number(reserve) : null,
+          durationMinutes: Math.round(mins),
+        });
+      }
+
+      setMsg("Bundle listed ✅");
+      await onCreated();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to list the bundle");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="font-semibold">Sell as a bundle</h3>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {owned.map((a) => {
+          const on = a.id in weights;
+          return (
+            <div key={a.id} className="flex items-center gap-3">
+              <input type="checkbox" checked={on} disabled={a.id === artworkId} onChange={() => toggle(a.id)} />
+              {a.image_url ? (
+                <img src={a.image_url} alt="" className="h-10 w-10 rounded object-cover" />
+              ) : (
+                <div className="h-10 w-10 rounded bg-white/10" />
+              )}
+              <div className="flex-1 truncate text-sm">
+                {a.title || "Untitled"}
+                {a.id === artworkId ? <span className="text-white/50"> (cover)</span> : null}
+              </div>
+              {on && (
+                <input
+                  className="input w-20"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={weights[a.id]}
+                  onChange={(e) => setWeights((w) => ({ ...w, [a.id]: e.target.value }))}
+                  aria-label="Weight"
+                  title="Share of the price (royalties follow it)"
+                />
+              )}
+            </div>
+          );
+        })}
+        {!owned.length && <div className="text-sm text-white/60">You don’t own other digital one-of-ones yet.</div>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-3">
+        <div>
+          <div className="text-xs text-white/70 mb-1">Sell by</div>
+          <select className="input w-full" value={type} onChange={(e) => setType(e.target.value as "fixed_price" | "auction")}>
+            <option value="fixed_price">Fixed price</option>
+            <option value="auction">Auction</option>
+          </select>
+        </div>
+        {type === "fixed_price" ? (
+          <div>
+            <div className="text-xs text-white/70 mb-1">Price for the lot</div>
+            <input className="input w-full" type="number" step="0.00000001" min="0" value={price} onChange={(e) => setPrice(e.target.value)} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-xs text-white/70 mb-1">Reserve</div>
+              <input
+                className="input w-full"
+                type="number"
+                step="0.00000001"
+                min="0"
+                placeholder="0.00"
+                value={reserve}
+                onChange={(e) => setReserve(e.target.value)}
+              />
+            </div>
+            <div>
+              <div className="text-xs text-white/70 mb-1">Minutes</div>
+              <input className="input w-full" type="number" min="1" value={minutes} onChange={(e) => setMinutes(e.target.value)} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <CurrencyPicker value={currency} onChange={setCurrency} label="Currency" />
+
+      <div className="flex items-center gap-3">
+        <button className="btn" onClick={onCreate} disabled={busy}>
+          {busy ? "Listing…" : `List ${selected.length} as one lot`}
+        </button>
+        {msg && <div className="text-sm text-amber-300">{msg}</div>}
+      </div>
+
+      <div className="text-[11px] text-white/60">
+        (None of these can be sold on their own while the bundle is listed. Each one’s royalty is paid on its
+        weighted share of the price.)
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { supabase } from "../lib/supabase";
+import {
+  createOrUpdateFixedPriceListing,
+  scheduleDrop,
+  setDropAllowlist,
+  setDutchPricing,
+  type DutchCurve,
+} from "../lib/listings";
+import CurrencyPicker from "./CurrencyPicker";
+
+type Props = {
+  artworkId: string;
+  /** dutch: a falling price starting now; drop: a timed release (fixed or Dutch). */
+  mode: "dutch" | "drop";
+  onCreated: () => Promise<void> | void;
+};
+
+/** datetime-local value one hour from now, in local time. */
+function inAnHour() {
+  const d = new Date(Date.now() + 3600_000);
+  d.setSeconds(0, 0);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+export default function OwnerDropPanel({ artworkId, mode, onCreated }: Props) {
+  const [currency, setCurrency] = useState<string>("ETH");
+  const [saleType, setSaleType] = useState<"fixed_price" | "dutch">(mode === "dutch" ? "dutch" : "fixed_price");
+  const [price, setPrice] = useState<string>("0.1");
+  const [floor, setFloor] = useState<string>("0.02");
+  const [curve, setCurve] = useState<DutchCurve>("linear");
+  const [decayMinutes, setDecayMinutes] = useState<string>("60");
+  const [stepMinutes, setStepMinutes] = useState<string>("10");
+  const [startAt, setStartAt] = useState<string>(inAnHour);
+  const [allowlistOnly, setAllowlistOnly] = useState(false);
+  const [allowlist, setAllowlist] = useState<string>("");
+  const [limit, setLimit] = useState<string>("");
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const isDutch = saleType === "dutch";
+
+  async function resolveAllowlist(): Promise<string[]> {
+    const names = allowlist
+      .split(/[\s,]+/)
+      .map((s) => s.replace(/^@/, "").trim())
+      .filter(Boolean);
+    if (!names.length) return [];
+    const { data, error } = await supabase.from("profiles").select("id,username").in("username", names);
+    if (error) throw error;
+    const found = new Set((data ?? []).map((p) => p.username as string));
+    const missing = names.filter((n) => !found.has(n));
+    if (missing.length) throw new Error(`No collector named ${missing.join(", ")}`);
+    return (data ?? []).map((p) => p.id as string);
+  }
+
+  async function onCreate() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const start = Number(price);
+      if (!isFinite(start) || start <= 0) throw new Error(isDutch ? "Enter a valid start price." : "Enter a valid price.");
+
+      let dutch: Parameters<typeof setDutchPricing>[1] | null = null;
+      if (isDutch) {
+        const floorNum = Number(floor);
+        const decay = Number(decayMinutes);
+        const step = Number(stepMinutes);
+        if (!isFinite(floorNum) || floorNum <= 0 || floorNum >= start) throw new Error("The floor must be above 0 and below the start price.");
+        if (!isFinite(decay) || decay <= 0) throw new Error("Enter how long the price takes to reach the floor.");
+        if (curve === "stepped" && (!isFinite(step) || step <= 0 || step > decay)) {
+          throw new Error("Steps must be shorter than the time to the floor.");
+        }
+        dutch = {
+          startPrice: start,
+          floorPrice: floorNum,
+          curve,
+          decaySeconds: Math.round(decay * 60),
+          intervalSeconds: curve === "stepped" ? Math.round(step * 60) : null,
+        };
+      }
+
+      let opensAt: string | null = null;
+      let perWallet: number | null = null;
+      let allowIds: string[] = [];
+      if (mode === "drop") {
+        const t = new Date(startAt);
+        if (isNaN(t.getTime()) || t.getTime() <= Date.now()) throw new Error("Pick a start time in the future.");
+        opensAt = t.toISOString();
+        if (limit.trim()) {
+          perWallet = Math.floor(Number(limit));
+          if (!isFinite(perWallet) || perWallet <= 0) throw new Error("The per-wallet limit must be a whole number above 0.");
+        }
+        allowIds = await resolveAllowlist();
+        if (allowlistOnly && !allowIds.length) throw new Error("Add at least one collector to the allowlist.");
+      }
+
+      const listing = await createOrUpdateFixedPriceListing(artworkId, start, currency);
+      if (opensAt) {
+        await scheduleDrop(listing.id, opensAt, saleType, { allowlistOnly, perWalletLimit: perWallet });
+        if (allowIds.length) await setDropAllowlist(listing.id, allowIds);
+      }
+      if (dutch) await setDutchPricing(listing.id, dutch);
+
+      setMsg(mode === "drop" ? "Drop scheduled ✅" : "Dutch sale started ✅");
+      await onCreated();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to create the listing");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="font-semibold">{mode === "drop" ? "Schedule a drop" : "Start a Dutch sale"}</h3>
+
+      {mode === "drop" && (
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <div className="text-xs text-white/70 mb-1">Opens at</div>
+            <input className="input w-full" type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+          </div>
+          <div>
+            <div className="text-xs text-white/70 mb-1">Sells as</div>
+            <select className="input w-full" value={saleType} onChange={(e) => setSaleType(e.target.value as "fixed_price" | "dutch")}>
+              <option value="fixed_price">Fixed price</option>
+              <option value="dutch">Dutch (falling price)</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-3">
+        <div>
+          <div className="text-xs text-white/70 mb-1">{isDutch ? "Start price" : "Price"}</div>
+          <input
+            className="input w-full"
+            type="number"
+            step="0.00000001"
+            min="0"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </div>
+        {isDutch && (
+          <div>
+            <div className="text-xs text-white/70 mb-1">Floor price</div>
+            <input
+              className="input w-full"
+              type="number"
+              step="0.00000001"
+              min="0"
+              value={floor}
+              onChange={(e) => setFloor(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      {isDutch && (
+        <div className="grid md:grid-cols-3 gap-3">
+          <div>
+            <div className="text-xs text-white/70 mb-1">Curve</div>
+            <select className="input w-full" value={curve} onChange={(e) => setCurve(e.target.value as DutchCurve)}>
+              <option value="linear">Linear</option>
+              <option value="stepped">Stepped</option>
+            </select>
+          </div>
+          <div>
+            <div className="text-xs text-white/70 mb-1">Minutes to floor</div>
+            <input className="input w-full" type="number" min="1" value={decayMinutes} onChange={(e) => setDecayMinutes(e.target.value)} />
+          </div>
+          {curve === "stepped" && (
+            <div>
+              <div className="text-xs text-white/70 mb-1">Step every (min)</div>
+              <input className="input w-full" type="number" min="1" value={stepMinutes} onChange={(e) => setStepMinutes(e.target.value)} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === "drop" && (
+        <div className="space-y-3">
+          <div>
+            <div className="text-xs text-white/70 mb-1">Limit per wallet (optional)</div>
+            <input className="input w-full" type="number" min="1" step="1" placeholder="No limit" value={limit} onChange={(e) => setLimit(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={allowlistOnly} onChange={(e) => setAllowlistOnly(e.target.checked)} />
+            Allowlisted collectors only
+          </label>
+          <div>
+            <div className="text-xs text-white/70 mb-1">Allowlist (usernames, comma or space separated)</div>
+            <textarea className="input w-full" rows={2} value={allowlist} onChange={(e) => setAllowlist(e.target.value)} />
+          </div>
+        </div>
+      )}
+
+      <CurrencyPicker value={currency} onChange={setCurrency} label="Currency" />
+
+      <div className="flex items-center gap-3">
+        <button className="btn" onClick={onCreate} disabled={busy}>
+          {busy ? "Saving…" : mode === "drop" ? "Schedule drop" : "Start Dutch sale"}
+        </button>
+        {msg && <div className="text-sm text-amber-300">{msg}</div>}
+      </div>
+
+      <div className="text-[11px] text-white/60">
+        {isDutch
+          ? "(Buyers pay the price at the moment they check out; it never goes below the floor.)"
+          : "(Nobody can buy before the drop opens.)"}
+      </div>
+    </div>
+  );
+}
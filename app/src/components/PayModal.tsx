@@ -1,6 +1,7 @@
 //C:\Users\User\Downloads\taedal-v7\app\src\components\PayModal.tsx
 
 import { useEffect, useState } from "react";
+import { startCheckout, waitForOnchainSettlement } from "../lib/checkout";
 
 const SEPOLIA_CHAIN_ID_HEX = "0xaa36a7"; // 11155111
 const SEPOLIA_PARAMS = {
@@ -11,16 +12,6 @@ const SEPOLIA_PARAMS = {
   blockExplorerUrls: ["https://sepolia.etherscan.io"],
 };
 
-// parse ether -> bigint (no ethers.js)
-function parseEther(amount: string | number): bigint {
-  const s = String(amount);
-  if (!/^\d+(\.\d+)?$/.test(s)) throw new Error("Invalid ETH amount");
-  const [ints, decs = ""] = s.split(".");
-  const d = (decs + "000000000000000000").slice(0, 18);
-  return BigInt(ints) * 10n ** 18n + BigInt(d);
-}
-const toHex = (v: bigint) => "0x" + v.toString(16);
-
 export default function PayModal({
   open,
   priceEth,
@@ -80,41 +71,20 @@ export default function PayModal({
         }
       }
 
-      setMsg("Waiting for approval…");
+      setMsg("Creating order…");
+      const session = await startCheckout(listingId, { provider: "onchain", wallet: from });
+      const pay = session.instructions;
+      if (!pay) throw new Error("No payment instructions returned.");
 
-      const value = toHex(parseEther(priceEth));
+      setMsg("Waiting for approval…");
       const txHash: string = await ethereum.request({
         method: "eth_sendTransaction",
-        params: [{ from, to: toWallet, value }],
+        params: [{ from, to: pay.to, value: pay.value, ...(pay.data ? { data: pay.data } : {}) }],
       });
 
-      setMsg("Recording purchase…");
-
-      // Optional: call your function to record the sale (best-effort)
-      try {
-        const res = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/record-eth-purchase`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            },
-            body: JSON.stringify({
-              listing_id: listingId,
-              tx_hash: txHash,
-              buyer_wallet: from,
-              amount_eth: priceEth,
-              network: "sepolia",
-            }),
-          }
-        );
-        // ignore non-2xx for now
-        await res.text().catch(() => {});
-      } catch (e) {
-        console.warn("record-eth-purchase failed:", e);
-      }
+      // the order settles only once the server has verified the tx on-chain
+      setMsg("Waiting for confirmations…");
+      await waitForOnchainSettlement(session.order_id, txHash, pay.chain_id);
 
       onDone(true, txHash);
     } catch (e: any) {
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+
+export type Signature = {
+  /** Printed name; a typed signature is just this. */
+  name: string;
+  /** PNG data URL when drawn. */
+  image: string | null;
+};
+
+type Props = {
+  value: Signature;
+  onChange: (s: Signature) => void;
+  label?: string;
+};
+
+const WIDTH = 400;
+const HEIGHT = 140;
+
+/** Typed or drawn signature. Drawn strokes are exported as a small PNG. */
+export default function SignaturePad({ value, onChange, label = "Signature" }: Props) {
+  const [mode, setMode] = useState<"type" | "draw">(value.image ? "draw" : "type");
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111";
+  }, [mode]);
+
+  function point(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - r.left) * WIDTH) / r.width, y: ((e.clientY - r.top) * HEIGHT) / r.height };
+  }
+
+  function onDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const p = point(e);
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+  }
+
+  function onMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const p = point(e);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+  }
+
+  function onUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange({ ...value, image: e.currentTarget.toDataURL("image/png") });
+  }
+
+  function clear() {
+    const c = canvasRef.current;
+    c?.getContext("2d")?.clearRect(0, 0, WIDTH, HEIGHT);
+    onChange({ ...value, image: null });
+  }
+
+  function switchTo(m: "type" | "draw") {
+    setMode(m);
+    if (m === "type") onChange({ ...value, image: null });
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-white/70">{label}</span>
+        <div className="flex gap-1 text-xs">
+          {(["type", "draw"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`rounded-md px-2 py-1 ${mode === m ? "bg-white/15" : "hover:bg-white/10"}`}
+              onClick={() => switchTo(m)}
+            >
+              {m === "type" ? "Type" : "Draw"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <input
+        className="input"
+        placeholder="Full name"
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+      />
+
+      {mode === "type" ? (
+        <div className="flex h-16 items-center rounded-lg bg-white px-4 text-2xl italic text-neutral-900" style={{ fontFamily: "cursive" }}>
+          {value.name || <span className="text-base not-italic text-neutral-400">Your typed signature</span>}
+        </div>
+      ) : (
+        <div className="grid gap-1">
+          <canvas
+            ref={canvasRef}
+            width={WIDTH}
+            height={HEIGHT}
+            className="w-full touch-none rounded-lg bg-white"
+            onPointerDown={onDown}
+            onPointerMove={onMove}
+            onPointerUp={onUp}
+            onPointerLeave={onUp}
+          />
+          <button type="button" className="justify-self-end text-xs text-white/60 underline" onClick={clear}>
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
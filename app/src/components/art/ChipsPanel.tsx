@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  bindChip,
+  fetchArtworkChips,
+  replaceChip,
+  revokeChip,
+  unbindChip,
+  type Chip,
+  type ChipEvent,
+} from "../../lib/chips";
+
+type Props = {
+  artworkId: string;
+  viewerId: string;
+  ownerId: string | null;
+  creatorId: string | null;
+};
+
+/** Tags bound to a physical work and their history; owner and creator only. */
+export default function ChipsPanel({ artworkId, viewerId, ownerId, creatorId }: Props) {
+  const [chips, setChips] = useState<Chip[]>([]);
+  const [events, setEvents] = useState<ChipEvent[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [replaceFor, setReplaceFor] = useState<string | null>(null);
+  const [newTag, setNewTag] = useState("");
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const isOwner = viewerId === ownerId;
+  // bindings can be undone until the work first changes hands
+  const isCreatorHolding = isOwner && viewerId === creatorId;
+
+  const load = useCallback(async () => {
+    try {
+      const out = await fetchArtworkChips(artworkId);
+      setChips(out.chips);
+      setEvents(out.events);
+    } catch {
+      setChips([]);
+      setEvents([]);
+    }
+  }, [artworkId]);
+
+  useEffect(() => {
+    load();
+  }, [load, viewerId, ownerId]);
+
+  async function run(id: string, fn: () => Promise<string>) {
+    setBusyId(id);
+    setMsg(null);
+    try {
+      setMsg(await fn());
+      setReplaceFor(null);
+      setNewTag("");
+      await load();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const onRevoke = (c: Chip) => {
+    const reason = window.prompt(`Revoke tag ${c.tag_id}? Scans of it will show as revoked.`, "lost");
+    if (reason === null) return;
+    run(c.id, () => revokeChip(c.id, reason || undefined).then(() => "Tag revoked."));
+  };
+
+  if (!isOwner && viewerId !== creatorId) return null;
+
+  return (
+    <div className="card space-y-3">
+      <h3 className="font-semibold">NFC / QR tags</h3>
+      {chips.length === 0 && <div className="text-sm text-white/70">No tag is bound to this work.</div>}
+      {chips.map((c) => {
+        const busy = busyId === c.id;
+        return (
+          <div key={c.id} className="rounded-lg border border-white/10 p-3 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <div className="font-medium font-mono">{c.tag_id}</div>
+                <div className="text-xs text-white/60">
+                  {c.kind.toUpperCase()} · {c.status}
+                  {c.bound_at ? ` · bound ${new Date(c.bound_at).toLocaleDateString()}` : ""}
+                </div>
+              </div>
+              {isOwner && c.status === "bound" && (
+                <div className="flex flex-wrap gap-2">
+                  <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => setReplaceFor(replaceFor === c.id ? null : c.id)}>
+                    Replace
+                  </button>
+                  <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => onRevoke(c)}>
+                    Revoke
+                  </button>
+                  {isCreatorHolding && (
+                    <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => run(c.id, () => unbindChip(c.id).then(() => "Tag unbound."))}>
+                      Unbind
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {replaceFor === c.id && (
+              <div className="flex gap-2">
+                <input className="input flex-1" placeholder="New tag ID" value={newTag} onChange={(e) => setNewTag(e.target.value)} />
+                <button
+                  className="btn"
+                  disabled={busy || !newTag.trim()}
+                  onClick={() => run(c.id, () => replaceChip(c.id, newTag.trim()).then((n) => `Replaced with ${n.tag_id}.`))}
+                >
+                  Bind new tag
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isCreatorHolding && chips.length === 0 && (
+        <div className="flex gap-2">
+          <input className="input flex-1" placeholder="Tag ID" value={newTag} onChange={(e) => setNewTag(e.target.value)} />
+          <button
+            className="btn"
+            disabled={busyId === "bind" || !newTag.trim()}
+            onClick={() => run("bind", () => bindChip(newTag.trim(), artworkId).then((n) => `Tag ${n.tag_id} bound.`))}
+          >
+            Bind tag
+          </button>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <ul className="text-xs text-white/60 space-y-1">
+          {events.slice(0, 10).map((ev) => (
+            <li key={ev.id}>
+              {new Date(ev.created_at).toLocaleString()} · {ev.chips?.tag_id ?? "tag"} {ev.event}
+              {ev.note ? ` — ${ev.note}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+      {msg && <div className="text-sm text-amber-300">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { licenseState, listLicenses, type License } from "../../lib/licensing";
+
+type Props = {
+  artworkId: string;
+  viewerId: string;
+};
+
+const day = (d: string) => new Date(`${d}T00:00:00`).toLocaleDateString();
+
+const STATE_LABEL = { active: "Active", upcoming: "Starts soon", expired: "Inactive" } as const;
+const STATE_TONE = {
+  active: "bg-emerald-500/20 text-emerald-300",
+  upcoming: "bg-indigo-500/20 text-indigo-300",
+  expired: "bg-white/10 text-white/60",
+} as const;
+
+/** Licenses on this work the viewer is party to: the owner sees all of them, a licensee their own. */
+export default function LicensesPanel({ artworkId, viewerId }: Props) {
+  const [licenses, setLicenses] = useState<License[]>([]);
+
+  useEffect(() => {
+    listLicenses({ artworkId })
+      .then(setLicenses)
+      .catch(() => setLicenses([]));
+  }, [artworkId, viewerId]);
+
+  if (licenses.length === 0) return null;
+
+  return (
+    <div className="card space-y-3">
+      <h3 className="font-semibold">Licenses</h3>
+      {licenses.map((l) => {
+        const state = licenseState(l);
+        return (
+          <Link
+            key={l.id}
+            to={`/contracts/${l.request_id}`}
+            className={`block rounded-lg border border-white/10 p-3 text-sm hover:border-white/30 ${state === "expired" ? "opacity-60" : ""}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-medium truncate">
+                {l.terms.purpose} · {l.terms.exclusivity}
+                {l.licensee_id === viewerId && <span className="text-white/50"> · yours</span>}
+              </div>
+              <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${STATE_TONE[state]}`}>{STATE_LABEL[state]}</span>
+            </div>
+            <div className="mt-1 text-white/60">
+              {day(l.starts_on)} – {l.ends_on ? day(l.ends_on) : "no fixed term"}
+              {l.renewed_at && " · renewed"}
+            </div>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,17 +1,51 @@
 import { useRef, useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { useNotifications } from "../../hooks/useNotifications";
+import type { NotificationKind, NotificationRow } from "../../lib/notifications";
 
-function lineFor(n: any) {
-  const k = n.kind;
+const ICON: Record<NotificationKind, string> = {
+  like: "♥",
+  comment: "💬",
+  follow: "👤",
+  system: "📣",
+  sale: "💰",
+  bid: "🔨",
+  outbid: "⚠️",
+  offer: "🤝",
+  auction: "⏱",
+  license: "📄",
+  shipment: "📦",
+  chip_scan: "🏷",
+};
+
+function lineFor(n: NotificationRow) {
+  const p = n.payload || {};
+  if (p.message) return p.message;
+  if (n.kind === "like") return `Someone liked your post`;
+  if (n.kind === "comment") return `New comment on your post`;
+  if (n.kind === "follow") return `You have a new follower`;
+  return "Notification";
+}
+
+/** Rows written before links were stored fall back to their artwork. */
+function linkFor(n: NotificationRow) {
+  if (n.link) return n.link;
+  if (n.payload?.artwork_id) return `/art/${n.payload.artwork_id}`;
+  return null;
+}
+
+function detailFor(n: NotificationRow) {
   const p = n.payload || {};
-  if (k === "like") return `Someone liked your post`;
-  if (k === "comment") return `New comment on your post`;
-  if (k === "follow") return `You have a new follower`;
-  return p.message || "Notification";
+  if (n.kind === "shipment" && p.status) return p.status.replace(/_/g, " ");
+  if ((n.kind === "bid" || n.kind === "outbid" || n.kind === "sale") && p.amount != null) {
+    return `${p.amount}${p.currency ? ` ${p.currency}` : ""}`;
+  }
+  return null;
 }
 
 export default function Bell() {
-  const { items, unread, loading, error, markAll, refresh } = useNotifications(25);
+  const { items, unread, loading, error, markAll, markOne, refresh } = useNotifications(25);
+  const nav = useNavigate();
   const [open, setOpen] = useState(false);
   const boxRef = useRef<HTMLDivElement | null>(null);
 
@@ -60,14 +94,37 @@ export default function Bell() {
           )}
 
           <ul className="divide-y divide-neutral-800">
-            {items.map((n) => (
-              <li key={n.id} className={`p-3 ${!n.read_at ? "bg-neutral-850/50" : ""}`}>
-                <div className="text-sm">{lineFor(n)}</div>
-                <div className="text-xs text-neutral-400 mt-0.5">
-                  {new Date(n.created_at).toLocaleString()}
-                </div>
-              </li>
-            ))}
+            {items.map((n) => {
+              const to = linkFor(n);
+              const detail = detailFor(n);
+              return (
+                <li key={n.id} className={!n.read_at ? "bg-neutral-850/50" : ""}>
+                  <button
+                    className="w-full flex gap-3 p-3 text-left hover:bg-neutral-800/60 disabled:cursor-default"
+                    disabled={!to && !!n.read_at}
+                    onClick={() => {
+                      if (!n.read_at) void markOne(n.id);
+                      if (to) {
+                        setOpen(false);
+                        nav(to);
+                      }
+                    }}
+                  >
+                    <span className="shrink-0 w-5 text-center" aria-hidden>
+                      {ICON[n.kind] ?? "•"}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className={`block text-sm ${!n.read_at ? "font-medium" : ""}`}>{lineFor(n)}</span>
+                      <span className="block text-xs text-neutral-400 mt-0.5">
+                        {detail ? `${detail} · ` : ""}
+                        {new Date(n.created_at).toLocaleString()}
+                      </span>
+                    </span>
+                    {!n.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-rose-500" />}
+                  </button>
+                </li>
+              );
+            })}
           </ul>
         </div>
       )}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NOTIFICATION_KINDS,
+  fetchNotificationSettings,
+  saveNotificationSettings,
+  type NotificationKind,
+  type NotificationSettings as Settings,
+} from "../../lib/notifications";
+
+/** Per-kind channels (Bell / email digest) and how often the digest goes out. */
+export default function NotificationSettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetchNotificationSettings()
+      .then((s) => alive && setSettings(s))
+      .catch((e) => alive && setMsg(e instanceof Error ? e.message : "Couldn’t load your settings"))
+      .finally(() => alive && setLoaded(true));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function toggle(channel: "in_app_muted" | "email_muted", kind: NotificationKind) {
+    setSettings((s) => {
+      const muted = s[channel].includes(kind) ? s[channel].filter((k) => k !== kind) : [...s[channel], kind];
+      return { ...s, [channel]: muted };
+    });
+  }
+
+  async function onSave() {
+    setSaving(true);
+    setMsg(null);
+    try {
+      await saveNotificationSettings(settings);
+      setMsg("Saved ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card space-y-3">
+      <h2 className="font-semibold">Notifications</h2>
+
+      <div>
+        <div className="text-xs text-white/70 mb-1">Email digest</div>
+        <select
+          className="input"
+          value={settings.digest}
+          onChange={(e) => setSettings((s) => ({ ...s, digest: e.target.value as Settings["digest"] }))}
+          disabled={!loaded}
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="off">Off</option>
+        </select>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-white/70">
+            <th className="text-left font-normal py-1">Notify me about</th>
+            <th className="font-normal py-1 w-20">In app</th>
+            <th className="font-normal py-1 w-20">Email</th>
+          </tr>
+        </thead>
+        <tbody>
+          {NOTIFICATION_KINDS.map(({ kind, label }) => (
+            <tr key={kind} className="border-t border-neutral-800">
+              <td className="py-1.5">{label}</td>
+              <td className="text-center">
+                <input
+                  type="checkbox"
+                  checked={!settings.in_app_muted.includes(kind)}
+                  onChange={() => toggle("in_app_muted", kind)}
+                  disabled={!loaded}
+                  aria-label={`${label} in app`}
+                />
+              </td>
+              <td className="text-center">
+                <input
+                  type="checkbox"
+                  checked={settings.digest !== "off" && !settings.email_muted.includes(kind)}
+                  onChange={() => toggle("email_muted", kind)}
+                  disabled={!loaded || settings.digest === "off"}
+                  aria-label={`${label} by email`}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-3">
+        <button className="btn" onClick={onSave} disabled={saving || !loaded}>
+          {saving ? "Saving…" : "Save"}
+        </button>
+        {msg && <div className="text-sm text-amber-300">{msg}</div>}
+      </div>
+    </div>
+  );
+}
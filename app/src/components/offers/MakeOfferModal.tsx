@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { approveWeth, makeOffer, type OfferFunding, type WethApproval } from "../../lib/offers";
+import { requestAccounts } from "../../lib/wallet";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  onPlaced?: () => void;
+  artworkId: string;
+  /** Prefill: the listing currency when there is one. */
+  currency?: string;
+  /** Editions: how many are still available (caps the quantity). */
+  maxQuantity?: number | null;
+  isEdition?: boolean;
+};
+
+const FUNDING: { id: OfferFunding; label: string; hint: string }[] = [
+  { id: "none", label: "Pay on acceptance", hint: "Nothing is held; you check out once the seller accepts." },
+  { id: "stripe_preauth", label: "Hold on card", hint: "Your card is authorized now and only charged if the seller accepts." },
+  { id: "weth_allowance", label: "WETH allowance", hint: "The seller can pull the WETH from your wallet once they accept." },
+];
+
+export default function MakeOfferModal({ open, onClose, onPlaced, artworkId, currency: initialCurrency, maxQuantity, isEdition }: Props) {
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(initialCurrency || "USD");
+  const [quantity, setQuantity] = useState(1);
+  const [funding, setFunding] = useState<OfferFunding>("none");
+  const [hours, setHours] = useState(72);
+  const [message, setMessage] = useState("");
+  const [approval, setApproval] = useState<WethApproval | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMsg(null);
+    setApproval(null);
+    setCurrency(initialCurrency || "USD");
+  }, [open, initialCurrency]);
+
+  useEffect(() => {
+    if (funding === "weth_allowance") setCurrency("ETH");
+    if (funding === "stripe_preauth") setHours((h) => Math.min(h, 168)); // card holds lapse after 7 days
+  }, [funding]);
+
+  if (!open) return null;
+
+  async function submit() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const amt = Number(amount);
+      if (!isFinite(amt) || amt <= 0) throw new Error("Enter a valid amount");
+
+      let wallet: string | undefined;
+      if (funding === "weth_allowance") {
+        wallet = (await requestAccounts())[0];
+        if (!wallet) throw new Error("Connect a wallet holding WETH.");
+      }
+
+      const out = await makeOffer({
+        artwork_id: artworkId,
+        amount: amt,
+        currency,
+        quantity: isEdition ? quantity : undefined,
+        expires_in_hours: hours,
+        funding,
+        buyer_wallet: wallet,
+        message: message.trim() || undefined,
+      });
+      if (out.approve) {
+        setApproval(out.approve);
+        setMsg(out.error);
+        return;
+      }
+      if (out.checkout_url) {
+        window.location.href = out.checkout_url;
+        return;
+      }
+      onPlaced?.();
+      onClose();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Could not place the offer.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function approve() {
+    if (!approval) return;
+    setBusy(true);
+    setMsg("Approving WETH — confirm in your wallet…");
+    try {
+      await approveWeth(approval);
+      setApproval(null);
+      setMsg("Approved. Place the offer again.");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Approval failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-md rounded-2xl bg-neutral-900 text-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-white/10 p-4">
+          <h2 className="text-lg font-semibold">Make an offer</h2>
+          <button className="rounded-lg px-2 py-1 hover:bg-white/10" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="grid gap-3 p-4">
+          <div className="flex gap-2">
+            <input
+              className="input flex-1"
+              type="number"
+              min="0"
+              step="any"
+              placeholder={isEdition ? "Amount per edition" : "Amount"}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <input
+              className="input w-24"
+              value={currency}
+              disabled={funding === "weth_allowance"}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              aria-label="Currency"
+            />
+          </div>
+
+          {isEdition && (
+            <label className="grid gap-1">
+              <span className="text-sm text-white/70">Quantity</span>
+              <input
+                className="input"
+                type="number"
+                min={1}
+                max={maxQuantity ?? undefined}
+                step={1}
+                value={quantity}
+                onChange={(e) =>
+                  setQuantity(Math.max(1, Math.min(Math.floor(Number(e.target.value) || 1), maxQuantity ?? Infinity)))
+                }
+              />
+            </label>
+          )}
+
+          <div className="grid gap-1">
+            <span className="text-sm text-white/70">Backed by</span>
+            {FUNDING.map((f) => (
+              <label key={f.id} className="flex items-start gap-2 text-sm">
+                <input type="radio" name="funding" checked={funding === f.id} onChange={() => setFunding(f.id)} />
+                <span>
+                  {f.label}
+                  <span className="block text-xs text-white/50">{f.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <label className="grid gap-1">
+            <span className="text-sm text-white/70">Expires after</span>
+            <select className="input" value={hours} onChange={(e) => setHours(Number(e.target.value))}>
+              <option value={24}>1 day</option>
+              <option value={72}>3 days</option>
+              <option value={168}>7 days</option>
+              {funding !== "stripe_preauth" && <option value={720}>30 days</option>}
+            </select>
+          </label>
+
+          <textarea
+            className="input"
+            rows={2}
+            maxLength={1000}
+            placeholder="Message to the seller (optional)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+
+          {msg && <div className="text-sm text-white/80">{msg}</div>}
+
+          <div className="flex gap-2">
+            {approval && (
+              <button className="btn flex-1" onClick={approve} disabled={busy}>
+                Approve WETH
+              </button>
+            )}
+            <button className="btn flex-1" onClick={submit} disabled={busy || !!approval}>
+              {busy ? "Working…" : funding === "stripe_preauth" ? "Continue to card" : "Place offer"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
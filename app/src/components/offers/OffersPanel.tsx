@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  acceptOffer,
+  counterOffer,
+  declineOffer,
+  listOffers,
+  payAcceptedOffer,
+  settleWethOffer,
+  withdrawOffer,
+  type Offer,
+} from "../../lib/offers";
+import { waitForOnchainSettlement } from "../../lib/checkout";
+import { ensureSepolia, getSignerAsync } from "../../lib/wallet";
+
+type Props = {
+  artworkId: string;
+  viewerId: string;
+  /** Called after an offer settles, so the page can reload ownership and sales. */
+  onSettled?: () => void;
+};
+
+const LIVE = new Set(["awaiting_funds", "open"]);
+
+function fmt(o: Offer) {
+  const total = Number(o.amount) * o.quantity;
+  return `${total} ${o.currency}${o.quantity > 1 ? ` (${o.quantity} × ${o.amount})` : ""}`;
+}
+
+/** The viewer's offers on this artwork, made or received, with whatever they can do next. */
+export default function OffersPanel({ artworkId, viewerId, onSettled }: Props) {
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [counterFor, setCounterFor] = useState<string | null>(null);
+  const [counterAmt, setCounterAmt] = useState("");
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setOffers(await listOffers({ artworkId }));
+    } catch {
+      setOffers([]);
+    }
+  }, [artworkId]);
+
+  useEffect(() => {
+    load();
+  }, [load, viewerId]);
+
+  async function run(id: string, fn: () => Promise<string | void>) {
+    setBusyId(id);
+    setMsg(null);
+    try {
+      const note = await fn();
+      if (note) setMsg(note);
+      await load();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const onAccept = (o: Offer) =>
+    run(o.id, async () => {
+      const out = await acceptOffer(o.id);
+      if (out.status === "paid") {
+        onSettled?.();
+        return "Offer accepted and paid ✔️";
+      }
+      if (out.instructions) {
+        setMsg("Accepted — send the WETH transfer from your wallet…");
+        await settleWethOffer(o.id, out.instructions);
+        onSettled?.();
+        return "WETH received, sale complete ✔️";
+      }
+      return "Accepted — the buyer has been asked to pay.";
+    });
+
+  const onPay = (o: Offer) =>
+    run(o.id, async () => {
+      // ETH is paid from the wallet the order is opened with
+      let signer: Awaited<ReturnType<typeof getSignerAsync>> | null = null;
+      if (o.currency === "ETH") {
+        await ensureSepolia();
+        signer = await getSignerAsync();
+      }
+      const session = await payAcceptedOffer(o.id, undefined, signer ? await signer.getAddress() : undefined);
+      if (session.checkout_url) {
+        window.location.href = session.checkout_url;
+        return;
+      }
+      const pay = session.instructions;
+      if (!pay || !signer) throw new Error("No payment instructions returned.");
+      const tx = await signer.sendTransaction({ to: pay.to, value: pay.value, ...(pay.data ? { data: pay.data } : {}) });
+      setMsg("Payment sent — waiting for confirmations…");
+      await waitForOnchainSettlement(session.order_id, tx.hash, pay.chain_id);
+      onSettled?.();
+      return "Purchase confirmed ✔️";
+    });
+
+  const onCounter = (o: Offer) =>
+    run(o.id, async () => {
+      const amt = Number(counterAmt);
+      if (!isFinite(amt) || amt <= 0) throw new Error("Enter a valid amount");
+      await counterOffer(o.id, amt);
+      setCounterFor(null);
+      setCounterAmt("");
+      return "Counter-offer sent.";
+    });
+
+  if (!offers.length) return null;
+
+  return (
+    <div className="card space-y-3">
+      <h3 className="font-semibold">Offers</h3>
+      {offers.map((o) => {
+        const mine = (o.made_by === "buyer" ? o.buyer_id : o.seller_id) === viewerId;
+        const live = LIVE.has(o.status) && new Date(o.expires_at).getTime() > Date.now();
+        const busy = busyId === o.id;
+        return (
+          <div key={o.id} className="rounded-lg border border-white/10 p-3 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <div className="font-medium">
+                  {fmt(o)} {o.made_by === "seller" && <span className="text-white/60">· counter</span>}
+                </div>
+                <div className="text-xs text-white/60">
+                  {mine ? "You offered" : "Offered to you"} · {o.status.replace("_", " ")}
+                  {live ? ` · expires ${new Date(o.expires_at).toLocaleString()}` : ""}
+                  {o.funding === "stripe_preauth" ? " · card hold" : o.funding === "weth_allowance" ? " · WETH" : ""}
+                </div>
+                {o.message && <div className="text-xs text-white/70 mt-1">“{o.message}”</div>}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {live && mine && (
+                <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => run(o.id, () => withdrawOffer(o.id).then(() => "Offer withdrawn."))}>
+                  Withdraw
+                </button>
+              )}
+              {o.status === "open" && live && !mine && (
+                <>
+                  <button className="btn" disabled={busy} onClick={() => onAccept(o)}>
+                    Accept
+                  </button>
+                  <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => setCounterFor(counterFor === o.id ? null : o.id)}>
+                    Counter
+                  </button>
+                  <button className="btn bg-white/0 border border-white/20" disabled={busy} onClick={() => run(o.id, () => declineOffer(o.id).then(() => "Offer declined."))}>
+                    Decline
+                  </button>
+                </>
+              )}
+              {o.status === "accepted" && o.funding === "none" && o.buyer_id === viewerId && (
+                <button className="btn" disabled={busy} onClick={() => onPay(o)}>
+                  Pay {fmt(o)}
+                </button>
+              )}
+            </div>
+
+            {counterFor === o.id && (
+              <div className="flex gap-2">
+                <input
+                  className="input flex-1"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder={`Amount per unit (${o.currency})`}
+                  value={counterAmt}
+                  onChange={(e) => setCounterAmt(e.target.value)}
+                />
+                <button className="btn" disabled={busy} onClick={() => onCounter(o)}>
+                  Send
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {msg && <div className="text-sm text-white/80">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import {
+  buyShippingLabel,
+  listCarrierProviders,
+  quoteShippingRates,
+  validateShippingAddress,
+  type CarrierProviderId,
+  type ShippingAddress,
+  type ShippingQuote,
+} from "../../lib/shipping";
+
+type Props = {
+  artworkId: string;
+  onClose: () => void;
+  /** Called with the new shipment once postage is bought. */
+  onBought: (shipmentId: string) => void | Promise<void>;
+};
+
+const EMPTY: ShippingAddress = { name: "", street1: "", street2: "", city: "", state: "", zip: "", country: "US", phone: "" };
+
+function AddressFields({ title, value, onChange }: { title: string; value: ShippingAddress; onChange: (a: ShippingAddress) => void }) {
+  const set = (k: keyof ShippingAddress) => (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [k]: e.target.value });
+  return (
+    <div className="grid gap-2">
+      <span className="text-sm text-white/70">{title}</span>
+      <input className="input" placeholder="Full name" value={value.name} onChange={set("name")} />
+      <input className="input" placeholder="Street address" value={value.street1} onChange={set("street1")} />
+      <input className="input" placeholder="Apt, suite (optional)" value={value.street2 ?? ""} onChange={set("street2")} />
+      <div className="flex gap-2">
+        <input className="input flex-1" placeholder="City" value={value.city} onChange={set("city")} />
+        <input className="input w-24" placeholder="State" value={value.state ?? ""} onChange={set("state")} />
+      </div>
+      <div className="flex gap-2">
+        <input className="input flex-1" placeholder="Postal code" value={value.zip} onChange={set("zip")} />
+        <input className="input w-20" placeholder="US" maxLength={2} value={value.country} onChange={set("country")} aria-label="Country" />
+      </div>
+      <input className="input" placeholder="Phone (carriers may require it)" value={value.phone ?? ""} onChange={set("phone")} />
+    </div>
+  );
+}
+
+/** Quote and buy a shipping label for a physical artwork; the shipment is created with tracking set. */
+export default function BuyLabelModal({ artworkId, onClose, onBought }: Props) {
+  const [providers, setProviders] = useState<CarrierProviderId[]>([]);
+  const [provider, setProvider] = useState<CarrierProviderId | "">("");
+  const [from, setFrom] = useState<ShippingAddress>(EMPTY);
+  const [to, setTo] = useState<ShippingAddress>(EMPTY);
+  const [weight, setWeight] = useState("");
+  const [weightUnit, setWeightUnit] = useState<"oz" | "lb" | "g" | "kg">("kg");
+  const [box, setBox] = useState({ length: "", width: "", height: "", unit: "cm" as "in" | "cm" });
+  const [quote, setQuote] = useState<ShippingQuote | null>(null);
+  const [rateId, setRateId] = useState<string | null>(null);
+  const [labelUrl, setLabelUrl] = useState<string | null>(null);
+  const [customsUrl, setCustomsUrl] = useState<string | null>(null);
+  const [declared, setDeclared] = useState("");
+  const [declaredCurrency, setDeclaredCurrency] = useState("USD");
+  const [insure, setInsure] = useState(true);
+  const [hsCode, setHsCode] = useState("");
+  const [contents, setContents] = useState("");
+  const [origin, setOrigin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    listCarrierProviders()
+      .then((p) => {
+        setProviders(p);
+        setProvider(p[0] ?? "");
+      })
+      .catch(() => setProviders([]));
+  }, []);
+
+  const international = !!from.country && !!to.country && from.country.toUpperCase() !== to.country.toUpperCase();
+
+  async function getRates() {
+    setBusy(true);
+    setMsg(null);
+    setQuote(null);
+    try {
+      const w = Number(weight);
+      if (!isFinite(w) || w <= 0) throw new Error("Enter the packed weight.");
+      const p = provider || undefined;
+
+      // carriers reject labels for undeliverable addresses; check the recipient first
+      const check = await validateShippingAddress(to, p);
+      if (!check.valid) throw new Error(`Recipient address: ${check.messages.join("; ") || "not deliverable"}`);
+      setTo(check.address);
+
+      const dims = box.length && box.width && box.height
+        ? { length: Number(box.length), width: Number(box.width), height: Number(box.height), dim_unit: box.unit }
+        : {};
+      const value = Number(declared);
+      if (declared && (!isFinite(value) || value <= 0)) throw new Error("Enter a valid declared value.");
+      const q = await quoteShippingRates({
+        artwork_id: artworkId,
+        provider: p,
+        from,
+        to: check.address,
+        parcel: { weight: w, weight_unit: weightUnit, ...dims },
+        // empty: the server takes the sale price
+        declared_value: declared ? { amount: value, currency: declaredCurrency } : null,
+        insure,
+        customs: international
+          ? { description: contents || null, hs_code: hsCode || null, origin_country: origin || null }
+          : null,
+      });
+      setQuote(q);
+      setRateId(q.rates[0]?.id ?? null);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Couldn’t get rates.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function buy() {
+    if (!quote || !rateId) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const out = await buyShippingLabel(quote.quote_id, rateId);
+      setLabelUrl(out.label_url);
+      setCustomsUrl(out.customs_url);
+      setMsg(`Label bought — tracking ${out.shipment.tracking_number ?? "pending"} ✔️`);
+      await onBought(out.shipment.id);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Couldn’t buy the label.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl bg-neutral-900 text-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-white/10 p-4">
+          <h2 className="text-lg font-semibold">Buy a shipping label</h2>
+          <button className="rounded-lg px-2 py-1 hover:bg-white/10" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="grid gap-4 p-4">
+          {providers.length === 0 ? (
+            <div className="text-sm text-white/70">No carrier provider is configured. Add shipments by hand for now.</div>
+          ) : (
+            <>
+              {providers.length > 1 && (
+                <label className="grid gap-1">
+                  <span className="text-sm text-white/70">Provider</span>
+                  <select className="input" value={provider} onChange={(e) => setProvider(e.target.value as CarrierProviderId)}>
+                    {providers.map((p) => (
+                      <option key={p} value={p}>{p}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <AddressFields title="Ship from" value={from} onChange={setFrom} />
+                <AddressFields title="Ship to" value={to} onChange={setTo} />
+              </div>
+
+              <div className="grid gap-2">
+                <span className="text-sm text-white/70">Parcel</span>
+                <div className="flex gap-2">
+                  <input className="input flex-1" type="number" min="0" step="any" placeholder="Packed weight" value={weight} onChange={(e) => setWeight(e.target.value)} />
+                  <select className="input w-24" value={weightUnit} onChange={(e) => setWeightUnit(e.target.value as typeof weightUnit)}>
+                    <option value="kg">kg</option>
+                    <option value="g">g</option>
+                    <option value="lb">lb</option>
+                    <option value="oz">oz</option>
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  {(["length", "width", "height"] as const).map((k) => (
+                    <input
+                      key={k}
+                      className="input flex-1"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder={k[0].toUpperCase() + k.slice(1)}
+                      value={box[k]}
+                      onChange={(e) => setBox({ ...box, [k]: e.target.value })}
+                    />
+                  ))}
+                  <select className="input w-20" value={box.unit} onChange={(e) => setBox({ ...box, unit: e.target.value as "in" | "cm" })}>
+                    <option value="cm">cm</option>
+                    <option value="in">in</option>
+                  </select>
+                </div>
+                <div className="text-xs text-white/50">Leave the box size empty to use the artwork’s dimensions plus packing.</div>
+              </div>
+
+              <div className="grid gap-2">
+                <span className="text-sm text-white/70">Declared value</span>
+                <div className="flex gap-2">
+                  <input className="input flex-1" type="number" min="0" step="any" placeholder="Defaults to the sale price" value={declared} onChange={(e) => setDeclared(e.target.value)} />
+                  <input className="input w-24" value={declaredCurrency} onChange={(e) => setDeclaredCurrency(e.target.value.toUpperCase())} aria-label="Currency" />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={insure} onChange={(e) => setInsure(e.target.checked)} />
+                  Insure for the declared value
+                </label>
+              </div>
+
+              {international && (
+                <div className="grid gap-2">
+                  <span className="text-sm text-white/70">Customs</span>
+                  <input className="input" placeholder="Contents (suggested from the artwork)" value={contents} onChange={(e) => setContents(e.target.value)} />
+                  <div className="flex gap-2">
+                    <input className="input flex-1" placeholder="HS code (suggested from the medium)" value={hsCode} onChange={(e) => setHsCode(e.target.value)} />
+                    <input className="input w-32" placeholder="Origin (from)" maxLength={2} value={origin} onChange={(e) => setOrigin(e.target.value.toUpperCase())} />
+                  </div>
+                  <div className="text-xs text-white/50">A commercial invoice (or CN23 for postal carriers) is generated with the label.</div>
+                </div>
+              )}
+
+              <button className="btn" onClick={getRates} disabled={busy}>
+                {busy && !quote ? "Getting rates…" : "Get rates"}
+              </button>
+
+              {quote && (
+                <div className="grid gap-2">
+                  <span className="text-sm text-white/70">
+                    Box {quote.parcel.length} × {quote.parcel.width} × {quote.parcel.height} {quote.parcel.dimUnit}
+                    {quote.declared && ` · declared ${quote.declared.amount} ${quote.declared.currency}`}
+                    {quote.insurance && ` · insured ${quote.insurance.amount.toFixed(2)} ${quote.insurance.currency}`}
+                    {quote.customs && ` · HS ${quote.customs.hsCode}`}
+                  </span>
+                  {quote.rates.map((r) => (
+                    <label key={r.id} className="flex items-center gap-2 rounded-lg border border-white/10 p-2 text-sm">
+                      <input type="radio" name="rate" checked={rateId === r.id} onChange={() => setRateId(r.id)} />
+                      <span className="flex-1">
+                        {r.carrier} · {r.service}
+                        <span className="block text-xs text-white/50">
+                          {r.deliveryDate ? `by ${r.deliveryDate}` : r.days != null ? `${r.days} day${r.days === 1 ? "" : "s"}` : "transit time not given"}
+                        </span>
+                      </span>
+                      <span className="font-medium text-right">
+                        {r.amount.toFixed(2)} {r.currency}
+                        {r.insuranceCost != null && (
+                          <span className="block text-xs text-white/50">+ {r.insuranceCost.toFixed(2)} insurance</span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                  {!labelUrl && (
+                    <button className="btn" onClick={buy} disabled={busy || !rateId}>
+                      {busy ? "Buying…" : "Buy label"}
+                    </button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {msg && <div className="text-sm text-amber-300">{msg}</div>}
+          {labelUrl && (
+            <a className="btn text-center" href={labelUrl} target="_blank" rel="noreferrer">
+              Download label (PDF)
+            </a>
+          )}
+          {customsUrl && (
+            <a className="btn text-center" href={customsUrl} target="_blank" rel="noreferrer">
+              Download customs form (PDF)
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import {
+  addShipmentLeg,
+  fileConditionReport,
+  getShipmentLegs,
+  updateShipmentLeg,
+  HANDLER_ROLES,
+  LEG_STATUSES,
+  type Condition,
+  type ConditionReport,
+  type HandlerRole,
+  type LegStatus,
+  type ShipmentLeg,
+} from "../../lib/shipping";
+import SignaturePad, { type Signature } from "../SignaturePad";
+
+type Leg = ShipmentLeg & { reports: ConditionReport[] };
+
+type Props = {
+  shipmentId: string;
+  /** Reports and status changes move the shipment; the drawer reloads it. */
+  onChanged?: () => void | Promise<void>;
+};
+
+const CONDITIONS: Condition[] = ["excellent", "good", "fair", "damaged"];
+const label = (s: string) => s.replace(/_/g, " ");
+
+const EMPTY_LEG = { handler: "", handler_name: "", handler_role: "carrier" as HandlerRole, from_label: "", to_label: "", carrier: "", tracking_number: "" };
+
+/** The shipment's route, one leg per handler, with the condition report filed at each handoff. */
+export default function LegsPanel({ shipmentId, onChanged }: Props) {
+  const [legs, setLegs] = useState<Leg[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_LEG);
+
+  // report form, open for one leg at a time
+  const [reportFor, setReportFor] = useState<{ legId: string; stage: "pickup" | "delivery" } | null>(null);
+  const [condition, setCondition] = useState<Condition>("good");
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [signature, setSignature] = useState<Signature>({ name: "", image: null });
+
+  const load = useCallback(async () => {
+    try {
+      const out = await getShipmentLegs(shipmentId);
+      setLegs(out.legs);
+      setCanManage(out.can_manage);
+    } catch {
+      setLegs([]);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(fn: () => Promise<string>) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      setMsg(await fn());
+      await load();
+      if (onChanged) await onChanged();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const onAdd = () =>
+    run(async () => {
+      // a member handler is named by @username; anyone else by name only
+      let handlerId: string | null = null;
+      const handle = draft.handler.trim().replace(/^@/, "");
+      if (handle) {
+        const { data } = await supabase.from("profiles").select("id").eq("username", handle).maybeSingle();
+        if (!data) throw new Error(`No member @${handle}.`);
+        handlerId = data.id as string;
+      }
+      await addShipmentLeg(shipmentId, {
+        handler_id: handlerId,
+        handler_name: draft.handler_name || (handle ? `@${handle}` : null),
+        handler_role: draft.handler_role,
+        from_label: draft.from_label || null,
+        to_label: draft.to_label || null,
+        carrier: draft.carrier || null,
+        tracking_number: draft.tracking_number || null,
+      });
+      setDraft(EMPTY_LEG);
+      setAdding(false);
+      return "Leg added.";
+    });
+
+  const onStatus = (leg: Leg, status: LegStatus) =>
+    run(() => updateShipmentLeg(shipmentId, leg.id, { status }).then(() => `Leg ${leg.seq} marked ${label(status)}.`));
+
+  function openReport(legId: string, stage: "pickup" | "delivery") {
+    setReportFor({ legId, stage });
+    setCondition("good");
+    setNotes("");
+    setPhotos([]);
+    setSignature({ name: "", image: null });
+  }
+
+  const onReport = () =>
+    run(async () => {
+      if (!reportFor) return "";
+      if (!signature.name.trim()) throw new Error("Sign the report with your name.");
+      await fileConditionReport(shipmentId, reportFor.legId, {
+        stage: reportFor.stage,
+        condition,
+        notes: notes || null,
+        photos,
+        signature: { name: signature.name.trim(), image: signature.image },
+      });
+      setReportFor(null);
+      return "Condition report filed ✅";
+    });
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.04]">
+      <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between gap-2">
+        <span className="text-base font-semibold">Route &amp; Chain of Custody</span>
+        {canManage && !adding && (
+          <button className="text-sm rounded-lg px-3 py-1.5 border border-white/20 hover:bg-white/10" onClick={() => setAdding(true)}>
+            Add leg
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3 text-sm">
+        {legs.length === 0 && !adding && (
+          <div className="text-white/70">
+            One carrier, straight to the buyer. Add legs when the work passes through a framer, gallery or courier.
+          </div>
+        )}
+
+        {legs.map((leg) => {
+          const open = reportFor?.legId === leg.id;
+          return (
+            <div key={leg.id} className="rounded-xl border border-white/10 p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <b>Leg {leg.seq}</b>
+                <span className="rounded-full bg-white/10 px-2 py-0.5 text-[11px]">{label(leg.status)}</span>
+                <span className="text-white/80">
+                  {leg.handler_name || leg.carrier || "Unassigned"}
+                  <span className="text-white/50"> · {leg.handler_role}</span>
+                </span>
+                {(leg.from_label || leg.to_label) && (
+                  <span className="text-white/60">
+                    {leg.from_label || "?"} → {leg.to_label || "?"}
+                  </span>
+                )}
+              </div>
+              {(leg.carrier || leg.tracking_number) && (
+                <div className="text-white/70">
+                  {leg.carrier || leg.tracking_slug || "Carrier"} {leg.tracking_number && `· ${leg.tracking_number}`}
+                </div>
+              )}
+
+              {leg.reports.map((r) => (
+                <div key={r.id} className="rounded-lg bg-white/[0.04] p-2 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{r.stage === "delivery" ? "Delivery report" : "Pickup report"}</span>
+                    <span className={r.condition === "damaged" ? "text-rose-300" : "text-white/70"}>{r.condition}</span>
+                    <span className="text-white/50 text-xs">{new Date(r.created_at).toLocaleString()}</span>
+                  </div>
+                  {r.notes && <div className="text-white/80">{r.notes}</div>}
+                  {r.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {r.photos.map((url) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                          <img src={url} className="h-16 w-16 rounded-md object-cover border border-white/10" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {r.signature && (
+                    <div className="flex items-center gap-2 text-xs text-white/60">
+                      {r.signature.image_url ? (
+                        <img src={r.signature.image_url} className="h-8 rounded bg-white px-1" alt={`Signature of ${r.signature.name}`} />
+                      ) : (
+                        <span className="italic" style={{ fontFamily: "cursive" }}>{r.signature.name}</span>
+                      )}
+                      <span>
+                        signed by {r.signature.name} · {new Date(r.signature.signed_at).toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {!open && (
+                <div className="flex flex-wrap gap-2">
+                  <button className="btn px-2 py-1 text-xs" onClick={() => openReport(leg.id, "pickup")} disabled={busy}>
+                    Report pickup
+                  </button>
+                  <button className="btn px-2 py-1 text-xs" onClick={() => openReport(leg.id, "delivery")} disabled={busy}>
+                    Report delivery
+                  </button>
+                  {canManage && (
+                    <select
+                      className="input px-2 py-1 text-xs w-40"
+                      value={leg.status}
+                      onChange={(e) => onStatus(leg, e.target.value as LegStatus)}
+                      disabled={busy}
+                      aria-label="Leg status"
+                    >
+                      {LEG_STATUSES.map((s) => (
+                        <option key={s} value={s}>{label(s)}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
+              {open && (
+                <div className="space-y-3 rounded-lg border border-white/10 p-3">
+                  <div className="font-medium">
+                    {reportFor?.stage === "pickup" ? "Condition at pickup" : "Condition on delivery"}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {CONDITIONS.map((c) => (
+                      <label key={c} className="flex items-center gap-1">
+                        <input type="radio" name={`condition-${leg.id}`} checked={condition === c} onChange={() => setCondition(c)} />
+                        {c}
+                      </label>
+                    ))}
+                  </div>
+                  <textarea
+                    className="input w-full min-h-[70px]"
+                    placeholder="Notes: packaging, corners, surface, frame…"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  />
+                  <label className="grid gap-1">
+                    <span className="text-white/70">Photos</span>
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp,image/heic"
+                      multiple
+                      onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, 12))}
+                    />
+                    {photos.length > 0 && <span className="text-xs text-white/50">{photos.length} selected</span>}
+                  </label>
+                  <SignaturePad value={signature} onChange={setSignature} />
+                  <div className="flex gap-2">
+                    <button className="btn" onClick={onReport} disabled={busy}>
+                      {busy ? "Filing…" : "Sign & file report"}
+                    </button>
+                    <button className="btn" onClick={() => setReportFor(null)} disabled={busy}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {adding && (
+          <div className="rounded-xl border border-white/10 p-3 space-y-2">
+            <div className="flex gap-2">
+              <input
+                className="input flex-1"
+                placeholder="Handler name (framer, gallery…)"
+                value={draft.handler_name}
+                onChange={(e) => setDraft({ ...draft, handler_name: e.target.value })}
+              />
+              <input
+                className="input w-40"
+                placeholder="@username (optional)"
+                value={draft.handler}
+                onChange={(e) => setDraft({ ...draft, handler: e.target.value })}
+              />
+              <select
+                className="input w-32"
+                value={draft.handler_role}
+                onChange={(e) => setDraft({ ...draft, handler_role: e.target.value as HandlerRole })}
+              >
+                {HANDLER_ROLES.map((r) => (
+                  <option key={r} value={r}>{r}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <input className="input flex-1" placeholder="From" value={draft.from_label} onChange={(e) => setDraft({ ...draft, from_label: e.target.value })} />
+              <input className="input flex-1" placeholder="To" value={draft.to_label} onChange={(e) => setDraft({ ...draft, to_label: e.target.value })} />
+            </div>
+            <div className="flex gap-2">
+              <input className="input flex-1" placeholder="Carrier (optional)" value={draft.carrier} onChange={(e) => setDraft({ ...draft, carrier: e.target.value })} />
+              <input
+                className="input flex-1"
+                placeholder="Tracking # (optional)"
+                value={draft.tracking_number}
+                onChange={(e) => setDraft({ ...draft, tracking_number: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button className="btn" onClick={onAdd} disabled={busy}>
+                {busy ? "Saving…" : "Save leg"}
+              </button>
+              <button className="btn" onClick={() => setAdding(false)} disabled={busy}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {msg && <div className="text-amber-300">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,16 @@ import {
   listShipmentEvents,
   updateShipmentDetails,
   confirmShipmentReceived,
+  getShippingLabelUrl,
+  getCustomsDocUrl,
+  insureShipment,
+  updateShipmentCustoms,
   type ShipmentStatus,
+  type ShippingAddress,
   SHIPMENT_STATUSES,
 } from "../../lib/shipping";
+import LegsPanel from "./LegsPanel";
+import { confirmReceipt, fetchArtworkEscrow, openDispute, type EscrowOrder } from "../../lib/escrow";
 
 type Shipment = {
   id: string;
@@ -26,6 +33,22 @@ type Shipment = {
   buyer_confirmed_at?: string | null;
   buyer_confirmed_by?: string | null;
   tracking_slug?: string | null;
+  label_path?: string | null;
+  label_service?: string | null;
+  label_provider?: string | null;
+  from_address?: ShippingAddress | null;
+  to_address?: ShippingAddress | null;
+  declared_value?: number | null;
+  declared_currency?: string | null;
+  insured_value?: number | null;
+  insured_currency?: string | null;
+  insurance_cost?: number | null;
+  insurance_currency?: string | null;
+  hs_code?: string | null;
+  customs_description?: string | null;
+  origin_country?: string | null;
+  customs_doc_kind?: "commercial_invoice" | "cn23" | null;
+  customs_doc_path?: string | null;
   last_checkpoint?: {
     code?: string;
     message?: string;
@@ -41,6 +64,8 @@ type EventRow = {
   code: string;
   message: string | null;
   source?: string | null;
+  leg_id?: string | null;
+  condition?: string | null;
   created_at: string;
 };
 
@@ -83,6 +108,12 @@ export default function ShipmentManager({
   const [confirmBusy, setConfirmBusy] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
 
+  // physical-sale escrow (payment and ownership wait for delivery)
+  const [escrow, setEscrow] = useState<EscrowOrder | null>(null);
+  const [disputeOpen, setDisputeOpen] = useState(false);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [disputeBusy, setDisputeBusy] = useState(false);
+
   // form fields
   const [status, setStatus] = useState<ShipmentStatus | "">("");
   const [carrier, setCarrier] = useState("");
@@ -90,6 +121,14 @@ export default function ShipmentManager({
   const [eta, setEta] = useState(""); // yyyy-mm-dd
   const [note, setNote] = useState("");
 
+  // customs & insurance form
+  const [declared, setDeclared] = useState("");
+  const [declaredCurrency, setDeclaredCurrency] = useState("");
+  const [hsCode, setHsCode] = useState("");
+  const [contents, setContents] = useState("");
+  const [origin, setOrigin] = useState("");
+  const [customsBusy, setCustomsBusy] = useState(false);
+
   useEffect(() => {
     (async () => {
       const { data } = await supabase.auth.getSession();
@@ -110,22 +149,28 @@ export default function ShipmentManager({
         setTracking(s.tracking_number || "");
         setEta(s.estimated_delivery_date || "");
         setNote("");
+        fillCustoms(s);
 
         const ev = (await listShipmentEvents(shipmentId)) as EventRow[];
         setEvents(ev);
 
-        // artwork + buyer (current owner)
+        // escrowed sale: the seller still owns the work until it's released
+        const esc = await fetchArtworkEscrow(artworkId).catch(() => null);
+        setEscrow(esc);
+
+        // artwork + buyer (escrow buyer, else current owner)
         const { data: a } = await supabase
           .from("artworks")
           .select("id,title,image_url,owner_id")
           .eq("id", artworkId)
           .maybeSingle();
         if (a) setArt(a as Artwork);
-        if (a?.owner_id) {
+        const buyerId = esc?.buyer_id ?? a?.owner_id;
+        if (buyerId) {
           const { data: p } = await supabase
             .from("profiles")
             .select("id,username,display_name,avatar_url")
-            .eq("id", a.owner_id as string)
+            .eq("id", buyerId as string)
             .maybeSingle();
           if (p) setBuyer(p as Profile);
         }
@@ -146,6 +191,14 @@ export default function ShipmentManager({
     []
   );
 
+  function fillCustoms(s: Shipment) {
+    setDeclared(s.declared_value != null ? String(s.declared_value) : "");
+    setDeclaredCurrency(s.declared_currency || "USD");
+    setHsCode(s.hs_code || "");
+    setContents(s.customs_description || "");
+    setOrigin(s.origin_country || "");
+  }
+
   async function onUpdate() {
     if (!shipment) return;
     setBusy(true);
@@ -178,7 +231,100 @@ export default function ShipmentManager({
 
   const currentStatus = (shipment?.status_v2 as ShipmentStatus) || (shipment?.status as ShipmentStatus) || "unknown";
   const isDelivered = currentStatus === "delivered";
-  const viewerIsBuyer = !!viewerId && !!art?.owner_id && viewerId === art.owner_id;
+  const buyerId = escrow?.buyer_id ?? art?.owner_id ?? null;
+  const viewerIsBuyer = !!viewerId && !!buyerId && viewerId === buyerId;
+  const escrowHeld = escrow?.escrow_status === "held";
+  const inspectionOpen =
+    escrowHeld && (!escrow?.escrow_release_after || new Date(escrow.escrow_release_after).getTime() > Date.now());
+
+  async function onConfirmReceived() {
+    if (!shipment) return;
+    try {
+      setConfirmBusy(true);
+      // escrowed sales release through the order; the rest just stamp the shipment
+      if (escrowHeld) setEscrow(await confirmReceipt(escrow!.id));
+      else await confirmShipmentReceived(shipment.id);
+      if (onChanged) await onChanged();
+      const fresh = (await getShipmentById(shipment.id)) as Shipment;
+      setShipment(fresh);
+      const ev = (await listShipmentEvents(shipment.id)) as EventRow[];
+      setEvents(ev);
+      setMsg("Thanks — receipt confirmed ✅");
+    } catch (e: any) {
+      setMsg(e?.message || "Failed to confirm.");
+    } finally {
+      setConfirmBusy(false);
+    }
+  }
+
+  // legs move the shipment's status; pick up what they changed
+  async function onLegsChanged() {
+    if (!shipment) return;
+    const fresh = (await getShipmentById(shipment.id)) as Shipment;
+    setShipment(fresh);
+    setStatus((fresh.status_v2 as ShipmentStatus) || (fresh.status as ShipmentStatus) || "");
+    setEvents((await listShipmentEvents(shipment.id)) as EventRow[]);
+    if (onChanged) await onChanged();
+  }
+
+  async function onSaveCustoms() {
+    if (!shipment) return;
+    const value = Number(declared);
+    if (declared && (!isFinite(value) || value <= 0)) {
+      setMsg("Enter a valid declared value.");
+      return;
+    }
+    try {
+      setCustomsBusy(true);
+      setMsg(null);
+      const out = await updateShipmentCustoms(shipment.id, {
+        declared_value: declared ? { amount: value, currency: declaredCurrency || "USD" } : null,
+        description: contents || null,
+        hs_code: hsCode || null,
+        origin_country: origin || null,
+      });
+      const fresh = out.shipment as Shipment;
+      setShipment(fresh);
+      fillCustoms(fresh);
+      setMsg(out.customs_url ? "Customs details saved — customs form regenerated ✅" : "Customs details saved ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to save customs details.");
+    } finally {
+      setCustomsBusy(false);
+    }
+  }
+
+  async function onInsure() {
+    if (!shipment) return;
+    try {
+      setCustomsBusy(true);
+      setMsg(null);
+      const fresh = (await insureShipment(shipment.id)) as Shipment;
+      setShipment(fresh);
+      if (onChanged) await onChanged();
+      setMsg("Shipment insured ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to insure the shipment.");
+    } finally {
+      setCustomsBusy(false);
+    }
+  }
+
+  async function onOpenDispute() {
+    if (!escrow || disputeReason.trim().length < 5) return;
+    try {
+      setDisputeBusy(true);
+      await openDispute(escrow.id, disputeReason.trim());
+      setEscrow({ ...escrow, escrow_status: "disputed" });
+      setDisputeOpen(false);
+      setDisputeReason("");
+      setMsg("Problem reported — payment is on hold until support resolves it.");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to report the problem.");
+    } finally {
+      setDisputeBusy(false);
+    }
+  }
 
   const StatusPill = ({ v }: { v: ShipmentStatus | null }) => {
     const code = (v || "unknown") as ShipmentStatus;
@@ -223,34 +369,63 @@ export default function ShipmentManager({
         <div className="p-5 grid gap-5 lg:grid-cols-12">
           {/* Left: buyer confirm + form */}
           <div className="lg:col-span-7 space-y-5">
+            {/* Escrow status */}
+            {escrow && (
+              <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4 text-sm">
+                <div className="font-medium">Payment in escrow</div>
+                {escrowHeld && !escrow.escrow_release_after && (
+                  <div className="text-white/70">Held until the artwork is delivered.</div>
+                )}
+                {escrowHeld && escrow.escrow_release_after && (
+                  <div className="text-white/70">
+                    Delivered — releases to the seller on {new Date(escrow.escrow_release_after).toLocaleString()} unless a
+                    problem is reported.
+                  </div>
+                )}
+                {escrow.escrow_status === "disputed" && (
+                  <div className="text-amber-300">A problem was reported; support is reviewing it.</div>
+                )}
+                {escrow.escrow_status === "released" && (
+                  <div className="text-emerald-300">
+                    Released{escrow.escrow_released_at ? ` on ${new Date(escrow.escrow_released_at).toLocaleString()}` : ""}.
+                  </div>
+                )}
+                {escrow.escrow_status === "refunded" && <div className="text-white/70">Refunded to the buyer.</div>}
+
+                {viewerIsBuyer && inspectionOpen && disputeOpen && (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      className="input w-full min-h-[70px]"
+                      value={disputeReason}
+                      onChange={(e) => setDisputeReason(e.target.value)}
+                      placeholder="What’s wrong? (damaged, not as described, never arrived…)"
+                    />
+                    <div className="flex gap-2">
+                      <button className="btn" onClick={onOpenDispute} disabled={disputeBusy || disputeReason.trim().length < 5}>
+                        {disputeBusy ? "Sending…" : "Report problem"}
+                      </button>
+                      <button className="btn" onClick={() => setDisputeOpen(false)} disabled={disputeBusy}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Buyer confirm block */}
-            {isDelivered && viewerIsBuyer && !shipment?.buyer_confirmed_at && (
+            {viewerIsBuyer && (escrowHeld || (isDelivered && !shipment?.buyer_confirmed_at)) && (
               <div className="rounded-2xl border border-emerald-500/30 bg-emerald-400/10 p-4">
                 <div className="flex items-center justify-between gap-3">
                   <div>
                     <div className="font-medium">Mark as received</div>
-                    <div className="text-sm text-white/70">Confirm you’ve received the artwork.</div>
+                    <div className="text-sm text-white/70">
+                      {escrowHeld
+                        ? "Confirm you’ve received the artwork in good condition; this releases the payment."
+                        : "Confirm you’ve received the artwork."}
+                    </div>
                   </div>
-                  <button
-                    className="btn"
-                    disabled={confirmBusy}
-                    onClick={async () => {
-                      try {
-                        setConfirmBusy(true);
-                        await confirmShipmentReceived(shipment!.id);
-                        if (onChanged) await onChanged();
-                        const fresh = (await getShipmentById(shipment!.id)) as Shipment;
-                        setShipment(fresh);
-                        const ev = (await listShipmentEvents(shipment!.id)) as EventRow[];
-                        setEvents(ev);
-                        setMsg("Thanks — receipt confirmed ✅");
-                      } catch (e: any) {
-                        setMsg(e?.message || "Failed to confirm.");
-                      } finally {
-                        setConfirmBusy(false);
-                      }
-                    }}
-                  >
+                  <button className="btn" disabled={confirmBusy} onClick={onConfirmReceived}>
                     {confirmBusy ? "Confirming…" : "Confirm received"}
                   </button>
                 </div>
@@ -343,6 +518,8 @@ export default function ShipmentManager({
               </div>
             </div>
 
+            {shipment && <LegsPanel shipmentId={shipment.id} onChanged={onLegsChanged} />}
+
             {/* Status history */}
             <div className="rounded-2xl border border-white/10 bg-white/[0.04]">
               <div className="px-4 py-3 border-b border-white/10 flex items-center gap-2">
@@ -359,6 +536,7 @@ export default function ShipmentManager({
                         <div className="flex-1">
                           <div className="font-medium">
                             {e.code.replace(/_/g, " ")}{" "}
+                            {e.condition && <span className="text-sm text-white/70">({e.condition}) </span>}
                             <span className="text-xs text-white/50">
                               {e.source ? `• ${e.source}` : null}
                             </span>
@@ -407,7 +585,23 @@ export default function ShipmentManager({
                 <span className="text-base font-semibold">Shipping Address</span>
               </div>
               <div className="p-4 text-sm">
-                <div className="text-white/70">Address management not yet connected.</div>
+                {shipment?.to_address ? (
+                  <div className="space-y-0.5">
+                    {[
+                      shipment.to_address.name,
+                      shipment.to_address.street1,
+                      shipment.to_address.street2,
+                      [shipment.to_address.city, shipment.to_address.state, shipment.to_address.zip].filter(Boolean).join(" "),
+                      shipment.to_address.country,
+                    ]
+                      .filter(Boolean)
+                      .map((l, i) => (
+                        <div key={i}>{l}</div>
+                      ))}
+                  </div>
+                ) : (
+                  <div className="text-white/70">Address management not yet connected.</div>
+                )}
               </div>
             </div>
 
@@ -422,6 +616,21 @@ export default function ShipmentManager({
                 <div>{shipment?.tracking_number || "—"}</div>
                 <div className="text-white/60">Estimated Delivery</div>
                 <div>{shipment?.estimated_delivery_date || "—"}</div>
+                {shipment?.label_path && canEdit && (
+                  <>
+                    <div className="text-white/60">Label</div>
+                    <button
+                      className="underline text-left"
+                      onClick={() =>
+                        getShippingLabelUrl(shipment.id)
+                          .then((url) => window.open(url, "_blank", "noopener"))
+                          .catch((e) => setMsg(e instanceof Error ? e.message : "Label unavailable."))
+                      }
+                    >
+                      {shipment.label_service ? `${shipment.label_service} label (PDF)` : "Download PDF"}
+                    </button>
+                  </>
+                )}
                 {shipment?.last_checkpoint && (
                   <>
                     <div className="text-white/60">Last Checkpoint</div>
@@ -443,12 +652,122 @@ export default function ShipmentManager({
               </div>
             </div>
 
+            <div className="rounded-2xl border border-white/10 bg-white/[0.04]">
+              <div className="px-4 py-3 border-b border-white/10 flex items-center gap-2">
+                <span className="text-base font-semibold">Customs &amp; Insurance</span>
+              </div>
+              <div className="p-4 text-sm space-y-2">
+                <div className="text-white/60">Declared Value</div>
+                {canEdit ? (
+                  <div className="flex gap-2">
+                    <input
+                      className="input flex-1"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Defaults to the sale price"
+                      value={declared}
+                      onChange={(e) => setDeclared(e.target.value)}
+                    />
+                    <input
+                      className="input w-20"
+                      value={declaredCurrency}
+                      onChange={(e) => setDeclaredCurrency(e.target.value.toUpperCase())}
+                      aria-label="Currency"
+                    />
+                  </div>
+                ) : (
+                  <div>{shipment?.declared_value != null ? `${shipment.declared_value} ${shipment.declared_currency ?? ""}` : "—"}</div>
+                )}
+
+                <div className="text-white/60">Insurance</div>
+                {shipment?.insured_value != null ? (
+                  <div>
+                    Insured for {shipment.insured_value} {shipment.insured_currency}
+                    {shipment.insurance_cost != null && (
+                      <span className="text-white/50"> · cost {shipment.insurance_cost} {shipment.insurance_currency}</span>
+                    )}
+                  </div>
+                ) : shipment?.label_provider && canEdit ? (
+                  <button
+                    className="rounded-lg border border-white/20 px-3 py-1.5 hover:bg-white/10 disabled:opacity-50"
+                    onClick={onInsure}
+                    disabled={customsBusy || shipment.declared_value == null}
+                  >
+                    Insure for declared value
+                  </button>
+                ) : (
+                  <div>Not insured</div>
+                )}
+
+                <div className="text-white/60">Customs Declaration</div>
+                {canEdit ? (
+                  <div className="space-y-2">
+                    <input
+                      className="input w-full"
+                      placeholder="Contents description"
+                      value={contents}
+                      onChange={(e) => setContents(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        className="input flex-1"
+                        placeholder="HS code"
+                        value={hsCode}
+                        onChange={(e) => setHsCode(e.target.value)}
+                      />
+                      <input
+                        className="input w-24"
+                        placeholder="Origin"
+                        maxLength={2}
+                        value={origin}
+                        onChange={(e) => setOrigin(e.target.value.toUpperCase())}
+                      />
+                    </div>
+                    <button
+                      className="rounded-lg border border-white/20 px-3 py-1.5 hover:bg-white/10 disabled:opacity-50"
+                      onClick={onSaveCustoms}
+                      disabled={customsBusy}
+                    >
+                      {customsBusy ? "Saving…" : "Save customs details"}
+                    </button>
+                  </div>
+                ) : (
+                  <div>
+                    {[shipment?.customs_description, shipment?.hs_code && `HS ${shipment.hs_code}`, shipment?.origin_country]
+                      .filter(Boolean)
+                      .join(" · ") || "—"}
+                  </div>
+                )}
+
+                {shipment?.customs_doc_path && (
+                  <>
+                    <div className="text-white/60">Customs Form</div>
+                    <button
+                      className="underline text-left"
+                      onClick={() =>
+                        getCustomsDocUrl(shipment.id)
+                          .then((url) => window.open(url, "_blank", "noopener"))
+                          .catch((e) => setMsg(e instanceof Error ? e.message : "Customs form unavailable."))
+                      }
+                    >
+                      {shipment.customs_doc_kind === "cn23" ? "CN23 (PDF)" : "Commercial invoice (PDF)"}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
             <div className="rounded-2xl border border-white/10 bg-white/[0.04]">
               <div className="px-4 py-3 border-b border-white/10 flex items-center gap-2">
                 <span className="text-base font-semibold">Quick Actions</span>
               </div>
               <div className="p-4 space-y-2">
-                <button className="w-full rounded-lg border border-white/20 px-3 py-2 text-left hover:bg-white/10">
+                <button
+                  className="w-full rounded-lg border border-white/20 px-3 py-2 text-left hover:bg-white/10 disabled:opacity-50"
+                  onClick={() => setDisputeOpen(true)}
+                  disabled={!(viewerIsBuyer && inspectionOpen)}
+                >
                   Report Issue
                 </button>
                 <button className="w-full rounded-lg border border-white/20 px-3 py-2 text-left hover:bg-white/10">
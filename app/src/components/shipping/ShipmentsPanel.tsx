@@ -5,10 +5,13 @@ import {
   createShipment,
   listShipments,
   listShipmentEvents,
+  listLegsForShipments,
   updateShipmentStatus,
+  type ShipmentLeg,
   type ShipmentStatus,
 } from "../../lib/shipping";
 import ShipmentManager from "./ShipmentManager";
+import BuyLabelModal from "./BuyLabelModal";
 
 type Shipment = {
   id: string;
@@ -27,6 +30,8 @@ type Event = {
   id: string;
   code: string;
   message: string | null;
+  leg_id?: string | null;
+  condition?: string | null;
   created_at: string;
 };
 
@@ -42,6 +47,29 @@ const NEXT_STEPS: Record<ShipmentStatus, ShipmentStatus[]> = {
   unknown: [],
 };
 
+function Timeline({ events }: { events: Event[] }) {
+  if (events.length === 0) return null;
+  return (
+    <ul className="mt-2 space-y-1 text-sm">
+      {events.map((e) => (
+        <li key={e.id} className="flex items-start gap-2">
+          <span className="mt-1 h-2 w-2 rounded-full bg-white/60" />
+          <div>
+            <div className="font-medium">
+              {e.code.replace(/_/g, " ")}
+              {e.condition && <span className="font-normal text-white/70"> · {e.condition}</span>}
+            </div>
+            {e.message && <div className="text-white/80 text-[13px]">{e.message}</div>}
+            <div className="text-white/50 text-[11px]">
+              {new Date(e.created_at).toLocaleString()}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default function ShipmentsPanel({
   artworkId,
   canEdit,
@@ -52,6 +80,7 @@ export default function ShipmentsPanel({
   const [uid, setUid] = useState<string | null>(null);
   const [rows, setRows] = useState<Shipment[]>([]);
   const [events, setEvents] = useState<Record<string, Event[]>>({});
+  const [legs, setLegs] = useState<Record<string, ShipmentLeg[]>>({});
   const [msg, setMsg] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
 
@@ -61,6 +90,7 @@ export default function ShipmentsPanel({
 
   const [managerOpen, setManagerOpen] = useState(false);
   const [managerShipmentId, setManagerShipmentId] = useState<string | null>(null);
+  const [labelOpen, setLabelOpen] = useState(false);
 
   useEffect(() => {
     let mounted = true;
@@ -84,6 +114,11 @@ export default function ShipmentsPanel({
         all[s.id] = (await listShipmentEvents(s.id)) as Event[];
       }
       setEvents(all);
+      const byShipment: Record<string, ShipmentLeg[]> = {};
+      for (const l of await listLegsForShipments((list ?? []).map((s) => s.id))) {
+        (byShipment[l.shipment_id] ??= []).push(l);
+      }
+      setLegs(byShipment);
     } catch (e: any) {
       setMsg(e?.message || "Failed to load shipments.");
     }
@@ -166,6 +201,9 @@ export default function ShipmentsPanel({
               <button className="btn" onClick={onCreate} disabled={busy}>
                 {busy ? "Saving…" : "Add shipment"}
               </button>
+              <button className="btn" onClick={() => setLabelOpen(true)} disabled={busy}>
+                Buy label
+              </button>
             </div>
           )}
         </div>
@@ -199,22 +237,32 @@ export default function ShipmentsPanel({
                   </button>
                 </div>
 
-                <ul className="mt-2 space-y-1 text-sm">
-                  {(events[s.id] ?? []).slice(0, 3).map((e) => (
-                    <li key={e.id} className="flex items-start gap-2">
-                      <span className="mt-1 h-2 w-2 rounded-full bg-white/60" />
-                      <div>
-                        <div className="font-medium">{e.code.replace(/_/g, " ")}</div>
-                        {e.message && <div className="text-white/80 text-[13px]">{e.message}</div>}
-                        <div className="text-white/50 text-[11px]">
-                          {new Date(e.created_at).toLocaleString()}
+                {legs[s.id]?.length ? (
+                  // one timeline per leg; events from before the route was split stay on top
+                  <div className="mt-2 space-y-3">
+                    {[null, ...legs[s.id]].map((leg) => {
+                      const evs = (events[s.id] ?? []).filter((e) => (e.leg_id ?? null) === (leg?.id ?? null));
+                      if (!leg && evs.length === 0) return null;
+                      return (
+                        <div key={leg?.id ?? "shipment"} className="border-l border-white/15 pl-3">
+                          {leg && (
+                            <div className="text-xs text-white/70">
+                              <b>Leg {leg.seq}</b> · {leg.handler_name || leg.carrier || "Unassigned"} ·{" "}
+                              {leg.status.replace(/_/g, " ")}
+                              {leg.tracking_number && ` · ${leg.tracking_number}`}
+                            </div>
+                          )}
+                          <Timeline events={evs.slice(0, 3)} />
                         </div>
-                      </div>
-                    </li>
-                  ))}
-                </ul>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <Timeline events={(events[s.id] ?? []).slice(0, 3)} />
+                )}
 
-                {canEdit && s.status && NEXT_STEPS[s.status].length > 0 && (
+                {/* multi-leg shipments follow their legs; they're moved from the shipment options */}
+                {canEdit && !legs[s.id]?.length && s.status && NEXT_STEPS[s.status].length > 0 && (
                   <div className="mt-2 flex flex-wrap gap-2">
                     {NEXT_STEPS[s.status].map((n) => (
                       <button
@@ -248,6 +296,17 @@ export default function ShipmentsPanel({
         )}
       </div>
 
+      {labelOpen && (
+        <BuyLabelModal
+          artworkId={artworkId}
+          onClose={() => setLabelOpen(false)}
+          onBought={async (id) => {
+            await reload();
+            setManagerShipmentId(id);
+          }}
+        />
+      )}
+
       {managerOpen && managerShipmentId && (
         <ShipmentManager
           open
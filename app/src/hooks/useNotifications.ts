@@ -1,15 +1,8 @@
 import { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
-import { fetchNotifications, markAllRead } from "../lib/notifications";
+import { fetchNotifications, markAllRead, markRead, type NotificationRow } from "../lib/notifications";
 
-export type NotificationRow = {
-  id: string;
-  profile_id: string;
-  kind: "like" | "comment" | "follow" | "system";
-  payload: any;
-  created_at: string;
-  read_at: string | null;
-};
+export type { NotificationRow };
 
 export function useNotifications(limit = 30) {
   const [items, setItems] = useState<NotificationRow[]>([]);
@@ -34,6 +27,11 @@ export function useNotifications(limit = 30) {
     await refresh();
   }
 
+  async function markOne(id: string) {
+    setItems((cur) => cur.map((n) => (n.id === id && !n.read_at ? { ...n, read_at: new Date().toISOString() } : n)));
+    await markRead(id);
+  }
+
   useEffect(() => {
     refresh();
   }, [limit]);
@@ -56,5 +54,5 @@ export function useNotifications(limit = 30) {
 
   const unread = items.filter((n) => !n.read_at).length;
 
-  return { items, unread, loading, error, refresh, markAll };
+  return { items, unread, loading, error, refresh, markAll, markOne };
 }
@@ -1,5 +1,7 @@
 // app/src/lib/bids.ts
-import { supabase } from "./supabase";
+import { supabase, getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+import type { CheckoutStart, PaymentProviderId } from "./checkout";
 
 export type Bid = {
   id: string;
@@ -7,6 +9,8 @@ export type Bid = {
   bidder_id: string;
   amount: number;
   created_at: string;
+  /** Placed by the engine on behalf of a bidder's maximum. */
+  is_auto?: boolean;
 };
 
 export async function placeBid(listingId: string, amount: number): Promise<Bid> {
@@ -20,15 +24,40 @@ export async function placeBid(listingId: string, amount: number): Promise<Bid>
 export async function fetchTopBid(listingId: string): Promise<Bid | null> {
   const { data, error } = await supabase
     .from("bids")
-    .select("id, listing_id, bidder_id, amount, created_at")
+    .select("id, listing_id, bidder_id, amount, created_at, is_auto")
     .eq("listing_id", listingId)
     .order("amount", { ascending: false })
+    .order("created_at", { ascending: false }) // equal amounts: the engine writes the leader last
     .limit(1)
     .maybeSingle<Bid>();
   if (error && (error as any).code !== "PGRST116") throw error;
   return data ?? null;
 }
 
+/**
+ * Proxy bid: a private maximum. The engine bids one increment over competitors
+ * for you, up to the max; only those visible bids ever show up in `bids`.
+ * A max can only be raised.
+ */
+export async function placeMaxBid(listingId: string, maxAmount: number) {
+  const { data, error } = await supabase
+    .rpc("place_max_bid", { p_listing_id: listingId, p_max_amount: maxAmount })
+    .single<{ is_leading: boolean; top_amount: number | null; my_max: number }>();
+  if (error) throw error;
+  return data!;
+}
+
+/** The caller's own maximum on a listing (RLS keeps everyone else's hidden). */
+export async function fetchMyMaxBid(listingId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("bid_maxes")
+    .select("max_amount")
+    .eq("listing_id", listingId)
+    .maybeSingle<{ max_amount: number }>();
+  if (error) throw error;
+  return data?.max_amount ?? null;
+}
+
 // compatibility alias
 export const getHighestBid = fetchTopBid;
 
@@ -61,3 +90,61 @@ export async function endAuction(
   if (error) throw error;
   return data ?? null;
 }
+
+export type AuctionState = {
+  listing: {
+    id: string;
+    status: string;
+    end_at: string | null;
+    ended_at: string | null;
+    sale_currency: string;
+    reserve_price: number | null;
+    min_increment_bps: number;
+    soft_close_seconds: number;
+    extension_count: number;
+  };
+  /** What the server will accept as the next bid. */
+  min_bid: number | null;
+  top_bid: Omit<Bid, "listing_id"> | null;
+  /** Once ended: the pending (or paid) order of whoever holds the award. */
+  award: { id: string; buyer_id: string; total_amount: number; currency: string; pay_by: string | null; payment_status: string } | null;
+};
+
+/** Live auction state; end_at moves when a late bid triggers the soft close. */
+export async function fetchAuctionState(listingId: string) {
+  const res = await apiFetch(`/api/auctions/${listingId}`);
+  return getJSON<AuctionState>(res);
+}
+
+export type AuctionAward = { id: string; listing_id: string; total_amount: number; currency: string; pay_by: string | null };
+
+/** The viewer's unpaid auction win on this artwork, if any. */
+export async function fetchMyAuctionAward(artworkId: string, viewerId: string): Promise<AuctionAward | null> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, listing_id, total_amount, currency, pay_by")
+    .eq("artwork_id", artworkId)
+    .eq("buyer_id", viewerId)
+    .eq("kind", "auction")
+    .eq("payment_status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<AuctionAward>();
+  if (error) throw error;
+  return data ?? null;
+}
+
+/** Winner checkout: same response as startCheckout, for the awarded order (`wallet` to pay on-chain). */
+export async function payAuctionAward(
+  listingId: string,
+  provider?: PaymentProviderId,
+  wallet?: string
+): Promise<Pick<CheckoutStart, "order_id" | "provider" | "checkout_url" | "instructions"> & { pay_by: string | null }> {
+  const token = await getAccessToken();
+  const res = await apiFetch(
+    `/api/auctions/${listingId}/checkout`,
+    { method: "POST", body: JSON.stringify({ provider, wallet }) },
+    token ?? undefined
+  );
+  return getJSON(res);
+}
@@ -0,0 +1,77 @@
+import { supabase } from "./supabase";
+import type { Listing } from "./listings";
+
+/** One artwork in a bundle listing; weight is its share of the lot's price (royalties follow it). */
+export type BundleItem = {
+  artwork_id: string;
+  weight: number;
+  position: number;
+  artworks: { id: string; title: string | null; image_url: string | null; creator_id: string } | null;
+};
+
+export type BundleInput = {
+  items: { artworkId: string; weight?: number }[];
+  type: "fixed_price" | "auction";
+  currency?: string;
+  /** fixed_price */
+  price?: number | null;
+  /** auction */
+  reservePrice?: number | null;
+  durationMinutes?: number;
+};
+
+/**
+ * List two or more one-of-ones the caller owns as one lot. The first item is the
+ * cover (listings.artwork_id). Requires SQL function create_bundle_listing.
+ */
+export async function createBundleListing(input: BundleInput): Promise<Listing> {
+  const endAt =
+    input.type === "auction" && input.durationMinutes
+      ? new Date(Date.now() + input.durationMinutes * 60_000).toISOString()
+      : null;
+
+  const { data, error } = await supabase
+    .rpc("create_bundle_listing", {
+      p_artwork_ids: input.items.map((i) => i.artworkId),
+      p_weights: input.items.map((i) => i.weight ?? 1),
+      p_type: input.type,
+      p_currency: input.currency ?? "ETH",
+      p_price: input.type === "fixed_price" ? input.price ?? null : null,
+      p_reserve_price: input.type === "auction" ? input.reservePrice ?? null : null,
+      p_start_at: null,
+      p_end_at: endAt,
+    })
+    .single<Listing>();
+
+  if (error) throw error;
+  return data!;
+}
+
+/** The artworks in a bundle listing, in display order. */
+export async function fetchBundleItems(listingId: string): Promise<BundleItem[]> {
+  const { data, error } = await supabase
+    .from("bundle_items")
+    .select("artwork_id, weight, position, artworks ( id, title, image_url, creator_id )")
+    .eq("listing_id", listingId)
+    .order("position", { ascending: true })
+    .returns<BundleItem[]>();
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** The active bundle an artwork is part of (its listing id and cover artwork), or null. */
+export async function fetchActiveBundleForArtwork(
+  artworkId: string
+): Promise<{ listing_id: string; cover_artwork_id: string } | null> {
+  const { data, error } = await supabase
+    .from("bundle_items")
+    .select("listing_id, listings!inner ( artwork_id, status )")
+    .eq("artwork_id", artworkId)
+    .eq("listings.status", "active")
+    .limit(1)
+    .maybeSingle<{ listing_id: string; listings: { artwork_id: string; status: string } }>();
+
+  if (error) throw error;
+  return data ? { listing_id: data.listing_id, cover_artwork_id: data.listings.artwork_id } : null;
+}
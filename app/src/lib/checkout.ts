@@ -1,4 +1,5 @@
-import { supabase } from "./supabase";
+import { supabase, getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
 
 /**
  * Create a fiat checkout session (Stripe).
@@ -30,3 +31,84 @@ export async function createCryptoCharge(listingId: string, quantity = 1) {
   if (!data?.hosted_url) throw new Error("No charge URL returned");
   return data.hosted_url;
 }
+
+export type PaymentProviderId = "stripe" | "coinbase_commerce" | "onchain";
+
+export type CheckoutStart = {
+  order_id: string;
+  provider: PaymentProviderId;
+  /** Hosted payment page (Stripe / Coinbase). Null for on-chain. */
+  checkout_url: string | null;
+  /**
+   * On-chain only: { chain_id, from, to, value } for eth_sendTransaction. A
+   * lazy-minted artwork comes back as kind "redeem": `to` is the NFT contract and
+   * `data` the redeem call that mints it to the buyer.
+   */
+  instructions: { chain_id: number; from?: string; to: string; value: string; data?: string; kind?: "redeem" } | null;
+  /** Order total in the listing currency. */
+  amount: { currency: string; total: number };
+  /** What the provider charges; differs when the listing currency had to be converted. */
+  charge: { currency: string; total: number; fx_rate: number | null };
+};
+
+/**
+ * Unified checkout on the API server. The provider defaults to the listing's
+ * settlement_kind; settlement always lands through the provider webhook.
+ * Paying on-chain needs `wallet`: the order only settles from a tx it sends.
+ */
+export async function startCheckout(
+  listingId: string,
+  opts: { quantity?: number; provider?: PaymentProviderId; wallet?: string } = {}
+) {
+  const token = await getAccessToken();
+  const res = await apiFetch(
+    "/api/checkout",
+    {
+      method: "POST",
+      body: JSON.stringify({ listing_id: listingId, quantity: opts.quantity ?? 1, provider: opts.provider, wallet: opts.wallet }),
+    },
+    token ?? undefined
+  );
+  return getJSON<CheckoutStart>(res);
+}
+
+export type OnchainConfirmation = {
+  received: boolean;
+  /** "pending" while the tx is unmined or short of confirmations. */
+  status?: "pending";
+  type?: string;
+  result?: string;
+  duplicate?: boolean;
+};
+
+/**
+ * On-chain flow: report the broadcast tx. The server verifies it on-chain
+ * (recipient, value, success, confirmations) before the order settles; until
+ * then it answers `status: "pending"` and this should be called again.
+ */
+export async function confirmOnchainPayment(orderId: string, txHash: string, chainId: number) {
+  const token = await getAccessToken();
+  const res = await apiFetch(
+    "/webhooks/onchain",
+    { method: "POST", body: JSON.stringify({ order_id: orderId, tx_hash: txHash, chain_id: chainId }) },
+    token ?? undefined
+  );
+  return getJSON<OnchainConfirmation>(res);
+}
+
+/** Re-posts the tx until the server stops answering "pending" (or we give up). */
+export async function waitForOnchainSettlement(
+  orderId: string,
+  txHash: string,
+  chainId: number,
+  opts: { intervalMs?: number; timeoutMs?: number } = {}
+) {
+  const interval = opts.intervalMs ?? 5000;
+  const deadline = Date.now() + (opts.timeoutMs ?? 10 * 60 * 1000);
+  for (;;) {
+    const r = await confirmOnchainPayment(orderId, txHash, chainId);
+    if (r.status !== "pending") return r;
+    if (Date.now() > deadline) throw new Error("Still waiting for confirmations — check back shortly.");
+    await new Promise((ok) => setTimeout(ok, interval));
+  }
+}
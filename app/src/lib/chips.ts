@@ -0,0 +1,59 @@
+import { getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+
+/** NFC/QR tags on physical works (chip_lifecycle migration). */
+export type Chip = {
+  id: string;
+  tag_id: string;
+  kind: "nfc" | "qr";
+  status: "unassigned" | "bound" | "revoked";
+  counter: number;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+  replaced_by: string | null;
+  bound_at?: string;
+};
+
+export type ChipEvent = {
+  id: string;
+  chip_id: string;
+  event: "enrolled" | "bound" | "unbound" | "transferred" | "revoked" | "replaced" | "rotated";
+  actor_id: string | null;
+  from_owner_id: string | null;
+  to_owner_id: string | null;
+  note: string | null;
+  created_at: string;
+  chips?: { tag_id: string } | null;
+};
+
+async function post<T>(path: string, body?: unknown) {
+  const token = await getAccessToken();
+  const res = await apiFetch(path, { method: "POST", body: body ? JSON.stringify(body) : undefined }, token ?? undefined);
+  return getJSON<T>(res);
+}
+
+/** Creator: attach an enrolled tag to a physical work they still hold. */
+export async function bindChip(tagId: string, artworkId: string) {
+  return (await post<{ chip: Chip }>("/api/chips/bind", { tag_id: tagId, artwork_id: artworkId })).chip;
+}
+
+/** Creator: undo a binding before the work changes hands. */
+export async function unbindChip(chipId: string) {
+  return (await post<{ chip: Chip }>(`/api/chips/${chipId}/unbind`)).chip;
+}
+
+/** Owner: retire a lost or damaged tag; scans of it answer "revoked". */
+export async function revokeChip(chipId: string, reason?: string) {
+  return (await post<{ chip: Chip }>(`/api/chips/${chipId}/revoke`, { reason })).chip;
+}
+
+/** Owner: revoke a tag and bind a new enrolled one in its place. */
+export async function replaceChip(chipId: string, newTagId: string, reason?: string) {
+  return (await post<{ chip: Chip }>(`/api/chips/${chipId}/replace`, { tag_id: newTagId, reason })).chip;
+}
+
+export async function fetchArtworkChips(artworkId: string) {
+  const token = await getAccessToken();
+  const res = await apiFetch(`/api/artworks/${artworkId}/chips`, {}, token ?? undefined);
+  return getJSON<{ chips: Chip[]; events: ChipEvent[] }>(res);
+}
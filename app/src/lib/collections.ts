@@ -1,5 +1,11 @@
 // app/src/lib/collections.ts
-import { supabase } from "./supabase";
+import { Interface } from "ethers";
+import { supabase, getAccessToken } from "./supabase";
+import { apiFetch } from "./api";
+import { ensureSepolia, getSignerAsync } from "./wallet";
+import FACTORY_ABI from "./abi/CollectionFactory.json";
+
+const FACTORY_ADDR = import.meta.env.VITE_COLLECTION_FACTORY as string; // TaedalCollectionFactory
 
 export type Collection = {
   id: string;
@@ -11,6 +17,15 @@ export type Collection = {
   banner_url: string | null;
   created_at: string;
   updated_at: string;
+  /** on-chain contract (Studio → Deploy Contract); set by the API once verified */
+  symbol?: string | null;
+  chain_id?: number | null;
+  contract_address?: string | null;
+  owner_wallet?: string | null;
+  deploy_tx_hash?: string | null;
+  deploy_status?: "pending" | "deployed" | "failed" | null;
+  deploy_error?: string | null;
+  deployed_at?: string | null;
 };
 
 export async function fetchMyCollections(): Promise<Collection[]> {
@@ -39,6 +54,8 @@ export function slugify(input: string) {
 export async function createCollection(payload: {
   name: string;
   description?: string;
+  /** ERC-721 symbol, only for collections that get their own contract */
+  symbol?: string;
 }): Promise<Collection> {
   const { data: session } = await supabase.auth.getSession();
   const uid = session.session?.user?.id;
@@ -52,6 +69,7 @@ export async function createCollection(payload: {
       name: payload.name,
       slug,
       description: payload.description ?? null,
+      symbol: payload.symbol ?? null,
     })
     .select("*")
     .single<Collection>();
@@ -59,3 +77,91 @@ export async function createCollection(payload: {
   if (error) throw error;
   return data!;
 }
+
+/**
+ * The collection contract an artwork mints into, or null when it isn't in a
+ * collection with a deployed contract (then it mints into VITE_NFT_CONTRACT).
+ */
+export async function contractForArtwork(artworkId: string): Promise<string | null> {
+  const { data: art, error } = await supabase
+    .from("artworks")
+    .select("collection_id")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!art?.collection_id) return null;
+  const { data: col } = await supabase
+    .from("collections")
+    .select("contract_address,deploy_status")
+    .eq("id", art.collection_id)
+    .maybeSingle();
+  return col?.deploy_status === "deployed" ? col.contract_address ?? null : null;
+}
+
+export type DeployStep =
+  | { step: "wallet" }
+  | { step: "pending"; txHash: string }
+  | { step: "verifying"; txHash: string }
+  | { step: "done"; collection: Collection };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** One check of the deploy tx by the API; the first call also records it on the collection. */
+async function postDeploy(collectionId: string, txHash: string) {
+  const token = await getAccessToken();
+  const res = await apiFetch(
+    `/api/collections/${collectionId}/deploy`,
+    { method: "POST", body: JSON.stringify({ tx_hash: txHash }) },
+    token ?? undefined
+  );
+  const body = await res.json().catch(() => ({}));
+  if (res.status !== 200 && res.status !== 202) {
+    throw new Error(body.collection?.deploy_error || body.error || `Deploy check failed (HTTP ${res.status})`);
+  }
+  return { deployed: res.status === 200, collection: body.collection as Collection };
+}
+
+/** Poll the API until it has seen enough confirmations and verified the contract. */
+async function confirmDeploy(collectionId: string, txHash: string): Promise<Collection> {
+  for (;;) {
+    const r = await postDeploy(collectionId, txHash);
+    if (r.deployed) return r.collection;
+    await sleep(4000);
+  }
+}
+
+/**
+ * Deploy the collection's own TaedalNFT through TaedalCollectionFactory from
+ * the owner's wallet and wait until the API has verified it. Pass a tx hash to
+ * resume a deploy that was already sent (e.g. after a reload).
+ */
+export async function deployCollectionContract(
+  collection: Pick<Collection, "id" | "name" | "symbol">,
+  onStep: (s: DeployStep) => void = () => {},
+  resumeTxHash?: string | null
+): Promise<Collection> {
+  let txHash = resumeTxHash ?? null;
+
+  if (!txHash) {
+    if (!FACTORY_ADDR) throw new Error("VITE_COLLECTION_FACTORY missing");
+    if (!collection.symbol) throw new Error("Collection has no token symbol");
+    onStep({ step: "wallet" });
+    await ensureSepolia();
+    const signer = await getSignerAsync();
+    const data = new Interface(FACTORY_ABI).encodeFunctionData("deployCollection", [collection.name, collection.symbol]);
+    const tx = await signer.sendTransaction({ to: FACTORY_ADDR, value: "0x0", data });
+    txHash = tx.hash as string;
+    onStep({ step: "pending", txHash });
+    // record the hash right away so a reload can resume from the collection row
+    await postDeploy(collection.id, txHash);
+    const rc = await tx.wait();
+    if (rc?.status === 0) throw new Error("Deploy transaction reverted");
+  } else {
+    onStep({ step: "pending", txHash });
+  }
+
+  onStep({ step: "verifying", txHash });
+  const done = await confirmDeploy(collection.id, txHash);
+  onStep({ step: "done", collection: done });
+  return done;
+}
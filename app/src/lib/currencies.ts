@@ -1,11 +1,24 @@
-// Simple allowlists; grow these as needed.
-export const FIAT = new Set([
-  "USD","EUR","GBP","AUD","CAD","JPY","SGD","MYR","THB","IDR","PHP","CHF","SEK","NOK","DKK","NZD","HKD","CNY","INR","KRW","BRL","MXN","ZAR","AED","SAR"
-]);
+// Every currency the app offers, in picker order (crypto first). The table is
+// the one checkout and the edge functions use (supabase/functions/_shared/currencyCore.ts);
+// the picker, price formatting and the fiat/crypto checks all read from here.
+import { CURRENCIES as CORE, type CurrencyInfo, type CurrencyKind } from "../../../supabase/functions/_shared/currencyCore.ts";
 
-export const CRYPTO = new Set([
-  "ETH","BTC","USDC","USDT","SOL","MATIC","BASEETH" // pick the ones you’ll support
-]);
+export type { CurrencyKind };
+export type Currency = CurrencyInfo;
+
+export const CURRENCIES: Currency[] = [
+  ...CORE.filter((c) => c.kind === "crypto"),
+  ...CORE.filter((c) => c.kind === "fiat"),
+];
+
+const BY_CODE = new Map(CURRENCIES.map((c) => [c.code, c]));
+
+export const FIAT = new Set(CURRENCIES.filter((c) => c.kind === "fiat").map((c) => c.code));
+export const CRYPTO = new Set(CURRENCIES.filter((c) => c.kind === "crypto").map((c) => c.code));
+
+export function getCurrency(code?: string | null) {
+  return code ? BY_CODE.get(code.toUpperCase()) ?? null : null;
+}
 
 export function isFiat(code?: string | null) {
   return !!code && FIAT.has(code.toUpperCase());
@@ -13,3 +26,18 @@ export function isFiat(code?: string | null) {
 export function isCrypto(code?: string | null) {
   return !!code && CRYPTO.has(code.toUpperCase());
 }
+
+/** "¥1,200", "$19.99", "0.05 ETH" — fiat to its minor unit, crypto trimmed. */
+export function formatMoney(amount: number, code: string) {
+  const c = getCurrency(code);
+  if (c?.kind === "fiat") {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: c.code,
+      minimumFractionDigits: c.decimals,
+      maximumFractionDigits: c.decimals,
+    }).format(amount);
+  }
+  const digits = Math.min(c?.decimals ?? 6, 6);
+  return `${amount.toLocaleString(undefined, { maximumFractionDigits: digits })} ${code.toUpperCase()}`;
+}
@@ -0,0 +1,57 @@
+import { getAccessToken, supabase } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+
+/** Physical-sale escrow on an order (physical_escrow migration). */
+export type EscrowOrder = {
+  id: string;
+  buyer_id: string;
+  seller_id: string;
+  artwork_id: string;
+  escrow_status: "held" | "released" | "disputed" | "refunded";
+  escrow_shipment_id: string | null;
+  escrow_delivered_at: string | null;
+  /** end of the inspection window; null until the carrier reports delivery */
+  escrow_release_after: string | null;
+  escrow_released_at: string | null;
+};
+
+export type OrderDispute = {
+  id: string;
+  order_id: string;
+  opened_by: string;
+  reason: string;
+  status: "open" | "released" | "refunded";
+  resolution_note: string | null;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+/** The latest escrowed order for an artwork the caller bought or sold (null when none). */
+export async function fetchArtworkEscrow(artworkId: string): Promise<EscrowOrder | null> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id,buyer_id,seller_id,artwork_id,escrow_status,escrow_shipment_id,escrow_delivered_at,escrow_release_after,escrow_released_at")
+    .eq("artwork_id", artworkId)
+    .not("escrow_status", "is", null)
+    .order("settled_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<EscrowOrder>();
+  if (error) throw error;
+  return data;
+}
+
+async function post<T>(path: string, body?: unknown) {
+  const token = await getAccessToken();
+  const res = await apiFetch(path, { method: "POST", body: body ? JSON.stringify(body) : undefined }, token ?? undefined);
+  return getJSON<T>(res);
+}
+
+/** Buyer: the work arrived; releases payment and ownership now. */
+export async function confirmReceipt(orderId: string) {
+  return (await post<{ order: EscrowOrder }>(`/api/orders/${orderId}/escrow/confirm`)).order;
+}
+
+/** Buyer: report a problem before delivery or inside the inspection window. */
+export async function openDispute(orderId: string, reason: string) {
+  return (await post<{ dispute: OrderDispute }>(`/api/orders/${orderId}/disputes`, { reason })).dispute;
+}
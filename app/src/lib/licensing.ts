@@ -118,17 +118,61 @@ export type LicenseRequest = {
   status: "open" | "negotiating" | "accepted" | "declined" | "withdrawn";
   accepted_terms: LicenseTerms | null;
 
-  // execution record (optional)
+  // contract document, rendered from accepted_terms by generate-contract-pdf
+  contract_path: string | null;
+  contract_sha256: string | null;
+  contract_generated_at: string | null;
+
+  // execution record, written by sign-contract once both parties have signed
+  executed_pdf_path: string | null;
   executed_pdf_url: string | null;
   executed_pdf_sha256: string | null;
   signed_at: string | null;
   signer_name: string | null;
   signer_title: string | null;
 
+  /** Set on a renewal: the license it renews. */
+  renewal_of: string | null;
+
   created_at: string;
   updated_at: string;
 };
 
+/** The license an accepted request became (see the license_lifecycle migration). */
+export type License = {
+  id: string;
+  request_id: string;
+  artwork_id: string;
+  owner_id: string;
+  licensee_id: string;
+  terms: LicenseTerms;
+  starts_on: string;
+  /** Last day of the term; null when the terms set none. */
+  ends_on: string | null;
+  notice_days: number | null;
+  fee_due_on: string | null;
+  status: "active" | "expired";
+  expired_at: string | null;
+  renewal_request_id: string | null;
+  renewed_at: string | null;
+  created_at: string;
+};
+
+export type ContractSignature = {
+  id: string;
+  request_id: string;
+  signer_id: string;
+  role: "licensor" | "licensee";
+  name: string;
+  title: string | null;
+  method: "typed" | "drawn";
+  image_path: string | null;
+  document_sha256: string;
+  ip: string | null;
+  user_agent: string | null;
+  signed_at: string;
+};
+
 export type LicenseThreadMsg = {
   id: string;
   request_id: string;
@@ -347,10 +391,7 @@ export async function acceptOffer(requestId: string) {
 
 export async function updateLicenseRequest(
   requestId: string,
-  patch: Partial<Pick<LicenseRequest,
-    "status" | "accepted_terms" | "requested" |
-    "executed_pdf_url" | "executed_pdf_sha256" |
-    "signed_at" | "signer_name" | "signer_title">>
+  patch: Partial<Pick<LicenseRequest, "status" | "accepted_terms" | "requested">>
 ) {
   const { data, error } = await supabase
     .from("license_requests")
@@ -417,41 +458,103 @@ export async function upsertApproval(requestId: string, stage: LicenseApproval["
 
 /* ------------------------- Document generation ------------------------- */
 
+/** Edge functions answer errors as `{ error }`; prefer that over the generic non-2xx message. */
+async function functionError(error: Error & { context?: Response }) {
+  const body = await error.context?.json().catch(() => null);
+  return new Error(body?.error ?? error.message);
+}
+
+export type ContractDocument = {
+  path: string;
+  url: string | null;
+  sha256: string;
+  /** Rendered from the live offer rather than accepted terms; not signable. */
+  draft: boolean;
+  /** Fresh link to the executed copy, once sealed. */
+  executed_url: string | null;
+};
+
+/** Renders the contract PDF; once anyone has signed, returns the signed document instead. */
 export async function generateContractPdf(requestId: string) {
   const { data, error } = await supabase.functions.invoke("generate-contract-pdf", {
     body: { request_id: requestId },
   });
-  if (error) throw error;
-  // returns { path: string; url?: string | null; html: string }
-  return data as { path: string; url?: string | null; html: string };
+  if (error) throw await functionError(error);
+  return data as ContractDocument;
 }
 
-/* ----------------------------- Attachments ----------------------------- */
+/* ------------------------------ Signing ------------------------------ */
 
-export async function uploadExecutedPdf(requestId: string, file: File, signer: { name: string; title?: string }) {
-  if (file.type !== "application/pdf") throw new Error("Please upload a PDF.");
-  const hash = await sha256(file);
-  const path = `requests/${requestId}/executed-${Date.now()}.pdf`;
+export async function listContractSignatures(requestId: string): Promise<ContractSignature[]> {
+  const { data, error } = await supabase
+    .from("license_signatures")
+    .select("*")
+    .eq("request_id", requestId)
+    .order("signed_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ContractSignature[];
+}
 
-  const { error: e1 } = await supabase.storage.from("contracts").upload(path, file, {
-    contentType: "application/pdf",
-    upsert: true,
+/**
+ * Signs the contract as the caller's party. `documentSha256` is the hash of the PDF
+ * the signer reviewed; the function refuses if the stored document differs.
+ * A drawn signature is a PNG data URL; without one the signature is typed.
+ */
+export async function signContract(
+  requestId: string,
+  documentSha256: string,
+  signature: { name: string; title?: string | null; image?: string | null }
+) {
+  const { data, error } = await supabase.functions.invoke("sign-contract", {
+    body: { request_id: requestId, document_sha256: documentSha256, signature },
   });
-  if (e1) throw e1;
+  if (error) throw await functionError(error);
+  return data as { signed: ContractSignature["role"]; executed: boolean; path?: string; sha256?: string };
+}
 
-  const { data: pub } = await supabase.storage.from("contracts").createSignedUrl(path, 60 * 60 * 24 * 7);
+/* ----------------------------- Licenses ----------------------------- */
 
-  const updated = await updateLicenseRequest(requestId, {
-    executed_pdf_url: pub?.signedUrl ?? null,
-    executed_pdf_sha256: hash,
-    signed_at: new Date().toISOString(),
-    signer_name: signer.name,
-    signer_title: signer.title ?? null,
-  });
+/** Licenses the viewer is party to, newest first; optionally for one artwork. */
+export async function listLicenses(opts: { artworkId?: string } = {}): Promise<License[]> {
+  let q = supabase.from("licenses").select("*").order("starts_on", { ascending: false });
+  if (opts.artworkId) q = q.eq("artwork_id", opts.artworkId);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as License[];
+}
 
-  return { updated, path, url: pub?.signedUrl, sha256: hash };
+export async function getLicenseForRequest(requestId: string) {
+  const { data, error } = await supabase.from("licenses").select("*").eq("request_id", requestId).maybeSingle<License>();
+  if (error) throw error;
+  return data;
+}
+
+/** "upcoming" before starts_on; "expired" once the job has expired it or its last day passed. */
+export function licenseState(l: Pick<License, "status" | "starts_on" | "ends_on">): "upcoming" | "active" | "expired" {
+  const today = new Date().toISOString().slice(0, 10);
+  if (l.status === "expired" || (l.ends_on && l.ends_on < today)) return "expired";
+  if (l.starts_on > today) return "upcoming";
+  return "active";
+}
+
+/**
+ * Licensor: open a renewal negotiation pre-filled with the license's terms,
+ * starting the day after it ends. Returns the new request's id.
+ */
+export async function renewLicense(license: License) {
+  const next = license.ends_on ? new Date(`${license.ends_on}T00:00:00Z`) : new Date();
+  next.setUTCDate(next.getUTCDate() + 1);
+  const terms = mergeTerms(license.terms, {
+    start_date: next.toISOString().slice(0, 10),
+    effective_date: undefined,
+  });
+  const { data, error } = await supabase.rpc("renew_license", { p_license_id: license.id, p_terms: terms });
+  if (error) throw error;
+  return data as string;
 }
 
+/* ----------------------------- Attachments ----------------------------- */
+
 export async function uploadAttachment(requestId: string, file: File, kind?: string) {
   const key = `requests/${requestId}/${Date.now()}-${file.name}`;
   const { error: e1 } = await supabase.storage.from("license_attachments").upload(key, file, {
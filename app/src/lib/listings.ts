@@ -4,20 +4,38 @@ export type Listing = {
   id: string;
   artwork_id: string;
   seller_id: string;
-  type: "fixed_price" | "auction" | "coming_soon";
+  /** coming_soon: a scheduled drop that opens as drop_sale_type at start_at. */
+  type: "fixed_price" | "auction" | "coming_soon" | "dutch";
   status: "draft" | "active" | "paused" | "ended" | "canceled";
   sale_currency: string | null;
   fixed_price: number | null;
+  /** Units offered (editions); null = uncapped (open edition, sold by its creator). */
   quantity?: number | null;
+  quantity_sold?: number;
+  sold_out_at?: string | null;
   reserve_price?: number | null;
   start_at?: string | null;
   end_at?: string | null;
+  /** Dutch: price falls from start to floor over decay_seconds after start_at. */
+  dutch_start_price?: number | null;
+  dutch_floor_price?: number | null;
+  dutch_curve?: DutchCurve | null;
+  dutch_decay_seconds?: number | null;
+  dutch_interval_seconds?: number | null;
+  drop_sale_type?: "fixed_price" | "dutch" | null;
+  allowlist_only?: boolean;
+  per_wallet_limit?: number | null;
+  dropped_at?: string | null;
+  /** Sells every artwork in bundle_items as one lot; artwork_id is the cover. */
+  is_bundle?: boolean;
   created_at: string;
   updated_at: string;
   /** Optional per-seller wallet column (if present in your DB). */
   seller_wallet?: string | null;
 };
 
+export type DutchCurve = "linear" | "stepped";
+
 export type JoinedListing = Listing & {
   artworks: {
     id: string;
@@ -73,13 +91,142 @@ export async function createAuctionListing(
   return data!;
 }
 
+/**
+ * Units of an edition listing a buyer can check out now (offered − sold − held
+ * by pending checkouts); null when uncapped. Requires SQL function listing_available.
+ */
+export async function listingAvailable(listingId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc("listing_available", { p_listing_id: listingId });
+  if (error) throw error;
+  return data == null ? null : Number(data);
+}
+
+/**
+ * Set how many units of an edition a listing offers (null: open edition, creator only).
+ * Requires SQL function: set_listing_quantity(p_listing_id uuid, p_quantity integer)
+ */
+export async function setListingQuantity(listingId: string, quantity: number | null): Promise<Listing> {
+  const { data, error } = await supabase
+    .rpc("set_listing_quantity", { p_listing_id: listingId, p_quantity: quantity })
+    .single<Listing>();
+
+  if (error) throw error;
+  return data!;
+}
+
+/**
+ * Price one unit of a Dutch listing shows at `at` (same curve as the SQL
+ * function listing_current_price, for a ticking display only: checkout always
+ * charges the server's price).
+ */
+export function dutchPriceAt(listing: Listing, at = Date.now()): number | null {
+  const start = listing.dutch_start_price;
+  const floor = listing.dutch_floor_price;
+  const decay = listing.dutch_decay_seconds;
+  if (start == null || floor == null || !decay) return null;
+
+  const t0 = new Date(listing.start_at ?? listing.created_at).getTime();
+  let elapsed = (at - t0) / 1000;
+  if (elapsed <= 0) return Number(start);
+  if (elapsed >= decay) return Number(floor);
+  if (listing.dutch_curve === "stepped" && listing.dutch_interval_seconds) {
+    elapsed = Math.floor(elapsed / listing.dutch_interval_seconds) * listing.dutch_interval_seconds;
+  }
+  return Number((Number(start) - ((Number(start) - Number(floor)) * elapsed) / decay).toFixed(8));
+}
+
+/** Server price for one unit right now (null for auctions). Requires SQL function listing_current_price. */
+export async function fetchCurrentPrice(listingId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc("listing_current_price", { p_listing_id: listingId });
+  if (error) throw error;
+  return data == null ? null : Number(data);
+}
+
+/**
+ * Turn an unsold fixed-price listing (or a drop opening as Dutch) into a Dutch sale.
+ * Requires SQL function: set_dutch_pricing(p_listing_id, p_start_price, p_floor_price,
+ *   p_curve, p_decay_seconds, p_interval_seconds)
+ */
+export async function setDutchPricing(
+  listingId: string,
+  curve: {
+    startPrice: number;
+    floorPrice: number;
+    curve: DutchCurve;
+    decaySeconds: number;
+    intervalSeconds?: number | null;
+  }
+): Promise<Listing> {
+  const { data, error } = await supabase
+    .rpc("set_dutch_pricing", {
+      p_listing_id: listingId,
+      p_start_price: curve.startPrice,
+      p_floor_price: curve.floorPrice,
+      p_curve: curve.curve,
+      p_decay_seconds: curve.decaySeconds,
+      p_interval_seconds: curve.curve === "stepped" ? curve.intervalSeconds ?? null : null,
+    })
+    .single<Listing>();
+
+  if (error) throw error;
+  return data!;
+}
+
+/**
+ * Schedule an active listing as a drop: nobody can buy before startAt, then it
+ * opens as `saleType`. Requires SQL function schedule_drop.
+ */
+export async function scheduleDrop(
+  listingId: string,
+  startAt: string,
+  saleType: "fixed_price" | "dutch",
+  opts: { allowlistOnly?: boolean; perWalletLimit?: number | null } = {}
+): Promise<Listing> {
+  const { data, error } = await supabase
+    .rpc("schedule_drop", {
+      p_listing_id: listingId,
+      p_start_at: startAt,
+      p_sale_type: saleType,
+      p_allowlist_only: !!opts.allowlistOnly,
+      p_per_wallet_limit: opts.perWalletLimit ?? null,
+    })
+    .single<Listing>();
+
+  if (error) throw error;
+  return data!;
+}
+
+/** Replace a drop's allowlist; returns how many collectors are on it. Requires SQL function set_drop_allowlist. */
+export async function setDropAllowlist(listingId: string, profileIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc("set_drop_allowlist", {
+    p_listing_id: listingId,
+    p_profile_ids: profileIds,
+  });
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+/** Whether the signed-in collector is on a drop's allowlist. */
+export async function isOnDropAllowlist(listingId: string, profileId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("drop_allowlist")
+    .select("listing_id")
+    .eq("listing_id", listingId)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
 /** Fetch a grid of active listings with their artwork joined. */
 export async function fetchActiveListings(limit = 24): Promise<JoinedListing[]> {
   const { data, error } = await supabase
     .from("listings")
     .select(
       `
-      id, artwork_id, seller_id, type, status, sale_currency, fixed_price, quantity, reserve_price, start_at, end_at, created_at, updated_at, seller_wallet,
+      id, artwork_id, seller_id, type, status, sale_currency, fixed_price, quantity, quantity_sold, sold_out_at, reserve_price, start_at, end_at, created_at, updated_at, seller_wallet,
+      dutch_start_price, dutch_floor_price, dutch_curve, dutch_decay_seconds, dutch_interval_seconds,
+      drop_sale_type, allowlist_only, per_wallet_limit, dropped_at, is_bundle,
       artworks!inner (
         id, title, image_url, creator_id, status
       )
@@ -101,7 +248,9 @@ export async function fetchActiveListingForArtwork(
     .from("listings")
     .select(
       `
-      id, artwork_id, seller_id, type, status, sale_currency, fixed_price, quantity, reserve_price, start_at, end_at, created_at, updated_at, seller_wallet
+      id, artwork_id, seller_id, type, status, sale_currency, fixed_price, quantity, quantity_sold, sold_out_at, reserve_price, start_at, end_at, created_at, updated_at, seller_wallet,
+      dutch_start_price, dutch_floor_price, dutch_curve, dutch_decay_seconds, dutch_interval_seconds,
+      drop_sale_type, allowlist_only, per_wallet_limit, dropped_at, is_bundle
     `
     )
     .eq("artwork_id", artworkId)
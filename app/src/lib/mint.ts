@@ -3,8 +3,12 @@ import { ethers } from "ethers";
 import { ensureSepolia, requestAccounts, getSignerAsync } from "./wallet";
 import { supabase } from "./supabase";
 import ABI from "./abi/NFT.json";
+import EDITIONS_ABI from "./abi/Editions.json";
+import { ROYALTY_MAX_BPS } from "../schemas/artwork";
+import { contractForArtwork } from "./collections";
 
 const CONTRACT_ADDR = import.meta.env.VITE_NFT_CONTRACT as string; // e.g. 0x...
+const EDITIONS_ADDR = import.meta.env.VITE_EDITIONS_CONTRACT as string; // TaedalEditions (ERC-1155)
 
 // ERC-721 Transfer(address,address,uint256)
 const TRANSFER_TOPIC =
@@ -12,18 +16,67 @@ const TRANSFER_TOPIC =
 
 export type MintResult = { txHash: string; tokenId?: string };
 
+export type MintOptions = {
+  artworkId?: string;
+  /** ERC-2981 royalty in basis points; defaults to the artwork's royalty_bps. */
+  royaltyBps?: number;
+  /** Who receives the royalty; defaults to the minting wallet (the creator). */
+  royaltyReceiver?: string;
+};
+
+/** The artwork's off-chain royalty setting, as recorded at creation. */
+export async function artworkRoyaltyBps(artworkId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("artworks")
+    .select("royalty_bps")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw error;
+  return Number(data?.royalty_bps ?? 0);
+}
+
+export type ArtworkEdition = { type: "unique" | "limited" | "open"; size: number | null };
+
+/** The artwork's edition: one-of-ones mint on TaedalNFT, editions on TaedalEditions. */
+export async function artworkEdition(artworkId: string): Promise<ArtworkEdition> {
+  const { data, error } = await supabase
+    .from("artworks")
+    .select("edition_type, edition_size")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    type: (data?.edition_type ?? "unique") as ArtworkEdition["type"],
+    size: data?.edition_size == null ? null : Number(data.edition_size),
+  };
+}
+
+/** Throws unless bps is something TaedalNFT will accept (0…MAX_ROYALTY_BPS). */
+export function assertRoyaltyBps(bps: number) {
+  if (!Number.isInteger(bps) || bps < 0 || bps > ROYALTY_MAX_BPS) {
+    throw new Error(`Royalty must be 0–${ROYALTY_MAX_BPS} bps (got ${bps}). Edit the artwork before minting.`);
+  }
+}
+
 /**
  * Mint an NFT by calling the contract. Optionally persist the on-chain
  * info (contract address, token id, tx hash) back to the artworks row.
  *
- * Backwards compatible: existing callers can keep using (tokenURI) only.
- * If you pass opts.artworkId, we'll also record the mint to Supabase.
+ * Existing callers can keep using (tokenURI) only; that mints without a royalty.
+ * If you pass opts.artworkId, the artwork's royalty_bps is written on-chain
+ * (ERC-2981) and we'll also record the mint to Supabase. Artworks in a
+ * collection with a deployed contract mint into that contract. Edition
+ * artworks are handed to mintEdition.
  */
 export async function mintNft(
   tokenURI: string,
-  opts?: { artworkId?: string }
+  opts?: MintOptions
 ): Promise<MintResult> {
-  if (!CONTRACT_ADDR) throw new Error("VITE_NFT_CONTRACT missing");
+  if (opts?.artworkId && (await artworkEdition(opts.artworkId)).type !== "unique") {
+    return mintEdition(tokenURI, opts.artworkId);
+  }
+  const contractAddr = (opts?.artworkId ? await contractForArtwork(opts.artworkId) : null) ?? CONTRACT_ADDR;
+  if (!contractAddr) throw new Error("VITE_NFT_CONTRACT missing");
 
   // 1) Wallet & network
   await requestAccounts();
@@ -31,9 +84,14 @@ export async function mintNft(
   const signer = await getSignerAsync();
   const caller = await signer.getAddress();
 
+  const royaltyBps =
+    opts?.royaltyBps ?? (opts?.artworkId ? await artworkRoyaltyBps(opts.artworkId) : 0);
+  assertRoyaltyBps(royaltyBps);
+  const royaltyReceiver = opts?.royaltyReceiver ?? caller;
+
   // 2) Contract instance
   // ethers v5/v6 compatible enough for this usage
-  const contract = new (ethers as any).Contract(CONTRACT_ADDR, ABI as any, signer);
+  const contract = new (ethers as any).Contract(contractAddr, ABI as any, signer);
 
   // 3) Detect functions
   const hasPublicMint = typeof (contract as any).publicMint === "function";
@@ -43,7 +101,7 @@ export async function mintNft(
 
   // 4) Send tx
   if (hasPublicMint) {
-    tx = await (contract as any).publicMint(tokenURI);
+    tx = await (contract as any).publicMint(tokenURI, royaltyReceiver, royaltyBps);
   } else {
     if (!hasSafeMint) throw new Error("Contract has neither publicMint nor safeMint");
     const owner: string =
@@ -51,7 +109,7 @@ export async function mintNft(
     if (!owner || owner.toLowerCase() !== caller.toLowerCase()) {
       throw new Error("This contract allows only the owner to mint (safeMint).");
     }
-    tx = await (contract as any).safeMint(caller, tokenURI);
+    tx = await (contract as any).safeMint(caller, tokenURI, royaltyReceiver, royaltyBps);
   }
 
   // 5) Wait for receipt (works with our signer shim)
@@ -84,7 +142,7 @@ export async function mintNft(
       const { error } = await supabase.functions.invoke("record-mint", {
         body: {
           artwork_id: opts.artworkId,
-          contract_address: CONTRACT_ADDR,
+          contract_address: contractAddr,
           token_id: tokenId ?? null,
           tx_hash: txHash,
         },
@@ -95,7 +153,7 @@ export async function mintNft(
       await supabase
         .from("artworks")
         .update({
-          contract_address: CONTRACT_ADDR,
+          contract_address: contractAddr,
           token_id: tokenId ?? null,
           tx_hash: txHash,
         })
@@ -105,3 +163,64 @@ export async function mintNft(
 
   return { txHash, tokenId };
 }
+
+/**
+ * Create an edition artwork's ERC-1155 token on TaedalEditions and record it.
+ * Limited editions mint the whole run to the creator; open editions start at
+ * zero and are issued as they sell. The token id comes from EditionCreated.
+ */
+export async function mintEdition(
+  tokenURI: string,
+  artworkId: string,
+  onTx?: (txHash: string) => void
+): Promise<MintResult> {
+  if (!EDITIONS_ADDR) throw new Error("VITE_EDITIONS_CONTRACT missing");
+  const edition = await artworkEdition(artworkId);
+  if (edition.type === "unique") throw new Error("This artwork is a one-of-one; mint it with mintNft");
+  if (edition.type === "limited" && !edition.size) throw new Error("Limited edition has no size");
+
+  await requestAccounts();
+  await ensureSepolia();
+  const signer = await getSignerAsync();
+  const caller = await signer.getAddress();
+
+  const royaltyBps = await artworkRoyaltyBps(artworkId);
+  assertRoyaltyBps(royaltyBps);
+
+  const iface = new ethers.Interface(EDITIONS_ABI);
+  const supply = edition.type === "limited" ? edition.size! : 0;
+  const data = iface.encodeFunctionData("createEdition", [supply, supply, tokenURI, caller, royaltyBps]);
+  const tx = await signer.sendTransaction({ to: EDITIONS_ADDR, value: "0x0", data });
+  onTx?.(tx.hash);
+
+  const rc = await tx.wait();
+  if (rc?.status === 0) throw new Error("Edition mint reverted");
+  const txHash: string = rc?.transactionHash ?? rc?.hash ?? tx.hash;
+
+  let tokenId: string | undefined;
+  for (const log of (rc?.logs ?? []) as Array<{ address?: string; topics: string[]; data: string }>) {
+    if (String(log.address ?? "").toLowerCase() !== EDITIONS_ADDR.toLowerCase()) continue;
+    try {
+      const parsed = iface.parseLog(log);
+      if (parsed?.name === "EditionCreated") {
+        tokenId = parsed.args.id.toString();
+        break;
+      }
+    } catch {
+      // not ours
+    }
+  }
+
+  const { error } = await supabase.functions.invoke("record-mint", {
+    body: {
+      artwork_id: artworkId,
+      contract_address: EDITIONS_ADDR,
+      token_id: tokenId ?? null,
+      tx_hash: txHash,
+      token_standard: "erc1155",
+    },
+  });
+  if (error) throw error;
+
+  return { txHash, tokenId };
+}
@@ -1,14 +1,74 @@
 import { supabase } from "./supabase";
 
+/** notifications.kind (notification_pipeline migration). */
+export type NotificationKind =
+  | "like"
+  | "comment"
+  | "follow"
+  | "system"
+  | "sale"
+  | "bid"
+  | "outbid"
+  | "offer"
+  | "auction"
+  | "license"
+  | "shipment"
+  | "chip_scan";
+
+export const NOTIFICATION_KINDS: { kind: NotificationKind; label: string }[] = [
+  { kind: "sale", label: "Sales and purchases" },
+  { kind: "bid", label: "Bids on your auctions" },
+  { kind: "outbid", label: "Outbid" },
+  { kind: "offer", label: "Offers" },
+  { kind: "auction", label: "Auction results" },
+  { kind: "license", label: "License requests and messages" },
+  { kind: "shipment", label: "Shipments" },
+  { kind: "chip_scan", label: "Chip and QR scans" },
+  { kind: "follow", label: "New followers" },
+  { kind: "like", label: "Likes" },
+  { kind: "comment", label: "Comments" },
+  { kind: "system", label: "Drops and announcements" },
+];
+
+/** payload.message is the line to show; the ids say what it's about. */
+export type NotificationPayload = {
+  message?: string;
+  event?: string;
+  artwork_id?: string;
+  listing_id?: string;
+  order_id?: string;
+  offer_id?: string;
+  request_id?: string;
+  amount?: number;
+  currency?: string | null;
+  status?: string;
+  result?: string;
+  by?: string;
+};
+
 export type NotificationRow = {
   id: string;
   profile_id: string;
-  kind: "like" | "comment" | "follow" | "system";
-  payload: any;
+  kind: NotificationKind;
+  payload: NotificationPayload;
+  /** app path the notification opens */
+  link: string | null;
   created_at: string;
   read_at: string | null;
 };
 
+export type NotificationSettings = {
+  in_app_muted: NotificationKind[];
+  email_muted: NotificationKind[];
+  digest: "off" | "daily" | "weekly";
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  in_app_muted: [],
+  email_muted: ["like", "comment", "follow"],
+  digest: "daily",
+};
+
 export async function fetchNotifications(limit = 30): Promise<NotificationRow[]> {
   const { data, error } = await supabase
     .from("notifications")
@@ -23,3 +83,36 @@ export async function markAllRead(): Promise<void> {
   const { error } = await supabase.rpc("mark_all_notifications_read");
   if (error) throw error;
 }
+
+export async function markRead(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("read_at", null);
+  if (error) throw error;
+}
+
+/** The caller's channel preferences (defaults until they save once). */
+export async function fetchNotificationSettings(): Promise<NotificationSettings> {
+  const { data: session } = await supabase.auth.getSession();
+  const uid = session.session?.user?.id;
+  if (!uid) return DEFAULT_NOTIFICATION_SETTINGS;
+  const { data, error } = await supabase
+    .from("notification_settings")
+    .select("in_app_muted,email_muted,digest")
+    .eq("profile_id", uid)
+    .maybeSingle<NotificationSettings>();
+  if (error) throw error;
+  return data ?? DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+export async function saveNotificationSettings(settings: NotificationSettings): Promise<void> {
+  const { data: session } = await supabase.auth.getSession();
+  const uid = session.session?.user?.id;
+  if (!uid) throw new Error("Not signed in");
+  const { error } = await supabase
+    .from("notification_settings")
+    .upsert({ profile_id: uid, ...settings, updated_at: new Date().toISOString() }, { onConflict: "profile_id" });
+  if (error) throw error;
+}
@@ -0,0 +1,168 @@
+import { getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+import { ensureSepolia, getSignerAsync } from "./wallet";
+import type { PaymentProviderId } from "./checkout";
+
+export type OfferFunding = "none" | "stripe_preauth" | "weth_allowance";
+
+export type OfferStatus =
+  | "awaiting_funds"
+  | "open"
+  | "countered"
+  | "accepted"
+  | "declined"
+  | "withdrawn"
+  | "expired"
+  | "failed";
+
+export type Offer = {
+  id: string;
+  artwork_id: string;
+  listing_id: string | null;
+  buyer_id: string;
+  seller_id: string;
+  /** Counters are made by whoever received the offer before them. */
+  made_by: "buyer" | "seller";
+  parent_offer_id: string | null;
+  quantity: number;
+  /** Per unit, in `currency`. */
+  amount: number;
+  currency: string;
+  message: string | null;
+  status: OfferStatus;
+  expires_at: string;
+  funding: OfferFunding;
+  buyer_wallet: string | null;
+  weth_spender: string | null;
+  order_id: string | null;
+  last_error: string | null;
+  created_at: string;
+};
+
+/** What a WETH-backed offer needs approved before it can be placed. */
+export type WethApproval = { token: string; spender: string; amount_wei: string; chain_id: number };
+
+export type MakeOfferInput = {
+  artwork_id: string;
+  amount: number;
+  currency: string;
+  quantity?: number;
+  seller_id?: string;
+  expires_in_hours?: number;
+  funding?: OfferFunding;
+  buyer_wallet?: string;
+  message?: string;
+};
+
+export type MakeOfferResult =
+  | { offer: Offer; checkout_url: string | null; approve?: undefined }
+  | { approve: WethApproval; error: string; offer?: undefined };
+
+/**
+ * Place an offer. Card-backed offers come back with `checkout_url` (the buyer
+ * authorizes the hold there before the seller sees it). WETH-backed offers come
+ * back with `approve` until the wallet has approved the seller to pull the WETH;
+ * call approveWeth and try again.
+ */
+export async function makeOffer(input: MakeOfferInput): Promise<MakeOfferResult> {
+  const token = await getAccessToken();
+  const res = await apiFetch("/api/offers", { method: "POST", body: JSON.stringify(input) }, token ?? undefined);
+  if (res.status === 422) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string; approve?: WethApproval };
+    if (body.approve) return { approve: body.approve, error: body.error ?? "WETH approval required" };
+    throw new Error(body.error || "Offer rejected");
+  }
+  return getJSON<MakeOfferResult>(res);
+}
+
+/** ERC-20 approve(spender, amount) from the connected wallet; resolves once mined. */
+export async function approveWeth(approve: WethApproval) {
+  await ensureSepolia();
+  const signer = await getSignerAsync();
+  const data =
+    "0x095ea7b3" +
+    approve.spender.toLowerCase().replace(/^0x/, "").padStart(64, "0") +
+    BigInt(approve.amount_wei).toString(16).padStart(64, "0");
+  const tx = await signer.sendTransaction({ to: approve.token, value: "0x0", data });
+  const rc = await tx.wait();
+  if (rc?.status === 0) throw new Error("WETH approval reverted");
+  return tx.hash as string;
+}
+
+export async function listOffers(opts: { artworkId?: string; role?: "buyer" | "seller" } = {}) {
+  const token = await getAccessToken();
+  const qs = new URLSearchParams();
+  if (opts.artworkId) qs.set("artwork_id", opts.artworkId);
+  if (opts.role) qs.set("role", opts.role);
+  const res = await apiFetch(`/api/offers${qs.toString() ? `?${qs}` : ""}`, {}, token ?? undefined);
+  return (await getJSON<{ offers: Offer[] }>(res)).offers;
+}
+
+async function post<T>(path: string, body?: unknown) {
+  const token = await getAccessToken();
+  const res = await apiFetch(path, { method: "POST", body: body ? JSON.stringify(body) : undefined }, token ?? undefined);
+  return getJSON<T>(res);
+}
+
+/** Answer with a different price; the original offer is closed as "countered". */
+export async function counterOffer(offerId: string, amount: number, opts: { expires_in_hours?: number; message?: string } = {}) {
+  return (await post<{ offer: Offer }>(`/api/offers/${offerId}/counter`, { amount, ...opts })).offer;
+}
+
+export async function withdrawOffer(offerId: string) {
+  return (await post<{ offer: Offer }>(`/api/offers/${offerId}/withdraw`)).offer;
+}
+
+export async function declineOffer(offerId: string) {
+  return (await post<{ offer: Offer }>(`/api/offers/${offerId}/decline`)).offer;
+}
+
+export type AcceptedOffer = {
+  offer: Offer;
+  order_id: string;
+  /** "paid": the card hold was captured and the sale settled. */
+  status: "paid" | "pending";
+  /** WETH offers: the transferFrom the seller's wallet sends, then reports to settleWethOffer. */
+  instructions: { chain_id: number; from: string; to: string; value: string; data: string } | null;
+};
+
+export async function acceptOffer(offerId: string) {
+  return post<AcceptedOffer>(`/api/offers/${offerId}/accept`);
+}
+
+/**
+ * Seller side of an accepted WETH offer: send the transferFrom, then report it.
+ * The server answers "pending" until the tx has enough confirmations, so this
+ * keeps asking until it settles (or we give up).
+ */
+export async function settleWethOffer(
+  offerId: string,
+  instructions: NonNullable<AcceptedOffer["instructions"]>,
+  opts: { intervalMs?: number; timeoutMs?: number } = {}
+) {
+  await ensureSepolia();
+  const signer = await getSignerAsync();
+  const tx = await signer.sendTransaction({ to: instructions.to, value: instructions.value, data: instructions.data });
+  await tx.wait();
+
+  const interval = opts.intervalMs ?? 5000;
+  const deadline = Date.now() + (opts.timeoutMs ?? 10 * 60 * 1000);
+  for (;;) {
+    const r = await post<{ status: "paid" | "pending"; order_id: string }>(`/api/offers/${offerId}/settle`, {
+      tx_hash: tx.hash,
+    });
+    if (r.status === "paid") return r;
+    if (Date.now() > deadline) throw new Error("Still waiting for confirmations — check back shortly.");
+    await new Promise((ok) => setTimeout(ok, interval));
+  }
+}
+
+/** Buyer pays an accepted offer that had no hold behind it (`wallet` to pay on-chain); same shape as startCheckout. */
+export async function payAcceptedOffer(offerId: string, provider?: PaymentProviderId, wallet?: string) {
+  return post<{
+    order_id: string;
+    provider: PaymentProviderId;
+    checkout_url: string | null;
+    instructions: { chain_id: number; to: string; value: string; data?: string } | null;
+  }>(`/api/offers/${offerId}/checkout`, { provider, wallet });
+}
@@ -0,0 +1,70 @@
+import { getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+
+export type PayoutBalance = {
+  currency: string;
+  earned: number;
+  paid_out: number;
+  in_payout: number;
+  available: number;
+  /** physical sales waiting on delivery (physical_escrow migration) */
+  in_escrow?: number;
+  /** shares of on-chain sales the seller still owes the platform (onchain_receivables migration) */
+  uncollected?: number;
+  last_earned_at: string | null;
+};
+
+export type PayoutBatch = {
+  id: string;
+  currency: string;
+  amount: number;
+  split_count: number;
+  status: "pending" | "sent" | "failed";
+  method: string | null;
+  reference: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+export type Earning = {
+  split_id: string;
+  order_id: string;
+  artwork_id: string;
+  artwork_title: string | null;
+  recipient_type: "seller" | "creator_royalty" | "platform_fee" | "charity" | string;
+  amount: number;
+  currency: string;
+  settled_at: string;
+  payout_batch_id: string | null;
+};
+
+export type PayoutsRange = { from?: string; to?: string };
+
+function query(range: PayoutsRange, extra: Record<string, string> = {}) {
+  const p = new URLSearchParams(extra);
+  if (range.from) p.set("from", range.from);
+  if (range.to) p.set("to", range.to);
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
+
+/** Balances, payout batches and earnings for the signed-in user. */
+export async function fetchMyPayouts(range: PayoutsRange = {}) {
+  const token = await getAccessToken();
+  const res = await apiFetch(`/api/me/payouts${query(range)}`, {}, token ?? undefined);
+  return getJSON<{ balances: PayoutBalance[]; batches: PayoutBatch[]; earnings: Earning[] }>(res);
+}
+
+/** Earnings statement as CSV (same range), saved through a temporary link. */
+export async function downloadEarningsCsv(range: PayoutsRange = {}, filename = "taedal-earnings.csv") {
+  const token = await getAccessToken();
+  const res = await apiFetch(`/api/me/payouts${query(range, { format: "csv" })}`, {}, token ?? undefined);
+  if (!res.ok) throw new Error((await res.text()) || `HTTP ${res.status}`);
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
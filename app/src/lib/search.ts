@@ -0,0 +1,75 @@
+import { apiFetch, getJSON } from "./api";
+
+/** One navbar result; handle is the artwork id, username or collection slug. */
+export type SearchHit = {
+  kind: "artwork" | "profile" | "collection";
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  image_url: string | null;
+  handle: string;
+  score: number;
+};
+
+export type ArtworkSearchFilters = {
+  q?: string;
+  status?: "all" | "buy-now" | "on-auction" | "dutch" | "drops" | "new" | "has-offers";
+  medium?: string[];
+  currency?: string[];
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  physical?: "physical" | "digital" | null;
+  tags?: string[];
+  endingSoon?: boolean;
+  newToday?: boolean;
+  sort?: "relevance" | "recent" | "trending" | "price-asc" | "price-desc";
+};
+
+export type FacetCount = { value: string; count: number };
+
+/** Counts with every other filter applied, so picking a value doesn't hide its siblings. */
+export type ArtworkFacets = {
+  medium: FacetCount[];
+  currency: FacetCount[];
+  /** max null: and above */
+  price: { min: number; max: number | null; count: number }[];
+  physical: FacetCount[];
+  tags: FacetCount[];
+};
+
+/** Ranked artworks, profiles and collections for `q` (the navbar typeahead). */
+export async function searchEverything(q: string, opts: { limit?: number; cursor?: string | null } = {}) {
+  const qs = new URLSearchParams({ scope: "all", q });
+  if (opts.limit) qs.set("limit", String(opts.limit));
+  if (opts.cursor) qs.set("cursor", opts.cursor);
+  const res = await apiFetch(`/api/search?${qs}`);
+  return getJSON<{ hits: SearchHit[]; next_cursor: string | null }>(res);
+}
+
+/**
+ * One page of Discover items (v_discover_items rows). Pass the previous page's
+ * next_cursor with the same filters to continue; facets come with the first page.
+ */
+export async function searchArtworks<T>(
+  filters: ArtworkSearchFilters,
+  opts: { cursor?: string | null; limit?: number; facets?: boolean } = {}
+) {
+  const qs = new URLSearchParams({ scope: "artworks" });
+  if (filters.q?.trim()) qs.set("q", filters.q.trim());
+  if (filters.status) qs.set("status", filters.status);
+  if (filters.sort) qs.set("sort", filters.sort);
+  for (const m of filters.medium ?? []) qs.append("medium", m);
+  for (const c of filters.currency ?? []) qs.append("currency", c);
+  for (const t of filters.tags ?? []) qs.append("tags", t);
+  if (filters.minPrice != null) qs.set("min_price", String(filters.minPrice));
+  if (filters.maxPrice != null) qs.set("max_price", String(filters.maxPrice));
+  if (filters.physical) qs.set("physical", filters.physical);
+  if (filters.endingSoon) qs.set("ending_soon", "1");
+  if (filters.newToday) qs.set("new_today", "1");
+  if (opts.limit) qs.set("limit", String(opts.limit));
+  if (opts.cursor) qs.set("cursor", opts.cursor);
+  if (opts.facets) qs.set("facets", "1");
+
+  const res = await apiFetch(`/api/search?${qs}`);
+  return getJSON<{ items: T[]; next_cursor: string | null; facets?: ArtworkFacets }>(res);
+}
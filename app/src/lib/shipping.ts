@@ -1,5 +1,6 @@
 // app/src/lib/shipping.ts
-import { supabase } from "./supabase";
+import { getAccessToken, supabase } from "./supabase";
+import { apiFetch, getJSON } from "./api";
 
 /** ------------------------------------------------------------------ */
 /** Types & constants                                                  */
@@ -136,7 +137,7 @@ export async function getShipmentById(id: string) {
   const { data, error } = await supabase
     .from("shipments")
     .select(
-      "id,artwork_id,owner_id,carrier,tracking_number,status,status_v2,note,estimated_delivery_date,created_at,updated_at,tracking_slug,last_checkpoint,delivered_at,buyer_confirmed_at"
+      "id,artwork_id,owner_id,carrier,tracking_number,status,status_v2,note,estimated_delivery_date,created_at,updated_at,tracking_slug,last_checkpoint,delivered_at,buyer_confirmed_at,label_path,label_service,label_provider,from_address,to_address,declared_value,declared_currency,insured_value,insured_currency,insurance_cost,insurance_currency,hs_code,customs_description,origin_country,customs_doc_kind,customs_doc_path"
     )
     .eq("id", id)
     .single();
@@ -147,7 +148,7 @@ export async function getShipmentById(id: string) {
 export async function listShipmentEvents(shipmentId: string) {
   const { data, error } = await supabase
     .from("shipment_events")
-    .select("id,code,message,created_at,source")
+    .select("id,code,message,created_at,source,leg_id,condition")
     .eq("shipment_id", shipmentId)
     .order("created_at", { ascending: false });
   if (error) throw error;
@@ -220,3 +221,298 @@ export async function updateShipmentDetails(
     if (e2) throw e2;
   }
 }
+
+/** ------------------------------------------------------------------ */
+/** Labels (carrier providers via the API)                             */
+/** ------------------------------------------------------------------ */
+
+export type CarrierProviderId = "easypost" | "aftership" | "fake";
+
+export type ShippingAddress = {
+  name: string;
+  company?: string | null;
+  street1: string;
+  street2?: string | null;
+  city: string;
+  state?: string | null;
+  zip: string;
+  country: string; // ISO 3166-1 alpha-2
+  phone?: string | null;
+  email?: string | null;
+};
+
+export type ShippingRate = {
+  id: string;
+  provider: CarrierProviderId;
+  carrier: string;
+  carrierSlug: string | null;
+  service: string;
+  amount: number;
+  currency: string;
+  days: number | null;
+  deliveryDate: string | null;
+  /** On top of `amount`, when the quote asked for insurance. */
+  insuranceCost: number | null;
+};
+
+export type Money = { amount: number; currency: string };
+
+export type CustomsDeclaration = {
+  description: string;
+  hsCode: string;
+  originCountry: string;
+  value: Money;
+  signer: string;
+};
+
+export type ShippingQuote = {
+  quote_id: string;
+  expires_at: string;
+  provider: CarrierProviderId;
+  parcel: { length: number; width: number; height: number; dimUnit: "in" | "cm"; weight: number; weightUnit: string };
+  /** Sale currency; defaults to what the work sold for. */
+  declared: Money | null;
+  /** Insured value as the carrier bills it (USD). */
+  insurance: Money | null;
+  /** Set when the route crosses a border. */
+  customs: CustomsDeclaration | null;
+  rates: ShippingRate[];
+};
+
+async function api<T>(path: string, body?: unknown, method = "POST") {
+  const token = await getAccessToken();
+  const res = await apiFetch(
+    path,
+    body === undefined ? {} : { method, body: JSON.stringify(body) },
+    token ?? undefined
+  );
+  return getJSON<T>(res);
+}
+
+export async function listCarrierProviders() {
+  return (await api<{ providers: CarrierProviderId[] }>("/api/shipping/carriers")).providers;
+}
+
+export async function validateShippingAddress(address: ShippingAddress, provider?: CarrierProviderId) {
+  return api<{ valid: boolean; address: ShippingAddress; messages: string[] }>("/api/shipping/addresses/validate", {
+    address,
+    provider,
+  });
+}
+
+/** Rates for the packed artwork; the box defaults to its dimensions plus packing. */
+export async function quoteShippingRates(input: {
+  artwork_id: string;
+  provider?: CarrierProviderId;
+  from: ShippingAddress;
+  to: ShippingAddress;
+  parcel: {
+    weight: number;
+    weight_unit: "oz" | "lb" | "g" | "kg";
+    length?: number;
+    width?: number;
+    height?: number;
+    dim_unit?: "in" | "cm";
+  };
+  declared_value?: Money | null;
+  insure?: boolean;
+  customs?: { description?: string | null; hs_code?: string | null; origin_country?: string | null } | null;
+}) {
+  return api<ShippingQuote>("/api/shipping/rates", input);
+}
+
+/** Buys postage for a quoted rate; the shipment comes back with tracking already set. */
+export async function buyShippingLabel(quoteId: string, rateId: string) {
+  return api<{
+    shipment: { id: string; tracking_number: string | null };
+    label_url: string | null;
+    customs_url: string | null;
+    rate: ShippingRate;
+  }>(
+    "/api/shipping/labels",
+    { quote_id: quoteId, rate_id: rateId }
+  );
+}
+
+export async function getShippingLabelUrl(shipmentId: string) {
+  return (await api<{ url: string }>(`/api/shipments/${shipmentId}/label`)).url;
+}
+
+/** Declared value, addresses and customs fields; crossing a border regenerates the customs form. */
+export async function updateShipmentCustoms(
+  shipmentId: string,
+  input: {
+    declared_value?: Money | null;
+    from?: ShippingAddress | null;
+    to?: ShippingAddress | null;
+    description?: string | null;
+    hs_code?: string | null;
+    origin_country?: string | null;
+  }
+) {
+  return api<{ shipment: Record<string, unknown>; customs_url: string | null }>(`/api/shipments/${shipmentId}/customs`, input);
+}
+
+/** Insure a label bought through a provider; the value defaults to the declared value. */
+export async function insureShipment(shipmentId: string, value?: Money) {
+  return (await api<{ shipment: Record<string, unknown> }>(`/api/shipments/${shipmentId}/insurance`, { value })).shipment;
+}
+
+export async function getCustomsDocUrl(shipmentId: string) {
+  return (await api<{ url: string }>(`/api/shipments/${shipmentId}/customs-doc`)).url;
+}
+
+/** ------------------------------------------------------------------ */
+/** Legs & condition reports                                           */
+/** ------------------------------------------------------------------ */
+
+export type LegStatus =
+  | "pending"
+  | "handed_to_carrier"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "returned"
+  | "exception";
+
+export const LEG_STATUSES: readonly LegStatus[] = [
+  "pending",
+  "handed_to_carrier",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "returned",
+  "exception",
+] as const;
+
+export type HandlerRole = "carrier" | "courier" | "framer" | "gallery" | "storage" | "collector" | "other";
+
+export const HANDLER_ROLES: readonly HandlerRole[] = [
+  "carrier",
+  "courier",
+  "framer",
+  "gallery",
+  "storage",
+  "collector",
+  "other",
+] as const;
+
+export type Condition = "excellent" | "good" | "fair" | "damaged";
+
+export type ShipmentLeg = {
+  id: string;
+  shipment_id: string;
+  seq: number;
+  handler_id: string | null;
+  handler_name: string | null;
+  handler_role: HandlerRole;
+  from_label: string | null;
+  to_label: string | null;
+  carrier: string | null;
+  tracking_number: string | null;
+  tracking_slug: string | null;
+  status: LegStatus;
+  started_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ConditionReport = {
+  id: string;
+  stage: "pickup" | "delivery" | null;
+  condition: Condition;
+  notes: string | null;
+  /** Signed links, valid for an hour. */
+  photos: string[];
+  signature: { name: string; method: "typed" | "drawn"; signed_at: string; image_url: string | null } | null;
+  reported_by: string | null;
+  created_at: string;
+};
+
+export type LegInput = {
+  handler_id?: string | null;
+  handler_name?: string | null;
+  handler_role?: HandlerRole;
+  from_label?: string | null;
+  to_label?: string | null;
+  carrier?: string | null;
+  tracking_number?: string | null;
+};
+
+/** Legs for several shipments at once (plain rows, for timelines). */
+export async function listLegsForShipments(shipmentIds: string[]) {
+  if (!shipmentIds.length) return [] as ShipmentLeg[];
+  const { data, error } = await supabase
+    .from("shipment_legs")
+    .select(
+      "id,shipment_id,seq,handler_id,handler_name,handler_role,from_label,to_label,carrier,tracking_number,tracking_slug,status,started_at,delivered_at,created_at,updated_at"
+    )
+    .in("shipment_id", shipmentIds)
+    .order("seq");
+  if (error) throw error;
+  return (data ?? []) as ShipmentLeg[];
+}
+
+/** The route with each leg's condition reports; photo and signature links are signed. */
+export async function getShipmentLegs(shipmentId: string) {
+  return api<{ can_manage: boolean; legs: (ShipmentLeg & { reports: ConditionReport[] })[] }>(
+    `/api/shipments/${shipmentId}/legs`
+  );
+}
+
+export async function addShipmentLeg(shipmentId: string, input: LegInput) {
+  return (await api<{ leg: ShipmentLeg }>(`/api/shipments/${shipmentId}/legs`, input)).leg;
+}
+
+export async function updateShipmentLeg(
+  shipmentId: string,
+  legId: string,
+  input: LegInput & { status?: LegStatus; note?: string | null }
+) {
+  return (await api<{ leg: ShipmentLeg }>(`/api/shipments/${shipmentId}/legs/${legId}`, input, "PATCH")).leg;
+}
+
+/**
+ * File the condition report for a handoff. Photos go straight to storage
+ * through signed upload slots; the report then cites their paths.
+ */
+export async function fileConditionReport(
+  shipmentId: string,
+  legId: string,
+  input: {
+    stage: "pickup" | "delivery";
+    condition: Condition;
+    notes?: string | null;
+    photos: File[];
+    signature: { name: string; image?: string | null };
+  }
+) {
+  let paths: string[] = [];
+  if (input.photos.length) {
+    const { uploads } = await api<{ uploads: { path: string; token: string }[] }>(
+      `/api/shipments/${shipmentId}/legs/${legId}/photo-uploads`,
+      { files: input.photos.map((f) => ({ content_type: f.type })) }
+    );
+    await Promise.all(
+      uploads.map(async (u, i) => {
+        const { error } = await supabase.storage
+          .from("condition-reports")
+          .uploadToSignedUrl(u.path, u.token, input.photos[i], { contentType: input.photos[i].type });
+        if (error) throw error;
+      })
+    );
+    paths = uploads.map((u) => u.path);
+  }
+
+  return api<{ report_id: string; shipment_status: ShipmentStatus | null }>(
+    `/api/shipments/${shipmentId}/legs/${legId}/reports`,
+    {
+      stage: input.stage,
+      condition: input.condition,
+      notes: input.notes ?? null,
+      photos: paths,
+      signature: input.signature,
+    }
+  );
+}
@@ -0,0 +1,41 @@
+import { getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+
+/** An existing artwork that looks like an upload; distances are out of 64 bits. */
+export type SimilarArtwork = {
+  artwork_id: string;
+  artwork_file_id: string | null;
+  title: string | null;
+  image_url: string;
+  creator_id: string | null;
+  phash_distance: number;
+  dhash_distance: number;
+  color_distance: number;
+  /** 0…1, higher is closer */
+  score: number;
+};
+
+/**
+ * Near-duplicate scan of a local file before it is uploaded: re-saves, resizes
+ * and light crops of existing artworks come back ranked, best match first.
+ */
+export async function findSimilarArtworks(file: Blob, opts: { limit?: number; excludeArtworkId?: string } = {}) {
+  const token = await getAccessToken();
+  const qs = new URLSearchParams();
+  if (opts.limit) qs.set("limit", String(opts.limit));
+  if (opts.excludeArtworkId) qs.set("exclude_artwork_id", opts.excludeArtworkId);
+
+  const res = await apiFetch(
+    `/api/similarity/search${qs.toString() ? `?${qs}` : ""}`,
+    { method: "POST", body: file, headers: { "Content-Type": file.type || "application/octet-stream" } },
+    token ?? undefined
+  );
+  return (await getJSON<{ matches: SimilarArtwork[] }>(res)).matches;
+}
+
+/** Fingerprint an artwork's images so later uploads are checked against it. */
+export async function indexArtworkImages(artworkId: string) {
+  const token = await getAccessToken();
+  const res = await apiFetch(`/api/artworks/${artworkId}/signatures`, { method: "POST" }, token ?? undefined);
+  return getJSON<{ indexed: number; failed: number }>(res);
+}
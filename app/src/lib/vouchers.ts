@@ -0,0 +1,97 @@
+import { getAccessToken } from "./supabase";
+import { apiFetch, getJSON } from "./api";
+import { ensureSepolia, getSignerAsync } from "./wallet";
+
+/** TaedalNFT's EIP-712 MintVoucher, as the API hands it out (uint256s as decimal strings). */
+export type MintVoucherMessage = {
+  creator: string;
+  uri: string;
+  price: string;
+  royaltyBps: number;
+  nonce: string;
+};
+
+type TypedField = { name: string; type: string };
+
+export type VoucherTypedData = {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: Record<string, TypedField[]>;
+  primaryType: "MintVoucher";
+  message: MintVoucherMessage;
+};
+
+export type VoucherSummary = {
+  id: string;
+  status: "active" | "redeemed" | "cancelled";
+  price: number;
+  currency?: string;
+  royalty_bps: number;
+  creator_wallet?: string;
+};
+
+const EIP712_DOMAIN: TypedField[] = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+];
+
+/**
+ * Lazy mint: the creator signs a voucher for the artwork's current ETH listing
+ * (price, tokenURI, royalty) instead of paying gas now. A buyer's checkout
+ * later mints the token to themselves and pays the creator in the same tx.
+ * Re-run after changing the price; the previous voucher is replaced.
+ */
+export async function publishVoucher(artworkId: string): Promise<VoucherSummary> {
+  await ensureSepolia();
+  const signer = await getSignerAsync();
+  const wallet: string = await signer.getAddress();
+  const token = await getAccessToken();
+
+  const prep = await getJSON<VoucherTypedData>(
+    await apiFetch(
+      `/api/artworks/${artworkId}/voucher/prepare`,
+      { method: "POST", body: JSON.stringify({ wallet }) },
+      token ?? undefined
+    )
+  );
+
+  const signature: string = await signer.provider.request({
+    method: "eth_signTypedData_v4",
+    params: [wallet, JSON.stringify({ ...prep, types: { EIP712Domain: EIP712_DOMAIN, ...prep.types } })],
+  });
+
+  const res = await apiFetch(
+    `/api/artworks/${artworkId}/voucher`,
+    { method: "POST", body: JSON.stringify({ voucher: prep.message, signature }) },
+    token ?? undefined
+  );
+  return (await getJSON<{ voucher: VoucherSummary }>(res)).voucher;
+}
+
+/** The artwork's redeemable voucher (it mints on purchase), or null. */
+export async function fetchActiveVoucher(artworkId: string) {
+  const res = await apiFetch(`/api/artworks/${artworkId}/voucher`);
+  return (await getJSON<{ voucher: VoucherSummary | null }>(res)).voucher;
+}
+
+/**
+ * Withdraw a voucher. With `onchain`, also spends its nonce on the contract so
+ * a copy of the signature can never be redeemed (costs the creator gas).
+ */
+export async function cancelVoucher(voucherId: string, opts: { onchain?: boolean } = {}) {
+  const token = await getAccessToken();
+  const res = await apiFetch(`/api/vouchers/${voucherId}/cancel`, { method: "POST" }, token ?? undefined);
+  const out = await getJSON<{
+    voucher: { id: string; status: string };
+    onchain_cancel: { chain_id: number; to: string; data: string };
+  }>(res);
+
+  if (opts.onchain) {
+    await ensureSepolia();
+    const signer = await getSignerAsync();
+    const tx = await signer.sendTransaction({ to: out.onchain_cancel.to, value: "0x0", data: out.onchain_cancel.data });
+    await tx.wait();
+  }
+  return out.voucher;
+}
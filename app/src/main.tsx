@@ -38,6 +38,7 @@ import StudioHome from "./routes/studio/StudioHome";
 import CreateChooser from "./routes/studio/CreateChooser";
 import DeployCollection from "./routes/studio/DeployCollection";
 import Deploying from "./routes/studio/Deploying";
+import Payouts from "./routes/studio/Payouts";
 import CheckoutSuccess from "./routes/checkout/Success";
 import DiscoverPage from "./routes/discover/Discover";
 import CollectionEdit from "./routes/collection/CollectionEdit";
@@ -159,6 +160,7 @@ const router = createBrowserRouter([
       { path: "/account", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><Account /></RequireAuth> }] },
       { path: "/create", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><CreateArtwork /></RequireAuth> }] },
       { path: "/studio", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><StudioHome /></RequireAuth> }] },
+      { path: "/studio/payouts", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><Payouts /></RequireAuth> }] },
       { path: "/studio/create", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><CreateChooser /></RequireAuth> }] },
       { path: "/studio/create/collection", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><DeployCollection /></RequireAuth> }] },
       { path: "/studio/create/collection/deploying", element: <AppLayout />, children: [{ index: true, element: <RequireAuth><Deploying /></RequireAuth> }] },
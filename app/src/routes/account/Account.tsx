@@ -3,6 +3,7 @@ import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 import CropModal from "../../components/CropModal";
 import VideoTrimModal from "../../components/VideoTrimModal";
+import NotificationSettings from "../../components/notifications/NotificationSettings";
 import { supabase } from "../../lib/supabase";
 
 /* --- tiny image resizer --- */
@@ -648,6 +649,8 @@ export default function Account() {
           {msg && <p className="text-sm text-amber-300">{msg}</p>}
         </form>
 
+        <NotificationSettings />
+
         {/* Tabs */}
         <div className="flex gap-3">
           <button
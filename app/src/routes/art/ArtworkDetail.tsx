@@ -1,23 +1,43 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import {
   createOrUpdateFixedPriceListing,
+  dutchPriceAt,
   fetchActiveListingForArtwork,
+  isOnDropAllowlist,
+  listingAvailable,
   type Listing,
 } from "../../lib/listings";
 import {
   fetchTopBid,
   placeBid,
+  placeMaxBid,
+  fetchMyMaxBid,
   subscribeBids,
   endAuction,
+  fetchAuctionState,
+  fetchMyAuctionAward,
+  payAuctionAward,
+  type AuctionAward,
+  type AuctionState,
   type Bid,
 } from "../../lib/bids";
 import RequestLicenseModal from "../../components/RequestLicenseModal";
 import PhysicalBadge from "../../components/art/PhysicalBadge";
 import ShipmentsPanel from "../../components/shipping/ShipmentsPanel";
+import ChipsPanel from "../../components/art/ChipsPanel";
+import LicensesPanel from "../../components/art/LicensesPanel";
 import OwnerAuctionPanel from "../../components/OwnerAuctionPanel";
+import OwnerDropPanel from "../../components/OwnerDropPanel";
+import OwnerBundlePanel from "../../components/OwnerBundlePanel";
+import { fetchActiveBundleForArtwork, fetchBundleItems, type BundleItem } from "../../lib/bundles";
 import QRCode from "qrcode";
+import { startCheckout, waitForOnchainSettlement } from "../../lib/checkout";
+import { publishVoucher } from "../../lib/vouchers";
+import { ensureSepolia, getSignerAsync } from "../../lib/wallet";
+import MakeOfferModal from "../../components/offers/MakeOfferModal";
+import OffersPanel from "../../components/offers/OffersPanel";
 
 /* ------------------------------ WalletModal ------------------------------ */
 
@@ -118,8 +138,6 @@ function ShareQRModal({
 
 /* ------------------------------ config ------------------------------ */
 
-const FALLBACK_PAYTO = (import.meta as any)?.env?.VITE_SEPOLIA_PAYTO ?? "";
-
 const SEPOLIA_CHAIN_ID_HEX = "0xaa36a7"; // 11155111
 const SEPOLIA_PARAMS = {
   chainId: SEPOLIA_CHAIN_ID_HEX,
@@ -129,15 +147,6 @@ const SEPOLIA_PARAMS = {
   blockExplorerUrls: ["https://sepolia.etherscan.io"],
 };
 
-function parseEther(amount: string | number): bigint {
-  const s = String(amount);
-  if (!/^\d+(\.\d+)?$/.test(s)) throw new Error("Invalid ETH amount");
-  const [ints, decs = ""] = s.split(".");
-  const d = (decs + "000000000000000000").slice(0, 18);
-  return BigInt(ints) * 10n ** 18n + BigInt(d);
-}
-const toHex = (v: bigint) => "0x" + v.toString(16);
-
 /* ------------------------------ types ------------------------------ */
 
 type Artwork = {
@@ -151,9 +160,13 @@ type Artwork = {
   ipfs_image_cid?: string | null;
   ipfs_metadata_cid?: string | null;
   token_uri?: string | null;
+  token_id?: string | null;
   type?: "digital" | "physical" | null;
   physical_status?: "with_creator" | "in_transit" | "with_buyer" | "in_gallery" | "unknown" | null;
   collection_id?: string | null;
+  edition_type?: "unique" | "limited" | "open" | null;
+  edition_size?: number | null;
+  editions_issued?: number | null;
 };
 
 type ArtworkFile = { id: string; url: string; kind: string | null; position: number | null };
@@ -185,13 +198,6 @@ type SaleRow = {
   tx_hash: string | null;
 };
 
-type OfferRow = {
-  amount?: number | null;
-  price?: number | null;
-  currency?: string | null;
-  status?: string | null;
-};
-
 /* New: minimal sibling artwork type for "More from this collection" */
 type SiblingArt = { id: string; title: string | null; image_url: string | null };
 
@@ -347,7 +353,7 @@ function DevQRModal({
   const [link, setLink] = useState<string>("");
   const [qrDataUrl, setQrDataUrl] = useState<string>("");
 
-  async function build() {
+  const build = useCallback(async () => {
     try {
       const c = await hmacSha256Hex(secret, `${tagId}|${ctr}`);
       const u = `${baseUrl}?a=${encodeURIComponent(tagId)}&c=${encodeURIComponent(c)}&ctr=${encodeURIComponent(ctr)}`;
@@ -359,11 +365,11 @@ function DevQRModal({
       setLink("Failed to build QR link");
       setQrDataUrl("");
     }
-  }
+  }, [secret, tagId, ctr, baseUrl]);
 
   useEffect(() => {
     if (open) build();
-  }, [open]);
+  }, [open, build]);
 
   if (!open) return null;
 
@@ -427,15 +433,23 @@ export default function ArtworkDetail() {
       })
     | null
   >(null);
+  // effects key on the listing's id, not the object (it's re-fetched on every load)
+  const activeListingId = activeListing?.id;
+  const activeListingType = activeListing?.type;
 
-  const MIN_INC_BPS = 500;
   const [topBid, setTopBid] = useState<Bid | null>(null);
+  const [auction, setAuction] = useState<AuctionState | null>(null);
+  const [myAward, setMyAward] = useState<AuctionAward | null>(null);
+  const [awardBusy, setAwardBusy] = useState(false);
+  const [awardMsg, setAwardMsg] = useState<string | null>(null);
 
   const [topOffer, setTopOffer] = useState<{ amount: number; currency: string } | null>(null);
 
   const [bidInput, setBidInput] = useState<string>("");
   const [bidMsg, setBidMsg] = useState<string | null>(null);
   const [bidBusy, setBidBusy] = useState(false);
+  const [bidAsMax, setBidAsMax] = useState(false);
+  const [myMax, setMyMax] = useState<number | null>(null);
 
   const [files, setFiles] = useState<ArtworkFile[]>([]);
   const [mainUrl, setMainUrl] = useState<string | null>(null);
@@ -456,12 +470,25 @@ export default function ArtworkDetail() {
   const [walletOpen, setWalletOpen] = useState(false);
   const [payBusy, setPayBusy] = useState(false);
 
+  /* Editions: units left on the listing (null = uncapped) and how many to buy */
+  const [available, setAvailable] = useState<number | null>(null);
+  const [buyQty, setBuyQty] = useState(1);
+
+  /* Dutch listings and drops: a ticking clock for the price / opening, and the viewer's allowlist spot */
+  const [clock, setClock] = useState(() => Date.now());
+  const [onAllowlist, setOnAllowlist] = useState<boolean | null>(null);
+
+  /* Bundles: the lot this listing sells, or the bundle this artwork is locked into */
+  const [bundleItems, setBundleItems] = useState<BundleItem[]>([]);
+  const [inBundle, setInBundle] = useState<{ listing_id: string; cover_artwork_id: string } | null>(null);
+
   const [sellerOpen, setSellerOpen] = useState(false);
 
   const [myHidden, setMyHidden] = useState<boolean | null>(null);
   const [hideBusy, setHideBusy] = useState(false);
 
   const [showLicense, setShowLicense] = useState(false);
+  const [showOffer, setShowOffer] = useState(false);
 
   /* New: "More from this collection" state */
   const [moreFrom, setMoreFrom] = useState<SiblingArt[]>([]);
@@ -502,7 +529,7 @@ export default function ArtworkDetail() {
         const { data, error } = await supabase
           .from("artworks")
           .select(
-            "id,title,description,image_url,creator_id,owner_id,created_at,ipfs_image_cid,ipfs_metadata_cid,token_uri,type,physical_status,collection_id"
+            "id,title,description,image_url,creator_id,owner_id,created_at,ipfs_image_cid,ipfs_metadata_cid,token_uri,token_id,type,physical_status,collection_id,edition_type,edition_size,editions_issued"
           )
           .eq("id", id)
           .maybeSingle();
@@ -613,12 +640,76 @@ export default function ArtworkDetail() {
   }, [id, viewerId]);
 
   useEffect(() => {
-    if (!activeListing || (activeListing as any).type !== "auction") return;
-    const off = subscribeBids(activeListing.id, (b) => {
+    setAuction(null);
+    if (!activeListingId || activeListingType !== "auction") return;
+    const listingId = activeListingId;
+    // a late bid can push end_at out (soft close), so re-read the state on every bid
+    const refresh = () => fetchAuctionState(listingId).then(setAuction, () => {});
+    refresh();
+    const off = subscribeBids(listingId, (b) => {
       setTopBid((cur) => (!cur || b.amount >= cur.amount ? b : cur));
+      refresh();
     });
     return off;
-  }, [activeListing?.id]);
+  }, [activeListingId, activeListingType]);
+
+  useEffect(() => {
+    if (!art?.id || !viewerId) {
+      setMyAward(null);
+      return;
+    }
+    fetchMyAuctionAward(art.id, viewerId).then(setMyAward, () => setMyAward(null));
+  }, [art?.id, viewerId, activeListing?.id]);
+
+  useEffect(() => {
+    if (!viewerId || !activeListingId || activeListingType !== "auction") {
+      setMyMax(null);
+      return;
+    }
+    fetchMyMaxBid(activeListingId).then(setMyMax, () => setMyMax(null));
+  }, [viewerId, activeListingId, activeListingType]);
+
+  const isEdition = !!art?.edition_type && art.edition_type !== "unique";
+
+  useEffect(() => {
+    setBuyQty(1);
+    setAvailable(null);
+    if (!activeListingId || !isEdition) return;
+    let alive = true;
+    listingAvailable(activeListingId)
+      .then((n) => alive && setAvailable(n))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [activeListingId, isEdition]);
+
+  const isDutch = activeListing?.type === "dutch";
+  const isDrop = activeListing?.type === "coming_soon";
+
+  useEffect(() => {
+    if (!isDutch && !isDrop) return;
+    const t = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [isDutch, isDrop]);
+
+  useEffect(() => {
+    setOnAllowlist(null);
+    if (!viewerId || !activeListing?.allowlist_only) return;
+    isOnDropAllowlist(activeListing.id, viewerId).then(setOnAllowlist, () => {});
+  }, [viewerId, activeListing?.id, activeListing?.allowlist_only]);
+
+  useEffect(() => {
+    setBundleItems([]);
+    if (!activeListing?.is_bundle) return;
+    fetchBundleItems(activeListing.id).then(setBundleItems, () => {});
+  }, [activeListing?.id, activeListing?.is_bundle]);
+
+  useEffect(() => {
+    setInBundle(null);
+    if (!art?.id || activeListing) return;
+    fetchActiveBundleForArtwork(art.id).then(setInBundle, () => {});
+  }, [art?.id, activeListing]);
 
   async function loadOwners(artworkId: string) {
     const { data } = await supabase
@@ -683,22 +774,16 @@ export default function ArtworkDetail() {
     try {
       const { data, error } = await supabase
         .from("offers")
-        .select("*")
+        .select("amount,currency")
         .eq("artwork_id", artworkId)
         .eq("status", "open")
-        .order("amount", { ascending: false, nullsFirst: false })
+        .gt("expires_at", new Date().toISOString())
+        .order("amount", { ascending: false })
         .limit(1);
 
       if (error) throw error;
-      const row = (data?.[0] || null) as OfferRow | null;
-      if (row) {
-        const amount = (row.amount ?? row.price ?? null) as number | null;
-        const currency = (row.currency ?? "USD") as string;
-        if (amount != null) setTopOffer({ amount, currency });
-        else setTopOffer(null);
-      } else {
-        setTopOffer(null);
-      }
+      const row = data?.[0];
+      setTopOffer(row ? { amount: Number(row.amount), currency: row.currency } : null);
     } catch {
       setTopOffer(null);
     }
@@ -719,7 +804,7 @@ export default function ArtworkDetail() {
       const fresh = await supabase
         .from("artworks")
         .select(
-          "id,title,description,image_url,creator_id,owner_id,created_at,ipfs_image_cid,ipfs_metadata_cid,token_uri,type,physical_status,collection_id"
+          "id,title,description,image_url,creator_id,owner_id,created_at,ipfs_image_cid,ipfs_metadata_cid,token_uri,token_id,type,physical_status,collection_id,edition_type,edition_size,editions_issued"
         )
         .eq("id", art.id)
         .maybeSingle();
@@ -800,6 +885,7 @@ export default function ArtworkDetail() {
       const { data, error } = await supabase.functions.invoke("create-checkout", {
         body: {
           listing_id: activeListing.id,
+          quantity: isEdition ? buyQty : 1,
           title: art.title ?? "Artwork purchase",
           success_url: `${location.origin}/checkout/success`,
           cancel_url: location.href,
@@ -842,36 +928,33 @@ export default function ArtworkDetail() {
         }
       }
 
-      const priceEth = Number(activeListing.fixed_price || 0);
-      if (!isFinite(priceEth) || priceEth <= 0) {
-        throw new Error("Invalid price for listing.");
+      // The server creates the pending order and says where to pay; the
+      // artwork only changes hands once it has verified the tx on-chain.
+      const session = await startCheckout(activeListing.id, {
+        provider: "onchain",
+        quantity: isEdition ? buyQty : 1,
+        wallet: from,
+      });
+      const pay = session.instructions;
+      if (!pay) throw new Error("No payment instructions returned.");
+      if ("0x" + pay.chain_id.toString(16) !== SEPOLIA_CHAIN_ID_HEX) {
+        throw new Error("Unexpected payment network.");
       }
 
-      const to = (activeListing as any).seller_wallet || FALLBACK_PAYTO || "";
-      if (!to) throw new Error("No receiving wallet configured (VITE_SEPOLIA_PAYTO).");
-
-      const value = toHex(parseEther(priceEth));
       const txHash: string = await ethereum.request({
         method: "eth_sendTransaction",
-        params: [{ from, to, value }],
+        params: [{ from, to: pay.to, value: pay.value, ...(pay.data ? { data: pay.data } : {}) }],
       });
 
-      try {
-        await supabase.functions.invoke("record-eth-purchase", {
-          body: {
-            listing_id: activeListing.id,
-            tx_hash: txHash,
-            buyer_wallet: from,
-            amount_eth: priceEth,
-            network: "sepolia",
-          },
-        });
-      } catch (e) {
-        console.warn("record-eth-purchase failed:", e);
-      }
+      setMsg(
+        pay.kind === "redeem"
+          ? "Minting to your wallet — waiting for confirmations…"
+          : "Payment sent — waiting for confirmations…"
+      );
+      await waitForOnchainSettlement(session.order_id, txHash, pay.chain_id);
 
       setWalletOpen(false);
-      setMsg("Payment sent ✔️");
+      setMsg("Purchase confirmed ✔️");
     } catch (e) {
       setMsg(asMsg(e));
     } finally {
@@ -887,9 +970,20 @@ export default function ArtworkDetail() {
       const amt = Number(bidInput || 0);
       if (!isFinite(amt) || amt <= 0) throw new Error("Enter a valid amount");
 
-      const b = await placeBid(activeListing.id, amt);
-      setTopBid(b);
-      setBidMsg("Bid placed ✅");
+      if (bidAsMax) {
+        const r = await placeMaxBid(activeListing.id, amt);
+        setMyMax(r.my_max);
+        setBidMsg(
+          r.is_leading
+            ? `You’re leading at ${r.top_amount} — we’ll bid up to ${r.my_max} for you`
+            : "Outbid: another bidder’s maximum is higher"
+        );
+      } else {
+        await placeBid(activeListing.id, amt);
+        setBidMsg("Bid placed ✅");
+      }
+      setTopBid(await fetchTopBid(activeListing.id));
+      setAuction(await fetchAuctionState(activeListing.id));
       setBidInput("");
     } catch (e: any) {
       setBidMsg(e?.message || "Bid failed");
@@ -900,20 +994,57 @@ export default function ArtworkDetail() {
 
   const isAuction =
     (activeListing as any)?.type === "auction" && !!(activeListing as any)?.end_at;
+  const auctionEndAt = auction?.listing.end_at ?? ((activeListing as any)?.end_at as string | undefined);
+
+  async function onPayAward() {
+    if (!myAward) return;
+    setAwardBusy(true);
+    setAwardMsg(null);
+    try {
+      // ETH is paid from the wallet the order is opened with
+      let signer: Awaited<ReturnType<typeof getSignerAsync>> | null = null;
+      if (myAward.currency === "ETH") {
+        await ensureSepolia();
+        signer = await getSignerAsync();
+      }
+      const session = await payAuctionAward(myAward.listing_id, undefined, signer ? await signer.getAddress() : undefined);
+      if (session.checkout_url) {
+        window.location.href = session.checkout_url;
+        return;
+      }
+      const pay = session.instructions;
+      if (!pay || !signer) throw new Error("No payment instructions returned.");
+      const tx = await signer.sendTransaction({ to: pay.to, value: pay.value, ...(pay.data ? { data: pay.data } : {}) });
+      setAwardMsg("Payment sent — waiting for confirmations…");
+      await waitForOnchainSettlement(session.order_id, tx.hash, pay.chain_id);
+      setMyAward(null);
+      setAwardMsg("Purchase confirmed ✔️");
+    } catch (e) {
+      setAwardMsg(asMsg(e));
+    } finally {
+      setAwardBusy(false);
+    }
+  }
 
   const creatorHandle = creator?.username ? `/u/${creator.username}` : creator ? `/u/${creator.id}` : "#";
   const ownerHandle = owner?.username ? `/u/${owner.username}` : owner ? `/u/${owner.id}` : null;
 
   const isOwner = !!viewerId && !!art?.owner_id && viewerId === art.owner_id;
   const isSeller = !!activeListing && viewerId === (activeListing as any).seller_id;
-  const canBuy = !!activeListing && !!viewerId && !isSeller;
+  const soldOut = isEdition && available === 0;
+  // a drop past start_at opens at checkout even if the sweeper hasn't flipped it yet
+  const dropOpen = isDrop && !!activeListing?.start_at && new Date(activeListing.start_at).getTime() <= clock;
+  const saleType = isDrop ? activeListing?.drop_sale_type : activeListing?.type;
+  const shownPrice =
+    activeListing && saleType === "dutch" ? dutchPriceAt(activeListing, clock) : activeListing?.fixed_price ?? null;
+  const canBuy =
+    !!activeListing && !!viewerId && !isSeller && !soldOut && (!isDrop || dropOpen) && onAllowlist !== false;
 
   const minNextBid = useMemo(() => {
     if (!isAuction) return 0;
-    const reserve = (activeListing as any)?.reserve_price ?? 0;
-    const base = topBid ? topBid.amount * (1 + MIN_INC_BPS / 10000) : 0;
-    return Math.max(reserve, base || reserve || 0);
-  }, [topBid, activeListing, isAuction]);
+    // the server's rule (reserve, then min_increment_bps over the top bid)
+    return auction?.min_bid ?? (activeListing as any)?.reserve_price ?? 0;
+  }, [auction, activeListing, isAuction]);
 
   const galleryThumbs = useMemo(
     () =>
@@ -968,6 +1099,8 @@ export default function ArtworkDetail() {
             ? "Tag / artwork mismatch ❌"
             : "Invalid ❌";
         setMsg(`${badge}${data?.owner_handle ? ` • Current owner ${data.owner_handle}` : ""}`);
+      } else if (data?.state === "revoked") {
+        setMsg("This tag has been revoked ❌");
       } else {
         setMsg("Verification failed ❌");
       }
@@ -1046,6 +1179,8 @@ export default function ArtworkDetail() {
                 ? "Tag / artwork mismatch ❌"
                 : "Invalid ❌";
             setMsg(`${badge}${data?.owner_handle ? ` • Current owner ${data.owner_handle}` : ""}`);
+          } else if (data?.state === "revoked") {
+            setMsg("This tag has been revoked ❌");
           } else {
             setMsg("Verification failed ❌");
           }
@@ -1266,7 +1401,20 @@ export default function ArtworkDetail() {
           </Card>
 
           {/* Listing / Buy */}
-          <Card title="Listing" right={isAuction ? <Pill tone="warning">AUCTION</Pill> : null}>
+          <Card
+            title="Listing"
+            right={
+              isAuction ? (
+                <Pill tone="warning">AUCTION</Pill>
+              ) : isDrop ? (
+                <Pill tone="success">DROP</Pill>
+              ) : isDutch ? (
+                <Pill tone="warning">DUTCH</Pill>
+              ) : activeListing?.is_bundle ? (
+                <Pill>BUNDLE</Pill>
+              ) : null
+            }
+          >
             {activeListing ? (
               <>
                 <div className="flex items-start justify-between gap-3">
@@ -1286,15 +1434,43 @@ export default function ArtworkDetail() {
                   ) : (
                     <div className="space-y-1">
                       <div className="text-3xl font-semibold">
-                        {fmtCurrency(activeListing.fixed_price ?? null, activeListing.sale_currency)}
+                        {fmtCurrency(shownPrice, activeListing.sale_currency)}
                       </div>
+                      {saleType === "dutch" && activeListing.dutch_floor_price != null && (
+                        <div className="text-[11px] text-white/60">
+                          {isDrop ? "Starts here, falls" : "Falling"} to{" "}
+                          {fmtCurrency(activeListing.dutch_floor_price, activeListing.sale_currency)}
+                          {activeListing.dutch_curve === "stepped" && activeListing.dutch_interval_seconds
+                            ? `, a step every ${Math.round(activeListing.dutch_interval_seconds / 60)} min`
+                            : ""}
+                          {" • you pay the price when you check out"}
+                        </div>
+                      )}
+                      {isDrop && (
+                        <div className="text-[11px] text-white/60">
+                          {activeListing.allowlist_only
+                            ? onAllowlist
+                              ? "Allowlist only — you're on it"
+                              : "Allowlist only"
+                            : "Open to everyone"}
+                          {activeListing.per_wallet_limit ? ` • limit ${activeListing.per_wallet_limit} per wallet` : ""}
+                        </div>
+                      )}
+                      {isEdition && (
+                        <div className="text-[11px] text-white/60">
+                          {art.edition_type === "limited" ? `Edition of ${art.edition_size}` : "Open edition"}
+                          {" • "}
+                          {soldOut ? "Sold out" : available == null ? `${art.editions_issued ?? 0} minted` : `${available} left`}
+                        </div>
+                      )}
                     </div>
                   )}
 
-                  {isAuction && (activeListing as any).end_at ? (
+                  {isAuction && auctionEndAt ? (
                     <Countdown
-                      endAt={(activeListing as any).end_at as string}
+                      endAt={auctionEndAt}
                       onElapsed={async () => {
+                        // the API's sweeper ends it regardless; this only saves the wait
                         try {
                           await endAuction(activeListing!.id);
                         } catch {}
@@ -1302,9 +1478,36 @@ export default function ArtworkDetail() {
                         setActiveListing(l as any);
                       }}
                     />
+                  ) : isDrop && activeListing.start_at && !dropOpen ? (
+                    <Countdown
+                      endAt={activeListing.start_at}
+                      onElapsed={async () => {
+                        setActiveListing(await fetchActiveListingForArtwork(art.id));
+                      }}
+                    />
                   ) : null}
                 </div>
 
+                {activeListing.is_bundle && bundleItems.length > 0 && (
+                  <div className="mt-3">
+                    <div className="text-[11px] text-white/60 mb-1">Bundle of {bundleItems.length}, sold as one lot</div>
+                    <div className="flex flex-wrap gap-2">
+                      {bundleItems.map((b) => (
+                        <Link
+                          key={b.artwork_id}
+                          to={`/art/${b.artwork_id}`}
+                          className="h-12 w-12 rounded-md overflow-hidden border border-white/10 bg-white/5"
+                          title={b.artworks?.title ?? "Untitled"}
+                        >
+                          {b.artworks?.image_url ? (
+                            <img src={b.artworks.image_url} alt="" className="h-full w-full object-cover" />
+                          ) : null}
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="mt-3 flex gap-2">
                   {isAuction ? (
                     viewerId && !isSeller ? (
@@ -1314,12 +1517,12 @@ export default function ArtworkDetail() {
                           type="number"
                           min={minNextBid || 0}
                           step="0.00000001"
-                          placeholder={minNextBid ? `≥ ${minNextBid}` : "Your bid"}
+                          placeholder={minNextBid ? `≥ ${minNextBid}` : bidAsMax ? "Your maximum" : "Your bid"}
                           value={bidInput}
                           onChange={(e) => setBidInput(e.target.value)}
                         />
                         <button className="btn flex-1" onClick={onPlaceBid} disabled={bidBusy}>
-                          {bidBusy ? "Bidding…" : "Place bid"}
+                          {bidBusy ? "Bidding…" : bidAsMax ? "Set max" : "Place bid"}
                         </button>
                       </>
                     ) : (
@@ -1329,14 +1532,42 @@ export default function ArtworkDetail() {
                     )
                   ) : (
                     <>
+                      {canBuy && isEdition && (
+                        <input
+                          className="input w-20"
+                          type="number"
+                          min={1}
+                          max={available ?? undefined}
+                          step={1}
+                          value={buyQty}
+                          onChange={(e) =>
+                            setBuyQty(Math.max(1, Math.min(Math.floor(Number(e.target.value) || 1), available ?? Infinity)))
+                          }
+                          aria-label="Quantity"
+                        />
+                      )}
                       {canBuy && (
                         <button className="btn flex-1" onClick={onBuy}>
-                          Buy now
+                          {isEdition && buyQty > 1 ? `Buy ${buyQty}` : "Buy now"}
+                        </button>
+                      )}
+                      {soldOut && <div className="text-sm text-white/70 flex-1 self-center">Sold out</div>}
+                      {isDrop && !dropOpen && !isSeller && (
+                        <div className="text-sm text-white/70 flex-1 self-center">
+                          Opens {new Date(activeListing.start_at!).toLocaleString()}
+                        </div>
+                      )}
+                      {onAllowlist === false && (!isDrop || dropOpen) && (
+                        <div className="text-sm text-white/70 flex-1 self-center">Allowlisted collectors only</div>
+                      )}
+                      {!isOwner && !activeListing.is_bundle && (
+                        <button
+                          className="btn bg-white/0 border border-white/20 hover:bg-white/10 flex-1"
+                          onClick={() => (viewerId ? setShowOffer(true) : setMsg("Sign in to make an offer."))}
+                        >
+                          Make offer
                         </button>
                       )}
-                      <button className="btn bg-white/0 border border-white/20 hover:bg-white/10 flex-1">
-                        Make offer
-                      </button>
                     </>
                   )}
                 </div>
@@ -1357,17 +1588,46 @@ export default function ArtworkDetail() {
                   </div>
                 )}
 
+                {isAuction && viewerId && !isSeller && (
+                  <label className="flex items-center gap-2 text-xs text-white/60 mt-2">
+                    <input type="checkbox" checked={bidAsMax} onChange={(e) => setBidAsMax(e.target.checked)} />
+                    Bid automatically up to a private maximum
+                  </label>
+                )}
+
                 {isAuction && (
                   <div className="text[12px] text-white/60 mt-2">
                     Min next bid: {minNextBid || "—"} {activeListing.sale_currency}
                     {viewerId && topBid?.bidder_id === viewerId ? " • You’re winning" : ""}
+                    {myMax != null ? ` • Your max: ${myMax} ${activeListing.sale_currency}` : ""}
                   </div>
                 )}
                 {bidMsg && <div className="text-xs text-neutral-200 mt-2">{bidMsg}</div>}
               </>
             ) : (
               <>
-                <p className="text-sm text-white/70">Not currently listed.</p>
+                {inBundle ? (
+                  <p className="text-sm text-white/70">
+                    For sale as part of a{" "}
+                    <Link className="underline" to={`/art/${inBundle.cover_artwork_id}`}>
+                      bundle
+                    </Link>
+                    .
+                  </p>
+                ) : (
+                  <p className="text-sm text-white/70">Not currently listed.</p>
+                )}
+
+                {viewerId && !isOwner && !inBundle && (
+                  <div className="mt-3">
+                    <button
+                      className="btn w-full bg-white/0 border border-white/20 hover:bg-white/10"
+                      onClick={() => setShowOffer(true)}
+                    >
+                      Make offer
+                    </button>
+                  </div>
+                )}
 
                 {canRequestLicense && (
                   <div className="mt-3">
@@ -1388,6 +1648,28 @@ export default function ArtworkDetail() {
             )}
           </Card>
 
+          {myAward && (
+            <div className="card space-y-2">
+              <h3 className="font-semibold">You won this auction</h3>
+              <div className="text-sm text-white/70">
+                {fmtCurrency(myAward.total_amount, myAward.currency)}
+                {myAward.pay_by ? ` — pay by ${new Date(myAward.pay_by).toLocaleString()} or it goes to the next bidder.` : ""}
+              </div>
+              <button className="btn w-full" onClick={onPayAward} disabled={awardBusy}>
+                {awardBusy ? "Processing…" : "Pay now"}
+              </button>
+              {awardMsg && <div className="text-xs text-amber-300">{awardMsg}</div>}
+            </div>
+          )}
+
+          {viewerId && (
+            <OffersPanel
+              artworkId={art.id}
+              viewerId={viewerId}
+              onSettled={() => Promise.all([loadOwners(art.id), loadSales(art.id), loadTopOfferSafe(art.id)])}
+            />
+          )}
+
           {/* IPFS */}
           <Card title="IPFS">
             {art.token_uri ? (
@@ -1470,6 +1752,10 @@ export default function ArtworkDetail() {
                       canEdit={!!viewerId && (viewerId === art.creator_id || viewerId === art.owner_id)}
                     />
 
+                    {viewerId && (
+                      <ChipsPanel artworkId={art.id} viewerId={viewerId} ownerId={art.owner_id} creatorId={art.creator_id} />
+                    )}
+
                     {/* Physical verification card */}
                     <Card
                       title={
@@ -1512,6 +1798,8 @@ export default function ArtworkDetail() {
                   </>
                 )}
 
+                {viewerId && <LicensesPanel artworkId={art.id} viewerId={viewerId} />}
+
                 <Card
                   title={
                     <div className="flex items-center gap-2">
@@ -1741,11 +2029,24 @@ export default function ArtworkDetail() {
         />
       )}
 
+      {art && (
+        <MakeOfferModal
+          open={showOffer}
+          onClose={() => setShowOffer(false)}
+          onPlaced={() => loadTopOfferSafe(art.id)}
+          artworkId={art.id}
+          currency={activeListing?.sale_currency ?? undefined}
+          isEdition={isEdition}
+          maxQuantity={available}
+        />
+      )}
+
       {isOwner && (
         <SellerConsole
           open={sellerOpen}
           onClose={() => setSellerOpen(false)}
           artworkId={art.id}
+          canLazyMint={viewerId === art.creator_id && !art.token_id && !!art.token_uri}
           onListingUpdated={async () =>
             setActiveListing((await fetchActiveListingForArtwork(art.id)) as any)
           }
@@ -1766,13 +2067,17 @@ export default function ArtworkDetail() {
 
 function OwnerListPanel({
   artworkId,
+  canLazyMint = false,
   onUpdated,
 }: {
   artworkId: string;
+  /** Unminted and pinned, viewed by its creator: can sign a mint voucher instead of minting. */
+  canLazyMint?: boolean;
   onUpdated: () => Promise<void> | void;
 }) {
   const [price, setPrice] = useState<string>("");
   const [currency, setCurrency] = useState<string>("ETH");
+  const [lazyMint, setLazyMint] = useState<boolean>(canLazyMint);
   const [msg, setMsg] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
 
@@ -1783,7 +2088,13 @@ function OwnerListPanel({
       const p = Number(price);
       if (!isFinite(p) || p <= 0) throw new Error("Enter a valid price");
       await createOrUpdateFixedPriceListing(artworkId, p, currency);
-      setMsg("Listing is live ✅");
+      if (canLazyMint && lazyMint && currency === "ETH") {
+        setMsg("Listing is live — sign the mint voucher in your wallet…");
+        await publishVoucher(artworkId);
+        setMsg("Listing is live ✅ Minted to the buyer on purchase.");
+      } else {
+        setMsg("Listing is live ✅");
+      }
       await onUpdated();
     } catch (e: any) {
       const m =
@@ -1822,6 +2133,12 @@ function OwnerListPanel({
           {busy ? "Listing…" : "List for sale"}
         </button>
       </div>
+      {canLazyMint && currency === "ETH" && (
+        <label className="flex items-center gap-2 text-xs text-white/80 mt-2">
+          <input type="checkbox" checked={lazyMint} onChange={(e) => setLazyMint(e.target.checked)} />
+          Lazy mint: sign a voucher now, no gas; the buyer's purchase mints the NFT
+        </label>
+      )}
       {msg && <div className="text-xs text-neutral-200 mt-2">{msg}</div>}
       <div className="text-[11px] text-white/60 mt-1">
         (Creates/updates a fixed-price listing visible on Explore.)
@@ -1836,14 +2153,16 @@ function SellerConsole({
   open,
   onClose,
   artworkId,
+  canLazyMint,
   onListingUpdated,
 }: {
   open: boolean;
   onClose: () => void;
   artworkId: string;
+  canLazyMint?: boolean;
   onListingUpdated: () => Promise<void> | void;
 }) {
-  const [tab, setTab] = useState<"price" | "auction" | "details">("price");
+  const [tab, setTab] = useState<"price" | "auction" | "dutch" | "drop" | "bundle" | "details">("price");
 
   if (!open) return null;
 
@@ -1859,7 +2178,7 @@ function SellerConsole({
         </div>
 
         <div className="flex gap-2 mb-3">
-          {(["price", "auction", "details"] as const).map((t) => (
+          {(["price", "auction", "dutch", "drop", "bundle", "details"] as const).map((t) => (
             <button
               key={t}
               onClick={() => setTab(t)}
@@ -1869,7 +2188,7 @@ function SellerConsole({
                   : "bg-white/0 text-white/80 hover:bg-white/10 border border-white/10"
               }`}
             >
-              {t === "price" ? "Price" : t === "auction" ? "Auction" : "Details"}
+              {{ price: "Price", auction: "Auction", dutch: "Dutch", drop: "Drop", bundle: "Bundle", details: "Details" }[t]}
             </button>
           ))}
         </div>
@@ -1878,7 +2197,7 @@ function SellerConsole({
           <div className="space-y-3">
             <div className="text-sm text-white/70">Create or update a fixed-price listing.</div>
             <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4">
-              <OwnerListPanel artworkId={artworkId} onUpdated={onListingUpdated} />
+              <OwnerListPanel artworkId={artworkId} canLazyMint={canLazyMint} onUpdated={onListingUpdated} />
             </div>
           </div>
         )}
@@ -1890,6 +2209,27 @@ function SellerConsole({
           </div>
         )}
 
+        {tab === "dutch" && (
+          <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4 space-y-3">
+            <div className="text-sm text-white/70">Sell at a price that falls until someone buys.</div>
+            <OwnerDropPanel artworkId={artworkId} mode="dutch" onCreated={onListingUpdated} />
+          </div>
+        )}
+
+        {tab === "drop" && (
+          <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4 space-y-3">
+            <div className="text-sm text-white/70">Release at a set time, optionally to an allowlist.</div>
+            <OwnerDropPanel artworkId={artworkId} mode="drop" onCreated={onListingUpdated} />
+          </div>
+        )}
+
+        {tab === "bundle" && (
+          <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4 space-y-3">
+            <div className="text-sm text-white/70">Sell this with other works you own as one lot.</div>
+            <OwnerBundlePanel artworkId={artworkId} onCreated={onListingUpdated} />
+          </div>
+        )}
+
         {tab === "details" && (
           <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4 space-y-3">
             <div className="text-sm text-white/70">Update artwork metadata (title/description, tags, etc.).</div>
@@ -2,7 +2,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
-import type { LicenseRequest, LicenseTerms } from "../../lib/licensing";
+import { licenseState, type License, type LicenseRequest, type LicenseTerms } from "../../lib/licensing";
 
 /** Sidebar width in px (adjust if your sidebar width changes) */
 const SIDEBAR_W = 72;
@@ -12,8 +12,12 @@ type Row = LicenseRequest & {
   artworks?: { id: string; title: string | null; image_url: string | null } | null;
   requester?: { id: string; display_name: string | null; username: string | null; avatar_url: string | null } | null;
   owner?: { id: string; display_name: string | null; username: string | null; avatar_url: string | null } | null;
+  license?: Pick<License, "id" | "status" | "starts_on" | "ends_on" | "renewed_at"> | null;
 };
 
+/** An accepted request whose license term has run out. */
+const isExpired = (r: Row) => r.status === "accepted" && !!r.license && licenseState(r.license) === "expired";
+
 const nameOf = (p?: Row["owner"]) => p?.display_name || p?.username || (p?.id ? p.id.slice(0, 6) : "—");
 
 function Avatar({ url, name }: { url?: string | null; name: string }) {
@@ -36,7 +40,9 @@ function Pill({ children, tone = "neutral" }: { children: React.ReactNode; tone?
   return <span className={`px-2 py-1 rounded-full text-xs border ${cls}`}>{children}</span>;
 }
 
-function statusLabel(s: LicenseRequest["status"]) {
+function statusLabel(r: Row) {
+  const s = r.status;
+  if (isExpired(r)) return { text: r.license?.renewed_at ? "Renewed" : "Inactive", tone: "neutral" as const };
   if (s === "open") return { text: "Pending", tone: "neutral" as const };
   if (s === "negotiating") return { text: "Active", tone: "active" as const };
   if (s === "accepted") return { text: "Completed", tone: "done" as const };
@@ -47,7 +53,8 @@ function statusLabel(s: LicenseRequest["status"]) {
 /* ---------------------------------- row ---------------------------------- */
 function RowCard({ r, me }: { r: Row; me: string }) {
   const terms = r.accepted_terms ?? (r.requested as LicenseTerms);
-  const st = statusLabel(r.status);
+  const st = statusLabel(r);
+  const ends = r.license?.ends_on ? new Date(`${r.license.ends_on}T00:00:00`).toLocaleDateString() : null;
 
   return (
     <Link
@@ -73,6 +80,7 @@ function RowCard({ r, me }: { r: Row; me: string }) {
 
           <div className="text-sm text-white/70 mt-1 truncate">
             {terms.purpose} — {terms.term_months}-month {terms.exclusivity} license
+            {ends && <span className="text-white/50"> · {isExpired(r) ? `expired ${ends}` : `until ${ends}`}</span>}
           </div>
 
           <div className="mt-2 flex items-center gap-2 text-sm text-white/80">
@@ -116,6 +124,7 @@ const TABS = [
   { key: "open", label: "Pending" },
   { key: "negotiating", label: "Active" },
   { key: "accepted", label: "Completed" },
+  { key: "expired", label: "Expired" },
   { key: "rejected", label: "Rejected" },
 ] as const;
 type TabKey = (typeof TABS)[number]["key"];
@@ -183,7 +192,8 @@ export default function Contracts() {
             *,
             artworks:artworks(id,title,image_url),
             requester:profiles!license_requests_requester_id_fkey(id,display_name,username,avatar_url),
-            owner:profiles!license_requests_owner_id_fkey(id,display_name,username,avatar_url)
+            owner:profiles!license_requests_owner_id_fkey(id,display_name,username,avatar_url),
+            license:licenses(id,status,starts_on,ends_on,renewed_at)
           `)
           .or(`requester_id.eq.${uid},owner_id.eq.${uid}`)
           .order("updated_at", { ascending: false });
@@ -207,10 +217,11 @@ export default function Contracts() {
   }, []);
 
   const counts = useMemo(() => {
-    const c = { all: rows.length, open: 0, negotiating: 0, accepted: 0, rejected: 0 };
+    const c = { all: rows.length, open: 0, negotiating: 0, accepted: 0, expired: 0, rejected: 0 };
     rows.forEach((r) => {
       if (r.status === "open") c.open++;
       else if (r.status === "negotiating") c.negotiating++;
+      else if (isExpired(r)) c.expired++;
       else if (r.status === "accepted") c.accepted++;
       else if (r.status === "declined" || r.status === "withdrawn") c.rejected++;
     });
@@ -222,7 +233,8 @@ export default function Contracts() {
     return rows.filter((r) => {
       if (tab === "open" && r.status !== "open") return false;
       if (tab === "negotiating" && r.status !== "negotiating") return false;
-      if (tab === "accepted" && r.status !== "accepted") return false;
+      if (tab === "accepted" && (r.status !== "accepted" || isExpired(r))) return false;
+      if (tab === "expired" && !isExpired(r)) return false;
       if (tab === "rejected" && !(r.status === "declined" || r.status === "withdrawn")) return false;
 
       if (!qlc) return true;
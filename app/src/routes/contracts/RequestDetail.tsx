@@ -5,8 +5,11 @@ import { supabase } from "../../lib/supabase";
 import {
   getRequestWithThread, postLicenseMessage, acceptPatch, acceptOffer,
   type LicenseRequest, type LicenseThreadMsg, type LicenseTerms,
-  stringifyTerritory, formatMoney, generateContractPdf, uploadExecutedPdf, uploadAttachment
+  type ContractDocument, type ContractSignature, type License,
+  stringifyTerritory, formatMoney, generateContractPdf, listContractSignatures, signContract, uploadAttachment,
+  getLicenseForRequest, licenseState, renewLicense
 } from "../../lib/licensing";
+import SignaturePad, { type Signature } from "../../components/SignaturePad";
 
 type Profile = { id: string; display_name: string | null; username: string | null; avatar_url: string | null };
 type Artwork = { id: string; title: string | null; image_url: string | null };
@@ -97,6 +100,11 @@ export default function RequestDetail() {
   const [input, setInput] = useState("");
   const [busy, setBusy] = useState(false);
 
+  // Contract document + signatures
+  const [doc, setDoc] = useState<ContractDocument | null>(null);
+  const [signatures, setSignatures] = useState<ContractSignature[]>([]);
+  const [license, setLicense] = useState<License | null>(null);
+
   // Edit modal
   const [editOpen, setEditOpen] = useState(false);
   const [draft, setDraft] = useState<Partial<LicenseTerms>>({});
@@ -125,6 +133,8 @@ export default function RequestDetail() {
         if (!alive) return;
         setReq(request);
         setMsgs(messages);
+        setSignatures(await listContractSignatures(request.id));
+        setLicense(request.status === "accepted" ? await getLicenseForRequest(request.id) : null);
 
         const [a, rq, ow] = await Promise.all([
           supabase.from("artworks").select("id,title,image_url").eq("id", request.artwork_id).maybeSingle(),
@@ -284,6 +294,7 @@ export default function RequestDetail() {
     try {
       const updated = await acceptOffer(id!);
       setReq(updated);
+      setLicense(await getLicenseForRequest(updated.id));
       await postLicenseMessage(id!, "Offer accepted. Contract finalized.", null);
     } catch (e: any) {
       setMsg(e?.message || "Failed to accept offer.");
@@ -292,25 +303,6 @@ export default function RequestDetail() {
     }
   }
 
-  async function onUploadExecuted(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0];
-    if (!file || !req) return;
-    try {
-      setMsg(null);
-      setBusy(true);
-      const signer_name = iAmOwner ? nameOf(owner) : nameOf(requester);
-      const { updated, sha256 } = await uploadExecutedPdf(req.id, file, { name: signer_name || "" });
-      setReq(updated);
-      await postLicenseMessage(req.id, `Uploaded executed PDF (sha256: ${sha256}).`, null);
-      setMsg("Executed PDF uploaded ✔️");
-    } catch (e: any) {
-      setMsg(e?.message || "Upload failed");
-    } finally {
-      setBusy(false);
-      (e.target as any).value = "";
-    }
-  }
-
   // ==== PDF generation: show video loading screen in the new tab ====
   async function onGeneratePdf() {
     if (!req) return;
@@ -349,13 +341,15 @@ export default function RequestDetail() {
     setMsg(null);
     try {
       const res = await generateContractPdf(req.id);
-      await postLicenseMessage(req.id, `Generated contract document.`, null);
-      setMsg("Draft document generated ✔️");
+      setDoc(res);
+      if (!res.draft) setReq({ ...req, contract_path: res.path, contract_sha256: res.sha256 });
+      if (signatures.length === 0) {
+        await postLicenseMessage(req.id, `Generated ${res.draft ? "draft" : "contract"} PDF (sha256: ${res.sha256}).`, null);
+      }
+      setMsg(res.draft ? "Draft PDF generated ✔️" : "Contract PDF ready to sign ✔️");
 
-      const html = res?.html || "<p>Empty document.</p>";
-      const blob = new Blob([html], { type: "text/html;charset=utf-8" });
-      const url = URL.createObjectURL(blob);
-      w.location.replace(url);
+      if (!res.url) throw new Error("The document was saved but no link could be created.");
+      w.location.replace(res.url);
     } catch (e: any) {
       setMsg(e?.message || "Document generation failed");
       try {
@@ -368,6 +362,52 @@ export default function RequestDetail() {
     }
   }
 
+  async function onSign(signature: Signature, title: string) {
+    if (!req || !doc) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await signContract(req.id, doc.sha256, { name: signature.name.trim(), title: title.trim() || null, image: signature.image });
+      const [{ request }, sigs] = await Promise.all([getRequestWithThread(req.id), listContractSignatures(req.id)]);
+      setReq(request);
+      setSignatures(sigs);
+      await postLicenseMessage(req.id, `Signed the contract as ${res.signed}.`, null);
+      if (res.executed) await postLicenseMessage(req.id, `Contract executed (sha256: ${res.sha256}).`, null);
+      setMsg(res.executed ? "Contract executed ✔️" : "Signed ✔️ Waiting for the other party.");
+    } catch (e: any) {
+      setMsg(e?.message || "Signing failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onOpenExecuted() {
+    if (!req) return;
+    const w = window.open("about:blank", "_blank");
+    try {
+      const res = await generateContractPdf(req.id);
+      if (!res.executed_url) throw new Error("No executed copy yet.");
+      if (w) w.location.replace(res.executed_url);
+    } catch (e: any) {
+      w?.close();
+      setMsg(e?.message || "Could not open the executed PDF");
+    }
+  }
+
+  async function onRenew() {
+    if (!license) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const next = await renewLicense(license);
+      nav(`/contracts/${next}`);
+    } catch (e) {
+      setMsg((e as { message?: string })?.message || "Could not start the renewal");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function onAttachFile(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file || !req) return;
@@ -479,34 +519,52 @@ export default function RequestDetail() {
               <div className="text-[12px] text-white/60">Status: <span className="capitalize">{req.status}</span></div>
 
               <div className="mt-2 grid grid-cols-2 gap-2">
-                <button className="btn" onClick={onGeneratePdf} disabled={busy}>Generate PDF</button>
-                <label className="btn bg-white/0 border border-white/20 hover:bg-white/10 cursor-pointer text-center">
-                  <input type="file" accept="application/pdf" className="hidden" onChange={onUploadExecuted} />
-                  Upload signed PDF
-                </label>
+                <button className="btn col-span-2" onClick={onGeneratePdf} disabled={busy}>
+                  {req.status === "accepted" ? "Open contract PDF" : "Preview draft PDF"}
+                </button>
                 {req.status !== "accepted" && iAmOwner && (
                   <button className="btn col-span-2" onClick={onAcceptOffer} disabled={busy}>Accept Offer</button>
                 )}
               </div>
 
-              {(req.executed_pdf_url || req.signed_at) && (
+              {req.status === "accepted" && !req.executed_pdf_path && (
+                <SigningPanel
+                  me={me!}
+                  myRole={iAmOwner ? "licensor" : "licensee"}
+                  doc={doc && !doc.draft ? doc : null}
+                  signatures={signatures}
+                  busy={busy}
+                  onSign={onSign}
+                />
+              )}
+
+              {(req.executed_pdf_path || req.signed_at) && (
                 <div className="rounded-lg bg-white/[0.06] p-3 text-xs space-y-1">
                   <div className="font-semibold text-sm">Execution record</div>
-                  {req.executed_pdf_url && (
+                  {req.executed_pdf_path && (
                     <div>
                       PDF:{" "}
-                      <a className="underline" href={req.executed_pdf_url} target="_blank" rel="noreferrer">
-                        Open file
-                      </a>
+                      <button className="underline" onClick={onOpenExecuted}>
+                        Open executed copy
+                      </button>
                     </div>
                   )}
                   {req.executed_pdf_sha256 && <div>SHA-256: <code className="break-all">{req.executed_pdf_sha256}</code></div>}
-                  {req.signed_at && <div>Signed at: {new Date(req.signed_at).toLocaleString()}</div>}
-                  {req.signer_name && <div>Signer: {req.signer_name}{req.signer_title ? `, ${req.signer_title}` : ""}</div>}
+                  {req.signed_at && <div>Executed at: {new Date(req.signed_at).toLocaleString()}</div>}
+                  {signatures.map((sig) => (
+                    <div key={sig.id}>
+                      <span className="capitalize">{sig.role}</span>: {sig.name}{sig.title ? `, ${sig.title}` : ""}
+                      <span className="text-white/50"> · {sig.method} · {new Date(sig.signed_at).toLocaleString()}</span>
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
 
+            {license && (
+              <LicenseCard license={license} canRenew={!!iAmOwner} busy={busy} onRenew={onRenew} />
+            )}
+
             <div className="rounded-xl border border-white/10 bg-white/[0.04] p-3">
               <div className="flex items-center justify-between mb-2">
                 <div className="text-sm font-semibold">Attachments</div>
@@ -880,6 +938,106 @@ const handleBulletEnter = (
   );
 }
 
+/* ------------------------------ License term ------------------------------ */
+
+const day = (d: string) => new Date(`${d}T00:00:00`).toLocaleDateString();
+
+function LicenseCard({
+  license, canRenew, busy, onRenew,
+}: {
+  license: License;
+  canRenew: boolean;
+  busy: boolean;
+  onRenew: () => void;
+}) {
+  const state = licenseState(license);
+  const tone =
+    state === "active" ? "bg-emerald-500/20 text-emerald-300" : state === "upcoming" ? "bg-indigo-500/20 text-indigo-300" : "bg-white/10 text-white/60";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.04] p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold">License</div>
+        <span className={`px-2 py-0.5 rounded-full text-xs ${tone}`}>
+          {state === "expired" ? "Inactive · expired" : state === "upcoming" ? "Starts soon" : "Active"}
+        </span>
+      </div>
+      <FieldRow label="Starts">{day(license.starts_on)}</FieldRow>
+      <FieldRow label="Ends">{license.ends_on ? day(license.ends_on) : "No fixed term"}</FieldRow>
+      {license.notice_days ? <FieldRow label="Notice">{license.notice_days} days</FieldRow> : null}
+      {license.fee_due_on && <FieldRow label="Fee due">{day(license.fee_due_on)}</FieldRow>}
+
+      {license.renewal_request_id ? (
+        <Link className="text-sm underline" to={`/contracts/${license.renewal_request_id}`}>
+          {license.renewed_at ? "Renewed — view the new contract" : "Renewal in negotiation"}
+        </Link>
+      ) : (
+        canRenew && (
+          <button className="btn w-full" onClick={onRenew} disabled={busy}>
+            Renew license
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------ Signing ------------------------------ */
+
+function SigningPanel({
+  me, myRole, doc, signatures, busy, onSign,
+}: {
+  me: string;
+  myRole: ContractSignature["role"];
+  /** The accepted contract as last opened here; signing pins its hash. */
+  doc: ContractDocument | null;
+  signatures: ContractSignature[];
+  busy: boolean;
+  onSign: (signature: Signature, title: string) => void;
+}) {
+  const [signature, setSignature] = useState<Signature>({ name: "", image: null });
+  const [title, setTitle] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const mine = signatures.find((s) => s.signer_id === me);
+  const pending = (["licensor", "licensee"] as const).filter((r) => !signatures.some((s) => s.role === r));
+
+  return (
+    <div className="rounded-lg bg-white/[0.06] p-3 text-xs space-y-2">
+      <div className="font-semibold text-sm">Signatures</div>
+      {signatures.map((s) => (
+        <div key={s.id}>
+          ✔️ <span className="capitalize">{s.role}</span> {s.name} · {new Date(s.signed_at).toLocaleString()}
+        </div>
+      ))}
+      {pending.length > 0 && <div className="text-white/60">Waiting for: {pending.join(", ")}</div>}
+
+      {!mine && !doc && (
+        <div className="text-white/70">Open the contract PDF to review it; you can sign it here afterwards.</div>
+      )}
+      {!mine && doc && (
+        <div className="space-y-2 pt-1">
+          <SignaturePad value={signature} onChange={setSignature} label={`Sign as ${myRole}`} />
+          <input className="input w-full" placeholder="Title (optional)" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <label className="flex items-start gap-2">
+            <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} />
+            <span>
+              I have reviewed and agree to the contract with SHA-256{" "}
+              <code className="break-all">{doc.sha256}</code>
+            </span>
+          </label>
+          <button
+            className="btn w-full"
+            disabled={busy || !agreed || !signature.name.trim()}
+            onClick={() => onSign(signature, title)}
+          >
+            {busy ? "Signing…" : "Sign contract"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ------------------------------ Attachments + utils ------------------------------ */
 
 function AttachmentList({ requestId }: { requestId: string }) {
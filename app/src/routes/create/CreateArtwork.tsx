@@ -1,29 +1,26 @@
 // app/src/routes/create/CreateArtwork.tsx
 import { useEffect, useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { supabase } from "../../lib/supabase";
 import TagsInput from "../../components/TagsInput";
-import { CreateArtworkSchema, type CreateArtworkInput } from "../../schemas/artwork";
+import { CreateArtworkSchema, ROYALTY_MAX_BPS, type CreateArtworkInput } from "../../schemas/artwork";
 import { uploadToArtworksBucket } from "../../lib/upload";
 import { sha256File } from "../../lib/hashFile";
 import MintModal from "../../components/MintModal";
 import useMinBusy from "../../hooks/useMinBusy";
 import CropModal from "../../components/CropModal";
 import { createCollection, fetchMyCollections, slugify, type Collection } from "../../lib/collections";
+import { findSimilarArtworks, indexArtworkImages, type SimilarArtwork } from "../../lib/similarity";
+import { bindChip } from "../../lib/chips";
 
 /* ------------------------------------------------------------------------------------ */
 
 type Step = 0 | 1 | 2 | 3;
 type ArtworkType = "digital" | "physical";
 
-type DuplicateHit = {
-  id: string;
-  title: string | null;
-  image_url: string | null;
-  creator_id: string | null;
-};
+type DuplicateHit = SimilarArtwork;
 
 type PinResp = { imageCID: string; metadataCID: string; tokenURI: string };
 
@@ -201,6 +198,7 @@ function NewCollectionModal({
 
 export default function CreateArtworkWizard() {
   const nav = useNavigate();
+  const loc = useLocation();
   const [userId, setUserId] = useState<string | null>(null);
 
   // New: pre-step
@@ -209,7 +207,10 @@ export default function CreateArtworkWizard() {
 
   // New: collections
   const [collections, setCollections] = useState<Collection[]>([]);
-  const [collectionId, setCollectionId] = useState<string | "">(""); // '' = no collection
+  // preselected when arriving from Studio → Deploy Contract
+  const [collectionId, setCollectionId] = useState<string | "">(
+    (loc.state as { collectionId?: string } | null)?.collectionId ?? ""
+  ); // '' = no collection
   const [collModalOpen, setCollModalOpen] = useState(false);
 
   // Step 1 media
@@ -258,6 +259,10 @@ export default function CreateArtworkWizard() {
   const [artworkId, setArtworkId] = useState<string | null>(null);
   const [showMint, setShowMint] = useState(false);
 
+  // physical works: enrolled NFC/QR tag to bind on creation
+  const [chipTag, setChipTag] = useState("");
+  const [chipMsg, setChipMsg] = useState<string | null>(null);
+
   const anyChecking = images.some((im) => im.checking);
   const allDupes = images.flatMap((im) => im.dupes ?? []);
   const anyDupes = allDupes.length > 0;
@@ -305,14 +310,8 @@ export default function CreateArtworkWizard() {
     });
 
     try {
-      const hash = await sha256File(file);
-      const { data, error } = await supabase
-        .from("artworks")
-        .select("id,title,image_url,creator_id")
-        .eq("image_sha256", hash)
-        .limit(5);
-      if (error) throw error;
-      const dupes = (data as DuplicateHit[]) ?? [];
+      // near-duplicates (re-saves, resizes, crops), not just identical files
+      const [hash, dupes] = await Promise.all([sha256File(file), findSimilarArtworks(file, { limit: 5 })]);
 
       setImages((arr) => {
         const next = [...arr];
@@ -429,8 +428,9 @@ export default function CreateArtworkWizard() {
         depth: values.depth ?? null,
         dim_unit: values.dim_unit ?? null,
 
-        edition_type: "unique",
-        edition_size: null,
+        // physical works are one-of-ones; editions mint on TaedalEditions (ERC-1155)
+        edition_type: artType === "physical" ? "unique" : values.edition_type,
+        edition_size: artType !== "physical" && values.edition_type === "limited" ? values.edition_size ?? null : null,
         royalty_bps: values.royalty_bps ?? 500,
 
         status: "draft",
@@ -471,6 +471,17 @@ export default function CreateArtworkWizard() {
         } catch {}
       }
 
+      // fingerprint the new images for future similarity scans; the backfill catches misses
+      indexArtworkImages(row.id).catch(() => {});
+
+      // bind the tag while the creator still holds the work; it can be bound later too
+      const tag = chipTag.trim();
+      if (artType === "physical" && tag) {
+        bindChip(tag, row.id)
+          .then(() => setChipMsg(`Chip ${tag} bound ✔`))
+          .catch((e) => setChipMsg(e instanceof Error ? e.message : "Couldn’t bind the chip"));
+      }
+
       setPinning(true);
       setPinMsg("Pinning to IPFS…");
 
@@ -615,15 +626,21 @@ export default function CreateArtworkWizard() {
 
             {anyDupes && (
               <Section title="Potential duplicates">
-                <div className="text-sm mb-2">We found artworks with the same file. Please confirm you are the original creator to continue:</div>
+                <div className="text-sm mb-2">We found existing artworks that look like your upload. Please confirm you are the original creator to continue:</div>
                 <div className="grid gap-2">
                   {allDupes.map((d, idx) => (
-                    <div key={`${d.id}-${idx}`} className="flex items-center gap-3 border border-neutral-800 rounded-lg p-2 bg-white/[0.03]">
+                    <div key={`${d.artwork_id}-${idx}`} className="flex items-center gap-3 border border-neutral-800 rounded-lg p-2 bg-white/[0.03]">
                       {d.image_url && <img src={d.image_url} className="h-14 w-14 object-cover rounded" />}
-                      <div className="text-sm">
-                        <div className="font-medium">{d.title ?? "Untitled"}</div>
-                        <div className="text-neutral-400 text-xs">id: {d.id}</div>
+                      <div className="text-sm flex-1 min-w-0">
+                        <div className="font-medium truncate">{d.title ?? "Untitled"}</div>
+                        <div className="text-neutral-400 text-xs">
+                          {d.phash_distance === 0 && d.dhash_distance === 0 ? "Identical image" : `${Math.round(d.score * 100)}% similar`}
+                          {" · "}distance {d.phash_distance}/{d.dhash_distance} of 64
+                        </div>
                       </div>
+                      <a href={`/art/${d.artwork_id}`} target="_blank" rel="noreferrer" className="text-xs text-white/60 hover:text-white">
+                        View
+                      </a>
                     </div>
                   ))}
                 </div>
@@ -737,9 +754,23 @@ export default function CreateArtworkWizard() {
                 </div>
               </div>
               {artType === "physical" && (
-                <p className="text-xs text-white/60 mt-2">
-                  This item will start with status <code>with_creator</code>. You can update shipping later.
-                </p>
+                <>
+                  <p className="text-xs text-white/60 mt-2">
+                    This item will start with status <code>with_creator</code>. You can update shipping later.
+                  </p>
+                  <div className="mt-3">
+                    <label className="block text-sm">NFC / QR tag ID (optional)</label>
+                    <input
+                      className="input"
+                      value={chipTag}
+                      onChange={(e) => setChipTag(e.target.value)}
+                      placeholder="Printed on the tag, e.g. 04A2…"
+                    />
+                    <p className="text-xs text-white/60 mt-1">
+                      The tag goes with the work: each new owner can verify it, and revoke or replace it if it’s lost.
+                    </p>
+                  </div>
+                </>
               )}
             </Section>
 
@@ -756,13 +787,45 @@ export default function CreateArtworkWizard() {
               </div>
             </Section>
 
+            {artType !== "physical" && (
+              <Section title="Edition">
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm">Type</label>
+                    <select className="input" {...register("edition_type")}>
+                      <option value="unique">Unique (1/1)</option>
+                      <option value="limited">Limited edition</option>
+                      <option value="open">Open edition</option>
+                    </select>
+                  </div>
+                  {watch("edition_type") === "limited" && (
+                    <div>
+                      <label className="block text-sm">Edition size</label>
+                      <input className="input" type="number" min={1} step={1}
+                        {...register("edition_size", { setValueAs: (v) => (v === "" || v === null ? undefined : Number(v)) })}
+                      />
+                      {errors.edition_size && <p className="text-sm text-rose-400">{errors.edition_size.message}</p>}
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-white/60 mt-1">
+                  {watch("edition_type") === "limited"
+                    ? "The whole run is minted to you as ERC-1155 tokens; collectors buy one or more."
+                    : watch("edition_type") === "open"
+                    ? "No cap: new ERC-1155 tokens are issued as they sell."
+                    : "A single ERC-721 token."}
+                </p>
+              </Section>
+            )}
+
             <Section title="Royalties (optional)">
               <div>
                 <label className="block text-sm">Royalty (bps)</label>
-                <input className="input" type="number"
+                <input className="input" type="number" min={0} max={ROYALTY_MAX_BPS}
                   {...register("royalty_bps", { setValueAs: (v) => (v === "" || v === null ? undefined : Number(v)) })}
                 />
-                <p className="text-xs text-white/60 mt-1">500 bps = 5%.</p>
+                <p className="text-xs text-white/60 mt-1">500 bps = 5%, up to {ROYALTY_MAX_BPS / 100}%. Recorded on-chain at mint.</p>
+                {errors.royalty_bps && <p className="text-sm text-rose-400">{errors.royalty_bps.message}</p>}
               </div>
             </Section>
 
@@ -823,6 +886,7 @@ export default function CreateArtworkWizard() {
             <Section title="Status">
               {pinning ? <InfoBar>Pinning to IPFS…</InfoBar> : <InfoBar tone="success">Ready to mint</InfoBar>}
               {pinMsg && <div className="text-xs text-neutral-200 mt-2">{pinMsg}</div>}
+              {chipMsg && <div className="text-xs text-amber-300 mt-1">{chipMsg}</div>}
               {pinData && (
                 <div className="text-xs space-y-1 mt-2">
                   <div>Image CID: <code>{pinData.imageCID}</code></div>
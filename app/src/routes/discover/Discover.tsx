@@ -1,16 +1,17 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { ReactNode } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { fetchTopBid } from "../../lib/bids";
+import { searchArtworks, type ArtworkFacets, type ArtworkSearchFilters } from "../../lib/search";
 
 /** ----------------------------------------------------------------
  * Types
  * ---------------------------------------------------------------- */
 type Chain = "ethereum" | "polygon" | "solana";
-type Status = "buy-now" | "on-auction" | "new" | "has-offers" | "all";
+type Status = "buy-now" | "on-auction" | "dutch" | "drops" | "new" | "has-offers" | "all";
 type TimeRange = "24h" | "7d" | "30d";
-type Sort = "trending" | "recent" | "price-asc" | "price-desc";
+type Sort = "relevance" | "trending" | "recent" | "price-asc" | "price-desc";
 type TrendingTab = "collections" | "items";
 
 /** Supabase view shapes */
@@ -43,7 +44,7 @@ type TrendingItemRow = {
   creator_id: string | null;
 
   listing_id: string | null;
-  listing_type: "fixed_price" | "auction" | "coming_soon" | null;
+  listing_type: "fixed_price" | "auction" | "coming_soon" | "dutch" | null;
   listing_status: "draft" | "active" | "paused" | "ended" | "canceled" | null;
   currency: string | null;         // e.g. ETH
   price_native: number | null;     // fixed price (ETH)
@@ -94,6 +95,16 @@ type DiscoverItem = {
 
   end_at?: string | null;
   reserve_price?: number | null;
+
+  /** Dutch listings: price_now is what a unit costs right now (price_native is null). */
+  is_dutch?: boolean | null;
+  price_now?: number | null;
+  /** Scheduled drops: set until the drop opens. */
+  is_drop?: boolean | null;
+  drop_starts_at?: string | null;
+  /** Bundles: the card is the cover artwork; bundle_size artworks sell together. */
+  is_bundle?: boolean | null;
+  bundle_size?: number | null;
 };
 
 /** ----------------------------------------------------------------
@@ -117,13 +128,6 @@ function percentDelta(cur: number | null | undefined, ref: number | null | undef
   return Number((((a - b) / b) * 100).toFixed(1));
 }
 
-function inNextHours(iso: string | null | undefined, hours: number) {
-  if (!iso) return false;
-  const t = new Date(iso).getTime();
-  if (!isFinite(t)) return false;
-  return t - Date.now() <= hours * 3600 * 1000 && t > Date.now();
-}
-
 /** ----------------------------------------------------------------
  * Top-bid cache (front-end only, batched)
  * ---------------------------------------------------------------- */
@@ -344,95 +348,58 @@ function useLiveActivity() {
   return rows;
 }
 
-function useInfiniteGrid(params: {
-  status: Status;
-  sort: Sort;
-  q: string;
-  maxPrice?: number | null;
-  endingSoon?: boolean;
-  newToday?: boolean;
-}) {
-  const { status, sort, q, maxPrice, endingSoon, newToday } = params;
+/**
+ * The "All items" grid, paged through /api/search: every filter (ending soon
+ * and new today included) runs server-side, and each page continues from the
+ * previous page's cursor. Facet counts come with the first page.
+ */
+function useInfiniteGrid(filters: ArtworkSearchFilters) {
+  const key = JSON.stringify(filters);
   const [page, setPage] = useState(0);
   const [items, setItems] = useState<DiscoverItem[]>([]);
+  const [facets, setFacets] = useState<ArtworkFacets | null>(null);
   const [loading, setLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
+  const nextCursor = useRef<string | null>(null);
   const pageSize = 24;
 
   useEffect(() => {
     setItems([]);
     setPage(0);
     setHasMore(true);
-  }, [status, sort, q, maxPrice, endingSoon, newToday]);
+    nextCursor.current = null;
+  }, [key]);
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
       if (!hasMore) return;
       setLoading(true);
-
-      let qb = supabase.from("v_discover_items").select("*");
-
-      if (status === "buy-now") {
-        qb = qb.not("listing_id", "is", null).not("price_native", "is", null);
-      } else if (status === "on-auction") {
-        qb = qb.eq("listing_status", "active").eq("is_auction", true);
-      } else if (status === "new") {
-        const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-        qb = qb.gte("listed_at", sevenDaysAgo);
-      } else if (status === "has-offers") {
-        qb = qb.eq("has_offers", true);
-      }
-
-      const qstr = q.trim();
-      if (qstr.length >= 2) {
-        qb = qb.textSearch("search_tsv", qstr, { type: "websearch", config: "simple" });
-      }
-
-      if (typeof maxPrice === "number" && isFinite(maxPrice) && maxPrice > 0) {
-        qb = qb.lte("price_native", maxPrice);
-      }
-
-      if (sort === "price-asc") qb = qb.order("price_native", { ascending: true, nullsFirst: false }).order("artwork_id", { ascending: true });
-      else if (sort === "price-desc") qb = qb.order("price_native", { ascending: false, nullsFirst: true }).order("artwork_id", { ascending: true });
-      else if (sort === "recent") qb = qb.order("listed_at", { ascending: false, nullsFirst: false }).order("artwork_id", { ascending: true });
-      else qb = qb.order("updated_at", { ascending: false, nullsFirst: false }).order("artwork_id", { ascending: true });
-
-      const from = page * pageSize;
-      const to = from + pageSize - 1;
-      const { data, error } = await qb.range(from, to);
-
-      if (error) {
-        console.error(error.message);
-        if (!cancelled) {
-          setLoading(false);
-          setHasMore(false);
-        }
-        return;
-      }
-
-      let batch = (data ?? []) as DiscoverItem[];
-      if (endingSoon) {
-        batch = batch.filter((it) => !!it.is_auction && inNextHours(it.end_at ?? null, 24));
-      }
-      if (newToday) {
-        const since = Date.now() - 24 * 3600 * 1000;
-        batch = batch.filter((it) => (it.listed_at ? new Date(it.listed_at).getTime() >= since : false));
-      }
-
-      if (!cancelled) {
-        setItems((cur) => [...cur, ...batch]);
-        setHasMore(batch.length === pageSize);
-        setLoading(false);
+      try {
+        const res = await searchArtworks<DiscoverItem>(filters, {
+          cursor: page === 0 ? null : nextCursor.current,
+          limit: pageSize,
+          facets: page === 0,
+        });
+        if (cancelled) return;
+        nextCursor.current = res.next_cursor;
+        if (page === 0) setFacets(res.facets ?? null);
+        setItems((cur) => (page === 0 ? res.items : [...cur, ...res.items]));
+        setHasMore(!!res.next_cursor);
+      } catch (e) {
+        console.error(e instanceof Error ? e.message : e);
+        if (!cancelled) setHasMore(false);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
     })();
     return () => {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, status, sort, q, maxPrice, endingSoon, newToday]);
+  }, [page, key, hasMore]);
 
-  return { items, loading, hasMore, loadMore: () => setPage((p) => p + 1) };
+  return { items, facets, loading, hasMore, loadMore: () => setPage((p) => p + 1) };
 }
 
 /** ----------------------------------------------------------------
@@ -503,12 +470,14 @@ function Countdown({ endAt }: { endAt?: string | null }) {
  * Page
  * ---------------------------------------------------------------- */
 export default function Discover() {
-  // filters
-  const [q, setQ] = useState("");
+  // filters (?q= comes from the navbar's "View all results")
+  const [params] = useSearchParams();
+  const [q, setQ] = useState(() => params.get("q") ?? "");
+  const [qDebounced, setQDebounced] = useState(q);
   const [chain, setChain] = useState<Chain | "all">("all");
   const [status, setStatus] = useState<Status>("all");
   const [time, setTime] = useState<TimeRange>("24h");
-  const [sort, setSort] = useState<Sort>("recent");
+  const [sort, setSort] = useState<Sort>(() => (params.get("q") ? "relevance" : "recent"));
 
   // trending tab
   const [tTab, setTTab] = useState<TrendingTab>("collections");
@@ -517,24 +486,46 @@ export default function Discover() {
   const [endingSoon, setEndingSoon] = useState(false);
   const [newToday, setNewToday] = useState(false);
   const [maxPrice, setMaxPrice] = useState<string>("");
+  const [minPrice, setMinPrice] = useState<number | null>(null);
+
+  // facets
+  const [medium, setMedium] = useState("");
+  const [currency, setCurrency] = useState("");
+  const [physical, setPhysical] = useState<"" | "physical" | "digital">("");
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    const t = setTimeout(() => setQDebounced(q), 250);
+    return () => clearTimeout(t);
+  }, [q]);
 
   const maxPriceNum = useMemo(() => {
     const n = Number(maxPrice);
     return isFinite(n) && n > 0 ? n : null;
   }, [maxPrice]);
 
+  const gridFilters = useMemo<ArtworkSearchFilters>(
+    () => ({
+      q: qDebounced,
+      status,
+      sort,
+      medium: medium ? [medium] : [],
+      currency: currency ? [currency] : [],
+      minPrice,
+      maxPrice: maxPriceNum,
+      physical: physical || null,
+      tags,
+      endingSoon,
+      newToday,
+    }),
+    [qDebounced, status, sort, medium, currency, minPrice, maxPriceNum, physical, tags, endingSoon, newToday]
+  );
+
   const { data: trending, loading: loadingTrending } = useTrendingCollections(time);
   const { rows: trendingItems, loading: loadingTrendingItems } = useTrendingItems(12);
 
   const activity = useLiveActivity();
-  const { items, loading, hasMore, loadMore } = useInfiniteGrid({
-    status,
-    sort,
-    q,
-    maxPrice: maxPriceNum ?? undefined,
-    endingSoon,
-    newToday,
-  });
+  const { items, facets, loading, hasMore, loadMore } = useInfiniteGrid(gridFilters);
 
   // top bids maps (for grids that show auctions)
   const topBidAllItems = useTopBids(items.map((i) => i.listing_id));
@@ -581,6 +572,8 @@ export default function Discover() {
               <option value="all">All status</option>
               <option value="buy-now">Buy now</option>
               <option value="on-auction">On auction</option>
+              <option value="dutch">Dutch</option>
+              <option value="drops">Drops</option>
               <option value="has-offers">Has offers</option>
               <option value="new">New</option>
             </select>
@@ -590,6 +583,7 @@ export default function Discover() {
               <option value="30d">30d</option>
             </select>
             <select className="input" value={sort} onChange={(e) => setSort(e.target.value as any)}>
+              <option value="relevance">Best match</option>
               <option value="trending">Trending</option>
               <option value="recent">Recently listed</option>
               <option value="price-asc">Price ↑</option>
@@ -633,6 +627,74 @@ export default function Discover() {
             Tip: toggle “On auction” + “Ending in 24h” to see time-sensitive items.
           </div>
         </div>
+
+        {/* facets row: counts are for the current search and other filters */}
+        {facets && (
+          <div className="max-w-7xl mx-auto px-4 pb-3 flex flex-wrap gap-2 items-center text-xs">
+            <select className="input h-7" value={medium} onChange={(e) => setMedium(e.target.value)}>
+              <option value="">Any medium</option>
+              {facets.medium.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.value} ({f.count})
+                </option>
+              ))}
+            </select>
+            <select className="input h-7" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+              <option value="">Any currency</option>
+              {facets.currency.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.value} ({f.count})
+                </option>
+              ))}
+            </select>
+            <select
+              className="input h-7"
+              value={physical}
+              onChange={(e) => setPhysical(e.target.value as "" | "physical" | "digital")}
+            >
+              <option value="">Physical & digital</option>
+              {facets.physical.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.value === "physical" ? "Physical" : "Digital"} ({f.count})
+                </option>
+              ))}
+            </select>
+            <select
+              className="input h-7"
+              value={minPrice == null ? "" : `${minPrice}:${maxPrice}`}
+              onChange={(e) => {
+                const b = facets.price.find((p) => `${p.min}:${p.max ?? ""}` === e.target.value);
+                setMinPrice(b ? b.min : null);
+                setMaxPrice(b?.max != null ? String(b.max) : "");
+              }}
+            >
+              <option value="">Any price</option>
+              {facets.price.map((p) => (
+                <option key={p.min} value={`${p.min}:${p.max ?? ""}`}>
+                  {p.max == null ? `${p.min}+` : `${p.min}–${p.max}`} ({p.count})
+                </option>
+              ))}
+            </select>
+            {tags.map((t) => (
+              <button
+                key={t}
+                className="px-2 py-1 rounded-full bg-white text-black"
+                onClick={() => setTags((cur) => cur.filter((x) => x !== t))}
+              >
+                #{t} ✕
+              </button>
+            ))}
+            {facets.tags.slice(0, 12).map((f) => (
+              <button
+                key={f.value}
+                className="px-2 py-1 rounded-full bg-white/10 hover:bg-white/20"
+                onClick={() => setTags((cur) => [...cur, f.value])}
+              >
+                #{f.value} <span className="text-white/50">{f.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Content */}
@@ -887,6 +949,8 @@ export default function Discover() {
                   const reserve = it.reserve_price ?? null;
                   const reserveMet = reserve != null && topBid >= reserve && topBid > 0;
                   const showCountdown = !!it.is_auction && !!it.end_at;
+                  const dropPending = !!it.drop_starts_at && new Date(it.drop_starts_at).getTime() > Date.now();
+                  const price = it.is_dutch ? it.price_now ?? null : it.price_native;
 
                   return (
                     <Link
@@ -907,6 +971,9 @@ export default function Discover() {
                           {it.is_auction ? (
                             reserveMet ? <Pill tone="success">reserve met</Pill> : <Pill tone="warn">on auction</Pill>
                           ) : null}
+                          {it.is_dutch ? <Pill tone="warn">dutch</Pill> : null}
+                          {dropPending ? <Pill tone="success">drop</Pill> : null}
+                          {it.is_bundle ? <Pill>bundle of {it.bundle_size ?? "?"}</Pill> : null}
                         </div>
                         <button
                           className="absolute right-2 top-2 h-8 w-8 rounded-md bg-black/50 backdrop-blur grid place-items-center opacity-0 group-hover:opacity-100 transition"
@@ -915,9 +982,9 @@ export default function Discover() {
                         >
                           ♥
                         </button>
-                        {showCountdown ? (
+                        {showCountdown || dropPending ? (
                           <div className="absolute right-2 bottom-2 px-1.5 py-0.5 rounded bg-black/60">
-                            <Countdown endAt={it.end_at!} />
+                            <Countdown endAt={dropPending ? it.drop_starts_at! : it.end_at!} />
                           </div>
                         ) : null}
                       </div>
@@ -931,16 +998,17 @@ export default function Discover() {
                               ) : (
                                 <span className="text-white/40">No bids yet</span>
                               )
-                            ) : it.listing_id && it.price_native != null ? (
+                            ) : it.listing_id && price != null ? (
                               <>
-                                {it.price_native} {it.currency ?? "ETH"}
+                                {dropPending ? "Opens at " : it.is_dutch ? "Now " : ""}
+                                {price} {it.currency ?? "ETH"}
                               </>
                             ) : (
                               <span className="text-white/40">Not listed</span>
                             )}
                           </div>
                           <button className="text-xs px-2 py-1 rounded-md bg-white text-black hover:bg-white/90">
-                            {it.is_auction ? "Bid" : it.listing_id ? "Buy" : "View"}
+                            {it.is_auction ? "Bid" : dropPending ? "View" : it.listing_id ? "Buy" : "View"}
                           </button>
                         </div>
                       </div>
@@ -1,22 +1,23 @@
 import { useMemo, useRef, useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { createCollection } from "../../lib/collections";
 
 /**
- * Studio → Create → Deploy Contract (UI only)
+ * Studio → Create → Deploy Contract
  * - Collection Image upload (square)
  * - Name (immutable on-chain)
  * - Token Symbol (immutable on-chain)
  * - Chain selector
- * - "Publish Contract" → shows a "Deploying..." interstitial, then routes to /create
- *
- * NOTE: This page does not call a wallet. Replace the simulateDeploy() with your real deploy flow.
+ * - "Publish Contract" → creates the collection row, then the "Deploying..."
+ *   screen deploys its contract through TaedalCollectionFactory and routes to /create
  */
 
 type ChainOption = { id: string; label: string };
 
 const CHAINS: ChainOption[] = [
-  { id: "ethereum", label: "Ethereum" },
-  // You can add Sepolia/Testnets or other EVMs here later
+  { id: "sepolia", label: "Sepolia" },
+  // the factory and the API's verifier are only on Sepolia for now
 ];
 
 export default function DeployCollection() {
@@ -35,7 +36,7 @@ export default function DeployCollection() {
   const inputRef = useRef<HTMLInputElement>(null);
 
   const canPublish = useMemo(() => {
-    return !!imgUrl && name.trim().length >= 2 && /^[A-Z]{2,10}$/.test(symbol) && !!chain?.id && !busy;
+    return !!imgUrl && name.trim().length >= 2 && name.trim().length <= 64 && /^[A-Z]{2,10}$/.test(symbol) && !!chain?.id && !busy;
   }, [imgUrl, name, symbol, chain, busy]);
 
   function onPickFile(e: React.ChangeEvent<HTMLInputElement>) {
@@ -55,26 +56,37 @@ export default function DeployCollection() {
     setImgFile(null);
   }
 
-  // Simulated deploy → replace with actual wallet interaction later
-  async function simulateDeploy() {
+  async function publish() {
     setBusy(true);
     setErr(null);
     try {
-      // show interstitial screen first
+      const col = await createCollection({ name: name.trim(), symbol });
+
+      // collection image doubles as the logo (same bucket/key layout as CollectionEdit)
+      if (imgFile) {
+        const ext = imgFile.name?.split(".").pop()?.toLowerCase() || "png";
+        const path = `${col.id}/logo.${ext}`;
+        const { error: upErr } = await supabase.storage
+          .from("collections")
+          .upload(path, imgFile, { upsert: true, cacheControl: "3600", contentType: imgFile.type || undefined });
+        if (!upErr) {
+          const { data: pub } = supabase.storage.from("collections").getPublicUrl(path);
+          await supabase.from("collections").update({ logo_url: pub.publicUrl }).eq("id", col.id);
+        }
+      }
+
+      // the interstitial sends the deploy tx and follows it until the API verifies it
       nav("/studio/create/collection/deploying", {
         state: {
+          collectionId: col.id,
           preview: imgUrl,
-          name,
+          name: col.name,
           symbol,
           chain: chain.label,
         },
       });
-      // simulate network/mining delay
-      await new Promise((r) => setTimeout(r, 2200));
-      // after "success", route user into your existing mint flow
-      nav("/create", { replace: true });
-    } catch (e: any) {
-      setErr(e?.message ?? "Failed to deploy");
+    } catch (e) {
+      setErr((e as Error)?.message ?? "Failed to create collection");
       setBusy(false);
     }
   }
@@ -133,8 +145,8 @@ export default function DeployCollection() {
               </div>
 
               <div className="flex gap-2 mt-3">
-                <span className="text-[11px] px-2 py-0.5 rounded bg-white/10 border border-white/20">ETHEREUM</span>
-                <span className="text-[11px] px-2 py-0.5 rounded bg-white/10 border border-white/20">ERC1155</span>
+                <span className="text-[11px] px-2 py-0.5 rounded bg-white/10 border border-white/20">SEPOLIA</span>
+                <span className="text-[11px] px-2 py-0.5 rounded bg-white/10 border border-white/20">ERC721</span>
               </div>
             </div>
           </div>
@@ -152,6 +164,7 @@ export default function DeployCollection() {
                 <input
                   className="input"
                   placeholder="Add Contract Name"
+                  maxLength={64}
                   value={name}
                   onChange={(e) => setName(e.target.value)}
                 />
@@ -196,7 +209,7 @@ export default function DeployCollection() {
                 <button
                   className="btn"
                   disabled={!canPublish}
-                  onClick={simulateDeploy}
+                  onClick={publish}
                 >
                   Publish Contract
                 </button>
@@ -1,15 +1,77 @@
-import { useLocation, Link } from "react-router-dom";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate, Link } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { deployCollectionContract, type Collection, type DeployStep } from "../../lib/collections";
+
+const EXPLORER_TX = "https://sepolia.etherscan.io/tx/";
+
+const STEPS: { key: DeployStep["step"]; label: string }[] = [
+  { key: "wallet", label: "ACCEPT WALLET PROMPT" },
+  { key: "pending", label: "WAITING FOR THE TRANSACTION" },
+  { key: "verifying", label: "VERIFYING CONTRACT" },
+  { key: "done", label: "DEPLOYED" },
+];
+
+type DeployingState = {
+  collectionId?: string;
+  preview?: string | null;
+  name?: string;
+  symbol?: string;
+  chain?: string;
+};
 
 /**
- * Simple interstitial used during deploy simulation.
- * If you wire a real wallet flow, navigate to this route while waiting for tx mining.
+ * Interstitial for Studio → Deploy Contract. Sends the factory deploy tx from
+ * the creator's wallet and follows it until the API has verified the contract,
+ * then routes to /create with the collection preselected. Picks up a tx that is
+ * already pending for the collection instead of deploying twice.
  */
 export default function Deploying() {
-  const loc = useLocation() as any;
-  const preview: string | null = loc?.state?.preview ?? null;
-  const name: string | null = loc?.state?.name ?? null;
-  const symbol: string | null = loc?.state?.symbol ?? null;
-  const chain: string | null = loc?.state?.chain ?? null;
+  const nav = useNavigate();
+  const loc = useLocation();
+  const state = (loc.state ?? {}) as DeployingState;
+  const { collectionId, preview = null, name = null, symbol = null, chain = null } = state;
+
+  const [step, setStep] = useState<DeployStep | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const started = useRef(false);
+
+  const run = useCallback(async () => {
+    if (!collectionId) return;
+    setErr(null);
+    try {
+      const { data, error } = await supabase.from("collections").select("*").eq("id", collectionId).single<Collection>();
+      if (error) throw error;
+
+      let done = data;
+      if (data.deploy_status !== "deployed") {
+        const resume = data.deploy_status === "pending" ? data.deploy_tx_hash : null;
+        done = await deployCollectionContract(
+          data,
+          (s) => {
+            setStep(s);
+            if (s.step === "pending" || s.step === "verifying") setTxHash(s.txHash);
+          },
+          resume
+        );
+      }
+      setStep({ step: "done", collection: done });
+      setTimeout(() => nav("/create", { replace: true, state: { collectionId: done.id } }), 1200);
+    } catch (e) {
+      const x = e as { shortMessage?: string; message?: string };
+      setErr(x?.shortMessage || x?.message || "Deploy failed");
+    }
+  }, [collectionId, nav]);
+
+  useEffect(() => {
+    // once per mount (StrictMode runs effects twice; a second run would prompt the wallet again)
+    if (started.current) return;
+    started.current = true;
+    void run();
+  }, [run]);
+
+  const at = step ? STEPS.findIndex((s) => s.key === step.step) : 0;
 
   return (
     <div className="min-h-[calc(100vh-80px)] bg-black">
@@ -21,16 +83,54 @@ export default function Deploying() {
             <div className="text-white/40 text-sm">No image</div>
           )}
         </div>
-        <h1 className="text-2xl font-semibold mb-2">Deploying contract</h1>
+        <h1 className="text-2xl font-semibold mb-2">
+          {step?.step === "done" ? "Contract deployed" : "Deploying contract"}
+        </h1>
         <p className="text-white/70 mb-6">
           Deploying your collection’s contract now. It will become public.
           After deployment, you will set up your Collection and items.
         </p>
-        <div className="text-[11px] inline-flex items-center gap-2 px-2 py-1 rounded bg-white/10 border border-white/20">
-          <span>STEP 1</span>
-          <span>–</span>
-          <span>ACCEPT WALLET PROMPT</span>
-        </div>
+
+        {collectionId ? (
+          <div className="flex flex-wrap justify-center gap-2">
+            {STEPS.map((s, i) => (
+              <div
+                key={s.key}
+                className={`text-[11px] inline-flex items-center gap-2 px-2 py-1 rounded border ${
+                  i < at || step?.step === "done"
+                    ? "bg-emerald-400/20 border-emerald-400/40"
+                    : i === at && !err
+                    ? "bg-white/10 border-white/40 animate-pulse"
+                    : "bg-white/5 border-white/10 text-white/50"
+                }`}
+              >
+                <span>STEP {i + 1}</span>
+                <span>–</span>
+                <span>{s.label}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-white/60">Nothing to deploy. Start from the Deploy Contract form.</div>
+        )}
+
+        {txHash && (
+          <div className="mt-4 text-xs text-white/60">
+            Tx{" "}
+            <a href={`${EXPLORER_TX}${txHash}`} target="_blank" rel="noreferrer" className="underline hover:text-white">
+              {txHash.slice(0, 10)}…{txHash.slice(-8)}
+            </a>
+          </div>
+        )}
+
+        {err && (
+          <div className="mt-6 space-y-3">
+            <div className="text-sm text-rose-300">{err}</div>
+            <button className="btn" onClick={() => void run()}>
+              Try again
+            </button>
+          </div>
+        )}
 
         {/* Fallback controls if someone lands here directly */}
         <div className="mt-8 text-xs text-white/50">
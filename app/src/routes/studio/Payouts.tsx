@@ -0,0 +1,273 @@
+// app/src/routes/studio/Payouts.tsx
+import { Link } from "react-router-dom";
+import { useEffect, useMemo, useState } from "react";
+import {
+  fetchMyPayouts,
+  downloadEarningsCsv,
+  type Earning,
+  type PayoutBalance,
+  type PayoutBatch,
+  type PayoutsRange,
+} from "../../lib/payouts";
+import { formatMoney } from "../../lib/currencies";
+
+type Period = "month" | "quarter" | "year";
+type RangeKey = "12m" | "ytd" | "all";
+
+const ROLE_LABEL: Record<string, string> = {
+  seller: "Sale",
+  creator_royalty: "Royalty",
+  charity: "Charity",
+  platform_fee: "Platform fee",
+};
+
+function rangeFor(key: RangeKey): PayoutsRange {
+  const now = new Date();
+  if (key === "12m") return { from: new Date(now.getFullYear() - 1, now.getMonth(), 1).toISOString() };
+  if (key === "ytd") return { from: new Date(now.getFullYear(), 0, 1).toISOString() };
+  return {};
+}
+
+function periodKey(iso: string, period: Period) {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  if (period === "year") return String(y);
+  if (period === "quarter") return `${y} Q${Math.floor(d.getMonth() / 3) + 1}`;
+  return `${y}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** amount per currency, e.g. { USD: 120, ETH: 0.4 } */
+type Totals = Record<string, number>;
+const add = (t: Totals, e: Earning) => {
+  t[e.currency] = (t[e.currency] ?? 0) + e.amount;
+  return t;
+};
+const fmtTotals = (t: Totals) =>
+  Object.entries(t)
+    .map(([ccy, amt]) => formatMoney(amt, ccy))
+    .join(" · ") || "—";
+
+export default function Payouts() {
+  const [range, setRange] = useState<RangeKey>("12m");
+  const [period, setPeriod] = useState<Period>("month");
+  const [balances, setBalances] = useState<PayoutBalance[]>([]);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [earnings, setEarnings] = useState<Earning[]>([]);
+  const [busy, setBusy] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setBusy(true);
+      setMsg(null);
+      try {
+        const r = await fetchMyPayouts(rangeFor(range));
+        if (!alive) return;
+        setBalances(r.balances);
+        setBatches(r.batches);
+        setEarnings(r.earnings);
+      } catch (e) {
+        if (alive) setMsg((e as Error)?.message || "Failed to load payouts");
+      } finally {
+        if (alive) setBusy(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [range]);
+
+  const byArtwork = useMemo(() => {
+    const m = new Map<string, { id: string; title: string | null; sales: number; totals: Totals; roles: Set<string> }>();
+    for (const e of earnings) {
+      const row = m.get(e.artwork_id) ?? { id: e.artwork_id, title: e.artwork_title, sales: 0, totals: {}, roles: new Set() };
+      add(row.totals, e);
+      row.roles.add(e.recipient_type);
+      if (e.recipient_type === "seller") row.sales += e.amount < 0 ? -1 : 1; // refunds net out
+      m.set(e.artwork_id, row);
+    }
+    return Array.from(m.values());
+  }, [earnings]);
+
+  const byPeriod = useMemo(() => {
+    const m = new Map<string, Totals>();
+    for (const e of earnings) {
+      const k = periodKey(e.settled_at, period);
+      m.set(k, add(m.get(k) ?? {}, e));
+    }
+    return Array.from(m.entries()).sort(([a], [b]) => (a < b ? 1 : -1));
+  }, [earnings, period]);
+
+  async function onExport() {
+    try {
+      await downloadEarningsCsv(rangeFor(range), `taedal-earnings-${range}.csv`);
+    } catch (e) {
+      setMsg((e as Error)?.message || "Export failed");
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] bg-black">
+      <div className="max-w-6xl mx-auto px-6 py-10 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <Link to="/studio" className="text-xs text-white/60 hover:text-white">← Studio</Link>
+            <h1 className="text-3xl font-semibold">Earnings & payouts</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <select className="input" value={range} onChange={(e) => setRange(e.target.value as RangeKey)} title="Range">
+              <option value="12m">Last 12 months</option>
+              <option value="ytd">This year</option>
+              <option value="all">All time</option>
+            </select>
+            <button className="btn" onClick={onExport} disabled={busy || earnings.length === 0}>
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {msg && <div className="text-sm text-amber-300">{msg}</div>}
+
+        {/* balances: all-time, per currency */}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {balances.map((b) => (
+            <div key={b.currency} className="rounded-2xl border border-white/10 bg-white/[0.04] p-4">
+              <div className="text-xs text-white/60">Available · {b.currency}</div>
+              <div className="text-2xl font-semibold">{formatMoney(Number(b.available), b.currency)}</div>
+              <div className="mt-2 text-xs text-white/60 space-y-0.5">
+                <div>Earned {formatMoney(Number(b.earned), b.currency)}</div>
+                <div>In payout {formatMoney(Number(b.in_payout), b.currency)}</div>
+                {Number(b.in_escrow) > 0 && (
+                  <div>Awaiting delivery {formatMoney(Number(b.in_escrow), b.currency)}</div>
+                )}
+                {Number(b.uncollected) > 0 && (
+                  <div>Awaiting collection {formatMoney(Number(b.uncollected), b.currency)}</div>
+                )}
+                <div>Paid out {formatMoney(Number(b.paid_out), b.currency)}</div>
+              </div>
+            </div>
+          ))}
+          {!busy && balances.length === 0 && (
+            <div className="text-sm text-white/70">No earnings yet.</div>
+          )}
+        </div>
+
+        <Card title="Earnings by artwork" loading={busy}>
+          {byArtwork.length === 0 ? (
+            <div className="p-3 text-sm text-white/70">Nothing in this range.</div>
+          ) : (
+            <>
+              <div className="hidden md:grid grid-cols-12 text-xs text-white/60 px-3 pb-2">
+                <div className="col-span-5">ARTWORK</div>
+                <div className="col-span-3">FROM</div>
+                <div className="col-span-1">SALES</div>
+                <div className="col-span-3 text-right">EARNED</div>
+              </div>
+              <div className="divide-y divide-white/10">
+                {byArtwork.map((a) => (
+                  <Link
+                    key={a.id}
+                    to={`/art/${a.id}`}
+                    className="grid grid-cols-12 items-center gap-3 px-3 py-3 hover:bg-white/[0.04] rounded-lg"
+                  >
+                    <div className="col-span-12 md:col-span-5 truncate">{a.title || "Untitled"}</div>
+                    <div className="col-span-6 md:col-span-3 text-white/70 text-sm">
+                      {Array.from(a.roles).map((r) => ROLE_LABEL[r] ?? r).join(", ")}
+                    </div>
+                    <div className="col-span-2 md:col-span-1 text-white/70">{a.sales}</div>
+                    <div className="col-span-4 md:col-span-3 text-right">{fmtTotals(a.totals)}</div>
+                  </Link>
+                ))}
+              </div>
+            </>
+          )}
+        </Card>
+
+        <Card
+          title="Earnings by period"
+          loading={busy}
+          right={
+            <select className="input" value={period} onChange={(e) => setPeriod(e.target.value as Period)} title="Group by">
+              <option value="month">Monthly</option>
+              <option value="quarter">Quarterly</option>
+              <option value="year">Yearly</option>
+            </select>
+          }
+        >
+          {byPeriod.length === 0 ? (
+            <div className="p-3 text-sm text-white/70">Nothing in this range.</div>
+          ) : (
+            <div className="divide-y divide-white/10">
+              {byPeriod.map(([k, totals]) => (
+                <div key={k} className="flex items-center justify-between px-3 py-2">
+                  <div className="text-white/80">{k}</div>
+                  <div>{fmtTotals(totals)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card title="Payouts" loading={busy}>
+          {batches.length === 0 ? (
+            <div className="p-3 text-sm text-white/70">No payouts yet.</div>
+          ) : (
+            <div className="divide-y divide-white/10">
+              {batches.map((b) => (
+                <div key={b.id} className="grid grid-cols-12 items-center gap-3 px-3 py-2">
+                  <div className="col-span-4 text-white/70">{new Date(b.created_at).toLocaleDateString()}</div>
+                  <div className="col-span-4">{formatMoney(Number(b.amount), b.currency)}</div>
+                  <div className="col-span-4 text-right">
+                    <span
+                      className={`px-2 py-0.5 rounded-md text-xs ${
+                        b.status === "sent"
+                          ? "bg-emerald-400 text-black"
+                          : b.status === "failed"
+                          ? "bg-rose-500 text-white"
+                          : "bg-white/10 text-white"
+                      }`}
+                      title={b.failure_reason ?? b.reference ?? undefined}
+                    >
+                      {b.status}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function Card({
+  title,
+  right,
+  loading,
+  children,
+}: {
+  title: string;
+  right?: React.ReactNode;
+  loading?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.04] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-base font-semibold">{title}</h3>
+        {right}
+      </div>
+      {loading ? (
+        <div className="space-y-2 animate-pulse">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 rounded-md bg-white/10" />
+          ))}
+        </div>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
@@ -263,6 +263,7 @@ export default function StudioHome() {
               </select>
               <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-white/40">▾</div>
             </div>
+            <Link to="/studio/payouts" className="btn bg-white/0 border border-white/20 hover:bg-white/10">Earnings</Link>
             {/* UPDATED: go to the new wizard that starts with Physical/Digital */}
             <Link to="/create" className="btn">Create</Link>
           </div>
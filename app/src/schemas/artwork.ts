@@ -26,6 +26,9 @@ const urlOpt = z.preprocess(
   z.string().url().optional()
 );
 
+/** Same ceiling TaedalNFT enforces on-chain (MAX_ROYALTY_BPS): 1000 bps = 10% */
+export const ROYALTY_MAX_BPS = 1000;
+
 export const CreateArtworkSchema = z.object({
   title: z.string().trim().min(1, "Title is required").max(120),
   description: strOpt(5000),
@@ -53,7 +56,7 @@ export const CreateArtworkSchema = z.object({
   // ✅ All refinements live inside preprocess's target schema
   royalty_bps: z.preprocess(
     (v) => (v === "" || v === null || typeof v === "undefined" ? 500 : Number(v)),
-    z.number().int("Must be an integer").min(0).max(9500)
+    z.number().int("Must be an integer").min(0).max(ROYALTY_MAX_BPS, `Max ${ROYALTY_MAX_BPS} bps (${ROYALTY_MAX_BPS / 100}%)`)
   ),
 
   status: z
@@ -67,6 +70,9 @@ export const CreateArtworkSchema = z.object({
 
   tags: z.array(z.string().min(1).max(32)).max(20).optional(),
   is_nsfw: z.boolean().default(false),
+}).refine((v) => v.edition_type !== "limited" || v.edition_size != null, {
+  path: ["edition_size"],
+  message: "Limited editions need a size",
 });
 
 export type CreateArtworkInput = z.infer<typeof CreateArtworkSchema>;
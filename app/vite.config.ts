@@ -1,7 +1,9 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
   build: { sourcemap: true },
+  // the currency table is shared with the edge functions (src/lib/currencies.ts)
+  server: { fs: { allow: [searchForWorkspaceRoot(process.cwd()), "../supabase/functions/_shared"] } },
 });
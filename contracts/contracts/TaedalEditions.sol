@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/*
+ * Taedal ERC-1155 editions, alongside TaedalNFT (one-of-ones).
+ * Each token id is one artwork's edition:
+ * - createEdition(uint256 maxSupply, uint256 initialSupply, string uri, address royaltyReceiver, uint96 royaltyBps)
+ *     maxSupply 0 = open edition (no cap); limited editions mint their whole
+ *     run to the creator up front (initialSupply == maxSupply)
+ * - mintEdition(uint256 id, address to, uint256 amount)   creator only, within maxSupply
+ * ERC1155Supply tracks totalSupply(id); ERC2981 royalties per token, capped at MAX_ROYALTY_BPS.
+ */
+
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import {ERC1155Supply} from "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import {ERC2981} from "@openzeppelin/contracts/token/common/ERC2981.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+contract TaedalEditions is ERC1155Supply, ERC2981, Ownable {
+    /// @notice same ceiling as TaedalNFT
+    uint96 public constant MAX_ROYALTY_BPS = 1000;
+
+    string public constant name = "Taedal Editions";
+    string public constant symbol = "TAEDALED";
+
+    struct Edition {
+        address creator;
+        uint256 maxSupply; // 0 = open
+        string uri;
+    }
+
+    mapping(uint256 => Edition) private _editions;
+    uint256 public nextEditionId = 1;
+
+    event EditionCreated(uint256 indexed id, address indexed creator, uint256 maxSupply, string uri);
+
+    error RoyaltyTooHigh(uint96 bps, uint96 max);
+    error UnknownEdition(uint256 id);
+    error NotEditionCreator(uint256 id);
+    error ExceedsMaxSupply(uint256 id, uint256 requested, uint256 remaining);
+    error LimitedEditionMintsUpFront();
+
+    constructor(address initialOwner) ERC1155("") Ownable(initialOwner) {}
+
+    /// @notice new edition owned by the caller; returns its token id
+    function createEdition(
+        uint256 maxSupply,
+        uint256 initialSupply,
+        string calldata uri_,
+        address royaltyReceiver,
+        uint96 royaltyBps
+    ) external returns (uint256 id) {
+        if (royaltyBps > MAX_ROYALTY_BPS) revert RoyaltyTooHigh(royaltyBps, MAX_ROYALTY_BPS);
+        if (maxSupply != 0 && initialSupply != maxSupply) revert LimitedEditionMintsUpFront();
+
+        id = nextEditionId++;
+        _editions[id] = Edition({creator: msg.sender, maxSupply: maxSupply, uri: uri_});
+        if (royaltyBps > 0) _setTokenRoyalty(id, royaltyReceiver, royaltyBps);
+        emit EditionCreated(id, msg.sender, maxSupply, uri_);
+        emit URI(uri_, id);
+
+        if (initialSupply > 0) _mint(msg.sender, id, initialSupply, "");
+    }
+
+    /// @notice creator mints more of their edition (open editions, as they sell)
+    function mintEdition(uint256 id, address to, uint256 amount) external {
+        Edition storage e = _edition(id);
+        if (e.creator != msg.sender) revert NotEditionCreator(id);
+        if (e.maxSupply != 0 && totalSupply(id) + amount > e.maxSupply) {
+            revert ExceedsMaxSupply(id, amount, e.maxSupply - totalSupply(id));
+        }
+        _mint(to, id, amount, "");
+    }
+
+    function editionOf(uint256 id) external view returns (address creator, uint256 maxSupply, uint256 supply) {
+        Edition storage e = _edition(id);
+        return (e.creator, e.maxSupply, totalSupply(id));
+    }
+
+    function uri(uint256 id) public view override returns (string memory) {
+        return _edition(id).uri;
+    }
+
+    function _edition(uint256 id) internal view returns (Edition storage e) {
+        e = _editions[id];
+        if (e.creator == address(0)) revert UnknownEdition(id);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC1155, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
@@ -1,25 +1,44 @@
 const hre = require("hardhat");
 
+async function verify(address, constructorArguments) {
+  try {
+    await hre.run("verify:verify", { address, constructorArguments });
+    console.log("Verified ✅", address);
+  } catch (e) {
+    console.log("Verify skipped/failed:", e.message || e);
+  }
+}
+
 async function main() {
   const [deployer] = await hre.ethers.getSigners();
   console.log("Deployer:", deployer.address);
 
-  const TaedalNFT = await hre.ethers.getContractFactory("TaedalNFT");
-  const nft = await TaedalNFT.deploy();
+  // shared platform contract: anyone can mint (VITE_NFT_CONTRACT / NFT_CONTRACT_ADDRESS)
+  const nftArgs = ["Taedal", "TAEDAL", deployer.address, true];
+  const nft = await hre.ethers.deployContract("TaedalNFT", nftArgs);
   await nft.waitForDeployment();
-
   const address = await nft.getAddress();
   console.log("TaedalNFT deployed to:", address);
 
+  // per-collection contracts (VITE_COLLECTION_FACTORY / COLLECTION_FACTORY_ADDRESS)
+  const factory = await hre.ethers.deployContract("TaedalCollectionFactory");
+  await factory.waitForDeployment();
+  const factoryAddress = await factory.getAddress();
+  console.log("TaedalCollectionFactory deployed to:", factoryAddress);
+
+  // ERC-1155 limited / open editions (VITE_EDITIONS_CONTRACT)
+  const editionsArgs = [deployer.address];
+  const editions = await hre.ethers.deployContract("TaedalEditions", editionsArgs);
+  await editions.waitForDeployment();
+  const editionsAddress = await editions.getAddress();
+  console.log("TaedalEditions deployed to:", editionsAddress);
+
   if (hre.network.name === "sepolia") {
     console.log("Waiting a few blocks before verify…");
-    await nft.deploymentTransaction().wait(5);
-    try {
-      await hre.run("verify:verify", { address, constructorArguments: [] });
-      console.log("Verified ✅");
-    } catch (e) {
-      console.log("Verify skipped/failed:", e.message || e);
-    }
+    await editions.deploymentTransaction().wait(5);
+    await verify(address, nftArgs);
+    await verify(factoryAddress, []);
+    await verify(editionsAddress, editionsArgs);
   }
 }
 
@@ -1,13 +1,18 @@
 // contracts/scripts/export-abi.js
-// Export ABI(s) to both /contracts/abi and /app/src/abi
+// Export ABI(s) to both /contracts/abi and /app/src/lib/abi
 
 const fs = require("fs");
 const path = require("path");
 
 const ROOT = path.resolve(__dirname, "..");
-const ARTIFACTS = path.join(ROOT, "artifacts", "contracts", "TaedalNFT.sol", "TaedalNFT.json");
-const OUT_CONTRACTS = path.join(ROOT, "abi", "NFT.json");
-const OUT_APP = path.join(ROOT, "..", "app", "src", "abi", "NFT.json");
+const APP_ABI = path.join(ROOT, "..", "app", "src", "lib", "abi");
+
+// artifact -> ABI file name
+const EXPORTS = [
+  ["TaedalNFT.sol/TaedalNFT.json", "NFT.json"],
+  ["TaedalCollectionFactory.sol/TaedalCollectionFactory.json", "CollectionFactory.json"],
+  ["TaedalEditions.sol/TaedalEditions.json", "Editions.json"],
+];
 
 function ensureDir(p) {
   const d = path.dirname(p);
@@ -15,21 +20,22 @@ function ensureDir(p) {
 }
 
 function main() {
-  if (!fs.existsSync(ARTIFACTS)) {
-    console.error("Artifact not found. Run `npm run compile` in /contracts.");
-    process.exit(1);
-  }
-  const artifact = JSON.parse(fs.readFileSync(ARTIFACTS, "utf8"));
-  const out = JSON.stringify(artifact.abi, null, 2);
-
-  ensureDir(OUT_CONTRACTS);
-  ensureDir(OUT_APP);
-  fs.writeFileSync(OUT_CONTRACTS, out);
-  fs.writeFileSync(OUT_APP, out);
-
   console.log("✓ ABI exported:");
-  console.log("  -", OUT_CONTRACTS);
-  console.log("  -", OUT_APP);
+  for (const [artifactPath, name] of EXPORTS) {
+    const artifactFile = path.join(ROOT, "artifacts", "contracts", artifactPath);
+    if (!fs.existsSync(artifactFile)) {
+      console.error(`Artifact ${artifactPath} not found. Run \`npm run compile\` in /contracts.`);
+      process.exit(1);
+    }
+    const artifact = JSON.parse(fs.readFileSync(artifactFile, "utf8"));
+    const out = JSON.stringify(artifact.abi, null, 2);
+
+    for (const file of [path.join(ROOT, "abi", name), path.join(APP_ABI, name)]) {
+      ensureDir(file);
+      fs.writeFileSync(file, out);
+      console.log("  -", file);
+    }
+  }
 }
 
 main();
@@ -0,0 +1,78 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+
+const URI = "ipfs://bafy-collection-item";
+
+const TYPES = {
+  MintVoucher: [
+    { name: "creator", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "price", type: "uint256" },
+    { name: "royaltyBps", type: "uint96" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+describe("TaedalCollectionFactory", function () {
+  async function deploy() {
+    const [creator, buyer, other] = await ethers.getSigners();
+    const factory = await ethers.deployContract("TaedalCollectionFactory");
+    const tx = await factory.connect(creator).deployCollection("Night Studies", "NIGHT");
+    const rc = await tx.wait();
+    const ev = rc.logs.map((l) => factory.interface.parseLog(l)).find((l) => l?.name === "CollectionDeployed");
+    const collection = await ethers.getContractAt("TaedalNFT", ev.args.collection);
+    return { factory, collection, creator, buyer, other, tx };
+  }
+
+  it("deploys a named collection owned by the caller", async function () {
+    const { factory, collection, creator, tx } = await loadFixture(deploy);
+    const address = await collection.getAddress();
+
+    await expect(tx)
+      .to.emit(factory, "CollectionDeployed")
+      .withArgs(address, creator.address, "Night Studies", "NIGHT");
+    expect(await factory.isCollection(address)).to.equal(true);
+    expect(await collection.name()).to.equal("Night Studies");
+    expect(await collection.symbol()).to.equal("NIGHT");
+    expect(await collection.owner()).to.equal(creator.address);
+    expect(await collection.openMint()).to.equal(false);
+  });
+
+  it("only the collection owner mints into it", async function () {
+    const { collection, creator, other } = await loadFixture(deploy);
+    await collection.connect(creator).publicMint(URI, creator.address, 500);
+    expect(await collection.ownerOf(1)).to.equal(creator.address);
+
+    await expect(collection.connect(other).publicMint(URI, other.address, 500))
+      .to.be.revertedWithCustomError(collection, "MintingRestricted");
+  });
+
+  it("redeems the owner's vouchers but not anyone else's", async function () {
+    const { collection, creator, buyer, other } = await loadFixture(deploy);
+    const domain = {
+      name: "Taedal",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await collection.getAddress(),
+    };
+    const price = ethers.parseEther("0.1");
+
+    const own = { creator: creator.address, uri: URI, price, royaltyBps: 500, nonce: 1n };
+    await collection.connect(buyer).redeem(own, await creator.signTypedData(domain, TYPES, own), { value: price });
+    expect(await collection.ownerOf(1)).to.equal(buyer.address);
+
+    const foreign = { ...own, creator: other.address };
+    await expect(
+      collection.connect(buyer).redeem(foreign, await other.signTypedData(domain, TYPES, foreign), { value: price })
+    ).to.be.revertedWithCustomError(collection, "MintingRestricted");
+  });
+
+  it("rejects empty or oversized names and symbols", async function () {
+    const { factory } = await loadFixture(deploy);
+    await expect(factory.deployCollection("", "NIGHT")).to.be.revertedWithCustomError(factory, "InvalidName");
+    await expect(factory.deployCollection("x".repeat(65), "NIGHT")).to.be.revertedWithCustomError(factory, "InvalidName");
+    await expect(factory.deployCollection("Night", "")).to.be.revertedWithCustomError(factory, "InvalidSymbol");
+    await expect(factory.deployCollection("Night", "ABCDEFGHIJK")).to.be.revertedWithCustomError(factory, "InvalidSymbol");
+  });
+});
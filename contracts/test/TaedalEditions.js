@@ -0,0 +1,85 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+
+const URI = "ipfs://bafy-edition/metadata.json";
+
+describe("TaedalEditions", function () {
+  async function deploy() {
+    const [owner, creator, buyer, other] = await ethers.getSigners();
+    const editions = await ethers.deployContract("TaedalEditions", [owner.address]);
+    return { editions, owner, creator, buyer, other };
+  }
+
+  async function created(editions, tx) {
+    const rc = await (await tx).wait();
+    const ev = rc.logs.map((l) => editions.interface.parseLog(l)).find((l) => l?.name === "EditionCreated");
+    return ev.args.id;
+  }
+
+  it("mints a limited edition's whole run to the creator", async function () {
+    const { editions, creator } = await loadFixture(deploy);
+    const tx = editions.connect(creator).createEdition(25, 25, URI, creator.address, 500);
+    await expect(tx).to.emit(editions, "EditionCreated").withArgs(1n, creator.address, 25n, URI);
+    const id = await created(editions, tx);
+
+    expect(await editions.balanceOf(creator.address, id)).to.equal(25n);
+    expect(await editions["totalSupply(uint256)"](id)).to.equal(25n);
+    expect(await editions.uri(id)).to.equal(URI);
+    const [receiver, amount] = await editions.royaltyInfo(id, 10_000n);
+    expect(receiver).to.equal(creator.address);
+    expect(amount).to.equal(500n);
+  });
+
+  it("caps limited editions at maxSupply", async function () {
+    const { editions, creator, buyer } = await loadFixture(deploy);
+    await expect(editions.connect(creator).createEdition(10, 3, URI, creator.address, 0))
+      .to.be.revertedWithCustomError(editions, "LimitedEditionMintsUpFront");
+
+    const id = await created(editions, editions.connect(creator).createEdition(10, 10, URI, creator.address, 0));
+    await expect(editions.connect(creator).mintEdition(id, buyer.address, 1))
+      .to.be.revertedWithCustomError(editions, "ExceedsMaxSupply")
+      .withArgs(id, 1n, 0n);
+  });
+
+  it("lets the creator keep minting an open edition", async function () {
+    const { editions, creator, buyer, other } = await loadFixture(deploy);
+    const id = await created(editions, editions.connect(creator).createEdition(0, 0, URI, creator.address, 250));
+
+    await editions.connect(creator).mintEdition(id, buyer.address, 3);
+    await editions.connect(creator).mintEdition(id, other.address, 2);
+    expect(await editions.balanceOf(buyer.address, id)).to.equal(3n);
+    expect(await editions["totalSupply(uint256)"](id)).to.equal(5n);
+
+    const [c, max, supply] = await editions.editionOf(id);
+    expect(c).to.equal(creator.address);
+    expect(max).to.equal(0n);
+    expect(supply).to.equal(5n);
+  });
+
+  it("only the creator mints their edition", async function () {
+    const { editions, creator, other } = await loadFixture(deploy);
+    const id = await created(editions, editions.connect(creator).createEdition(0, 0, URI, creator.address, 0));
+    await expect(editions.connect(other).mintEdition(id, other.address, 1))
+      .to.be.revertedWithCustomError(editions, "NotEditionCreator");
+    await expect(editions.connect(creator).mintEdition(99, other.address, 1))
+      .to.be.revertedWithCustomError(editions, "UnknownEdition");
+  });
+
+  it("applies the royalty cap", async function () {
+    const { editions, creator } = await loadFixture(deploy);
+    await expect(editions.connect(creator).createEdition(5, 5, URI, creator.address, 1001))
+      .to.be.revertedWithCustomError(editions, "RoyaltyTooHigh")
+      .withArgs(1001n, 1000n);
+  });
+
+  it("transfers editions like any ERC-1155", async function () {
+    const { editions, creator, buyer } = await loadFixture(deploy);
+    const id = await created(editions, editions.connect(creator).createEdition(4, 4, URI, creator.address, 0));
+    await editions.connect(creator).safeTransferFrom(creator.address, buyer.address, id, 2, "0x");
+    expect(await editions.balanceOf(creator.address, id)).to.equal(2n);
+    expect(await editions.balanceOf(buyer.address, id)).to.equal(2n);
+    expect(await editions.supportsInterface("0xd9b67a26")).to.equal(true); // ERC-1155
+    expect(await editions.supportsInterface("0x2a55205a")).to.equal(true); // ERC-2981
+  });
+});
@@ -0,0 +1,107 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+
+const URI = "ipfs://bafy-test-metadata";
+const SALE = ethers.parseEther("1");
+
+describe("TaedalNFT royalties (ERC-2981)", function () {
+  async function deploy() {
+    const [owner, artist, buyer, other] = await ethers.getSigners();
+    const nft = await ethers.deployContract("TaedalNFT", ["Taedal", "TAEDAL", owner.address, true]);
+    return { nft, owner, artist, buyer, other };
+  }
+
+  it("advertises ERC-721 and ERC-2981", async function () {
+    const { nft } = await loadFixture(deploy);
+    expect(await nft.supportsInterface("0x80ac58cd")).to.equal(true); // ERC-721
+    expect(await nft.supportsInterface("0x2a55205a")).to.equal(true); // ERC-2981
+  });
+
+  it("publicMint stores the royalty for that token", async function () {
+    const { nft, artist } = await loadFixture(deploy);
+    await nft.connect(artist).publicMint(URI, artist.address, 500);
+
+    expect(await nft.ownerOf(1)).to.equal(artist.address);
+    expect(await nft.tokenURI(1)).to.equal(URI);
+    const [receiver, amount] = await nft.royaltyInfo(1, SALE);
+    expect(receiver).to.equal(artist.address);
+    expect(amount).to.equal(SALE * 500n / 10000n);
+  });
+
+  it("keeps royalties per token", async function () {
+    const { nft, artist, other } = await loadFixture(deploy);
+    await nft.connect(artist).publicMint(URI, artist.address, 250);
+    await nft.connect(other).publicMint(URI, other.address, 1000);
+
+    const [r1, a1] = await nft.royaltyInfo(1, 10_000n);
+    const [r2, a2] = await nft.royaltyInfo(2, 10_000n);
+    expect([r1, a1]).to.deep.equal([artist.address, 250n]);
+    expect([r2, a2]).to.deep.equal([other.address, 1000n]);
+  });
+
+  it("royalty follows the token's receiver, not its owner", async function () {
+    const { nft, artist, buyer } = await loadFixture(deploy);
+    await nft.connect(artist).publicMint(URI, artist.address, 500);
+    await nft.connect(artist).transferFrom(artist.address, buyer.address, 1);
+
+    const [receiver] = await nft.royaltyInfo(1, SALE);
+    expect(receiver).to.equal(artist.address);
+  });
+
+  it("safeMint (owner) can mint to a collector with the artist as receiver", async function () {
+    const { nft, artist, buyer } = await loadFixture(deploy);
+    await nft.safeMint(buyer.address, URI, artist.address, 750);
+
+    expect(await nft.ownerOf(1)).to.equal(buyer.address);
+    const [receiver, amount] = await nft.royaltyInfo(1, 10_000n);
+    expect(receiver).to.equal(artist.address);
+    expect(amount).to.equal(750n);
+  });
+
+  it("safeMint stays owner-only", async function () {
+    const { nft, artist } = await loadFixture(deploy);
+    await expect(nft.connect(artist).safeMint(artist.address, URI, artist.address, 500))
+      .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+      .withArgs(artist.address);
+  });
+
+  it("accepts exactly the cap", async function () {
+    const { nft, artist } = await loadFixture(deploy);
+    const cap = await nft.MAX_ROYALTY_BPS();
+    expect(cap).to.equal(1000n);
+
+    await nft.connect(artist).publicMint(URI, artist.address, cap);
+    const [, amount] = await nft.royaltyInfo(1, 10_000n);
+    expect(amount).to.equal(cap);
+  });
+
+  it("rejects a royalty above the cap", async function () {
+    const { nft, owner, artist } = await loadFixture(deploy);
+    const cap = await nft.MAX_ROYALTY_BPS();
+
+    await expect(nft.connect(artist).publicMint(URI, artist.address, cap + 1n))
+      .to.be.revertedWithCustomError(nft, "RoyaltyTooHigh")
+      .withArgs(cap + 1n, cap);
+    await expect(nft.connect(owner).safeMint(artist.address, URI, artist.address, 9500))
+      .to.be.revertedWithCustomError(nft, "RoyaltyTooHigh")
+      .withArgs(9500, cap);
+    expect(await nft.currentId()).to.equal(0n);
+  });
+
+  it("zero bps mints without a royalty", async function () {
+    const { nft, artist } = await loadFixture(deploy);
+    await nft.connect(artist).publicMint(URI, ethers.ZeroAddress, 0);
+
+    const [receiver, amount] = await nft.royaltyInfo(1, SALE);
+    expect(receiver).to.equal(ethers.ZeroAddress);
+    expect(amount).to.equal(0n);
+  });
+
+  it("refuses a royalty with no receiver", async function () {
+    const { nft, artist } = await loadFixture(deploy);
+    await expect(nft.connect(artist).publicMint(URI, ethers.ZeroAddress, 500))
+      .to.be.revertedWithCustomError(nft, "ERC2981InvalidTokenRoyaltyReceiver")
+      .withArgs(1, ethers.ZeroAddress);
+  });
+});
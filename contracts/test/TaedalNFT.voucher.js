@@ -0,0 +1,135 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+
+const URI = "ipfs://bafy-lazy-metadata";
+const PRICE = ethers.parseEther("0.05");
+
+const TYPES = {
+  MintVoucher: [
+    { name: "creator", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "price", type: "uint256" },
+    { name: "royaltyBps", type: "uint96" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+describe("TaedalNFT lazy minting (EIP-712 vouchers)", function () {
+  async function deploy() {
+    const [owner, creator, buyer, other] = await ethers.getSigners();
+    const nft = await ethers.deployContract("TaedalNFT", ["Taedal", "TAEDAL", owner.address, true]);
+    const domain = {
+      name: "Taedal",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await nft.getAddress(),
+    };
+    const sign = async (signer, fields = {}) => {
+      const voucher = { creator: signer.address, uri: URI, price: PRICE, royaltyBps: 500, nonce: 1n, ...fields };
+      return { voucher, signature: await signer.signTypedData(domain, TYPES, voucher) };
+    };
+    return { nft, owner, creator, buyer, other, domain, sign };
+  }
+
+  it("hashVoucher matches the off-chain EIP-712 digest", async function () {
+    const { nft, creator, domain, sign } = await loadFixture(deploy);
+    const { voucher } = await sign(creator);
+    expect(await nft.hashVoucher(voucher)).to.equal(ethers.TypedDataEncoder.hash(domain, TYPES, voucher));
+  });
+
+  it("redeem mints to the buyer, sets the royalty and pays the creator", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator);
+
+    const tx = nft.connect(buyer).redeem(voucher, signature, { value: PRICE });
+    await expect(tx).to.changeEtherBalances([buyer, creator], [-PRICE, PRICE]);
+    await expect(tx)
+      .to.emit(nft, "VoucherRedeemed")
+      .withArgs(1, creator.address, buyer.address, 1, PRICE);
+
+    expect(await nft.ownerOf(1)).to.equal(buyer.address);
+    expect(await nft.tokenURI(1)).to.equal(URI);
+    expect(await nft.nonceUsed(creator.address, 1)).to.equal(true);
+    const [receiver, amount] = await nft.royaltyInfo(1, 10_000n);
+    expect([receiver, amount]).to.deep.equal([creator.address, 500n]);
+  });
+
+  it("a voucher redeems once", async function () {
+    const { nft, creator, buyer, other, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator);
+    await nft.connect(buyer).redeem(voucher, signature, { value: PRICE });
+
+    await expect(nft.connect(other).redeem(voucher, signature, { value: PRICE }))
+      .to.be.revertedWithCustomError(nft, "VoucherAlreadyUsed")
+      .withArgs(creator.address, 1);
+  });
+
+  it("requires exactly the voucher price", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator);
+
+    await expect(nft.connect(buyer).redeem(voucher, signature, { value: PRICE - 1n }))
+      .to.be.revertedWithCustomError(nft, "WrongPayment")
+      .withArgs(PRICE - 1n, PRICE);
+    await expect(nft.connect(buyer).redeem(voucher, signature, { value: PRICE + 1n }))
+      .to.be.revertedWithCustomError(nft, "WrongPayment");
+  });
+
+  it("rejects a voucher not signed by its creator", async function () {
+    const { nft, creator, buyer, other, domain } = await loadFixture(deploy);
+    const voucher = { creator: creator.address, uri: URI, price: PRICE, royaltyBps: 500, nonce: 1n };
+    const signature = await other.signTypedData(domain, TYPES, voucher);
+
+    await expect(nft.connect(buyer).redeem(voucher, signature, { value: PRICE }))
+      .to.be.revertedWithCustomError(nft, "InvalidVoucherSignature");
+  });
+
+  it("rejects a voucher whose fields were changed after signing", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator);
+    const cheaper = { ...voucher, price: PRICE / 2n };
+
+    await expect(nft.connect(buyer).redeem(cheaper, signature, { value: PRICE / 2n }))
+      .to.be.revertedWithCustomError(nft, "InvalidVoucherSignature");
+  });
+
+  it("a cancelled nonce can't be redeemed", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator, { nonce: 7n });
+
+    await expect(nft.connect(creator).cancelVoucher(7))
+      .to.emit(nft, "VoucherCancelled")
+      .withArgs(creator.address, 7);
+    await expect(nft.connect(buyer).redeem(voucher, signature, { value: PRICE }))
+      .to.be.revertedWithCustomError(nft, "VoucherAlreadyUsed")
+      .withArgs(creator.address, 7);
+  });
+
+  it("only spends the caller's own nonces", async function () {
+    const { nft, creator, buyer, other, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator, { nonce: 3n });
+    await nft.connect(other).cancelVoucher(3);
+
+    await nft.connect(buyer).redeem(voucher, signature, { value: PRICE });
+    expect(await nft.ownerOf(1)).to.equal(buyer.address);
+  });
+
+  it("applies the royalty cap to vouchers", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator, { royaltyBps: 1001 });
+
+    await expect(nft.connect(buyer).redeem(voucher, signature, { value: PRICE }))
+      .to.be.revertedWithCustomError(nft, "RoyaltyTooHigh")
+      .withArgs(1001, 1000);
+    expect(await nft.nonceUsed(creator.address, 1)).to.equal(false);
+  });
+
+  it("supports free vouchers", async function () {
+    const { nft, creator, buyer, sign } = await loadFixture(deploy);
+    const { voucher, signature } = await sign(creator, { price: 0n, royaltyBps: 0 });
+
+    await nft.connect(buyer).redeem(voucher, signature);
+    expect(await nft.ownerOf(1)).to.equal(buyer.address);
+  });
+});
@@ -3,6 +3,27 @@ import cors from "cors";
 import bodyParser from "body-parser";
 import { createClient } from "@supabase/supabase-js";
 import crypto from "crypto";
+import { checkoutRouter } from "./routes/checkout";
+import { webhooksRouter } from "./routes/webhooks";
+import { adminRouter } from "./routes/admin";
+import { payoutsRouter } from "./routes/payouts";
+import { refundsRouter } from "./routes/refunds";
+import { vouchersRouter } from "./routes/vouchers";
+import { collectionsRouter } from "./routes/collections";
+import { similarityRouter } from "./routes/similarity";
+import { offersRouter } from "./routes/offers";
+import { auctionsRouter } from "./routes/auctions";
+import { searchRouter } from "./routes/search";
+import { chipsRouter } from "./routes/chips";
+import { escrowRouter } from "./routes/escrow";
+import { shippingRouter } from "./routes/shipping";
+import { startAuctionSweeper } from "./lib/auctions";
+import { startDropOpener } from "./lib/listings";
+import { startDigestMailer } from "./lib/digest";
+import { startEscrowReleaser } from "./lib/escrow";
+import { startLicenseScheduler } from "./lib/licenses";
+import { newTagSecret } from "./lib/chips";
+import { createLegs, legsFromInput } from "./lib/custody";
 
 const {
   PORT = 5000,
@@ -11,6 +32,11 @@ const {
   SUPABASE_SERVICE_ROLE_KEY,
   PINATA_JWT,
   PUBLIC_APP_URL = "https://taedal.app",
+  AUCTION_SWEEP_SECONDS = "30",
+  DROP_OPEN_SECONDS = "30",
+  DIGEST_SECONDS = "900",
+  ESCROW_RELEASE_SECONDS = "300",
+  LICENSE_LIFECYCLE_SECONDS = "3600",
 } = process.env;
 
 if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
@@ -22,8 +48,25 @@ if (!PINATA_JWT) {
 
 const app = express();
 app.use(cors());
+
+// payment webhooks verify signatures over the raw body; mount before the JSON parser
+app.use(webhooksRouter);
 app.use(bodyParser.json());
 
+app.use(checkoutRouter);
+app.use(payoutsRouter);
+app.use(refundsRouter);
+app.use(vouchersRouter);
+app.use(collectionsRouter);
+app.use(similarityRouter);
+app.use(offersRouter);
+app.use(auctionsRouter);
+app.use(searchRouter);
+app.use(chipsRouter);
+app.use(escrowRouter);
+app.use(shippingRouter);
+app.use(adminRouter);
+
 // health
 app.get("/health", (_req, res) => res.json({ ok: true }));
 
@@ -71,7 +114,8 @@ app.post("/pin-artwork", async (req, res) => {
         id, creator_id, image_url,
         title, description, medium, year_created,
         width, height, depth, dim_unit,
-        edition_type, edition_size, is_nsfw
+        edition_type, edition_size, is_nsfw,
+        royalty_bps
       `)
       .eq("id", artwork_id)
       .maybeSingle();
@@ -138,11 +182,16 @@ app.post("/pin-artwork", async (req, res) => {
       attrs.push({ trait_type: "NSFW", value: (art as any).is_nsfw });
     }
 
+    // ERC-2981 on the token is authoritative; this mirrors it for marketplaces reading metadata
+    const royaltyBps = Number((art as any).royalty_bps ?? 0);
+    if (royaltyBps > 0) attrs.push({ trait_type: "Royalty", value: `${royaltyBps / 100}%` });
+
     const metadata = {
       name: (art as any).title ?? `Artwork ${(art as any).id}`,
       description: (art as any).description ?? "",
       image: `ipfs://${imageCID}`,
       attributes: attrs,
+      seller_fee_basis_points: royaltyBps,
     };
 
     const pinJson = await fetch("https://api.pinata.cloud/pinning/pinJSONToIPFS", {
@@ -212,17 +261,18 @@ app.post("/record-mint", async (req, res) => {
 
     const { data: art } = await userClient
       .from("artworks")
-      .select("id, creator_id, owner_id")
+      .select("id, creator_id, owner_id, edition_type, editions_issued")
       .eq("id", artwork_id)
       .maybeSingle();
     if (!art) return res.status(404).send("Artwork not found");
     if (art.creator_id !== callerId) return res.status(403).send("Only creator can record mint");
+    const isEdition = (art.edition_type ?? "unique") !== "unique";
 
     await serverClient.from("artworks")
       .update({
         contract_address,
         token_id: token_id ?? null,
-        token_standard,
+        token_standard: isEdition ? "erc1155" : token_standard,
         chain,
         tx_hash,
         status: "active",
@@ -240,7 +290,7 @@ app.post("/record-mint", async (req, res) => {
         token_id: token_id ?? null,
         contract_address,
         source: "system",
-        quantity: 1,
+        quantity: isEdition ? Number(art.editions_issued ?? 0) : 1,
       });
     } catch {}
 
@@ -261,7 +311,7 @@ app.get("/shipments", async (req, res) => {
 
     const { data, error } = await userClient
       .from("shipments")
-      .select("*")
+      .select("*, shipment_legs(*)")
       .eq("artwork_id", artworkId)
       .order("created_at", { ascending: false });
     if (error) throw error;
@@ -290,22 +340,9 @@ app.post("/shipments", async (req, res) => {
 
     const { data, error } = await serverClient.from("shipments").insert(payload).select("id").single();
     if (error) throw error;
+    await createLegs(data.id, uid, legsFromInput(body.legs), serverClient);
 
-    // notify creator/owner best-effort
-    try {
-      const { data: art } = await serverClient
-        .from("artworks")
-        .select("creator_id, owner_id")
-        .eq("id", payload.artwork_id)
-        .maybeSingle();
-      const note = {
-        type: "shipment_update",
-        payload: { artwork_id: payload.artwork_id, status: payload.status, carrier: payload.carrier, tracking_no: payload.tracking_no },
-      };
-      if (art?.creator_id) await serverClient.from("notifications").insert({ user_id: art.creator_id, ...note });
-      if (art?.owner_id && art.owner_id !== art.creator_id)
-        await serverClient.from("notifications").insert({ user_id: art.owner_id, ...note });
-    } catch {}
+    // creator and owner are notified by the shipments trigger (notification_pipeline migration)
 
     res.json({ id: data.id });
   } catch (e: any) {
@@ -319,7 +356,7 @@ app.get("/me/notifications", async (req, res) => {
   try {
     const { userClient } = await getUserAndClients(req.headers.authorization);
     const since = req.query.since ? new Date(String(req.query.since)) : null;
-    let q = userClient.from("notifications").select("id,type,payload,created_at,read_at").order("created_at", { ascending: false }).limit(50);
+    let q = userClient.from("notifications").select("id,kind,payload,link,created_at,read_at").order("created_at", { ascending: false }).limit(50);
     if (since && !isNaN(since.getTime())) q = q.gt("created_at", since.toISOString());
     const { data, error } = await q;
     if (error) throw error;
@@ -345,7 +382,7 @@ app.post("/qr/register", async (req, res) => {
     if (!art) return res.status(404).send("Artwork not found");
     if ((art as any).creator_id !== uid) return res.status(403).send("Only creator can register QR");
 
-    const secret = (Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2)).slice(0, 28);
+    const secret = newTagSecret();
     const hash = sha256Hex(secret);
 
     await serverClient.from("artworks").update({ qr_secret_hash: hash, tag_status: "bound" }).eq("id", artwork_id);
@@ -392,4 +429,9 @@ app.get("/qr/verify", async (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`API listening on :${PORT}`);
+  startAuctionSweeper(Number(AUCTION_SWEEP_SECONDS) * 1000);
+  startDropOpener(Number(DROP_OPEN_SECONDS) * 1000);
+  startDigestMailer(Number(DIGEST_SECONDS) * 1000);
+  startEscrowReleaser(Number(ESCROW_RELEASE_SECONDS) * 1000);
+  startLicenseScheduler(Number(LICENSE_LIFECYCLE_SECONDS) * 1000);
 });
@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { getProvider, type ProviderId } from "./payments";
+import { orderWei } from "./payments/onchain";
+import { planCharge } from "./currency";
+import { notify } from "./notify";
+
+/**
+ * Auction lifecycle outside the browser (rules and locking live in the auction
+ * engine migration). The sweeper ends auctions past end_at and moves unpaid
+ * awards on to the next bidder; both steps are idempotent and skip rows another
+ * instance is already handling, so every API instance can run it.
+ */
+
+const APP_URL = process.env.APP_URL || "http://localhost:5173";
+
+export class AuctionError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "AuctionError";
+  }
+}
+
+type AwardRow = {
+  id: string;
+  listing_id: string;
+  artwork_id: string;
+  buyer_id: string;
+  seller_id: string;
+  total_amount: number;
+  currency: string;
+  pay_by: string;
+};
+
+async function loadAward(db: SupabaseClient, orderId: string) {
+  const { data, error } = await db
+    .from("orders")
+    .select("id,listing_id,artwork_id,buyer_id,seller_id,total_amount,currency,pay_by")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(`order lookup: ${error.message}`);
+  return data as AwardRow | null;
+}
+
+async function titleOf(db: SupabaseClient, artworkId: string) {
+  const { data } = await db.from("artworks").select("title").eq("id", artworkId).maybeSingle();
+  return data?.title || "the artwork";
+}
+
+async function notifyAward(db: SupabaseClient, award: AwardRow, event: "won" | "passed_to_you") {
+  const title = await titleOf(db, award.artwork_id);
+  const amount = `${Number(award.total_amount)} ${award.currency}`;
+  const payBy = new Date(award.pay_by).toUTCString();
+  const base = { event, listing_id: award.listing_id, artwork_id: award.artwork_id, order_id: award.id, pay_by: award.pay_by };
+  await notify(award.buyer_id, "auction", {
+    ...base,
+    message:
+      event === "won"
+        ? `You won “${title}” for ${amount}. Pay by ${payBy} to keep it.`
+        : `The winner didn't pay: “${title}” is yours for your ${amount} bid. Pay by ${payBy}.`,
+  }, db);
+  await notify(award.seller_id, "auction", {
+    ...base,
+    message: `“${title}” ${event === "won" ? "sold" : "passed to the next bidder"} at ${amount}; awaiting payment`,
+  }, db);
+}
+
+async function notifyNoSale(db: SupabaseClient, listingId: string) {
+  const { data: l } = await db.from("listings").select("artwork_id,seller_id").eq("id", listingId).maybeSingle();
+  if (!l) return;
+  const title = await titleOf(db, l.artwork_id);
+  await notify(l.seller_id, "auction", {
+    event: "no_sale", listing_id: listingId, artwork_id: l.artwork_id,
+    message: `The auction for “${title}” ended without a bid at the reserve`,
+  }, db);
+}
+
+/**
+ * One pass of the sweeper: end due auctions, then lapse awards whose winner
+ * didn't pay by pay_by. Everyone involved is notified.
+ */
+export async function sweepAuctions(limit = 100, db: SupabaseClient = sbAdmin) {
+  const { data: ended, error } = await db.rpc("settle_due_auctions", { p_limit: limit });
+  if (error) throw new Error(`settle_due_auctions: ${error.message}`);
+  for (const row of (ended ?? []) as { listing_id: string; order_id: string | null }[]) {
+    const award = row.order_id ? await loadAward(db, row.order_id) : null;
+    if (award) await notifyAward(db, award, "won");
+    else await notifyNoSale(db, row.listing_id);
+  }
+
+  const { data: lapsed, error: lerr } = await db.rpc("lapse_auction_awards", { p_limit: limit });
+  if (lerr) throw new Error(`lapse_auction_awards: ${lerr.message}`);
+  for (const row of (lapsed ?? []) as {
+    listing_id: string;
+    lapsed_order_id: string;
+    lapsed_buyer_id: string;
+    next_order_id: string | null;
+  }[]) {
+    await notify(row.lapsed_buyer_id, "auction", {
+      event: "lapsed", listing_id: row.listing_id, order_id: row.lapsed_order_id,
+      message: "Your winning bid wasn't paid in time, so the artwork went to the next bidder",
+    }, db);
+    const next = row.next_order_id ? await loadAward(db, row.next_order_id) : null;
+    if (next) await notifyAward(db, next, "passed_to_you");
+    else await notifyNoSale(db, row.listing_id);
+  }
+
+  return { ended: ended?.length ?? 0, lapsed: lapsed?.length ?? 0 };
+}
+
+/**
+ * Run the sweeper in-process every `intervalMs` (0 disables it, e.g. when an
+ * external cron calls POST /admin/auctions/sweep instead). A pass that is still
+ * running when the next tick fires is not overlapped.
+ */
+export function startAuctionSweeper(intervalMs: number) {
+  if (!(intervalMs > 0)) return () => {};
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sweepAuctions();
+    } catch (e: any) {
+      console.error("auction sweep error:", e?.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/** The winner (or the bidder an award passed to) pays through a normal checkout session. */
+export async function payAuctionAward(
+  listingId: string,
+  buyerId: string,
+  providerId?: ProviderId,
+  wallet?: string | null,
+  db: SupabaseClient = sbAdmin
+) {
+  const { data: order, error } = await db
+    .from("orders")
+    .select("id,artwork_id,listing_id,buyer_id,total_amount,currency,pay_by,payment_status,settlement_kind")
+    .eq("listing_id", listingId)
+    .eq("kind", "auction")
+    .eq("buyer_id", buyerId)
+    .eq("payment_status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`order lookup: ${error.message}`);
+  if (!order) throw new AuctionError("you have no unpaid award on this auction", 404);
+  if (order.pay_by && new Date(order.pay_by).getTime() <= Date.now()) {
+    throw new AuctionError("the payment deadline has passed", 410);
+  }
+
+  const { data: listing } = await db.from("listings").select("seller_wallet").eq("id", listingId).maybeSingle();
+  const id = providerId ?? (order.settlement_kind as ProviderId | null) ?? (order.currency === "ETH" ? "onchain" : "stripe");
+  const provider = getProvider(id);
+  if (!provider) throw new AuctionError(`payment provider ${id} not available`);
+  const payerWallet = provider.id === "onchain" ? wallet?.toLowerCase() : null;
+  if (provider.id === "onchain" && !payerWallet) throw new AuctionError("wallet required to pay on-chain");
+
+  // converted at a locked rate when the provider can't charge the order's currency
+  let charge;
+  try {
+    charge = await planCharge(id, Number(order.total_amount), order.currency);
+  } catch (e: any) {
+    console.error("fx quote failed:", e?.message);
+    throw new AuctionError(`no exchange rate for ${order.currency}`, 503);
+  }
+
+  let session;
+  try {
+    session = await provider.createSession({
+      orderId: order.id,
+      buyerId,
+      listingId,
+      artworkId: order.artwork_id,
+      title: await titleOf(db, order.artwork_id),
+      quantity: 1,
+      unitPrice: charge.unitPrice,
+      currency: charge.currency,
+      payTo: listing?.seller_wallet ?? null,
+      payFrom: payerWallet,
+      expiresAt: order.pay_by ? new Date(order.pay_by) : null,
+      successUrl: `${APP_URL}/checkout/success?order_id=${order.id}`,
+      cancelUrl: `${APP_URL}/art/${order.artwork_id}`,
+    });
+  } catch (e: any) {
+    throw new AuctionError(e?.message || "payment provider error", 502);
+  }
+
+  await db
+    .from("orders")
+    .update({
+      settlement_kind: provider.id,
+      charge_currency: charge.currency,
+      charge_amount: charge.unitPrice,
+      ...charge.fx,
+      payer_wallet: payerWallet,
+      amount_wei: provider.id === "onchain" ? orderWei(charge.unitPrice, 1).toString() : null,
+      ...(provider.id === "stripe" ? { stripe_session_id: session.id } : { provider_session_id: session.id }),
+    })
+    .eq("id", order.id);
+
+  return {
+    order_id: order.id,
+    provider: provider.id,
+    pay_by: order.pay_by,
+    checkout_url: session.url,
+    instructions: session.instructions ?? null,
+  };
+}
@@ -0,0 +1,176 @@
+import type { Address, AddressCheck, CarrierProvider, CustomsInfo, Parcel, Rate, RateRequest } from "./types";
+import { convertWeight, roundUp } from "./types";
+
+const AS_API = "https://api.aftership.com/postmen/v3";
+
+// AfterShip Shipping wants ISO 3166-1 alpha-3; we carry alpha-2 everywhere else
+const ALPHA3: Record<string, string> = {
+  US: "USA", CA: "CAN", MX: "MEX", GB: "GBR", IE: "IRL", FR: "FRA", DE: "DEU", NL: "NLD", BE: "BEL",
+  LU: "LUX", ES: "ESP", PT: "PRT", IT: "ITA", CH: "CHE", AT: "AUT", DK: "DNK", SE: "SWE", NO: "NOR",
+  FI: "FIN", PL: "POL", CZ: "CZE", GR: "GRC", AU: "AUS", NZ: "NZL", JP: "JPN", KR: "KOR", CN: "CHN",
+  HK: "HKG", TW: "TWN", SG: "SGP", IN: "IND", AE: "ARE", IL: "ISR", BR: "BRA", AR: "ARG", ZA: "ZAF",
+};
+
+function alpha3(country: string) {
+  const c = country.trim().toUpperCase();
+  if (c.length === 3) return c;
+  const out = ALPHA3[c];
+  if (!out) throw new Error(`aftership: unsupported country ${c}`);
+  return out;
+}
+
+function toAsAddress(a: Address) {
+  return {
+    contact_name: a.name,
+    company_name: a.company ?? undefined,
+    street1: a.street1,
+    street2: a.street2 ?? undefined,
+    city: a.city,
+    state: a.state ?? undefined,
+    postal_code: a.zip,
+    country: alpha3(a.country),
+    phone: a.phone ?? undefined,
+    email: a.email ?? undefined,
+  };
+}
+
+function toAsParcel(p: Parcel, description: string, customs?: CustomsInfo | null) {
+  const metric = p.dimUnit === "cm";
+  const weight = { value: roundUp(convertWeight(p.weight, p.weightUnit, metric ? "kg" : "lb")), unit: metric ? "kg" : "lb" };
+  const item = customs
+    ? {
+        description: customs.description.slice(0, 255),
+        quantity: 1,
+        price: { amount: customs.value.amount, currency: customs.value.currency },
+        weight,
+        hs_code: customs.hsCode,
+        origin_country: alpha3(customs.originCountry),
+      }
+    : { description, quantity: 1, price: { amount: 0, currency: "USD" }, weight };
+  return {
+    box_type: "custom",
+    description,
+    dimension: {
+      width: roundUp(p.width),
+      height: roundUp(p.height),
+      depth: roundUp(p.length),
+      unit: p.dimUnit,
+    },
+    weight,
+    items: [item],
+  };
+}
+
+/**
+ * AfterShip Shipping (formerly Postmen): rates and labels across the carrier
+ * accounts connected in its dashboard. Rates aren't stored there, so buying
+ * re-sends the shipment with the chosen account and service.
+ */
+export function createAfterShipProvider(apiKey: string, shipperAccounts: string[]): CarrierProvider {
+  async function call(path: string, body: unknown) {
+    const res = await fetch(`${AS_API}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "as-api-key": apiKey },
+      body: JSON.stringify(body),
+    });
+    const json: any = await res.json().catch(() => ({}));
+    if (!res.ok || (json?.meta?.code && json.meta.code >= 300)) {
+      throw new Error(`aftership ${path} failed: ${json?.meta?.message ?? res.status}`);
+    }
+    return json?.data ?? {};
+  }
+
+  const shipment = (input: RateRequest) => ({
+    ship_from: toAsAddress(input.from),
+    ship_to: toAsAddress(input.to),
+    parcels: [toAsParcel(input.parcel, input.description, input.customs)],
+  });
+
+  // insurance is a service option on both the rate and the label request
+  const options = (input: RateRequest) =>
+    input.insurance
+      ? { service_options: [{ type: "insurance", insured_value: { amount: input.insurance.amount, currency: input.insurance.currency } }] }
+      : {};
+
+  const insuranceCharge = (r: any) => {
+    const line = (r?.detailed_charges ?? []).find((c: any) => c?.type === "insurance");
+    return line?.charge?.amount != null ? Number(line.charge.amount) : null;
+  };
+
+  return {
+    id: "aftership",
+
+    async validateAddress(address): Promise<AddressCheck> {
+      const out = await call("/address-validations", { address: toAsAddress(address) });
+      const a = out?.address ?? {};
+      return {
+        valid: out?.status === "valid" || out?.status === "valid_with_changes",
+        address: {
+          ...address,
+          street1: a.street1 ?? address.street1,
+          street2: a.street2 ?? address.street2 ?? null,
+          city: a.city ?? address.city,
+          state: a.state ?? address.state ?? null,
+          zip: a.postal_code ?? address.zip,
+        },
+        messages: out?.status && out.status !== "valid" ? [String(out.status).replace(/_/g, " ")] : [],
+      };
+    },
+
+    async quoteRates(input) {
+      if (!shipperAccounts.length) throw new Error("AFTERSHIP_SHIPPER_ACCOUNTS not set");
+      const out = await call("/rates", {
+        shipper_accounts: shipperAccounts.map((id) => ({ id })),
+        shipment: shipment(input),
+        ...options(input),
+      });
+      return (out?.rates ?? [])
+        .filter((r: any) => r?.total_charge && !r?.error_message)
+        .map(
+          (r: any): Rate => ({
+            id: `${r.shipper_account.id}:${r.service_type}`,
+            provider: "aftership",
+            carrier: String(r.shipper_account.description ?? r.shipper_account.slug),
+            carrierSlug: r.shipper_account.slug ?? null,
+            service: String(r.service_name ?? r.service_type),
+            amount: Number(r.total_charge.amount),
+            currency: String(r.total_charge.currency),
+            days: r.transit_time ?? null,
+            deliveryDate: r.delivery_date ?? null,
+            insuranceCost: input.insurance ? insuranceCharge(r) : null,
+            ref: { shipper_account_id: String(r.shipper_account.id), service_type: String(r.service_type) },
+          })
+        );
+    },
+
+    async buyLabel(input) {
+      const { shipper_account_id, service_type } = input.rate.ref;
+      if (!shipper_account_id || !service_type) throw new Error("aftership rate is missing its account");
+      const out = await call("/labels", {
+        shipper_account: { id: shipper_account_id },
+        service_type,
+        shipment: shipment(input),
+        ...options(input),
+        ...(input.customs ? { customs: { purpose: "merchandise", terms_of_trade: "ddu" } } : {}),
+        references: [input.reference],
+        paper_size: "4x6",
+        file_type: "pdf",
+        return_shipment: false,
+        is_document: false,
+      });
+      const charge = out?.rate?.total_charge ?? {};
+      return {
+        providerShipmentId: String(out.id),
+        trackingNumber: String((out.tracking_numbers ?? [])[0] ?? ""),
+        carrier: input.rate.carrier,
+        carrierSlug: input.rate.carrierSlug,
+        service: input.rate.service,
+        amount: Number(charge.amount ?? input.rate.amount),
+        currency: String(charge.currency ?? input.rate.currency),
+        insuranceCost: input.insurance ? (insuranceCharge(out?.rate) ?? input.rate.insuranceCost) : null,
+        estimatedDelivery: out?.rate?.delivery_date ?? input.rate.deliveryDate,
+        labelUrl: out?.files?.label?.url ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type { Address, AddressCheck, CarrierProvider, CustomsInfo, Money, Parcel, Rate } from "./types";
+import { convertLength, convertWeight, roundUp } from "./types";
+
+const EP_API = "https://api.easypost.com/v2";
+
+// EasyPost bills its shipment insurance as a share of the insured value, with a
+// floor; quotes show this estimate, labels record the fee actually charged
+const EP_INSURANCE_RATE = 0.005;
+const EP_INSURANCE_MIN = 1;
+
+const insuranceEstimate = (value: Money) =>
+  Math.round(Math.max(EP_INSURANCE_MIN, value.amount * EP_INSURANCE_RATE) * 100) / 100;
+
+/** The insurance line of a bought shipment's fees, if any. */
+function insuranceFee(shipment: any): number | null {
+  const fee = (shipment?.fees ?? []).find((f: any) => f?.type === "InsuranceFee" && f?.charged !== false);
+  return fee ? Number(fee.amount) : null;
+}
+
+function toEpAddress(a: Address) {
+  return {
+    name: a.name,
+    company: a.company ?? undefined,
+    street1: a.street1,
+    street2: a.street2 ?? undefined,
+    city: a.city,
+    state: a.state ?? undefined,
+    zip: a.zip,
+    country: a.country,
+    phone: a.phone ?? undefined,
+    email: a.email ?? undefined,
+  };
+}
+
+function fromEpAddress(a: any, fallback: Address): Address {
+  return {
+    name: a?.name ?? fallback.name,
+    company: a?.company ?? fallback.company ?? null,
+    street1: a?.street1 ?? fallback.street1,
+    street2: a?.street2 ?? fallback.street2 ?? null,
+    city: a?.city ?? fallback.city,
+    state: a?.state ?? fallback.state ?? null,
+    zip: a?.zip ?? fallback.zip,
+    country: a?.country ?? fallback.country,
+    phone: a?.phone ?? fallback.phone ?? null,
+    email: a?.email ?? fallback.email ?? null,
+  };
+}
+
+// EasyPost parcels are inches and ounces only
+function toEpParcel(p: Parcel) {
+  return {
+    length: roundUp(convertLength(p.length, p.dimUnit, "in")),
+    width: roundUp(convertLength(p.width, p.dimUnit, "in")),
+    height: roundUp(convertLength(p.height, p.dimUnit, "in")),
+    weight: roundUp(convertWeight(p.weight, p.weightUnit, "oz")),
+  };
+}
+
+function toEpCustoms(c: CustomsInfo, p: Parcel) {
+  return {
+    contents_type: "merchandise",
+    contents_explanation: c.description,
+    customs_certify: true,
+    customs_signer: c.signer,
+    non_delivery_option: "return",
+    restriction_type: "none",
+    eel_pfc: "NOEEI 30.37(a)",
+    customs_items: [
+      {
+        description: c.description.slice(0, 255),
+        quantity: 1,
+        value: c.value.amount,
+        currency: c.value.currency,
+        weight: roundUp(convertWeight(p.weight, p.weightUnit, "oz")),
+        hs_tariff_number: c.hsCode.replace(/\D/g, ""),
+        origin_country: c.originCountry,
+      },
+    ],
+  };
+}
+
+/** EasyPost: one Shipment object carries the rates; buying picks one of them. */
+export function createEasyPostProvider(apiKey: string): CarrierProvider {
+  const auth = `Basic ${Buffer.from(`${apiKey}:`).toString("base64")}`;
+
+  async function call(path: string, body: unknown) {
+    const res = await fetch(`${EP_API}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: auth },
+      body: JSON.stringify(body),
+    });
+    const json: any = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`easypost ${path} failed: ${json?.error?.message ?? res.status}`);
+    return json;
+  }
+
+  return {
+    id: "easypost",
+
+    async validateAddress(address): Promise<AddressCheck> {
+      const out = await call("/addresses", { address: toEpAddress(address), verify: ["delivery"] });
+      const delivery = out?.verifications?.delivery;
+      return {
+        valid: !!delivery?.success,
+        address: fromEpAddress(out, address),
+        messages: (delivery?.errors ?? []).map((e: any) => String(e?.message ?? e)),
+      };
+    },
+
+    async quoteRates(input) {
+      const shipment = await call("/shipments", {
+        shipment: {
+          from_address: toEpAddress(input.from),
+          to_address: toEpAddress(input.to),
+          parcel: toEpParcel(input.parcel),
+          customs_info: input.customs ? toEpCustoms(input.customs, input.parcel) : undefined,
+          options: { label_format: "PDF" },
+        },
+      });
+      const insuranceCost = input.insurance ? insuranceEstimate(input.insurance) : null;
+      return (shipment?.rates ?? []).map(
+        (r: any): Rate => ({
+          id: String(r.id),
+          provider: "easypost",
+          carrier: String(r.carrier),
+          carrierSlug: r.carrier ? String(r.carrier).toLowerCase() : null,
+          service: String(r.service),
+          amount: Number(r.rate),
+          currency: String(r.currency || "USD"),
+          days: r.delivery_days ?? r.est_delivery_days ?? null,
+          deliveryDate: r.delivery_date ?? null,
+          insuranceCost,
+          ref: { shipment_id: String(shipment.id) },
+        })
+      );
+    },
+
+    async buyLabel({ rate, insurance }) {
+      const shipmentId = rate.ref.shipment_id;
+      if (!shipmentId) throw new Error("easypost rate is missing its shipment");
+      const bought = await call(`/shipments/${shipmentId}/buy`, {
+        rate: { id: rate.id },
+        insurance: insurance ? insurance.amount.toFixed(2) : undefined,
+      });
+      const selected = bought?.selected_rate ?? {};
+      return {
+        providerShipmentId: String(bought.id),
+        trackingNumber: String(bought.tracking_code),
+        carrier: String(selected.carrier ?? rate.carrier),
+        carrierSlug: rate.carrierSlug,
+        service: String(selected.service ?? rate.service),
+        amount: Number(selected.rate ?? rate.amount),
+        currency: String(selected.currency ?? rate.currency),
+        insuranceCost: insurance ? (insuranceFee(bought) ?? rate.insuranceCost) : null,
+        estimatedDelivery: bought?.tracker?.est_delivery_date ?? rate.deliveryDate,
+        labelUrl: bought?.postage_label?.label_pdf_url ?? bought?.postage_label?.label_url ?? null,
+      };
+    },
+
+    async insure(providerShipmentId, value) {
+      const insured = await call(`/shipments/${providerShipmentId}/insure`, { amount: value.amount.toFixed(2) });
+      return { cost: insuranceFee(insured) ?? insuranceEstimate(value), currency: "USD" };
+    },
+  };
+}
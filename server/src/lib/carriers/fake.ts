@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import type { CarrierProvider, Money, Rate } from "./types";
+import { convertLength, convertWeight } from "./types";
+import { textPdf } from "../pdf";
+
+// 1% of the insured value, at least 1
+const insuranceFor = (value: Money) => Math.round(Math.max(1, value.amount * 0.01) * 100) / 100;
+
+// 4x6 inch thermal label
+const LABEL_PAGE = { width: 288, height: 432, fontSize: 14 };
+
+/**
+ * Offline carrier: every address validates, rates scale with the parcel's
+ * billable weight, and labels are generated locally with a FAKE tracking number.
+ */
+export function createFakeCarrier(): CarrierProvider {
+  return {
+    id: "fake",
+
+    async validateAddress(address) {
+      const messages = [!address.street1.trim() && "street is required", !address.zip.trim() && "postal code is required"]
+        .filter(Boolean) as string[];
+      return { valid: messages.length === 0, address, messages };
+    },
+
+    async quoteRates({ parcel, insurance }) {
+      // dimensional weight (L×W×H / 5000 cm³ per kg) when the box is bulkier than it is heavy
+      const cm = (v: number) => convertLength(v, parcel.dimUnit, "cm");
+      const dimKg = (cm(parcel.length) * cm(parcel.width) * cm(parcel.height)) / 5000;
+      const kg = Math.max(dimKg, convertWeight(parcel.weight, parcel.weightUnit, "kg"));
+      const services: [string, number, number][] = [
+        ["Ground", 8, 5],
+        ["Express", 18, 2],
+      ];
+      const shipmentId = `fake_shp_${crypto.randomUUID()}`;
+      return services.map(
+        ([service, perKg, days]): Rate => ({
+          id: `fake_rate_${service.toLowerCase()}`,
+          provider: "fake",
+          carrier: "FakeCarrier",
+          carrierSlug: "fake",
+          service,
+          amount: Math.round((5 + perKg * kg) * 100) / 100,
+          currency: "USD",
+          days,
+          deliveryDate: null,
+          insuranceCost: insurance ? insuranceFor(insurance) : null,
+          ref: { shipment_id: shipmentId },
+        })
+      );
+    },
+
+    async buyLabel({ rate, from, to, reference, insurance, customs }) {
+      const trackingNumber = `FAKE${crypto.randomBytes(6).toString("hex").toUpperCase()}`;
+      const pdf = textPdf(
+        [
+          `${rate.carrier} ${rate.service}`,
+          `TRACKING ${trackingNumber}`,
+          "",
+          `FROM ${from.name}`,
+          `${from.city} ${from.zip} ${from.country}`,
+          "",
+          `TO ${to.name}`,
+          to.street1,
+          `${to.city} ${to.state ?? ""} ${to.zip} ${to.country}`,
+          "",
+          `REF ${reference}`,
+          ...(insurance ? [`INSURED ${insurance.amount} ${insurance.currency}`] : []),
+          ...(customs ? [`CUSTOMS HS ${customs.hsCode} ${customs.value.amount} ${customs.value.currency}`] : []),
+        ],
+        LABEL_PAGE
+      );
+      return {
+        providerShipmentId: rate.ref.shipment_id,
+        trackingNumber,
+        carrier: rate.carrier,
+        carrierSlug: rate.carrierSlug,
+        service: rate.service,
+        amount: rate.amount,
+        currency: rate.currency,
+        insuranceCost: insurance ? insuranceFor(insurance) : null,
+        estimatedDelivery: rate.days ? new Date(Date.now() + rate.days * 86_400_000).toISOString().slice(0, 10) : null,
+        pdf,
+      };
+    },
+
+    async insure(_providerShipmentId, value) {
+      return { cost: insuranceFor(value), currency: value.currency };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { createEasyPostProvider } from "./easypost";
+import { createAfterShipProvider } from "./aftership";
+import { createFakeCarrier } from "./fake";
+import type { CarrierProvider, CarrierProviderId } from "./types";
+
+export * from "./types";
+
+const { EASYPOST_API_KEY = "", AFTERSHIP_API_KEY = "", AFTERSHIP_SHIPPER_ACCOUNTS = "", ENABLE_FAKE_CARRIER } = process.env;
+
+const carriers = new Map<CarrierProviderId, CarrierProvider>();
+
+// Same rule as payments: no credentials, no provider; the label form offers what's registered.
+if (EASYPOST_API_KEY) carriers.set("easypost", createEasyPostProvider(EASYPOST_API_KEY));
+if (AFTERSHIP_API_KEY) {
+  const accounts = AFTERSHIP_SHIPPER_ACCOUNTS.split(",").map((s) => s.trim()).filter(Boolean);
+  carriers.set("aftership", createAfterShipProvider(AFTERSHIP_API_KEY, accounts));
+}
+if (ENABLE_FAKE_CARRIER === "1") carriers.set("fake", createFakeCarrier());
+
+/** The named provider, or the first registered one when no name is given. */
+export function getCarrier(id?: string | null): CarrierProvider | null {
+  if (id) return carriers.get(id as CarrierProviderId) ?? null;
+  return carriers.values().next().value ?? null;
+}
+
+export function listCarriers(): CarrierProviderId[] {
+  return [...carriers.keys()];
+}
+
+/** Swap or add a provider at runtime (used to plug the fake in for offline runs). */
+export function registerCarrier(provider: CarrierProvider) {
+  carriers.set(provider.id, provider);
+}
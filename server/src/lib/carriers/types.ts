@@ -0,0 +1,127 @@
+/** Outbound shipping integrations; inbound tracking stays in the carrier-webhook function. */
+export type CarrierProviderId = "easypost" | "aftership" | "fake";
+
+export type Address = {
+  name: string;
+  company?: string | null;
+  street1: string;
+  street2?: string | null;
+  city: string;
+  state?: string | null;         // region / province where the country has them
+  zip: string;
+  country: string;               // ISO 3166-1 alpha-2
+  phone?: string | null;
+  email?: string | null;
+};
+
+export type AddressCheck = {
+  valid: boolean;
+  /** The carrier's normalized form (casing, ZIP+4…); the input when it has none. */
+  address: Address;
+  messages: string[];
+};
+
+export type DimUnit = "in" | "cm";
+export type WeightUnit = "oz" | "lb" | "g" | "kg";
+
+/** One box, packed; dimensions already include packaging. */
+export type Parcel = {
+  length: number;
+  width: number;
+  height: number;
+  dimUnit: DimUnit;
+  weight: number;
+  weightUnit: WeightUnit;
+};
+
+export type Money = { amount: number; currency: string };
+
+/** Customs declaration for a shipment that crosses a border (one item: the artwork). */
+export type CustomsInfo = {
+  description: string;
+  hsCode: string;
+  originCountry: string;         // ISO 3166-1 alpha-2
+  value: Money;
+  /** Who certifies the declaration (the sender's name). */
+  signer: string;
+};
+
+export type RateRequest = {
+  from: Address;
+  to: Address;
+  parcel: Parcel;
+  /** What's in the box, for the carrier manifest. */
+  description: string;
+  /** Insure for this declared value; rates then carry insuranceCost. */
+  insurance?: Money | null;
+  customs?: CustomsInfo | null;
+};
+
+export type Rate = {
+  /** Provider-side rate id (or a synthetic one when the provider has none). */
+  id: string;
+  provider: CarrierProviderId;
+  carrier: string;               // display name, e.g. "USPS"
+  /** Carrier slug as the tracking webhook reports it (shipments.tracking_slug). */
+  carrierSlug: string | null;
+  service: string;
+  amount: number;
+  currency: string;
+  days: number | null;
+  deliveryDate: string | null;   // ISO date when the carrier commits to one
+  /** Insurance on top of `amount` when the request asked for it (provider's price or estimate). */
+  insuranceCost: number | null;
+  /** Whatever the provider needs to buy this exact rate later (never sent to clients). */
+  ref: Record<string, string>;
+};
+
+export type LabelRequest = RateRequest & {
+  rate: Rate;
+  /** Our quote id; providers that take one attach it as the shipment reference. */
+  reference: string;
+};
+
+export type Label = {
+  providerShipmentId: string;
+  trackingNumber: string;
+  carrier: string;
+  carrierSlug: string | null;
+  service: string;
+  amount: number;
+  currency: string;
+  /** What the provider actually billed for insurance, when insured. */
+  insuranceCost: number | null;
+  estimatedDelivery: string | null;
+  /** PDF bytes when the provider returns them inline, else a URL to fetch them from. */
+  pdf?: Buffer;
+  labelUrl?: string | null;
+};
+
+export interface CarrierProvider {
+  readonly id: CarrierProviderId;
+  validateAddress(address: Address): Promise<AddressCheck>;
+  quoteRates(input: RateRequest): Promise<Rate[]>;
+  /** Buys postage for a rate returned by quoteRates. Money is spent once this resolves. */
+  buyLabel(input: LabelRequest): Promise<Label>;
+  /**
+   * Insure a label already bought. Providers without it (AfterShip) only
+   * insure at purchase time, through LabelRequest.insurance.
+   */
+  insure?(providerShipmentId: string, value: Money): Promise<{ cost: number; currency: string }>;
+}
+
+const TO_CM: Record<DimUnit, number> = { in: 2.54, cm: 1 };
+const TO_G: Record<WeightUnit, number> = { oz: 28.349523125, lb: 453.59237, g: 1, kg: 1000 };
+
+export function convertLength(value: number, from: DimUnit, to: DimUnit) {
+  return (value * TO_CM[from]) / TO_CM[to];
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit) {
+  return (value * TO_G[from]) / TO_G[to];
+}
+
+/** Carriers price by the next tenth up; never quote a zero dimension. */
+export function roundUp(value: number) {
+  return Math.max(0.1, Math.ceil(value * 10) / 10);
+}
@@ -0,0 +1,231 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+
+/**
+ * NFC/QR chip lifecycle (rules live in the chip_lifecycle migration): support
+ * enrolls manufacturer batches, the creator binds a chip while creating a
+ * physical work, bound chips follow the artwork to each new owner, and the owner
+ * revokes or replaces a lost tag. verify-chip checks scans against the result.
+ */
+
+export class ChipError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ChipError";
+  }
+}
+
+export type ChipKind = "nfc" | "qr";
+export type ChipStatus = "unassigned" | "bound" | "revoked";
+
+/** What owners see of a chip; secrets never leave the server except at enrollment/rotation. */
+export type ChipRow = {
+  id: string;
+  tag_id: string;
+  kind: ChipKind;
+  status: ChipStatus;
+  counter: number;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+  replaced_by: string | null;
+};
+
+const CHIP_COLS = "id,tag_id,kind,status,counter,revoked_at,revoke_reason,replaced_by";
+
+/** The chips row the functions return, without its secret. */
+function visible(row: ChipRow & { secret?: string | null }): ChipRow {
+  const { id, tag_id, kind, status, counter, revoked_at, revoke_reason, replaced_by } = row;
+  return { id, tag_id, kind, status, counter, revoked_at, revoke_reason, replaced_by };
+}
+
+/** HMAC key (or QR code) for a tag: 32 bytes from the CSPRNG, hex. */
+export function newTagSecret(bytes = 32) {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+/** Database refusals: who may act → 403, missing rows → 404, the rest is a state conflict. */
+function rpcFail(message: string): ChipError {
+  if (/^Only /i.test(message)) return new ChipError(message, 403);
+  if (/not found/i.test(message)) return new ChipError(message, 404);
+  return new ChipError(message, 409);
+}
+
+/* ---------------- enrollment ---------------- */
+
+export type EnrollRow = { tag_id: string; secret?: string; public_key?: string; counter?: number };
+
+const HEADER_ALIASES: Record<string, keyof EnrollRow> = {
+  tag_id: "tag_id",
+  tag: "tag_id",
+  uid: "tag_id",
+  secret: "secret",
+  key: "secret",
+  hmac_key: "secret",
+  public_key: "public_key",
+  pubkey: "public_key",
+  counter: "counter",
+  ctr: "counter",
+};
+
+/** One CSV line; quoted fields may hold commas and doubled quotes. */
+function splitCsvLine(line: string) {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+/**
+ * Manufacturer CSV → rows. Needs a header with a tag column (tag_id, tag or
+ * uid); secret/key, public_key and counter are optional. Throws a ChipError
+ * naming the first bad line.
+ */
+export function parseChipCsv(csv: string): EnrollRow[] {
+  const lines = csv.split(/\r?\n/).filter((l) => l.trim() && !l.trim().startsWith("#"));
+  if (lines.length < 2) throw new ChipError("CSV needs a header row and at least one chip");
+
+  const header = splitCsvLine(lines[0]).map((h) => HEADER_ALIASES[h.toLowerCase().replace(/\s+/g, "_")]);
+  if (!header.includes("tag_id")) throw new ChipError("CSV header has no tag_id column");
+
+  return lines.slice(1).map((line, i) => {
+    const row: EnrollRow = { tag_id: "" };
+    splitCsvLine(line).forEach((value, col) => {
+      const key = header[col];
+      if (!key || !value) return;
+      if (key === "counter") {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 0) throw new ChipError(`line ${i + 2}: counter must be a whole number`);
+        row.counter = n;
+      } else row[key] = value;
+    });
+    if (!/^[\w:.-]{4,128}$/.test(row.tag_id)) throw new ChipError(`line ${i + 2}: bad or missing tag id`);
+    if (row.secret && row.secret.length < 32) throw new ChipError(`line ${i + 2}: secret is shorter than 32 characters`);
+    return row;
+  });
+}
+
+/**
+ * Enroll a batch. Rows without a secret get one from the CSPRNG; those are
+ * returned once in `secrets` so the tags can be programmed.
+ */
+export async function enrollChips(
+  input: { manufacturer: string; label?: string | null; kind?: ChipKind; csv: string },
+  db: SupabaseClient = sbAdmin
+) {
+  const rows = parseChipCsv(input.csv);
+  const generated: { tag_id: string; secret: string }[] = [];
+  const chips = rows.map((r) => {
+    if (r.secret || r.public_key) return r;
+    const secret = newTagSecret();
+    generated.push({ tag_id: r.tag_id, secret });
+    return { ...r, secret };
+  });
+
+  const { data, error } = await db.rpc("enroll_chip_batch", {
+    p_manufacturer: input.manufacturer,
+    p_label: input.label ?? null,
+    p_kind: input.kind ?? "nfc",
+    p_chips: chips,
+  });
+  if (error) throw rpcFail(error.message);
+
+  const result = data as { batch_id: string; enrolled: number; skipped: string[] };
+  const skipped = new Set(result.skipped);
+  return { ...result, secrets: generated.filter((g) => !skipped.has(g.tag_id)) };
+}
+
+/* ---------------- binding ---------------- */
+
+export async function bindChip(tagId: string, artworkId: string, actorId: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("bind_chip", { p_tag_id: tagId, p_artwork_id: artworkId, p_actor: actorId });
+  if (error) throw rpcFail(error.message);
+  return visible(data as ChipRow);
+}
+
+export async function unbindChip(chipId: string, actorId: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("unbind_chip", { p_chip_id: chipId, p_actor: actorId });
+  if (error) throw rpcFail(error.message);
+  return visible(data as ChipRow);
+}
+
+/** `actorId` null is support. */
+export async function revokeChip(
+  chipId: string,
+  actorId: string | null,
+  reason: string | null,
+  db: SupabaseClient = sbAdmin
+) {
+  const { data, error } = await db.rpc("revoke_chip", { p_chip_id: chipId, p_actor: actorId, p_reason: reason });
+  if (error) throw rpcFail(error.message);
+  return visible(data as ChipRow);
+}
+
+/** Revokes `chipId` and binds the enrolled `newTagId` in its place; returns the new chip. */
+export async function replaceChip(
+  chipId: string,
+  newTagId: string,
+  actorId: string | null,
+  reason: string | null,
+  db: SupabaseClient = sbAdmin
+) {
+  const { data, error } = await db.rpc("replace_chip", {
+    p_chip_id: chipId,
+    p_new_tag_id: newTagId,
+    p_actor: actorId,
+    p_reason: reason,
+  });
+  if (error) throw rpcFail(error.message);
+  return visible(data as ChipRow);
+}
+
+/** Support: new key for a reprogrammable tag. The secret is returned once. */
+export async function rotateChipSecret(chipId: string, db: SupabaseClient = sbAdmin) {
+  const secret = newTagSecret();
+  const { data, error } = await db.rpc("rotate_chip_secret", { p_chip_id: chipId, p_secret: secret });
+  if (error) throw rpcFail(error.message);
+  return { chip: visible(data as ChipRow), secret };
+}
+
+/** The chips on an artwork and their history, for its owner or creator. */
+export async function artworkChips(artworkId: string, viewerId: string, db: SupabaseClient = sbAdmin) {
+  const { data: art, error: aerr } = await db
+    .from("artworks")
+    .select("id,owner_id,creator_id")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (aerr) throw new Error(`artwork lookup: ${aerr.message}`);
+  if (!art) throw new ChipError("artwork not found", 404);
+  if (viewerId !== art.owner_id && viewerId !== art.creator_id) throw new ChipError("not your artwork", 403);
+
+  const [{ data: links, error: lerr }, { data: events, error: eerr }] = await Promise.all([
+    db.from("chip_artworks").select(`bound_at,owner_id,chips(${CHIP_COLS})`).eq("artwork_id", artworkId),
+    db
+      .from("chip_events")
+      .select("id,chip_id,event,actor_id,from_owner_id,to_owner_id,note,created_at,chips(tag_id)")
+      .eq("artwork_id", artworkId)
+      .order("created_at", { ascending: false })
+      .limit(100),
+  ]);
+  if (lerr || eerr) throw new Error(`chip lookup: ${(lerr ?? eerr)!.message}`);
+
+  return {
+    chips: (links ?? []).map((l: any) => ({ ...l.chips, bound_at: l.bound_at })) as (ChipRow & { bound_at: string })[],
+    events: events ?? [],
+  };
+}
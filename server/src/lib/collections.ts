@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { decodeEventLog, getAddress, isAddress, parseAbi, type Hex } from "viem";
+import { sbAdmin } from "./supabase";
+import { createHttpRpc, type EthLog, type EthRpc } from "./payments/ethVerifier";
+
+/**
+ * Per-collection contracts. The creator's wallet calls
+ * TaedalCollectionFactory.deployCollection(name, symbol) and hands us the tx
+ * hash; we only record a contract once its receipt shows the factory's
+ * CollectionDeployed event for this collection's name and symbol.
+ *   pending    tx known, not mined / not confirmed yet
+ *   deployed   contract_address + owner_wallet set
+ *   failed     reverted, or the tx didn't deploy this collection
+ */
+
+const SEPOLIA_CHAIN_ID = 11155111;
+const CHAIN_ID = process.env.ONCHAIN_CHAIN_ID ? Number(process.env.ONCHAIN_CHAIN_ID) : SEPOLIA_CHAIN_ID;
+const FACTORY = process.env.COLLECTION_FACTORY_ADDRESS || "";
+const CONFIRMATIONS = Number(process.env.ETH_MIN_CONFIRMATIONS || 2);
+
+const FACTORY_ABI = parseAbi([
+  "event CollectionDeployed(address indexed collection, address indexed owner, string name, string symbol)",
+]);
+
+export type CollectionContract = {
+  id: string;
+  owner_id: string;
+  name: string;
+  symbol: string | null;
+  chain_id: number | null;
+  contract_address: string | null;
+  owner_wallet: string | null;
+  deploy_tx_hash: string | null;
+  deploy_status: "pending" | "deployed" | "failed" | null;
+  deploy_error: string | null;
+  deployed_at: string | null;
+};
+
+const COLS = "id,owner_id,name,symbol,chain_id,contract_address,owner_wallet,deploy_tx_hash,deploy_status,deploy_error,deployed_at";
+
+/** Carries the HTTP status the route should answer with. */
+export class CollectionDeployError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "CollectionDeployError";
+  }
+}
+
+function factoryAddress() {
+  if (!isAddress(FACTORY)) throw new CollectionDeployError("collection deploys are not configured (COLLECTION_FACTORY_ADDRESS)", 503);
+  return getAddress(FACTORY);
+}
+
+function defaultRpc() {
+  if (!process.env.ETH_RPC_URL) throw new CollectionDeployError("on-chain verification is not configured (ETH_RPC_URL)", 503);
+  return createHttpRpc(process.env.ETH_RPC_URL);
+}
+
+const hexToNumber = (h: string | null | undefined) => (h ? Number(BigInt(h)) : 0);
+
+/** The factory's CollectionDeployed event in these logs, if any. */
+export function findDeployment(logs: EthLog[], factory = factoryAddress()) {
+  for (const log of logs) {
+    if (String(log.address).toLowerCase() !== factory.toLowerCase()) continue;
+    try {
+      const ev = decodeEventLog({ abi: FACTORY_ABI, data: log.data as Hex, topics: log.topics as [Hex, ...Hex[]] });
+      return {
+        collection: ev.args.collection.toLowerCase(),
+        owner: ev.args.owner.toLowerCase(),
+        name: ev.args.name,
+        symbol: ev.args.symbol,
+      };
+    } catch {
+      // not a CollectionDeployed log
+    }
+  }
+  return null;
+}
+
+async function loadCollection(db: SupabaseClient, collectionId: string) {
+  const { data, error } = await db.from("collections").select(COLS).eq("id", collectionId).maybeSingle();
+  if (error) throw new Error(`collection lookup: ${error.message}`);
+  if (!data) throw new CollectionDeployError("collection not found", 404);
+  return data as CollectionContract;
+}
+
+async function update(db: SupabaseClient, collectionId: string, patch: Partial<CollectionContract>) {
+  const { data, error } = await db.from("collections").update(patch).eq("id", collectionId).select(COLS).single();
+  if (error) throw new CollectionDeployError(error.message, 409);
+  return data as CollectionContract;
+}
+
+/**
+ * Record the owner's deploy tx and check it on-chain. Returns the collection
+ * with deploy_status "pending" until the tx has ETH_MIN_CONFIRMATIONS; call
+ * again to finish. A collection that already has a contract is returned as is.
+ */
+export async function confirmCollectionDeploy(
+  collectionId: string,
+  ownerId: string,
+  txHash: string,
+  db: SupabaseClient = sbAdmin,
+  rpc: EthRpc = defaultRpc()
+): Promise<CollectionContract> {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) throw new CollectionDeployError("invalid tx hash");
+  const hash = txHash.toLowerCase();
+  const factory = factoryAddress();
+
+  let col = await loadCollection(db, collectionId);
+  if (col.owner_id !== ownerId) throw new CollectionDeployError("not your collection", 403);
+  if (col.deploy_status === "deployed") return col;
+  if (!col.symbol) throw new CollectionDeployError("collection has no token symbol", 409);
+  if (col.deploy_status === "pending" && col.deploy_tx_hash && col.deploy_tx_hash !== hash) {
+    throw new CollectionDeployError("another deploy tx is pending for this collection", 409);
+  }
+  if (col.deploy_tx_hash !== hash || col.deploy_status !== "pending") {
+    // unique deploy_tx_hash: one tx can't be claimed by two collections
+    col = await update(db, collectionId, {
+      chain_id: CHAIN_ID,
+      deploy_tx_hash: hash,
+      deploy_status: "pending",
+      deploy_error: null,
+    });
+  }
+
+  const [chainIdHex, tx] = await Promise.all([
+    rpc.request<string>("eth_chainId"),
+    rpc.request<any>("eth_getTransactionByHash", [hash]),
+  ]);
+  const failed = (reason: string) => update(db, collectionId, { deploy_status: "failed", deploy_error: reason });
+
+  if (hexToNumber(chainIdHex) !== CHAIN_ID) throw new CollectionDeployError("rpc node is on the wrong chain", 503);
+  if (!tx?.blockNumber) return col;
+  if (String(tx.to ?? "").toLowerCase() !== factory.toLowerCase()) return failed("tx was not sent to the collection factory");
+
+  const receipt = await rpc.request<any>("eth_getTransactionReceipt", [hash]);
+  if (!receipt) return col;
+  if (hexToNumber(receipt.status) !== 1) return failed("deploy tx reverted");
+
+  const head = hexToNumber(await rpc.request<string>("eth_blockNumber"));
+  if (head - hexToNumber(receipt.blockNumber) + 1 < CONFIRMATIONS) return col;
+
+  const ev = findDeployment((receipt.logs ?? []) as EthLog[], factory);
+  if (!ev) return failed("no CollectionDeployed event in the tx");
+  if (ev.name !== col.name || ev.symbol !== col.symbol) return failed("deployed name/symbol don't match the collection");
+  if (ev.owner !== String(tx.from).toLowerCase()) return failed("contract owner isn't the sender");
+
+  return update(db, collectionId, {
+    contract_address: ev.collection,
+    owner_wallet: ev.owner,
+    deploy_status: "deployed",
+    deploy_error: null,
+    deployed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * The contract an artwork mints into: its collection's own contract once
+ * deployed, otherwise null (the shared TaedalNFT).
+ */
+export async function collectionContractFor(artworkId: string, db: SupabaseClient = sbAdmin) {
+  const { data: art, error } = await db.from("artworks").select("collection_id").eq("id", artworkId).maybeSingle();
+  if (error) throw new Error(`artwork lookup: ${error.message}`);
+  if (!art?.collection_id) return null;
+  const col = await loadCollection(db, art.collection_id);
+  return col.deploy_status === "deployed" && col.contract_address ? col : null;
+}
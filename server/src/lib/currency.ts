@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import {
+  createCoinbaseFxSource,
+  createFx as createFxWith,
+  planCharge as planChargeWith,
+  type ChargePlan,
+  type Fx,
+  type FxOptions,
+} from "./currencyCore";
+
+/** Currencies, minor units and FX (see ./currencyCore), wired to the API's database. */
+
+export * from "./currencyCore";
+
+/** createFx against the API's database unless given another client. */
+export function createFx(opts: Omit<FxOptions, "db"> & { db?: SupabaseClient }): Fx {
+  return createFxWith({ ...opts, db: opts.db ?? sbAdmin });
+}
+
+let defaultFx: Fx | null = null;
+
+/** Process-wide FX service; swap the source with `setFx` (tests, offline runs). */
+export function getFx(): Fx {
+  if (!defaultFx) {
+    defaultFx = createFx({
+      source: createCoinbaseFxSource(process.env.FX_SOURCE_URL || undefined),
+      maxAgeMs: process.env.FX_MAX_AGE_SECONDS ? Number(process.env.FX_MAX_AGE_SECONDS) * 1000 : undefined,
+    });
+  }
+  return defaultFx;
+}
+
+export function setFx(fx: Fx) {
+  defaultFx = fx;
+}
+
+/** planCharge with the process-wide FX service by default. */
+export function planCharge(providerId: string, unitPrice: number, currency: string, fx: Fx = getFx()): Promise<ChargePlan> {
+  return planChargeWith(providerId, unitPrice, currency, fx);
+}
@@ -0,0 +1,278 @@
+/**
+ * Currencies, minor units and FX.
+ *
+ * Amounts live in major units everywhere in the database (19.99 USD, 0.05 ETH);
+ * providers that want integers (Stripe) go through toMinorUnits/fromMinorUnits.
+ * The app's currency picker reads CURRENCIES from here too.
+ *
+ * Two identical copies, since each runtime only deploys its own tree:
+ *   supabase/functions/_shared/currencyCore.ts  edge functions; the app imports it
+ *   server/src/lib/currencyCore.ts              the API (compiled from src/ only)
+ * Edit one and copy it over; server/test/currency.test.ts fails while they
+ * differ. No imports, so it loads as is under Deno, Vite and tsc. The API adds
+ * its defaults in ./currency.
+ */
+
+export type CurrencyKind = "fiat" | "crypto";
+export type CurrencyInfo = { code: string; name: string; kind: CurrencyKind; decimals: number };
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "USD", name: "US Dollar", kind: "fiat", decimals: 2 },
+  { code: "EUR", name: "Euro", kind: "fiat", decimals: 2 },
+  { code: "GBP", name: "British Pound", kind: "fiat", decimals: 2 },
+  { code: "JPY", name: "Japanese Yen", kind: "fiat", decimals: 0 },
+  { code: "KRW", name: "South Korean Won", kind: "fiat", decimals: 0 },
+  { code: "CNY", name: "Chinese Yuan", kind: "fiat", decimals: 2 },
+  { code: "INR", name: "Indian Rupee", kind: "fiat", decimals: 2 },
+  { code: "AUD", name: "Australian Dollar", kind: "fiat", decimals: 2 },
+  { code: "CAD", name: "Canadian Dollar", kind: "fiat", decimals: 2 },
+  { code: "NZD", name: "New Zealand Dollar", kind: "fiat", decimals: 2 },
+  { code: "SGD", name: "Singapore Dollar", kind: "fiat", decimals: 2 },
+  { code: "HKD", name: "Hong Kong Dollar", kind: "fiat", decimals: 2 },
+  { code: "MYR", name: "Malaysian Ringgit", kind: "fiat", decimals: 2 },
+  { code: "PHP", name: "Philippine Peso", kind: "fiat", decimals: 2 },
+  { code: "IDR", name: "Indonesian Rupiah", kind: "fiat", decimals: 2 },
+  { code: "THB", name: "Thai Baht", kind: "fiat", decimals: 2 },
+  { code: "CHF", name: "Swiss Franc", kind: "fiat", decimals: 2 },
+  { code: "SEK", name: "Swedish Krona", kind: "fiat", decimals: 2 },
+  { code: "NOK", name: "Norwegian Krone", kind: "fiat", decimals: 2 },
+  { code: "DKK", name: "Danish Krone", kind: "fiat", decimals: 2 },
+  { code: "BRL", name: "Brazilian Real", kind: "fiat", decimals: 2 },
+  { code: "MXN", name: "Mexican Peso", kind: "fiat", decimals: 2 },
+  { code: "ZAR", name: "South African Rand", kind: "fiat", decimals: 2 },
+  { code: "AED", name: "UAE Dirham", kind: "fiat", decimals: 2 },
+  { code: "SAR", name: "Saudi Riyal", kind: "fiat", decimals: 2 },
+  { code: "ETH", name: "Ethereum", kind: "crypto", decimals: 18 },
+  { code: "BTC", name: "Bitcoin", kind: "crypto", decimals: 8 },
+  { code: "SOL", name: "Solana", kind: "crypto", decimals: 9 },
+  { code: "MATIC", name: "Polygon", kind: "crypto", decimals: 18 },
+  { code: "AVAX", name: "Avalanche", kind: "crypto", decimals: 18 },
+  { code: "BNB", name: "BNB Chain", kind: "crypto", decimals: 18 },
+  { code: "BASEETH", name: "Ethereum (Base)", kind: "crypto", decimals: 18 },
+  { code: "USDT", name: "Tether", kind: "crypto", decimals: 6 },
+  { code: "USDC", name: "USD Coin", kind: "crypto", decimals: 6 },
+  { code: "DAI", name: "Dai", kind: "crypto", decimals: 18 },
+];
+
+const BY_CODE = new Map(CURRENCIES.map((c) => [c.code, c]));
+
+/**
+ * ISO 4217 exponents that differ from the usual 2, for codes outside the list
+ * above too (a listing may carry any ISO code).
+ */
+const ISO_EXPONENT: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+/**
+ * Stripe presentment currencies we charge in directly. Anything else (crypto,
+ * unsupported fiat) is converted to STRIPE_FALLBACK_CURRENCY at a locked rate.
+ */
+export const STRIPE_CURRENCIES = new Set([
+  "USD", "EUR", "GBP", "JPY", "KRW", "CNY", "INR", "AUD", "CAD", "NZD", "SGD", "HKD", "MYR", "PHP",
+  "IDR", "THB", "CHF", "SEK", "NOK", "DKK", "BRL", "MXN", "ZAR", "AED", "SAR", "PLN", "CZK", "HUF",
+  "ILS", "TRY", "TWD", "ISK", "BHD", "JOD", "KWD", "OMR", "TND", "CLP", "VND", "UGX", "XOF", "XAF",
+]);
+export const STRIPE_FALLBACK_CURRENCY = "USD";
+
+/**
+ * Where Stripe's integer amounts don't follow the ISO exponent:
+ * ISK is zero-decimal but sent as two-decimal (whole krónur × 100), and
+ * UGX likewise. See https://docs.stripe.com/currencies#special-cases
+ */
+const STRIPE_EXPONENT: Record<string, number> = { ISK: 2, UGX: 2 };
+
+/**
+ * Three-decimal currencies Stripe only accepts in multiples of 10 minor units
+ * (the last digit must be 0), so amounts round to the nearest 0.01.
+ */
+const STRIPE_MINOR_STEP: Record<string, number> = { BHD: 10, JOD: 10, KWD: 10, OMR: 10, TND: 10 };
+
+export function normalizeCurrency(code: string | null | undefined, fallback = "USD") {
+  const c = String(code || "").trim().toUpperCase();
+  return /^[A-Z0-9]{2,10}$/.test(c) ? c : fallback;
+}
+
+export function currencyInfo(code: string): CurrencyInfo | null {
+  return BY_CODE.get(normalizeCurrency(code)) ?? null;
+}
+
+export function isCrypto(code: string) {
+  return currencyInfo(code)?.kind === "crypto";
+}
+
+/** Decimal places of the currency's minor unit (ISO 4217; chain decimals for crypto). */
+export function minorUnitExponent(code: string) {
+  const c = normalizeCurrency(code);
+  return BY_CODE.get(c)?.decimals ?? ISO_EXPONENT[c] ?? 2;
+}
+
+/** Rounds a major-unit amount to what the currency can actually represent. */
+export function roundToMinor(amount: number, code: string) {
+  const exp = Math.min(minorUnitExponent(code), 8);
+  const f = 10 ** exp;
+  return Math.round(amount * f) / f;
+}
+
+export function toMinorUnits(amount: number, code: string, target: "iso" | "stripe" = "iso") {
+  const c = normalizeCurrency(code);
+  const iso = minorUnitExponent(c);
+  if (target === "stripe" && STRIPE_EXPONENT[c] != null) {
+    // whole units only, padded to Stripe's exponent
+    return Math.round(amount * 10 ** iso) * 10 ** (STRIPE_EXPONENT[c] - iso);
+  }
+  if (target === "stripe" && STRIPE_MINOR_STEP[c] != null) {
+    return Math.round((amount * 10 ** iso) / STRIPE_MINOR_STEP[c]) * STRIPE_MINOR_STEP[c];
+  }
+  return Math.round(amount * 10 ** iso);
+}
+
+export function fromMinorUnits(minor: number, code: string, target: "iso" | "stripe" = "iso") {
+  const c = normalizeCurrency(code);
+  const exp = target === "stripe" ? (STRIPE_EXPONENT[c] ?? minorUnitExponent(c)) : minorUnitExponent(c);
+  return minor / 10 ** exp;
+}
+
+export function stripeSupports(code: string) {
+  return STRIPE_CURRENCIES.has(normalizeCurrency(code));
+}
+
+/**
+ * Coinbase Commerce local_price currencies. Anything else (ETH, other fiat) is
+ * converted to COINBASE_FALLBACK_CURRENCY at a locked rate, like Stripe's.
+ */
+export const COINBASE_CURRENCIES = new Set(["USD", "EUR", "GBP"]);
+export const COINBASE_FALLBACK_CURRENCY = "USD";
+
+export function coinbaseSupports(code: string) {
+  return COINBASE_CURRENCIES.has(normalizeCurrency(code));
+}
+
+/* ───────────────── FX ───────────────── */
+
+/** Where live rates come from. `rate(base, quote)` = units of quote per 1 base. */
+export interface FxSource {
+  name: string;
+  rate(base: string, quote: string): Promise<number>;
+}
+
+/** Coinbase's public exchange-rates endpoint: covers fiat and crypto, no key. */
+export function createCoinbaseFxSource(baseUrl = "https://api.coinbase.com/v2/exchange-rates"): FxSource {
+  return {
+    name: "coinbase",
+    async rate(base, quote) {
+      const res = await fetch(`${baseUrl}?currency=${encodeURIComponent(base)}`);
+      if (!res.ok) throw new Error(`fx ${base}/${quote}: HTTP ${res.status}`);
+      const body: any = await res.json();
+      const r = Number(body?.data?.rates?.[quote]);
+      if (!Number.isFinite(r) || r <= 0) throw new Error(`fx ${base}/${quote}: no rate`);
+      return r;
+    },
+  };
+}
+
+export type FxQuote = { base: string; quote: string; rate: number; source: string; fetchedAt: string };
+
+/** The bit of a Supabase client the FX cache needs (public.fx_rates). */
+export type FxStore = { from(table: string): any };
+
+export type FxOptions = {
+  source: FxSource;
+  db: FxStore;
+  /** Cached rates younger than this are used without asking the source. */
+  maxAgeMs?: number;
+  /** If the source is down, a cached rate up to this old is still acceptable. */
+  staleFallbackMs?: number;
+};
+
+/**
+ * Rates cached in public.fx_rates. A checkout asks for a quote once and stores
+ * it on the order (fx_rate / fx_locked_at), so later rate moves never change
+ * what the buyer was charged.
+ */
+export function createFx(opts: FxOptions) {
+  const db = opts.db;
+  const maxAge = opts.maxAgeMs ?? 5 * 60_000;
+  const staleFallback = opts.staleFallbackMs ?? 6 * 60 * 60_000;
+
+  async function cached(base: string, quote: string) {
+    const { data } = await db
+      .from("fx_rates")
+      .select("rate,source,fetched_at")
+      .eq("base", base)
+      .eq("quote", quote)
+      .maybeSingle();
+    return data as { rate: number; source: string; fetched_at: string } | null;
+  }
+
+  return {
+    async quote(baseCode: string, quoteCode: string): Promise<FxQuote> {
+      const base = normalizeCurrency(baseCode);
+      const quote = normalizeCurrency(quoteCode);
+      const now = new Date();
+      if (base === quote) return { base, quote, rate: 1, source: "identity", fetchedAt: now.toISOString() };
+
+      const hit = await cached(base, quote);
+      const age = hit ? now.getTime() - new Date(hit.fetched_at).getTime() : Infinity;
+      if (hit && age <= maxAge) {
+        return { base, quote, rate: Number(hit.rate), source: hit.source, fetchedAt: hit.fetched_at };
+      }
+
+      try {
+        const rate = await opts.source.rate(base, quote);
+        const fetchedAt = now.toISOString();
+        const { error } = await db
+          .from("fx_rates")
+          .upsert({ base, quote, rate, source: opts.source.name, fetched_at: fetchedAt }, { onConflict: "base,quote" });
+        if (error) console.warn("fx_rates upsert:", error.message);
+        return { base, quote, rate, source: opts.source.name, fetchedAt };
+      } catch (e) {
+        if (hit && age <= staleFallback) {
+          console.warn(`fx ${base}/${quote}: source failed, using cached rate from ${hit.fetched_at}`);
+          return { base, quote, rate: Number(hit.rate), source: hit.source, fetchedAt: hit.fetched_at };
+        }
+        throw e;
+      }
+    },
+  };
+}
+
+export type Fx = ReturnType<typeof createFx>;
+
+/* ───────────────── charging ───────────────── */
+
+/** Order columns locking a conversion (fx_rates migration). */
+export type LockedFx = { fx_rate: number; fx_source: string; fx_locked_at: string };
+
+export type ChargePlan = { currency: string; unitPrice: number; fx: LockedFx | null };
+
+/**
+ * What a provider charges for a price in `currency`. Stripe and Coinbase
+ * Commerce charge in it when they can, otherwise in their fallback currency at
+ * a rate quoted now, which the caller locks onto the order. The on-chain
+ * provider (ETH only) and the fake charge as listed. Stripe prices are rounded
+ * to what it can take, so the order records the amount actually charged.
+ * Throws if no rate is available.
+ */
+export async function planCharge(providerId: string, unitPrice: number, currency: string, fx: Fx): Promise<ChargePlan> {
+  const code = normalizeCurrency(currency);
+  const fallback =
+    providerId === "stripe" && !stripeSupports(code)
+      ? STRIPE_FALLBACK_CURRENCY
+      : providerId === "coinbase_commerce" && !coinbaseSupports(code)
+        ? COINBASE_FALLBACK_CURRENCY
+        : null;
+  const chargeable = (price: number, ccy: string) =>
+    providerId === "stripe" ? fromMinorUnits(toMinorUnits(price, ccy, "stripe"), ccy, "stripe") : price;
+  if (!fallback) return { currency: code, unitPrice: chargeable(unitPrice, code), fx: null };
+
+  const q = await fx.quote(code, fallback);
+  return {
+    currency: q.quote,
+    unitPrice: chargeable(roundToMinor(unitPrice * q.rate, q.quote), q.quote),
+    fx: { fx_rate: q.rate, fx_source: q.source, fx_locked_at: new Date().toISOString() },
+  };
+}
@@ -0,0 +1,457 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { ShippingError } from "./labels";
+
+/**
+ * Multi-leg shipments (rules in the shipment_legs migration): a shipment moves
+ * through legs, each with its own carrier, tracking and handler. Whoever takes
+ * the work at a handoff files a condition report — condition, notes, photos and
+ * a signature — as a shipment_events row on that leg. The shipment's own status
+ * follows its legs; it is only `delivered` once the last leg is, so escrow
+ * doesn't start the inspection window at the framer's.
+ */
+
+const REPORT_BUCKET = "condition-reports";
+const MAX_PHOTOS = 12;
+const PHOTO_TYPES: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/heic": "heic" };
+
+export type LegStatus =
+  | "pending"
+  | "handed_to_carrier"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "returned"
+  | "exception";
+
+const LEG_STATUSES: readonly LegStatus[] = [
+  "pending",
+  "handed_to_carrier",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "returned",
+  "exception",
+];
+
+export type HandlerRole = "carrier" | "courier" | "framer" | "gallery" | "storage" | "collector" | "other";
+
+export type Condition = "excellent" | "good" | "fair" | "damaged";
+
+export type LegInput = {
+  handlerId?: string | null;
+  handlerName?: string | null;
+  handlerRole?: HandlerRole;
+  fromLabel?: string | null;
+  toLabel?: string | null;
+  carrier?: string | null;
+  trackingNumber?: string | null;
+};
+
+export type ReportInput = {
+  /** `pickup`: the leg's handler takes the work; `delivery`: the leg's recipient receives it. */
+  stage: "pickup" | "delivery";
+  condition: Condition;
+  notes?: string | null;
+  /** Paths handed out by reportUploads for this leg. */
+  photos: string[];
+  signature: { name: string; /** PNG data URL when drawn; typed signatures carry only the name. */ image?: string | null };
+};
+
+export type LegRow = {
+  id: string;
+  shipment_id: string;
+  seq: number;
+  handler_id: string | null;
+  handler_name: string | null;
+  handler_role: HandlerRole;
+  from_label: string | null;
+  to_label: string | null;
+  carrier: string | null;
+  tracking_number: string | null;
+  tracking_slug: string | null;
+  status: LegStatus;
+  last_checkpoint: unknown;
+  started_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const LEG_COLS =
+  "id,shipment_id,seq,handler_id,handler_name,handler_role,from_label,to_label,carrier,tracking_number,tracking_slug," +
+  "status,last_checkpoint,started_at,delivered_at,created_at,updated_at";
+
+type Parties = {
+  shipment: {
+    id: string;
+    artwork_id: string;
+    order_id: string | null;
+    status_v2: string | null;
+    carrier: string | null;
+    tracking_number: string | null;
+  };
+  ownerId: string | null;
+  creatorId: string | null;
+  buyerId: string | null;
+  legs: LegRow[];
+};
+
+async function loadParties(db: SupabaseClient, shipmentId: string): Promise<Parties> {
+  const { data: shipment, error } = await db
+    .from("shipments")
+    .select("id,artwork_id,order_id,status_v2,carrier,tracking_number")
+    .eq("id", shipmentId)
+    .maybeSingle();
+  if (error) throw new Error(`shipment lookup: ${error.message}`);
+  if (!shipment) throw new ShippingError("shipment not found", 404);
+
+  const { data: art } = await db.from("artworks").select("owner_id,creator_id").eq("id", shipment.artwork_id).maybeSingle();
+  let buyerId: string | null = null;
+  if (shipment.order_id) {
+    const { data: order } = await db.from("orders").select("buyer_id").eq("id", shipment.order_id).maybeSingle();
+    buyerId = order?.buyer_id ?? null;
+  }
+  const { data: legs, error: lerr } = await db.from("shipment_legs").select(LEG_COLS).eq("shipment_id", shipmentId).order("seq");
+  if (lerr) throw new Error(`leg lookup: ${lerr.message}`);
+
+  return {
+    shipment,
+    ownerId: art?.owner_id ?? null,
+    creatorId: art?.creator_id ?? null,
+    buyerId,
+    legs: (legs ?? []) as unknown as LegRow[],
+  };
+}
+
+// same rule as the shipments panel: whoever holds or made the work plans its route
+function canManage(p: Parties, actor: string) {
+  return actor === p.ownerId || actor === p.creatorId;
+}
+
+function canView(p: Parties, actor: string) {
+  return canManage(p, actor) || actor === p.buyerId || p.legs.some((l) => l.handler_id === actor);
+}
+
+function legOf(p: Parties, legId: string) {
+  const leg = p.legs.find((l) => l.id === legId);
+  if (!leg) throw new ShippingError("leg not found", 404);
+  return leg;
+}
+
+const clean = (s?: string | null) => s?.trim() || null;
+
+function legFields(input: LegInput) {
+  const row: Record<string, unknown> = {};
+  if (input.handlerId !== undefined) row.handler_id = input.handlerId;
+  if (input.handlerName !== undefined) row.handler_name = clean(input.handlerName);
+  if (input.handlerRole !== undefined) row.handler_role = input.handlerRole;
+  if (input.fromLabel !== undefined) row.from_label = clean(input.fromLabel);
+  if (input.toLabel !== undefined) row.to_label = clean(input.toLabel);
+  if (input.carrier !== undefined) row.carrier = clean(input.carrier);
+  if (input.trackingNumber !== undefined) row.tracking_number = clean(input.trackingNumber);
+  return row;
+}
+
+/**
+ * Legacy `legs` arrays from POST /shipments: loose objects with carrier,
+ * tracking_no / tracking_number, handler / handler_name, from and to.
+ */
+export function legsFromInput(raw: unknown): LegInput[] {
+  if (!Array.isArray(raw)) return [];
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim().slice(0, 200) : null);
+  return raw
+    .filter((l): l is Record<string, unknown> => !!l && typeof l === "object")
+    .map((l) => ({
+      handlerName: str(l.handler_name) ?? str(l.handler),
+      carrier: str(l.carrier),
+      trackingNumber: str(l.tracking_number) ?? str(l.tracking_no),
+      fromLabel: str(l.from),
+      toLabel: str(l.to),
+    }));
+}
+
+/** Insert legs in order after the shipment's existing ones. */
+export async function createLegs(shipmentId: string, actor: string, legs: LegInput[], db: SupabaseClient = sbAdmin) {
+  if (!legs.length) return [];
+  const { data: last } = await db
+    .from("shipment_legs")
+    .select("seq")
+    .eq("shipment_id", shipmentId)
+    .order("seq", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const base = (last?.seq ?? 0) + 1;
+  const { data, error } = await db
+    .from("shipment_legs")
+    .insert(legs.map((l, i) => ({ ...legFields(l), shipment_id: shipmentId, seq: base + i, created_by: actor })))
+    .select(LEG_COLS);
+  if (error) {
+    if (error.code === "23505") throw new ShippingError("the route changed meanwhile; reload and try again", 409);
+    throw new Error(`leg insert: ${error.message}`);
+  }
+  return (data ?? []) as unknown as LegRow[];
+}
+
+/**
+ * Derive the shipment's status from its legs: the first leg not yet delivered
+ * sets it; between legs (the work sits with the next handler) it stays in
+ * transit; it is delivered when the last leg is.
+ */
+export async function syncShipmentStatus(shipmentId: string, db: SupabaseClient = sbAdmin) {
+  const { data: legs } = await db.from("shipment_legs").select("seq,status,delivered_at").eq("shipment_id", shipmentId).order("seq");
+  if (!legs?.length) return null;
+  const { data: current } = await db.from("shipments").select("status_v2").eq("id", shipmentId).maybeSingle();
+
+  const last = legs[legs.length - 1];
+  const open = legs.find((l) => l.status !== "delivered");
+  let status: string;
+  if (!open) status = "delivered";
+  else if (legs.some((l) => l.status === "exception")) status = "exception";
+  else if (open.status === "pending") status = open.seq === legs[0].seq ? "with_creator" : "in_transit";
+  else status = open.status;
+
+  // unchanged status: no write, so the shipments triggers don't notify again
+  if (current?.status_v2 === status) return status;
+
+  const patch: Record<string, unknown> = { status, status_v2: status, updated_at: new Date().toISOString() };
+  if (status === "delivered") patch.delivered_at = last.delivered_at ?? new Date().toISOString();
+  const { error } = await db.from("shipments").update(patch).eq("id", shipmentId);
+  if (error) throw new Error(`shipment status: ${error.message}`);
+  return status;
+}
+
+async function signedUrls(db: SupabaseClient, paths: string[]) {
+  if (!paths.length) return new Map<string, string>();
+  const { data, error } = await db.storage.from(REPORT_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw new Error(`report urls: ${error.message}`);
+  return new Map((data ?? []).filter((d) => d.path && d.signedUrl).map((d) => [d.path as string, d.signedUrl]));
+}
+
+/** The shipment's legs with their condition reports, for anyone in the chain of custody. */
+export async function listLegs(shipmentId: string, actor: string, db: SupabaseClient = sbAdmin) {
+  const p = await loadParties(db, shipmentId);
+  if (!canView(p, actor)) throw new ShippingError("shipment not found", 404);
+
+  const { data: reports, error } = await db
+    .from("shipment_events")
+    .select("id,leg_id,code,message,condition,photo_paths,signature,reported_by,payload,created_at")
+    .eq("shipment_id", shipmentId)
+    .eq("code", "condition_report")
+    .order("created_at");
+  if (error) throw new Error(`report lookup: ${error.message}`);
+
+  const rows = (reports ?? []) as any[];
+  const paths = rows.flatMap((r) => [...(r.photo_paths ?? []), ...(r.signature?.image_path ? [r.signature.image_path] : [])]);
+  const urls = await signedUrls(db, paths);
+
+  return {
+    can_manage: canManage(p, actor),
+    legs: p.legs.map((leg) => ({
+      ...leg,
+      reports: rows
+        .filter((r) => r.leg_id === leg.id)
+        .map((r) => ({
+          id: r.id,
+          stage: r.payload?.stage ?? null,
+          condition: r.condition,
+          notes: r.message,
+          photos: (r.photo_paths ?? []).map((path: string) => urls.get(path) ?? null).filter(Boolean),
+          signature: r.signature
+            ? {
+                name: r.signature.name,
+                method: r.signature.method,
+                signed_at: r.signature.signed_at,
+                image_url: r.signature.image_path ? urls.get(r.signature.image_path) ?? null : null,
+              }
+            : null,
+          reported_by: r.reported_by,
+          created_at: r.created_at,
+        })),
+    })),
+  };
+}
+
+export async function addLeg(shipmentId: string, actor: string, input: LegInput, db: SupabaseClient = sbAdmin) {
+  const p = await loadParties(db, shipmentId);
+  if (!canManage(p, actor)) throw new ShippingError("not your artwork", 403);
+  if (p.shipment.status_v2 === "delivered") throw new ShippingError("this shipment was already delivered", 409);
+  if (!input.handlerId && !clean(input.handlerName) && !clean(input.carrier)) {
+    throw new ShippingError("name the handler or the carrier for this leg", 422);
+  }
+
+  // a shipment entered with one carrier becomes the first leg of its route
+  const legs: LegInput[] = [input];
+  const s = p.shipment;
+  if (!p.legs.length && (s.carrier || s.tracking_number)) {
+    legs.unshift({ carrier: s.carrier, trackingNumber: s.tracking_number, handlerRole: "carrier" });
+  }
+  const created = await createLegs(shipmentId, actor, legs, db);
+  const carried = s.status_v2 as LegStatus;
+  if (legs.length > 1 && carried !== "pending" && LEG_STATUSES.includes(carried)) {
+    await db.from("shipment_legs").update({ status: carried, started_at: new Date().toISOString() }).eq("id", created[0].id);
+  }
+  await syncShipmentStatus(shipmentId, db);
+  return created[created.length - 1];
+}
+
+/** Edit a leg's handler, carrier or tracking, or move its status by hand (recorded on the timeline). */
+export async function updateLeg(
+  shipmentId: string,
+  legId: string,
+  actor: string,
+  input: LegInput & { status?: LegStatus; note?: string | null },
+  db: SupabaseClient = sbAdmin
+) {
+  const p = await loadParties(db, shipmentId);
+  if (!canManage(p, actor)) throw new ShippingError("not your artwork", 403);
+  const leg = legOf(p, legId);
+
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = { ...legFields(input), updated_at: now };
+  const moved = input.status && input.status !== leg.status;
+  if (moved) {
+    patch.status = input.status;
+    if (input.status !== "pending" && !leg.started_at) patch.started_at = now;
+    if (input.status === "delivered") patch.delivered_at = now;
+  }
+  const { data, error } = await db.from("shipment_legs").update(patch).eq("id", leg.id).select(LEG_COLS).single();
+  if (error) throw new Error(`leg update: ${error.message}`);
+
+  if (moved) {
+    await db.from("shipment_events").insert({
+      shipment_id: shipmentId,
+      leg_id: leg.id,
+      code: input.status,
+      message: clean(input.note) ?? `Leg ${leg.seq} marked ${input.status!.replace(/_/g, " ")}`,
+      source: "app",
+      reported_by: actor,
+    });
+    await syncShipmentStatus(shipmentId, db);
+  }
+  return data as unknown as LegRow;
+}
+
+/** Who may file a report on this leg: the planners, the leg's handler, the previous handler (for a pickup) and the buyer. */
+function canReport(p: Parties, leg: LegRow, stage: ReportInput["stage"], actor: string) {
+  if (canManage(p, actor) || actor === p.buyerId || actor === leg.handler_id) return true;
+  const next = p.legs.find((l) => l.seq > leg.seq);
+  const prev = [...p.legs].reverse().find((l) => l.seq < leg.seq);
+  if (stage === "pickup") return !!prev && actor === prev.handler_id;
+  return !!next && actor === next.handler_id;
+}
+
+/** Signed upload slots for report photos; the client uploads straight to storage, then cites the paths. */
+export async function reportUploads(
+  shipmentId: string,
+  legId: string,
+  actor: string,
+  files: { contentType: string }[],
+  db: SupabaseClient = sbAdmin
+) {
+  const p = await loadParties(db, shipmentId);
+  const leg = legOf(p, legId);
+  if (!canReport(p, leg, "pickup", actor) && !canReport(p, leg, "delivery", actor)) {
+    throw new ShippingError("you are not part of this leg", 403);
+  }
+  if (files.length > MAX_PHOTOS) throw new ShippingError(`at most ${MAX_PHOTOS} photos per report`, 422);
+
+  return Promise.all(
+    files.map(async (f) => {
+      const ext = PHOTO_TYPES[f.contentType];
+      if (!ext) throw new ShippingError(`photos must be JPEG, PNG, WebP or HEIC, not ${f.contentType}`, 422);
+      const path = `${shipmentId}/${leg.id}/${crypto.randomUUID()}.${ext}`;
+      const { data, error } = await db.storage.from(REPORT_BUCKET).createSignedUploadUrl(path);
+      if (error) throw new Error(`upload slot: ${error.message}`);
+      return { path, token: data.token };
+    })
+  );
+}
+
+async function storeSignature(db: SupabaseClient, prefix: string, dataUrl: string) {
+  const m = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+  if (!m) throw new ShippingError("a drawn signature must be a PNG data URL", 422);
+  const path = `${prefix}/signature-${crypto.randomUUID()}.png`;
+  const up = await db.storage.from(REPORT_BUCKET).upload(path, Buffer.from(m[1], "base64"), { contentType: "image/png" });
+  if (up.error) throw new Error(`signature upload: ${up.error.message}`);
+  return path;
+}
+
+/**
+ * File a condition report at a handoff and move the route along: a pickup
+ * starts the leg (and closes the previous one), a delivery closes it.
+ */
+export async function fileConditionReport(
+  shipmentId: string,
+  legId: string,
+  actor: string,
+  input: ReportInput,
+  ip: string | null,
+  db: SupabaseClient = sbAdmin
+) {
+  const p = await loadParties(db, shipmentId);
+  const leg = legOf(p, legId);
+  if (!canReport(p, leg, input.stage, actor)) throw new ShippingError("you are not part of this handoff", 403);
+  if (!input.signature.name.trim()) throw new ShippingError("sign the report", 422);
+
+  // photos must be ones uploaded for this leg
+  const prefix = `${shipmentId}/${leg.id}`;
+  if (input.photos.length > MAX_PHOTOS) throw new ShippingError(`at most ${MAX_PHOTOS} photos per report`, 422);
+  if (input.photos.length) {
+    const { data: stored, error } = await db.storage.from(REPORT_BUCKET).list(prefix, { limit: 1000 });
+    if (error) throw new Error(`photo lookup: ${error.message}`);
+    const names = new Set((stored ?? []).map((o) => `${prefix}/${o.name}`));
+    const missing = input.photos.filter((path) => !names.has(path));
+    if (missing.length) throw new ShippingError(`photo not uploaded for this leg: ${missing[0]}`, 422);
+  }
+
+  const signedAt = new Date().toISOString();
+  const imagePath = input.signature.image ? await storeSignature(db, prefix, input.signature.image) : null;
+  const { data: report, error } = await db
+    .from("shipment_events")
+    .insert({
+      shipment_id: shipmentId,
+      leg_id: leg.id,
+      code: "condition_report",
+      message: clean(input.notes),
+      source: "app",
+      condition: input.condition,
+      photo_paths: input.photos,
+      signature: {
+        name: input.signature.name.trim(),
+        method: imagePath ? "drawn" : "typed",
+        image_path: imagePath,
+        signed_at: signedAt,
+        user_id: actor,
+        ip,
+      },
+      reported_by: actor,
+      payload: { stage: input.stage, leg_seq: leg.seq },
+      created_at: signedAt,
+    })
+    .select("id,created_at")
+    .single();
+  if (error) throw new Error(`report insert: ${error.message}`);
+
+  if (input.stage === "pickup") {
+    if (leg.status === "pending") {
+      await db.from("shipment_legs").update({ status: "in_transit", started_at: signedAt, updated_at: signedAt }).eq("id", leg.id);
+    }
+    const prev = [...p.legs].reverse().find((l) => l.seq < leg.seq);
+    if (prev && prev.status !== "delivered") {
+      await db
+        .from("shipment_legs")
+        .update({ status: "delivered", delivered_at: signedAt, updated_at: signedAt })
+        .eq("id", prev.id);
+    }
+  } else if (leg.status !== "delivered") {
+    await db
+      .from("shipment_legs")
+      .update({ status: "delivered", started_at: leg.started_at ?? signedAt, delivered_at: signedAt, updated_at: signedAt })
+      .eq("id", leg.id);
+  }
+
+  const status = await syncShipmentStatus(shipmentId, db);
+  return { report_id: report.id, shipment_status: status };
+}
@@ -0,0 +1,126 @@
+import type { Address, Money } from "./carriers";
+import { textPdf } from "./pdf";
+
+/** CN23 for postal operators, a commercial invoice for couriers. */
+export type CustomsDocKind = "commercial_invoice" | "cn23";
+
+// carrier slugs (as the providers report them) that run on the UPU postal network
+const POSTAL = new Set([
+  "usps", "canada_post", "canadapost", "royal_mail", "royalmail", "australia_post", "auspost",
+  "deutsche_post", "la_poste", "laposte", "postnl", "poste_italiane", "correos", "swiss_post", "japan_post",
+]);
+
+export function customsDocKind(carrierSlug: string | null | undefined): CustomsDocKind {
+  return carrierSlug && POSTAL.has(carrierSlug.toLowerCase()) ? "cn23" : "commercial_invoice";
+}
+
+export type ArtworkFacts = {
+  title: string | null;
+  medium?: string | null;
+  year_created?: string | null;
+  width?: number | null;
+  height?: number | null;
+  depth?: number | null;
+  dim_unit?: string | null;
+};
+
+/**
+ * HS heading from the medium (HS 2022, chapter 97 for original works):
+ * sculpture 9703.90, original prints 9702.90, photographs 4911.91,
+ * everything else painted or drawn by hand 9701.91. Senders can override it.
+ */
+export function hsCodeFor(medium: string | null | undefined) {
+  const m = (medium ?? "").toLowerCase();
+  if (/sculpt|bronze|ceramic|marble|carv|cast/.test(m)) return "9703.90";
+  if (/print|litho|etching|engraving|woodcut|screen|serigraph|linocut/.test(m)) return "9702.90";
+  if (/photo/.test(m)) return "4911.91";
+  return "9701.91";
+}
+
+export function dimensionsOf(art: ArtworkFacts) {
+  if (!art.width || !art.height || (art.dim_unit !== "cm" && art.dim_unit !== "in")) return null;
+  const parts = [art.width, art.height, art.depth].filter((v): v is number => !!v);
+  return `${parts.join(" × ")} ${art.dim_unit}`;
+}
+
+/** "Original artwork: Title, oil on canvas, 2024, 60 × 80 × 3 cm" */
+export function describeArtwork(art: ArtworkFacts) {
+  const facts = [art.title || "Untitled", art.medium, art.year_created, dimensionsOf(art)].filter(Boolean);
+  return `Original artwork: ${facts.join(", ")}`;
+}
+
+export type CustomsDocInput = {
+  kind: CustomsDocKind;
+  shipmentId: string;
+  trackingNumber: string | null;
+  carrier: string | null;
+  from: Address;
+  to: Address;
+  artwork: ArtworkFacts;
+  description: string;
+  hsCode: string;
+  originCountry: string;
+  /** What the work sold for, in the sale currency. */
+  declared: Money;
+  /** The same value in the fiat currency carriers and customs use, when it differs. */
+  customsValue: Money;
+  insured: Money | null;
+  weight: { value: number; unit: string } | null;
+};
+
+const money = (m: Money) => `${m.amount.toFixed(2)} ${m.currency}`;
+
+function addressLines(a: Address) {
+  return [
+    a.name,
+    a.company,
+    a.street1,
+    a.street2,
+    [a.city, a.state, a.zip].filter(Boolean).join(" "),
+    a.country,
+    a.phone ? `Tel. ${a.phone}` : null,
+  ].filter((l): l is string => !!l);
+}
+
+/** The customs paperwork that travels with an international shipment. */
+export function renderCustomsDoc(d: CustomsDocInput): Buffer {
+  const title =
+    d.kind === "cn23" ? "CN 23 - CUSTOMS DECLARATION (postal)" : "COMMERCIAL INVOICE";
+  const differs = d.declared.currency !== d.customsValue.currency;
+
+  return textPdf([
+    title,
+    "",
+    `Date: ${new Date().toISOString().slice(0, 10)}`,
+    `Shipment: ${d.shipmentId}`,
+    `Carrier: ${d.carrier ?? "-"}    Tracking: ${d.trackingNumber ?? "-"}`,
+    "",
+    "SENDER / EXPORTER",
+    ...addressLines(d.from).map((l) => `  ${l}`),
+    "",
+    "RECIPIENT / IMPORTER",
+    ...addressLines(d.to).map((l) => `  ${l}`),
+    "",
+    "CONTENTS",
+    `  Description:       ${d.description}`,
+    `  Title:             ${d.artwork.title || "Untitled"}`,
+    `  Medium:            ${d.artwork.medium || "-"}`,
+    `  Year:              ${d.artwork.year_created || "-"}`,
+    `  Dimensions:        ${dimensionsOf(d.artwork) ?? "-"}`,
+    `  HS tariff code:    ${d.hsCode}`,
+    `  Country of origin: ${d.originCountry}`,
+    "  Quantity:          1",
+    d.weight ? `  Gross weight:      ${d.weight.value} ${d.weight.unit}` : "  Gross weight:      -",
+    "",
+    "VALUE",
+    `  Declared value:    ${money(d.customsValue)}${differs ? ` (sold for ${d.declared.amount} ${d.declared.currency})` : ""}`,
+    `  Insured value:     ${d.insured ? money(d.insured) : "not insured"}`,
+    "  Category:          Sale of goods",
+    "  Terms of trade:    DDU (duties and taxes paid by the recipient)",
+    "",
+    "I certify that the particulars given in this declaration are correct and that",
+    "this item does not contain any dangerous article prohibited by legislation.",
+    "",
+    `Signature of sender: ______________________   ${d.from.name}`,
+  ]);
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { getMailTransport, type MailTransport } from "./mail";
+
+/**
+ * Email digests of notifications (queue and periods live in the
+ * notification_pipeline migration). Each pass mails every profile whose daily
+ * or weekly period is up one message listing what it missed, with links back
+ * into the app. If the mail fails, the rows go back on the queue for the next
+ * period.
+ */
+
+const APP_URL = process.env.APP_URL || "http://localhost:5173";
+
+type DigestRow = { id: string; kind: string; payload: { message?: string } | null; link: string | null; created_at: string };
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+function render(rows: DigestRow[]) {
+  const lines = rows.map((r) => ({
+    text: r.payload?.message || `New ${r.kind.replace(/_/g, " ")} notification`,
+    url: r.link ? `${APP_URL}${r.link}` : APP_URL,
+  }));
+  const subject = rows.length === 1 ? lines[0].text : `${rows.length} updates on taedal`;
+  const text =
+    lines.map((l) => `• ${l.text}\n  ${l.url}`).join("\n") +
+    `\n\nChange what you get by email: ${APP_URL}/account`;
+  const html =
+    `<ul>${lines.map((l) => `<li><a href="${escapeHtml(l.url)}">${escapeHtml(l.text)}</a></li>`).join("")}</ul>` +
+    `<p><a href="${escapeHtml(`${APP_URL}/account`)}">Notification settings</a></p>`;
+  return { subject, text, html };
+}
+
+/** One pass: mail every due digest. */
+export async function sendDigests(limit = 100, db: SupabaseClient = sbAdmin, mail: MailTransport = getMailTransport()) {
+  const { data, error } = await db.rpc("due_notification_digests", { p_limit: limit });
+  if (error) throw new Error(`due_notification_digests: ${error.message}`);
+
+  let sent = 0;
+  let failed = 0;
+  for (const { profile_id } of (data ?? []) as { profile_id: string; pending: number }[]) {
+    const { data: user } = await db.auth.admin.getUserById(profile_id);
+    const email = user?.user?.email;
+
+    const { data: claimed, error: cerr } = await db.rpc("claim_notification_digest", { p_profile_id: profile_id, p_limit: 50 });
+    if (cerr) throw new Error(`claim_notification_digest: ${cerr.message}`);
+    const rows = ((claimed ?? []) as DigestRow[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    // no address on file: the rows are dropped, there's nowhere to send them
+    if (!rows.length || !email) continue;
+
+    try {
+      await mail.send({ to: email, ...render(rows) });
+      sent++;
+    } catch (e: any) {
+      failed++;
+      console.error(`digest for ${profile_id} failed:`, e?.message);
+      await db
+        .from("notifications")
+        .update({ email_pending: true, emailed_at: null })
+        .in("id", rows.map((r) => r.id));
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * Run the digest mailer in-process every `intervalMs` (0 disables it, e.g. when
+ * an external cron calls POST /admin/notifications/digest instead).
+ */
+export function startDigestMailer(intervalMs: number) {
+  if (!(intervalMs > 0)) return () => {};
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendDigests();
+    } catch (e: any) {
+      console.error("digest mailer error:", e?.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
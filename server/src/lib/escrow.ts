@@ -0,0 +1,137 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { executeRefund } from "./refunds";
+
+/**
+ * Physical-sale escrow (rules live in the physical_escrow migration): a paid
+ * order for a physical one-of-one stays `held` until the buyer confirms receipt
+ * or the inspection window after the carrier's 'delivered' passes. A dispute
+ * opened in the window freezes it until support releases or refunds. On-chain
+ * orders escrow the work the same way; their payment already reached the
+ * seller's wallet, so only the payout hold doesn't apply to them.
+ */
+
+export class EscrowError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "EscrowError";
+  }
+}
+
+export type DisputeRow = {
+  id: string;
+  order_id: string;
+  opened_by: string;
+  reason: string;
+  status: "open" | "released" | "refunded";
+  resolution_note: string | null;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+const ESCROW_COLS =
+  "id,buyer_id,seller_id,artwork_id,payment_status,delivery_status,escrow_status,escrow_shipment_id,escrow_delivered_at,escrow_release_after,escrow_released_at,escrow_release_reason";
+
+function rpcFail(message: string): EscrowError {
+  if (/^Only /i.test(message)) return new EscrowError(message, 403);
+  if (/not found/i.test(message)) return new EscrowError(message, 404);
+  return new EscrowError(message, 409);
+}
+
+/** The order's escrow and its disputes, for the buyer or seller. */
+export async function getEscrow(orderId: string, viewerId: string, db: SupabaseClient = sbAdmin) {
+  const { data: order, error } = await db.from("orders").select(ESCROW_COLS).eq("id", orderId).maybeSingle();
+  if (error) throw new Error(`order lookup: ${error.message}`);
+  if (!order || (order.buyer_id !== viewerId && order.seller_id !== viewerId)) {
+    throw new EscrowError("order not found", 404);
+  }
+  const { data: disputes, error: derr } = await db
+    .from("order_disputes")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+  if (derr) throw new Error(`dispute lookup: ${derr.message}`);
+  return { order, disputes: (disputes ?? []) as DisputeRow[] };
+}
+
+/** Buyer: the work arrived; release now. */
+export async function confirmReceipt(orderId: string, buyerId: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("confirm_escrow_receipt", { p_order_id: orderId, p_actor: buyerId });
+  if (error) throw rpcFail(error.message);
+  return data;
+}
+
+/** Buyer: something's wrong; freezes release until support decides. */
+export async function openDispute(orderId: string, buyerId: string, reason: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("open_order_dispute", {
+    p_order_id: orderId,
+    p_actor: buyerId,
+    p_reason: reason,
+  });
+  if (error) throw rpcFail(error.message);
+  return data as DisputeRow;
+}
+
+/**
+ * Support's decision. A refund goes back through the payment provider like any
+ * support refund (`txHash` / `reference` as for POST /admin/orders/:id/refund);
+ * the escrow stays frozen until it lands. If the refund call fails, the
+ * dispute is already decided: finish it with POST /admin/orders/:id/refund.
+ */
+export async function resolveDispute(
+  disputeId: string,
+  outcome: "release" | "refund",
+  opts: { note?: string | null; txHash?: string | null; reference?: string | null } = {},
+  db: SupabaseClient = sbAdmin
+) {
+  const { data, error } = await db.rpc("resolve_order_dispute", {
+    p_dispute_id: disputeId,
+    p_outcome: outcome,
+    p_note: opts.note ?? null,
+  });
+  if (error) throw rpcFail(error.message);
+  const dispute = data as DisputeRow;
+
+  if (outcome === "release") return { dispute, refund: null };
+  const refund = await executeRefund(
+    {
+      orderId: dispute.order_id,
+      actor: { kind: "support" },
+      reason: opts.note ?? `dispute: ${dispute.reason}`,
+      txHash: opts.txHash,
+      manualReference: opts.reference,
+    },
+    db
+  );
+  return { dispute, refund };
+}
+
+/** One pass: release every escrow whose inspection window passed without a dispute. */
+export async function releaseDueEscrows(limit = 100, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("release_due_escrows", { p_limit: limit });
+  if (error) throw new Error(`release_due_escrows: ${error.message}`);
+  const released = (data ?? []) as { order_id: string; buyer_id: string; seller_id: string }[];
+  return { released: released.length, orders: released.map((r) => r.order_id) };
+}
+
+/**
+ * Run the escrow releaser in-process every `intervalMs` (0 disables it, e.g.
+ * when an external cron calls POST /admin/escrow/release instead).
+ */
+export function startEscrowReleaser(intervalMs: number) {
+  if (!(intervalMs > 0)) return () => {};
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await releaseDueEscrows();
+    } catch (e: any) {
+      console.error("escrow releaser error:", e?.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
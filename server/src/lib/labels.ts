@@ -0,0 +1,510 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { getFx, normalizeCurrency } from "./currency";
+import {
+  getCarrier,
+  type Address,
+  type AddressCheck,
+  type CarrierProvider,
+  type CustomsInfo,
+  type DimUnit,
+  type Label,
+  type Money,
+  type Parcel,
+  type Rate,
+  type WeightUnit,
+} from "./carriers";
+import { customsDocKind, describeArtwork, hsCodeFor, renderCustomsDoc, type ArtworkFacts } from "./customs";
+
+const LABEL_BUCKET = "shipping-labels";
+
+// room for corners, foam and a crate wall on every side
+const PACKING_MARGIN: Record<DimUnit, number> = { cm: 5, in: 2 };
+
+/** Carries the HTTP status the route should answer with. */
+export class ShippingError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ShippingError";
+  }
+}
+
+export type ParcelInput = {
+  weight: number;
+  weightUnit: WeightUnit;
+  /** Overrides for when the artwork has no usable dimensions, or ships in a bigger crate. */
+  length?: number;
+  width?: number;
+  height?: number;
+  dimUnit?: DimUnit;
+};
+
+/** Sender overrides for the customs declaration; the artwork supplies the rest. */
+export type CustomsInput = {
+  description?: string | null;
+  hsCode?: string | null;
+  originCountry?: string | null;
+};
+
+/** A rate as clients see it: no provider refs. */
+export type PublicRate = Omit<Rate, "ref">;
+
+const publicRate = ({ ref: _ref, ...rate }: Rate): PublicRate => rate;
+
+function carrierOrFail(id?: string | null): CarrierProvider {
+  const carrier = getCarrier(id);
+  if (!carrier) throw new ShippingError(id ? `carrier provider ${id} is not available` : "no carrier provider configured", 503);
+  return carrier;
+}
+
+/** Upstream carrier failures are the caller's to retry; they aren't our 500s. */
+async function upstream<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e: any) {
+    if (e instanceof ShippingError) throw e;
+    throw new ShippingError(e?.message ?? "carrier request failed", 502);
+  }
+}
+
+async function loadShippable(db: SupabaseClient, artworkId: string, actor: string) {
+  const { data: art, error } = await db
+    .from("artworks")
+    .select("id,title,type,owner_id,creator_id,medium,year_created,width,height,depth,dim_unit")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw new Error(`artwork lookup: ${error.message}`);
+  if (!art) throw new ShippingError("artwork not found", 404);
+  if (art.type !== "physical") throw new ShippingError("only physical artworks ship", 409);
+  // same rule as the shipments panel: whoever holds or made the work ships it
+  if (actor !== art.owner_id && actor !== art.creator_id) throw new ShippingError("not your artwork", 403);
+  return art;
+}
+
+/**
+ * The packed box: the artwork's width × height × depth plus a packing margin,
+ * unless the caller measured the crate. `px` works can't be measured.
+ */
+export function parcelFor(
+  art: { width?: number | null; height?: number | null; depth?: number | null; dim_unit?: string | null },
+  input: ParcelInput
+): Parcel {
+  if (input.length && input.width && input.height) {
+    return {
+      length: input.length,
+      width: input.width,
+      height: input.height,
+      dimUnit: input.dimUnit ?? "cm",
+      weight: input.weight,
+      weightUnit: input.weightUnit,
+    };
+  }
+  const unit = art.dim_unit as DimUnit | null;
+  if ((unit !== "cm" && unit !== "in") || !art.width || !art.height) {
+    throw new ShippingError("this artwork has no physical dimensions; enter the box size", 422);
+  }
+  const margin = PACKING_MARGIN[unit];
+  return {
+    length: Number(art.height) + margin,
+    width: Number(art.width) + margin,
+    height: Number(art.depth ?? 0) + margin,
+    dimUnit: unit,
+    weight: input.weight,
+    weightUnit: input.weightUnit,
+  };
+}
+
+export async function validateAddress(address: Address, providerId?: string | null): Promise<AddressCheck> {
+  const carrier = carrierOrFail(providerId);
+  return upstream(() => carrier.validateAddress(address));
+}
+
+/** What the work sold for: the order it's shipping for, else its latest paid sale. */
+export async function saleValue(db: SupabaseClient, artworkId: string, orderId?: string | null): Promise<Money | null> {
+  let q = db.from("orders").select("total_amount,currency").eq("artwork_id", artworkId).eq("payment_status", "paid");
+  if (orderId) q = q.eq("id", orderId);
+  const { data } = await q.order("settled_at", { ascending: false, nullsFirst: false }).limit(1).maybeSingle();
+  return data?.total_amount != null ? { amount: Number(data.total_amount), currency: normalizeCurrency(data.currency) } : null;
+}
+
+/**
+ * Carriers insure and clear customs in fiat, and USD is the one currency every
+ * provider takes; crypto and other fiat sale prices are converted at today's rate.
+ */
+export async function carrierMoney(value: Money): Promise<Money> {
+  const currency = normalizeCurrency(value.currency);
+  if (currency === "USD") return { amount: value.amount, currency };
+  const { rate } = await getFx().quote(currency, "USD");
+  return { amount: Math.round(value.amount * rate * 100) / 100, currency: "USD" };
+}
+
+function customsFor(art: ArtworkFacts, from: Address, value: Money, input?: CustomsInput | null): CustomsInfo {
+  return {
+    description: input?.description?.trim() || describeArtwork(art),
+    hsCode: input?.hsCode?.trim() || hsCodeFor(art.medium),
+    originCountry: (input?.originCountry?.trim() || from.country).toUpperCase(),
+    value,
+    signer: from.name,
+  };
+}
+
+/** Rates for shipping an artwork; the quote is kept so buying can't change the price or route. */
+export async function quoteShipping(
+  input: {
+    artworkId: string;
+    actor: string;
+    provider?: string | null;
+    from: Address;
+    to: Address;
+    parcel: ParcelInput;
+    /** Defaults to what the work sold for. */
+    declaredValue?: Money | null;
+    insure?: boolean;
+    customs?: CustomsInput | null;
+  },
+  db: SupabaseClient = sbAdmin
+) {
+  const art = await loadShippable(db, input.artworkId, input.actor);
+  const carrier = carrierOrFail(input.provider);
+  const parcel = parcelFor(art, input.parcel);
+
+  const international = input.from.country !== input.to.country;
+  const declared = input.declaredValue ?? (await saleValue(db, art.id));
+  if (!declared && (input.insure || international)) {
+    throw new ShippingError("enter a declared value: there is no sale to take it from", 422);
+  }
+  const carrierValue = declared ? await upstream(() => carrierMoney(declared)) : null;
+  const insurance = input.insure && carrierValue ? carrierValue : null;
+  const customs = international && carrierValue ? customsFor(art, input.from, carrierValue, input.customs) : null;
+
+  const rates = await upstream(() =>
+    carrier.quoteRates({ from: input.from, to: input.to, parcel, description: art.title || "Artwork", insurance, customs })
+  );
+  if (!rates.length) throw new ShippingError("no carrier serves this route for that parcel", 422);
+  rates.sort((a, b) => a.amount - b.amount);
+
+  const { data: quote, error } = await db
+    .from("shipping_quotes")
+    .insert({
+      artwork_id: art.id,
+      requested_by: input.actor,
+      provider: carrier.id,
+      from_address: input.from,
+      to_address: input.to,
+      parcel,
+      rates,
+      declared_value: declared?.amount ?? null,
+      declared_currency: declared?.currency ?? null,
+      insurance,
+      customs,
+    })
+    .select("id,expires_at")
+    .single();
+  if (error) throw new Error(`quote insert: ${error.message}`);
+
+  return {
+    quote_id: quote.id as string,
+    expires_at: quote.expires_at as string,
+    provider: carrier.id,
+    parcel,
+    declared,
+    insurance,
+    customs,
+    rates: rates.map(publicRate),
+  };
+}
+
+async function fetchLabelPdf(label: Label): Promise<Buffer | null> {
+  if (label.pdf) return label.pdf;
+  if (!label.labelUrl) return null;
+  const res = await fetch(label.labelUrl);
+  if (!res.ok) throw new Error(`label download failed: ${res.status}`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/** The escrowed order this artwork is shipping for, if any (escrow links it on insert). */
+async function heldOrderId(db: SupabaseClient, artworkId: string) {
+  const { data } = await db
+    .from("orders")
+    .select("id")
+    .eq("artwork_id", artworkId)
+    .eq("escrow_status", "held")
+    .order("settled_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data?.id as string | undefined) ?? null;
+}
+
+/**
+ * Buy one of a quote's rates: postage is paid on the provider account, the
+ * shipment is created with its tracking number, and the PDF goes to Storage.
+ */
+export async function buyLabel(quoteId: string, rateId: string, actor: string, db: SupabaseClient = sbAdmin) {
+  // claim the quote first so a double click can't buy postage twice
+  const { data: quote, error } = await db
+    .from("shipping_quotes")
+    .update({ purchased_at: new Date().toISOString(), rate_id: rateId })
+    .eq("id", quoteId)
+    .eq("requested_by", actor)
+    .is("purchased_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(`quote claim: ${error.message}`);
+  if (!quote) throw new ShippingError("quote not found, expired or already used", 409);
+
+  const release = () => db.from("shipping_quotes").update({ purchased_at: null, rate_id: null }).eq("id", quoteId);
+
+  const rate = (quote.rates as Rate[]).find((r) => r.id === rateId);
+  if (!rate) {
+    await release();
+    throw new ShippingError("rate not in this quote", 400);
+  }
+
+  let art: Awaited<ReturnType<typeof loadShippable>>;
+  let label: Label;
+  try {
+    // re-checked: the work may have changed hands since the quote
+    art = await loadShippable(db, quote.artwork_id, actor);
+    const carrier = carrierOrFail(quote.provider);
+    label = await upstream(() =>
+      carrier.buyLabel({
+        from: quote.from_address,
+        to: quote.to_address,
+        parcel: quote.parcel,
+        description: art.title || "Artwork",
+        insurance: quote.insurance,
+        customs: quote.customs,
+        rate,
+        reference: quote.id,
+      })
+    );
+  } catch (e) {
+    await release();
+    throw e;
+  }
+
+  // postage is paid from here on: record it even if the PDF can't be stored
+  const customs = quote.customs as CustomsInfo | null;
+  const insurance = quote.insurance as Money | null;
+  const { data: shipment, error: serr } = await db
+    .from("shipments")
+    .insert({
+      artwork_id: art.id,
+      owner_id: actor,
+      order_id: await heldOrderId(db, art.id),
+      from_address: quote.from_address,
+      to_address: quote.to_address,
+      declared_value: quote.declared_value,
+      declared_currency: quote.declared_currency,
+      insured_value: insurance?.amount ?? null,
+      insured_currency: insurance?.currency ?? null,
+      insurance_cost: insurance ? label.insuranceCost : null,
+      insurance_currency: insurance ? label.currency : null,
+      hs_code: customs?.hsCode ?? null,
+      customs_description: customs?.description ?? null,
+      origin_country: customs?.originCountry ?? null,
+      carrier: label.carrier,
+      tracking_number: label.trackingNumber,
+      tracking_slug: label.carrierSlug,
+      estimated_delivery_date: label.estimatedDelivery?.slice(0, 10) ?? null,
+      note: `${label.carrier} ${label.service} label`,
+      status: "with_creator",
+      status_v2: "with_creator",
+      label_provider: quote.provider,
+      label_service: label.service,
+      label_cost: label.amount,
+      label_currency: label.currency,
+      provider_shipment_id: label.providerShipmentId,
+      quote_id: quote.id,
+    })
+    .select("id,artwork_id,owner_id,carrier,tracking_number,status,status_v2,note,estimated_delivery_date,created_at,updated_at")
+    .single();
+  if (serr) throw new Error(`shipment insert after label ${label.trackingNumber}: ${serr.message}`);
+
+  await db.from("shipping_quotes").update({ shipment_id: shipment.id }).eq("id", quote.id);
+  await db.from("shipment_events").insert({
+    shipment_id: shipment.id,
+    code: "with_creator",
+    message: `Label purchased: ${label.carrier} ${label.service}, tracking ${label.trackingNumber}`,
+    source: quote.provider,
+  });
+
+  let labelUrl: string | null = null;
+  try {
+    const pdf = await fetchLabelPdf(label);
+    if (pdf) {
+      const path = `${art.id}/${shipment.id}.pdf`;
+      const up = await db.storage.from(LABEL_BUCKET).upload(path, pdf, { contentType: "application/pdf", upsert: true });
+      if (up.error) throw up.error;
+      await db.from("shipments").update({ label_path: path }).eq("id", shipment.id);
+      labelUrl = await signedLabelUrl(db, path);
+    }
+  } catch (e: any) {
+    // the provider still has the label; support can fetch it from there
+    console.error(`label storage for shipment ${shipment.id}:`, e?.message);
+  }
+
+  let customsUrl: string | null = null;
+  if (customs) {
+    try {
+      customsUrl = await storeCustomsDoc(db, shipment.id);
+    } catch (e: any) {
+      // regenerated on demand from the drawer
+      console.error(`customs form for shipment ${shipment.id}:`, e?.message);
+    }
+  }
+
+  return { shipment, label_url: labelUrl, customs_url: customsUrl, rate: publicRate(rate) };
+}
+
+const SHIPMENT_CUSTOMS_COLS =
+  "id,artwork_id,order_id,carrier,tracking_number,tracking_slug,from_address,to_address,declared_value,declared_currency," +
+  "insured_value,insured_currency,insurance_cost,insurance_currency,hs_code,customs_description,origin_country," +
+  "customs_doc_kind,customs_doc_path,label_provider,provider_shipment_id,quote_id";
+
+async function loadShipment(db: SupabaseClient, shipmentId: string) {
+  const { data, error } = await db.from("shipments").select(SHIPMENT_CUSTOMS_COLS).eq("id", shipmentId).maybeSingle();
+  if (error) throw new Error(`shipment lookup: ${error.message}`);
+  if (!data) throw new ShippingError("shipment not found", 404);
+  return data as any;
+}
+
+/** Render the shipment's commercial invoice / CN23 from its stored fields and keep it next to the label. */
+async function storeCustomsDoc(db: SupabaseClient, shipmentId: string) {
+  const s = await loadShipment(db, shipmentId);
+  if (!s.from_address || !s.to_address) throw new ShippingError("add the sender and recipient addresses first", 422);
+  if (s.declared_value == null) throw new ShippingError("add a declared value first", 422);
+
+  const { data: art } = await db
+    .from("artworks")
+    .select("title,medium,year_created,width,height,depth,dim_unit")
+    .eq("id", s.artwork_id)
+    .maybeSingle();
+  const declared: Money = { amount: Number(s.declared_value), currency: s.declared_currency ?? "USD" };
+  const customsValue = await upstream(() => carrierMoney(declared));
+
+  let weight: { value: number; unit: string } | null = null;
+  if (s.quote_id) {
+    const { data: q } = await db.from("shipping_quotes").select("parcel").eq("id", s.quote_id).maybeSingle();
+    if (q?.parcel) weight = { value: q.parcel.weight, unit: q.parcel.weightUnit };
+  }
+
+  const kind = customsDocKind(s.tracking_slug);
+  const pdf = renderCustomsDoc({
+    kind,
+    shipmentId: s.id,
+    trackingNumber: s.tracking_number,
+    carrier: s.carrier,
+    from: s.from_address,
+    to: s.to_address,
+    artwork: art ?? { title: null },
+    description: s.customs_description || describeArtwork(art ?? { title: null }),
+    hsCode: s.hs_code || hsCodeFor(art?.medium),
+    originCountry: s.origin_country || s.from_address.country,
+    declared,
+    customsValue,
+    insured: s.insured_value != null ? { amount: Number(s.insured_value), currency: s.insured_currency ?? "USD" } : null,
+    weight,
+  });
+
+  const path = `${s.artwork_id}/${s.id}-customs.pdf`;
+  const up = await db.storage.from(LABEL_BUCKET).upload(path, pdf, { contentType: "application/pdf", upsert: true });
+  if (up.error) throw new Error(`customs upload: ${up.error.message}`);
+  await db.from("shipments").update({ customs_doc_path: path, customs_doc_kind: kind }).eq("id", s.id);
+  return signedLabelUrl(db, path);
+}
+
+/**
+ * Set a shipment's declared value, addresses and customs fields (any writer,
+ * including hand-entered shipments) and regenerate the customs form when the
+ * shipment crosses a border.
+ */
+export async function updateShipmentCustoms(
+  shipmentId: string,
+  actor: string,
+  input: { declaredValue?: Money | null; from?: Address | null; to?: Address | null } & CustomsInput,
+  db: SupabaseClient = sbAdmin
+) {
+  const s = await loadShipment(db, shipmentId);
+  await loadShippable(db, s.artwork_id, actor);
+
+  const patch: Record<string, unknown> = {};
+  if (input.declaredValue) {
+    patch.declared_value = input.declaredValue.amount;
+    patch.declared_currency = normalizeCurrency(input.declaredValue.currency);
+  }
+  if (input.from) patch.from_address = input.from;
+  if (input.to) patch.to_address = input.to;
+  if (input.description !== undefined) patch.customs_description = input.description?.trim() || null;
+  if (input.hsCode !== undefined) patch.hs_code = input.hsCode?.trim() || null;
+  if (input.originCountry !== undefined) patch.origin_country = input.originCountry?.trim().toUpperCase() || null;
+  if (Object.keys(patch).length) {
+    const { error } = await db.from("shipments").update(patch).eq("id", s.id);
+    if (error) throw new Error(`shipment update: ${error.message}`);
+  }
+
+  const from = (input.from ?? s.from_address) as Address | null;
+  const to = (input.to ?? s.to_address) as Address | null;
+  const international = !!from && !!to && from.country !== to.country;
+  const customs_url = international ? await storeCustomsDoc(db, s.id) : null;
+  return { shipment: await loadShipment(db, s.id), customs_url };
+}
+
+/** Add insurance to a shipment whose label was bought through a provider that supports it. */
+export async function insureShipment(shipmentId: string, actor: string, value?: Money | null, db: SupabaseClient = sbAdmin) {
+  const s = await loadShipment(db, shipmentId);
+  await loadShippable(db, s.artwork_id, actor);
+  if (s.insured_value != null) throw new ShippingError("already insured", 409);
+  if (!s.label_provider || !s.provider_shipment_id) {
+    throw new ShippingError("only labels bought here can be insured; insure with your carrier directly", 409);
+  }
+  const carrier = carrierOrFail(s.label_provider);
+  if (!carrier.insure) throw new ShippingError(`${carrier.id} only insures when the label is bought`, 409);
+
+  const declared =
+    value ??
+    (s.declared_value != null ? { amount: Number(s.declared_value), currency: s.declared_currency ?? "USD" } : null) ??
+    (await saleValue(db, s.artwork_id, s.order_id));
+  if (!declared) throw new ShippingError("enter a value to insure", 422);
+  const insured = await upstream(() => carrierMoney(declared));
+  const { cost, currency } = await upstream(() => carrier.insure!(s.provider_shipment_id, insured));
+
+  const { error } = await db
+    .from("shipments")
+    .update({
+      insured_value: insured.amount,
+      insured_currency: insured.currency,
+      insurance_cost: cost,
+      insurance_currency: currency,
+      declared_value: s.declared_value ?? declared.amount,
+      declared_currency: s.declared_currency ?? declared.currency,
+    })
+    .eq("id", s.id);
+  if (error) throw new Error(`insurance after purchase (${carrier.id} ${s.provider_shipment_id}): ${error.message}`);
+  return loadShipment(db, s.id);
+}
+
+/** A short-lived link to the shipment's customs form. */
+export async function customsDocUrl(shipmentId: string, actor: string, db: SupabaseClient = sbAdmin) {
+  const s = await loadShipment(db, shipmentId);
+  await loadShippable(db, s.artwork_id, actor);
+  if (!s.customs_doc_path) throw new ShippingError("this shipment has no customs form yet", 404);
+  return signedLabelUrl(db, s.customs_doc_path);
+}
+
+async function signedLabelUrl(db: SupabaseClient, path: string) {
+  const { data, error } = await db.storage.from(LABEL_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw new Error(`label url: ${error.message}`);
+  return data.signedUrl;
+}
+
+/** A short-lived link to a shipment's label PDF, for whoever can ship the work. */
+export async function labelUrl(shipmentId: string, actor: string, db: SupabaseClient = sbAdmin) {
+  const { data: s, error } = await db.from("shipments").select("id,artwork_id,label_path").eq("id", shipmentId).maybeSingle();
+  if (error) throw new Error(`shipment lookup: ${error.message}`);
+  if (!s) throw new ShippingError("shipment not found", 404);
+  await loadShippable(db, s.artwork_id, actor);
+  if (!s.label_path) throw new ShippingError("this shipment has no stored label", 404);
+  return signedLabelUrl(db, s.label_path);
+}
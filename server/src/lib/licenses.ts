@@ -0,0 +1,51 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+
+/**
+ * License term lifecycle (rules live in the license_lifecycle migration): an
+ * accepted request becomes a licenses row with its computed dates; this job
+ * sends the expiry and invoice reminders and expires licenses past their term.
+ */
+
+/** Days before ends_on to remind, unless termination.notice_days asks for more. */
+const EXPIRY_LEAD_DAYS = Number(process.env.LICENSE_EXPIRY_REMINDER_DAYS || 30);
+/** Days before the fee falls due to remind. */
+const INVOICE_LEAD_DAYS = Number(process.env.LICENSE_INVOICE_REMINDER_DAYS || 7);
+
+/** One pass: expire what ran out, send what's due. */
+export async function runLicenseLifecycle(limit = 100, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("run_license_lifecycle", {
+    p_expiry_lead_days: EXPIRY_LEAD_DAYS,
+    p_invoice_lead_days: INVOICE_LEAD_DAYS,
+    p_limit: limit,
+  });
+  if (error) throw new Error(`run_license_lifecycle: ${error.message}`);
+  const rows = (data ?? []) as { license_id: string; event: "expired" | "expiry_reminder" | "invoice_reminder" }[];
+  return {
+    expired: rows.filter((r) => r.event === "expired").length,
+    expiryReminders: rows.filter((r) => r.event === "expiry_reminder").length,
+    invoiceReminders: rows.filter((r) => r.event === "invoice_reminder").length,
+  };
+}
+
+/**
+ * Run the license lifecycle in-process every `intervalMs` (0 disables it, e.g.
+ * when an external cron calls POST /admin/licenses/lifecycle instead).
+ */
+export function startLicenseScheduler(intervalMs: number) {
+  if (!(intervalMs > 0)) return () => {};
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runLicenseLifecycle();
+    } catch (e: any) {
+      console.error("license scheduler error:", e?.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
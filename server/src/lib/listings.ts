@@ -0,0 +1,83 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { notify } from "./notify";
+
+/**
+ * Server-priced sales (rules live in the dutch_and_drops migration): Dutch
+ * listings fall from a start price to a floor, and scheduled drops
+ * (type coming_soon) open at start_at as fixed-price or Dutch sales, optionally
+ * allowlist-only and capped per collector. The price a buyer pays is always
+ * computed by the database at checkout, never taken from the client.
+ */
+
+export class ListingError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ListingError";
+  }
+}
+
+/**
+ * Unit price for `quantity` units bought by `buyerId` right now. Opens the drop
+ * if it's due; throws a ListingError (403 for allowlist / per-collector limits,
+ * 409 otherwise) when the buyer can't check out.
+ */
+export async function checkoutUnitPrice(
+  listingId: string,
+  buyerId: string,
+  quantity: number,
+  db: SupabaseClient = sbAdmin
+): Promise<number> {
+  const { data, error } = await db.rpc("listing_checkout_price", {
+    p_listing_id: listingId,
+    p_buyer_id: buyerId,
+    p_quantity: quantity,
+  });
+  if (error) {
+    const status = /allowlist|Limit of/i.test(error.message) ? 403 : 409;
+    throw new ListingError(error.message, status);
+  }
+  return Number(data);
+}
+
+/** One pass: open every drop past start_at and tell the seller and the allowlist. */
+export async function openDueDrops(limit = 100, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("open_due_drops", { p_listing_id: null, p_limit: limit });
+  if (error) throw new Error(`open_due_drops: ${error.message}`);
+
+  const opened = (data ?? []) as { listing_id: string; artwork_id: string; seller_id: string; sale_type: string }[];
+  for (const row of opened) {
+    const { data: art } = await db.from("artworks").select("title").eq("id", row.artwork_id).maybeSingle();
+    const title = art?.title || "the artwork";
+    const base = { event: "drop_open" as const, listing_id: row.listing_id, artwork_id: row.artwork_id, sale_type: row.sale_type };
+    await notify(row.seller_id, "system", { ...base, message: `Your drop of “${title}” is live` }, db);
+
+    const { data: allow } = await db.from("drop_allowlist").select("profile_id").eq("listing_id", row.listing_id);
+    for (const a of allow ?? []) {
+      await notify(a.profile_id, "system", { ...base, message: `The drop of “${title}” you're allowlisted for is live` }, db);
+    }
+  }
+  return { opened: opened.length };
+}
+
+/**
+ * Open due drops in-process every `intervalMs` (0 disables it; checkout opens
+ * a due drop on its own, so this only makes them show up as live on time).
+ */
+export function startDropOpener(intervalMs: number) {
+  if (!(intervalMs > 0)) return () => {};
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await openDueDrops();
+    } catch (e: any) {
+      console.error("drop opener error:", e?.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
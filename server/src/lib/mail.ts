@@ -0,0 +1,58 @@
+/**
+ * Outgoing mail behind one small interface, picked by MAIL_TRANSPORT:
+ *   log     (default) prints the message; nothing leaves the server
+ *   resend  Resend's HTTP API (RESEND_API_KEY)
+ * Tests and offline runs can swap the transport with setMailTransport().
+ */
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransport = {
+  id: string;
+  send(msg: MailMessage): Promise<void>;
+};
+
+const { MAIL_TRANSPORT = "log", MAIL_FROM = "taedal <notifications@taedal.app>", RESEND_API_KEY = "" } = process.env;
+
+export function createLogTransport(): MailTransport {
+  return {
+    id: "log",
+    async send(msg) {
+      console.log(`[mail] to=${msg.to} subject=${JSON.stringify(msg.subject)}\n${msg.text}`);
+    },
+  };
+}
+
+export function createResendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    id: "resend",
+    async send(msg) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: [msg.to], subject: msg.subject, text: msg.text, html: msg.html }),
+      });
+      if (!res.ok) throw new Error(`resend: HTTP ${res.status} ${await res.text().catch(() => "")}`.trim());
+    },
+  };
+}
+
+let transport: MailTransport =
+  MAIL_TRANSPORT === "resend" && RESEND_API_KEY ? createResendTransport(RESEND_API_KEY, MAIL_FROM) : createLogTransport();
+
+if (MAIL_TRANSPORT === "resend" && !RESEND_API_KEY) {
+  console.warn("WARNING: MAIL_TRANSPORT=resend without RESEND_API_KEY – mail is only logged.");
+}
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
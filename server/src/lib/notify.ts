@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+
+/**
+ * notifications.kind (see the notification_pipeline migration). Likes,
+ * comments, follows, bids, paid orders, license messages, shipments and scans
+ * are raised by database triggers; the API writes the rest through notify().
+ */
+export type NotificationKind =
+  | "like"
+  | "comment"
+  | "follow"
+  | "system"
+  | "sale"
+  | "bid"
+  | "outbid"
+  | "offer"
+  | "auction"
+  | "license"
+  | "shipment"
+  | "chip_scan";
+
+/** Ids the app deep-links with (notification_link() turns them into `link`). */
+type Refs = { artwork_id?: string; listing_id?: string; order_id?: string | null; offer_id?: string };
+
+/** payload by kind; `message` is the line the Bell and the digest show. */
+export type NotificationPayloads = {
+  system: Refs & { event: "drop_open"; sale_type?: string };
+  offer: Refs & {
+    event: "made" | "countered" | "withdrawn" | "declined" | "accepted" | "paid" | "failed" | "expired";
+    parent_offer_id?: string;
+  };
+  auction: Refs & { event: "won" | "passed_to_you" | "no_sale" | "lapsed"; pay_by?: string };
+  sale: Refs & {
+    event: "sold" | "purchased" | "escrow_released" | "dispute_opened" | "dispute_resolved" | "payment_refused";
+    amount: number;
+    currency: string;
+    status?: string;
+  };
+  bid: Refs & { event: "new_top_bid"; amount: number; currency: string | null };
+  outbid: Refs & { event: "outbid"; amount: number; currency: string | null };
+  license: Refs & { event: "requested" | "message"; request_id: string };
+  shipment: Refs & { event: "created" | "status" | "inspection"; shipment_id?: string; status: string };
+  chip_scan: Refs & { event: "verified" | "mismatch"; result: string; tag_kind: string };
+};
+
+export type ApiNotificationKind = keyof NotificationPayloads;
+
+/**
+ * In-app notification (and a line in the next email digest, per the profile's
+ * notification_settings). Best-effort: a failed insert is logged, never thrown,
+ * so it can't undo the action it reports.
+ */
+export async function notify<K extends ApiNotificationKind>(
+  profileId: string,
+  kind: K,
+  payload: NotificationPayloads[K] & { message: string },
+  db: SupabaseClient = sbAdmin
+) {
+  const { error } = await db.from("notifications").insert({ profile_id: profileId, kind, payload });
+  if (error) console.error(`notify ${kind}:`, error.message);
+}
@@ -0,0 +1,680 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { decodeEventLog, encodeFunctionData, decodeFunctionResult, getAddress, isAddress, parseAbi, type Hex } from "viem";
+import { sbAdmin } from "./supabase";
+import { getProvider, createHttpRpc, type EthRpc, type ProviderId } from "./payments";
+import { orderWei, parseEther } from "./payments/onchain";
+import { getFx, normalizeCurrency, planCharge, stripeSupports } from "./currency";
+import { notify } from "./notify";
+
+/**
+ * Offers (see the offers migration for statuses and funding). Both parties act
+ * through here; accepting goes through accept_offer(), which creates the
+ * order, and the order settles via settle_order() once the money is in:
+ *   stripe_preauth  the hold is captured right away
+ *   weth_allowance  the seller's wallet pulls the WETH, we verify the transfer
+ *   none            the buyer pays through a checkout session by the order's pay_by
+ * Every state change notifies the other party.
+ */
+
+const APP_URL = process.env.APP_URL || "http://localhost:5173";
+const SEPOLIA_CHAIN_ID = 11155111;
+const CHAIN_ID = process.env.ONCHAIN_CHAIN_ID ? Number(process.env.ONCHAIN_CHAIN_ID) : SEPOLIA_CHAIN_ID;
+const CONFIRMATIONS = Number(process.env.ETH_MIN_CONFIRMATIONS || 2);
+const WETH = process.env.WETH_ADDRESS || "";
+
+const DEFAULT_HOURS = Number(process.env.OFFER_DEFAULT_HOURS || 72);
+const MAX_HOURS = 30 * 24;
+/** Stripe drops uncaptured card authorizations after 7 days. */
+const MAX_HOLD_HOURS = 7 * 24;
+
+const WETH_ABI = parseAbi([
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+export type OfferFunding = "none" | "stripe_preauth" | "weth_allowance";
+
+export type OfferRow = {
+  id: string;
+  artwork_id: string;
+  listing_id: string | null;
+  buyer_id: string;
+  seller_id: string;
+  made_by: "buyer" | "seller";
+  parent_offer_id: string | null;
+  quantity: number;
+  amount: number;
+  currency: string;
+  message: string | null;
+  status: "awaiting_funds" | "open" | "countered" | "accepted" | "declined" | "withdrawn" | "expired" | "failed";
+  expires_at: string;
+  funding: OfferFunding;
+  hold_session_id: string | null;
+  buyer_wallet: string | null;
+  weth_spender: string | null;
+  order_id: string | null;
+  last_error: string | null;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Carries the HTTP status the route should answer with (and, for WETH, what to approve). */
+export class OfferError extends Error {
+  constructor(message: string, readonly status = 400, readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = "OfferError";
+  }
+}
+
+const now = () => new Date().toISOString();
+const total = (o: Pick<OfferRow, "amount" | "quantity" | "currency">) => `${Number(o.amount) * o.quantity} ${o.currency}`;
+const recipientOf = (o: OfferRow) => (o.made_by === "buyer" ? o.seller_id : o.buyer_id);
+const makerOf = (o: OfferRow) => (o.made_by === "buyer" ? o.buyer_id : o.seller_id);
+
+function defaultRpc() {
+  if (!process.env.ETH_RPC_URL) throw new OfferError("on-chain verification is not configured (ETH_RPC_URL)", 503);
+  return createHttpRpc(process.env.ETH_RPC_URL);
+}
+
+function wethAddress() {
+  if (!isAddress(WETH)) throw new OfferError("WETH offers are not configured (WETH_ADDRESS)", 503);
+  return getAddress(WETH);
+}
+
+function expiry(hours: number | undefined, funding: OfferFunding) {
+  const max = funding === "stripe_preauth" ? MAX_HOLD_HOURS : MAX_HOURS;
+  const h = hours ?? Math.min(DEFAULT_HOURS, max);
+  if (!(h > 0) || h > max) throw new OfferError(`offers can last up to ${max} hours`);
+  return new Date(Date.now() + h * 3_600_000).toISOString();
+}
+
+async function loadOffer(db: SupabaseClient, offerId: string) {
+  const { data, error } = await db.from("offers").select("*").eq("id", offerId).maybeSingle();
+  if (error) throw new Error(`offer lookup: ${error.message}`);
+  if (!data) throw new OfferError("offer not found", 404);
+  return data as OfferRow;
+}
+
+async function loadArtwork(db: SupabaseClient, artworkId: string) {
+  const { data, error } = await db
+    .from("artworks")
+    .select("id,title,creator_id,owner_id,edition_type,min_offer,list_currency")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw new Error(`artwork lookup: ${error.message}`);
+  if (!data) throw new OfferError("artwork not found", 404);
+  return data;
+}
+
+async function activeListing(db: SupabaseClient, artworkId: string, sellerId?: string) {
+  let q = db
+    .from("listings")
+    .select("id,seller_id,sale_currency,seller_wallet")
+    .eq("artwork_id", artworkId)
+    .eq("status", "active");
+  if (sellerId) q = q.eq("seller_id", sellerId);
+  const { data } = await q.limit(1).maybeSingle();
+  return data;
+}
+
+/** Offers below the artwork's min_offer (in its listing currency) are refused. */
+async function assertMinOffer(
+  art: { min_offer: number | null; list_currency: string | null },
+  listingCurrency: string | null,
+  amount: number,
+  currency: string
+) {
+  const min = Number(art.min_offer ?? 0);
+  if (!(min > 0)) return;
+  const base = normalizeCurrency(listingCurrency ?? art.list_currency, currency);
+  let floor = min;
+  if (base !== currency) {
+    try {
+      floor = min * (await getFx().quote(base, currency)).rate;
+    } catch {
+      throw new OfferError(`make this offer in ${base}: no exchange rate for ${currency}`, 422);
+    }
+  }
+  if (amount < floor) {
+    throw new OfferError(`offers start at ${min} ${base}`, 422, { min_offer: min, currency: base });
+  }
+}
+
+async function wethCall(rpc: EthRpc, fn: "allowance" | "balanceOf", args: readonly [Hex, Hex] | readonly [Hex]) {
+  const data = encodeFunctionData({ abi: WETH_ABI, functionName: fn, args: args as any });
+  const out = await rpc.request<Hex>("eth_call", [{ to: wethAddress(), data }, "latest"]);
+  return decodeFunctionResult({ abi: WETH_ABI, functionName: fn, data: out }) as bigint;
+}
+
+/** The buyer's wallet must hold the WETH and have approved the seller's wallet to pull it. */
+async function assertWethFunded(rpc: EthRpc, buyerWallet: string, spender: string, wei: bigint) {
+  const owner = getAddress(buyerWallet);
+  const [allowance, balance] = await Promise.all([
+    wethCall(rpc, "allowance", [owner, getAddress(spender)]),
+    wethCall(rpc, "balanceOf", [owner]),
+  ]);
+  const approve = { token: wethAddress(), spender: getAddress(spender), amount_wei: wei.toString(), chain_id: CHAIN_ID };
+  if (balance < wei) throw new OfferError("wallet doesn't hold enough WETH for this offer", 422, { approve });
+  if (allowance < wei) throw new OfferError("approve the seller's wallet to transfer the offered WETH first", 422, { approve });
+}
+
+const offerWei = (o: Pick<OfferRow, "amount" | "quantity">) => parseEther(o.amount) * BigInt(o.quantity);
+
+async function releaseHold(offer: OfferRow) {
+  if (offer.funding !== "stripe_preauth" || !offer.hold_session_id) return;
+  try {
+    await getProvider("stripe")?.releaseHold?.(offer.hold_session_id);
+  } catch (e: any) {
+    // an unreleased authorization lapses on its own after 7 days
+    console.error(`release hold for offer ${offer.id}:`, e?.message);
+  }
+}
+
+export type MakeOfferInput = {
+  buyerId: string;
+  artworkId: string;
+  amount: number;
+  currency: string;
+  quantity?: number;
+  /** Editions: which holder the offer is for (defaults to the listing's seller, then the owner). */
+  sellerId?: string | null;
+  expiresInHours?: number;
+  funding?: OfferFunding;
+  buyerWallet?: string | null;
+  message?: string | null;
+};
+
+/**
+ * Buyer makes an offer. Stripe-backed offers come back "awaiting_funds" with a
+ * checkout_url for the authorization and open once the webhook confirms it.
+ */
+export async function makeOffer(
+  input: MakeOfferInput,
+  db: SupabaseClient = sbAdmin,
+  rpc?: EthRpc
+): Promise<{ offer: OfferRow; checkout_url: string | null }> {
+  const funding = input.funding ?? "none";
+  const quantity = input.quantity ?? 1;
+  const currency = normalizeCurrency(input.currency);
+  const art = await loadArtwork(db, input.artworkId);
+  const edition = art.edition_type ?? "unique";
+
+  const listing = await activeListing(db, art.id, input.sellerId ?? undefined);
+  const sellerId = input.sellerId ?? listing?.seller_id ?? art.owner_id ?? art.creator_id;
+  if (sellerId === input.buyerId) throw new OfferError("you can't make an offer on your own artwork", 409);
+
+  if (edition === "unique") {
+    if (quantity !== 1) throw new OfferError("one-of-one artworks sell one at a time");
+    if (sellerId !== (art.owner_id ?? art.creator_id)) throw new OfferError("that profile doesn't own this artwork", 409);
+  } else if (!(edition === "open" && sellerId === art.creator_id)) {
+    const { data: held } = await db
+      .from("ownerships")
+      .select("quantity")
+      .eq("artwork_id", art.id)
+      .eq("owner_id", sellerId)
+      .maybeSingle();
+    if ((held?.quantity ?? 0) < quantity) throw new OfferError(`seller holds ${held?.quantity ?? 0} of this edition`, 409);
+  }
+
+  await assertMinOffer(art, listing?.sale_currency ?? null, input.amount, currency);
+
+  let wethSpender: string | null = null;
+  if (funding === "stripe_preauth") {
+    if (!getProvider("stripe")?.createHold) throw new OfferError("card pre-authorization is not available", 400);
+    if (!stripeSupports(currency)) throw new OfferError(`cards can't be authorized in ${currency}`);
+  } else if (funding === "weth_allowance") {
+    if (currency !== "ETH") throw new OfferError("WETH offers are priced in ETH");
+    if (!input.buyerWallet || !isAddress(input.buyerWallet)) throw new OfferError("buyer_wallet is required for WETH offers");
+    if (!listing?.seller_wallet || !isAddress(listing.seller_wallet)) {
+      throw new OfferError("the seller has no wallet to receive WETH; offer another way", 422);
+    }
+    wethSpender = getAddress(listing.seller_wallet);
+    await assertWethFunded(rpc ?? defaultRpc(), input.buyerWallet, wethSpender, offerWei({ amount: input.amount, quantity }));
+  }
+
+  const { data, error } = await db
+    .from("offers")
+    .insert({
+      artwork_id: art.id,
+      listing_id: listing && listing.seller_id === sellerId ? listing.id : null,
+      buyer_id: input.buyerId,
+      seller_id: sellerId,
+      made_by: "buyer",
+      quantity,
+      amount: input.amount,
+      currency,
+      message: input.message ?? null,
+      status: funding === "stripe_preauth" ? "awaiting_funds" : "open",
+      expires_at: expiry(input.expiresInHours, funding),
+      funding,
+      buyer_wallet: funding === "weth_allowance" ? getAddress(input.buyerWallet!) : null,
+      weth_spender: wethSpender,
+    })
+    .select("*")
+    .single();
+  // uq_offers_live_per_buyer
+  if (error) throw new OfferError(error.code === "23505" ? "you already have a live offer on this artwork" : error.message, 409);
+  const offer = data as OfferRow;
+
+  if (funding === "stripe_preauth") {
+    try {
+      const session = await getProvider("stripe")!.createHold!({
+        offerId: offer.id,
+        buyerId: input.buyerId,
+        title: art.title || "Artwork",
+        amount: Number(offer.amount) * quantity,
+        currency,
+        expiresAt: new Date(offer.expires_at),
+        successUrl: `${APP_URL}/art/${art.id}?offer=${offer.id}`,
+        cancelUrl: `${APP_URL}/art/${art.id}`,
+      });
+      const { data: held } = await db
+        .from("offers")
+        .update({ hold_session_id: session.id, updated_at: now() })
+        .eq("id", offer.id)
+        .select("*")
+        .single();
+      return { offer: (held ?? offer) as OfferRow, checkout_url: session.url };
+    } catch (e: any) {
+      await db.from("offers").update({ status: "failed", last_error: String(e?.message ?? e).slice(0, 1000) }).eq("id", offer.id);
+      throw new OfferError(e?.message ?? "payment provider error", 502);
+    }
+  }
+
+  await notify(sellerId, "offer", {
+    event: "made", offer_id: offer.id, artwork_id: art.id,
+    message: `New offer of ${total(offer)} on “${art.title || "your artwork"}”`,
+  }, db);
+  return { offer, checkout_url: null };
+}
+
+/**
+ * The recipient answers with a different amount. The counter is a new open
+ * offer the other side can accept; the original becomes "countered" (and any
+ * card hold on it is released). Counters are paid through checkout.
+ */
+export async function counterOffer(
+  offerId: string,
+  actorId: string,
+  input: { amount: number; expiresInHours?: number; message?: string | null },
+  db: SupabaseClient = sbAdmin
+): Promise<OfferRow> {
+  const offer = await loadOffer(db, offerId);
+  if (recipientOf(offer) !== actorId) throw new OfferError("only the recipient can counter this offer", 403);
+  if (offer.status !== "open") throw new OfferError(`offer is ${offer.status}`, 409);
+  if (new Date(offer.expires_at) <= new Date()) throw new OfferError("offer has expired", 409);
+  const madeBy = actorId === offer.seller_id ? "seller" : "buyer";
+
+  if (madeBy === "buyer") {
+    const art = await loadArtwork(db, offer.artwork_id);
+    const listing = await activeListing(db, offer.artwork_id, offer.seller_id);
+    await assertMinOffer(art, listing?.sale_currency ?? null, input.amount, offer.currency);
+  }
+
+  const { data: closed } = await db
+    .from("offers")
+    .update({ status: "countered", responded_at: now(), updated_at: now() })
+    .eq("id", offer.id)
+    .eq("status", "open")
+    .select("id");
+  if (!closed?.length) throw new OfferError("offer changed, reload it", 409);
+
+  const { data, error } = await db
+    .from("offers")
+    .insert({
+      artwork_id: offer.artwork_id,
+      listing_id: offer.listing_id,
+      buyer_id: offer.buyer_id,
+      seller_id: offer.seller_id,
+      made_by: madeBy,
+      parent_offer_id: offer.id,
+      quantity: offer.quantity,
+      amount: input.amount,
+      currency: offer.currency,
+      message: input.message ?? null,
+      status: "open",
+      expires_at: expiry(input.expiresInHours, "none"),
+      funding: "none",
+    })
+    .select("*")
+    .single();
+  if (error) {
+    await db.from("offers").update({ status: "open", responded_at: null }).eq("id", offer.id).eq("status", "countered");
+    throw new OfferError(error.message, 409);
+  }
+  await releaseHold(offer);
+
+  const counter = data as OfferRow;
+  await notify(makerOf(offer), "offer", {
+    event: "countered", offer_id: counter.id, parent_offer_id: offer.id, artwork_id: offer.artwork_id,
+    message: `Your ${total(offer)} offer was countered at ${total(counter)}`,
+  }, db);
+  return counter;
+}
+
+/** The maker takes an offer back (before it is accepted). */
+export async function withdrawOffer(offerId: string, actorId: string, db: SupabaseClient = sbAdmin): Promise<OfferRow> {
+  return closeOffer(offerId, actorId, "withdrawn", db);
+}
+
+/** The recipient turns an offer down. */
+export async function declineOffer(offerId: string, actorId: string, db: SupabaseClient = sbAdmin): Promise<OfferRow> {
+  return closeOffer(offerId, actorId, "declined", db);
+}
+
+async function closeOffer(offerId: string, actorId: string, status: "withdrawn" | "declined", db: SupabaseClient) {
+  const offer = await loadOffer(db, offerId);
+  const allowed = status === "withdrawn" ? makerOf(offer) : recipientOf(offer);
+  if (allowed !== actorId) {
+    throw new OfferError(status === "withdrawn" ? "only the maker can withdraw this offer" : "only the recipient can decline this offer", 403);
+  }
+  const live = status === "withdrawn" ? ["awaiting_funds", "open"] : ["open"];
+  if (!live.includes(offer.status)) throw new OfferError(`offer is ${offer.status}`, 409);
+
+  const { data, error } = await db
+    .from("offers")
+    .update({ status, responded_at: now(), updated_at: now() })
+    .eq("id", offer.id)
+    .in("status", live)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(`offer update: ${error.message}`);
+  if (!data) throw new OfferError("offer changed, reload it", 409);
+  await releaseHold(offer);
+
+  if (offer.status === "open") {
+    const other = status === "withdrawn" ? recipientOf(offer) : makerOf(offer);
+    await notify(other, "offer", {
+      event: status, offer_id: offer.id, artwork_id: offer.artwork_id,
+      message: status === "withdrawn" ? `An offer of ${total(offer)} was withdrawn` : `Your ${total(offer)} offer was declined`,
+    }, db);
+  }
+  return data as OfferRow;
+}
+
+export type AcceptResult = {
+  offer: OfferRow;
+  order_id: string;
+  /** "paid": settled now; "pending": waiting on the transfer or the buyer's checkout. */
+  status: "paid" | "pending";
+  /** weth_allowance: the seller's wallet sends this, then posts the tx hash to /settle. */
+  instructions: { chain_id: number; from: string; to: string; value: string; data: string } | null;
+};
+
+/** The recipient accepts: the order is created, then paid however the offer was funded. */
+export async function acceptOffer(
+  offerId: string,
+  actorId: string,
+  db: SupabaseClient = sbAdmin,
+  rpc?: EthRpc
+): Promise<AcceptResult> {
+  const before = await loadOffer(db, offerId);
+  if (before.funding === "weth_allowance") {
+    // fail early if the allowance was revoked or the WETH moved
+    await assertWethFunded(rpc ?? defaultRpc(), before.buyer_wallet!, before.weth_spender!, offerWei(before));
+  }
+
+  const { data, error } = await db.rpc("accept_offer", { p_offer_id: offerId, p_actor: actorId });
+  if (error) throw new OfferError(error.message, 409);
+  const offer = data as OfferRow;
+  const orderId = offer.order_id!;
+  const art = await loadArtwork(db, offer.artwork_id);
+  const title = art.title || "the artwork";
+
+  if (offer.funding === "stripe_preauth") {
+    try {
+      await getProvider("stripe")!.captureHold!(offer.hold_session_id!);
+    } catch (e: any) {
+      const reason = String(e?.message ?? e).slice(0, 1000);
+      await db.from("orders").update({ payment_status: "failed" }).eq("id", orderId).eq("payment_status", "pending");
+      await db.from("offers").update({ status: "failed", last_error: reason, updated_at: now() }).eq("id", offer.id);
+      for (const who of [offer.buyer_id, offer.seller_id]) {
+        await notify(who, "offer", {
+          event: "failed", offer_id: offer.id, artwork_id: offer.artwork_id,
+          message: `The ${total(offer)} offer on “${title}” couldn't be charged`,
+        }, db);
+      }
+      throw new OfferError(`card capture failed: ${reason}`, 502);
+    }
+    await settleOfferOrder(db, offer, null, null);
+    await notifyAccepted(db, offer, title, "paid");
+    return { offer, order_id: orderId, status: "paid", instructions: null };
+  }
+
+  if (offer.funding === "weth_allowance") {
+    const wei = offerWei(offer);
+    await notifyAccepted(db, offer, title, "pending");
+    return {
+      offer,
+      order_id: orderId,
+      status: "pending",
+      instructions: {
+        chain_id: CHAIN_ID,
+        from: offer.weth_spender!,
+        to: wethAddress(),
+        value: "0x0",
+        data: encodeFunctionData({
+          abi: WETH_ABI,
+          functionName: "transferFrom",
+          args: [getAddress(offer.buyer_wallet!), getAddress(offer.weth_spender!), wei],
+        }),
+      },
+    };
+  }
+
+  await notifyAccepted(db, offer, title, "pending");
+  return { offer, order_id: orderId, status: "pending", instructions: null };
+}
+
+async function notifyAccepted(db: SupabaseClient, offer: OfferRow, title: string, status: "paid" | "pending") {
+  const base = { event: "accepted" as const, offer_id: offer.id, order_id: offer.order_id, artwork_id: offer.artwork_id };
+  const buyerMsg =
+    status === "paid"
+      ? `Your ${total(offer)} offer on “${title}” was accepted and charged`
+      : offer.funding === "none"
+      ? `Your ${total(offer)} offer on “${title}” was accepted — complete your payment`
+      : `Your ${total(offer)} offer on “${title}” was accepted; the WETH transfer is on its way`;
+  const sellerMsg =
+    offer.funding === "weth_allowance"
+      ? `You accepted ${total(offer)} for “${title}” — send the WETH transfer from your wallet`
+      : `You accepted ${total(offer)} for “${title}”`;
+  await notify(offer.buyer_id, "offer", { ...base, message: buyerMsg }, db);
+  await notify(offer.seller_id, "offer", { ...base, message: sellerMsg }, db);
+}
+
+/** settle_order for an accepted offer, then close competing offers on a sold one-of-one. */
+async function settleOfferOrder(db: SupabaseClient, offer: OfferRow, chainId: number | null, txHash: string | null) {
+  const { error } = await db.rpc("settle_order", { p_order_id: offer.order_id, p_chain_id: chainId, p_tx_hash: txHash });
+  if (error) throw new Error(`settle_order: ${error.message}`);
+
+  const art = await loadArtwork(db, offer.artwork_id);
+  if ((art.edition_type ?? "unique") !== "unique") return;
+  const { data: others } = await db
+    .from("offers")
+    .update({ status: "declined", last_error: "artwork sold", responded_at: now(), updated_at: now() })
+    .eq("artwork_id", offer.artwork_id)
+    .in("status", ["awaiting_funds", "open"])
+    .select("*");
+  for (const o of (others ?? []) as OfferRow[]) {
+    await releaseHold(o);
+    await notify(o.buyer_id, "offer", {
+      event: "declined", offer_id: o.id, artwork_id: o.artwork_id,
+      message: `“${art.title || "An artwork"}” sold; your ${total(o)} offer was closed`,
+    }, db);
+  }
+}
+
+/**
+ * WETH offers: the seller posts the hash of their transferFrom. The receipt
+ * must carry the WETH Transfer from the buyer's wallet to the approved seller
+ * wallet for at least the offer total, with enough confirmations; until then
+ * this answers "pending".
+ */
+export async function settleWethOffer(
+  offerId: string,
+  actorId: string,
+  txHash: string,
+  db: SupabaseClient = sbAdmin,
+  rpc: EthRpc = defaultRpc()
+): Promise<{ status: "paid" | "pending"; order_id: string }> {
+  const offer = await loadOffer(db, offerId);
+  if (offer.seller_id !== actorId) throw new OfferError("only the seller can settle this offer", 403);
+  if (offer.funding !== "weth_allowance") throw new OfferError("not a WETH offer");
+  if (offer.status !== "accepted" || !offer.order_id) throw new OfferError(`offer is ${offer.status}`, 409);
+
+  const { data: order } = await db.from("orders").select("id,payment_status").eq("id", offer.order_id).maybeSingle();
+  if (order?.payment_status === "paid") return { status: "paid", order_id: offer.order_id };
+  if (order?.payment_status !== "pending") throw new OfferError(`order is ${order?.payment_status}`, 409);
+
+  const hash = txHash.toLowerCase();
+  const { data: used } = await db.from("orders").select("id").eq("tx_hash", hash).neq("id", offer.order_id).limit(1).maybeSingle();
+  if (used) throw new OfferError("tx_hash was already used for another purchase", 409);
+
+  const rc = await rpc.request<any>("eth_getTransactionReceipt", [hash]);
+  if (!rc?.blockNumber) return { status: "pending", order_id: offer.order_id };
+  if (rc.status !== "0x1") throw new OfferError("WETH transfer reverted", 422);
+  const head = Number(BigInt(await rpc.request<string>("eth_blockNumber")));
+  if (head - Number(BigInt(rc.blockNumber)) + 1 < CONFIRMATIONS) return { status: "pending", order_id: offer.order_id };
+
+  const want = { from: offer.buyer_wallet!.toLowerCase(), to: offer.weth_spender!.toLowerCase(), value: offerWei(offer) };
+  const paid = (rc.logs ?? []).some((log: { address: string; topics: string[]; data: string }) => {
+    if (String(log.address).toLowerCase() !== wethAddress().toLowerCase()) return false;
+    try {
+      const ev = decodeEventLog({ abi: WETH_ABI, data: log.data as Hex, topics: log.topics as [Hex, ...Hex[]] });
+      if (ev.eventName !== "Transfer") return false;
+      return ev.args.from.toLowerCase() === want.from && ev.args.to.toLowerCase() === want.to && ev.args.value >= want.value;
+    } catch {
+      return false;
+    }
+  });
+  if (!paid) throw new OfferError("tx doesn't transfer the offered WETH from the buyer to your wallet", 422);
+
+  await settleOfferOrder(db, offer, CHAIN_ID, hash);
+  await notify(offer.buyer_id, "offer", {
+    event: "paid", offer_id: offer.id, order_id: offer.order_id, artwork_id: offer.artwork_id,
+    message: `Your ${total(offer)} offer is complete`,
+  }, db);
+  return { status: "paid", order_id: offer.order_id };
+}
+
+/**
+ * Accepted offers without funding: the buyer pays the order through a normal
+ * provider session (Stripe for card currencies, on-chain for ETH); the webhook
+ * settles it like any checkout.
+ */
+export async function payAcceptedOffer(
+  offerId: string,
+  buyerId: string,
+  providerId?: ProviderId,
+  wallet?: string | null,
+  db: SupabaseClient = sbAdmin
+) {
+  const offer = await loadOffer(db, offerId);
+  if (offer.buyer_id !== buyerId) throw new OfferError("not your offer", 403);
+  if (offer.status !== "accepted" || !offer.order_id) throw new OfferError(`offer is ${offer.status}`, 409);
+  if (offer.funding !== "none") throw new OfferError("this offer is paid from its hold / WETH allowance", 409);
+
+  const { data: order } = await db
+    .from("orders")
+    .select("id,listing_id,payment_status,pay_by")
+    .eq("id", offer.order_id)
+    .maybeSingle();
+  if (order?.payment_status !== "pending") throw new OfferError(`order is ${order?.payment_status}`, 409);
+  if (order.pay_by && new Date(order.pay_by).getTime() <= Date.now()) {
+    throw new OfferError("the payment deadline has passed", 410);
+  }
+
+  const id = providerId ?? (offer.currency === "ETH" ? "onchain" : "stripe");
+  const provider = getProvider(id);
+  if (!provider) throw new OfferError(`payment provider ${id} not available`);
+  const payerWallet = provider.id === "onchain" ? wallet?.toLowerCase() : null;
+  if (provider.id === "onchain" && !payerWallet) throw new OfferError("wallet required to pay on-chain");
+
+  // converted at a locked rate when the provider can't charge the order's currency
+  let charge;
+  try {
+    charge = await planCharge(id, Number(offer.amount), offer.currency);
+  } catch (e: any) {
+    console.error("fx quote failed:", e?.message);
+    throw new OfferError(`no exchange rate for ${offer.currency}`, 503);
+  }
+
+  const art = await loadArtwork(db, offer.artwork_id);
+  const listing = order.listing_id ? await activeListing(db, offer.artwork_id, offer.seller_id) : null;
+
+  let session;
+  try {
+    session = await provider.createSession({
+      orderId: order.id,
+      buyerId,
+      listingId: order.listing_id ?? "",
+      artworkId: offer.artwork_id,
+      title: art.title || "Artwork",
+      quantity: offer.quantity,
+      unitPrice: charge.unitPrice,
+      currency: charge.currency,
+      payTo: listing?.seller_wallet ?? null,
+      payFrom: payerWallet,
+      expiresAt: order.pay_by ? new Date(order.pay_by) : null,
+      successUrl: `${APP_URL}/checkout/success?order_id=${order.id}`,
+      cancelUrl: `${APP_URL}/art/${offer.artwork_id}`,
+    });
+  } catch (e: any) {
+    throw new OfferError(e?.message || "payment provider error", 502);
+  }
+
+  await db
+    .from("orders")
+    .update({
+      settlement_kind: provider.id,
+      charge_currency: charge.currency,
+      charge_amount: charge.unitPrice * offer.quantity,
+      ...charge.fx,
+      payer_wallet: payerWallet,
+      amount_wei: provider.id === "onchain" ? orderWei(charge.unitPrice, offer.quantity).toString() : null,
+      ...(provider.id === "stripe" ? { stripe_session_id: session.id } : { provider_session_id: session.id }),
+    })
+    .eq("id", order.id);
+
+  return {
+    order_id: order.id,
+    provider: provider.id,
+    checkout_url: session.url,
+    instructions: session.instructions ?? null,
+  };
+}
+
+/**
+ * Job: expire live offers past expires_at, release their holds, tell both
+ * sides; then expire accepted offers not paid by their order's pay_by.
+ */
+export async function expireOffers(limit = 200, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("expire_offers", { p_limit: limit });
+  if (error) throw new Error(`expire_offers: ${error.message}`);
+  const expired = (data ?? []) as OfferRow[];
+  for (const offer of expired) {
+    await releaseHold(offer);
+    for (const who of [offer.buyer_id, offer.seller_id]) {
+      await notify(who, "offer", {
+        event: "expired", offer_id: offer.id, artwork_id: offer.artwork_id,
+        message: `An offer of ${total(offer)} expired`,
+      }, db);
+    }
+  }
+
+  const { data: lapsedRows, error: lerr } = await db.rpc("lapse_offer_orders", { p_limit: limit });
+  if (lerr) throw new Error(`lapse_offer_orders: ${lerr.message}`);
+  const lapsed = (lapsedRows ?? []) as OfferRow[];
+  for (const offer of lapsed) {
+    for (const who of [offer.buyer_id, offer.seller_id]) {
+      await notify(who, "offer", {
+        event: "expired", offer_id: offer.id, artwork_id: offer.artwork_id,
+        message: `The accepted ${total(offer)} offer wasn't paid in time and has expired`,
+      }, db);
+    }
+  }
+  return { expired: expired.length, lapsed: lapsed.length };
+}
@@ -10,10 +10,28 @@ export type Order = {
   total_amount: number;
   currency: string | null;
   kind: "fixed_price" | "auction";
-  payment_status: "pending" | "paid" | "failed" | "refunded";
+  payment_status:
+    | "pending"
+    | "processing"
+    | "paid"
+    | "underpaid"
+    | "delayed"
+    | "expired"
+    | "failed"
+    | "refunded";
   delivery_status: "pending" | "transferred" | "failed";
   created_at: string;
   settled_at: string | null;
+  refunded_at?: string | null;
+  // crypto charges: what actually arrived vs. total_amount (order currency)
+  amount_received?: number | null;
+  underpaid_amount?: number | null;
+  overpaid_amount?: number | null;
+  // what the provider charged, when that differs from the listing currency
+  charge_currency?: string | null;
+  charge_amount?: number | null;
+  fx_rate?: number | null;
+  fx_locked_at?: string | null;
 };
 
 export async function buyNow(listingId: string, quantity = 1): Promise<Order> {
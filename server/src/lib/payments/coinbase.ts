@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { coinbaseSupports, roundToMinor } from "../currency";
+import type { CheckoutInput, PaymentProvider, PaymentStatus } from "./types";
+import { WebhookSignatureError } from "./types";
+
+const CC_API = "https://api.commerce.coinbase.com";
+const CC_VERSION = "2018-03-22";
+
+/**
+ * For logs and the ledger; settlement runs the charge through coinbaseSettlement
+ * (the module the edge functions use), which records under/overpayment, delays
+ * and expiry. charge:created is skipped: checkout already linked the charge.
+ */
+const STATUS_BY_TYPE: Record<string, PaymentStatus> = {
+  "charge:pending": "processing",
+  "charge:confirmed": "paid",
+  "charge:resolved": "paid",
+  "charge:delayed": "paid",
+  "charge:failed": "failed",
+};
+
+/** Coinbase Commerce signs the raw body with HMAC-SHA256 (hex) in X-CC-Webhook-Signature. */
+export function verifyCoinbaseSignature(rawBody: Buffer, sigHeader: string, secret: string) {
+  const expected = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  const got = sigHeader.trim().toLowerCase();
+  if (got.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(got), Buffer.from(expected));
+}
+
+export function createCoinbaseProvider(apiKey: string, webhookSecret: string): PaymentProvider {
+  return {
+    id: "coinbase_commerce",
+
+    async createSession(input: CheckoutInput) {
+      // checkout converts anything else (planCharge) before it gets here
+      const ccy = input.currency.toUpperCase();
+      if (!coinbaseSupports(ccy)) throw new Error(`coinbase charges can't be priced in ${ccy}`);
+      const amount = roundToMinor(input.unitPrice * input.quantity, ccy);
+
+      const res = await fetch(`${CC_API}/charges`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CC-Api-Key": apiKey,
+          "X-CC-Version": CC_VERSION,
+        },
+        body: JSON.stringify({
+          name: input.title,
+          description: `Listing ${input.listingId}`,
+          pricing_type: "fixed_price",
+          local_price: { amount: amount.toFixed(2), currency: ccy },
+          metadata: {
+            order_id: input.orderId,
+            listing_id: input.listingId,
+            artwork_id: input.artworkId,
+            buyer_id: input.buyerId,
+          },
+          redirect_url: input.successUrl,
+          cancel_url: input.cancelUrl,
+        }),
+      });
+      if (!res.ok) throw new Error(`coinbase charge failed: ${(await res.text()).slice(0, 300)}`);
+
+      const charge: any = await res.json();
+      return { id: String(charge?.data?.code ?? charge?.data?.id), url: charge?.data?.hosted_url ?? null };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!webhookSecret) throw new Error("COINBASE_COMMERCE_WEBHOOK_SECRET not set");
+      const sig = String(headers["x-cc-webhook-signature"] || "");
+      if (!verifyCoinbaseSignature(rawBody, sig, webhookSecret)) throw new WebhookSignatureError();
+
+      const body = JSON.parse(rawBody.toString("utf8"));
+      const event = body?.event ?? {};
+      const status = STATUS_BY_TYPE[String(event.type)];
+      if (!status) return null;
+
+      const payments: any[] = event.data?.payments ?? [];
+      const onchain = payments.find((p) => p?.transaction_id);
+
+      return {
+        provider: "coinbase_commerce",
+        eventId: String(event.id),
+        type: String(event.type),
+        status,
+        orderId: event.data?.metadata?.order_id ?? null,
+        chainId: 0,
+        txHash: onchain?.transaction_id ?? null,
+        raw: body,
+      };
+    },
+  };
+}
@@ -0,0 +1,176 @@
+// Coinbase Commerce charge lifecycle → orders.payment_status.
+// Used by cc-webhook, coinbase-webhook and the API's /webhooks/coinbase_commerce
+// after the event has been claimed in the webhook ledger, so each event is
+// applied at most once. Two identical copies, like currencyCore.ts:
+//   supabase/functions/_shared/coinbase-settlement.ts   edge functions
+//   server/src/lib/payments/coinbaseSettlement.ts       the API
+// server/test/coinbase.test.ts fails while they differ; no imports, so both
+// runtimes load it as is.
+//
+//   charge:created    link the charge to its order, nothing else
+//   charge:pending    payment seen on-chain, awaiting confirmations → processing
+//   charge:confirmed  settle_order (splits + ownership, same as buy_fixed_price) → paid;
+//                     short of the charge's price → underpaid, nothing settles
+//   charge:failed     expired with nothing received → expired; short payment → underpaid
+//   charge:delayed    paid after the charge expired → delayed (needs resolving in Commerce)
+//   charge:resolved   merchant accepted an unresolved charge → settle_order → paid
+//
+// Under/overpayment is always recorded on the order, whatever the outcome.
+// A charge settle_order refuses (sold out, already sold…) goes to `refused`
+// when the caller passes one; otherwise it throws and the event fails.
+
+// deno-lint-ignore-file no-explicit-any
+
+/** The slice of a Supabase client this needs. */
+export type ChargeDb = { from(table: string): any; rpc(fn: string, args?: any): any };
+
+export const CHARGE_EVENTS = new Set([
+  "charge:created", "charge:pending", "charge:confirmed", "charge:failed", "charge:delayed", "charge:resolved",
+]);
+
+/**
+ * settled   settle_order ran (paid)
+ * recorded  the charge's state was written to the order, nothing settled
+ * refused   paid, but settle_order refused it (handed to `refused`)
+ * ignored   no order, the order is final already, or not a charge event
+ */
+export type ChargeResult = "settled" | "recorded" | "refused" | "ignored";
+
+export type ChargeHooks = { refused?: (order: any, reason: string) => Promise<unknown> };
+
+/** How the webhook ledger files a result. */
+export function ledgerOutcome(result: ChargeResult): "processed" | "ignored" {
+  return result === "ignored" ? "ignored" : "processed";
+}
+
+// Amounts within this many local-currency units count as exact.
+const TOLERANCE = 0.01;
+
+const FINAL = new Set(["paid", "refunded"]);
+
+function num(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Sum of non-failed payments in the charge's local (pricing) currency. */
+export function receivedLocal(charge: any) {
+  const payments: any[] = charge?.payments ?? [];
+  return payments
+    .filter((p) => String(p?.status || "").toUpperCase() !== "FAILED")
+    .reduce((acc, p) => acc + num(p?.value?.local?.amount), 0);
+}
+
+async function resolveOrder(db: ChargeDb, charge: any) {
+  const md = charge?.metadata ?? {};
+  const code = charge?.code ?? null;
+
+  if (md.order_id) {
+    const { data } = await db.from("orders").select("*").eq("id", md.order_id).maybeSingle();
+    if (data) return data;
+  }
+  if (code) {
+    const { data } = await db.from("orders").select("*").eq("coinbase_charge_code", code).maybeSingle();
+    if (data) return data;
+  }
+
+  // Charges opened before orders existed up front carry listing + buyer only
+  if (!md.listing_id || !md.buyer_id) return null;
+  const { data: listing } = await db
+    .from("listings")
+    .select("id, artwork_id, seller_id, fixed_price, sale_currency")
+    .eq("id", md.listing_id)
+    .maybeSingle();
+  if (!listing?.fixed_price) return null;
+
+  const quantity = Math.max(1, num(md.quantity) || 1);
+  const { data: created, error } = await db
+    .from("orders")
+    .insert({
+      listing_id: listing.id,
+      artwork_id: listing.artwork_id,
+      seller_id: listing.seller_id,
+      buyer_id: md.buyer_id,
+      quantity,
+      unit_price: listing.fixed_price,
+      total_amount: num(listing.fixed_price) * quantity,
+      currency: listing.sale_currency,
+      kind: "fixed_price",
+      payment_status: "pending",
+      settlement_kind: "coinbase_commerce",
+      coinbase_charge_code: code,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(`order insert: ${error.message}`);
+  return created;
+}
+
+export async function applyChargeEvent(db: ChargeDb, evt: any, hooks: ChargeHooks = {}): Promise<ChargeResult> {
+  const type: string = evt?.event?.type ?? "";
+  const charge = evt?.event?.data ?? {};
+
+  const order = await resolveOrder(db, charge);
+  if (!order) {
+    console.warn("coinbase: no order for charge", charge?.code, charge?.metadata);
+    return "ignored";
+  }
+  if (FINAL.has(order.payment_status)) return "ignored";
+
+  // Compare in the charge's pricing currency, record in the order's currency
+  const expectedLocal = num(charge?.pricing?.local?.amount);
+  const gotLocal = receivedLocal(charge);
+  const rate = expectedLocal > 0 ? num(order.total_amount) / expectedLocal : 1;
+  const diff = gotLocal - expectedLocal;
+
+  const patch: Record<string, unknown> = {
+    coinbase_charge_code: charge?.code ?? order.coinbase_charge_code ?? null,
+    payment_event: type,
+  };
+  if (gotLocal > 0) {
+    patch.amount_received = +(gotLocal * rate).toFixed(8);
+    patch.underpaid_amount = diff < -TOLERANCE ? +(-diff * rate).toFixed(8) : null;
+    patch.overpaid_amount = diff > TOLERANCE ? +(diff * rate).toFixed(8) : null;
+  }
+
+  const txHash =
+    (charge?.payments ?? []).find((p: any) => p?.transaction_id)?.transaction_id ?? null;
+
+  switch (type) {
+    case "charge:created":
+      break;
+    case "charge:pending":
+      patch.payment_status = "processing";
+      break;
+    case "charge:failed":
+      patch.payment_status = gotLocal > 0 && diff < -TOLERANCE ? "underpaid" : "expired";
+      break;
+    case "charge:delayed":
+      patch.payment_status = "delayed";
+      break;
+    case "charge:confirmed":
+    case "charge:resolved": {
+      // confirmed for less than it was priced at: don't hand the work over
+      if (type === "charge:confirmed" && diff < -TOLERANCE) {
+        patch.payment_status = "underpaid";
+        break;
+      }
+      const { error: ue } = await db.from("orders").update(patch).eq("id", order.id);
+      if (ue) throw new Error(`order update: ${ue.message}`);
+      const { error } = await db.rpc("settle_order", { p_order_id: order.id, p_chain_id: null, p_tx_hash: txHash });
+      // P0001: settle_order raised, i.e. refused the sale; retrying won't change that
+      if (error?.code === "P0001" && hooks.refused) {
+        await hooks.refused(order, error.message);
+        return "refused";
+      }
+      if (error) throw new Error(`settle_order: ${error.message}`);
+      return "settled";
+    }
+    default:
+      return "ignored";
+  }
+
+  const { error } = await db.from("orders").update(patch).eq("id", order.id);
+  if (error) throw new Error(`order update: ${error.message}`);
+  return "recorded";
+}
@@ -0,0 +1,85 @@
+/**
+ * Verifies a native ETH payment on-chain before an order is settled.
+ * Everything goes through `EthRpc`, so tests can point it at a local node
+ * (hardhat / anvil) or hand it an in-process stand-in chain.
+ */
+
+export interface EthRpc {
+  request<T = any>(method: string, params?: unknown[]): Promise<T>;
+}
+
+/** Plain JSON-RPC over HTTP (Infura, Alchemy, a local hardhat node…). */
+export function createHttpRpc(url: string): EthRpc {
+  let nextId = 1;
+  return {
+    async request(method, params = []) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+      });
+      if (!res.ok) throw new Error(`rpc ${method}: HTTP ${res.status}`);
+      const body: any = await res.json();
+      if (body.error) throw new Error(`rpc ${method}: ${body.error.message ?? body.error.code}`);
+      return body.result;
+    },
+  };
+}
+
+export type EthPaymentExpectation = {
+  txHash: string;
+  to: string;
+  /** Sender the tx must come from, when the payer is known up front. */
+  from?: string | null;
+  minValueWei: bigint;
+  chainId: number;
+  confirmations: number;
+};
+
+export type EthLog = { address: string; topics: string[]; data: string };
+
+export type EthVerification =
+  | { ok: true; from: string; valueWei: bigint; blockNumber: number; confirmations: number; logs: EthLog[] }
+  | { ok: false; pending: true; reason: "not_found" | "not_mined" | "confirmations"; confirmations?: number }
+  | { ok: false; pending: false; reason: "wrong_chain" | "wrong_recipient" | "wrong_sender" | "insufficient_value" | "reverted" };
+
+const hexToNumber = (h: string | null | undefined) => (h ? Number(BigInt(h)) : 0);
+
+export async function verifyEthPayment(rpc: EthRpc, want: EthPaymentExpectation): Promise<EthVerification> {
+  const [chainIdHex, tx] = await Promise.all([
+    rpc.request<string>("eth_chainId"),
+    rpc.request<any>("eth_getTransactionByHash", [want.txHash]),
+  ]);
+
+  if (hexToNumber(chainIdHex) !== want.chainId) return { ok: false, pending: false, reason: "wrong_chain" };
+  // dropped or not yet propagated to this node: the client may retry
+  if (!tx) return { ok: false, pending: true, reason: "not_found" };
+  if (String(tx.to ?? "").toLowerCase() !== want.to.toLowerCase()) {
+    return { ok: false, pending: false, reason: "wrong_recipient" };
+  }
+  if (want.from && String(tx.from ?? "").toLowerCase() !== want.from.toLowerCase()) {
+    return { ok: false, pending: false, reason: "wrong_sender" };
+  }
+
+  const valueWei = BigInt(tx.value ?? "0x0");
+  if (valueWei < want.minValueWei) return { ok: false, pending: false, reason: "insufficient_value" };
+  if (!tx.blockNumber) return { ok: false, pending: true, reason: "not_mined" };
+
+  const receipt = await rpc.request<any>("eth_getTransactionReceipt", [want.txHash]);
+  if (!receipt) return { ok: false, pending: true, reason: "not_mined" };
+  if (hexToNumber(receipt.status) !== 1) return { ok: false, pending: false, reason: "reverted" };
+
+  const head = hexToNumber(await rpc.request<string>("eth_blockNumber"));
+  const blockNumber = hexToNumber(receipt.blockNumber);
+  const confirmations = head - blockNumber + 1;
+  if (confirmations < want.confirmations) return { ok: false, pending: true, reason: "confirmations", confirmations };
+
+  return {
+    ok: true,
+    from: String(tx.from).toLowerCase(),
+    valueWei,
+    blockNumber,
+    confirmations,
+    logs: (receipt.logs ?? []) as EthLog[],
+  };
+}
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import type { CheckoutInput, PaymentProvider, PaymentStatus } from "./types";
+import { WebhookSignatureError } from "./types";
+
+type FakeSession = CheckoutInput & { id: string; status: PaymentStatus };
+
+export type FakePaymentProvider = PaymentProvider & {
+  sessions: Map<string, FakeSession>;
+  /**
+   * Resolve a session the way a real provider would and return the signed
+   * webhook delivery, ready to POST to /webhooks/fake (or feed to parseWebhook).
+   */
+  complete(sessionId: string, status?: PaymentStatus): { body: Buffer; headers: Record<string, string> };
+};
+
+/** In-memory provider so checkout → webhook → settlement can run without network access. */
+export function createFakeProvider(secret = crypto.randomBytes(32).toString("hex")): FakePaymentProvider {
+  const sessions = new Map<string, FakeSession>();
+  const sign = (body: Buffer) => crypto.createHmac("sha256", secret).update(body).digest("hex");
+
+  return {
+    id: "fake",
+    sessions,
+
+    async createSession(input) {
+      const id = `fake_cs_${crypto.randomUUID()}`;
+      sessions.set(id, { ...input, id, status: "pending" });
+      return { id, url: `${input.successUrl}${input.successUrl.includes("?") ? "&" : "?"}fake_session=${id}` };
+    },
+
+    complete(sessionId, status = "paid") {
+      const session = sessions.get(sessionId);
+      if (!session) throw new Error(`unknown fake session ${sessionId}`);
+      session.status = status;
+
+      const body = Buffer.from(
+        JSON.stringify({
+          id: `fake_evt_${crypto.randomUUID()}`,
+          type: `session.${status}`,
+          session_id: session.id,
+          order_id: session.orderId,
+          status,
+        })
+      );
+      return { body, headers: { "x-fake-signature": sign(body) } };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      const sig = String(headers["x-fake-signature"] || "");
+      const expected = sign(rawBody);
+      if (sig.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) {
+        throw new WebhookSignatureError();
+      }
+
+      const body = JSON.parse(rawBody.toString("utf8"));
+      return {
+        provider: "fake",
+        eventId: body.id,
+        type: body.type,
+        status: body.status,
+        orderId: body.order_id ?? null,
+        chainId: 0,
+        txHash: null,
+        raw: body,
+      };
+    },
+
+    async refund() {
+      return { status: "succeeded", reference: `fake_re_${crypto.randomUUID()}` };
+    },
+  };
+}
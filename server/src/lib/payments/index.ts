@@ -0,0 +1,47 @@
+import { createStripeProvider } from "./stripe";
+import { createCoinbaseProvider } from "./coinbase";
+import { createOnchainProvider } from "./onchain";
+import { createHttpRpc } from "./ethVerifier";
+import { createFakeProvider } from "./fake";
+import type { PaymentProvider, ProviderId } from "./types";
+
+export * from "./types";
+export { settlePaymentEvent } from "./settle";
+export { createHttpRpc, verifyEthPayment, type EthRpc } from "./ethVerifier";
+
+const {
+  STRIPE_SECRET_KEY = "",
+  STRIPE_WEBHOOK_SECRET = "",
+  COINBASE_COMMERCE_API_KEY = "",
+  COINBASE_COMMERCE_WEBHOOK_SECRET = "",
+  ONCHAIN_CHAIN_ID,
+  ETH_RPC_URL = "",
+  ETH_MIN_CONFIRMATIONS,
+  ENABLE_FAKE_PAYMENTS,
+} = process.env;
+
+const providers = new Map<ProviderId, PaymentProvider>();
+
+// Providers without credentials simply aren't registered; checkout reports them as unavailable.
+if (STRIPE_SECRET_KEY) providers.set("stripe", createStripeProvider(STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET));
+if (COINBASE_COMMERCE_API_KEY) {
+  providers.set("coinbase_commerce", createCoinbaseProvider(COINBASE_COMMERCE_API_KEY, COINBASE_COMMERCE_WEBHOOK_SECRET));
+}
+providers.set(
+  "onchain",
+  createOnchainProvider({
+    chainId: ONCHAIN_CHAIN_ID ? Number(ONCHAIN_CHAIN_ID) : undefined,
+    rpc: ETH_RPC_URL ? createHttpRpc(ETH_RPC_URL) : null,
+    confirmations: ETH_MIN_CONFIRMATIONS ? Number(ETH_MIN_CONFIRMATIONS) : undefined,
+  })
+);
+if (ENABLE_FAKE_PAYMENTS === "1") providers.set("fake", createFakeProvider());
+
+export function getProvider(id: string): PaymentProvider | null {
+  return providers.get(id as ProviderId) ?? null;
+}
+
+/** Swap or add a provider at runtime (used to plug the fake in for offline runs). */
+export function registerProvider(provider: PaymentProvider) {
+  providers.set(provider.id, provider);
+}
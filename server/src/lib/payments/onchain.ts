@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "../supabase";
+import { verifyEthPayment, type EthRpc } from "./ethVerifier";
+import { findRedemption, recordRedemption, type VoucherRow } from "../vouchers";
+import type { CheckoutInput, PaymentProvider } from "./types";
+
+const SEPOLIA_CHAIN_ID = 11155111;
+
+/** "0.05" ETH -> wei, without going through floats. Numbers are read in plain notation (1e-7 → "0.0000001"). */
+export function parseEther(amount: string | number): bigint {
+  const s = typeof amount === "number" ? amount.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 18 }) : String(amount);
+  if (!/^\d+(\.\d+)?$/.test(s)) throw new Error("Invalid ETH amount");
+  const [ints, decs = ""] = s.split(".");
+  const d = (decs + "000000000000000000").slice(0, 18);
+  return BigInt(ints) * 10n ** 18n + BigInt(d);
+}
+
+/** What an order of `quantity` at `unitPrice` ETH costs, in wei; checkout stores it as orders.amount_wei. */
+export function orderWei(unitPrice: string | number, quantity: number): bigint {
+  return parseEther(unitPrice) * BigInt(quantity);
+}
+
+export type OnchainOptions = {
+  chainId?: number;
+  /** JSON-RPC endpoint used to verify payments. Without one nothing settles. */
+  rpc?: EthRpc | null;
+  /** Blocks on top of the payment's block (inclusive) before it counts. */
+  confirmations?: number;
+  db?: SupabaseClient;
+};
+
+/**
+ * Native ETH transfer straight to the seller's wallet. There is no hosted page:
+ * the session carries the tx params for the wallet, and the "webhook" is the
+ * buyer posting back the tx hash once it has been broadcast.
+ *
+ * Nothing in that post is trusted. The transaction and receipt are fetched over
+ * JSON-RPC and must come from the wallet the buyer opened the order with
+ * (orders.payer_wallet), pay the listing's seller_wallet at least the wei the
+ * checkout asked for (orders.amount_wei), have succeeded, and be buried under enough confirmations. Until then the
+ * event comes back "pending" and the order stays pending; the client re-posts.
+ * A hash already used by another order or sale is refused.
+ *
+ * Lazy-minted artworks (orders with a voucher_id) are paid through
+ * TaedalNFT.redeem instead: the tx goes to the contract with the voucher price,
+ * and its VoucherRedeemed log must name that voucher's creator and nonce. The
+ * minted token id is recorded on the artwork before the order settles.
+ */
+export function createOnchainProvider(opts: OnchainOptions = {}): PaymentProvider {
+  const chainId = opts.chainId ?? SEPOLIA_CHAIN_ID;
+  const confirmations = opts.confirmations ?? 2;
+  const db = opts.db ?? sbAdmin;
+
+  return {
+    id: "onchain",
+
+    async createSession(input: CheckoutInput) {
+      if (input.currency.toUpperCase() !== "ETH") throw new Error("on-chain checkout only supports ETH listings");
+      if (!input.payFrom) throw new Error("on-chain checkout needs the buyer's wallet");
+      if (input.redeem) {
+        return {
+          id: input.orderId,
+          url: null,
+          instructions: {
+            kind: "redeem",
+            chain_id: chainId,
+            from: input.payFrom,
+            to: input.redeem.to,
+            value: "0x" + input.redeem.valueWei.toString(16),
+            data: input.redeem.data,
+          },
+        };
+      }
+      if (!input.payTo) throw new Error("listing has no seller_wallet");
+
+      const value = orderWei(input.unitPrice, input.quantity);
+      return {
+        id: input.orderId,
+        url: null,
+        instructions: {
+          chain_id: chainId,
+          from: input.payFrom,
+          to: input.payTo,
+          value: "0x" + value.toString(16),
+        },
+      };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      const body = JSON.parse(rawBody.toString("utf8") || "{}");
+      const orderId = typeof body.order_id === "string" ? body.order_id : null;
+      const txHash = typeof body.tx_hash === "string" ? body.tx_hash.toLowerCase() : "";
+      if (!orderId || !/^0x[0-9a-f]{64}$/.test(txHash)) throw new Error("order_id and tx_hash are required");
+      if (body.chain_id != null && Number(body.chain_id) !== chainId) throw new Error(`expected chain ${chainId}`);
+      if (!opts.rpc) throw new Error("on-chain verification is not configured (ETH_RPC_URL)");
+
+      const { data: order, error } = await db
+        .from("orders")
+        .select("id,buyer_id,listing_id,voucher_id,unit_price,quantity,amount_wei,currency,payment_status,payer_wallet,tx_hash")
+        .eq("id", orderId)
+        .maybeSingle();
+      if (error) throw new Error(`order lookup: ${error.message}`);
+      if (!order) throw new Error(`order ${orderId} not found`);
+      if (String(order.currency).toUpperCase() !== "ETH") throw new Error("order is not payable in ETH");
+
+      // Only the buyer may attach a payment to their order, so a hash seen in
+      // the mempool can't be claimed against someone else's order first.
+      const m = /^Bearer\s+(.+)$/i.exec(String(headers.authorization || ""));
+      const { data: who } = m ? await db.auth.getUser(m[1]) : { data: null };
+      if (!who?.user || who.user.id !== order.buyer_id) throw new Error("only the buyer can confirm this order");
+      // ...and only with a payment from the wallet they opened it with, not
+      // someone else's matching transfer to the same seller
+      if (!order.payer_wallet) throw new Error("order has no paying wallet");
+
+      let voucher: VoucherRow | null = null;
+      let payTo: string;
+      let minValueWei: bigint;
+      if (order.voucher_id) {
+        const { data } = await db.from("mint_vouchers").select("*").eq("id", order.voucher_id).maybeSingle();
+        if (!data) throw new Error("order's mint voucher not found");
+        voucher = data as VoucherRow;
+        payTo = voucher.contract_address;
+        minValueWei = BigInt(voucher.price_wei);
+      } else {
+        const { data: listing } = await db
+          .from("listings")
+          .select("seller_wallet")
+          .eq("id", order.listing_id)
+          .maybeSingle();
+        if (!listing?.seller_wallet) throw new Error("listing has no seller_wallet");
+        payTo = listing.seller_wallet;
+        // orders from before amount_wei: recompute from the unit price, never the float total
+        minValueWei = order.amount_wei ? BigInt(order.amount_wei) : orderWei(order.unit_price, order.quantity);
+      }
+
+      // a redelivery for the order this tx already settled is left to the webhook ledger
+      const settledHere = order.tx_hash === txHash;
+      const [{ data: usedOrder }, { data: usedSale }] = await Promise.all([
+        db.from("orders").select("id").eq("tx_hash", txHash).neq("id", order.id).limit(1).maybeSingle(),
+        settledHere ? { data: null } : db.from("sales").select("id").eq("tx_hash", txHash).limit(1).maybeSingle(),
+      ]);
+      if (usedOrder || usedSale) throw new Error("tx_hash was already used for another purchase");
+
+      const check = await verifyEthPayment(opts.rpc, {
+        txHash,
+        to: payTo,
+        from: order.payer_wallet,
+        minValueWei,
+        chainId,
+        confirmations,
+      });
+      if (!check.ok && !check.pending) throw new Error(`payment rejected: ${check.reason}`);
+
+      if (check.ok && voucher) {
+        const minted = findRedemption(voucher, check.logs);
+        if (!minted) throw new Error("payment rejected: tx did not redeem this artwork's voucher");
+        await recordRedemption(voucher, { orderId, txHash, ...minted }, db);
+      }
+
+      return {
+        provider: "onchain",
+        eventId: txHash,
+        type: check.ok ? "tx.confirmed" : `tx.${check.reason}`,
+        status: check.ok ? "paid" : "pending",
+        orderId,
+        chainId,
+        txHash,
+        raw: body,
+      };
+    },
+
+    /**
+     * There's no way to pull ETH back: the seller sends it to the buyer and the
+     * refund records that transfer, checked the same way as the payment was
+     * (paid to the wallet the original payment came from, at least the total).
+     */
+    async refund(input) {
+      if (!opts.rpc) throw new Error("on-chain verification is not configured (ETH_RPC_URL)");
+      if (!input.txHash) throw new Error("order has no payment tx");
+      const refundTx = String(input.refundTxHash || "").toLowerCase();
+      if (!/^0x[0-9a-f]{64}$/.test(refundTx)) throw new Error("tx_hash of the refund transfer is required");
+      if (refundTx === input.txHash.toLowerCase()) throw new Error("that is the payment, not the refund");
+
+      const paid = await opts.rpc.request<any>("eth_getTransactionByHash", [input.txHash]);
+      if (!paid?.from) throw new Error("original payment tx not found");
+
+      const check = await verifyEthPayment(opts.rpc, {
+        txHash: refundTx,
+        to: paid.from,
+        minValueWei: parseEther(input.amount),
+        chainId,
+        confirmations,
+      });
+      if (!check.ok && !check.pending) throw new Error(`refund rejected: ${check.reason}`);
+      return { status: check.ok ? "succeeded" : "pending", reference: refundTx };
+    },
+  };
+}
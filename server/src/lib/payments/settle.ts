@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "../supabase";
+import { notify } from "../notify";
+import { refundRefusedPayment } from "../refunds";
+import { applyChargeEvent } from "./coinbaseSettlement";
+import type { PaymentEvent } from "./types";
+
+/** "recorded": the provider's state was written to the order, nothing settled (Coinbase: processing, underpaid, delayed). */
+export type SettleResult = "settled" | "recorded" | "failed" | "refused" | "paid_after_expiry" | "ignored";
+
+/** SQLSTATE of a plpgsql `raise exception`: settle_order refusing the sale, not a database failure. */
+const REFUSED = "P0001";
+
+/**
+ * The single settlement path for every provider. A paid event goes through
+ * `settle_order` (payout splits, sale row, ownership, provenance all live there);
+ * failed/expired events close out the pending order. Orders that already
+ * reached a final state are left alone, so replaying or redelivering an event
+ * is harmless. (A late "paid" may still rescue a failed order.)
+ * Coinbase Commerce charges go through coinbaseSettlement, shared with the
+ * edge functions (charge lifecycle, under/overpayment, delays).
+ * A payment settle_order refuses (sold out, already sold...) is "refused": the
+ * money was taken, so it goes back (refundRefusedPayment). So does a payment
+ * for an order that had already expired (a lapsed auction award, an accepted
+ * offer unpaid by its deadline): "paid_after_expiry".
+ * Offer pre-authorizations only open (or fail) the offer; nothing settles
+ * until it is accepted.
+ */
+export async function settlePaymentEvent(evt: PaymentEvent, db: SupabaseClient = sbAdmin): Promise<SettleResult> {
+  if (!evt.orderId && evt.offerId) return settleOfferHold(evt, db);
+  if (evt.provider === "coinbase_commerce") {
+    return applyChargeEvent(db, evt.raw, { refused: (order, reason) => refundRefusedPayment(order.id, reason, db) });
+  }
+  if (!evt.orderId) return "ignored";
+
+  const { data: order, error: oerr } = await db
+    .from("orders")
+    .select("id,payment_status")
+    .eq("id", evt.orderId)
+    .maybeSingle();
+  if (oerr) throw new Error(`order lookup: ${oerr.message}`);
+  if (!order) throw new Error(`order ${evt.orderId} not found`);
+  if (evt.status === "paid" && order.payment_status === "expired") {
+    console.warn(`${evt.provider} ${evt.eventId}: order ${order.id} was paid after it expired`);
+    await refundRefusedPayment(order.id, "the order had expired before it was paid", db);
+    return "paid_after_expiry";
+  }
+  const open = evt.status === "paid" ? ["pending", "failed"] : ["pending"];
+  if (!open.includes(order.payment_status)) return "ignored";
+
+  switch (evt.status) {
+    case "paid": {
+      const { error } = await db.rpc("settle_order", {
+        p_order_id: evt.orderId,
+        p_chain_id: evt.chainId || null,
+        p_tx_hash: evt.txHash ?? null,
+      });
+      if (error?.code === REFUSED) {
+        console.warn(`${evt.provider} ${evt.eventId}: settle_order refused order ${order.id}: ${error.message}`);
+        await refundRefusedPayment(order.id, error.message, db);
+        return "refused";
+      }
+      if (error) throw new Error(`settle_order: ${error.message}`);
+      return "settled";
+    }
+    case "failed":
+    case "expired": {
+      const { error } = await db
+        .from("orders")
+        .update({ payment_status: evt.status })
+        .eq("id", evt.orderId)
+        .eq("payment_status", "pending");
+      if (error) throw new Error(`order update: ${error.message}`);
+      return "failed";
+    }
+    default:
+      return "ignored";
+  }
+}
+
+async function settleOfferHold(evt: PaymentEvent, db: SupabaseClient): Promise<SettleResult> {
+  if (evt.status !== "paid" && evt.status !== "failed" && evt.status !== "expired") return "ignored";
+  const authorized = evt.status === "paid";
+  const { data, error } = await db
+    .from("offers")
+    .update(
+      authorized
+        ? { status: "open", updated_at: new Date().toISOString() }
+        : { status: "failed", last_error: `pre-authorization ${evt.status}`, updated_at: new Date().toISOString() }
+    )
+    .eq("id", evt.offerId!)
+    .eq("status", "awaiting_funds")
+    .select("id,artwork_id,buyer_id,seller_id,amount,quantity,currency");
+  if (error) throw new Error(`offer update: ${error.message}`);
+  const offer = data?.[0];
+  if (!offer) return "ignored";
+
+  const total = `${Number(offer.amount) * offer.quantity} ${offer.currency}`;
+  if (authorized) {
+    await notify(offer.seller_id, "offer", {
+      event: "made", offer_id: offer.id, artwork_id: offer.artwork_id,
+      message: `New offer of ${total} (funds held)`,
+    }, db);
+  } else {
+    await notify(offer.buyer_id, "offer", {
+      event: "failed", offer_id: offer.id, artwork_id: offer.artwork_id,
+      message: `Your ${total} offer wasn't placed: the card authorization didn't go through`,
+    }, db);
+  }
+  return authorized ? "settled" : "failed";
+}
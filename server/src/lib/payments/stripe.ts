@@ -0,0 +1,158 @@
+import Stripe from "stripe";
+import type { CheckoutInput, HoldInput, PaymentEvent, PaymentProvider, PaymentStatus } from "./types";
+import { WebhookSignatureError } from "./types";
+import { toMinorUnits } from "../currency";
+
+const STATUS_BY_TYPE: Record<string, PaymentStatus> = {
+  "checkout.session.completed": "paid",
+  "checkout.session.async_payment_succeeded": "paid",
+  "checkout.session.async_payment_failed": "failed",
+  "checkout.session.expired": "expired",
+};
+
+/** Stripe accepts a session expiry 30 minutes to 24 hours out (plus a minute's slack for the request). */
+const MIN_EXPIRY_MS = 31 * 60_000;
+const MAX_EXPIRY_MS = 24 * 60 * 60_000;
+
+/** expires_at for a session that should close at `at` (Stripe's default, 24h, when unset). */
+function sessionExpiry(at?: Date | null) {
+  if (!at) return undefined;
+  const now = Date.now();
+  const ms = Math.min(Math.max(at.getTime(), now + MIN_EXPIRY_MS), now + MAX_EXPIRY_MS);
+  return Math.floor(ms / 1000);
+}
+
+export function createStripeProvider(secretKey: string, webhookSecret: string): PaymentProvider {
+  const stripe = new Stripe(secretKey, { apiVersion: "2024-06-20" });
+
+  return {
+    id: "stripe",
+
+    async createSession(input: CheckoutInput) {
+      const session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        success_url: input.successUrl,
+        cancel_url: input.cancelUrl,
+        line_items: [
+          {
+            quantity: input.quantity,
+            price_data: {
+              currency: input.currency.toLowerCase(),
+              unit_amount: toMinorUnits(input.unitPrice, input.currency, "stripe"), // $19.99 -> 1999, ¥1999 -> 1999
+              product_data: { name: input.title },
+            },
+          },
+        ],
+        metadata: {
+          order_id: input.orderId,
+          buyer_id: input.buyerId,
+          listing_id: input.listingId,
+        },
+        client_reference_id: input.buyerId,
+        // closes with the order's hold, so a page left open can't pay for units released to others
+        expires_at: sessionExpiry(input.expiresAt),
+      });
+      return { id: session.id, url: session.url };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!webhookSecret) throw new Error("STRIPE_WEBHOOK_SECRET not set");
+      let event: Stripe.Event;
+      try {
+        event = stripe.webhooks.constructEvent(rawBody, String(headers["stripe-signature"] || ""), webhookSecret);
+      } catch (err: any) {
+        throw new WebhookSignatureError(err?.message);
+      }
+
+      const status = STATUS_BY_TYPE[event.type];
+      if (!status) return null;
+
+      const session = event.data.object as Stripe.Checkout.Session;
+      // a completed session can still be waiting on an async method (bank debit etc.);
+      // an offer hold completes "unpaid" by design: authorized, captured on accept
+      const settled =
+        event.type !== "checkout.session.completed" || session.payment_status !== "unpaid" || !!session.metadata?.offer_id;
+
+      const evt: PaymentEvent = {
+        provider: "stripe",
+        eventId: event.id,
+        type: event.type,
+        status: settled ? status : "pending",
+        orderId: session.metadata?.order_id ?? null,
+        offerId: session.metadata?.offer_id ?? null,
+        chainId: 0, // fiat flow: no chain involved
+        txHash: null,
+        raw: event,
+      };
+      return evt;
+    },
+
+    async refund(input) {
+      if (!input.sessionId) throw new Error("order has no Stripe session");
+      const session = await stripe.checkout.sessions.retrieve(input.sessionId);
+      const paymentIntent =
+        typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+      if (!paymentIntent) throw new Error("Stripe session has no payment to refund");
+
+      // full refund of whatever was charged (possibly converted, see currency.ts)
+      const refund = await stripe.refunds.create(
+        { payment_intent: paymentIntent, reason: "requested_by_customer", metadata: { order_id: input.orderId } },
+        { idempotencyKey: `refund-${input.orderId}` }
+      );
+      if (refund.status === "failed" || refund.status === "canceled") {
+        throw new Error(`Stripe refund ${refund.status}`);
+      }
+      return { status: "succeeded", reference: refund.id };
+    },
+
+    async createHold(input: HoldInput) {
+      const session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        success_url: input.successUrl,
+        cancel_url: input.cancelUrl,
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: input.currency.toLowerCase(),
+              unit_amount: toMinorUnits(input.amount, input.currency, "stripe"),
+              product_data: { name: `Offer: ${input.title}` },
+            },
+          },
+        ],
+        // authorized now, captured only if the seller accepts (holds lapse after 7 days)
+        payment_intent_data: { capture_method: "manual", metadata: { offer_id: input.offerId } },
+        metadata: { offer_id: input.offerId, buyer_id: input.buyerId },
+        client_reference_id: input.buyerId,
+        expires_at: sessionExpiry(input.expiresAt),
+      });
+      return { id: session.id, url: session.url };
+    },
+
+    async captureHold(sessionId) {
+      const paymentIntent = await holdIntent(sessionId);
+      await stripe.paymentIntents.capture(paymentIntent, {}, { idempotencyKey: `capture-${sessionId}` });
+    },
+
+    async releaseHold(sessionId) {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      const paymentIntent =
+        typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+      // never completed: nothing was authorized, just close the page
+      if (!paymentIntent) {
+        if (session.status === "open") await stripe.checkout.sessions.expire(sessionId);
+        return;
+      }
+      const intent = await stripe.paymentIntents.retrieve(paymentIntent);
+      if (intent.status === "requires_capture") await stripe.paymentIntents.cancel(paymentIntent);
+    },
+  };
+
+  async function holdIntent(sessionId: string) {
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+    const paymentIntent =
+      typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+    if (!paymentIntent) throw new Error("Stripe session has no authorized payment");
+    return paymentIntent;
+  }
+}
@@ -0,0 +1,112 @@
+import type { IncomingHttpHeaders } from "http";
+
+/** Matches `listings.settlement_kind` / `orders.settlement_kind`, plus the offline fake. */
+export type ProviderId = "stripe" | "coinbase_commerce" | "onchain" | "fake";
+
+/** What the checkout route hands to a provider once the pending order exists. */
+export type CheckoutInput = {
+  orderId: string;
+  buyerId: string;
+  listingId: string;
+  artworkId: string;
+  title: string;
+  quantity: number;
+  unitPrice: number;
+  currency: string;              // ISO code or "ETH"
+  payTo?: string | null;         // seller wallet (on-chain only)
+  payFrom?: string | null;       // buyer wallet the payment must come from (on-chain only)
+  /** On-chain lazy mint: call TaedalNFT.redeem instead of paying the seller directly. */
+  redeem?: { to: string; data: string; valueWei: bigint } | null;
+  /** When the order stops holding its units (or its pay-by deadline); a hosted page closes then. */
+  expiresAt?: Date | null;
+  successUrl: string;
+  cancelUrl: string;
+};
+
+export type CheckoutSession = {
+  /** Provider-side id (Stripe session id, Coinbase charge code, order id for on-chain). */
+  id: string;
+  /** Hosted page to redirect to, when the provider has one. */
+  url: string | null;
+  /** Anything the client needs to complete payment itself (e.g. wallet tx params). */
+  instructions?: Record<string, unknown>;
+};
+
+/** "processing": seen, not final, and recorded on the order (a Coinbase charge awaiting confirmations). */
+export type PaymentStatus = "pending" | "processing" | "paid" | "failed" | "expired";
+
+/** Normalized webhook event; every provider maps its own payload onto this. */
+export type PaymentEvent = {
+  provider: ProviderId;
+  eventId: string;
+  type: string;                  // provider's raw event type, for logs
+  status: PaymentStatus;
+  orderId: string | null;
+  /** Offer pre-authorizations carry the offer instead of an order. */
+  offerId?: string | null;
+  chainId?: number;
+  txHash?: string | null;
+  raw: unknown;
+};
+
+/** A full refund of a settled order, as handed to the provider that took the money. */
+export type RefundInput = {
+  orderId: string;
+  amount: number;                // order total, order currency
+  currency: string;
+  sessionId: string | null;      // stripe_session_id / provider_session_id
+  txHash: string | null;         // on-chain: the original payment
+  refundTxHash?: string | null;  // on-chain: the seller's transfer back to the buyer
+  reason?: string | null;
+};
+
+export type RefundResult = {
+  /** "pending": not final yet (e.g. refund tx short of confirmations); ask again later. */
+  status: "succeeded" | "pending";
+  /** Provider refund id or refund tx hash. */
+  reference: string | null;
+};
+
+/** Funds reserved for an offer now, taken only if the offer is accepted. */
+export type HoldInput = {
+  offerId: string;
+  buyerId: string;
+  title: string;
+  amount: number;                // offer total, offer currency
+  currency: string;
+  /** The offer's own expiry; the authorization page closes then. */
+  expiresAt?: Date | null;
+  successUrl: string;
+  cancelUrl: string;
+};
+
+export interface PaymentProvider {
+  readonly id: ProviderId;
+  createSession(input: CheckoutInput): Promise<CheckoutSession>;
+  /**
+   * Verify the webhook signature against the raw body and map it to a PaymentEvent.
+   * Throws on a bad signature; returns null for events we don't act on.
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentEvent | null>;
+  /**
+   * Give the money back. Providers without one (Coinbase Commerce: refunds are
+   * made from its dashboard) can only have a refund recorded manually by support.
+   */
+  refund?(input: RefundInput): Promise<RefundResult>;
+  /**
+   * Offer pre-authorization (Stripe: Checkout with manual capture). The hold is
+   * confirmed through the provider webhook as a "paid" event with offerId set.
+   */
+  createHold?(input: HoldInput): Promise<CheckoutSession>;
+  /** Take the held funds; `sessionId` is what createHold returned. */
+  captureHold?(sessionId: string): Promise<void>;
+  /** Let the hold go (offer withdrawn, declined, countered or expired). */
+  releaseHold?(sessionId: string): Promise<void>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
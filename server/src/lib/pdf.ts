@@ -0,0 +1,53 @@
+export type PageOptions = {
+  /** Points (1/72 in); A4 by default. */
+  width?: number;
+  height?: number;
+  fontSize?: number;
+  margin?: number;
+};
+
+// Latin-1 survives (WinAnsi encoding); anything else prints as "?"
+const esc = (s: string) => s.replace(/[\\()]/g, (m) => `\\${m}`).replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+/**
+ * A plain-text PDF in Helvetica: one line per entry, new pages as needed.
+ * Enough for labels, customs forms and other documents carriers and
+ * customs officers read rather than admire.
+ */
+export function textPdf(lines: string[], opts: PageOptions = {}): Buffer {
+  const { width = 595, height = 842, fontSize = 10, margin = 36 } = opts;
+  const leading = Math.round(fontSize * 1.3);
+  const perPage = Math.max(1, Math.floor((height - 2 * margin) / leading));
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += perPage) pages.push(lines.slice(i, i + perPage));
+
+  // 1 catalog, 2 pages, 3 font, then a page + content stream pair per page
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((pageLines, i) => {
+    const stream = [
+      `BT /F1 ${fontSize} Tf ${margin} ${height - margin - fontSize} Td ${leading} TL`,
+      ...pageLines.map((l) => `(${esc(l)}) Tj T*`),
+      "ET",
+    ].join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents ${5 + i * 2} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`,
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
@@ -0,0 +1,289 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+import { getProvider } from "./payments";
+import { notify } from "./notify";
+
+/** Buyers and sellers can act on an order for this long after it settled; support any time. */
+const REFUND_WINDOW_DAYS = Number(process.env.REFUND_WINDOW_DAYS || 14);
+
+export type RefundActor =
+  | { kind: "buyer"; userId: string }
+  | { kind: "seller"; userId: string }
+  | { kind: "support"; userId?: string | null };
+
+export type RefundRow = {
+  id: string;
+  order_id: string;
+  initiated_by: "buyer" | "seller" | "support";
+  status: "requested" | "processing" | "succeeded" | "failed" | "rejected";
+  reason: string | null;
+  amount: number;
+  currency: string | null;
+  provider: string | null;
+  provider_refund_id: string | null;
+  restore_listing: boolean;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+};
+
+/** Carries the HTTP status the route should answer with. */
+export class RefundError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+const ORDER_COLS =
+  "id,buyer_id,seller_id,artwork_id,payment_status,settlement_kind,total_amount,currency,stripe_session_id,provider_session_id,tx_hash,settled_at,created_at";
+
+async function loadOrder(db: SupabaseClient, orderId: string) {
+  const { data, error } = await db.from("orders").select(ORDER_COLS).eq("id", orderId).maybeSingle();
+  if (error) throw new Error(`order lookup: ${error.message}`);
+  if (!data) throw new RefundError("order not found", 404);
+  return data;
+}
+
+function assertParty(order: any, actor: RefundActor) {
+  if (actor.kind === "support") return;
+  const own = actor.kind === "buyer" ? order.buyer_id : order.seller_id;
+  if (own !== actor.userId) throw new RefundError("not your order", 403);
+
+  const settled = new Date(order.settled_at ?? order.created_at).getTime();
+  if (Date.now() - settled > REFUND_WINDOW_DAYS * 86_400_000) {
+    throw new RefundError(`refund window (${REFUND_WINDOW_DAYS} days) has passed; contact support`, 409);
+  }
+}
+
+async function openRefund(db: SupabaseClient, orderId: string) {
+  const { data } = await db
+    .from("refunds")
+    .select("*")
+    .eq("order_id", orderId)
+    .in("status", ["requested", "processing", "succeeded"])
+    .maybeSingle();
+  return data as RefundRow | null;
+}
+
+/** Buyer asks for their money back; the seller (or support) decides. */
+export async function requestRefund(
+  orderId: string,
+  buyerId: string,
+  reason: string | null,
+  db: SupabaseClient = sbAdmin
+): Promise<RefundRow> {
+  const order = await loadOrder(db, orderId);
+  assertParty(order, { kind: "buyer", userId: buyerId });
+  if (order.payment_status !== "paid") throw new RefundError(`order is ${order.payment_status}`, 409);
+
+  const existing = await openRefund(db, orderId);
+  if (existing) return existing;
+
+  const { data, error } = await db
+    .from("refunds")
+    .insert({
+      order_id: orderId,
+      initiated_by: "buyer",
+      requested_by: buyerId,
+      status: "requested",
+      reason,
+      amount: order.total_amount,
+      currency: order.currency,
+      provider: order.settlement_kind,
+    })
+    .select("*")
+    .single();
+  if (error) throw new RefundError(error.message, 409);
+  return data as RefundRow;
+}
+
+/** Seller turns down a buyer's request. */
+export async function rejectRefund(refundId: string, sellerId: string, reason: string | null, db: SupabaseClient = sbAdmin) {
+  const { data: refund } = await db.from("refunds").select("*").eq("id", refundId).maybeSingle();
+  if (!refund) throw new RefundError("refund not found", 404);
+  const order = await loadOrder(db, refund.order_id);
+  if (order.seller_id !== sellerId) throw new RefundError("not your order", 403);
+  if (refund.status !== "requested") throw new RefundError(`refund is ${refund.status}`, 409);
+
+  const { data, error } = await db
+    .from("refunds")
+    .update({ status: "rejected", last_error: reason, approved_by: sellerId, updated_at: new Date().toISOString() })
+    .eq("id", refundId)
+    .eq("status", "requested")
+    .select("*")
+    .single();
+  if (error) throw new RefundError(error.message, 409);
+  return data as RefundRow;
+}
+
+export type ExecuteRefundInput = {
+  orderId: string;
+  actor: Exclude<RefundActor, { kind: "buyer" }>;
+  reason?: string | null;
+  restoreListing?: boolean;
+  /** On-chain: the seller's transfer back to the buyer. */
+  txHash?: string | null;
+  /** Support only: money was returned outside any provider (bank transfer, Commerce dashboard…). */
+  manualReference?: string | null;
+};
+
+/** A payment the provider took but settle_order refused: nothing to unwind, only money to return. */
+const UNSETTLED = ["pending", "failed", "expired"];
+
+/**
+ * Refund a paid order in full: refund_precheck() confirms the settlement can
+ * be unwound (the buyer still holds the work), then the provider returns the
+ * money and refund_order() reverses splits and ownership. Picks up a buyer's
+ * open request if there is one.
+ * Support can also refund an order that never settled (see
+ * refundRefusedPayment); that only returns the money and marks it refunded.
+ * Returns the refund with status "processing" when the provider isn't done yet
+ * (an on-chain refund still confirming); call again to finish it.
+ */
+export async function executeRefund(input: ExecuteRefundInput, db: SupabaseClient = sbAdmin): Promise<RefundRow> {
+  const order = await loadOrder(db, input.orderId);
+  assertParty(order, input.actor);
+
+  let refund = await openRefund(db, order.id);
+  if (refund?.status === "succeeded") return refund;
+  const unsettled = input.actor.kind === "support" && UNSETTLED.includes(order.payment_status);
+  if (order.payment_status !== "paid" && !unsettled) throw new RefundError(`order is ${order.payment_status}`, 409);
+  if (input.manualReference && input.actor.kind !== "support") {
+    throw new RefundError("only support can record a manual refund", 403);
+  }
+
+  // before the refund is marked processing or any money moves
+  if (!unsettled) {
+    const { error: pe } = await db.rpc("refund_precheck", { p_order_id: order.id });
+    if (pe) throw new RefundError(pe.message, 409);
+  }
+
+  const approvedBy = input.actor.userId ?? null;
+  const patch = {
+    status: "processing",
+    approved_by: approvedBy,
+    restore_listing: !!input.restoreListing,
+    updated_at: new Date().toISOString(),
+  };
+  if (refund) {
+    const { data, error } = await db
+      .from("refunds")
+      .update({ ...patch, reason: input.reason ?? refund.reason })
+      .eq("id", refund.id)
+      .select("*")
+      .single();
+    if (error) throw new RefundError(error.message, 409);
+    refund = data as RefundRow;
+  } else {
+    const { data, error } = await db
+      .from("refunds")
+      .insert({
+        ...patch,
+        order_id: order.id,
+        initiated_by: input.actor.kind,
+        requested_by: approvedBy,
+        reason: input.reason ?? null,
+        amount: order.total_amount,
+        currency: order.currency,
+        provider: order.settlement_kind,
+      })
+      .select("*")
+      .single();
+    // the unique index lost a race with another refund of the same order
+    if (error) throw new RefundError(error.message, 409);
+    refund = data as RefundRow;
+  }
+
+  let reference: string | null;
+  try {
+    if (input.manualReference) {
+      reference = input.manualReference;
+    } else {
+      const provider = order.settlement_kind ? getProvider(order.settlement_kind) : null;
+      if (!provider?.refund) {
+        throw new RefundError(`${order.settlement_kind ?? "this"} payment can't be refunded automatically; contact support`, 422);
+      }
+      const result = await provider.refund({
+        orderId: order.id,
+        amount: Number(order.total_amount),
+        currency: String(order.currency || ""),
+        sessionId: order.stripe_session_id ?? order.provider_session_id ?? null,
+        txHash: order.tx_hash ?? null,
+        refundTxHash: input.txHash ?? null,
+        reason: input.reason ?? null,
+      });
+      reference = result.reference;
+      if (result.status === "pending") {
+        await db.from("refunds").update({ provider_refund_id: reference, last_error: null }).eq("id", refund.id);
+        return { ...refund, provider_refund_id: reference };
+      }
+    }
+  } catch (e: any) {
+    await db
+      .from("refunds")
+      .update({ status: "failed", last_error: String(e?.message ?? e).slice(0, 1000), updated_at: new Date().toISOString() })
+      .eq("id", refund.id);
+    if (e instanceof RefundError) throw e;
+    throw new RefundError(e?.message ?? "provider refund failed", 502);
+  }
+
+  const { error: ue } = await db.from("refunds").update({ provider_refund_id: reference }).eq("id", refund.id);
+  if (ue) throw new RefundError(ue.message, 409);
+
+  // Money is back with the buyer at this point. If this fails the refund stays
+  // "processing"; calling again is safe (Stripe refunds are idempotent per
+  // order, an on-chain refund just re-verifies the same tx).
+  if (unsettled) {
+    const at = new Date().toISOString();
+    const { error } = await db
+      .from("orders")
+      .update({ payment_status: "refunded", refunded_at: at })
+      .eq("id", order.id)
+      .in("payment_status", UNSETTLED);
+    if (error) throw new Error(`order update: ${error.message}`);
+    await db.from("refunds").update({ status: "succeeded", completed_at: at, updated_at: at }).eq("id", refund.id);
+  } else {
+    const { error } = await db.rpc("refund_order", { p_refund_id: refund.id });
+    if (error) throw new Error(`refund_order: ${error.message}`);
+  }
+
+  const { data: done } = await db.from("refunds").select("*").eq("id", refund.id).single();
+  return done as RefundRow;
+}
+
+/**
+ * The provider took a payment settle_order refused (sold out, the one-of-one
+ * went to another buyer, over a drop's per-collector limit...). Refunds it as
+ * support right away where the provider can; otherwise, or if that fails, the
+ * refund is left "failed" with the reason in last_error for support to finish
+ * (POST /admin/orders/:id/refund). The buyer is told either way.
+ */
+export async function refundRefusedPayment(orderId: string, reason: string, db: SupabaseClient = sbAdmin) {
+  const order = await loadOrder(db, orderId);
+  const why = `payment couldn't settle: ${reason}`;
+
+  let refund: RefundRow | null = null;
+  let error: string | null = null;
+  try {
+    refund = await executeRefund({ orderId, actor: { kind: "support" }, reason: why }, db);
+  } catch (e: any) {
+    error = e?.message ?? String(e);
+    console.error(`refund of refused payment ${orderId} failed:`, error);
+  }
+
+  const amount = `${Number(order.total_amount)} ${order.currency}`;
+  await notify(order.buyer_id, "sale", {
+    event: "payment_refused",
+    order_id: order.id,
+    artwork_id: order.artwork_id,
+    amount: Number(order.total_amount),
+    currency: String(order.currency),
+    status: refund?.status ?? "failed",
+    message:
+      refund?.status === "succeeded"
+        ? `Your ${amount} payment couldn't complete the purchase (${reason}), so it was refunded`
+        : `Your ${amount} payment couldn't complete the purchase (${reason}); support will refund it`,
+  }, db);
+  return { refund, error };
+}
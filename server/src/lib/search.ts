@@ -0,0 +1,152 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+
+/**
+ * Site search (SQL in the search migration). search_everything() ranks
+ * artworks, profiles and collections together for the navbar;
+ * search_artworks() pages the Discover grid with every filter applied in the
+ * database, and search_artwork_facets() counts what each filter would leave.
+ * Cursors are opaque to clients: base64url JSON of the last row's sort key and
+ * id, handed back as `cursor` for the next page.
+ */
+
+export class SearchError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "SearchError";
+  }
+}
+
+export type SearchKind = "artwork" | "profile" | "collection";
+
+export type SearchHit = {
+  kind: SearchKind;
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  image_url: string | null;
+  /** what the app links with: artwork id, username or collection slug */
+  handle: string;
+  score: number;
+};
+
+export type ArtworkStatus = "all" | "buy-now" | "on-auction" | "dutch" | "drops" | "new" | "has-offers";
+export type ArtworkSort = "relevance" | "recent" | "trending" | "price-asc" | "price-desc";
+
+export type ArtworkFilters = {
+  q?: string | null;
+  status?: ArtworkStatus;
+  medium?: string[];
+  currency?: string[];
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  /** true: physical only, false: digital only */
+  physical?: boolean | null;
+  /** every tag must be present */
+  tags?: string[];
+  /** auctions closing within 24h */
+  endingSoon?: boolean;
+  /** listed within the last 24h */
+  newToday?: boolean;
+};
+
+export type FacetCount = { value: string; count: number };
+export type PriceBucket = { min: number; max: number | null; count: number };
+export type ArtworkFacets = {
+  medium: FacetCount[];
+  currency: FacetCount[];
+  price: PriceBucket[];
+  physical: FacetCount[];
+  tags: FacetCount[];
+};
+
+type Cursor = { k: string; id: string; kind?: string };
+
+function encodeCursor(c: Cursor) {
+  return Buffer.from(JSON.stringify(c)).toString("base64url");
+}
+
+function decodeCursor(raw: string | null | undefined): Cursor | null {
+  if (!raw) return null;
+  try {
+    const c = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof c?.k !== "string" || !/^-?\d+(\.\d+)?$/.test(c.k) || typeof c?.id !== "string") throw new Error();
+    return c;
+  } catch {
+    throw new SearchError("invalid cursor");
+  }
+}
+
+function filterParams(f: ArtworkFilters) {
+  const list = (v?: string[]) => (v && v.length ? v : null);
+  return {
+    p_q: f.q?.trim() || null,
+    p_status: f.status ?? "all",
+    p_medium: list(f.medium),
+    p_currency: list(f.currency?.map((c) => c.toUpperCase())),
+    p_min_price: f.minPrice ?? null,
+    p_max_price: f.maxPrice ?? null,
+    p_physical: f.physical ?? null,
+    p_tags: list(f.tags),
+    p_ending_soon: !!f.endingSoon,
+    p_new_today: !!f.newToday,
+  };
+}
+
+/** Artworks, profiles and collections matching `q`, best first. */
+export async function searchEverything(
+  q: string,
+  opts: { kinds?: SearchKind[]; cursor?: string | null; limit?: number } = {},
+  db: SupabaseClient = sbAdmin
+): Promise<{ hits: SearchHit[]; next_cursor: string | null }> {
+  const limit = Math.min(Math.max(opts.limit ?? 20, 1), 50);
+  const cursor = decodeCursor(opts.cursor);
+  const { data, error } = await db.rpc("search_everything", {
+    p_q: q,
+    p_kinds: opts.kinds?.length ? opts.kinds : null,
+    p_cursor_score: cursor?.k ?? null,
+    p_cursor_kind: cursor?.kind ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: limit,
+  });
+  if (error) throw new Error(`search_everything: ${error.message}`);
+
+  const rows = (data ?? []) as (Omit<SearchHit, "score"> & { score: string })[];
+  const last = rows[rows.length - 1];
+  return {
+    hits: rows.map((r) => ({ ...r, score: Number(r.score) })),
+    next_cursor: rows.length === limit && last ? encodeCursor({ k: last.score, id: last.id, kind: last.kind }) : null,
+  };
+}
+
+/** One page of Discover items (v_discover_items rows plus `score`). */
+export async function searchArtworks(
+  filters: ArtworkFilters,
+  opts: { sort?: ArtworkSort; cursor?: string | null; limit?: number } = {},
+  db: SupabaseClient = sbAdmin
+): Promise<{ items: Record<string, unknown>[]; next_cursor: string | null }> {
+  const limit = Math.min(Math.max(opts.limit ?? 24, 1), 100);
+  const cursor = decodeCursor(opts.cursor);
+  const { data, error } = await db.rpc("search_artworks", {
+    ...filterParams(filters),
+    p_sort: opts.sort ?? "relevance",
+    p_cursor_key: cursor?.k ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: limit,
+  });
+  if (error) throw new Error(`search_artworks: ${error.message}`);
+
+  const rows = (data ?? []) as { artwork_id: string; item: Record<string, unknown>; sort_key: string }[];
+  const last = rows[rows.length - 1];
+  return {
+    items: rows.map((r) => r.item),
+    next_cursor: rows.length === limit && last ? encodeCursor({ k: last.sort_key, id: last.artwork_id }) : null,
+  };
+}
+
+/** Counts per medium, currency, price range, physical/digital and tag. */
+export async function artworkFacets(filters: ArtworkFilters, db: SupabaseClient = sbAdmin): Promise<ArtworkFacets> {
+  const { data, error } = await db.rpc("search_artwork_facets", filterParams(filters));
+  if (error) throw new Error(`search_artwork_facets: ${error.message}`);
+  return data as ArtworkFacets;
+}
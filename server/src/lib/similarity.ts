@@ -0,0 +1,333 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+import { sbAdmin } from "./supabase";
+
+/**
+ * Near-duplicate detection for artwork images. Each image gets a pHash (DCT of
+ * a 32×32 greyscale thumbnail), a dHash (horizontal gradients of a 9×8 one) and
+ * a 64-bin colour histogram. Re-saved, re-encoded or resized copies land within
+ * a few bits of the original; light crops a little further. Signatures live in
+ * image_signatures, searched through similar_images() (band index + Hamming
+ * distance), and are ranked here with the colour distance folded in.
+ */
+
+/**
+ * Hamming distance (either hash) up to which an image counts as a near match.
+ * Capped at 7: the band index only guarantees a candidate within that distance
+ * (8 bands per hash, pigeonhole), so anything further would be found by luck.
+ */
+const BAND_RECALL = 7;
+const MAX_DISTANCE = Math.min(Number(process.env.SIMILARITY_MAX_DISTANCE || BAND_RECALL), BAND_RECALL);
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+
+export type ImageSignature = {
+  /** unsigned 64-bit hashes as 16-char hex */
+  phash: string;
+  dhash: string;
+  colorHist: number[];
+  width: number | null;
+  height: number | null;
+};
+
+export type SimilarMatch = {
+  artwork_id: string;
+  artwork_file_id: string | null;
+  title: string | null;
+  image_url: string;
+  creator_id: string | null;
+  phash_distance: number;
+  dhash_distance: number;
+  /** L1 distance between colour histograms / 2, 0 (same) … 1 (disjoint) */
+  color_distance: number;
+  /** 0 … 1, higher is closer */
+  score: number;
+};
+
+/** Carries the HTTP status the route should answer with. */
+export class SimilarityError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "SimilarityError";
+  }
+}
+
+/* ---------------- hashing ---------------- */
+
+const DCT_N = 32;
+const DCT_COS = Array.from({ length: 8 }, (_, u) =>
+  Array.from({ length: DCT_N }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_N)))
+);
+
+function bitsToHex(bits: boolean[]) {
+  let v = 0n;
+  for (const b of bits) v = (v << 1n) | (b ? 1n : 0n);
+  return v.toString(16).padStart(16, "0");
+}
+
+/** Lowest 8×8 DCT frequencies against their median (DC term left out of the median). */
+function phashOf(grey: Buffer) {
+  const rows: number[][] = [];
+  for (let y = 0; y < DCT_N; y++) {
+    const row: number[] = [];
+    for (let u = 0; u < 8; u++) {
+      let s = 0;
+      for (let x = 0; x < DCT_N; x++) s += grey[y * DCT_N + x] * DCT_COS[u][x];
+      row.push(s);
+    }
+    rows.push(row);
+  }
+  const coeffs: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let s = 0;
+      for (let y = 0; y < DCT_N; y++) s += rows[y][u] * DCT_COS[v][y];
+      coeffs.push(s);
+    }
+  }
+  const sorted = coeffs.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coeffs.map((c) => c > median));
+}
+
+/** 9×8 greyscale: is each pixel brighter than its right-hand neighbour. */
+function dhashOf(grey: Buffer) {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(grey[y * 9 + x] > grey[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+}
+
+/** 4 levels per channel → 64 bins, normalised to sum 1. */
+function colorHistOf(rgb: Buffer) {
+  const hist = new Array<number>(64).fill(0);
+  const px = rgb.length / 3;
+  for (let i = 0; i < rgb.length; i += 3) {
+    hist[((rgb[i] >> 6) << 4) | ((rgb[i + 1] >> 6) << 2) | (rgb[i + 2] >> 6)] += 1;
+  }
+  return hist.map((n) => Math.round((n / px) * 1e5) / 1e5);
+}
+
+export async function computeSignature(image: Buffer): Promise<ImageSignature> {
+  let base: sharp.Sharp;
+  let meta: sharp.Metadata;
+  try {
+    // EXIF orientation applied; transparency composited on white like the site shows it
+    base = sharp(image, { failOn: "none" }).rotate().flatten({ background: "#ffffff" });
+    meta = await sharp(image).metadata();
+  } catch {
+    throw new SimilarityError("not a readable image", 415);
+  }
+
+  const [grey32, grey9, rgb] = await Promise.all([
+    base.clone().greyscale().resize(DCT_N, DCT_N, { fit: "fill" }).raw().toBuffer(),
+    base.clone().greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer(),
+    base.clone().removeAlpha().resize(64, 64, { fit: "fill" }).raw().toBuffer(),
+  ]).catch(() => {
+    throw new SimilarityError("not a readable image", 415);
+  });
+
+  const swap = (meta.orientation ?? 1) >= 5;
+  return {
+    phash: phashOf(grey32),
+    dhash: dhashOf(grey9),
+    colorHist: colorHistOf(rgb),
+    width: (swap ? meta.height : meta.width) ?? null,
+    height: (swap ? meta.width : meta.height) ?? null,
+  };
+}
+
+/* ---------------- index & search ---------------- */
+
+/** Unsigned hex → Postgres bigint (two's complement), as a string so it survives JSON. */
+const toBigintParam = (hex: string) => BigInt.asIntN(64, BigInt("0x" + hex)).toString();
+
+/** (band_no << 8) | byte for the 8 bytes of each hash; see the migration. */
+export function hashBands(sig: Pick<ImageSignature, "phash" | "dhash">) {
+  const bands: number[] = [];
+  [sig.phash, sig.dhash].forEach((hex, h) => {
+    for (let i = 0; i < 8; i++) bands.push(((h * 8 + i) << 8) | parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+  });
+  return bands;
+}
+
+function colorDistance(a: number[] | null, b: number[]) {
+  if (!a || a.length !== b.length) return 1;
+  let s = 0;
+  for (let i = 0; i < b.length; i++) s += Math.abs(a[i] - b[i]);
+  return Math.round((s / 2) * 1000) / 1000;
+}
+
+/** Reads at most MAX_IMAGE_BYTES: refuses on Content-Length, else stops reading past the limit. */
+async function fetchImage(url: string) {
+  const controller = new AbortController();
+  const res = await fetch(url, { signal: controller.signal });
+  if (!res.ok) throw new SimilarityError(`image fetch failed: HTTP ${res.status}`, 502);
+
+  const declared = Number(res.headers.get("content-length"));
+  if (declared > MAX_IMAGE_BYTES) {
+    controller.abort();
+    throw new SimilarityError("image too large", 413);
+  }
+  if (!res.body) throw new SimilarityError("image fetch failed: empty body", 502);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      controller.abort();
+      throw new SimilarityError("image too large", 413);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Ranked near matches for an image: both hash distances and the colour
+ * distance, folded into a 0–1 score. `excludeArtworkId` leaves an artwork's
+ * own images out (re-checking an existing artwork).
+ */
+export async function findSimilar(
+  sig: ImageSignature,
+  opts: { limit?: number; excludeArtworkId?: string | null } = {},
+  db: SupabaseClient = sbAdmin
+): Promise<SimilarMatch[]> {
+  const limit = Math.min(Math.max(opts.limit ?? 10, 1), 50);
+  const { data, error } = await db.rpc("similar_images", {
+    p_phash: toBigintParam(sig.phash),
+    p_dhash: toBigintParam(sig.dhash),
+    p_bands: hashBands(sig),
+    p_max_distance: MAX_DISTANCE,
+    p_limit: 100,
+  });
+  if (error) throw new Error(`similar_images: ${error.message}`);
+
+  const rows = ((data ?? []) as any[]).filter((r) => r.artwork_id !== opts.excludeArtworkId);
+  const ids = Array.from(new Set(rows.map((r) => r.artwork_id)));
+  const arts = new Map<string, { title: string | null; creator_id: string | null }>();
+  if (ids.length) {
+    const { data: a } = await db.from("artworks").select("id,title,creator_id").in("id", ids);
+    for (const r of a ?? []) arts.set(r.id, r);
+  }
+
+  const matches = rows.map((r): SimilarMatch => {
+    const color = colorDistance(r.color_hist, sig.colorHist);
+    // weighted hash distance: 0 → 1.0, MAX_DISTANCE on both hashes → 0.6 (before colour)
+    const hashes = Math.min(1, (0.6 * r.phash_distance + 0.4 * r.dhash_distance) / (2 * MAX_DISTANCE));
+    return {
+      artwork_id: r.artwork_id,
+      artwork_file_id: r.artwork_file_id ?? null,
+      title: arts.get(r.artwork_id)?.title ?? null,
+      image_url: r.image_url,
+      creator_id: arts.get(r.artwork_id)?.creator_id ?? null,
+      phash_distance: r.phash_distance,
+      dhash_distance: r.dhash_distance,
+      color_distance: color,
+      score: Math.round(Math.max(0, 1 - 0.8 * hashes - 0.2 * color) * 1000) / 1000,
+    };
+  });
+
+  // best match per artwork (cover or any of its files)
+  const best = new Map<string, SimilarMatch>();
+  for (const m of matches) {
+    const cur = best.get(m.artwork_id);
+    if (!cur || m.score > cur.score) best.set(m.artwork_id, m);
+  }
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+async function storeSignature(
+  db: SupabaseClient,
+  row: { artworkId: string; artworkFileId: string | null; imageUrl: string },
+  sig: ImageSignature | null,
+  errorText: string | null
+) {
+  const patch = {
+    artwork_id: row.artworkId,
+    artwork_file_id: row.artworkFileId,
+    image_url: row.imageUrl,
+    phash: sig ? toBigintParam(sig.phash) : null,
+    dhash: sig ? toBigintParam(sig.dhash) : null,
+    hash_bands: sig ? hashBands(sig) : [],
+    color_hist: sig?.colorHist ?? null,
+    width: sig?.width ?? null,
+    height: sig?.height ?? null,
+    error: errorText,
+    updated_at: new Date().toISOString(),
+  };
+
+  // partial unique indexes can't back an upsert's on_conflict, so replace by key
+  let del = db.from("image_signatures").delete().eq("artwork_id", row.artworkId);
+  del = row.artworkFileId ? del.eq("artwork_file_id", row.artworkFileId) : del.is("artwork_file_id", null);
+  const { error: de } = await del;
+  if (de) throw new Error(`image_signatures delete: ${de.message}`);
+
+  const { error } = await db.from("image_signatures").insert(patch);
+  if (error) throw new Error(`image_signatures insert: ${error.message}`);
+}
+
+/** Fingerprint one stored image; a fetch/decode failure is recorded, not thrown. */
+async function indexImage(
+  db: SupabaseClient,
+  row: { artworkId: string; artworkFileId: string | null; imageUrl: string }
+) {
+  try {
+    const sig = await computeSignature(await fetchImage(row.imageUrl));
+    await storeSignature(db, row, sig, null);
+    return true;
+  } catch (e: any) {
+    if (!(e instanceof SimilarityError)) throw e;
+    await storeSignature(db, row, null, e.message);
+    return false;
+  }
+}
+
+/** (Re)index an artwork's cover and its image files. Creator only unless called by the API itself. */
+export async function indexArtwork(artworkId: string, creatorId: string | null, db: SupabaseClient = sbAdmin) {
+  const { data: art, error } = await db
+    .from("artworks")
+    .select("id,creator_id,image_url")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw new Error(`artwork lookup: ${error.message}`);
+  if (!art) throw new SimilarityError("artwork not found", 404);
+  if (creatorId && art.creator_id !== creatorId) throw new SimilarityError("not your artwork", 403);
+
+  const { data: files } = await db
+    .from("artwork_files")
+    .select("id,url,kind")
+    .eq("artwork_id", artworkId);
+
+  const rows = [
+    ...(art.image_url ? [{ artworkId, artworkFileId: null, imageUrl: art.image_url as string }] : []),
+    ...(files ?? [])
+      .filter((f: any) => f.url && (f.kind ?? "image") === "image")
+      .map((f: any) => ({ artworkId, artworkFileId: f.id as string, imageUrl: f.url as string })),
+  ];
+
+  let indexed = 0;
+  for (const r of rows) if (await indexImage(db, r)) indexed++;
+  return { indexed, failed: rows.length - indexed };
+}
+
+/** Backfill job: fingerprint up to `limit` images that have no signature yet. */
+export async function backfillSignatures(limit = 50, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("images_missing_signature", { p_limit: limit });
+  if (error) throw new Error(`images_missing_signature: ${error.message}`);
+
+  let indexed = 0;
+  let failed = 0;
+  for (const r of (data ?? []) as any[]) {
+    const ok = await indexImage(db, { artworkId: r.artwork_id, artworkFileId: r.artwork_file_id, imageUrl: r.image_url });
+    if (ok) indexed++;
+    else failed++;
+  }
+  return { indexed, failed, more: (data ?? []).length === limit };
+}
@@ -0,0 +1,358 @@
+import { randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  decodeEventLog,
+  encodeFunctionData,
+  getAddress,
+  isAddress,
+  parseAbi,
+  parseEther,
+  recoverTypedDataAddress,
+  type Hex,
+} from "viem";
+import { sbAdmin } from "./supabase";
+import { collectionContractFor } from "./collections";
+
+/**
+ * Lazy minting. When publishing, the creator signs an EIP-712 MintVoucher
+ * (tokenURI, price, royalty, nonce) instead of paying gas to mint. The voucher
+ * is stored here; a buyer's on-chain checkout calls TaedalNFT.redeem(voucher,
+ * signature), which mints straight to the buyer and pays the creator in the
+ * same transaction.
+ *   active     can be redeemed
+ *   redeemed   minted (token_id / redeemed_tx_hash set)
+ *   cancelled  withdrawn or superseded; the creator may also burn the nonce on-chain
+ */
+
+const SEPOLIA_CHAIN_ID = 11155111;
+const CHAIN_ID = process.env.ONCHAIN_CHAIN_ID ? Number(process.env.ONCHAIN_CHAIN_ID) : SEPOLIA_CHAIN_ID;
+const NFT_CONTRACT = process.env.NFT_CONTRACT_ADDRESS || "";
+/** TaedalNFT.MAX_ROYALTY_BPS */
+const MAX_ROYALTY_BPS = 1000;
+
+export const VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: "creator", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "price", type: "uint256" },
+    { name: "royaltyBps", type: "uint96" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+const NFT_ABI = parseAbi([
+  "struct MintVoucher { address creator; string uri; uint256 price; uint96 royaltyBps; uint256 nonce; }",
+  "function redeem(MintVoucher voucher, bytes signature) payable returns (uint256)",
+  "function cancelVoucher(uint256 nonce)",
+  "event VoucherRedeemed(uint256 indexed tokenId, address indexed creator, address indexed buyer, uint256 nonce, uint256 price)",
+]);
+
+/** The voucher as signed; uint256 fields travel as decimal strings in JSON. */
+export type MintVoucherMessage = {
+  creator: string;
+  uri: string;
+  price: string;
+  royaltyBps: number;
+  nonce: string;
+};
+
+export type VoucherRow = {
+  id: string;
+  artwork_id: string;
+  listing_id: string | null;
+  creator_id: string;
+  creator_wallet: string;
+  contract_address: string;
+  chain_id: number;
+  token_uri: string;
+  price: number;
+  price_wei: string;
+  currency: string;
+  royalty_bps: number;
+  nonce: string;
+  signature: string;
+  status: "active" | "redeemed" | "cancelled";
+  order_id: string | null;
+  token_id: string | null;
+  redeemed_by: string | null;
+  redeemed_tx_hash: string | null;
+  created_at: string;
+  redeemed_at: string | null;
+  cancelled_at: string | null;
+};
+
+/** Carries the HTTP status the route should answer with. */
+export class VoucherError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "VoucherError";
+  }
+}
+
+function contractAddress() {
+  if (!isAddress(NFT_CONTRACT)) throw new VoucherError("lazy minting is not configured (NFT_CONTRACT_ADDRESS)", 503);
+  return getAddress(NFT_CONTRACT);
+}
+
+export function voucherDomain(verifyingContract: string = contractAddress(), chainId = CHAIN_ID) {
+  return { name: "Taedal", version: "1", chainId, verifyingContract: getAddress(verifyingContract) } as const;
+}
+
+function typedMessage(v: MintVoucherMessage) {
+  return {
+    creator: getAddress(v.creator),
+    uri: v.uri,
+    price: BigInt(v.price),
+    royaltyBps: BigInt(v.royaltyBps),
+    nonce: BigInt(v.nonce),
+  };
+}
+
+/**
+ * What a creator may sign for an artwork right now: they created and still own
+ * it, it isn't minted, its metadata is pinned, and it has an active fixed-price
+ * ETH listing (the voucher price). Artworks in a collection with its own
+ * contract are minted there, which only the collection's owner wallet can do.
+ */
+async function loadPublishable(db: SupabaseClient, artworkId: string, creatorId: string) {
+  const { data: art, error } = await db
+    .from("artworks")
+    .select("id,creator_id,owner_id,token_id,token_uri,royalty_bps")
+    .eq("id", artworkId)
+    .maybeSingle();
+  if (error) throw new Error(`artwork lookup: ${error.message}`);
+  if (!art) throw new VoucherError("artwork not found", 404);
+  if (art.creator_id !== creatorId || (art.owner_id && art.owner_id !== creatorId)) {
+    throw new VoucherError("only the creator can sign a mint voucher for this artwork", 403);
+  }
+  if (art.token_id != null) throw new VoucherError("artwork is already minted", 409);
+  if (!art.token_uri) throw new VoucherError("pin the artwork's metadata first", 409);
+
+  const royaltyBps = Number(art.royalty_bps ?? 0);
+  if (!Number.isInteger(royaltyBps) || royaltyBps < 0 || royaltyBps > MAX_ROYALTY_BPS) {
+    throw new VoucherError(`royalty must be 0–${MAX_ROYALTY_BPS} bps to mint`, 422);
+  }
+
+  const { data: listing } = await db
+    .from("listings")
+    .select("id,type,status,sale_currency,fixed_price,seller_id")
+    .eq("artwork_id", artworkId)
+    .eq("status", "active")
+    .maybeSingle();
+  if (!listing || listing.type !== "fixed_price" || listing.seller_id !== creatorId) {
+    throw new VoucherError("list the artwork at a fixed price first", 409);
+  }
+  if (String(listing.sale_currency || "").toUpperCase() !== "ETH") {
+    throw new VoucherError("lazy minting needs an ETH listing", 409);
+  }
+
+  const collection = await collectionContractFor(artworkId, db);
+  const domain = voucherDomain(collection?.contract_address ?? contractAddress());
+
+  return { art, listing, royaltyBps, priceWei: parseEther(String(listing.fixed_price)), domain, collection };
+}
+
+function assertCollectionOwner(collection: Awaited<ReturnType<typeof collectionContractFor>>, wallet: string) {
+  if (collection && collection.owner_wallet !== wallet.toLowerCase()) {
+    throw new VoucherError(`sign with the wallet that owns the ${collection.name} contract`, 403);
+  }
+}
+
+/** EIP-712 payload for the creator's wallet (eth_signTypedData_v4). Nothing is stored yet. */
+export async function prepareVoucher(
+  artworkId: string,
+  creatorId: string,
+  wallet: string,
+  db: SupabaseClient = sbAdmin
+) {
+  if (!isAddress(wallet)) throw new VoucherError("invalid wallet address");
+  const { art, royaltyBps, priceWei, domain, collection } = await loadPublishable(db, artworkId, creatorId);
+  assertCollectionOwner(collection, wallet);
+
+  // random 128-bit nonce: no coordination needed between concurrent vouchers
+  const message: MintVoucherMessage = {
+    creator: getAddress(wallet),
+    uri: art.token_uri,
+    price: priceWei.toString(),
+    royaltyBps,
+    nonce: BigInt("0x" + randomBytes(16).toString("hex")).toString(),
+  };
+  return { domain, types: VOUCHER_TYPES, primaryType: "MintVoucher" as const, message };
+}
+
+/**
+ * Verify and store a signed voucher. It must match the artwork and listing as
+ * they are now and be signed by the wallet it names. Replaces the artwork's
+ * previous active voucher, if any.
+ */
+export async function storeVoucher(
+  artworkId: string,
+  creatorId: string,
+  voucher: MintVoucherMessage,
+  signature: string,
+  db: SupabaseClient = sbAdmin
+): Promise<VoucherRow> {
+  const { art, listing, royaltyBps, priceWei, domain, collection } = await loadPublishable(db, artworkId, creatorId);
+  if (!isAddress(voucher.creator)) throw new VoucherError("invalid creator address");
+  assertCollectionOwner(collection, voucher.creator);
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) throw new VoucherError("invalid signature");
+
+  let message;
+  try {
+    message = typedMessage(voucher);
+  } catch {
+    throw new VoucherError("malformed voucher");
+  }
+  if (message.uri !== art.token_uri) throw new VoucherError("voucher tokenURI doesn't match the artwork");
+  if (message.price !== priceWei) throw new VoucherError("voucher price doesn't match the listing");
+  if (message.royaltyBps !== BigInt(royaltyBps)) throw new VoucherError("voucher royalty doesn't match the artwork");
+
+  const signer = await recoverTypedDataAddress({
+    domain,
+    types: VOUCHER_TYPES,
+    primaryType: "MintVoucher",
+    message,
+    signature: signature as Hex,
+  }).catch(() => null);
+  if (!signer || signer !== message.creator) throw new VoucherError("signature doesn't match the voucher's creator", 401);
+
+  const now = new Date().toISOString();
+  await db
+    .from("mint_vouchers")
+    .update({ status: "cancelled", cancelled_at: now })
+    .eq("artwork_id", artworkId)
+    .eq("status", "active");
+
+  const { data, error } = await db
+    .from("mint_vouchers")
+    .insert({
+      artwork_id: artworkId,
+      listing_id: listing.id,
+      creator_id: creatorId,
+      creator_wallet: message.creator.toLowerCase(),
+      contract_address: domain.verifyingContract.toLowerCase(),
+      chain_id: domain.chainId,
+      token_uri: message.uri,
+      price: Number(listing.fixed_price),
+      price_wei: message.price.toString(),
+      currency: "ETH",
+      royalty_bps: royaltyBps,
+      nonce: message.nonce.toString(),
+      signature: signature.toLowerCase(),
+      status: "active",
+    })
+    .select("*")
+    .single();
+  // unique (contract, creator, nonce): the same signature posted twice
+  if (error) throw new VoucherError(error.message, 409);
+  return data as VoucherRow;
+}
+
+/**
+ * Withdraw a voucher. Off-chain it stops being offered at checkout at once;
+ * anyone who already saw the signature could still redeem it, so the returned
+ * tx (cancelVoucher(nonce)) lets the creator burn the nonce on-chain as well.
+ */
+export async function cancelVoucher(voucherId: string, creatorId: string, db: SupabaseClient = sbAdmin) {
+  const { data: v } = await db.from("mint_vouchers").select("*").eq("id", voucherId).maybeSingle();
+  if (!v) throw new VoucherError("voucher not found", 404);
+  if (v.creator_id !== creatorId) throw new VoucherError("not your voucher", 403);
+  if (v.status === "redeemed") throw new VoucherError("voucher was already redeemed", 409);
+
+  if (v.status === "active") {
+    const { error } = await db
+      .from("mint_vouchers")
+      .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+      .eq("id", voucherId)
+      .eq("status", "active");
+    if (error) throw new VoucherError(error.message, 409);
+  }
+  return {
+    voucher: { ...(v as VoucherRow), status: "cancelled" as const },
+    onchain_cancel: {
+      chain_id: v.chain_id,
+      to: v.contract_address,
+      data: encodeFunctionData({ abi: NFT_ABI, functionName: "cancelVoucher", args: [BigInt(v.nonce)] }),
+    },
+  };
+}
+
+/** The artwork's redeemable voucher, if it has one. */
+export async function activeVoucherFor(artworkId: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db
+    .from("mint_vouchers")
+    .select("*")
+    .eq("artwork_id", artworkId)
+    .eq("status", "active")
+    .maybeSingle();
+  if (error) throw new Error(`voucher lookup: ${error.message}`);
+  return data as VoucherRow | null;
+}
+
+/** Calldata for TaedalNFT.redeem with this voucher; send it with value = price_wei. */
+export function redeemCalldata(v: VoucherRow) {
+  return encodeFunctionData({
+    abi: NFT_ABI,
+    functionName: "redeem",
+    args: [
+      {
+        creator: getAddress(v.creator_wallet),
+        uri: v.token_uri,
+        price: BigInt(v.price_wei),
+        royaltyBps: BigInt(v.royalty_bps),
+        nonce: BigInt(v.nonce),
+      },
+      v.signature as Hex,
+    ],
+  });
+}
+
+type ReceiptLog = { address: string; topics: string[]; data: string };
+
+/** The token minted for this voucher, from the redeem tx's VoucherRedeemed log. */
+export function findRedemption(v: VoucherRow, logs: ReceiptLog[]) {
+  for (const log of logs) {
+    if (String(log.address).toLowerCase() !== v.contract_address) continue;
+    try {
+      const ev = decodeEventLog({ abi: NFT_ABI, data: log.data as Hex, topics: log.topics as [Hex, ...Hex[]] });
+      if (ev.eventName !== "VoucherRedeemed") continue;
+      if (ev.args.creator.toLowerCase() !== v.creator_wallet || ev.args.nonce !== BigInt(v.nonce)) continue;
+      return { tokenId: ev.args.tokenId.toString(), buyer: ev.args.buyer.toLowerCase() };
+    } catch {
+      // some other event of the contract
+    }
+  }
+  return null;
+}
+
+/**
+ * Record a verified redemption: the voucher is spent and the artwork now
+ * carries the on-chain token. Safe to repeat for the same tx.
+ */
+export async function recordRedemption(
+  v: VoucherRow,
+  r: { orderId: string; tokenId: string; txHash: string; buyer: string },
+  db: SupabaseClient = sbAdmin
+) {
+  const now = new Date().toISOString();
+  const { error } = await db
+    .from("mint_vouchers")
+    .update({
+      status: "redeemed",
+      order_id: r.orderId,
+      token_id: r.tokenId,
+      redeemed_by: r.buyer,
+      redeemed_tx_hash: r.txHash,
+      redeemed_at: now,
+    })
+    .eq("id", v.id)
+    .in("status", ["active", "cancelled"]);
+  if (error) throw new Error(`voucher update: ${error.message}`);
+
+  const { error: aerr } = await db
+    .from("artworks")
+    .update({ contract_address: v.contract_address, token_id: r.tokenId, tx_hash: r.txHash })
+    .eq("id", v.artwork_id)
+    .is("token_id", null);
+  if (aerr) throw new Error(`artwork update: ${aerr.message}`);
+}
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sbAdmin } from "./supabase";
+
+export type LedgerOutcome = "processed" | "ignored" | "failed";
+
+export type LedgerEvent = {
+  provider: string;
+  eventId: string;
+  eventType: string | null;
+  payload: unknown;
+  /** Parsed form the handler needs to run again on replay (no signature available then). */
+  normalized?: unknown;
+};
+
+export type LedgerRun<T> =
+  /** inFlight: another delivery holds the event's lease (status "processing") and may still fail */
+  | { duplicate: true; id: string; status: string; inFlight: boolean }
+  | { duplicate: false; id: string; result: T };
+
+function asJson(payload: unknown) {
+  if (Buffer.isBuffer(payload)) {
+    const text = payload.toString("utf8");
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { raw: text };
+    }
+  }
+  return payload ?? {};
+}
+
+/**
+ * Claim `evt` in `webhook_events`, run `handler` once, and record the outcome.
+ * Redeliveries of an already processed (or in-flight) event skip the handler.
+ * Only a finished one (processed / ignored) is safe to acknowledge: answer an
+ * in-flight duplicate non-2xx, so the provider retries if that run fails.
+ * A thrown handler error marks the event failed and is rethrown so the caller
+ * can answer 5xx and let the provider retry.
+ */
+export async function runWebhookOnce<T>(
+  evt: LedgerEvent,
+  handler: () => Promise<{ outcome: Exclude<LedgerOutcome, "failed">; result: T }>,
+  db: SupabaseClient = sbAdmin
+): Promise<LedgerRun<T>> {
+  const { data, error } = await db
+    .rpc("claim_webhook_event", {
+      p_provider: evt.provider,
+      p_event_id: evt.eventId,
+      p_event_type: evt.eventType,
+      p_payload: asJson(evt.payload),
+      p_normalized: evt.normalized ?? null,
+    })
+    .single<{ claimed: boolean; id: string; status: string; attempts: number }>();
+  if (error || !data) throw new Error(`claim_webhook_event: ${error?.message ?? "no row"}`);
+
+  if (!data.claimed) return { duplicate: true, id: data.id, status: data.status, inFlight: data.status === "processing" };
+
+  try {
+    const { outcome, result } = await handler();
+    await db.rpc("finish_webhook_event", { p_id: data.id, p_status: outcome, p_error: null });
+    return { duplicate: false, id: data.id, result };
+  } catch (e: any) {
+    await db.rpc("finish_webhook_event", {
+      p_id: data.id,
+      p_status: "failed",
+      p_error: String(e?.message ?? e).slice(0, 1000),
+    });
+    throw e;
+  }
+}
+
+export type StoredWebhookEvent = {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string | null;
+  handler: string;
+  status: string;
+  attempts: number;
+  payload: unknown;
+  normalized: unknown;
+  last_error: string | null;
+};
+
+/** Re-open a stored event for replay and return it; the caller re-runs it via runWebhookOnce. */
+export async function reopenWebhookEvent(id: string, db: SupabaseClient = sbAdmin) {
+  const { data, error } = await db.rpc("reopen_webhook_event", { p_id: id }).single<StoredWebhookEvent>();
+  if (error || !data) throw new Error(error?.message ?? "webhook event not found");
+  return data;
+}
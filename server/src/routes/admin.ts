@@ -0,0 +1,462 @@
+import { Router, Request, Response, NextFunction } from "express";
+import bodyParser from "body-parser";
+import crypto from "crypto";
+import { z } from "zod";
+import { sbAdmin } from "../lib/supabase";
+import { reopenWebhookEvent } from "../lib/webhookLedger";
+import { executeRefund, RefundError } from "../lib/refunds";
+import { backfillSignatures, indexArtwork, SimilarityError } from "../lib/similarity";
+import { expireOffers } from "../lib/offers";
+import { sweepAuctions } from "../lib/auctions";
+import { openDueDrops } from "../lib/listings";
+import { sendDigests } from "../lib/digest";
+import { ChipError, enrollChips, revokeChip, rotateChipSecret } from "../lib/chips";
+import { EscrowError, releaseDueEscrows, resolveDispute } from "../lib/escrow";
+import { runLicenseLifecycle } from "../lib/licenses";
+import type { PaymentEvent } from "../lib/payments";
+import { settleOnce } from "./webhooks";
+
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || "";
+const SUPABASE_URL = process.env.SUPABASE_URL || "";
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+
+export const adminRouter = Router();
+
+/** Support tooling: requires `x-admin-token: $ADMIN_API_TOKEN`. */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const got = String(req.headers["x-admin-token"] || "");
+  const ok =
+    !!ADMIN_API_TOKEN &&
+    got.length === ADMIN_API_TOKEN.length &&
+    crypto.timingSafeEqual(Buffer.from(got), Buffer.from(ADMIN_API_TOKEN));
+  if (!ok) return res.status(401).json({ error: "admin token required" });
+  next();
+}
+
+adminRouter.use("/admin", requireAdmin);
+
+// GET /admin/webhooks?status=failed&provider=stripe
+adminRouter.get("/admin/webhooks", async (req: Request, res: Response) => {
+  let q = sbAdmin
+    .from("webhook_events")
+    .select("id,provider,event_id,event_type,handler,status,attempts,last_error,received_at,updated_at,processed_at")
+    .order("updated_at", { ascending: false })
+    .limit(100);
+  if (req.query.status) q = q.eq("status", String(req.query.status));
+  if (req.query.provider) q = q.eq("provider", String(req.query.provider));
+
+  const { data, error } = await q;
+  if (error) return res.status(500).json({ error: error.message });
+  res.json({ rows: data ?? [] });
+});
+
+/**
+ * POST /admin/webhooks/:id/replay
+ * Re-runs a stored event through its original handler. API events are settled
+ * in-process from the stored normalized form; edge-function events are posted
+ * back to the function, which loads the payload from the ledger itself.
+ */
+adminRouter.post("/admin/webhooks/:id/replay", async (req: Request, res: Response) => {
+  let row;
+  try {
+    row = await reopenWebhookEvent(req.params.id);
+  } catch (e: any) {
+    return res.status(409).json({ error: e?.message ?? "not replayable" });
+  }
+
+  try {
+    if (row.handler === "api") {
+      if (!row.normalized) return res.status(422).json({ error: "event has no normalized form to replay" });
+      const event = { ...(row.normalized as Omit<PaymentEvent, "raw">), raw: row.payload } as PaymentEvent;
+      const run = await settleOnce(event, row.payload);
+      return res.json(run.duplicate ? { replayed: false, status: run.status } : { replayed: true, result: run.result });
+    }
+
+    const r = await fetch(`${SUPABASE_URL}/functions/v1/${encodeURIComponent(row.handler)}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+        "x-webhook-replay": row.id,
+      },
+    });
+    const body = await r.text();
+    res.status(r.ok ? 200 : 502).json({ replayed: r.ok, handler: row.handler, response: body.slice(0, 1000) });
+  } catch (e: any) {
+    console.error("webhook replay error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "replay failed" });
+  }
+});
+
+// GET /admin/payouts/balances?currency=USD — who is owed what
+adminRouter.get("/admin/payouts/balances", async (req: Request, res: Response) => {
+  let q = sbAdmin
+    .from("payout_balances")
+    .select("recipient_profile_id,currency,earned,paid_out,in_payout,available,in_escrow,uncollected,last_earned_at")
+    .gt("available", 0)
+    .order("available", { ascending: false })
+    .limit(500);
+  if (req.query.currency) q = q.eq("currency", String(req.query.currency).toUpperCase());
+
+  const { data, error } = await q;
+  if (error) return res.status(500).json({ error: error.message });
+  res.json({ rows: data ?? [] });
+});
+
+/**
+ * POST /admin/payouts/batches  { recipient_id, currency, method? }
+ * Reserves everything the recipient has available in that currency.
+ */
+adminRouter.post("/admin/payouts/batches", async (req: Request, res: Response) => {
+  const schema = z.object({
+    recipient_id: z.string().uuid(),
+    currency: z.string().min(2).max(10),
+    method: z.string().max(40).optional(),
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const { data, error } = await sbAdmin.rpc("create_payout_batch", {
+    p_recipient: parsed.data.recipient_id,
+    p_currency: parsed.data.currency.toUpperCase(),
+    p_method: parsed.data.method ?? null,
+  });
+  if (error) return res.status(409).json({ error: error.message });
+  res.json({ batch: data });
+});
+
+/**
+ * POST /admin/payouts/batches/:id/status  { status: "sent" | "failed", reference?, reason? }
+ * A failed batch releases its splits back into the available balance.
+ */
+adminRouter.post("/admin/payouts/batches/:id/status", async (req: Request, res: Response) => {
+  const schema = z.object({
+    status: z.enum(["sent", "failed"]),
+    reference: z.string().max(200).optional(),
+    reason: z.string().max(1000).optional(),
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const { data, error } = await sbAdmin.rpc("set_payout_batch_status", {
+    p_batch_id: req.params.id,
+    p_status: parsed.data.status,
+    p_reference: parsed.data.reference ?? null,
+    p_reason: parsed.data.reason ?? null,
+  });
+  if (error) return res.status(409).json({ error: error.message });
+  res.json({ batch: data });
+});
+
+// GET /admin/payouts/receivables?currency=ETH — fee/royalty shares sellers kept from on-chain sales
+adminRouter.get("/admin/payouts/receivables", async (req: Request, res: Response) => {
+  let q = sbAdmin
+    .from("payout_receivables")
+    .select("split_id,order_id,debtor_profile_id,recipient_type,recipient_profile_id,amount,currency,created_at")
+    .is("collected_at", null)
+    .order("created_at", { ascending: true })
+    .limit(500);
+  if (req.query.currency) q = q.eq("currency", String(req.query.currency).toUpperCase());
+
+  const { data, error } = await q;
+  if (error) return res.status(500).json({ error: error.message });
+  res.json({ rows: data ?? [] });
+});
+
+/**
+ * POST /admin/orders/:id/receivables/collect  { reference? }
+ * The seller paid back an on-chain order's fee and royalty: its receivable
+ * splits become available to their recipients.
+ */
+adminRouter.post("/admin/orders/:id/receivables/collect", async (req: Request, res: Response) => {
+  const schema = z.object({ reference: z.string().max(200).optional() });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const { data, error } = await sbAdmin.rpc("collect_order_receivables", {
+    p_order_id: req.params.id,
+    p_reference: parsed.data.reference ?? null,
+  });
+  if (error) return res.status(409).json({ error: error.message });
+  res.json({ collected: data });
+});
+
+// GET /admin/refunds?status=failed — payments settle_order refused land here when they couldn't be refunded automatically
+adminRouter.get("/admin/refunds", async (req: Request, res: Response) => {
+  let q = sbAdmin
+    .from("refunds")
+    .select("id,order_id,initiated_by,status,reason,amount,currency,provider,provider_refund_id,last_error,created_at,updated_at")
+    .order("updated_at", { ascending: false })
+    .limit(100);
+  if (req.query.status) q = q.eq("status", String(req.query.status));
+
+  const { data, error } = await q;
+  if (error) return res.status(500).json({ error: error.message });
+  res.json({ rows: data ?? [] });
+});
+
+/**
+ * POST /admin/orders/:id/refund  { reason?, restore_listing?, tx_hash?, reference? }
+ * Support refund, outside the buyer/seller window. `reference` records money
+ * returned by hand (bank transfer, Coinbase Commerce dashboard) instead of
+ * calling the provider. Also finishes the refund of a payment settle_order
+ * refused (the order never settled, so only the money goes back).
+ */
+adminRouter.post("/admin/orders/:id/refund", async (req: Request, res: Response) => {
+  const schema = z.object({
+    reason: z.string().max(1000).optional(),
+    restore_listing: z.boolean().optional(),
+    tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+    reference: z.string().min(3).max(200).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const refund = await executeRefund({
+      orderId: req.params.id,
+      actor: { kind: "support" },
+      reason: parsed.data.reason,
+      restoreListing: parsed.data.restore_listing,
+      txHash: parsed.data.tx_hash,
+      manualReference: parsed.data.reference,
+    });
+    res.status(refund.status === "processing" ? 202 : 200).json({ refund });
+  } catch (e: any) {
+    if (e instanceof RefundError) return res.status(e.status).json({ error: e.message });
+    console.error("admin refund error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "refund failed" });
+  }
+});
+
+/**
+ * POST /admin/similarity/backfill  { limit? }
+ * Fingerprints the next batch of artwork images that have no signature yet.
+ * Repeat while `more` is true; images that can't be fetched are recorded with
+ * their error and skipped on later runs.
+ */
+adminRouter.post("/admin/similarity/backfill", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(500).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await backfillSignatures(parsed.data.limit ?? 50));
+  } catch (e: any) {
+    console.error("similarity backfill error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "backfill failed" });
+  }
+});
+
+// POST /admin/artworks/:id/signatures — re-fingerprint one artwork (retries failed images)
+adminRouter.post("/admin/artworks/:id/signatures", async (req: Request, res: Response) => {
+  try {
+    res.json(await indexArtwork(req.params.id, null));
+  } catch (e: any) {
+    if (e instanceof SimilarityError) return res.status(e.status).json({ error: e.message });
+    console.error("signature index error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "index failed" });
+  }
+});
+
+/**
+ * POST /admin/offers/expire  { limit? }
+ * Scheduled job: closes offers past their expiry, releases card holds and
+ * notifies both parties; expires accepted offers left unpaid past their
+ * deadline. Run every few minutes.
+ */
+adminRouter.post("/admin/offers/expire", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await expireOffers(parsed.data.limit ?? 200));
+  } catch (e: any) {
+    console.error("offer expiry error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "expiry failed" });
+  }
+});
+
+/**
+ * POST /admin/auctions/sweep  { limit? }
+ * Ends auctions past end_at and passes unpaid awards to the next bidder. The
+ * API already does this every AUCTION_SWEEP_SECONDS; this is for an external
+ * cron or to force a pass.
+ */
+adminRouter.post("/admin/auctions/sweep", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await sweepAuctions(parsed.data.limit ?? 100));
+  } catch (e: any) {
+    console.error("auction sweep error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "sweep failed" });
+  }
+});
+
+/**
+ * POST /admin/drops/open  { limit? }
+ * Opens scheduled drops past start_at. The API already does this every
+ * DROP_OPEN_SECONDS; this is for an external cron or to force a pass.
+ */
+adminRouter.post("/admin/drops/open", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await openDueDrops(parsed.data.limit ?? 100));
+  } catch (e: any) {
+    console.error("drop opener error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "drop opening failed" });
+  }
+});
+
+/**
+ * POST /admin/notifications/digest  { limit? }
+ * Mails the notification digests that are due. The API already does this every
+ * DIGEST_SECONDS; this is for an external cron or to force a pass.
+ */
+adminRouter.post("/admin/notifications/digest", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await sendDigests(parsed.data.limit ?? 100));
+  } catch (e: any) {
+    console.error("digest mailer error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "digest failed" });
+  }
+});
+
+/**
+ * POST /admin/chips/enroll?manufacturer=…&label=…&kind=nfc|qr
+ * Body: the manufacturer's CSV (Content-Type: text/csv) with a tag_id column
+ * and optional secret, public_key and counter. Tags without a secret get one
+ * from the CSPRNG, returned once in `secrets` for programming. Tags already
+ * enrolled are skipped and listed.
+ */
+adminRouter.post(
+  "/admin/chips/enroll",
+  bodyParser.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+  async (req: Request, res: Response) => {
+    const schema = z.object({
+      manufacturer: z.string().trim().min(1).max(120),
+      label: z.string().max(200).optional(),
+      kind: z.enum(["nfc", "qr"]).default("nfc"),
+    });
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    if (typeof req.body !== "string" || !req.body.trim()) return res.status(400).json({ error: "CSV body required" });
+
+    try {
+      res.status(201).json(await enrollChips({ ...parsed.data, csv: req.body }));
+    } catch (e: any) {
+      if (e instanceof ChipError) return res.status(e.status).json({ error: e.message });
+      console.error("chip enrollment error:", e?.message);
+      res.status(500).json({ error: e?.message ?? "enrollment failed" });
+    }
+  }
+);
+
+// POST /admin/chips/:id/rotate — new secret for a reprogrammable tag, returned once
+adminRouter.post("/admin/chips/:id/rotate", async (req: Request, res: Response) => {
+  try {
+    res.json(await rotateChipSecret(req.params.id));
+  } catch (e: any) {
+    if (e instanceof ChipError) return res.status(e.status).json({ error: e.message });
+    console.error("chip rotation error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "rotation failed" });
+  }
+});
+
+// POST /admin/chips/:id/revoke { reason? } — support revokes any tag, bound or not
+adminRouter.post("/admin/chips/:id/revoke", async (req: Request, res: Response) => {
+  const parsed = z.object({ reason: z.string().max(500).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json({ chip: await revokeChip(req.params.id, null, parsed.data.reason ?? null) });
+  } catch (e: any) {
+    if (e instanceof ChipError) return res.status(e.status).json({ error: e.message });
+    console.error("chip revoke error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "revoke failed" });
+  }
+});
+
+/**
+ * POST /admin/escrow/release  { limit? }
+ * Releases physical-sale escrows whose inspection window passed. The API
+ * already does this every ESCROW_RELEASE_SECONDS; this is for an external cron
+ * or to force a pass.
+ */
+adminRouter.post("/admin/escrow/release", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await releaseDueEscrows(parsed.data.limit ?? 100));
+  } catch (e: any) {
+    console.error("escrow releaser error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "release failed" });
+  }
+});
+
+/**
+ * POST /admin/licenses/lifecycle  { limit? }
+ * Expires licenses past their term and sends the expiry and invoice reminders
+ * that are due. The API already does this every LICENSE_LIFECYCLE_SECONDS; this
+ * is for an external cron or to force a pass.
+ */
+adminRouter.post("/admin/licenses/lifecycle", async (req: Request, res: Response) => {
+  const parsed = z.object({ limit: z.number().int().min(1).max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    res.json(await runLicenseLifecycle(parsed.data.limit ?? 100));
+  } catch (e: any) {
+    console.error("license scheduler error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "license lifecycle failed" });
+  }
+});
+
+// GET /admin/disputes?status=open
+adminRouter.get("/admin/disputes", async (req: Request, res: Response) => {
+  let q = sbAdmin
+    .from("order_disputes")
+    .select("*,orders(id,artwork_id,buyer_id,seller_id,total_amount,currency,escrow_status,escrow_release_after)")
+    .order("created_at", { ascending: false })
+    .limit(200);
+  if (req.query.status) q = q.eq("status", String(req.query.status));
+
+  const { data, error } = await q;
+  if (error) return res.status(500).json({ error: error.message });
+  res.json({ rows: data ?? [] });
+});
+
+/**
+ * POST /admin/disputes/:id/resolve  { outcome: "release" | "refund", note?, tx_hash?, reference? }
+ * "release" completes the sale now. "refund" refunds the buyer through the
+ * payment provider; tx_hash / reference work as for /admin/orders/:id/refund.
+ */
+adminRouter.post("/admin/disputes/:id/resolve", async (req: Request, res: Response) => {
+  const schema = z.object({
+    outcome: z.enum(["release", "refund"]),
+    note: z.string().max(2000).optional(),
+    tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+    reference: z.string().min(3).max(200).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const out = await resolveDispute(req.params.id, parsed.data.outcome, {
+      note: parsed.data.note,
+      txHash: parsed.data.tx_hash,
+      reference: parsed.data.reference,
+    });
+    res.status(out.refund?.status === "processing" ? 202 : 200).json(out);
+  } catch (e: any) {
+    if (e instanceof EscrowError || e instanceof RefundError) return res.status(e.status).json({ error: e.message });
+    console.error("dispute resolution error:", e?.message);
+    res.status(500).json({ error: e?.message ?? "resolution failed" });
+  }
+});
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient, sbAdmin } from "../lib/supabase";
+import { AuctionError, payAuctionAward } from "../lib/auctions";
+
+export const auctionsRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof AuctionError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+/**
+ * GET /api/auctions/:listingId
+ * Live state for bidders: the (possibly extended) end time, the server's
+ * minimum next bid, and once ended, who has to pay by when.
+ */
+auctionsRouter.get("/api/auctions/:listingId", async (req: Request, res: Response) => {
+  try {
+    const { data: listing, error } = await sbAdmin
+      .from("listings")
+      .select(
+        "id,artwork_id,seller_id,type,status,start_at,end_at,ended_at,sale_currency,reserve_price," +
+          "min_increment_bps,soft_close_seconds,checkout_hours,extension_count,winning_bid_id"
+      )
+      .eq("id", req.params.listingId)
+      .eq("type", "auction")
+      .maybeSingle();
+    if (error) throw error;
+    if (!listing) return res.status(404).json({ error: "auction not found" });
+
+    const [{ data: minBid }, { data: top }, { data: award }] = await Promise.all([
+      sbAdmin.rpc("auction_min_bid", { p_listing_id: req.params.listingId }),
+      sbAdmin
+        .from("bids")
+        .select("id,bidder_id,amount,created_at")
+        .eq("listing_id", req.params.listingId)
+        .order("amount", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      sbAdmin
+        .from("orders")
+        .select("id,buyer_id,total_amount,currency,pay_by,payment_status")
+        .eq("listing_id", req.params.listingId)
+        .eq("kind", "auction")
+        .in("payment_status", ["pending", "processing", "paid"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    res.json({ listing, min_bid: minBid ?? null, top_bid: top ?? null, award: award ?? null });
+  } catch (e: any) {
+    fail(res, e, "auction");
+  }
+});
+
+// POST /api/auctions/:listingId/checkout { provider?, wallet? } — the current award holder pays
+auctionsRouter.post("/api/auctions/:listingId/checkout", async (req: Request, res: Response) => {
+  const schema = z.object({
+    provider: z.enum(["stripe", "coinbase_commerce", "onchain", "fake"]).optional(),
+    wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await payAuctionAward(req.params.listingId, me, parsed.data.provider, parsed.data.wallet));
+  } catch (e: any) {
+    fail(res, e, "auction checkout");
+  }
+});
@@ -1,14 +1,16 @@
 //C:\Users\User\Downloads\taedal-v7\server\src\routes\checkout.ts
 import { Router, Request, Response } from "express";
 import { z } from "zod";
-import Stripe from "stripe";
 import { makeUserClient, sbAdmin } from "../lib/supabase";
+import { getProvider } from "../lib/payments";
+import { orderWei } from "../lib/payments/onchain";
+import { normalizeCurrency, planCharge, roundToMinor } from "../lib/currency";
+import { activeVoucherFor, redeemCalldata, type VoucherRow } from "../lib/vouchers";
+import { checkoutUnitPrice, ListingError } from "../lib/listings";
 
-// Stripe config
-const stripeSecret = process.env.STRIPE_SECRET_KEY || "";
 const APP_URL = process.env.APP_URL || "http://localhost:5173";
-
-const stripe = stripeSecret ? new Stripe(stripeSecret, { apiVersion: "2024-06-20" }) : null;
+/** How long a pending checkout holds its units (same window as listing_available); a Stripe session closes with it. */
+const CHECKOUT_HOLD_MS = 35 * 60_000;
 
 export const checkoutRouter = Router();
 
@@ -21,19 +23,31 @@ function bearer(req: any): string | undefined {
 
 /**
  * POST /api/checkout
- * body: { listing_id: uuid, quantity: number }
- * Only supports FIXED-PRICE listings for now (auctions later).
+ * body: { listing_id: uuid, quantity: number, provider?: "stripe" | "coinbase_commerce" | "onchain" | "fake", wallet? }
+ * Provider defaults to the listing's settlement_kind. Settlement happens in /webhooks/:provider.
+ * On-chain checkout needs `wallet`: only a payment sent from it settles the order.
+ * On-chain checkout of an unminted artwork with a signed mint voucher pays via
+ * TaedalNFT.redeem (instructions carry the calldata), minting it to the buyer.
+ * Editions sell several units per order, up to what the listing has left
+ * (listing_available: offered − sold − held by pending checkouts); 409 when
+ * sold out. One-of-ones sell one at a time; so does a bundle, whose order
+ * settle_order turns into a transfer of every artwork in it. Either is held the
+ * same way for the first buyer to check out (409 for anyone else meanwhile).
+ * Fixed-price and Dutch listings; the unit price comes from the database
+ * (listing_checkout_price), which also opens a due drop and enforces its
+ * allowlist and per-collector limit (403). Auction winners pay through
+ * /api/auctions/:listingId/checkout.
  */
 checkoutRouter.post("/api/checkout", async (req: Request, res: Response) => {
   try {
-    if (!stripe) return res.status(500).json({ error: "Stripe not configured" });
-
     const token = bearer(req);
     if (!token) return res.status(401).json({ error: "auth required" });
 
     const schema = z.object({
       listing_id: z.string().uuid(),
       quantity: z.number().int().positive().default(1),
+      provider: z.enum(["stripe", "coinbase_commerce", "onchain", "fake"]).optional(),
+      wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
     });
     const parsed = schema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
@@ -47,44 +61,95 @@ checkoutRouter.post("/api/checkout", async (req: Request, res: Response) => {
     // fetch listing + minimal artwork info
     const { data: listing, error: lerr } = await sbAdmin
       .from("listings")
-      .select("id,type,status,start_at,end_at,sale_currency,fixed_price,quantity,artwork_id,seller_id")
+      .select("id,type,status,start_at,end_at,sale_currency,fixed_price,quantity,artwork_id,seller_id,settlement_kind,seller_wallet,is_bundle")
       .eq("id", parsed.data.listing_id)
       .single();
 
     if (lerr || !listing) return res.status(404).json({ error: "listing not found" });
-    if (listing.type !== "fixed_price") return res.status(400).json({ error: "only fixed-price supported for now" });
+    if (listing.type === "auction") return res.status(400).json({ error: "auctions are paid by the winner after they end" });
     if (listing.status !== "active") return res.status(400).json({ error: "listing not active" });
     if (listing.seller_id === buyerId) return res.status(400).json({ error: "seller cannot buy own listing" });
 
-    const now = new Date();
-    if (listing.start_at && new Date(listing.start_at) > now) {
-      return res.status(400).json({ error: "sale not started" });
-    }
-    if (listing.end_at && new Date(listing.end_at) < now) {
-      return res.status(400).json({ error: "sale ended" });
-    }
-    if ((listing.quantity ?? 1) < parsed.data.quantity) {
-      return res.status(400).json({ error: "insufficient quantity" });
-    }
+    const providerId = parsed.data.provider ?? listing.settlement_kind ?? "stripe";
+    const provider = getProvider(providerId);
+    if (!provider) return res.status(400).json({ error: `payment provider ${providerId} not available` });
+    const payerWallet = provider.id === "onchain" ? parsed.data.wallet?.toLowerCase() : null;
+    if (provider.id === "onchain" && !payerWallet) return res.status(400).json({ error: "wallet required to pay on-chain" });
 
-    // fetch artwork title (for Stripe line item name)
+    // fetch artwork title (for the provider's line item name), whether it's minted and its edition
     const { data: art, error: aerr } = await sbAdmin
       .from("artworks")
-      .select("title")
+      .select("title,token_id,edition_type")
       .eq("id", listing.artwork_id)
       .single();
-    const artworkTitle = aerr ? "Artwork" : (art?.title || "Artwork");
+    let artworkTitle = aerr ? "Artwork" : (art?.title || "Artwork");
+    if (listing.is_bundle) {
+      const { count } = await sbAdmin
+        .from("bundle_items")
+        .select("artwork_id", { count: "exact", head: true })
+        .eq("listing_id", listing.id);
+      artworkTitle = `${artworkTitle} + ${(count ?? 2) - 1} more (bundle)`;
+    }
 
-    // currency: Stripe expects 3-letter fiat code (we'll default to USD for fiat checkout)
-    const currency = (String(listing.sale_currency || "usd").toLowerCase() === "usd") ? "usd" : "usd";
+    if ((art?.edition_type ?? "unique") === "unique") {
+      if (parsed.data.quantity !== 1) return res.status(400).json({ error: "one-of-one artworks sell one at a time" });
+      // held for whoever opened a checkout on it first (the caller may retry their own)
+      const { data: held, error: herr } = await sbAdmin
+        .from("orders")
+        .select("id")
+        .eq("listing_id", listing.id)
+        .neq("buyer_id", buyerId)
+        .in("payment_status", ["pending", "processing"])
+        .gt("created_at", new Date(Date.now() - CHECKOUT_HOLD_MS).toISOString())
+        .limit(1);
+      if (herr) throw herr;
+      if (held?.length) return res.status(409).json({ error: "someone else is checking out this artwork", available: 0 });
+    } else {
+      const { data: available, error: qerr } = await sbAdmin.rpc("listing_available", { p_listing_id: listing.id });
+      if (qerr) throw qerr;
+      if (available === 0) return res.status(409).json({ error: "sold out", available: 0 });
+      if (available != null && available < parsed.data.quantity) {
+        return res.status(409).json({ error: `only ${available} left`, available });
+      }
+    }
 
-    // price amounts: Stripe amounts are in the smallest currency unit
-    const unitPrice = Number(listing.fixed_price);                  // e.g. 19.99
+    // sale window, drop rules and (for Dutch listings) the price right now
+    const currency = normalizeCurrency(listing.sale_currency);
+    let unitPrice: number;
+    try {
+      unitPrice = roundToMinor(await checkoutUnitPrice(listing.id, buyerId, parsed.data.quantity), currency);
+    } catch (e: any) {
+      if (e instanceof ListingError) return res.status(e.status).json({ error: e.message });
+      throw e;
+    }
     if (!isFinite(unitPrice) || unitPrice <= 0) {
-      return res.status(400).json({ error: "invalid fixed price on listing" });
+      return res.status(400).json({ error: "invalid price on listing" });
     }
     const quantity = parsed.data.quantity;
-    const totalAmount = unitPrice * quantity;
+    const totalAmount = roundToMinor(unitPrice * quantity, currency);
+
+    let voucher: VoucherRow | null = null;
+    // a bundle settles off-chain as one lot; vouchers mint a single artwork
+    if (provider.id === "onchain" && art && art.token_id == null && !listing.is_bundle) {
+      voucher = await activeVoucherFor(listing.artwork_id);
+      if (voucher && quantity !== 1) return res.status(400).json({ error: "lazy-minted artworks sell one at a time" });
+      if (voucher && Number(voucher.price) !== unitPrice) {
+        return res.status(409).json({ error: "price changed since the creator signed the mint voucher" });
+      }
+    }
+
+    // The order is always priced in the listing currency (splits settle in it).
+    // Stripe and Coinbase Commerce charge in that currency when they can;
+    // otherwise the price is converted at a rate locked onto the order now.
+    let charge;
+    try {
+      charge = await planCharge(provider.id, unitPrice, currency);
+    } catch (e: any) {
+      console.error("fx quote failed:", e?.message);
+      return res.status(503).json({ error: `no exchange rate for ${currency}` });
+    }
+    const { currency: chargeCurrency, unitPrice: chargeUnitPrice, fx } = charge;
+    if (chargeUnitPrice <= 0) return res.status(400).json({ error: "price too small to charge" });
 
     // 1) Insert a pending order (service role; we trust validations above)
     const { data: order, error: oerr } = await sbAdmin
@@ -97,44 +162,62 @@ checkoutRouter.post("/api/checkout", async (req: Request, res: Response) => {
         quantity,
         unit_price: unitPrice,
         total_amount: totalAmount,
-        currency: currency.toUpperCase(),
+        currency,
+        charge_currency: chargeCurrency,
+        charge_amount: roundToMinor(chargeUnitPrice * quantity, chargeCurrency),
+        ...fx,
+        voucher_id: voucher?.id ?? null,
+        payer_wallet: payerWallet,
+        // the exact wei the session asks for; the on-chain webhook verifies against it
+        amount_wei: provider.id !== "onchain" ? null : voucher ? String(voucher.price_wei) : orderWei(chargeUnitPrice, quantity).toString(),
         payment_status: "pending",
-        settlement_kind: "stripe"
+        settlement_kind: provider.id,
       })
-      .select("id")
+      .select("id,created_at")
       .single();
 
     if (oerr || !order) return res.status(500).json({ error: "failed to create order" });
 
-    // 2) Create Stripe Checkout Session
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      success_url: `${APP_URL}/checkout/success?order_id=${order.id}`,
-      cancel_url: `${APP_URL}/checkout/cancel?order_id=${order.id}`,
-      line_items: [
-        {
-          quantity,
-          price_data: {
-            currency,
-            unit_amount: Math.round(unitPrice * 100), // $19.99 -> 1999
-            product_data: {
-              name: artworkTitle,
-            },
-          },
-        },
-      ],
-      metadata: {
-        order_id: order.id,
-        buyer_id: buyerId,
-        listing_id: listing.id,
-      },
-      client_reference_id: buyerId,
-    });
-
-    // 3) Optionally store the session id on the order (handy for support)
-    await sbAdmin.from("orders").update({ stripe_session_id: session.id }).eq("id", order.id);
+    // 2) Open a session with the provider
+    let session;
+    try {
+      session = await provider.createSession({
+        orderId: order.id,
+        buyerId,
+        listingId: listing.id,
+        artworkId: listing.artwork_id,
+        title: artworkTitle,
+        quantity,
+        unitPrice: chargeUnitPrice,
+        currency: chargeCurrency,
+        payTo: listing.seller_wallet ?? null,
+        payFrom: payerWallet,
+        redeem: voucher
+          ? { to: voucher.contract_address, data: redeemCalldata(voucher), valueWei: BigInt(voucher.price_wei) }
+          : null,
+        expiresAt: new Date(new Date(order.created_at).getTime() + CHECKOUT_HOLD_MS),
+        successUrl: `${APP_URL}/checkout/success?order_id=${order.id}`,
+        cancelUrl: `${APP_URL}/checkout/cancel?order_id=${order.id}`,
+      });
+    } catch (e: any) {
+      await sbAdmin.from("orders").update({ payment_status: "failed" }).eq("id", order.id);
+      return res.status(502).json({ error: e?.message || "payment provider error" });
+    }
 
-    return res.json({ checkout_url: session.url, order_id: order.id });
+    // 3) Store the provider's session id on the order (handy for support)
+    await sbAdmin
+      .from("orders")
+      .update(provider.id === "stripe" ? { stripe_session_id: session.id } : { provider_session_id: session.id })
+      .eq("id", order.id);
+
+    return res.json({
+      order_id: order.id,
+      provider: provider.id,
+      checkout_url: session.url,
+      instructions: session.instructions ?? null,
+      amount: { currency, total: totalAmount },
+      charge: { currency: chargeCurrency, total: roundToMinor(chargeUnitPrice * quantity, chargeCurrency), fx_rate: fx?.fx_rate ?? null },
+    });
   } catch (e: any) {
     console.error("checkout error:", e);
     return res.status(500).json({ error: "internal error" });
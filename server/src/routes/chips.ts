@@ -0,0 +1,99 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient } from "../lib/supabase";
+import { artworkChips, bindChip, ChipError, replaceChip, revokeChip, unbindChip } from "../lib/chips";
+
+export const chipsRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof ChipError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+const tagId = z.string().regex(/^[\w:.-]{4,128}$/, "bad tag id");
+
+/**
+ * POST /api/chips/bind  { tag_id, artwork_id }
+ * The creator attaches an enrolled chip to a physical work they still hold
+ * (CreateArtwork does this right after the artwork is saved).
+ */
+chipsRouter.post("/api/chips/bind", async (req: Request, res: Response) => {
+  const parsed = z.object({ tag_id: tagId, artwork_id: z.string().uuid() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.status(201).json({ chip: await bindChip(parsed.data.tag_id, parsed.data.artwork_id, me) });
+  } catch (e: any) {
+    fail(res, e, "chip bind");
+  }
+});
+
+// POST /api/chips/:id/unbind — creator undoes a binding before the work changes hands
+chipsRouter.post("/api/chips/:id/unbind", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ chip: await unbindChip(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "chip unbind");
+  }
+});
+
+// POST /api/chips/:id/revoke { reason? } — the owner retires a lost or damaged tag
+chipsRouter.post("/api/chips/:id/revoke", async (req: Request, res: Response) => {
+  const parsed = z.object({ reason: z.string().max(500).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ chip: await revokeChip(req.params.id, me, parsed.data.reason ?? null) });
+  } catch (e: any) {
+    fail(res, e, "chip revoke");
+  }
+});
+
+/**
+ * POST /api/chips/:id/replace  { tag_id, reason? }
+ * The owner swaps a tag for a new enrolled one; the old one is revoked.
+ */
+chipsRouter.post("/api/chips/:id/replace", async (req: Request, res: Response) => {
+  const parsed = z.object({ tag_id: tagId, reason: z.string().max(500).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ chip: await replaceChip(req.params.id, parsed.data.tag_id, me, parsed.data.reason ?? null) });
+  } catch (e: any) {
+    fail(res, e, "chip replace");
+  }
+});
+
+// GET /api/artworks/:id/chips — bound chips and their history, owner or creator only
+chipsRouter.get("/api/artworks/:id/chips", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await artworkChips(req.params.id, me));
+  } catch (e: any) {
+    fail(res, e, "chip list");
+  }
+});
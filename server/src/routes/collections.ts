@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient } from "../lib/supabase";
+import { CollectionDeployError, confirmCollectionDeploy } from "../lib/collections";
+
+export const collectionsRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+/**
+ * POST /api/collections/:id/deploy — collection owner only.
+ * body: { tx_hash } of their TaedalCollectionFactory.deployCollection(name, symbol) call.
+ * 200 { collection } once the contract is verified, 202 while the tx is still
+ * confirming (post again), 422 if it reverted or didn't deploy this collection.
+ */
+collectionsRouter.post("/api/collections/:id/deploy", async (req: Request, res: Response) => {
+  const parsed = z.object({ tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/) }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const collection = await confirmCollectionDeploy(req.params.id, me, parsed.data.tx_hash);
+    const status = collection.deploy_status === "deployed" ? 200 : collection.deploy_status === "failed" ? 422 : 202;
+    res.status(status).json({ collection });
+  } catch (e: any) {
+    if (e instanceof CollectionDeployError) return res.status(e.status).json({ error: e.message });
+    console.error("collection deploy error:", e?.message);
+    res.status(500).json({ error: "collection deploy failed" });
+  }
+});
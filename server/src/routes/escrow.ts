@@ -0,0 +1,70 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient } from "../lib/supabase";
+import { confirmReceipt, EscrowError, getEscrow, openDispute } from "../lib/escrow";
+
+export const escrowRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof EscrowError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+// GET /api/orders/:id/escrow — escrow state and disputes, buyer or seller only
+escrowRouter.get("/api/orders/:id/escrow", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await getEscrow(req.params.id, me));
+  } catch (e: any) {
+    fail(res, e, "escrow lookup");
+  }
+});
+
+/**
+ * POST /api/orders/:id/escrow/confirm
+ * Buyer: the artwork arrived. Releases the payment and hands over ownership
+ * without waiting for the inspection window.
+ */
+escrowRouter.post("/api/orders/:id/escrow/confirm", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ order: await confirmReceipt(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "escrow confirm");
+  }
+});
+
+/**
+ * POST /api/orders/:id/disputes  { reason }
+ * Buyer: report a problem before delivery or inside the inspection window.
+ * Release waits until support resolves it.
+ */
+escrowRouter.post("/api/orders/:id/disputes", async (req: Request, res: Response) => {
+  const parsed = z.object({ reason: z.string().trim().min(5).max(2000) }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.status(201).json({ dispute: await openDispute(req.params.id, me, parsed.data.reason) });
+  } catch (e: any) {
+    fail(res, e, "dispute");
+  }
+});
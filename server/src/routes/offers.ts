@@ -0,0 +1,199 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient, sbAdmin } from "../lib/supabase";
+import {
+  acceptOffer,
+  counterOffer,
+  declineOffer,
+  makeOffer,
+  OfferError,
+  payAcceptedOffer,
+  settleWethOffer,
+  withdrawOffer,
+} from "../lib/offers";
+
+export const offersRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof OfferError) return res.status(e.status).json({ error: e.message, ...e.details });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+const hours = z.number().positive().max(30 * 24).optional();
+
+/**
+ * POST /api/offers
+ * body: { artwork_id, amount (per unit), currency, quantity?, seller_id?, expires_in_hours?,
+ *         funding?: "none" | "stripe_preauth" | "weth_allowance", buyer_wallet?, message? }
+ * 201 { offer, checkout_url }. Card-backed offers open once the buyer completes
+ * the authorization at checkout_url. WETH offers answer 422 with `approve`
+ * (token, spender, amount_wei) until the allowance is in place.
+ */
+offersRouter.post("/api/offers", async (req: Request, res: Response) => {
+  const schema = z.object({
+    artwork_id: z.string().uuid(),
+    amount: z.number().positive(),
+    currency: z.string().min(3).max(12),
+    quantity: z.number().int().positive().optional(),
+    seller_id: z.string().uuid().optional(),
+    expires_in_hours: hours,
+    funding: z.enum(["none", "stripe_preauth", "weth_allowance"]).optional(),
+    buyer_wallet: address.optional(),
+    message: z.string().max(1000).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const b = parsed.data;
+    const out = await makeOffer({
+      buyerId: me,
+      artworkId: b.artwork_id,
+      amount: b.amount,
+      currency: b.currency,
+      quantity: b.quantity,
+      sellerId: b.seller_id,
+      expiresInHours: b.expires_in_hours,
+      funding: b.funding,
+      buyerWallet: b.buyer_wallet,
+      message: b.message,
+    });
+    res.status(201).json(out);
+  } catch (e: any) {
+    fail(res, e, "offer");
+  }
+});
+
+// GET /api/offers?artwork_id=&role=buyer|seller — the caller's offers, newest first
+offersRouter.get("/api/offers", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+
+    let q = sbAdmin.from("offers").select("*").order("created_at", { ascending: false }).limit(100);
+    if (req.query.role === "buyer") q = q.eq("buyer_id", me);
+    else if (req.query.role === "seller") q = q.eq("seller_id", me);
+    else q = q.or(`buyer_id.eq.${me},seller_id.eq.${me}`);
+    if (req.query.artwork_id) q = q.eq("artwork_id", String(req.query.artwork_id));
+
+    const { data, error } = await q;
+    if (error) throw error;
+    res.json({ offers: data ?? [] });
+  } catch (e: any) {
+    fail(res, e, "offers");
+  }
+});
+
+// POST /api/offers/:id/counter { amount, expires_in_hours?, message? } — recipient only
+offersRouter.post("/api/offers/:id/counter", async (req: Request, res: Response) => {
+  const schema = z.object({
+    amount: z.number().positive(),
+    expires_in_hours: hours,
+    message: z.string().max(1000).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const offer = await counterOffer(req.params.id, me, {
+      amount: parsed.data.amount,
+      expiresInHours: parsed.data.expires_in_hours,
+      message: parsed.data.message,
+    });
+    res.status(201).json({ offer });
+  } catch (e: any) {
+    fail(res, e, "counter");
+  }
+});
+
+// POST /api/offers/:id/withdraw — the maker
+offersRouter.post("/api/offers/:id/withdraw", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ offer: await withdrawOffer(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "withdraw");
+  }
+});
+
+// POST /api/offers/:id/decline — the recipient
+offersRouter.post("/api/offers/:id/decline", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ offer: await declineOffer(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "decline");
+  }
+});
+
+/**
+ * POST /api/offers/:id/accept — the recipient
+ * 200 when the order settled (card hold captured); 202 while it waits on the
+ * seller's WETH transfer (`instructions`) or the buyer's checkout.
+ */
+offersRouter.post("/api/offers/:id/accept", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const out = await acceptOffer(req.params.id, me);
+    res.status(out.status === "paid" ? 200 : 202).json(out);
+  } catch (e: any) {
+    fail(res, e, "accept");
+  }
+});
+
+// POST /api/offers/:id/settle { tx_hash } — seller, after sending the WETH transferFrom
+offersRouter.post("/api/offers/:id/settle", async (req: Request, res: Response) => {
+  const schema = z.object({ tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/) });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const out = await settleWethOffer(req.params.id, me, parsed.data.tx_hash);
+    res.status(out.status === "paid" ? 200 : 202).json(out);
+  } catch (e: any) {
+    fail(res, e, "settle");
+  }
+});
+
+// POST /api/offers/:id/checkout { provider?, wallet? } — buyer pays an accepted offer that had no hold
+offersRouter.post("/api/offers/:id/checkout", async (req: Request, res: Response) => {
+  const schema = z.object({
+    provider: z.enum(["stripe", "coinbase_commerce", "onchain", "fake"]).optional(),
+    wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await payAcceptedOffer(req.params.id, me, parsed.data.provider, parsed.data.wallet));
+  } catch (e: any) {
+    fail(res, e, "offer checkout");
+  }
+});
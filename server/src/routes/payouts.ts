@@ -0,0 +1,122 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient, sbAdmin } from "../lib/supabase";
+
+export const payoutsRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+export type EarningRow = {
+  split_id: string;
+  order_id: string;
+  artwork_id: string;
+  artwork_title: string | null;
+  recipient_type: string;
+  amount: number;
+  currency: string;
+  settled_at: string;
+  payout_batch_id: string | null;
+};
+
+const CSV_COLUMNS: (keyof EarningRow)[] = [
+  "settled_at", "artwork_id", "artwork_title", "order_id", "recipient_type", "amount", "currency", "payout_batch_id",
+];
+
+// a text cell starting with one of these is a formula to Excel and Sheets
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(v: unknown) {
+  let s = v == null ? "" : String(v);
+  // titles are user-written: "=HYPERLINK(...)" must stay text (amounts are numbers, left alone)
+  if (typeof v !== "number" && FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function earningsCsv(rows: EarningRow[]) {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const r of rows) lines.push(CSV_COLUMNS.map((c) => csvCell(r[c])).join(","));
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * GET /api/me/payouts?from=ISO&to=ISO[&format=csv]
+ * The caller's running balances, payout batches and the individual earnings
+ * (payout_splits on paid orders, plus negative reversals for refunds) in
+ * [from, to). `format=csv` returns just the earnings as a statement download.
+ */
+payoutsRouter.get("/api/me/payouts", async (req: Request, res: Response) => {
+  try {
+    const token = bearer(req);
+    if (!token) return res.status(401).json({ error: "auth required" });
+
+    const schema = z.object({
+      from: z.string().datetime({ offset: true }).optional(),
+      to: z.string().datetime({ offset: true }).optional(),
+      format: z.enum(["json", "csv"]).default("json"),
+    });
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const { from, to, format } = parsed.data;
+
+    const uc = makeUserClient(token);
+    const { data: userRes, error: userErr } = await uc.auth.getUser();
+    if (userErr || !userRes?.user) return res.status(401).json({ error: "invalid user" });
+    const me = userRes.user.id;
+
+    let q = sbAdmin
+      .from("payout_splits")
+      .select("id,order_id,recipient_type,amount,currency,payout_batch_id,reversal_of,created_at,orders!inner(artwork_id,payment_status,settled_at,artworks(title))")
+      .eq("recipient_profile_id", me)
+      .in("orders.payment_status", ["paid", "refunded"])
+      .order("created_at", { ascending: false })
+      .limit(5000);
+    if (from) q = q.gte("created_at", from);
+    if (to) q = q.lt("created_at", to);
+
+    const { data: splits, error: serr } = await q;
+    if (serr) return res.status(500).json({ error: serr.message });
+
+    const earnings: EarningRow[] = (splits ?? []).map((s: any) => ({
+      split_id: s.id,
+      order_id: s.order_id,
+      artwork_id: s.orders?.artwork_id,
+      artwork_title: s.orders?.artworks?.title ?? null,
+      recipient_type: s.recipient_type,
+      amount: Number(s.amount),
+      currency: String(s.currency || "").toUpperCase(),
+      // a reversal is dated when the refund happened
+      settled_at: (s.reversal_of ? null : s.orders?.settled_at) ?? s.created_at,
+      payout_batch_id: s.payout_batch_id ?? null,
+    }));
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="taedal-earnings.csv"`);
+      return res.send(earningsCsv(earnings));
+    }
+
+    const [{ data: balances, error: berr }, { data: batches, error: perr }] = await Promise.all([
+      sbAdmin
+        .from("payout_balances")
+        .select("currency,earned,paid_out,in_payout,available,in_escrow,uncollected,last_earned_at")
+        .eq("recipient_profile_id", me),
+      sbAdmin
+        .from("payout_batches")
+        .select("id,currency,amount,split_count,status,method,reference,failure_reason,created_at,sent_at")
+        .eq("recipient_profile_id", me)
+        .order("created_at", { ascending: false })
+        .limit(100),
+    ]);
+    if (berr || perr) return res.status(500).json({ error: (berr ?? perr)!.message });
+
+    res.json({ balances: balances ?? [], batches: batches ?? [], earnings });
+  } catch (e: any) {
+    console.error("payouts error:", e?.message);
+    res.status(500).json({ error: "failed to load payouts" });
+  }
+});
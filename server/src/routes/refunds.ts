@@ -0,0 +1,113 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient, sbAdmin } from "../lib/supabase";
+import { executeRefund, rejectRefund, requestRefund, RefundError } from "../lib/refunds";
+
+export const refundsRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof RefundError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+/**
+ * POST /api/orders/:id/refund
+ * body: { reason?, restore_listing?, tx_hash? }
+ * Buyer: opens a refund request. Seller: refunds now (through the payment
+ * provider; for ETH orders pass the tx_hash of the transfer back to the buyer)
+ * and may put the listing back up. Both only within the refund window.
+ */
+refundsRouter.post("/api/orders/:id/refund", async (req: Request, res: Response) => {
+  const schema = z.object({
+    reason: z.string().max(1000).optional(),
+    restore_listing: z.boolean().optional(),
+    tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+
+    const { data: order } = await sbAdmin
+      .from("orders")
+      .select("buyer_id,seller_id")
+      .eq("id", req.params.id)
+      .maybeSingle();
+    if (!order) return res.status(404).json({ error: "order not found" });
+
+    if (order.buyer_id === me) {
+      const refund = await requestRefund(req.params.id, me, parsed.data.reason ?? null);
+      return res.status(201).json({ refund });
+    }
+
+    const refund = await executeRefund({
+      orderId: req.params.id,
+      actor: { kind: "seller", userId: me },
+      reason: parsed.data.reason,
+      restoreListing: parsed.data.restore_listing,
+      txHash: parsed.data.tx_hash,
+    });
+    res.status(refund.status === "processing" ? 202 : 200).json({ refund });
+  } catch (e: any) {
+    fail(res, e, "refund");
+  }
+});
+
+// GET /api/orders/:id/refunds — refund history, buyer or seller only
+refundsRouter.get("/api/orders/:id/refunds", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+
+    const { data: order } = await sbAdmin
+      .from("orders")
+      .select("buyer_id,seller_id")
+      .eq("id", req.params.id)
+      .maybeSingle();
+    if (!order || (order.buyer_id !== me && order.seller_id !== me)) {
+      return res.status(404).json({ error: "order not found" });
+    }
+
+    const { data, error } = await sbAdmin
+      .from("refunds")
+      .select("*")
+      .eq("order_id", req.params.id)
+      .order("created_at", { ascending: false });
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ rows: data ?? [] });
+  } catch (e: any) {
+    fail(res, e, "refund list");
+  }
+});
+
+// POST /api/refunds/:id/reject { reason? } — seller declines a buyer's request
+refundsRouter.post("/api/refunds/:id/reject", async (req: Request, res: Response) => {
+  const parsed = z.object({ reason: z.string().max(1000).optional() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const refund = await rejectRefund(req.params.id, me, parsed.data.reason ?? null);
+    res.json({ refund });
+  } catch (e: any) {
+    fail(res, e, "refund reject");
+  }
+});
@@ -14,11 +14,29 @@ function bearer(req: any): string | undefined {
 
 
 // POST /api/listings
+// type "dutch" needs `dutch` (the price curve); "coming_soon" is a scheduled drop
+// and needs start_at in the future plus `drop` (what it opens as, allowlist,
+// per-wallet limit). A drop opening as Dutch takes `dutch` too.
+// `bundle` (two or more artworks the caller owns, with price weights) lists
+// them as one lot at a fixed price or by auction; artwork_id is ignored then.
 rpcRouter.post("/listings", async (req: Request, res: Response) => {
   const token = bearer(req);
+  const dutch = z.object({
+    start_price: z.number().positive(),
+    floor_price: z.number().positive(),
+    curve: z.enum(["linear", "stepped"]).default("linear"),
+    decay_seconds: z.number().int().positive(),
+    interval_seconds: z.number().int().positive().nullish(),
+  });
+  const drop = z.object({
+    sale_type: z.enum(["fixed_price", "dutch"]).default("fixed_price"),
+    allowlist_only: z.boolean().default(false),
+    allowlist: z.array(z.string().uuid()).max(5000).optional(),
+    per_wallet_limit: z.number().int().positive().nullish(),
+  });
   const schema = z.object({
     artwork_id: z.string().uuid(),
-    type: z.enum(["coming_soon", "fixed_price", "auction"]),
+    type: z.enum(["coming_soon", "fixed_price", "auction", "dutch"]),
     status: z.enum(["draft", "active", "paused", "ended", "canceled"]).default("active"),
     sale_currency: z.string().default("ETH"),
     fixed_price: z.number().optional().nullable(),
@@ -33,6 +51,29 @@ rpcRouter.post("/listings", async (req: Request, res: Response) => {
     charity_target_id: z.string().uuid().nullish(),
     charity_name: z.string().nullish(),
     charity_wallet_address: z.string().nullish(),
+    dutch: dutch.optional(),
+    drop: drop.optional(),
+    bundle: z
+      .array(z.object({ artwork_id: z.string().uuid(), weight: z.number().positive().default(1) }))
+      .min(2)
+      .max(50)
+      .optional(),
+  }).superRefine((v, ctx) => {
+    if (v.bundle && v.type !== "fixed_price" && v.type !== "auction") {
+      ctx.addIssue({ code: "custom", path: ["type"], message: "a bundle sells at a fixed price or by auction" });
+    }
+    const saleType = v.type === "coming_soon" ? v.drop?.sale_type ?? "fixed_price" : v.type;
+    if (saleType === "dutch" && !v.dutch) ctx.addIssue({ code: "custom", path: ["dutch"], message: "Dutch listings need a price curve" });
+    if (v.dutch && v.dutch.start_price <= v.dutch.floor_price) {
+      ctx.addIssue({ code: "custom", path: ["dutch", "floor_price"], message: "floor must be below the start price" });
+    }
+    if (v.dutch?.curve === "stepped" && !v.dutch.interval_seconds) {
+      ctx.addIssue({ code: "custom", path: ["dutch", "interval_seconds"], message: "a stepped curve needs an interval" });
+    }
+    if (v.type === "coming_soon" && !(v.start_at && new Date(v.start_at).getTime() > Date.now())) {
+      ctx.addIssue({ code: "custom", path: ["start_at"], message: "a drop needs a start time in the future" });
+    }
+    if (v.drop && v.type !== "coming_soon") ctx.addIssue({ code: "custom", path: ["drop"], message: "only coming_soon listings are drops" });
   });
 
   const parsed = schema.safeParse(req.body);
@@ -40,6 +81,25 @@ rpcRouter.post("/listings", async (req: Request, res: Response) => {
 
   try {
     const client = makeUserClient(token ?? undefined);
+
+    if (parsed.data.bundle) {
+      const d = parsed.data;
+      const { data, error } = await client
+        .rpc("create_bundle_listing", {
+          p_artwork_ids: d.bundle!.map((i) => i.artwork_id),
+          p_weights: d.bundle!.map((i) => i.weight),
+          p_type: d.type,
+          p_currency: d.sale_currency,
+          p_price: d.fixed_price ?? null,
+          p_reserve_price: d.reserve_price ?? null,
+          p_start_at: d.start_at ?? null,
+          p_end_at: d.end_at ?? null,
+        })
+        .single<{ id: string }>();
+      if (error) return res.status(400).json({ error: error.message });
+      return res.json({ id: data!.id });
+    }
+
     const payload: any = {
       p_artwork_id: parsed.data.artwork_id,
       p_type: parsed.data.type,
@@ -60,6 +120,40 @@ rpcRouter.post("/listings", async (req: Request, res: Response) => {
     };
     const { data, error } = await client.rpc("create_listing", payload);
     if (error) return res.status(400).json({ error: error.message });
+
+    // drop and curve settings go on after the row exists; a listing that can't
+    // take them is canceled rather than left selling at the wrong terms
+    const d = parsed.data;
+    const steps: [string, Record<string, unknown>][] = [];
+    if (d.type === "coming_soon") {
+      const rules = d.drop ?? drop.parse({});
+      steps.push(["schedule_drop", {
+        p_listing_id: data,
+        p_start_at: d.start_at,
+        p_sale_type: rules.sale_type,
+        p_allowlist_only: rules.allowlist_only,
+        p_per_wallet_limit: rules.per_wallet_limit ?? null,
+      }]);
+      if (rules.allowlist?.length) steps.push(["set_drop_allowlist", { p_listing_id: data, p_profile_ids: rules.allowlist }]);
+    }
+    if (d.dutch) {
+      steps.push(["set_dutch_pricing", {
+        p_listing_id: data,
+        p_start_price: d.dutch.start_price,
+        p_floor_price: d.dutch.floor_price,
+        p_curve: d.dutch.curve,
+        p_decay_seconds: d.dutch.decay_seconds,
+        p_interval_seconds: d.dutch.interval_seconds ?? null,
+      }]);
+    }
+    for (const [fn, args] of steps) {
+      const { error: serr } = await client.rpc(fn, args);
+      if (serr) {
+        await sbAdmin.from("listings").update({ status: "canceled" }).eq("id", data);
+        return res.status(400).json({ error: serr.message });
+      }
+    }
+
     res.json({ id: data });
   } catch (e: any) {
     console.error(e);
@@ -102,15 +196,15 @@ rpcRouter.post("/orders/:id/paid", async (req: Request, res: Response) => {
   if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
 
   try {
-    const { error } = await sbAdmin.rpc("mark_order_paid", {
+    const { error } = await sbAdmin.rpc("settle_order", {
       p_order_id: orderId,
-      p_chain_id: parsed.data.chain_id,
+      p_chain_id: parsed.data.chain_id || null,
       p_tx_hash: parsed.data.tx_hash ?? null,
     } as any);
     if (error) return res.status(400).json({ error: error.message });
     res.json({ ok: true });
   } catch (e: any) {
     console.error(e);
-    res.status(500).json({ error: "mark_order_paid failed" });
+    res.status(500).json({ error: "settle_order failed" });
   }
 });
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { artworkFacets, searchArtworks, searchEverything, SearchError } from "../lib/search";
+
+export const searchRouter = Router();
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof SearchError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+/** ?tag=a&tag=b and ?tag=a,b both become ["a", "b"] */
+const list = z.preprocess(
+  (v) =>
+    (Array.isArray(v) ? v : typeof v === "string" ? [v] : [])
+      .flatMap((s) => String(s).split(","))
+      .map((s) => s.trim())
+      .filter(Boolean),
+  z.array(z.string().max(64)).max(20)
+);
+
+const flag = z.preprocess((v) => v === "1" || v === "true", z.boolean());
+
+const price = z.preprocess((v) => (v === "" || v == null ? undefined : Number(v)), z.number().min(0).optional());
+
+const querySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  scope: z.enum(["all", "artworks"]).default("all"),
+  kinds: list.pipe(z.array(z.enum(["artwork", "profile", "collection"]))),
+  status: z.enum(["all", "buy-now", "on-auction", "dutch", "drops", "new", "has-offers"]).default("all"),
+  medium: list,
+  currency: list,
+  min_price: price,
+  max_price: price,
+  physical: z.enum(["physical", "digital"]).optional(),
+  tags: list,
+  ending_soon: flag,
+  new_today: flag,
+  sort: z.enum(["relevance", "recent", "trending", "price-asc", "price-desc"]).default("relevance"),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  facets: flag,
+});
+
+/**
+ * GET /api/search — public.
+ * scope=all (navbar): ?q=…&kinds=artwork,profile,collection
+ *   → { hits: [{ kind, id, title, subtitle, image_url, handle, score }], next_cursor }
+ * scope=artworks (Discover): ?q=…&status=…&medium=…&currency=…&min_price=…&max_price=…
+ *   &physical=physical|digital&tags=…&ending_soon=1&new_today=1&sort=…&facets=1
+ *   → { items: [v_discover_items row + score], next_cursor, facets? }
+ * Pass next_cursor back as ?cursor= (with the same filters) for the next page.
+ */
+searchRouter.get("/api/search", async (req: Request, res: Response) => {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+  const p = parsed.data;
+
+  try {
+    if (p.scope === "all") {
+      if (!p.q) return res.json({ hits: [], next_cursor: null });
+      return res.json(await searchEverything(p.q, { kinds: p.kinds, cursor: p.cursor, limit: p.limit }));
+    }
+
+    const filters = {
+      q: p.q,
+      status: p.status,
+      medium: p.medium,
+      currency: p.currency,
+      minPrice: p.min_price,
+      maxPrice: p.max_price,
+      physical: p.physical ? p.physical === "physical" : null,
+      tags: p.tags,
+      endingSoon: p.ending_soon,
+      newToday: p.new_today,
+    };
+    const [page, facets] = await Promise.all([
+      searchArtworks(filters, { sort: p.sort, cursor: p.cursor, limit: p.limit }),
+      // facets don't change between pages; only the first one asks
+      p.facets && !p.cursor ? artworkFacets(filters) : Promise.resolve(undefined),
+    ]);
+    res.json({ ...page, facets });
+  } catch (e: any) {
+    fail(res, e, "search");
+  }
+});
@@ -0,0 +1,347 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient } from "../lib/supabase";
+import { listCarriers } from "../lib/carriers";
+import {
+  buyLabel,
+  customsDocUrl,
+  insureShipment,
+  labelUrl,
+  quoteShipping,
+  ShippingError,
+  updateShipmentCustoms,
+  validateAddress,
+} from "../lib/labels";
+import { addLeg, fileConditionReport, listLegs, reportUploads, updateLeg } from "../lib/custody";
+
+export const shippingRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof ShippingError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+const address = z.object({
+  name: z.string().trim().min(1).max(120),
+  company: z.string().trim().max(120).nullish(),
+  street1: z.string().trim().min(1).max(200),
+  street2: z.string().trim().max(200).nullish(),
+  city: z.string().trim().min(1).max(120),
+  state: z.string().trim().max(120).nullish(),
+  zip: z.string().trim().min(1).max(20),
+  country: z.string().trim().regex(/^[A-Za-z]{2}$/, "ISO 3166-1 alpha-2 country code").transform((c) => c.toUpperCase()),
+  phone: z.string().trim().max(40).nullish(),
+  email: z.string().trim().email().nullish(),
+});
+
+const provider = z.enum(["easypost", "aftership", "fake"]).optional();
+
+const money = z.object({
+  amount: z.number().positive().max(1e12),
+  currency: z.string().trim().min(3).max(12).transform((c) => c.toUpperCase()),
+});
+
+const customsFields = {
+  description: z.string().trim().max(255).nullish(),
+  hs_code: z.string().trim().regex(/^\d{4}(\.?\d{2}){0,3}$/, "HS code like 9701.91").nullish(),
+  origin_country: z.string().trim().regex(/^[A-Za-z]{2}$/, "ISO 3166-1 alpha-2 country code").nullish(),
+};
+
+// GET /api/shipping/carriers — providers the label form can offer
+shippingRouter.get("/api/shipping/carriers", (_req: Request, res: Response) => {
+  res.json({ providers: listCarriers() });
+});
+
+// POST /api/shipping/addresses/validate { address, provider? }
+shippingRouter.post("/api/shipping/addresses/validate", async (req: Request, res: Response) => {
+  const parsed = z.object({ address, provider }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await validateAddress(parsed.data.address, parsed.data.provider));
+  } catch (e: any) {
+    fail(res, e, "address validation");
+  }
+});
+
+/**
+ * POST /api/shipping/rates
+ * { artwork_id, provider?, from, to, parcel: { weight, weight_unit, length?, width?, height?, dim_unit? },
+ *   declared_value?: { amount, currency }, insure?, customs?: { description?, hs_code?, origin_country? } }
+ * The box defaults to the artwork's dimensions plus packing; weight is always the sender's.
+ * The declared value defaults to the sale price; international routes get a customs declaration.
+ */
+shippingRouter.post("/api/shipping/rates", async (req: Request, res: Response) => {
+  const dim = z.number().positive().max(1000);
+  const parsed = z
+    .object({
+      artwork_id: z.string().uuid(),
+      provider,
+      from: address,
+      to: address,
+      parcel: z.object({
+        weight: z.number().positive().max(100_000),
+        weight_unit: z.enum(["oz", "lb", "g", "kg"]),
+        length: dim.optional(),
+        width: dim.optional(),
+        height: dim.optional(),
+        dim_unit: z.enum(["in", "cm"]).optional(),
+      }),
+      declared_value: money.nullish(),
+      insure: z.boolean().optional(),
+      customs: z.object(customsFields).nullish(),
+    })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const { parcel, ...b } = parsed.data;
+    res.json(
+      await quoteShipping({
+        artworkId: b.artwork_id,
+        actor: me,
+        provider: b.provider,
+        from: b.from,
+        to: b.to,
+        parcel: {
+          weight: parcel.weight,
+          weightUnit: parcel.weight_unit,
+          length: parcel.length,
+          width: parcel.width,
+          height: parcel.height,
+          dimUnit: parcel.dim_unit,
+        },
+        declaredValue: b.declared_value,
+        insure: b.insure,
+        customs: b.customs
+          ? { description: b.customs.description, hsCode: b.customs.hs_code, originCountry: b.customs.origin_country }
+          : null,
+      })
+    );
+  } catch (e: any) {
+    fail(res, e, "rate quote");
+  }
+});
+
+/**
+ * POST /api/shipping/labels { quote_id, rate_id }
+ * Buys postage for a quoted rate and creates the shipment with tracking set.
+ */
+shippingRouter.post("/api/shipping/labels", async (req: Request, res: Response) => {
+  const parsed = z.object({ quote_id: z.string().uuid(), rate_id: z.string().min(1).max(200) }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.status(201).json(await buyLabel(parsed.data.quote_id, parsed.data.rate_id, me));
+  } catch (e: any) {
+    fail(res, e, "label purchase");
+  }
+});
+
+// GET /api/shipments/:id/label — signed link to the stored label PDF
+shippingRouter.get("/api/shipments/:id/label", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ url: await labelUrl(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "label link");
+  }
+});
+
+/**
+ * POST /api/shipments/:id/customs
+ * { declared_value?, from?, to?, description?, hs_code?, origin_country? }
+ * Works for hand-entered shipments too; crossing a border regenerates the
+ * commercial invoice / CN23.
+ */
+shippingRouter.post("/api/shipments/:id/customs", async (req: Request, res: Response) => {
+  const parsed = z
+    .object({ declared_value: money.nullish(), from: address.nullish(), to: address.nullish(), ...customsFields })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const b = parsed.data;
+    res.json(
+      await updateShipmentCustoms(req.params.id, me, {
+        declaredValue: b.declared_value,
+        from: b.from,
+        to: b.to,
+        description: b.description,
+        hsCode: b.hs_code,
+        originCountry: b.origin_country,
+      })
+    );
+  } catch (e: any) {
+    fail(res, e, "customs update");
+  }
+});
+
+// POST /api/shipments/:id/insurance { value? } — insure a label bought here; value defaults to the declared value
+shippingRouter.post("/api/shipments/:id/insurance", async (req: Request, res: Response) => {
+  const parsed = z.object({ value: money.nullish() }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ shipment: await insureShipment(req.params.id, me, parsed.data.value) });
+  } catch (e: any) {
+    fail(res, e, "insurance");
+  }
+});
+
+// GET /api/shipments/:id/customs-doc — signed link to the commercial invoice / CN23
+shippingRouter.get("/api/shipments/:id/customs-doc", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json({ url: await customsDocUrl(req.params.id, me) });
+  } catch (e: any) {
+    fail(res, e, "customs form link");
+  }
+});
+
+/* ---------------- legs & condition reports ---------------- */
+
+const legFields = {
+  handler_id: z.string().uuid().nullish(),
+  handler_name: z.string().trim().max(120).nullish(),
+  handler_role: z.enum(["carrier", "courier", "framer", "gallery", "storage", "collector", "other"]).optional(),
+  from_label: z.string().trim().max(200).nullish(),
+  to_label: z.string().trim().max(200).nullish(),
+  carrier: z.string().trim().max(120).nullish(),
+  tracking_number: z.string().trim().max(120).nullish(),
+};
+
+const legInput = (b: z.infer<z.ZodObject<typeof legFields>>) => ({
+  handlerId: b.handler_id,
+  handlerName: b.handler_name,
+  handlerRole: b.handler_role,
+  fromLabel: b.from_label,
+  toLabel: b.to_label,
+  carrier: b.carrier,
+  trackingNumber: b.tracking_number,
+});
+
+const clientIp = (req: Request) =>
+  (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() || req.socket.remoteAddress || null;
+
+// GET /api/shipments/:id/legs — the route with each leg's condition reports (signed photo links)
+shippingRouter.get("/api/shipments/:id/legs", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await listLegs(req.params.id, me));
+  } catch (e: any) {
+    fail(res, e, "leg list");
+  }
+});
+
+// POST /api/shipments/:id/legs { handler_id?, handler_name?, handler_role?, from_label?, to_label?, carrier?, tracking_number? }
+shippingRouter.post("/api/shipments/:id/legs", async (req: Request, res: Response) => {
+  const parsed = z.object(legFields).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.status(201).json({ leg: await addLeg(req.params.id, me, legInput(parsed.data)) });
+  } catch (e: any) {
+    fail(res, e, "leg create");
+  }
+});
+
+// PATCH /api/shipments/:id/legs/:legId { ...leg fields, status?, note? }
+shippingRouter.patch("/api/shipments/:id/legs/:legId", async (req: Request, res: Response) => {
+  const parsed = z
+    .object({
+      ...legFields,
+      status: z
+        .enum(["pending", "handed_to_carrier", "in_transit", "out_for_delivery", "delivered", "returned", "exception"])
+        .optional(),
+      note: z.string().trim().max(1000).nullish(),
+    })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const { status, note, ...fields } = parsed.data;
+    res.json({ leg: await updateLeg(req.params.id, req.params.legId, me, { ...legInput(fields), status, note }) });
+  } catch (e: any) {
+    fail(res, e, "leg update");
+  }
+});
+
+// POST /api/shipments/:id/legs/:legId/photo-uploads { files: [{ content_type }] } — signed upload slots
+shippingRouter.post("/api/shipments/:id/legs/:legId/photo-uploads", async (req: Request, res: Response) => {
+  const parsed = z
+    .object({ files: z.array(z.object({ content_type: z.string().min(1).max(60) })).min(1).max(12) })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const files = parsed.data.files.map((f) => ({ contentType: f.content_type }));
+    res.json({ uploads: await reportUploads(req.params.id, req.params.legId, me, files) });
+  } catch (e: any) {
+    fail(res, e, "photo upload");
+  }
+});
+
+/**
+ * POST /api/shipments/:id/legs/:legId/reports
+ * { stage: "pickup"|"delivery", condition, notes?, photos: [path], signature: { name, image? } }
+ * The condition report for a handoff; it also starts or closes the leg.
+ */
+shippingRouter.post("/api/shipments/:id/legs/:legId/reports", async (req: Request, res: Response) => {
+  const parsed = z
+    .object({
+      stage: z.enum(["pickup", "delivery"]),
+      condition: z.enum(["excellent", "good", "fair", "damaged"]),
+      notes: z.string().trim().max(4000).nullish(),
+      photos: z.array(z.string().min(1).max(300)).max(12).default([]),
+      signature: z.object({
+        name: z.string().trim().min(1).max(120),
+        // a drawn signature as a PNG data URL; fits under the JSON body limit
+        image: z.string().max(90_000).nullish(),
+      }),
+    })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.status(201).json(await fileConditionReport(req.params.id, req.params.legId, me, parsed.data, clientIp(req)));
+  } catch (e: any) {
+    fail(res, e, "condition report");
+  }
+});
@@ -0,0 +1,68 @@
+import express, { Router, Request, Response } from "express";
+import { makeUserClient } from "../lib/supabase";
+import { computeSignature, findSimilar, indexArtwork, SimilarityError } from "../lib/similarity";
+
+export const similarityRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof SimilarityError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+/**
+ * POST /api/similarity/search?limit=10&exclude_artwork_id=…
+ * body: the image file itself (Content-Type: image/* or application/octet-stream), before it is uploaded.
+ * → { signature: { phash, dhash }, matches: [{ artwork_id, title, image_url,
+ *     phash_distance, dhash_distance, color_distance, score }] }, best first.
+ */
+similarityRouter.post(
+  "/api/similarity/search",
+  express.raw({ type: ["image/*", "application/octet-stream"], limit: "25mb" }),
+  async (req: Request, res: Response) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: "send the image as the request body (Content-Type: image/*)" });
+    }
+    try {
+      const me = await caller(req);
+      if (!me) return res.status(401).json({ error: "auth required" });
+      const sig = await computeSignature(req.body);
+      const matches = await findSimilar(sig, {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        excludeArtworkId: req.query.exclude_artwork_id ? String(req.query.exclude_artwork_id) : null,
+      });
+      res.json({ signature: { phash: sig.phash, dhash: sig.dhash }, matches });
+    } catch (e: any) {
+      fail(res, e, "similarity search");
+    }
+  }
+);
+
+/**
+ * POST /api/artworks/:id/signatures — creator only.
+ * Fingerprints the artwork's cover and image files so later uploads are
+ * checked against them. Call after creating the artwork or changing images.
+ */
+similarityRouter.post("/api/artworks/:id/signatures", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await indexArtwork(req.params.id, me));
+  } catch (e: any) {
+    fail(res, e, "signature index");
+  }
+});
@@ -0,0 +1,107 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { makeUserClient } from "../lib/supabase";
+import { activeVoucherFor, cancelVoucher, prepareVoucher, storeVoucher, VoucherError } from "../lib/vouchers";
+
+export const vouchersRouter = Router();
+
+// helper: bearer
+function bearer(req: any): string | undefined {
+  const h = req.headers?.authorization || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : undefined;
+}
+
+async function caller(req: Request) {
+  const token = bearer(req);
+  if (!token) return null;
+  const { data, error } = await makeUserClient(token).auth.getUser();
+  return error || !data?.user ? null : data.user.id;
+}
+
+function fail(res: Response, e: any, what: string) {
+  if (e instanceof VoucherError) return res.status(e.status).json({ error: e.message });
+  console.error(`${what} error:`, e?.message);
+  return res.status(500).json({ error: `${what} failed` });
+}
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+const uint = z.string().regex(/^\d{1,78}$/);
+
+/**
+ * POST /api/artworks/:id/voucher/prepare
+ * body: { wallet }
+ * EIP-712 typed data for the creator to sign (eth_signTypedData_v4): the
+ * artwork's tokenURI and royalty, its ETH listing price and a fresh nonce.
+ */
+vouchersRouter.post("/api/artworks/:id/voucher/prepare", async (req: Request, res: Response) => {
+  const parsed = z.object({ wallet: address }).safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    res.json(await prepareVoucher(req.params.id, me, parsed.data.wallet));
+  } catch (e: any) {
+    fail(res, e, "voucher prepare");
+  }
+});
+
+/**
+ * POST /api/artworks/:id/voucher
+ * body: { voucher: { creator, uri, price, royaltyBps, nonce }, signature }
+ * Stores the signed voucher; from then on on-chain checkout mints on purchase.
+ */
+vouchersRouter.post("/api/artworks/:id/voucher", async (req: Request, res: Response) => {
+  const schema = z.object({
+    voucher: z.object({
+      creator: address,
+      uri: z.string().min(1).max(2000),
+      price: uint,
+      royaltyBps: z.number().int().min(0),
+      nonce: uint,
+    }),
+    signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const v = await storeVoucher(req.params.id, me, parsed.data.voucher, parsed.data.signature);
+    res.status(201).json({ voucher: { id: v.id, status: v.status, price: v.price, royalty_bps: v.royalty_bps } });
+  } catch (e: any) {
+    fail(res, e, "voucher store");
+  }
+});
+
+// GET /api/artworks/:id/voucher — whether the artwork mints on purchase (no signature)
+vouchersRouter.get("/api/artworks/:id/voucher", async (req: Request, res: Response) => {
+  try {
+    const v = await activeVoucherFor(req.params.id);
+    res.json({
+      voucher: v
+        ? { id: v.id, status: v.status, price: v.price, currency: v.currency, royalty_bps: v.royalty_bps, creator_wallet: v.creator_wallet }
+        : null,
+    });
+  } catch (e: any) {
+    fail(res, e, "voucher lookup");
+  }
+});
+
+/**
+ * POST /api/vouchers/:id/cancel — creator only.
+ * Withdraws the voucher from checkout and returns { onchain_cancel: { chain_id, to, data } },
+ * a cancelVoucher(nonce) tx that also voids the signature on-chain.
+ */
+vouchersRouter.post("/api/vouchers/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const me = await caller(req);
+    if (!me) return res.status(401).json({ error: "auth required" });
+    const { voucher, onchain_cancel } = await cancelVoucher(req.params.id, me);
+    res.json({ voucher: { id: voucher.id, status: voucher.status }, onchain_cancel });
+  } catch (e: any) {
+    fail(res, e, "voucher cancel");
+  }
+});
@@ -0,0 +1,61 @@
+import { Router } from "express";
+import bodyParser from "body-parser";
+import { getProvider, settlePaymentEvent, WebhookSignatureError, type PaymentEvent } from "../lib/payments";
+import { runWebhookOnce } from "../lib/webhookLedger";
+
+export const webhooksRouter = Router();
+
+/** Settle a parsed payment event at most once, via the webhook_events ledger. */
+export function settleOnce(event: PaymentEvent, payload: unknown) {
+  const { raw: _raw, ...normalized } = event;
+  return runWebhookOnce(
+    {
+      provider: event.provider,
+      eventId: event.eventId,
+      eventType: event.type,
+      payload,
+      normalized,
+    },
+    async () => {
+      const result = await settlePaymentEvent(event);
+      return { outcome: result === "ignored" ? "ignored" : "processed", result };
+    }
+  );
+}
+
+/**
+ * POST /webhooks/:provider  (stripe | coinbase_commerce | onchain | fake)
+ * Providers sign the *raw* body, so this router must be mounted before the JSON parser.
+ */
+webhooksRouter.post(
+  "/webhooks/:provider",
+  bodyParser.raw({ type: "*/*" }),
+  async (req, res) => {
+    const provider = getProvider(req.params.provider);
+    if (!provider) return res.status(404).json({ error: "unknown provider" });
+
+    let event;
+    try {
+      event = await provider.parseWebhook(req.body as Buffer, req.headers);
+    } catch (err: any) {
+      const status = err instanceof WebhookSignatureError ? 400 : 422;
+      console.error(`⚠️  ${provider.id} webhook rejected:`, err?.message);
+      return res.status(status).send(`Webhook Error: ${err?.message}`);
+    }
+    if (!event) return res.json({ received: true });
+    // Not final yet (e.g. an ETH payment short of confirmations): keep it out of
+    // the ledger so the same event id can be posted again later.
+    if (event.status === "pending") return res.status(202).json({ received: true, status: "pending", type: event.type });
+
+    try {
+      const run = await settleOnce(event, req.body);
+      // still being settled by another delivery: not ours to acknowledge yet
+      if (run.duplicate && run.inFlight) return res.status(409).json({ received: true, duplicate: true, status: run.status });
+      if (run.duplicate) return res.json({ received: true, duplicate: true, status: run.status });
+      res.json({ received: true, result: run.result });
+    } catch (e: any) {
+      console.error(`${provider.id} settlement error:`, e?.message);
+      res.status(500).json({ error: "Failed to settle order" });
+    }
+  }
+);
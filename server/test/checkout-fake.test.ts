@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startApp, type FakeDb } from "./support";
+
+vi.mock("../src/lib/supabase", async () => {
+  const { createFakeDb } = await import("./support");
+  const db = createFakeDb();
+  return { sbAdmin: db, makeUserClient: (token?: string) => ({ auth: { getUser: () => db.auth.getUser(token) } }) };
+});
+
+const { sbAdmin } = await import("../src/lib/supabase");
+const { registerProvider } = await import("../src/lib/payments");
+const { createFakeProvider } = await import("../src/lib/payments/fake");
+const db = sbAdmin as unknown as FakeDb;
+const fake = createFakeProvider("test-secret");
+registerProvider(fake);
+
+const SELLER = "00000000-0000-4000-8000-000000000001";
+const BUYER = "00000000-0000-4000-8000-000000000002";
+const LISTING = "00000000-0000-4000-8000-0000000000a1";
+const ARTWORK = "00000000-0000-4000-8000-0000000000b1";
+
+let app: Awaited<ReturnType<typeof startApp>>;
+let token: string;
+
+beforeAll(async () => {
+  app = await startApp();
+});
+afterAll(() => app.close());
+
+beforeEach(() => {
+  db.reset();
+  db.rows("artworks").push({ id: ARTWORK, title: "Untitled", token_id: 1, edition_type: "unique" });
+  db.rows("listings").push({
+    id: LISTING, type: "fixed_price", status: "active", sale_currency: "USD", fixed_price: 120,
+    quantity: 1, artwork_id: ARTWORK, seller_id: SELLER, settlement_kind: "fake", seller_wallet: null, is_bundle: false,
+  });
+  token = db.login(BUYER);
+});
+
+async function checkout() {
+  const res = await app.post("/api/checkout", { listing_id: LISTING, quantity: 1 }, { Authorization: `Bearer ${token}` });
+  expect(res.status).toBe(200);
+  const order = db.rows("orders").find((o) => o.id === res.body.order_id)!;
+  return { res, order, sessionId: order.provider_session_id as string };
+}
+
+describe("checkout → webhook → settle with the fake provider", () => {
+  it("opens a pending order priced from the listing", async () => {
+    const { res, order, sessionId } = await checkout();
+    expect(res.body.amount).toEqual({ currency: "USD", total: 120 });
+    expect(order).toMatchObject({ payment_status: "pending", total_amount: 120, settlement_kind: "fake", buyer_id: BUYER });
+    expect(fake.sessions.get(sessionId)?.orderId).toBe(order.id);
+  });
+
+  it("settles the order once the session is paid", async () => {
+    const { order, sessionId } = await checkout();
+    const delivery = fake.complete(sessionId);
+
+    const res = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(res.body).toEqual({ received: true, result: "settled" });
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("paid");
+    expect(db.rows("sales")).toHaveLength(1);
+  });
+
+  it("settles a redelivered event only once", async () => {
+    const { sessionId } = await checkout();
+    const delivery = fake.complete(sessionId);
+
+    await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    const again = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(again.body).toMatchObject({ received: true, duplicate: true, status: "processed" });
+    expect(db.rows("sales")).toHaveLength(1);
+  });
+
+  it("asks for a retry while another delivery is still settling the event", async () => {
+    const { order, sessionId } = await checkout();
+    const delivery = fake.complete(sessionId);
+    db.rows("webhook_events").push({ id: "ev-lease", provider: "fake", event_id: JSON.parse(delivery.body.toString()).id, status: "processing", attempts: 1 });
+
+    const res = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({ duplicate: true, status: "processing" });
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("pending");
+  });
+
+  it("refunds a payment settle_order refuses and tells the buyer", async () => {
+    const { order, sessionId } = await checkout();
+    db.rows("listings")[0].status = "ended";
+    const delivery = fake.complete(sessionId);
+
+    const res = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(res.body).toEqual({ received: true, result: "refused" });
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("refunded");
+    expect(db.rows("refunds")).toMatchObject([{ order_id: order.id, initiated_by: "support", status: "succeeded" }]);
+    expect(db.rows("notifications")).toMatchObject([{ profile_id: BUYER, kind: "sale", payload: { event: "payment_refused" } }]);
+    expect(db.rows("sales")).toHaveLength(0);
+  });
+
+  it("refunds a payment that arrives after the order expired", async () => {
+    const { order, sessionId } = await checkout();
+    db.rows("orders").find((o) => o.id === order.id)!.payment_status = "expired";
+    const delivery = fake.complete(sessionId);
+
+    const res = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(res.body).toEqual({ received: true, result: "paid_after_expiry" });
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("refunded");
+    expect(db.rows("refunds")).toMatchObject([{ order_id: order.id, status: "succeeded" }]);
+    expect(db.rows("notifications")).toMatchObject([{ profile_id: BUYER, payload: { event: "payment_refused" } }]);
+    expect(db.rows("sales")).toHaveLength(0);
+  });
+
+  it("fails the order when the payment fails", async () => {
+    const { order, sessionId } = await checkout();
+    const delivery = fake.complete(sessionId, "failed");
+
+    const res = await app.post("/webhooks/fake", delivery.body, delivery.headers);
+    expect(res.body.result).toBe("failed");
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("failed");
+    expect(db.rows("sales")).toHaveLength(0);
+  });
+
+  it("rejects a delivery with a bad signature", async () => {
+    const { order, sessionId } = await checkout();
+    const delivery = fake.complete(sessionId);
+
+    const res = await app.post("/webhooks/fake", delivery.body, { "x-fake-signature": "0".repeat(64) });
+    expect(res.status).toBe(400);
+    expect(db.rows("orders").find((o) => o.id === order.id)?.payment_status).toBe("pending");
+  });
+
+  it("holds a one-of-one for the first buyer", async () => {
+    await checkout();
+    const other = db.login("00000000-0000-4000-8000-000000000003");
+    const res = await app.post("/api/checkout", { listing_id: LISTING, quantity: 1 }, { Authorization: `Bearer ${other}` });
+    expect(res.status).toBe(409);
+  });
+});
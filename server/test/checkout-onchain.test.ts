@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStubRpc, startApp, type FakeDb } from "./support";
+
+vi.mock("../src/lib/supabase", async () => {
+  const { createFakeDb } = await import("./support");
+  const db = createFakeDb();
+  return { sbAdmin: db, makeUserClient: (token?: string) => ({ auth: { getUser: () => db.auth.getUser(token) } }) };
+});
+
+const { sbAdmin } = await import("../src/lib/supabase");
+const { registerProvider } = await import("../src/lib/payments");
+const { createOnchainProvider, parseEther } = await import("../src/lib/payments/onchain");
+const db = sbAdmin as unknown as FakeDb;
+
+const CHAIN_ID = 11155111;
+const rpc = createStubRpc(CHAIN_ID, 100);
+registerProvider(createOnchainProvider({ db: sbAdmin, rpc, chainId: CHAIN_ID, confirmations: 2 }));
+
+const SELLER = "00000000-0000-4000-8000-000000000001";
+const BUYER = "00000000-0000-4000-8000-000000000002";
+const LISTING = "00000000-0000-4000-8000-0000000000a1";
+const ARTWORK = "00000000-0000-4000-8000-0000000000b1";
+const SELLER_WALLET = "0x1111111111111111111111111111111111111111";
+const BUYER_WALLET = "0x2222222222222222222222222222222222222222";
+const OTHER_WALLET = "0x3333333333333333333333333333333333333333";
+const PRICE_WEI = 50_000_000_000_000_000n; // 0.05 ETH
+
+let app: Awaited<ReturnType<typeof startApp>>;
+let token: string;
+
+beforeAll(async () => {
+  app = await startApp();
+});
+afterAll(() => app.close());
+
+beforeEach(() => {
+  db.reset();
+  db.rows("artworks").push({ id: ARTWORK, title: "Untitled", token_id: 7, edition_type: "unique" });
+  db.rows("listings").push({
+    id: LISTING, type: "fixed_price", status: "active", sale_currency: "ETH", fixed_price: 0.05,
+    quantity: 1, artwork_id: ARTWORK, seller_id: SELLER, settlement_kind: "onchain", seller_wallet: SELLER_WALLET, is_bundle: false,
+  });
+  token = db.login(BUYER);
+});
+
+const auth = () => ({ Authorization: `Bearer ${token}` });
+
+async function checkout() {
+  const res = await app.post("/api/checkout", { listing_id: LISTING, quantity: 1, wallet: BUYER_WALLET }, auth());
+  expect(res.status).toBe(200);
+  return res.body.order_id as string;
+}
+
+function confirm(orderId: string, txHash: string) {
+  return app.post("/webhooks/onchain", { order_id: orderId, tx_hash: txHash, chain_id: CHAIN_ID }, auth());
+}
+
+const order = (id: string) => db.rows("orders").find((o) => o.id === id)!;
+
+describe("parseEther", () => {
+  it("reads numbers in plain notation", () => {
+    expect(parseEther(1e-7)).toBe(100_000_000_000n);
+    expect(parseEther(0.1)).toBe(100_000_000_000_000_000n);
+    expect(parseEther("2.5")).toBe(2_500_000_000_000_000_000n);
+  });
+});
+
+describe("checkout → webhook → settle on-chain", () => {
+  it("needs the paying wallet and tells it where to pay", async () => {
+    const missing = await app.post("/api/checkout", { listing_id: LISTING, quantity: 1 }, auth());
+    expect(missing.status).toBe(400);
+
+    const res = await app.post("/api/checkout", { listing_id: LISTING, quantity: 1, wallet: BUYER_WALLET }, auth());
+    expect(res.body.instructions).toMatchObject({
+      chain_id: CHAIN_ID,
+      from: BUYER_WALLET,
+      to: SELLER_WALLET,
+      value: "0x" + PRICE_WEI.toString(16),
+    });
+    expect(order(res.body.order_id).payer_wallet).toBe(BUYER_WALLET);
+  });
+
+  it("settles a confirmed payment from the buyer's wallet to the seller", async () => {
+    const id = await checkout();
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI, blockNumber: 90 });
+
+    const res = await confirm(id, tx);
+    expect(res.body).toEqual({ received: true, result: "settled" });
+    expect(order(id)).toMatchObject({ payment_status: "paid", tx_hash: tx, chain_id: CHAIN_ID });
+  });
+
+  it("settles a redelivered confirmation only once", async () => {
+    const id = await checkout();
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI, blockNumber: 90 });
+
+    await confirm(id, tx);
+    const again = await confirm(id, tx);
+    expect(again.body).toMatchObject({ received: true, duplicate: true });
+    expect(db.rows("sales")).toHaveLength(1);
+  });
+
+  it("waits for confirmations", async () => {
+    const id = await checkout();
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI, blockNumber: 100 });
+
+    const res = await confirm(id, tx);
+    expect(res.status).toBe(202);
+    expect(order(id).payment_status).toBe("pending");
+  });
+
+  it.each([
+    ["wrong_recipient", { from: BUYER_WALLET, to: OTHER_WALLET, valueWei: PRICE_WEI }],
+    ["insufficient_value", { from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI - 1n }],
+    ["wrong_sender", { from: OTHER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI }],
+  ])("refuses a payment with %s", async (reason, tx) => {
+    const id = await checkout();
+    const hash = rpc.add({ ...tx, blockNumber: 90 });
+
+    const res = await confirm(id, hash);
+    expect(res.status).toBe(422);
+    expect(res.body.text).toContain(reason);
+    expect(order(id).payment_status).toBe("pending");
+    expect(db.rows("sales")).toHaveLength(0);
+  });
+
+  it("refuses a tx already used for another purchase", async () => {
+    const first = await checkout();
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI, blockNumber: 90 });
+    await confirm(first, tx);
+
+    db.rows("listings")[0].status = "active";
+    const second = await checkout();
+    const res = await confirm(second, tx);
+    expect(res.status).toBe(422);
+    expect(order(second).payment_status).toBe("pending");
+  });
+
+  it("settles an edition bought in several units at a fractional price", async () => {
+    db.rows("artworks")[0].edition_type = "edition";
+    Object.assign(db.rows("listings")[0], { fixed_price: 0.1, quantity: 10 });
+    const res = await app.post("/api/checkout", { listing_id: LISTING, quantity: 3, wallet: BUYER_WALLET }, auth());
+    const exact = 300_000_000_000_000_000n; // 3 × 0.1 ETH, not 0.30000000000000004
+    expect(res.body.instructions.value).toBe("0x" + exact.toString(16));
+    expect(order(res.body.order_id)).toMatchObject({ total_amount: 0.3, amount_wei: exact.toString() });
+
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: exact, blockNumber: 90 });
+    const settled = await confirm(res.body.order_id, tx);
+    expect(settled.body).toEqual({ received: true, result: "settled" });
+  });
+
+  it("only lets the buyer confirm their order", async () => {
+    const id = await checkout();
+    const tx = rpc.add({ from: BUYER_WALLET, to: SELLER_WALLET, valueWei: PRICE_WEI, blockNumber: 90 });
+
+    token = db.login("00000000-0000-4000-8000-000000000003");
+    const res = await confirm(id, tx);
+    expect(res.status).toBe(422);
+    expect(order(id).payment_status).toBe("pending");
+  });
+});
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startApp, type FakeDb } from "./support";
+
+vi.mock("../src/lib/supabase", async () => {
+  const { createFakeDb } = await import("./support");
+  const db = createFakeDb();
+  return { sbAdmin: db, makeUserClient: (token?: string) => ({ auth: { getUser: () => db.auth.getUser(token) } }) };
+});
+
+const { sbAdmin } = await import("../src/lib/supabase");
+const { registerProvider } = await import("../src/lib/payments");
+const { createCoinbaseProvider } = await import("../src/lib/payments/coinbase");
+const db = sbAdmin as unknown as FakeDb;
+
+const SECRET = "cc-test-secret";
+registerProvider(createCoinbaseProvider("cc-test-key", SECRET));
+
+const ORDER = "00000000-0000-4000-8000-0000000000c1";
+const LISTING = "00000000-0000-4000-8000-0000000000a1";
+
+let app: Awaited<ReturnType<typeof startApp>>;
+
+beforeAll(async () => {
+  app = await startApp();
+});
+afterAll(() => app.close());
+
+beforeEach(() => {
+  db.reset();
+  db.rows("listings").push({ id: LISTING, status: "active" });
+  db.rows("orders").push({
+    id: ORDER, listing_id: LISTING, buyer_id: "b", payment_status: "pending",
+    total_amount: 100, currency: "USD", settlement_kind: "coinbase_commerce",
+  });
+});
+
+/** A signed Commerce delivery for ORDER's $100 charge, with `paid` USD received. */
+function deliver(type: string, paid: number) {
+  const body = Buffer.from(
+    JSON.stringify({
+      event: {
+        id: crypto.randomUUID(),
+        type,
+        data: {
+          code: "CHARGE1",
+          metadata: { order_id: ORDER },
+          pricing: { local: { amount: "100.00", currency: "USD" } },
+          payments: paid ? [{ status: "CONFIRMED", transaction_id: "0xabc", value: { local: { amount: String(paid), currency: "USD" } } }] : [],
+        },
+      },
+    })
+  );
+  const sig = crypto.createHmac("sha256", SECRET).update(body).digest("hex");
+  return app.post("/webhooks/coinbase_commerce", body, { "X-CC-Webhook-Signature": sig });
+}
+
+const order = () => db.rows("orders").find((o) => o.id === ORDER)!;
+
+describe("coinbaseSettlement", () => {
+  it("is the same module the edge functions run", () => {
+    const api = readFileSync(new URL("../src/lib/payments/coinbaseSettlement.ts", import.meta.url), "utf8");
+    const shared = readFileSync(new URL("../../supabase/functions/_shared/coinbase-settlement.ts", import.meta.url), "utf8");
+    expect(shared).toBe(api);
+  });
+});
+
+describe("Coinbase Commerce webhooks on the API", () => {
+  it("settles a confirmed charge paid in full", async () => {
+    const res = await deliver("charge:confirmed", 100);
+    expect(res.body).toEqual({ received: true, result: "settled" });
+    expect(order()).toMatchObject({ payment_status: "paid", amount_received: 100, underpaid_amount: null });
+  });
+
+  it("records a pending charge as processing", async () => {
+    const res = await deliver("charge:pending", 100);
+    expect(res.status).toBe(200);
+    expect(order().payment_status).toBe("processing");
+  });
+
+  it("holds back an underpaid charge and records the shortfall", async () => {
+    const res = await deliver("charge:confirmed", 90);
+    expect(res.body.result).toBe("recorded");
+    expect(order()).toMatchObject({ payment_status: "underpaid", amount_received: 90, underpaid_amount: 10 });
+    expect(db.rows("sales")).toHaveLength(0);
+  });
+
+  it("records overpayment and delayed payments", async () => {
+    await deliver("charge:delayed", 120);
+    expect(order()).toMatchObject({ payment_status: "delayed", overpaid_amount: 20 });
+  });
+
+  it("expires a charge that failed with nothing received", async () => {
+    await deliver("charge:failed", 0);
+    expect(order().payment_status).toBe("expired");
+  });
+});
@@ -0,0 +1,77 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { fromMinorUnits, planCharge, roundToMinor, toMinorUnits, type Fx } from "../src/lib/currencyCore";
+
+/** Fixed rates, no cache: `rates["ETH/USD"]` = USD per 1 ETH. */
+function fixedFx(rates: Record<string, number>): Fx {
+  return {
+    async quote(base, quote) {
+      const rate = base === quote ? 1 : rates[`${base}/${quote}`];
+      if (!rate) throw new Error(`fx ${base}/${quote}: no rate`);
+      return { base, quote, rate, source: "test", fetchedAt: new Date().toISOString() };
+    },
+  };
+}
+
+describe("currencyCore", () => {
+  it("is the same module the edge functions and the app load", () => {
+    const api = readFileSync(new URL("../src/lib/currencyCore.ts", import.meta.url), "utf8");
+    const shared = readFileSync(new URL("../../supabase/functions/_shared/currencyCore.ts", import.meta.url), "utf8");
+    expect(shared).toBe(api);
+  });
+});
+
+describe("toMinorUnits", () => {
+  it("follows the ISO exponent", () => {
+    expect(toMinorUnits(19.99, "USD")).toBe(1999);
+    expect(toMinorUnits(1999, "JPY")).toBe(1999);
+    expect(toMinorUnits(1500, "ISK")).toBe(1500);
+    expect(toMinorUnits(12.345, "KWD")).toBe(12345);
+  });
+
+  it("sends ISK and UGX to Stripe as whole units in two-decimal form", () => {
+    expect(toMinorUnits(1500, "ISK", "stripe")).toBe(150000);
+    expect(toMinorUnits(1500.4, "isk", "stripe")).toBe(150000);
+    expect(toMinorUnits(5000, "UGX", "stripe")).toBe(500000);
+    expect(fromMinorUnits(150000, "ISK", "stripe")).toBe(1500);
+  });
+
+  it("rounds three-decimal currencies to Stripe's multiples of 10", () => {
+    expect(toMinorUnits(1.234, "KWD", "stripe")).toBe(1230);
+    expect(toMinorUnits(1.236, "BHD", "stripe")).toBe(1240);
+    expect(toMinorUnits(12.35, "JOD", "stripe")).toBe(12350);
+    expect(fromMinorUnits(1240, "BHD", "stripe")).toBe(1.24);
+  });
+
+  it("rounds major amounts to the currency's precision", () => {
+    expect(roundToMinor(1500.4, "ISK")).toBe(1500);
+    expect(roundToMinor(1.2345, "OMR")).toBe(1.235);
+  });
+});
+
+describe("planCharge", () => {
+  const fx = fixedFx({ "ETH/USD": 3000, "ISK/USD": 0.0072, "XYZ/USD": 0.5 });
+
+  it("charges Stripe in a supported currency at the amount Stripe can take", async () => {
+    expect(await planCharge("stripe", 1500.4, "ISK", fx)).toEqual({ currency: "ISK", unitPrice: 1500, fx: null });
+    expect(await planCharge("stripe", 1.236, "KWD", fx)).toEqual({ currency: "KWD", unitPrice: 1.24, fx: null });
+    expect(await planCharge("stripe", 25000, "UGX", fx)).toEqual({ currency: "UGX", unitPrice: 25000, fx: null });
+  });
+
+  it("converts what Stripe can't charge at a locked rate", async () => {
+    const plan = await planCharge("stripe", 0.05, "ETH", fx);
+    expect(plan).toMatchObject({ currency: "USD", unitPrice: 150, fx: { fx_rate: 3000, fx_source: "test" } });
+    expect(plan.fx?.fx_locked_at).toBeTruthy();
+    expect(await planCharge("stripe", 3.335, "XYZ", fx)).toMatchObject({ currency: "USD", unitPrice: 1.67 });
+  });
+
+  it("converts Coinbase Commerce charges outside USD, EUR and GBP", async () => {
+    expect(await planCharge("coinbase_commerce", 1000, "ISK", fx)).toMatchObject({ currency: "USD", unitPrice: 7.2 });
+    expect(await planCharge("coinbase_commerce", 9.99, "EUR", fx)).toEqual({ currency: "EUR", unitPrice: 9.99, fx: null });
+  });
+
+  it("charges on-chain as listed and fails without a rate", async () => {
+    expect(await planCharge("onchain", 0.05, "ETH", fx)).toEqual({ currency: "ETH", unitPrice: 0.05, fx: null });
+    await expect(planCharge("stripe", 10, "ABC", fx)).rejects.toThrow(/no rate/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { customsDocKind, describeArtwork, hsCodeFor, renderCustomsDoc, type CustomsDocInput } from "../src/lib/customs";
+
+describe("hsCodeFor", () => {
+  it("classifies by medium", () => {
+    expect(hsCodeFor("Cast bronze")).toBe("9703.90");
+    expect(hsCodeFor("glazed ceramic")).toBe("9703.90");
+    expect(hsCodeFor("Lithograph, edition of 20")).toBe("9702.90");
+    expect(hsCodeFor("screenprint")).toBe("9702.90");
+    expect(hsCodeFor("Archival photograph")).toBe("4911.91");
+  });
+
+  it("falls back to hand-made paintings and drawings", () => {
+    expect(hsCodeFor("Oil on canvas")).toBe("9701.91");
+    expect(hsCodeFor("")).toBe("9701.91");
+    expect(hsCodeFor(null)).toBe("9701.91");
+  });
+});
+
+describe("customs paperwork", () => {
+  const artwork = { title: "Harbour", medium: "oil on canvas", year_created: "2024", width: 60, height: 80, depth: 3, dim_unit: "cm" };
+  const doc: CustomsDocInput = {
+    kind: "commercial_invoice",
+    shipmentId: "sh_1",
+    trackingNumber: "1Z999",
+    carrier: "ups",
+    from: { name: "Ana Artist", street1: "1 Rue Haute", city: "Paris", zip: "75001", country: "FR" },
+    to: { name: "Bo Buyer", street1: "2 Main St", city: "Austin", state: "TX", zip: "78701", country: "US", phone: "+15125550100" },
+    artwork,
+    description: describeArtwork(artwork),
+    hsCode: hsCodeFor(artwork.medium),
+    originCountry: "FR",
+    declared: { amount: 0.5, currency: "ETH" },
+    customsValue: { amount: 1561.73, currency: "USD" },
+    insured: { amount: 1561.73, currency: "USD" },
+    weight: { value: 4, unit: "kg" },
+  };
+  const text = (d: CustomsDocInput) => renderCustomsDoc(d).toString("latin1");
+
+  it("picks a CN23 for postal carriers and an invoice for couriers", () => {
+    expect(customsDocKind("USPS")).toBe("cn23");
+    expect(customsDocKind("royal_mail")).toBe("cn23");
+    expect(customsDocKind("dhl_express")).toBe("commercial_invoice");
+    expect(customsDocKind(null)).toBe("commercial_invoice");
+  });
+
+  it("describes the work from its facts", () => {
+    expect(doc.description).toBe("Original artwork: Harbour, oil on canvas, 2024, 60 × 80 × 3 cm");
+    expect(describeArtwork({ title: null, width: 1920, height: 1080, dim_unit: "px" })).toBe("Original artwork: Untitled");
+  });
+
+  it("renders a PDF declaring the customs value, with the sale price when it differs", () => {
+    const pdf = text(doc);
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(COMMERCIAL INVOICE)");
+    expect(pdf).toContain("HS tariff code:    9701.91");
+    expect(pdf).toContain("Declared value:    1561.73 USD \\(sold for 0.5 ETH\\)");
+    expect(pdf).toContain("Insured value:     1561.73 USD");
+    expect(pdf).toContain("Austin TX 78701");
+    expect(pdf).toContain("Gross weight:      4 kg");
+  });
+
+  it("leaves out what doesn't apply", () => {
+    const pdf = text({
+      ...doc,
+      kind: "cn23",
+      declared: { amount: 1200, currency: "USD" },
+      customsValue: { amount: 1200, currency: "USD" },
+      insured: null,
+      weight: null,
+    });
+    expect(pdf).toContain("(CN 23 - CUSTOMS DECLARATION \\(postal\\))");
+    expect(pdf).toContain("Declared value:    1200.00 USD)");
+    expect(pdf).not.toContain("sold for");
+    expect(pdf).toContain("Insured value:     not insured");
+    expect(pdf).toContain("Gross weight:      -");
+  });
+});
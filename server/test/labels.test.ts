@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/lib/supabase", () => ({ sbAdmin: {} }));
+
+const { carrierMoney, parcelFor, ShippingError } = await import("../src/lib/labels");
+const { setFx } = await import("../src/lib/currency");
+
+describe("parcelFor", () => {
+  const weight = { weight: 4, weightUnit: "kg" as const };
+
+  it("pads the artwork's size with the packing margin of its unit", () => {
+    expect(parcelFor({ width: 50, height: 70, depth: 3, dim_unit: "cm" }, weight)).toEqual({
+      length: 75, width: 55, height: 8, dimUnit: "cm", weight: 4, weightUnit: "kg",
+    });
+    expect(parcelFor({ width: 20, height: 30, depth: null, dim_unit: "in" }, { weight: 9, weightUnit: "lb" })).toEqual({
+      length: 32, width: 22, height: 2, dimUnit: "in", weight: 9, weightUnit: "lb",
+    });
+  });
+
+  it("takes a measured crate over the artwork's size", () => {
+    const crate = { ...weight, length: 100, width: 80, height: 20, dimUnit: "in" as const };
+    expect(parcelFor({ width: 50, height: 70, depth: 3, dim_unit: "cm" }, crate)).toEqual({
+      length: 100, width: 80, height: 20, dimUnit: "in", weight: 4, weightUnit: "kg",
+    });
+    expect(parcelFor({ dim_unit: "px" }, { ...weight, length: 10, width: 10, height: 10 })).toMatchObject({ dimUnit: "cm" });
+  });
+
+  it("asks for the box size when the work can't be measured", () => {
+    for (const art of [{ width: 1920, height: 1080, dim_unit: "px" }, { width: 50, height: null, dim_unit: "cm" }, {}]) {
+      let err: unknown;
+      try {
+        parcelFor(art, weight);
+      } catch (e) {
+        err = e;
+      }
+      expect(err).toBeInstanceOf(ShippingError);
+      expect(err).toMatchObject({ status: 422 });
+    }
+  });
+});
+
+describe("carrierMoney", () => {
+  const quote = vi.fn(async (base: string, quote: string) => {
+    const rate = { ETH: 3123.456, EUR: 1.0843 }[base];
+    if (!rate) throw new Error(`fx ${base}/${quote}: no rate`);
+    return { base, quote, rate, source: "test", fetchedAt: new Date().toISOString() };
+  });
+  setFx({ quote });
+
+  it("keeps USD as it is", async () => {
+    expect(await carrierMoney({ amount: 1234.567, currency: "usd" })).toEqual({ amount: 1234.567, currency: "USD" });
+    expect(quote).not.toHaveBeenCalled();
+  });
+
+  it("converts crypto and other fiat to USD cents at today's rate", async () => {
+    expect(await carrierMoney({ amount: 0.5, currency: "ETH" })).toEqual({ amount: 1561.73, currency: "USD" });
+    expect(await carrierMoney({ amount: 999.99, currency: "EUR" })).toEqual({ amount: 1084.29, currency: "USD" });
+    expect(quote).toHaveBeenCalledWith("ETH", "USD");
+  });
+
+  it("fails without a rate rather than declaring the wrong value", async () => {
+    await expect(carrierMoney({ amount: 10, currency: "XYZ" })).rejects.toThrow(/no rate/);
+  });
+});
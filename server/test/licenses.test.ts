@@ -0,0 +1,117 @@
+import { PGlite } from "@electric-sql/pglite";
+import { readFileSync } from "fs";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+/**
+ * activate_license()'s date arithmetic, run in an in-process Postgres against
+ * the migration's own definitions (the licenses table, the term parsers and the
+ * function itself), with just enough of the surrounding schema stubbed in.
+ */
+
+const MIGRATION = readFileSync(
+  new URL("../../supabase/migrations/20251128120000_license_lifecycle.sql", import.meta.url),
+  "utf8"
+);
+
+function statement(pattern: RegExp) {
+  const m = MIGRATION.match(pattern);
+  if (!m) throw new Error(`not in the migration: ${pattern}`);
+  return m[0];
+}
+
+const REQUEST = "00000000-0000-4000-8000-0000000000e1";
+const OWNER = "00000000-0000-4000-8000-000000000001";
+const LICENSEE = "00000000-0000-4000-8000-000000000002";
+
+let pg: PGlite;
+
+beforeAll(async () => {
+  pg = new PGlite();
+  await pg.exec(`
+    create table public.profiles (id uuid primary key);
+    create table public.license_requests (
+      id uuid primary key, artwork_id uuid, owner_id uuid, requester_id uuid,
+      status text, accepted_terms jsonb, renewal_of uuid
+    );
+    insert into public.profiles values ('${OWNER}'), ('${LICENSEE}');
+  `);
+  await pg.exec(statement(/create table if not exists public\.licenses \([\s\S]*?\n\);/));
+  for (const fn of ["license_term_date", "license_term_int", "activate_license"]) {
+    await pg.exec(statement(new RegExp(`create or replace function public\\.${fn}\\([\\s\\S]*?\\n\\$\\$;`)));
+  }
+});
+
+beforeEach(async () => {
+  await pg.exec("delete from public.licenses; delete from public.license_requests;");
+});
+
+async function accept(terms: object) {
+  await pg.query(
+    `insert into public.license_requests (id, artwork_id, owner_id, requester_id, status, accepted_terms)
+     values ($1, gen_random_uuid(), $2, $3, 'accepted', $4)
+     on conflict (id) do update set accepted_terms = excluded.accepted_terms`,
+    [REQUEST, OWNER, LICENSEE, JSON.stringify(terms)]
+  );
+  const { rows } = await pg.query<{
+    starts_on: string;
+    ends_on: string | null;
+    fee_due_on: string | null;
+    notice_days: number | null;
+    status: string;
+  }>(
+    `select starts_on::text, ends_on::text, fee_due_on::text, notice_days, status
+     from public.activate_license($1)`,
+    [REQUEST]
+  );
+  return rows[0];
+}
+
+const fee = { amount: 500, currency: "EUR" };
+
+describe("activate_license dates", () => {
+  it("ends the day before the term's anniversary and bills due_days after the start", async () => {
+    expect(await accept({ start_date: "2030-03-15", term_months: 12, fee, payment_terms: { due_days: 30 } })).toEqual({
+      starts_on: "2030-03-15", ends_on: "2031-03-14", fee_due_on: "2030-04-14", notice_days: null, status: "active",
+    });
+  });
+
+  it("counts months across a leap day", async () => {
+    expect(await accept({ start_date: "2028-03-01", term_months: 12 })).toMatchObject({ ends_on: "2029-02-28" });
+    expect(await accept({ start_date: "2027-03-01", term_months: 12 })).toMatchObject({ ends_on: "2028-02-29" });
+  });
+
+  it("starts on the effective date, else the day it was accepted", async () => {
+    expect(await accept({ start_date: "", effective_date: "2030-06-01", term_months: 6 })).toMatchObject({
+      starts_on: "2030-06-01", ends_on: "2030-11-30",
+    });
+    const { rows } = await pg.query<{ today: string }>("select current_date::text as today");
+    expect(await accept({ start_date: "not a date", term_months: 1 })).toMatchObject({ starts_on: rows[0].today });
+  });
+
+  it("leaves the end open without a term", async () => {
+    expect(await accept({ start_date: "2030-01-01" })).toMatchObject({ ends_on: null, status: "active" });
+    expect(await accept({ start_date: "2030-01-01", term_months: 0 })).toMatchObject({ ends_on: null });
+    expect(await accept({ start_date: "2030-01-01", term_months: "twelve" })).toMatchObject({ ends_on: null });
+  });
+
+  it("sets no due date without a fee or due_days", async () => {
+    expect(await accept({ start_date: "2030-01-01", payment_terms: { due_days: 14 } })).toMatchObject({ fee_due_on: null });
+    expect(await accept({ start_date: "2030-01-01", fee: 500, payment_terms: { due_days: 14 } })).toMatchObject({ fee_due_on: null });
+    expect(await accept({ start_date: "2030-01-01", fee, payment_terms: {} })).toMatchObject({ fee_due_on: null });
+  });
+
+  it("reads the notice period and expires a term already over", async () => {
+    expect(await accept({ start_date: "2020-01-01", term_months: 12, termination: { notice_days: " 45 " } })).toMatchObject({
+      ends_on: "2020-12-31", notice_days: 45, status: "expired",
+    });
+  });
+
+  it("recomputes the dates when the accepted terms change", async () => {
+    await accept({ start_date: "2030-01-01", term_months: 12, fee, payment_terms: { due_days: 30 } });
+    expect(await accept({ start_date: "2030-02-01", term_months: 24, fee, payment_terms: { due_days: 10 } })).toMatchObject({
+      starts_on: "2030-02-01", ends_on: "2032-01-31", fee_due_on: "2030-02-11",
+    });
+    const { rows } = await pg.query("select count(*)::int as n from public.licenses");
+    expect(rows).toEqual([{ n: 1 }]);
+  });
+});
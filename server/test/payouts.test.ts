@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/lib/supabase", () => ({ sbAdmin: {}, makeUserClient: () => ({}) }));
+
+const { earningsCsv } = await import("../src/routes/payouts");
+
+const row = {
+  split_id: "s1",
+  order_id: "o1",
+  artwork_id: "a1",
+  artwork_title: "Untitled",
+  recipient_type: "seller",
+  amount: 120,
+  currency: "USD",
+  settled_at: "2030-01-01T00:00:00Z",
+  payout_batch_id: null,
+};
+
+describe("earningsCsv", () => {
+  it("writes a header and one line per earning", () => {
+    expect(earningsCsv([row, { ...row, amount: -12.5 }])).toBe(
+      "settled_at,artwork_id,artwork_title,order_id,recipient_type,amount,currency,payout_batch_id\n" +
+        "2030-01-01T00:00:00Z,a1,Untitled,o1,seller,120,USD,\n" +
+        "2030-01-01T00:00:00Z,a1,Untitled,o1,seller,-12.5,USD,\n"
+    );
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(earningsCsv([{ ...row, artwork_title: 'Still life, "pears"\nno. 2' }])).toContain(
+      ',"Still life, ""pears""\nno. 2",'
+    );
+  });
+
+  it("keeps titles that look like formulas as text", () => {
+    const csv = (title: string) => earningsCsv([{ ...row, artwork_title: title }]).split("\n")[1].split(",")[2];
+    expect(csv("=1+1")).toBe("'=1+1");
+    expect(csv("+33 lights")).toBe("'+33 lights");
+    expect(csv("-2")).toBe("'-2");
+    expect(csv("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csv("\tblue")).toBe("'\tblue");
+    expect(earningsCsv([{ ...row, artwork_title: '=HYPERLINK("http://x","y")' }])).toContain(
+      `,"'=HYPERLINK(""http://x"",""y"")",`
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/lib/supabase", () => ({ sbAdmin: {} }));
+
+// past BAND_RECALL: findSimilar must still search at 7
+process.env.SIMILARITY_MAX_DISTANCE = "12";
+const { computeSignature, findSimilar, hashBands } = await import("../src/lib/similarity");
+
+const BAND_RECALL = 7;
+
+function hamming(a: string, b: string) {
+  let x = BigInt("0x" + a) ^ BigInt("0x" + b);
+  let n = 0;
+  for (; x; x >>= 1n) n += Number(x & 1n);
+  return n;
+}
+
+/** Flips one bit in each of the first `bytes` bytes of a 16-char hex hash. */
+function flipBytes(hex: string, bytes: number) {
+  let v = BigInt("0x" + hex);
+  for (let i = 0; i < bytes; i++) v ^= 1n << BigInt(56 - i * 8);
+  return v.toString(16).padStart(16, "0");
+}
+
+/** A 256×256 PNG: diagonal gradient with a block whose position varies by `seed`. */
+async function painting(seed: number) {
+  const size = 256;
+  const px = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 3;
+      const block = seed % 2 ? x > 40 && x < 120 && y > 150 : y > 30 && y < 110 && x > 140;
+      px[i] = block ? 230 : (x + y) / 2;
+      px[i + 1] = block ? 40 : (seed * 60 + y) % 256;
+      px[i + 2] = block ? 60 : 255 - x;
+    }
+  }
+  return sharp(px, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+describe("image signatures", () => {
+  it("keeps a resized, re-encoded copy within BAND_RECALL on both hashes", async () => {
+    const original = await painting(0);
+    const copy = await sharp(original).resize(181, 181).jpeg({ quality: 70 }).toBuffer();
+    const [a, b] = await Promise.all([computeSignature(original), computeSignature(copy)]);
+
+    expect(a).toMatchObject({ width: 256, height: 256 });
+    expect(b).toMatchObject({ width: 181, height: 181 });
+    expect(hamming(a.phash, b.phash)).toBeLessThanOrEqual(BAND_RECALL);
+    expect(hamming(a.dhash, b.dhash)).toBeLessThanOrEqual(BAND_RECALL);
+  });
+
+  it("puts a different image well past it", async () => {
+    const [a, b] = await Promise.all([computeSignature(await painting(0)), computeSignature(await painting(1))]);
+    expect(hamming(a.phash, b.phash)).toBeGreaterThan(BAND_RECALL);
+  });
+
+  it("refuses what isn't an image", async () => {
+    await expect(computeSignature(Buffer.from("not an image"))).rejects.toMatchObject({ status: 415 });
+  });
+});
+
+describe("band index", () => {
+  const sig = { phash: "0123456789abcdef", dhash: "fedcba9876543210" };
+  const shared = (a: number[], b: number[]) => a.filter((x) => b.includes(x)).length;
+
+  it("gives every hash within BAND_RECALL a band in common", () => {
+    const near = { ...sig, phash: flipBytes(sig.phash, BAND_RECALL) };
+    expect(hamming(sig.phash, near.phash)).toBe(BAND_RECALL);
+    expect(shared(hashBands(sig).slice(0, 8), hashBands(near).slice(0, 8))).toBe(1);
+  });
+
+  it("can miss one just past it", () => {
+    const far = { ...sig, phash: flipBytes(sig.phash, BAND_RECALL + 1) };
+    expect(shared(hashBands(sig).slice(0, 8), hashBands(far).slice(0, 8))).toBe(0);
+  });
+
+  it("numbers the bands per hash and byte", () => {
+    expect(hashBands(sig)).toHaveLength(16);
+    expect(hashBands(sig)[0]).toBe(0x01);
+    expect(hashBands(sig)[8]).toBe((8 << 8) | 0xfe);
+  });
+});
+
+describe("findSimilar", () => {
+  const hist = Array.from({ length: 64 }, (_, i) => (i === 0 ? 1 : 0));
+  const sig = { phash: "0123456789abcdef", dhash: "fedcba9876543210", colorHist: hist, width: 10, height: 10 };
+
+  function dbReturning(rows: object[]) {
+    const rpc = vi.fn(async () => ({ data: rows, error: null }));
+    const db = {
+      rpc,
+      from: () => ({ select: () => ({ in: async () => ({ data: [{ id: "a1", title: "A", creator_id: "c1" }] }) }) }),
+    };
+    return { rpc, db: db as any };
+  }
+
+  it("never searches past BAND_RECALL", async () => {
+    const { rpc, db } = dbReturning([]);
+    await findSimilar(sig, {}, db);
+    expect(rpc).toHaveBeenCalledWith("similar_images", expect.objectContaining({ p_max_distance: BAND_RECALL }));
+  });
+
+  it("scores an exact copy 1 and one at the recall limit 0.6", async () => {
+    const { db } = dbReturning([
+      { artwork_id: "a1", image_url: "u1", phash_distance: 0, dhash_distance: 0, color_hist: hist },
+      { artwork_id: "a2", image_url: "u2", phash_distance: 7, dhash_distance: 7, color_hist: hist },
+    ]);
+    const matches = await findSimilar(sig, {}, db);
+    expect(matches.map((m) => [m.artwork_id, m.score])).toEqual([["a1", 1], ["a2", 0.6]]);
+    expect(matches[0]).toMatchObject({ title: "A", creator_id: "c1", color_distance: 0 });
+  });
+});
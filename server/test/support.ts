@@ -0,0 +1,243 @@
+import crypto from "crypto";
+import express from "express";
+import bodyParser from "body-parser";
+import type { AddressInfo } from "net";
+import type { EthRpc } from "../src/lib/payments";
+
+/**
+ * Test doubles for the payment flow: an in-memory stand-in for the Supabase
+ * client (tables plus the RPCs checkout and settlement call) and a scripted
+ * chain for the on-chain provider. settle_order here only does what the tests
+ * assert on (order paid, sale row); the real one lives in the migrations.
+ */
+
+type Row = Record<string, any>;
+type Result = { data: any; error: { message: string; code?: string } | null };
+
+class Query implements PromiseLike<Result> {
+  private filters: ((r: Row) => boolean)[] = [];
+  private op: "select" | "insert" | "update" = "select";
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private max = Infinity;
+  private one: "single" | "maybe" | null = null;
+
+  constructor(private db: FakeDb, private table: string) {}
+
+  select() {
+    return this;
+  }
+  insert(rows: Row | Row[]) {
+    this.op = "insert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+  update(patch: Row) {
+    this.op = "update";
+    this.patch = patch;
+    return this;
+  }
+  eq(col: string, v: unknown) {
+    this.filters.push((r) => r[col] === v);
+    return this;
+  }
+  neq(col: string, v: unknown) {
+    this.filters.push((r) => r[col] !== v);
+    return this;
+  }
+  in(col: string, vs: unknown[]) {
+    this.filters.push((r) => vs.includes(r[col]));
+    return this;
+  }
+  gt(col: string, v: any) {
+    this.filters.push((r) => r[col] > v);
+    return this;
+  }
+  order() {
+    return this;
+  }
+  limit(n: number) {
+    this.max = n;
+    return this;
+  }
+  single() {
+    this.one = "single";
+    return this;
+  }
+  maybeSingle() {
+    this.one = "maybe";
+    return this;
+  }
+
+  private run(): Result {
+    const rows = this.db.rows(this.table);
+    let out: Row[];
+    if (this.op === "insert") {
+      out = this.payload.map((r) => ({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...r }));
+      rows.push(...out);
+    } else {
+      out = rows.filter((r) => this.filters.every((f) => f(r))).slice(0, this.max);
+      if (this.op === "update") out.forEach((r) => Object.assign(r, this.patch));
+    }
+    if (!this.one) return { data: out.map((r) => ({ ...r })), error: null };
+    if (!out.length && this.one === "single") return { data: null, error: { message: "no rows" } };
+    return { data: out[0] ? { ...out[0] } : null, error: null };
+  }
+
+  then<A = Result, B = never>(ok?: ((v: Result) => A | PromiseLike<A>) | null, fail?: ((e: any) => B | PromiseLike<B>) | null) {
+    return Promise.resolve().then(() => this.run()).then(ok, fail);
+  }
+}
+
+type Rpc = (args: any) => unknown;
+
+export type FakeDb = ReturnType<typeof createFakeDb>;
+
+export function createFakeDb() {
+  const tables = new Map<string, Row[]>();
+  const users = new Map<string, string>(); // token → user id
+  const rpcs = new Map<string, Rpc>();
+
+  const db = {
+    rows(table: string) {
+      if (!tables.has(table)) tables.set(table, []);
+      return tables.get(table)!;
+    },
+    from(table: string) {
+      return new Query(db, table);
+    },
+    rpc(name: string, args: any = {}) {
+      const call = (): Result => {
+        const fn = rpcs.get(name);
+        if (!fn) return { data: null, error: { message: `no rpc ${name}` } };
+        try {
+          return { data: fn(args), error: null };
+        } catch (e: any) {
+          // what PostgREST reports for a plpgsql `raise exception`
+          return { data: null, error: { message: e.message, code: "P0001" } };
+        }
+      };
+      return {
+        then: (ok: any, fail: any) => Promise.resolve().then(call).then(ok, fail),
+        single: () => Promise.resolve().then(call),
+      };
+    },
+    auth: {
+      async getUser(token?: string) {
+        const id = token ? users.get(token) : undefined;
+        return id ? { data: { user: { id } }, error: null } : { data: { user: null }, error: { message: "invalid token" } };
+      },
+    },
+    /** Bearer token that authenticates as `userId`. */
+    login(userId: string) {
+      const token = `token_${userId}`;
+      users.set(token, userId);
+      return token;
+    },
+    defineRpc(name: string, fn: Rpc) {
+      rpcs.set(name, fn);
+    },
+    reset() {
+      tables.clear();
+      users.clear();
+    },
+  };
+
+  db.defineRpc("listing_checkout_price", ({ p_listing_id }) => db.rows("listings").find((l) => l.id === p_listing_id)?.fixed_price);
+  db.defineRpc("listing_available", () => null);
+
+  // webhook_events ledger: a processed event is never claimed twice
+  db.defineRpc("claim_webhook_event", ({ p_provider, p_event_id }) => {
+    const events = db.rows("webhook_events");
+    let ev = events.find((e) => e.provider === p_provider && e.event_id === p_event_id);
+    if (ev && ev.status !== "failed") return { claimed: false, id: ev.id, status: ev.status, attempts: ev.attempts };
+    if (!ev) {
+      ev = { id: crypto.randomUUID(), provider: p_provider, event_id: p_event_id, attempts: 0 };
+      events.push(ev);
+    }
+    Object.assign(ev, { status: "processing", attempts: ev.attempts + 1 });
+    return { claimed: true, id: ev.id, status: ev.status, attempts: ev.attempts };
+  });
+  db.defineRpc("finish_webhook_event", ({ p_id, p_status }) => {
+    Object.assign(db.rows("webhook_events").find((e) => e.id === p_id)!, { status: p_status });
+  });
+
+  db.defineRpc("settle_order", ({ p_order_id, p_chain_id, p_tx_hash }) => {
+    const order = db.rows("orders").find((o) => o.id === p_order_id);
+    if (!order) throw new Error("Order not found");
+    if (order.payment_status === "paid") return order;
+    if (db.rows("listings").find((l) => l.id === order.listing_id)?.status !== "active") throw new Error("This listing has ended");
+    Object.assign(order, { payment_status: "paid", chain_id: p_chain_id, tx_hash: p_tx_hash });
+    db.rows("sales").push({ id: crypto.randomUUID(), artwork_id: order.artwork_id, buyer_id: order.buyer_id, tx_hash: p_tx_hash });
+    return order;
+  });
+
+  return db;
+}
+
+/** The API's payment routes, mounted the way src/index.ts mounts them. */
+export async function startApp() {
+  const { webhooksRouter } = await import("../src/routes/webhooks");
+  const { checkoutRouter } = await import("../src/routes/checkout");
+  const app = express();
+  app.use(webhooksRouter);
+  app.use(bodyParser.json());
+  app.use(checkoutRouter);
+
+  const server = app.listen(0);
+  await new Promise((r) => server.once("listening", r));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async post(path: string, body: unknown, headers: Record<string, string> = {}) {
+      const res = await fetch(base + path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: Buffer.isBuffer(body) ? body : JSON.stringify(body),
+      });
+      const text = await res.text();
+      let json: any = null;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        json = { text };
+      }
+      return { status: res.status, body: json };
+    },
+    close: () => new Promise<void>((r) => server.close(() => r())),
+  };
+}
+
+export type StubTx = { from: string; to: string; valueWei: bigint; blockNumber?: number; status?: 0 | 1 };
+
+/** A chain that only knows the transactions handed to `add`. */
+export function createStubRpc(chainId: number, head = 100) {
+  const txs = new Map<string, StubTx>();
+  const hex = (n: number | bigint) => "0x" + n.toString(16);
+
+  const rpc: EthRpc & { add(tx: StubTx): string } = {
+    add(tx) {
+      const hash = "0x" + crypto.randomBytes(32).toString("hex");
+      txs.set(hash, tx);
+      return hash;
+    },
+    async request<T>(method: string, params: any[] = []): Promise<T> {
+      const tx = txs.get(String(params[0]));
+      switch (method) {
+        case "eth_chainId":
+          return hex(chainId) as T;
+        case "eth_blockNumber":
+          return hex(head) as T;
+        case "eth_getTransactionByHash":
+          return (tx
+            ? { from: tx.from, to: tx.to, value: hex(tx.valueWei), blockNumber: tx.blockNumber == null ? null : hex(tx.blockNumber) }
+            : null) as T;
+        case "eth_getTransactionReceipt":
+          return (tx?.blockNumber == null ? null : { status: hex(tx.status ?? 1), blockNumber: hex(tx.blockNumber), logs: [] }) as T;
+        default:
+          throw new Error(`stub rpc: ${method} not supported`);
+      }
+    },
+  };
+  return rpc;
+}
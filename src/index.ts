@@ -2,7 +2,6 @@ import "dotenv/config";
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import helmet from "helmet";
-import { stripeRouter } from "./routes/stripe";
 
 
 import { healthRouter } from "./routes/health";
@@ -14,8 +13,9 @@ const PORT = Number(process.env.PORT || 5000);
 app.use(helmet());
 app.use(cors({ origin: true, credentials: true }));
 
-// Stripe webhook needs raw body; mount FIRST
-app.use("/", stripeRouter);
+// Payment webhooks (Stripe included) are handled by the API in server/
+// (/webhooks/:provider), which records them in webhook_events and settles
+// through settle_order.
 
 app.use(express.json({ limit: "10mb" }));
 
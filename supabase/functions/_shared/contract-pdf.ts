@@ -0,0 +1,370 @@
+// supabase/functions/_shared/contract-pdf.ts
+// License contract PDFs (pdf-lib, as in ar-marker): the agreement rendered from the
+// accepted terms, and the sealed executed copy with its signature and audit pages.
+import { degrees, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "https://esm.sh/pdf-lib@1.17.1";
+
+const PAGE: [number, number] = [595.28, 841.89]; // A4
+const MARGIN = 56;
+const LABEL_W = 130;
+const INK = rgb(0.08, 0.08, 0.08);
+const MUTED = rgb(0.42, 0.42, 0.42);
+
+export async function sha256Hex(bytes: Uint8Array) {
+  const buf = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// The standard fonts only encode WinAnsi; anything else would throw in drawText.
+const WIN_ANSI_EXTRA = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+function winAnsi(s: unknown) {
+  return Array.from(String(s ?? ""))
+    .map((c) => {
+      const code = c.charCodeAt(0);
+      if (c === "\t") return "  ";
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.includes(c)) return c;
+      return "?";
+    })
+    .join("");
+}
+
+/** A top-to-bottom text cursor that wraps lines and adds pages as needed. */
+class Writer {
+  page!: PDFPage;
+  y = 0;
+
+  constructor(readonly doc: PDFDocument, readonly font: PDFFont, readonly bold: PDFFont) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.doc.addPage(PAGE);
+    this.y = PAGE[1] - MARGIN;
+  }
+
+  ensure(height: number) {
+    if (this.y - height < MARGIN + 20) this.addPage();
+  }
+
+  wrap(text: string, font: PDFFont, size: number, width: number) {
+    const out: string[] = [];
+    for (const para of winAnsi(text).split(/\r?\n/)) {
+      let line = "";
+      for (const word of para.split(/\s+/)) {
+        const next = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(next, size) <= width) {
+          line = next;
+          continue;
+        }
+        if (line) out.push(line);
+        // a single word wider than the column is hard-broken
+        let rest = word;
+        while (font.widthOfTextAtSize(rest, size) > width && rest.length > 1) {
+          let n = rest.length - 1;
+          while (n > 1 && font.widthOfTextAtSize(rest.slice(0, n), size) > width) n--;
+          out.push(rest.slice(0, n));
+          rest = rest.slice(n);
+        }
+        line = rest;
+      }
+      out.push(line);
+    }
+    return out;
+  }
+
+  text(text: string, opts: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; x?: number; width?: number } = {}) {
+    const size = opts.size ?? 10.5;
+    const font = opts.font ?? this.font;
+    const x = opts.x ?? MARGIN;
+    const lines = this.wrap(text, font, size, opts.width ?? PAGE[0] - x - MARGIN);
+    for (const line of lines) {
+      this.ensure(size * 1.4);
+      this.page.drawText(line, { x, y: this.y - size, size, font, color: opts.color ?? INK });
+      this.y -= size * 1.4;
+    }
+  }
+
+  gap(h = 8) {
+    this.y -= h;
+  }
+
+  rule() {
+    this.ensure(10);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 4 },
+      end: { x: PAGE[0] - MARGIN, y: this.y - 4 },
+      thickness: 0.75,
+      color: MUTED,
+    });
+    this.y -= 12;
+  }
+
+  heading(text: string) {
+    this.gap(10);
+    this.ensure(40);
+    this.text(text, { size: 13, font: this.bold });
+    this.gap(2);
+  }
+
+  /** Label in the left column, wrapped value on the right. */
+  row(label: string, value: string) {
+    const size = 10.5;
+    const x = MARGIN + LABEL_W;
+    const lines = this.wrap(value || "—", this.font, size, PAGE[0] - x - MARGIN);
+    this.ensure(size * 1.4 * Math.min(lines.length, 3));
+    this.page.drawText(winAnsi(label), { x: MARGIN, y: this.y - size, size, font: this.font, color: MUTED });
+    for (const line of lines) {
+      this.ensure(size * 1.4);
+      this.page.drawText(line, { x, y: this.y - size, size, font: this.font, color: INK });
+      this.y -= size * 1.4;
+    }
+    this.gap(3);
+  }
+}
+
+function footer(doc: PDFDocument, font: PDFFont, text: string) {
+  const pages = doc.getPages();
+  pages.forEach((p, i) => {
+    p.drawText(winAnsi(`${text} — page ${i + 1} of ${pages.length}`), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED,
+    });
+  });
+}
+
+/* ---------- term formatting (same wording as the old HTML contract) ---------- */
+const money = (f?: any) => (f ? `${Number(f.amount).toLocaleString("en-US")} ${f.currency}` : "—");
+const list = (arr?: any) => (Array.isArray(arr) && arr.length ? arr.join(", ") : "—");
+const yesno = (b?: boolean) => (b ? "yes" : "no");
+const spec = (d?: any) => {
+  if (!d) return "—";
+  const dims = d.width && d.height ? `${d.width}×${d.height}` : "";
+  const parts = [d.format || null, dims || null, d.color || null, d.dpi ? `${d.dpi} dpi` : null].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "—";
+};
+const liability = (cap?: any) => {
+  if (!cap) return "—";
+  if (cap.type === "fees_paid") return "fees paid";
+  if (cap.type === "fixed" && cap.amount != null) return `${Number(cap.amount).toLocaleString("en-US")} USD`;
+  return "—";
+};
+const disputes = (d?: any) => {
+  if (!d) return "—";
+  if (d.mode === "courts") return `${d.law}${d.venue ? `, ${d.venue}` : ""}`;
+  if (d.mode === "arbitration") return `${d.arb_rules || "Arbitration"} — seat ${d.seat || "TBD"} — law ${d.law}`;
+  return "—";
+};
+/** Bullet and numbered lines keep their shape; "-" and "•" bullets both print as "•". */
+const block = (s?: string) => (s ?? "").trim().replace(/^\s*[-•]\s+/gm, "• ");
+
+export type ContractInput = {
+  requestId: string;
+  artworkTitle: string;
+  licensor: string;
+  licensee: string;
+  terms: any;
+  /** Terms still under negotiation: watermarked and not signable. */
+  draft: boolean;
+  generatedAt: Date;
+};
+
+export async function renderContractPdf(c: ContractInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  doc.setTitle(`Artwork License Agreement — ${winAnsi(c.artworkTitle)}`);
+  doc.setSubject(`License request ${c.requestId}`);
+  doc.setProducer("taedal");
+  doc.setCreationDate(c.generatedAt);
+
+  const w = new Writer(doc, font, bold);
+  const t = c.terms ?? {};
+
+  w.text("taedal", { size: 11, font: bold, color: MUTED });
+  w.gap(6);
+  w.text("Artwork License Agreement", { size: 24, font: bold });
+  w.rule();
+
+  w.row("Artwork", c.artworkTitle || "Untitled");
+  w.row("Licensor (owner)", c.licensor);
+  w.row("Licensee", c.licensee);
+  w.row("Purpose", t.purpose ?? "—");
+  w.row("Term", t.term_months ? `${t.term_months} months` : "—");
+  w.row("Territory", Array.isArray(t.territory) ? t.territory.join(", ") : (t.territory ?? "—"));
+  w.row("Media", list(t.media));
+  w.row("Exclusivity", t.exclusivity ?? "—");
+  w.row("Fee", money(t.fee));
+  if (t.deliverables) w.row("Deliverables", block(t.deliverables));
+  if (t.usage_notes) w.row("Notes", block(t.usage_notes));
+  if (t.credit_required) w.row("Attribution", `${yesno(t.credit_required)}${t.credit_line ? ` — ${t.credit_line}` : ""}`);
+  if (t.start_date) w.row("Start Date", t.start_date);
+  if (t.effective_date) w.row("Effective Date", t.effective_date);
+
+  if (t.payment_terms || t.tax || t.invoicing) {
+    w.heading("Payment & Admin");
+    if (t.payment_terms) {
+      const p = t.payment_terms;
+      w.row("Payment", `Net ${p.due_days}${p.late_fee_pct ? ` · Late fee ${p.late_fee_pct}%` : ""}${p.method ? ` · ${p.method}` : ""}`);
+    }
+    if (t.tax) w.row("Taxes", `${t.tax.responsible_party} responsible${t.tax.vat_registered ? " · VAT registered" : ""}`);
+    if (t.invoicing) {
+      const i = t.invoicing;
+      w.row("Invoicing", [i.entity_name, i.email, i.address].filter(Boolean).join(" · "));
+    }
+  }
+
+  if (t.brand_guidelines_url || t.preapproval_required || t.approval_sla_days || t.prohibited_uses || t.usage_restrictions || t.delivery_specs) {
+    w.heading("Brand & Approvals");
+    if (t.brand_guidelines_url) w.row("Guidelines", t.brand_guidelines_url);
+    if (typeof t.preapproval_required === "boolean") {
+      w.row("Pre-approval", `${yesno(t.preapproval_required)}${t.approval_sla_days ? ` · SLA ${t.approval_sla_days} days` : ""}`);
+    }
+    if (t.prohibited_uses) w.row("Prohibited Uses", list(t.prohibited_uses));
+    if (t.usage_restrictions) w.row("Usage Restrictions", list(t.usage_restrictions));
+    if (t.delivery_specs) w.row("Delivery Specs", spec(t.delivery_specs));
+  }
+
+  if (t.confidentiality_term_months || t.liability_cap || t.sublicense != null || t.derivative_edits || t.injunctive_relief) {
+    w.heading("Legal Terms");
+    if (t.sublicense != null) w.row("Sublicensing", yesno(t.sublicense));
+    if (t.derivative_edits) w.row("Permitted Edits", list(t.derivative_edits));
+    if (t.confidentiality_term_months) w.row("Confidentiality", `${t.confidentiality_term_months} months`);
+    if (t.liability_cap) w.row("Liability Cap", liability(t.liability_cap));
+    if (t.injunctive_relief) w.row("Equitable Relief", "Injunctive relief available");
+  }
+
+  if (t.termination) {
+    const x = t.termination;
+    w.heading("Termination");
+    if (typeof x.for_convenience === "boolean") w.row("For Convenience", yesno(x.for_convenience));
+    if (x.notice_days) w.row("Notice", `${x.notice_days} days`);
+    if (x.breach_cure_days) w.row("Cure Period", `${x.breach_cure_days} days`);
+    if (x.takedown_days) w.row("Post-Term Takedown", `${x.takedown_days} days`);
+  }
+
+  if (t.disputes) {
+    w.heading("Governing Law & Disputes");
+    w.row("Framework", disputes(t.disputes));
+  }
+
+  if (t.onchain || t.royalties || t.metadata) {
+    w.heading("On-chain");
+    if (t.onchain) w.row("Chain", t.onchain.chain || "—");
+    if (t.onchain?.contract_address) w.row("Contract", t.onchain.contract_address);
+    if (t.onchain?.token_id) w.row("Token ID", String(t.onchain.token_id));
+    if (t.onchain?.pay_gas_party) w.row("Gas", `${t.onchain.pay_gas_party} pays gas`);
+    if (t.royalties) w.row("Royalties", `${(t.royalties.rate_bps / 100).toFixed(2)}%${t.royalties.receiver ? ` · ${t.royalties.receiver}` : ""}`);
+    if (t.metadata) {
+      const m = t.metadata;
+      w.row(
+        "Storage",
+        [m.image_cid && `image ${m.image_cid}`, m.metadata_cid && `meta ${m.metadata_cid}`, m.mutable != null && `mutable ${yesno(m.mutable)}`]
+          .filter(Boolean)
+          .join(" · ")
+      );
+    }
+  }
+
+  w.heading("Signatures");
+  w.text(
+    c.draft
+      ? "Draft for review. Terms are still being negotiated; this document cannot be signed."
+      : "Signed electronically by both parties on taedal. The signature and audit pages are appended to the executed copy.",
+    { color: MUTED }
+  );
+
+  if (c.draft) {
+    for (const p of doc.getPages()) {
+      p.drawText("DRAFT", { x: 150, y: 300, size: 120, font: bold, color: rgb(0.85, 0.85, 0.85), rotate: degrees(40), opacity: 0.5 });
+    }
+  }
+  footer(doc, font, `License ${c.requestId} · generated ${c.generatedAt.toISOString()}`);
+  return doc.save();
+}
+
+export type SealSignature = {
+  role: "licensor" | "licensee";
+  name: string;
+  title: string | null;
+  method: "typed" | "drawn";
+  image: Uint8Array | null;
+  signerId: string;
+  documentSha256: string;
+  ip: string | null;
+  userAgent: string | null;
+  signedAt: string;
+};
+
+/** The executed copy: the contract as signed, then a signature page and an audit page. */
+export async function sealContract(
+  contract: Uint8Array,
+  s: { requestId: string; documentSha256: string; signatures: SealSignature[]; sealedAt: Date }
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(contract);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const script = await doc.embedFont(StandardFonts.TimesRomanItalic);
+  doc.setModificationDate(s.sealedAt);
+  doc.setKeywords([`license:${s.requestId}`, `document-sha256:${s.documentSha256}`]);
+
+  const contractPages = doc.getPageCount();
+  const w = new Writer(doc, font, bold);
+  w.text("Signature Page", { size: 20, font: bold });
+  w.rule();
+  for (const sig of s.signatures) {
+    w.ensure(130);
+    w.text(sig.role === "licensor" ? "LICENSOR" : "LICENSEE", { size: 9, font: bold, color: MUTED });
+    w.gap(4);
+    if (sig.image) {
+      const png = await doc.embedPng(sig.image);
+      const scaled = png.scaleToFit(220, 60);
+      w.page.drawImage(png, { x: MARGIN, y: w.y - scaled.height, width: scaled.width, height: scaled.height });
+      w.y -= scaled.height + 4;
+    } else {
+      w.text(sig.name, { size: 22, font: script });
+    }
+    w.page.drawLine({ start: { x: MARGIN, y: w.y }, end: { x: MARGIN + 240, y: w.y }, thickness: 0.75, color: INK });
+    w.gap(4);
+    w.text(`${sig.name}${sig.title ? `, ${sig.title}` : ""}`);
+    w.text(`Signed ${sig.signedAt}`, { size: 9, color: MUTED });
+    w.gap(18);
+  }
+
+  w.addPage();
+  const auditPage = doc.getPageCount() - 1;
+  w.text("Audit Trail", { size: 20, font: bold });
+  w.rule();
+  w.row("License request", s.requestId);
+  w.row("Contract SHA-256", s.documentSha256);
+  w.row("Sealed at", s.sealedAt.toISOString());
+  for (const sig of s.signatures) {
+    w.heading(`${sig.role === "licensor" ? "Licensor" : "Licensee"}: ${sig.name}`);
+    w.row("Account", sig.signerId);
+    w.row("Method", sig.method === "drawn" ? "Drawn signature" : "Typed signature");
+    w.row("Signed at (UTC)", sig.signedAt);
+    w.row("IP address", sig.ip ?? "—");
+    w.row("User agent", sig.userAgent ?? "—");
+    w.row("Document signed", sig.documentSha256);
+  }
+  w.gap(12);
+  w.text(
+    "Each party signed the contract PDF identified by the SHA-256 above. The SHA-256 of this executed file is " +
+      "recorded on the license request when it is sealed.",
+    { size: 9, color: MUTED }
+  );
+
+  // footers only on the appended pages; the contract pages keep theirs
+  doc.getPages().slice(contractPages).forEach((p, i) => {
+    const part = contractPages + i < auditPage ? "signatures" : "audit";
+    p.drawText(winAnsi(`License ${s.requestId} · executed copy — ${part}`), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED,
+    });
+  });
+  return doc.save();
+}
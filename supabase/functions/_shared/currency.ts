@@ -0,0 +1,16 @@
+// supabase/functions/_shared/currency.ts
+// Currency tables, minor units and FX for the edge functions (./currencyCore.ts,
+// the same module the API runs), plus Stripe-amount helpers.
+import { fromMinorUnits, toMinorUnits } from "./currencyCore.ts";
+
+export * from "./currencyCore.ts";
+
+/** Major units → Stripe's integer amount. */
+export function toStripeAmount(amount: number, code: string) {
+  return toMinorUnits(amount, code, "stripe");
+}
+
+/** Stripe's integer amount → major units. */
+export function fromStripeAmount(amount: number, code: string) {
+  return fromMinorUnits(amount, code, "stripe");
+}
@@ -0,0 +1,94 @@
+// supabase/functions/_shared/webhook-ledger.ts
+// Idempotency for webhook handlers, backed by public.webhook_events
+// (see migrations/20251105120000_webhook_events.sql).
+//
+//   const ev = await claimEvent(db, { provider, eventId, eventType, payload, handler: "stripe-webhook" });
+//   if (inFlight(ev)) return 409;      // another delivery is on it; let the provider retry
+//   if (!ev.claimed) return duplicate; // already processed / ignored
+//   try { ...work...; await finishEvent(db, ev.id, "processed"); }
+//   catch (e) { await finishEvent(db, ev.id, "failed", e); throw e; }
+//
+// Admin replay (server/src/routes/admin.ts) re-opens a stored event and POSTs
+// back to the function with the service-role key and `x-webhook-replay: <id>`;
+// `loadReplay` returns the stored row so the handler can skip signature checks.
+
+// deno-lint-ignore-file no-explicit-any
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ClaimedEvent = { claimed: boolean; id: string; status: string; attempts: number };
+
+export type StoredEvent = {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string | null;
+  handler: string;
+  payload: any;
+  normalized: any;
+};
+
+export async function claimEvent(
+  db: SupabaseClient,
+  ev: { provider: string; eventId: string; eventType?: string | null; payload: unknown; normalized?: unknown; handler: string },
+): Promise<ClaimedEvent> {
+  const { data, error } = await db
+    .rpc("claim_webhook_event", {
+      p_provider: ev.provider,
+      p_event_id: ev.eventId,
+      p_event_type: ev.eventType ?? null,
+      p_payload: ev.payload ?? {},
+      p_normalized: ev.normalized ?? null,
+      p_handler: ev.handler,
+    })
+    .single();
+  if (error || !data) throw new Error(`claim_webhook_event: ${error?.message ?? "no row"}`);
+  return data as ClaimedEvent;
+}
+
+/**
+ * Not claimed because another delivery holds the lease (status "processing",
+ * for up to 5 minutes). That run may still fail, so answer non-2xx and let the
+ * provider redeliver; only a processed / ignored duplicate gets a 2xx.
+ */
+export function inFlight(ev: ClaimedEvent) {
+  return !ev.claimed && ev.status === "processing";
+}
+
+export async function finishEvent(
+  db: SupabaseClient,
+  id: string,
+  status: "processed" | "ignored" | "failed",
+  err?: unknown,
+) {
+  const message = err == null ? null : String((err as any)?.message ?? err).slice(0, 1000);
+  const { error } = await db.rpc("finish_webhook_event", { p_id: id, p_status: status, p_error: message });
+  if (error) console.error("finish_webhook_event", error.message);
+}
+
+/**
+ * Returns the stored event when this request is an admin replay, null for a
+ * normal provider delivery. Throws if the replay header comes without the
+ * service-role key.
+ */
+export async function loadReplay(req: Request, db: SupabaseClient, serviceKey: string): Promise<StoredEvent | null> {
+  const replayId = req.headers.get("x-webhook-replay");
+  if (!replayId) return null;
+  if (!serviceKey || req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    throw new Error("replay requires service role");
+  }
+
+  const { data, error } = await db
+    .from("webhook_events")
+    .select("id, provider, event_id, event_type, handler, payload, normalized")
+    .eq("id", replayId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`webhook event ${replayId} not found`);
+  return data as StoredEvent;
+}
+
+/** Stable id for payloads that carry none. */
+export async function bodyEventId(raw: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(raw));
+  return "sha256:" + Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
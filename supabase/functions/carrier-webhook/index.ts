@@ -7,12 +7,11 @@
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.46.1";
+import { bodyEventId, claimEvent, finishEvent, inFlight, loadReplay } from "../_shared/webhook-ledger.ts";
 
 // SUPABASE (service role; bypasses RLS for webhooks)
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL")!,
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
-);
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, SERVICE_ROLE_KEY);
 
 type NormCode =
   | "picked_up"
@@ -165,52 +164,158 @@ function normalizePayload(p: any): {
   };
 }
 
+class NotFound extends Error {}
+
+type LegState = { seq: number; status: string; delivered_at: string | null };
+
+// Same rule as server/src/lib/custody.ts: the first open leg drives the shipment,
+// which is only delivered with its last leg.
+function statusFromLegs(legs: LegState[]) {
+  const open = legs.find((l) => l.status !== "delivered");
+  if (!open) return "delivered";
+  if (legs.some((l) => l.status === "exception")) return "exception";
+  if (open.status === "pending") return open.seq === legs[0].seq ? "with_creator" : "in_transit";
+  return open.status;
+}
+
+// A tracking number on one leg of a multi-leg shipment: update the leg, then the shipment from its legs.
+async function applyLegUpdate(
+  leg: { id: string; shipment_id: string; status: string; started_at: string | null },
+  n: ReturnType<typeof normalizePayload>,
+  payload: any,
+) {
+  const now = new Date().toISOString();
+  const newStatus = n.checkpoint?.code ? mapToStatusV2(n.checkpoint.code) : null;
+
+  const legPatch: Record<string, unknown> = {
+    tracking_slug: n.carrier ?? null,
+    last_checkpoint: n.checkpoint ?? null,
+    updated_at: now,
+  };
+  if (newStatus) {
+    legPatch.status = newStatus;
+    if (!leg.started_at) legPatch.started_at = now;
+  }
+  if (newStatus === "delivered") legPatch.delivered_at = now;
+  const { error: le } = await supabase.from("shipment_legs").update(legPatch).eq("id", leg.id);
+  if (le) throw le;
+
+  const { data: legs, error: ls } = await supabase
+    .from("shipment_legs")
+    .select("seq, status, delivered_at")
+    .eq("shipment_id", leg.shipment_id)
+    .order("seq");
+  if (ls) throw ls;
+  const status = statusFromLegs((legs ?? []) as LegState[]);
+
+  const patch: Record<string, unknown> = {
+    webhook_source: n.provider ?? "carrier_webhook",
+    last_checkpoint: n.checkpoint ?? null,
+    status_v2: status,
+    updated_at: now,
+  };
+  if (status === "delivered") patch.delivered_at = now;
+  const { error: ue } = await supabase.from("shipments").update(patch).eq("id", leg.shipment_id);
+  if (ue) throw ue;
+
+  const { error: ie } = await supabase.from("shipment_events").insert({
+    shipment_id: leg.shipment_id,
+    leg_id: leg.id,
+    code: n.checkpoint?.code ?? "update",
+    message: n.checkpoint?.message ?? null,
+    source: "carrier_webhook",
+    payload,
+    created_at: n.checkpoint?.checkpoint_time ?? now,
+  });
+  if (ie && !String(ie.message || "").includes("duplicate key")) throw ie;
+}
+
+// Applies one normalized tracking update to its shipment. Runs once per ledger claim.
+async function applyUpdate(n: ReturnType<typeof normalizePayload>, payload: any) {
+  // legs first: the first leg of a route often reuses the shipment's own tracking number
+  const { data: leg, error: le } = await supabase
+    .from("shipment_legs")
+    .select("id, shipment_id, status, started_at")
+    .eq("tracking_number", n.tracking_number)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (le) throw le;
+  if (leg) return applyLegUpdate(leg, n, payload);
+
+  // locate shipment
+  const { data: ship, error: se } = await supabase
+    .from("shipments")
+    .select("id, status_v2")
+    .eq("tracking_number", n.tracking_number)
+    .maybeSingle();
+  if (se) throw se;
+  if (!ship) throw new NotFound("shipment not found");
+
+  const newStatus = n.checkpoint?.code ? mapToStatusV2(n.checkpoint.code) : null;
+
+  // patch shipment (status_v2, delivered_at, tracking_slug, last_checkpoint, webhook_source)
+  const patch: Record<string, unknown> = {
+    webhook_source: n.provider ?? "carrier_webhook",
+    tracking_slug: n.carrier ?? null,
+    last_checkpoint: n.checkpoint ?? null,
+    updated_at: new Date().toISOString(),
+  };
+  if (newStatus) patch.status_v2 = newStatus;
+  if (newStatus === "delivered") patch.delivered_at = new Date().toISOString();
+
+  const { error: ue } = await supabase.from("shipments").update(patch).eq("id", ship.id);
+  if (ue) throw ue;
+
+  // append event (idempotent enough via (shipment_id, code, created_at) unique where source=carrier_webhook)
+  const createdAt = n.checkpoint?.checkpoint_time ?? new Date().toISOString();
+  const { error: ie } = await supabase.from("shipment_events").insert({
+    shipment_id: ship.id,
+    code: n.checkpoint?.code ?? "update",
+    message: n.checkpoint?.message ?? null,
+    source: "carrier_webhook",
+    payload,
+    created_at: createdAt,
+  });
+  if (ie && !String(ie.message || "").includes("duplicate key")) throw ie;
+}
+
 serve(async (req) => {
   try {
     const raw = await req.text();
-    const secret = Deno.env.get("CARRIER_WEBHOOK_SECRET") ?? "";
-    const ok = await hmacOk(raw, req.headers.get("x-taedal-signature"), secret);
-    if (!ok) return new Response("bad signature", { status: 401 });
 
-    const payload = JSON.parse(raw);
+    // Admin replays carry the ledger id instead of a carrier signature
+    const replay = await loadReplay(req, supabase, SERVICE_ROLE_KEY);
+    if (!replay) {
+      const secret = Deno.env.get("CARRIER_WEBHOOK_SECRET") ?? "";
+      const ok = await hmacOk(raw, req.headers.get("x-taedal-signature"), secret);
+      if (!ok) return new Response("bad signature", { status: 401 });
+    }
+
+    const payload = replay ? replay.payload : JSON.parse(raw);
     const n = normalizePayload(payload);
     if (!n.tracking_number) return new Response("no tracking", { status: 400 });
 
-    // locate shipment
-    const { data: ship, error: se } = await supabase
-      .from("shipments")
-      .select("id, status_v2")
-      .eq("tracking_number", n.tracking_number)
-      .maybeSingle();
-    if (se) throw se;
-    if (!ship) return new Response("shipment not found", { status: 404 });
-
-    const newStatus = n.checkpoint?.code ? mapToStatusV2(n.checkpoint.code) : null;
-
-    // patch shipment (status_v2, delivered_at, tracking_slug, last_checkpoint, webhook_source)
-    const patch: Record<string, unknown> = {
-      webhook_source: n.provider ?? "carrier_webhook",
-      tracking_slug: n.carrier ?? null,
-      last_checkpoint: n.checkpoint ?? null,
-      updated_at: new Date().toISOString(),
-    };
-    if (newStatus) patch.status_v2 = newStatus;
-    if (newStatus === "delivered") patch.delivered_at = new Date().toISOString();
-
-    const { error: ue } = await supabase.from("shipments").update(patch).eq("id", ship.id);
-    if (ue) throw ue;
-
-    // append event (idempotent enough via (shipment_id, code, created_at) unique where source=carrier_webhook)
-    const createdAt = n.checkpoint?.checkpoint_time ?? new Date().toISOString();
-    const { error: ie } = await supabase.from("shipment_events").insert({
-      shipment_id: ship.id,
-      code: n.checkpoint?.code ?? "update",
-      message: n.checkpoint?.message ?? null,
-      source: "carrier_webhook",
+    // AfterShip / EasyPost send event ids; otherwise the body itself is the identity
+    const claim = await claimEvent(supabase, {
+      provider: replay?.provider ?? n.provider ?? "carrier_webhook",
+      eventId: replay?.event_id ?? String(payload?.event_id ?? payload?.id ?? await bodyEventId(raw)),
+      eventType: n.checkpoint?.code ?? "update",
       payload,
-      created_at: createdAt,
+      normalized: n,
+      handler: "carrier-webhook",
     });
-    if (ie && !String(ie.message || "").includes("duplicate key")) throw ie;
+    if (inFlight(claim)) return new Response("in progress", { status: 409 });
+    if (!claim.claimed) return new Response("duplicate", { status: 200 });
+
+    try {
+      await applyUpdate(n, payload);
+      await finishEvent(supabase, claim.id, "processed");
+    } catch (e) {
+      await finishEvent(supabase, claim.id, "failed", e);
+      if (e instanceof NotFound) return new Response(e.message, { status: 404 });
+      throw e;
+    }
 
     return new Response("ok", { status: 200 });
   } catch (e) {
@@ -1,8 +1,13 @@
 // deno-lint-ignore-file no-explicit-any
 /// <reference lib="deno.unstable" />
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { claimEvent, finishEvent, inFlight, loadReplay } from "../_shared/webhook-ledger.ts";
+import { applyChargeEvent, ledgerOutcome } from "../_shared/coinbase-settlement.ts";
 
 const WEBHOOK_SECRET = Deno.env.get("COINBASE_COMMERCE_WEBHOOK_SECRET") ?? "";
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE = Deno.env.get("SERVICE_ROLE_KEY")!;
 
 function text(body: string, status = 200) {
   return new Response(body, {
@@ -39,16 +44,43 @@ Deno.serve(async (req) => {
   if (!WEBHOOK_SECRET) return text("Missing COINBASE_COMMERCE_WEBHOOK_SECRET", 500);
 
   const raw = await req.text();
-  const sig = req.headers.get("X-CC-Webhook-Signature") ?? "";
+  const db = createClient(SUPABASE_URL, SERVICE);
 
-  const valid = await verifySignature(raw, sig);
-  if (!valid) return text("Invalid signature", 400);
+  let evt: any;
+  try {
+    const replay = await loadReplay(req, db, SERVICE);
+    if (replay) {
+      evt = replay.payload;
+    } else {
+      const sig = req.headers.get("X-CC-Webhook-Signature") ?? "";
+      const valid = await verifySignature(raw, sig);
+      if (!valid) return text("Invalid signature", 400);
+      // At this point the event is authentic
+      evt = JSON.parse(raw);
+    }
+  } catch (e: any) {
+    return text(e?.message ?? "Bad request", 400);
+  }
 
-  // At this point the event is authentic
-  const evt = JSON.parse(raw);
-  // evt.type can be "charge:pending", "charge:confirmed", "charge:failed", etc.
-  // Later: update your orders table based on evt.data.code / id in metadata.
+  // evt.event.type can be "charge:pending", "charge:confirmed", "charge:failed", etc.
+  const event = evt?.event ?? {};
+  const claim = await claimEvent(db, {
+    provider: "coinbase_commerce",
+    eventId: String(event.id),
+    eventType: event.type ?? null,
+    payload: evt,
+    handler: "cc-webhook",
+  });
+  if (inFlight(claim)) return text("in progress", 409);
+  if (!claim.claimed) return text("duplicate", 200);
 
-  // For now, just acknowledge
+  try {
+    await finishEvent(db, claim.id, ledgerOutcome(await applyChargeEvent(db, evt)));
+  } catch (e) {
+    console.error("coinbase settlement error", (e as any)?.message ?? e);
+    await finishEvent(db, claim.id, "failed", e);
+    // non-2xx → Coinbase redelivers; the ledger lets the retry re-claim
+    return text("error", 500);
+  }
   return text("ok", 200);
 });
@@ -1,9 +1,14 @@
 // deno-lint-ignore-file no-explicit-any
 /// <reference lib="deno.window" />
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { claimEvent, finishEvent, inFlight, loadReplay } from "../_shared/webhook-ledger.ts";
+import { applyChargeEvent, ledgerOutcome } from "../_shared/coinbase-settlement.ts";
 
 // Coinbase Commerce signs webhooks with X-CC-Webhook-Signature (HMAC SHA256)
 const SECRET = (Deno.env.get("COMMERCE_WEBHOOK_SECRET") || "").trim();
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE = Deno.env.get("SERVICE_ROLE_KEY")!;
 
 function verifySignature(rawBody: string, sig: string, secret: string) {
   const key = new TextEncoder().encode(secret);
@@ -22,16 +27,37 @@ export default async function handler(req: Request) {
 
   const sig = req.headers.get("X-CC-Webhook-Signature") || "";
   const raw = await req.text();
-
-  if (!SECRET) return new Response("Missing COMMERCE_WEBHOOK_SECRET", { status: 500 });
-  const ok = await verifySignature(raw, sig, SECRET);
-  if (!ok) return new Response("Invalid signature", { status: 400 });
-
-  const evt = JSON.parse(raw);
-
-  // TODO: read your metadata and update DB accordingly.
-  // Example: const { event: { type }, data: { metadata } } = evt;
-
-  console.log("coinbase-commerce webhook:", evt?.event?.type, evt?.data?.metadata);
+  const db = createClient(SUPABASE_URL, SERVICE);
+
+  let evt: any;
+  const replay = await loadReplay(req, db, SERVICE).catch(() => undefined);
+  if (replay === undefined) return new Response("Invalid replay", { status: 401 });
+  if (replay) {
+    evt = replay.payload;
+  } else {
+    if (!SECRET) return new Response("Missing COMMERCE_WEBHOOK_SECRET", { status: 500 });
+    const ok = await verifySignature(raw, sig, SECRET);
+    if (!ok) return new Response("Invalid signature", { status: 400 });
+    evt = JSON.parse(raw);
+  }
+
+  const claim = await claimEvent(db, {
+    provider: "coinbase_commerce",
+    eventId: String(evt?.event?.id),
+    eventType: evt?.event?.type ?? null,
+    payload: evt,
+    handler: "coinbase-webhook",
+  });
+  if (inFlight(claim)) return new Response("in progress", { status: 409 });
+  if (!claim.claimed) return new Response("duplicate");
+
+  try {
+    await finishEvent(db, claim.id, ledgerOutcome(await applyChargeEvent(db, evt)));
+  } catch (e) {
+    console.error("coinbase settlement error", (e as any)?.message ?? e);
+    await finishEvent(db, claim.id, "failed", e);
+    // non-2xx → Coinbase redelivers; the ledger lets the retry re-claim
+    return new Response("error", { status: 500 });
+  }
   return new Response("received");
 }
@@ -2,11 +2,15 @@
 /// <reference lib="deno.window" />
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { toStripeAmount } from "../_shared/currency.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const ANON = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SERVICE = Deno.env.get("SERVICE_ROLE_KEY")!;
 const STRIPE_SK = Deno.env.get("STRIPE_SECRET_KEY")!;
 const SITE = (Deno.env.get("SITE_URL") || "http://localhost:5173").replace(/\/$/, "");
+// How long a pending order holds its units (listing_available); the session closes with it
+const CHECKOUT_HOLD_MS = 35 * 60_000;
 
 const cors = {
   "Access-Control-Allow-Origin": "*",
@@ -25,10 +29,6 @@ type Listing = {
   status: "active" | "ended";
 };
 
-const ZERO_DEC = new Set(["JPY", "KRW"]);
-const toStripeAmount = (amount: number, currency: string) =>
-  Math.round(amount * (ZERO_DEC.has(currency.toUpperCase()) ? 1 : 100));
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return t();
 
@@ -59,20 +59,60 @@ Deno.serve(async (req) => {
     if (error) throw error;
     if (!listing) return t("Listing not found", 404);
     if (listing.status !== "active") return t("Listing is not active", 400);
-    if (!listing.fixed_price || !listing.sale_currency) return t("Listing missing price/currency", 400);
+    if (!listing.sale_currency) return t("Listing missing currency", 400);
 
     const { data: art } = await sb
       .from("artworks")
-      .select("title,image_url")
+      .select("title,image_url,edition_type")
       .eq("id", listing.artwork_id)
       .maybeSingle();
 
+    // One-of-ones sell singly; editions only what the listing has left (settle_order re-checks)
+    const qty = Math.max(1, Number(quantity) || 1);
+    if ((art?.edition_type ?? "unique") === "unique") {
+      if (qty !== 1) return t("One-of-one artworks sell one at a time", 400);
+    } else {
+      const { data: available } = await sb.rpc("listing_available", { p_listing_id: listing.id });
+      if (available != null && available < qty) return t(available === 0 ? "Sold out" : `Only ${available} left`, 409);
+    }
+
+    // Price set by the database: fixed, or a Dutch listing's price right now; also opens
+    // a due drop and enforces its allowlist / per-wallet limit
+    const db = createClient(SUPABASE_URL, SERVICE);
+    const { data: price, error: perr } = await db.rpc("listing_checkout_price", {
+      p_listing_id: listing.id,
+      p_buyer_id: buyerId,
+      p_quantity: qty,
+    });
+    if (perr) return t(perr.message, /allowlist|Limit of/i.test(perr.message) ? 403 : 409);
+    const unitPrice = Number(price);
+
+    // Pending order up front; stripe-webhook settles it via settle_order
+    const { data: order, error: oerr } = await db
+      .from("orders")
+      .insert({
+        listing_id: listing.id,
+        artwork_id: listing.artwork_id,
+        seller_id: listing.seller_id,
+        buyer_id: buyerId,
+        quantity: qty,
+        unit_price: unitPrice,
+        total_amount: unitPrice * qty,
+        currency: listing.sale_currency,
+        kind: "fixed_price",
+        payment_status: "pending",
+        settlement_kind: "stripe",
+      })
+      .select("id,created_at")
+      .single();
+    if (oerr) throw oerr;
+
     // Stripe session
     const Stripe = (await import("https://esm.sh/stripe@14?target=deno")).default;
     const stripe = new Stripe(STRIPE_SK, { httpClient: Stripe.createFetchHttpClient() });
 
     const currency = listing.sale_currency.toLowerCase();
-    const unit_amount = toStripeAmount(listing.fixed_price, currency);
+    const unit_amount = toStripeAmount(unitPrice, currency);
 
     const success = (success_url || `${SITE}/checkout/success?listing=${listing.id}`).replace(/\/$/, "");
     const cancel = (cancel_url || `${SITE}/art/${listing.artwork_id}?cancelled=1`).replace(/\/$/, "");
@@ -83,7 +123,7 @@ Deno.serve(async (req) => {
       cancel_url: cancel,
       line_items: [
         {
-          quantity,
+          quantity: qty,
           price_data: {
             currency,
             unit_amount,
@@ -96,12 +136,15 @@ Deno.serve(async (req) => {
       ],
       // 👇 critical metadata for webhook
       metadata: {
+        order_id: order.id,
         listing_id: listing.id,
         buyer_id: buyerId,
       },
+      expires_at: Math.floor((new Date(order.created_at).getTime() + CHECKOUT_HOLD_MS) / 1000),
     });
+    await db.from("orders").update({ stripe_session_id: session.id }).eq("id", order.id);
 
-    return j({ url: session.url });
+    return j({ url: session.url, order_id: order.id });
   } catch (e: any) {
     console.error("create-checkout error:", e);
     return j({ error: e?.message || "Server error" }, 500);
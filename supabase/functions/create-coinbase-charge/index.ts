@@ -1,6 +1,7 @@
 // deno-lint-ignore-file no-explicit-any
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createCoinbaseFxSource, createFx, planCharge } from "../_shared/currency.ts";
 const cors = { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type" };
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
@@ -42,16 +43,64 @@ Deno.serve(async (req) => {
       .maybeSingle<any>();
     if (error) throw error;
     if (!listing) return text("Listing not found", 404);
-    if (!listing.fixed_price || !listing.sale_currency) return text("Listing missing price/currency", 400);
+    if (!listing.sale_currency) return text("Listing missing currency", 400);
 
-    // Coinbase Commerce prefers fiat as local_price; it will quote crypto dynamically.
-    // If your sale_currency is crypto, consider converting to USD here (your pricing policy).
-    const localCurrency = ["USD","EUR","GBP"].includes((listing.sale_currency || "").toUpperCase())
-      ? listing.sale_currency.toUpperCase()
-      : "USD";
-    const localAmount = listing.sale_currency.toUpperCase() === localCurrency
-      ? listing.fixed_price
-      : listing.fixed_price; // TODO: convert if you want strict parity
+    // One-of-ones sell singly; editions only what the listing has left (settle_order re-checks)
+    const qty = Math.max(1, Number(quantity) || 1);
+
+    // Price set by the database: fixed, or a Dutch listing's price right now; also opens
+    // a due drop and enforces its allowlist / per-wallet limit
+    const db = createClient(SUPABASE_URL, SERVICE);
+    const { data: price, error: perr } = await db.rpc("listing_checkout_price", {
+      p_listing_id: listing.id,
+      p_buyer_id: buyerId,
+      p_quantity: qty,
+    });
+    if (perr) return text(perr.message, /allowlist|Limit of/i.test(perr.message) ? 403 : 409);
+    const unitPrice = Number(price);
+
+    // Coinbase Commerce prices in USD/EUR/GBP; anything else is converted at a rate locked on the order
+    let charge;
+    try {
+      charge = await planCharge("coinbase_commerce", unitPrice, listing.sale_currency, createFx({ source: createCoinbaseFxSource(), db }));
+    } catch (e: any) {
+      return text(e?.message || "No exchange rate available", 503);
+    }
+
+    const { data: art } = await userClient
+      .from("artworks")
+      .select("edition_type")
+      .eq("id", listing.artwork_id)
+      .maybeSingle();
+    if ((art?.edition_type ?? "unique") === "unique") {
+      if (qty !== 1) return text("One-of-one artworks sell one at a time", 400);
+    } else {
+      const { data: available } = await userClient.rpc("listing_available", { p_listing_id: listing.id });
+      if (available != null && available < qty) return text(available === 0 ? "Sold out" : `Only ${available} left`, 409);
+    }
+
+    // Pending order up front so cc-webhook settles against it (see _shared/coinbase-settlement.ts)
+    const { data: order, error: oerr } = await db
+      .from("orders")
+      .insert({
+        listing_id: listing.id,
+        artwork_id: listing.artwork_id,
+        seller_id: listing.seller_id,
+        buyer_id: buyerId,
+        quantity: qty,
+        unit_price: unitPrice,
+        total_amount: unitPrice * qty,
+        currency: listing.sale_currency,
+        kind: "fixed_price",
+        payment_status: "pending",
+        settlement_kind: "coinbase_commerce",
+        charge_currency: charge.currency,
+        charge_amount: charge.unitPrice * qty,
+        ...charge.fx,
+      })
+      .select("id")
+      .single();
+    if (oerr) throw oerr;
 
     const res = await fetch("https://api.commerce.coinbase.com/charges", {
       method: "POST",
@@ -64,8 +113,8 @@ Deno.serve(async (req) => {
         name: "Artwork",
         description: `Listing ${listing.id}`,
         pricing_type: "fixed_price",
-        local_price: { amount: String(localAmount), currency: localCurrency },
-        metadata: { listing_id: listing.id, artwork_id: listing.artwork_id, buyer_id: buyerId, quantity },
+        local_price: { amount: (charge.unitPrice * qty).toFixed(2), currency: charge.currency },
+        metadata: { order_id: order.id, listing_id: listing.id, artwork_id: listing.artwork_id, buyer_id: buyerId, quantity: qty },
         redirect_url: `${SITE_URL}/checkout/crypto/success?listing=${listing.id}`,
         cancel_url: `${SITE_URL}/art/${listing.artwork_id}?cancelled=1`,
       }),
@@ -73,11 +122,13 @@ Deno.serve(async (req) => {
 
     if (!res.ok) {
       const body = await res.text();
+      await db.from("orders").update({ payment_status: "failed" }).eq("id", order.id);
       return json({ error: body }, 502);
     }
-    const charge = await res.json();
-    const hosted = charge?.data?.hosted_url;
-    return json({ hosted_url: hosted });
+    const created = await res.json();
+    const hosted = created?.data?.hosted_url;
+    await db.from("orders").update({ coinbase_charge_code: created?.data?.code ?? null }).eq("id", order.id);
+    return json({ hosted_url: hosted, order_id: order.id });
   } catch (e: any) {
     return json({ error: e?.message || "Server error" }, 500);
   }
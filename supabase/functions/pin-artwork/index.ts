@@ -63,7 +63,8 @@ Deno.serve(async (req) => {
         id, creator_id, image_url,
         title, description, medium, year_created,
         width, height, depth, dim_unit,
-        edition_type, edition_size, is_nsfw
+        edition_type, edition_size, is_nsfw,
+        royalty_bps
       `)
       .eq("id", artwork_id)
       .maybeSingle();
@@ -127,11 +128,16 @@ Deno.serve(async (req) => {
     }
     if (typeof art.is_nsfw === "boolean") attributes.push({ trait_type: "NSFW", value: art.is_nsfw });
 
+    // ERC-2981 on the token is authoritative; this mirrors it for marketplaces reading metadata
+    const royaltyBps = Number(art.royalty_bps ?? 0);
+    if (royaltyBps > 0) attributes.push({ trait_type: "Royalty", value: `${royaltyBps / 100}%` });
+
     const metadata = {
       name: art.title ?? `Artwork ${art.id}`,
       description: art.description ?? "",
       image: `ipfs://${imageCID}`,
       attributes,
+      seller_fee_basis_points: royaltyBps,
     };
 
     const pinJsonResp = await fetch("https://api.pinata.cloud/pinning/pinJSONToIPFS", {
@@ -11,6 +11,8 @@
  *   chain?: "sepolia" | string,
  *   token_standard?: "erc721" | "erc1155" | string
  * }
+ * Editions (edition_type limited/open) are TaedalEditions ERC-1155 tokens; the
+ * ownership row and the mint event carry the units issued so far.
  */
 
 const corsHeaders: Record<string, string> = {
@@ -76,7 +78,7 @@ Deno.serve(async (req: Request) => {
     // ── Fetch the artwork (v5 columns: creator, owner) ─────────────────────────
     const { data: art, error: artErr } = await userClient
       .from("artworks")
-      .select("id, creator, owner")
+      .select("id, creator, owner, edition_type, editions_issued")
       .eq("id", artwork_id)
       .maybeSingle();
 
@@ -89,6 +91,8 @@ Deno.serve(async (req: Request) => {
     const effectiveOwner = art.owner ?? art.creator ?? callerId;
     const safeTokenId    = token_id == null ? null : String(token_id);
     const chainId        = CHAIN_ID[chain.toLowerCase?.() ?? chain] ?? null;
+    const isEdition      = (art.edition_type ?? "unique") !== "unique";
+    const issued         = isEdition ? Number(art.editions_issued ?? 0) : 1;
 
     // ── Update artwork with on-chain refs (service role) ───────────────────────
     {
@@ -97,7 +101,7 @@ Deno.serve(async (req: Request) => {
         .update({
           contract_address,
           token_id: safeTokenId,
-          token_standard,
+          token_standard: isEdition ? "erc1155" : token_standard,
           chain,
           tx_hash,
           status: "active",
@@ -109,17 +113,18 @@ Deno.serve(async (req: Request) => {
 
     // ── Ensure ownerships row exists so UI can list (quantity ≥ 1) ────────────
     // If your table doesn’t exist in this project, this silently no-ops.
-    try {
+    // Never overwrite an existing row: an edition's units may already have moved.
+    if (issued > 0) try {
       const { error: ownErr } = await serverClient
         .from("ownerships")
         .upsert(
           {
             artwork_id,
             owner_id: effectiveOwner,
-            quantity: 1, // ERC-721 => 1
+            quantity: issued, // ERC-721 => 1
             updated_at: new Date().toISOString(),
           },
-          { onConflict: "artwork_id,owner_id" }
+          { onConflict: "artwork_id,owner_id", ignoreDuplicates: true }
         );
 
       // Ignore “relation does not exist” (e.g. 42P01) to keep function portable
@@ -138,7 +143,7 @@ Deno.serve(async (req: Request) => {
         token_id: safeTokenId,
         contract_address,
         source: "system",
-        quantity: 1,
+        quantity: issued,
       });
     } catch { /* best-effort */ }
 
@@ -0,0 +1,189 @@
+// supabase/functions/sign-contract/index.ts
+// In-app e-signature for license contracts. Each party signs the exact PDF they were
+// shown (by SHA-256); when both have, the executed copy is sealed and hashed here.
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { sealContract, sha256Hex, type SealSignature } from "../_shared/contract-pdf.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...corsHeaders },
+  });
+}
+
+const PNG_PREFIX = "data:image/png;base64,";
+const MAX_SIGNATURE_BYTES = 200_000;
+
+function decodePng(dataUrl: string): Uint8Array | null {
+  if (!dataUrl.startsWith(PNG_PREFIX)) return null;
+  try {
+    const bin = atob(dataUrl.slice(PNG_PREFIX.length));
+    if (bin.length > MAX_SIGNATURE_BYTES) return null;
+    return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function clientIp(req: Request) {
+  const fwd = req.headers.get("x-forwarded-for");
+  return fwd?.split(",")[0].trim() || req.headers.get("cf-connecting-ip") || null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  try {
+    if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+    const { request_id, document_sha256, signature } = await req.json().catch(() => ({}));
+    const name = String(signature?.name ?? "").trim();
+    if (!request_id || !document_sha256) return json(400, { error: "Missing request_id or document_sha256" });
+    if (!name) return json(400, { error: "Sign with your full name" });
+
+    let image: Uint8Array | null = null;
+    if (signature?.image) {
+      image = decodePng(String(signature.image));
+      if (!image) return json(400, { error: "Signature must be a PNG under 200 KB" });
+    }
+
+    const url = Deno.env.get("SUPABASE_URL");
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!url || !anonKey || !serviceKey) return json(500, { error: "Missing Supabase env" });
+
+    const auth = req.headers.get("Authorization");
+    if (!auth) return json(401, { error: "Missing Authorization header" });
+    const userClient = createClient(url, anonKey, { global: { headers: { Authorization: auth } } });
+    const { data: me } = await userClient.auth.getUser();
+    if (!me?.user) return json(401, { error: "Invalid user session" });
+
+    const admin = createClient(url, serviceKey);
+
+    const { data: reqRow, error: reqErr } = await admin
+      .from("license_requests")
+      .select("id, status, owner_id, requester_id, contract_path, contract_sha256, executed_pdf_path")
+      .eq("id", request_id)
+      .single();
+    if (reqErr) return json(404, { error: reqErr.message });
+
+    const role =
+      me.user.id === reqRow.owner_id ? "licensor" : me.user.id === reqRow.requester_id ? "licensee" : null;
+    if (!role) return json(403, { error: "Only the parties can sign this contract" });
+    if (reqRow.status !== "accepted") return json(409, { error: "Terms must be accepted before signing" });
+    if (reqRow.executed_pdf_path) return json(409, { error: "This contract is already executed" });
+    if (!reqRow.contract_path || !reqRow.contract_sha256) return json(409, { error: "Generate the contract PDF first" });
+
+    // Re-hash what is actually stored; the signer must have been shown exactly that file.
+    const dl = await admin.storage.from("contracts").download(reqRow.contract_path);
+    if (dl.error || !dl.data) return json(500, { error: dl.error?.message ?? "Contract file missing" });
+    const contract = new Uint8Array(await dl.data.arrayBuffer());
+    const stored = await sha256Hex(contract);
+    if (stored !== reqRow.contract_sha256) return json(409, { error: "Stored contract does not match its recorded hash" });
+    if (String(document_sha256).toLowerCase() !== stored) {
+      return json(409, { error: "The contract changed since you opened it; reload and review it again" });
+    }
+
+    let imagePath: string | null = null;
+    if (image) {
+      imagePath = `requests/${request_id}/signature-${role}.png`;
+      const up = await admin.storage.from("contracts").upload(imagePath, image, { upsert: true, contentType: "image/png" });
+      if (up.error) return json(500, { error: up.error.message });
+    }
+
+    const { error: sigErr } = await admin.from("license_signatures").insert({
+      request_id,
+      signer_id: me.user.id,
+      role,
+      name: name.slice(0, 200),
+      title: signature?.title ? String(signature.title).trim().slice(0, 200) || null : null,
+      method: image ? "drawn" : "typed",
+      image_path: imagePath,
+      document_sha256: stored,
+      ip: clientIp(req),
+      user_agent: req.headers.get("user-agent")?.slice(0, 500) ?? null,
+    });
+    if (sigErr) {
+      if (sigErr.code === "23505") return json(409, { error: "You have already signed this contract" });
+      return json(500, { error: sigErr.message });
+    }
+
+    const { data: sigs, error: listErr } = await admin
+      .from("license_signatures")
+      .select("*")
+      .eq("request_id", request_id)
+      .order("signed_at", { ascending: true });
+    if (listErr) return json(500, { error: listErr.message });
+
+    const roles = new Set((sigs ?? []).map((s: any) => s.role));
+    if (!roles.has("licensor") || !roles.has("licensee")) {
+      return json(200, { signed: role, executed: false });
+    }
+
+    // Both parties are in: seal the executed copy.
+    const sealed: SealSignature[] = [];
+    for (const s of sigs as any[]) {
+      let png: Uint8Array | null = null;
+      if (s.image_path) {
+        const img = await admin.storage.from("contracts").download(s.image_path);
+        if (img.data) png = new Uint8Array(await img.data.arrayBuffer());
+      }
+      sealed.push({
+        role: s.role,
+        name: s.name,
+        title: s.title,
+        method: s.method,
+        image: png,
+        signerId: s.signer_id,
+        documentSha256: s.document_sha256,
+        ip: s.ip,
+        userAgent: s.user_agent,
+        signedAt: new Date(s.signed_at).toISOString(),
+      });
+    }
+    // licensor first on the signature page
+    sealed.sort((a, b) => (a.role === b.role ? 0 : a.role === "licensor" ? -1 : 1));
+
+    const sealedAt = new Date();
+    const executed = await sealContract(contract, {
+      requestId: request_id,
+      documentSha256: stored,
+      signatures: sealed,
+      sealedAt,
+    });
+    const executedSha = await sha256Hex(executed);
+    const executedPath = `requests/${request_id}/executed.pdf`;
+    const up = await admin.storage.from("contracts").upload(executedPath, executed, {
+      upsert: true,
+      contentType: "application/pdf",
+    });
+    if (up.error) return json(500, { error: up.error.message });
+    const signedUrl = await admin.storage.from("contracts").createSignedUrl(executedPath, 60 * 60 * 24 * 7);
+
+    const { error: updErr } = await admin
+      .from("license_requests")
+      .update({
+        executed_pdf_path: executedPath,
+        executed_pdf_url: signedUrl.data?.signedUrl ?? null,
+        executed_pdf_sha256: executedSha,
+        signed_at: sealedAt.toISOString(),
+        signer_name: sealed.map((s) => s.name).join(" & "),
+        signer_title: sealed.map((s) => s.title).filter(Boolean).join(" & ") || null,
+      })
+      .eq("id", request_id);
+    if (updErr) return json(500, { error: updErr.message });
+
+    return json(200, { signed: role, executed: true, path: executedPath, sha256: executedSha });
+  } catch (err) {
+    console.error(err);
+    return json(500, { error: (err as Error).message ?? "Unknown error" });
+  }
+});
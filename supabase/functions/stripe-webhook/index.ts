@@ -2,12 +2,22 @@
 /// <reference lib="deno.window" />
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { claimEvent, finishEvent, inFlight, loadReplay } from "../_shared/webhook-ledger.ts";
+import { fromStripeAmount } from "../_shared/currency.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE = Deno.env.get("SERVICE_ROLE_KEY")!;
 const STRIPE_SK = Deno.env.get("STRIPE_SECRET_KEY")!;
 const STRIPE_WEBHOOK_SECRET = Deno.env.get("STRIPE_WEBHOOK_SECRET")!;
 
+// A completed session paid by an async method (bank debits) is still "unpaid";
+// its order stays pending until async_payment_succeeded (or _failed).
+const SESSION_EVENTS = new Set([
+  "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
+  "checkout.session.async_payment_failed",
+]);
+
 const res = (body: any, status = 200) =>
   new Response(typeof body === "string" ? body : JSON.stringify(body), {
     status,
@@ -20,96 +30,40 @@ Deno.serve(async (req) => {
 
   const rawBody = await req.text();
   const sig = req.headers.get("stripe-signature") || "";
+  const db = createClient(SUPABASE_URL, SERVICE);
 
   try {
-    const Stripe = (await import("https://esm.sh/stripe@14?target=deno")).default;
-    const stripe = new Stripe(STRIPE_SK, { httpClient: Stripe.createFetchHttpClient() });
-    const event = await stripe.webhooks.constructEventAsync(rawBody, sig, STRIPE_WEBHOOK_SECRET);
+    // Admin replays come with the stored event instead of a fresh signature
+    const replay = await loadReplay(req, db, SERVICE);
+    let event: any;
+    if (replay) {
+      event = replay.payload;
+    } else {
+      const Stripe = (await import("https://esm.sh/stripe@14?target=deno")).default;
+      const stripe = new Stripe(STRIPE_SK, { httpClient: Stripe.createFetchHttpClient() });
+      event = await stripe.webhooks.constructEventAsync(rawBody, sig, STRIPE_WEBHOOK_SECRET);
+    }
 
-    if (event.type === "checkout.session.completed") {
+    if (SESSION_EVENTS.has(event.type)) {
       const session: any = event.data.object;
-      const db = createClient(SUPABASE_URL, SERVICE);
-
-      // Pull what we can from metadata
-      const md = session.metadata || {};
-      let listingId = md.listing_id || null;
-      let artworkId = md.artwork_id || null;
-      let sellerId  = md.seller_id  || null;
-      let buyerId   = md.buyer_id   || null;
-      const quantity = Number(md.quantity || 1);
-
-      // Fallback: if we have listing_id but missing artwork/seller, fetch them
-      if (listingId && (!artworkId || !sellerId)) {
-        const { data: listing, error } = await db
-          .from("listings")
-          .select("artwork_id, seller_id, status")
-          .eq("id", listingId)
-          .maybeSingle();
-        if (error) console.error("lookup listing error", error.message);
-        if (listing) {
-          artworkId = artworkId || listing.artwork_id;
-          sellerId  = sellerId  || listing.seller_id;
-        }
-      }
 
-      // Optional fallback: parse client_reference_id if present (format buyer:listing:artwork:seller)
-      if ((!listingId || !artworkId || !sellerId || !buyerId) && session.client_reference_id) {
-        try {
-          const [b, l, a, s] = String(session.client_reference_id).split(":");
-          buyerId   = buyerId   || b;
-          listingId = listingId || l;
-          artworkId = artworkId || a;
-          sellerId  = sellerId  || s;
-        } catch {}
-      }
+      // One settlement per Stripe event id, however many times it's delivered
+      const claim = await claimEvent(db, {
+        provider: "stripe",
+        eventId: event.id,
+        eventType: event.type,
+        payload: event,
+        handler: "stripe-webhook",
+      });
+      if (inFlight(claim)) return res({ received: true, duplicate: true, status: claim.status }, 409);
+      if (!claim.claimed) return res({ received: true, duplicate: true, status: claim.status });
 
-      if (!listingId || !artworkId || !sellerId || !buyerId) {
-        console.error("stripe-webhook: missing ids", {
-          listingId, artworkId, sellerId, buyerId,
-          meta: session.metadata, client_reference_id: session.client_reference_id,
-        });
-        return res({ error: "Missing metadata" }, 400);
-      }
-
-      const amountTotal: number = session.amount_total; // smallest unit
-      const currency: string = (session.currency || "").toUpperCase();
-      const price = ["JPY", "KRW"].includes(currency) ? amountTotal : amountTotal / 100;
-
-      // 1) End listing (idempotent)
-      await db.from("listings").update({ status: "ended" }).eq("id", listingId).eq("status", "active");
-
-      // 2) Record sale
-      await db.from("sales").insert({
-        artwork_id: artworkId,
-        buyer_id: buyerId,
-        seller_id: sellerId,
-        price,
-        currency,
-        sold_at: new Date().toISOString(),
-        tx_hash: null,
-      }).then(({ error }) => error && console.error("sales insert error", error.message));
-
-      // 3) Transfer ownership
-      await db.from("artworks").update({ owner_id: buyerId }).eq("id", artworkId)
-        .then(({ error }) => error && console.error("artworks update error", error.message));
-
-      // 4) Ownership bookkeeping (+ buyer)
-      await db.from("ownerships").upsert({
-        artwork_id: artworkId,
-        owner_id: buyerId,
-        quantity: quantity > 0 ? quantity : 1,
-        updated_at: new Date().toISOString(),
-      }, { onConflict: "artwork_id,owner_id" })
-        .then(({ error }) => error && console.error("ownerships upsert error", error.message));
-
-      // 5) Optional: decrement seller qty if you support editions
       try {
-        await db.rpc("decrement_ownership_if_exists", { p_artwork_id: artworkId, p_owner_id: sellerId });
+        await finishEvent(db, claim.id, await applySession(db, event.type, session));
       } catch (e) {
-        console.warn("RPC decrement_ownership_if_exists not present or failed", (e as any)?.message ?? e);
+        await finishEvent(db, claim.id, "failed", e);
+        throw e;
       }
-
-      console.log("stripe-webhook ✔ processed", { listingId, artworkId, buyerId, sellerId, price, currency });
       return res({ ok: true });
     }
 
@@ -119,3 +73,153 @@ Deno.serve(async (req) => {
     return res({ error: e?.message || "Webhook error" }, 400);
   }
 });
+
+/**
+ * A paid session (checkout.session.completed with payment_status "paid", or
+ * async_payment_succeeded) settles the order through settle_order (payout
+ * splits, sale row, ownership, provenance), same as every other payment path.
+ * Unique physical works stay with the seller in escrow until delivery.
+ * A sale settle_order refuses (sold out, already sold…) after Stripe took the
+ * money is queued for a support refund and the buyer told.
+ * An unpaid completion only links the session; a failed async payment fails
+ * the order. Runs once per event.
+ */
+async function applySession(db: any, type: string, session: any): Promise<"processed" | "ignored"> {
+  const order = await resolveOrder(db, session);
+
+  if (type === "checkout.session.async_payment_failed") {
+    const { error } = await db
+      .from("orders")
+      .update({ stripe_session_id: session.id, payment_event: type, payment_status: "failed" })
+      .eq("id", order.id)
+      .eq("payment_status", "pending");
+    if (error) throw new Error(`order update: ${error.message}`);
+    return "processed";
+  }
+
+  if (session.payment_status !== "paid" && session.payment_status !== "no_payment_required") {
+    const { error } = await db
+      .from("orders")
+      .update({ stripe_session_id: session.id, payment_event: type })
+      .eq("id", order.id);
+    if (error) throw new Error(`order update: ${error.message}`);
+    return "ignored";
+  }
+
+  const amountTotal: number = session.amount_total; // smallest unit
+  const currency: string = (session.currency || "").toUpperCase();
+  const charged = fromStripeAmount(amountTotal, currency);
+
+  const { error: ue } = await db
+    .from("orders")
+    .update({
+      stripe_session_id: session.id,
+      payment_event: type,
+      charge_currency: currency,
+      charge_amount: charged,
+      // order currency: only known when Stripe charged in it
+      amount_received: currency === String(order.currency || "").toUpperCase() ? charged : null,
+    })
+    .eq("id", order.id);
+  if (ue) throw new Error(`order update: ${ue.message}`);
+
+  const { error } = await db.rpc("settle_order", { p_order_id: order.id, p_chain_id: null, p_tx_hash: null });
+  // P0001: settle_order raised, i.e. refused the sale; retrying won't change that
+  if (error?.code === "P0001") {
+    await queueRefund(db, order, error.message);
+    return "processed";
+  }
+  if (error) throw new Error(`settle_order: ${error.message}`);
+
+  console.log("stripe-webhook ✔ settled", { orderId: order.id, charged, currency });
+  return "processed";
+}
+
+/**
+ * Opens a support refund for a payment that couldn't settle (the API's GET
+ * /admin/refunds lists it; POST /admin/orders/:id/refund returns the money).
+ */
+async function queueRefund(db: any, order: any, reason: string) {
+  console.warn("stripe-webhook ✖ settle_order refused", { orderId: order.id, reason });
+  const { error } = await db.from("refunds").insert({
+    order_id: order.id,
+    initiated_by: "support",
+    status: "requested",
+    reason: `payment couldn't settle: ${reason}`,
+    amount: order.total_amount,
+    currency: order.currency,
+    provider: "stripe",
+  });
+  // uq_refunds_open_per_order: already queued by an earlier delivery
+  if (error && error.code !== "23505") throw new Error(`refund insert: ${error.message}`);
+  if (error) return;
+
+  const amount = `${Number(order.total_amount)} ${order.currency}`;
+  await db.from("notifications").insert({
+    profile_id: order.buyer_id,
+    kind: "sale",
+    payload: {
+      event: "payment_refused", order_id: order.id, artwork_id: order.artwork_id,
+      amount: Number(order.total_amount), currency: order.currency, status: "requested",
+      message: `Your ${amount} payment couldn't complete the purchase (${reason}); support will refund it`,
+    },
+  });
+}
+
+/** The order this session pays for; sessions opened without one get it created here. */
+async function resolveOrder(db: any, session: any) {
+  const md = session.metadata || {};
+
+  if (md.order_id) {
+    const { data } = await db.from("orders").select("*").eq("id", md.order_id).maybeSingle();
+    if (data) return data;
+  }
+  {
+    const { data } = await db.from("orders").select("*").eq("stripe_session_id", session.id).maybeSingle();
+    if (data) return data;
+  }
+
+  let listingId = md.listing_id || null;
+  let buyerId   = md.buyer_id   || null;
+  const quantity = Number(md.quantity || 1) > 0 ? Number(md.quantity || 1) : 1;
+
+  // Optional fallback: parse client_reference_id if present (format buyer:listing:artwork:seller)
+  if ((!listingId || !buyerId) && session.client_reference_id) {
+    const [b, l] = String(session.client_reference_id).split(":");
+    buyerId   = buyerId   || b || null;
+    listingId = listingId || l || null;
+  }
+
+  const { data: listing, error: le } = listingId
+    ? await db.from("listings").select("id, artwork_id, seller_id, fixed_price, sale_currency").eq("id", listingId).maybeSingle()
+    : { data: null, error: null };
+  if (le) console.error("lookup listing error", le.message);
+
+  if (!listing || !buyerId) {
+    console.error("stripe-webhook: missing ids", {
+      listingId, buyerId, meta: session.metadata, client_reference_id: session.client_reference_id,
+    });
+    throw new Error("Missing metadata");
+  }
+
+  const { data: created, error } = await db
+    .from("orders")
+    .insert({
+      listing_id: listing.id,
+      artwork_id: listing.artwork_id,
+      seller_id: listing.seller_id,
+      buyer_id: buyerId,
+      quantity,
+      unit_price: listing.fixed_price,
+      total_amount: Number(listing.fixed_price) * quantity,
+      currency: listing.sale_currency,
+      kind: "fixed_price",
+      payment_status: "pending",
+      settlement_kind: "stripe",
+      stripe_session_id: session.id,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(`order insert: ${error.message}`);
+  return created;
+}
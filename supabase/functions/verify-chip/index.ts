@@ -88,6 +88,16 @@ Deno.serve(async (req) => {
       return json(200, { ok:false, state:"invalid" });
     }
 
+    // 1b) revoked (lost, damaged or replaced) tags never verify
+    if (chip.status === "revoked") {
+      await supabase.from("chip_scan_events").insert({
+        chip_id: chip.id, artwork_id: page_artwork_id ?? null, state: "revoked",
+        ip: req.headers.get("x-forwarded-for") ?? null,
+        ua: req.headers.get("user-agent") ?? null,
+      });
+      return json(200, { ok:false, state:"revoked" });
+    }
+
     // 2) verify
     let verified = false;
     if (chip.secret) verified = await verifyHmac(chip.secret, `${tagId}|${ctr}`, sig);
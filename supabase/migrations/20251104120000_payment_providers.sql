@@ -0,0 +1,10 @@
+-- Provider-agnostic checkout (server/src/lib/payments)
+-- Every provider's session/charge id lands here; stripe_session_id is kept for
+-- existing Stripe orders and support tooling.
+
+alter table public.orders
+  add column if not exists provider_session_id text;
+
+create index if not exists idx_orders_provider_session
+  on public.orders (settlement_kind, provider_session_id)
+  where provider_session_id is not null;
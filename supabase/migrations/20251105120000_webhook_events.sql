@@ -0,0 +1,137 @@
+-- === WEBHOOK EVENT LEDGER ====================================================
+-- One row per (provider, event_id). Every webhook handler claims its event here
+-- before doing any work, so a redelivered event can't insert a second sale or
+-- re-run an ownership transfer.
+--   status: received → processing → processed | ignored | failed
+--   failed events can be re-claimed (provider retry or admin replay).
+--   handler: who processes it — 'api' (Express /webhooks/:provider) or the edge
+--            function name; admin replay routes the event back to that handler.
+
+create table if not exists public.webhook_events (
+  id           uuid primary key default gen_random_uuid(),
+  provider     text not null,                 -- 'stripe','coinbase_commerce','onchain','carrier',...
+  event_id     text not null,                 -- provider's id (or a body hash when it has none)
+  event_type   text,
+  handler      text not null default 'api',
+  status       text not null default 'received'
+               check (status in ('received','processing','processed','ignored','failed')),
+  attempts     integer not null default 0,
+  payload      jsonb not null default '{}'::jsonb,   -- raw body as delivered
+  normalized   jsonb,                                -- handler's parsed form, used for replay
+  last_error   text,
+  received_at  timestamptz not null default now(),
+  updated_at   timestamptz not null default now(),
+  processed_at timestamptz,
+  unique (provider, event_id)
+);
+
+create index if not exists idx_webhook_events_status
+  on public.webhook_events (status, updated_at desc);
+
+-- service role only
+alter table public.webhook_events enable row level security;
+
+-- Claim an event for processing. Returns claimed = false when the event was
+-- already handled, or another worker holds it (processing lease: 5 minutes).
+create or replace function public.claim_webhook_event(
+  p_provider   text,
+  p_event_id   text,
+  p_event_type text,
+  p_payload    jsonb,
+  p_normalized jsonb default null,
+  p_handler    text default 'api'
+)
+returns table (claimed boolean, id uuid, status text, attempts integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.webhook_events%rowtype;
+begin
+  insert into public.webhook_events(provider, event_id, event_type, handler, status, attempts, payload, normalized)
+  values (p_provider, p_event_id, p_event_type, coalesce(p_handler, 'api'), 'processing', 1,
+          coalesce(p_payload, '{}'::jsonb), p_normalized)
+  on conflict (provider, event_id) do nothing
+  returning * into v_row;
+
+  if found then
+    return query select true, v_row.id, v_row.status, v_row.attempts;
+    return;
+  end if;
+
+  select * into v_row
+  from public.webhook_events w
+  where w.provider = p_provider and w.event_id = p_event_id
+  for update;
+
+  if v_row.status in ('processed','ignored')
+     or (v_row.status = 'processing' and v_row.updated_at > now() - interval '5 minutes') then
+    return query select false, v_row.id, v_row.status, v_row.attempts;
+    return;
+  end if;
+
+  update public.webhook_events w
+     set status = 'processing',
+         attempts = w.attempts + 1,
+         normalized = coalesce(p_normalized, w.normalized),
+         updated_at = now()
+   where w.id = v_row.id
+  returning * into v_row;
+
+  return query select true, v_row.id, v_row.status, v_row.attempts;
+end;
+$$;
+
+-- Record the outcome of a claimed event.
+create or replace function public.finish_webhook_event(
+  p_id     uuid,
+  p_status text,
+  p_error  text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_status not in ('processed','ignored','failed') then
+    raise exception 'Invalid webhook status %', p_status;
+  end if;
+
+  update public.webhook_events
+     set status = p_status,
+         last_error = p_error,
+         processed_at = case when p_status = 'failed' then processed_at else now() end,
+         updated_at = now()
+   where id = p_id;
+end;
+$$;
+
+-- Replay: re-open a stored event so the next claim picks it up again.
+-- Handlers are idempotent (an already-paid order is left alone), so processed
+-- events may be replayed too; only an in-flight event is refused.
+create or replace function public.reopen_webhook_event(p_id uuid)
+returns public.webhook_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.webhook_events%rowtype;
+begin
+  update public.webhook_events
+     set status = 'received', updated_at = now()
+   where id = p_id and status <> 'processing'
+  returning * into v_row;
+
+  if not found then
+    raise exception 'Webhook event % is not replayable', p_id;
+  end if;
+  return v_row;
+end;
+$$;
+
+revoke all on function public.claim_webhook_event(text, text, text, jsonb, jsonb, text) from public, anon, authenticated;
+revoke all on function public.finish_webhook_event(uuid, text, text) from public, anon, authenticated;
+revoke all on function public.reopen_webhook_event(uuid) from public, anon, authenticated;
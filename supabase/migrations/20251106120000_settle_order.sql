@@ -0,0 +1,253 @@
+-- === ORDER SETTLEMENT (shared) ================================================
+-- settle_order() is the payout-split + ownership-transfer half of
+-- buy_fixed_price, split out so asynchronous payments (Coinbase Commerce
+-- charges, and later Stripe / ETH) settle a pending order exactly the same way.
+-- Also widens orders.payment_status for the Coinbase charge lifecycle and
+-- records under/overpayment.
+
+-- --- orders: payment lifecycle columns -------------------------------------
+alter table public.orders
+  add column if not exists coinbase_charge_code text,
+  add column if not exists payment_event       text,        -- last provider event applied
+  add column if not exists amount_received     numeric,     -- what actually arrived (order currency)
+  add column if not exists underpaid_amount    numeric,
+  add column if not exists overpaid_amount     numeric,
+  add column if not exists settled_at          timestamptz;
+
+create unique index if not exists uq_orders_coinbase_charge
+  on public.orders (coinbase_charge_code)
+  where coinbase_charge_code is not null;
+
+--   pending     order created, nothing received yet
+--   processing  payment seen, waiting for confirmations (charge:pending)
+--   paid        settled (charge:confirmed / charge:resolved, Stripe, ETH)
+--   underpaid   charge failed short; funds held for manual resolution
+--   delayed     paid after the charge expired (charge:delayed)
+--   expired     charge failed with no payment
+--   failed      provider reported failure
+--   refunded
+alter table public.orders drop constraint if exists orders_payment_status_check;
+alter table public.orders
+  add constraint orders_payment_status_check
+  check (payment_status in ('pending','processing','paid','underpaid','delayed','expired','failed','refunded'));
+
+-- --- settle_order -------------------------------------------------------------
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership (ERC-721 semantics)
+  update public.ownerships
+    set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  update public.artworks
+  set owner_id = v_order.buyer_id
+  where id = v_order.artwork_id;
+
+  -- end listing
+  if v_listing.id is not null then
+    update public.listings
+    set status = 'ended', updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+    v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+  );
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = 'transferred',
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_order(uuid, bigint, text) from public, anon, authenticated;
+
+-- --- buy_fixed_price: validate + create order, then settle_order ---------------
+create or replace function public.buy_fixed_price(
+  p_listing_id uuid,
+  p_quantity integer default 1
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing        public.listings%rowtype;
+  v_buyer_id       uuid := auth.uid();
+  v_total          numeric;
+  v_order          public.orders%rowtype;
+begin
+  if v_buyer_id is null then
+    raise exception 'Unauthorized';
+  end if;
+
+  -- lock listing row
+  select * into v_listing
+  from public.listings
+  where id = p_listing_id
+  for update;
+
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+
+  if v_listing.status <> 'active' then
+    raise exception 'Listing is not active';
+  end if;
+
+  if v_listing.type <> 'fixed_price' then
+    raise exception 'Only fixed_price listings supported in this RPC';
+  end if;
+
+  if coalesce(p_quantity, 1) <= 0 then
+    raise exception 'Quantity must be > 0';
+  end if;
+
+  -- (ERC-721 MVP) only quantity 1
+  if p_quantity <> 1 then
+    raise exception 'Quantity must be 1 for ERC-721 MVP';
+  end if;
+
+  if v_listing.seller_id = v_buyer_id then
+    raise exception 'You cannot buy your own listing';
+  end if;
+
+  v_total := coalesce(v_listing.fixed_price, 0) * p_quantity;
+  if v_total <= 0 then
+    raise exception 'Listing has no price';
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    total_amount, currency, kind, payment_status, delivery_status,
+    chain_id, tx_hash
+  )
+  values (
+    v_listing.id, v_buyer_id, v_listing.seller_id, v_listing.artwork_id, p_quantity,
+    v_total, v_listing.sale_currency, 'fixed_price', 'pending', 'pending',
+    null, null
+  )
+  returning * into v_order;
+
+  -- treat as already paid for MVP
+  return public.settle_order(v_order.id);
+end;
+$$;
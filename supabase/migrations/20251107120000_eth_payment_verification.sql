@@ -0,0 +1,10 @@
+-- === ETH PAYMENT VERIFICATION =================================================
+-- On-chain orders settle only after the API has verified the transaction over
+-- JSON-RPC (server/src/lib/payments/ethVerifier.ts). A transaction pays for one
+-- order only: hashes are stored lowercased and must be unique.
+
+update public.orders set tx_hash = lower(tx_hash) where tx_hash is not null and tx_hash <> lower(tx_hash);
+
+create unique index if not exists uq_orders_tx_hash
+  on public.orders (tx_hash)
+  where tx_hash is not null;
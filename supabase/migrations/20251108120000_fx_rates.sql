@@ -0,0 +1,26 @@
+-- === MULTI-CURRENCY / FX ======================================================
+-- fx_rates caches the latest rate per pair (server/src/lib/currency.ts refreshes
+-- it from the FX source). Orders stay priced in the listing currency
+-- (currency / total_amount, which payout splits use); what the provider actually
+-- charged is recorded separately, with the rate locked in at checkout.
+
+create table if not exists public.fx_rates (
+  base       text not null,                 -- 'ETH'
+  quote      text not null,                 -- 'USD'
+  rate       numeric not null check (rate > 0),   -- units of quote per 1 base
+  source     text not null,
+  fetched_at timestamptz not null default now(),
+  primary key (base, quote)
+);
+
+-- rates are public information; writes go through the service role
+alter table public.fx_rates enable row level security;
+drop policy if exists fx_rates_read on public.fx_rates;
+create policy fx_rates_read on public.fx_rates for select using (true);
+
+alter table public.orders
+  add column if not exists charge_currency text,       -- what the provider charged in
+  add column if not exists charge_amount   numeric,    -- total, major units of charge_currency
+  add column if not exists fx_rate         numeric,    -- charge_currency per 1 order currency
+  add column if not exists fx_source       text,
+  add column if not exists fx_locked_at    timestamptz;
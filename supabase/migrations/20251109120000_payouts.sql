@@ -0,0 +1,317 @@
+-- === PAYOUTS ==================================================================
+-- payout_splits is the earnings ledger: settle_order writes one row per
+-- recipient (seller, creator_royalty, platform_fee, charity) for every paid
+-- order, whichever provider took the money (Stripe, ETH, Coinbase, buy_fixed_price).
+-- Splits are paid out in batches:
+--   pending  batch created, splits reserved, money not moved yet
+--   sent     transfer done (reference = transfer id / tx hash)
+--   failed   transfer failed; its splits are released back to the balance
+-- A recipient's running balance is payout_balances (per currency).
+
+create table if not exists public.payout_batches (
+  id                   uuid primary key default gen_random_uuid(),
+  recipient_profile_id uuid not null references public.profiles(id),
+  currency             text not null,
+  amount               numeric not null check (amount > 0),
+  split_count          integer not null default 0,
+  status               text not null default 'pending'
+                       check (status in ('pending','sent','failed')),
+  method               text,            -- 'stripe_connect','bank','onchain',...
+  reference            text,            -- provider transfer id / tx hash once sent
+  failure_reason       text,
+  created_at           timestamptz not null default now(),
+  updated_at           timestamptz not null default now(),
+  sent_at              timestamptz
+);
+
+create index if not exists idx_payout_batches_recipient
+  on public.payout_batches (recipient_profile_id, created_at desc);
+
+alter table public.payout_batches enable row level security;
+drop policy if exists payout_batches_select_own on public.payout_batches;
+create policy payout_batches_select_own
+  on public.payout_batches for select
+  to authenticated
+  using (recipient_profile_id = auth.uid());
+
+alter table public.payout_splits
+  add column if not exists payout_batch_id uuid references public.payout_batches(id),
+  add column if not exists created_at      timestamptz not null default now();
+
+create index if not exists idx_payout_splits_recipient
+  on public.payout_splits (recipient_profile_id, currency);
+create index if not exists idx_payout_splits_batch
+  on public.payout_splits (payout_batch_id);
+
+-- one split per recipient type per order, however a settlement gets re-run
+create unique index if not exists uq_payout_splits_order_recipient
+  on public.payout_splits (order_id, recipient_type);
+
+-- --- running balance ------------------------------------------------------------
+--   earned      all splits on paid orders
+--   paid_out    in sent batches
+--   in_payout   reserved by a pending batch
+--   available   not in any batch yet (what the next batch would pay)
+create or replace view public.payout_balances as
+select
+  s.recipient_profile_id,
+  s.currency,
+  coalesce(sum(s.amount), 0)                                             as earned,
+  coalesce(sum(s.amount) filter (where b.status = 'sent'), 0)            as paid_out,
+  coalesce(sum(s.amount) filter (where b.status = 'pending'), 0)         as in_payout,
+  coalesce(sum(s.amount) filter (where s.payout_batch_id is null), 0)    as available,
+  max(s.created_at)                                                      as last_earned_at
+from public.payout_splits s
+join public.orders o on o.id = s.order_id and o.payment_status = 'paid'
+left join public.payout_batches b on b.id = s.payout_batch_id
+where s.recipient_profile_id is not null
+group by s.recipient_profile_id, s.currency;
+
+-- read through the API (service role) only
+revoke all on public.payout_balances from public, anon, authenticated;
+
+-- --- batches --------------------------------------------------------------------
+create or replace function public.create_payout_batch(
+  p_recipient uuid,
+  p_currency  text,
+  p_method    text default null
+)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch  public.payout_batches%rowtype;
+  v_amount numeric;
+  v_count  integer;
+begin
+  -- serialize batch creation per recipient
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_recipient::text));
+
+  select coalesce(sum(s.amount), 0), count(*)
+    into v_amount, v_count
+  from public.payout_splits s
+  join public.orders o on o.id = s.order_id and o.payment_status = 'paid'
+  where s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null;
+
+  if v_amount <= 0 then
+    raise exception 'Nothing to pay out';
+  end if;
+
+  insert into public.payout_batches(recipient_profile_id, currency, amount, split_count, method)
+  values (p_recipient, p_currency, v_amount, v_count, p_method)
+  returning * into v_batch;
+
+  update public.payout_splits s
+     set payout_batch_id = v_batch.id
+  from public.orders o
+  where o.id = s.order_id and o.payment_status = 'paid'
+    and s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null;
+
+  return v_batch;
+end;
+$$;
+
+create or replace function public.set_payout_batch_status(
+  p_batch_id  uuid,
+  p_status    text,
+  p_reference text default null,
+  p_reason    text default null
+)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.payout_batches%rowtype;
+begin
+  select * into v_batch from public.payout_batches where id = p_batch_id for update;
+  if not found then
+    raise exception 'Payout batch not found';
+  end if;
+  if v_batch.status <> 'pending' then
+    raise exception 'Payout batch is already %', v_batch.status;
+  end if;
+  if p_status not in ('sent','failed') then
+    raise exception 'Invalid payout status %', p_status;
+  end if;
+
+  if p_status = 'failed' then
+    -- back into the available balance for the next batch
+    update public.payout_splits set payout_batch_id = null where payout_batch_id = v_batch.id;
+  end if;
+
+  update public.payout_batches
+     set status         = p_status,
+         reference      = coalesce(p_reference, reference),
+         failure_reason = case when p_status = 'failed' then p_reason else null end,
+         sent_at        = case when p_status = 'sent' then now() else null end,
+         updated_at     = now()
+   where id = v_batch.id
+  returning * into v_batch;
+
+  return v_batch;
+end;
+$$;
+
+revoke all on function public.create_payout_batch(uuid, text, text) from public, anon, authenticated;
+revoke all on function public.set_payout_batch_status(uuid, text, text, text) from public, anon, authenticated;
+
+-- --- settle_order: also records the sale row ----------------------------------------
+-- Stripe and ETH used to write `sales` by hand and skip splits; now that they
+-- settle through here, the sales row comes from the same place as the splits.
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership (ERC-721 semantics)
+  update public.ownerships
+    set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  update public.artworks
+  set owner_id = v_order.buyer_id
+  where id = v_order.artwork_id;
+
+  -- end listing
+  if v_listing.id is not null then
+    update public.listings
+    set status = 'ended', updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- sales history (price charts, Studio)
+  insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.seller_id, v_total, v_currency, now(), p_tx_hash);
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+    v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+  );
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = 'transferred',
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
@@ -0,0 +1,233 @@
+-- === REFUNDS ==================================================================
+-- Full refunds of settled orders. The API (server/src/lib/refunds.ts) gets the
+-- money back through the provider first (Stripe refund, or a verified on-chain
+-- transfer back to the buyer), then refund_order() unwinds the settlement:
+-- reversing payout splits, handing ownership back to the seller, optionally
+-- re-opening the listing, and recording a 'refund' provenance event.
+--   requested   buyer asked; waits for the seller (or support)
+--   processing  provider refund under way
+--   succeeded   money returned and settlement reversed
+--   failed      provider refund failed (last_error)
+--   rejected    seller declined the request
+
+create table if not exists public.refunds (
+  id                  uuid primary key default gen_random_uuid(),
+  order_id            uuid not null references public.orders(id),
+  initiated_by        text not null check (initiated_by in ('buyer','seller','support')),
+  requested_by        uuid references public.profiles(id),
+  approved_by         uuid references public.profiles(id),
+  status              text not null default 'requested'
+                      check (status in ('requested','processing','succeeded','failed','rejected')),
+  reason              text,
+  amount              numeric not null,
+  currency            text,
+  provider            text,
+  provider_refund_id  text,            -- Stripe refund id / refund tx hash / support reference
+  restore_listing     boolean not null default false,
+  last_error          text,
+  created_at          timestamptz not null default now(),
+  updated_at          timestamptz not null default now(),
+  completed_at        timestamptz
+);
+
+-- at most one live refund per order
+create unique index if not exists uq_refunds_open_per_order
+  on public.refunds (order_id)
+  where status in ('requested','processing','succeeded');
+
+-- a refund transfer refunds one order
+create unique index if not exists uq_refunds_provider_ref
+  on public.refunds (provider_refund_id)
+  where provider_refund_id is not null;
+
+alter table public.refunds enable row level security;
+drop policy if exists refunds_select_involved on public.refunds;
+create policy refunds_select_involved
+  on public.refunds for select
+  to authenticated
+  using (exists (
+    select 1 from public.orders o
+    where o.id = refunds.order_id and (o.buyer_id = auth.uid() or o.seller_id = auth.uid())
+  ));
+
+alter table public.orders
+  add column if not exists refunded_at timestamptz;
+
+-- --- payout_splits: reversals ------------------------------------------------------
+-- A refund adds a negative copy of each split (reversal_of = original). Splits
+-- already paid out stay paid; the negative row comes off the next payout.
+alter table public.payout_splits
+  add column if not exists reversal_of uuid references public.payout_splits(id);
+
+drop index if exists public.uq_payout_splits_order_recipient;
+create unique index if not exists uq_payout_splits_order_recipient
+  on public.payout_splits (order_id, recipient_type)
+  where reversal_of is null;
+create unique index if not exists uq_payout_splits_reversal
+  on public.payout_splits (reversal_of)
+  where reversal_of is not null;
+
+-- refunded orders keep counting: their splits and reversals net out
+create or replace view public.payout_balances as
+select
+  s.recipient_profile_id,
+  s.currency,
+  coalesce(sum(s.amount), 0)                                             as earned,
+  coalesce(sum(s.amount) filter (where b.status = 'sent'), 0)            as paid_out,
+  coalesce(sum(s.amount) filter (where b.status = 'pending'), 0)         as in_payout,
+  coalesce(sum(s.amount) filter (where s.payout_batch_id is null), 0)    as available,
+  max(s.created_at)                                                      as last_earned_at
+from public.payout_splits s
+join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+left join public.payout_batches b on b.id = s.payout_batch_id
+where s.recipient_profile_id is not null
+group by s.recipient_profile_id, s.currency;
+
+revoke all on public.payout_balances from public, anon, authenticated;
+
+-- same, for what a batch picks up
+create or replace function public.create_payout_batch(
+  p_recipient uuid,
+  p_currency  text,
+  p_method    text default null
+)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch  public.payout_batches%rowtype;
+  v_amount numeric;
+  v_count  integer;
+begin
+  -- serialize batch creation per recipient
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_recipient::text));
+
+  select coalesce(sum(s.amount), 0), count(*)
+    into v_amount, v_count
+  from public.payout_splits s
+  join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+  where s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null;
+
+  if v_amount <= 0 then
+    raise exception 'Nothing to pay out';
+  end if;
+
+  insert into public.payout_batches(recipient_profile_id, currency, amount, split_count, method)
+  values (p_recipient, p_currency, v_amount, v_count, p_method)
+  returning * into v_batch;
+
+  update public.payout_splits s
+     set payout_batch_id = v_batch.id
+  from public.orders o
+  where o.id = s.order_id and o.payment_status in ('paid','refunded')
+    and s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null;
+
+  return v_batch;
+end;
+$$;
+
+-- --- refund_order -------------------------------------------------------------------
+-- Called once the provider refund went through. Idempotent per refund.
+create or replace function public.refund_order(p_refund_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund public.refunds%rowtype;
+  v_order  public.orders%rowtype;
+  v_held   integer;
+begin
+  select * into v_refund from public.refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund not found';
+  end if;
+
+  select * into v_order from public.orders where id = v_refund.order_id for update;
+
+  if v_refund.status = 'succeeded' then
+    return v_order;
+  end if;
+  if v_refund.status <> 'processing' then
+    raise exception 'Refund is %', v_refund.status;
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  -- the buyer must still hold what they bought
+  select quantity into v_held
+  from public.ownerships
+  where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id
+  for update;
+  if coalesce(v_held, 0) < v_order.quantity then
+    raise exception 'Buyer no longer holds this artwork';
+  end if;
+
+  -- reverse payout splits
+  insert into public.payout_splits(
+    order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency, reversal_of
+  )
+  select s.order_id, s.recipient_type, s.recipient_profile_id, s.recipient_wallet_address, -s.amount, s.currency, s.id
+  from public.payout_splits s
+  where s.order_id = v_order.id and s.reversal_of is null
+  on conflict (reversal_of) where reversal_of is not null do nothing;
+
+  -- ownership back to the seller
+  update public.ownerships
+    set quantity = quantity - v_order.quantity, updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id and quantity <= 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.seller_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  update public.artworks
+  set owner_id = v_order.seller_id
+  where id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+  if v_refund.restore_listing and v_order.listing_id is not null then
+    update public.listings
+    set status = 'active', updated_at = now()
+    where id = v_order.listing_id and status = 'ended';
+  end if;
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.buyer_id, v_order.seller_id, 'refund',
+    v_order.quantity, v_refund.amount, v_refund.currency, 'system',
+    case when v_refund.provider_refund_id like '0x%' then v_order.chain_id end,
+    case when v_refund.provider_refund_id like '0x%' then v_refund.provider_refund_id end
+  );
+
+  update public.refunds
+  set status = 'succeeded', completed_at = now(), updated_at = now(), last_error = null
+  where id = v_refund.id;
+
+  update public.orders
+  set payment_status = 'refunded',
+      refunded_at    = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.refund_order(uuid) from public, anon, authenticated;
@@ -0,0 +1,18 @@
+-- === ROYALTY CAP ==============================================================
+-- TaedalNFT writes artworks.royalty_bps on-chain (ERC-2981) at mint and refuses
+-- anything above MAX_ROYALTY_BPS (1000 = 10%). Keep the off-chain value inside
+-- the same range so an artwork can always be minted with what it was created
+-- with. NOT VALID: rows created under the old 9500 ceiling are left alone (they
+-- must be edited before minting) but every new write is checked.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'artworks_royalty_bps_cap' and conrelid = 'public.artworks'::regclass
+  ) then
+    alter table public.artworks
+      add constraint artworks_royalty_bps_cap
+      check (royalty_bps is null or (royalty_bps >= 0 and royalty_bps <= 1000)) not valid;
+  end if;
+end $$;
@@ -0,0 +1,60 @@
+-- === LAZY MINTING: EIP-712 MINT VOUCHERS ======================================
+-- A creator publishes without paying gas by signing a MintVoucher (tokenURI,
+-- price, royalty, nonce). The API (server/src/lib/vouchers.ts) verifies and
+-- stores it; an on-chain checkout of the still-unminted artwork then calls
+-- TaedalNFT.redeem(), which mints to the buyer and pays the creator in one tx.
+--   active     offered at checkout
+--   redeemed   minted; token_id / redeemed_tx_hash recorded
+--   cancelled  withdrawn or superseded (the creator may also cancel the nonce on-chain)
+
+create table if not exists public.mint_vouchers (
+  id                uuid primary key default gen_random_uuid(),
+  artwork_id        uuid not null references public.artworks(id) on delete cascade,
+  listing_id        uuid references public.listings(id) on delete set null,
+  creator_id        uuid not null references public.profiles(id),
+  creator_wallet    text not null,               -- lowercased signer
+  contract_address  text not null,               -- lowercased EIP-712 verifyingContract
+  chain_id          integer not null,
+  token_uri         text not null,
+  price             numeric not null,            -- ETH, as listed
+  price_wei         numeric(78,0) not null,      -- as signed
+  currency          text not null default 'ETH',
+  royalty_bps       integer not null check (royalty_bps between 0 and 1000),
+  nonce             numeric(78,0) not null,
+  signature         text not null,
+  status            text not null default 'active'
+                    check (status in ('active','redeemed','cancelled')),
+  order_id          uuid references public.orders(id),
+  token_id          text,
+  redeemed_by       text,                        -- buyer wallet
+  redeemed_tx_hash  text,
+  created_at        timestamptz not null default now(),
+  redeemed_at       timestamptz,
+  cancelled_at      timestamptz
+);
+
+-- a nonce is spent once per creator and contract, like on-chain
+create unique index if not exists uq_mint_vouchers_nonce
+  on public.mint_vouchers (contract_address, creator_wallet, nonce);
+
+-- one redeemable voucher per artwork
+create unique index if not exists uq_mint_vouchers_active_artwork
+  on public.mint_vouchers (artwork_id)
+  where status = 'active';
+
+create unique index if not exists uq_mint_vouchers_redeemed_tx
+  on public.mint_vouchers (redeemed_tx_hash)
+  where redeemed_tx_hash is not null;
+
+-- signatures are handed out only through checkout, so clients never read this
+-- table directly; creators see their own vouchers
+alter table public.mint_vouchers enable row level security;
+drop policy if exists mint_vouchers_select_own on public.mint_vouchers;
+create policy mint_vouchers_select_own
+  on public.mint_vouchers for select
+  to authenticated
+  using (creator_id = auth.uid());
+
+-- the order that redeems a voucher (its payment tx is the redeem call)
+alter table public.orders
+  add column if not exists voucher_id uuid references public.mint_vouchers(id);
@@ -0,0 +1,70 @@
+-- === COLLECTION CONTRACTS =====================================================
+-- Studio → Deploy Contract deploys a TaedalNFT per collection through
+-- TaedalCollectionFactory from the creator's wallet. The API
+-- (server/src/lib/collections.ts) checks the deploy tx on-chain and records
+-- the result here; mints of artworks in the collection then target its contract.
+--   pending    tx broadcast, not yet confirmed
+--   deployed   CollectionDeployed seen from the factory; contract_address set
+--   failed     tx reverted or didn't deploy this collection (deploy_error)
+
+alter table public.collections
+  add column if not exists symbol           text,
+  add column if not exists chain_id         integer,
+  add column if not exists contract_address text,      -- lowercased
+  add column if not exists owner_wallet     text,      -- lowercased; Ownable owner of the contract
+  add column if not exists deploy_tx_hash   text,      -- lowercased
+  add column if not exists deploy_status    text
+    check (deploy_status in ('pending','deployed','failed')),
+  add column if not exists deploy_error     text,
+  add column if not exists deployed_at      timestamptz;
+
+create unique index if not exists uq_collections_contract_address
+  on public.collections (contract_address)
+  where contract_address is not null;
+
+create unique index if not exists uq_collections_deploy_tx_hash
+  on public.collections (deploy_tx_hash)
+  where deploy_tx_hash is not null;
+
+-- Owners keep editing name/description/images directly, but the contract
+-- fields are only ever written by the API after on-chain verification.
+create or replace function public.collections_guard_contract()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.chain_id is not null or new.contract_address is not null or new.owner_wallet is not null
+       or new.deploy_tx_hash is not null or new.deploy_status is not null or new.deployed_at is not null then
+      raise exception 'collection contract fields are set by the API';
+    end if;
+    return new;
+  end if;
+
+  if new.chain_id is distinct from old.chain_id
+     or new.contract_address is distinct from old.contract_address
+     or new.owner_wallet is distinct from old.owner_wallet
+     or new.deploy_tx_hash is distinct from old.deploy_tx_hash
+     or new.deploy_status is distinct from old.deploy_status
+     or new.deploy_error is distinct from old.deploy_error
+     or new.deployed_at is distinct from old.deployed_at then
+    raise exception 'collection contract fields are set by the API';
+  end if;
+  -- name and symbol are baked into the contract once it exists
+  if old.deploy_status in ('pending','deployed')
+     and (new.name is distinct from old.name or new.symbol is distinct from old.symbol) then
+    raise exception 'name and symbol can''t change once the contract is deployed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_collections_guard_contract on public.collections;
+create trigger trg_collections_guard_contract
+  before insert or update on public.collections
+  for each row execute function public.collections_guard_contract();
@@ -0,0 +1,113 @@
+-- === IMAGE SIGNATURES: NEAR-DUPLICATE SEARCH ==================================
+-- The API (server/src/lib/similarity.ts) fingerprints every artwork image (the
+-- cover and each artwork_files image) so the create wizard can flag re-saves,
+-- resizes and light crops of existing work, not just byte-identical files.
+--   phash       64-bit DCT perceptual hash
+--   dhash       64-bit gradient (difference) hash
+--   color_hist  64-bin RGB histogram (4 levels per channel), sums to 1
+--   hash_bands  both hashes cut into 8-bit bands, tagged with their position:
+--               (band_no << 8) | byte, band_no 0–7 pHash, 8–15 dHash
+-- Any hash within Hamming distance 7 of a query shares at least one band
+-- exactly (pigeonhole over 8 bands), so the GIN index on hash_bands finds every
+-- such candidate; similar_images() then ranks them by exact distance.
+-- Images that couldn't be fetched or decoded keep a row with `error` set (and
+-- no hashes) so the backfill moves past them; re-indexing the artwork retries.
+
+create table if not exists public.image_signatures (
+  id               uuid primary key default gen_random_uuid(),
+  artwork_id       uuid not null references public.artworks(id) on delete cascade,
+  artwork_file_id  uuid references public.artwork_files(id) on delete cascade,  -- null: the cover image
+  image_url        text not null,
+  phash            bigint,
+  dhash            bigint,
+  hash_bands       integer[] not null default '{}',
+  color_hist       real[],
+  width            integer,
+  height           integer,
+  error            text,
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now()
+);
+
+create unique index if not exists uq_image_signatures_cover
+  on public.image_signatures (artwork_id)
+  where artwork_file_id is null;
+
+create unique index if not exists uq_image_signatures_file
+  on public.image_signatures (artwork_file_id)
+  where artwork_file_id is not null;
+
+create index if not exists idx_image_signatures_bands
+  on public.image_signatures using gin (hash_bands);
+
+-- written and read by the API only
+alter table public.image_signatures enable row level security;
+
+-- Candidates sharing a hash band with the query, nearest first. Distances are
+-- Hamming distances over the 64-bit hashes; the API adds the colour distance.
+create or replace function public.similar_images(
+  p_phash         bigint,
+  p_dhash         bigint,
+  p_bands         integer[],
+  p_max_distance  integer default 10,
+  p_limit         integer default 50
+)
+returns table (
+  signature_id     uuid,
+  artwork_id       uuid,
+  artwork_file_id  uuid,
+  image_url        text,
+  color_hist       real[],
+  phash_distance   integer,
+  dhash_distance   integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from (
+    select s.id, s.artwork_id, s.artwork_file_id, s.image_url, s.color_hist,
+           bit_count((s.phash # p_phash)::bit(64))::integer as phash_distance,
+           bit_count((s.dhash # p_dhash)::bit(64))::integer as dhash_distance
+    from public.image_signatures s
+    where s.hash_bands && p_bands
+      and s.error is null
+  ) c
+  where least(c.phash_distance, c.dhash_distance) <= p_max_distance
+  order by c.phash_distance + c.dhash_distance, c.phash_distance
+  limit p_limit;
+$$;
+
+-- Backfill queue: artwork images that have no signature yet (cover first).
+create or replace function public.images_missing_signature(p_limit integer default 50)
+returns table (artwork_id uuid, artwork_file_id uuid, image_url text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select q.artwork_id, q.artwork_file_id, q.image_url
+  from (
+    select a.id as artwork_id, null::uuid as artwork_file_id, a.image_url, a.created_at, 0 as pos
+    from public.artworks a
+    where a.image_url is not null
+      and not exists (
+        select 1 from public.image_signatures s
+        where s.artwork_id = a.id and s.artwork_file_id is null
+      )
+    union all
+    select f.artwork_id, f.id, f.url, a.created_at, coalesce(f.position, 1)
+    from public.artwork_files f
+    join public.artworks a on a.id = f.artwork_id
+    where f.url is not null
+      and coalesce(f.kind, 'image') = 'image'
+      and not exists (select 1 from public.image_signatures s where s.artwork_file_id = f.id)
+  ) q
+  order by q.created_at, q.artwork_id, q.pos
+  limit p_limit;
+$$;
+
+revoke all on function public.similar_images(bigint, bigint, integer[], integer, integer) from public, anon, authenticated;
+revoke all on function public.images_missing_signature(integer) from public, anon, authenticated;
@@ -0,0 +1,562 @@
+-- === EDITIONS (ERC-1155) =======================================================
+-- Artworks can be one-of-ones (ERC-721, TaedalNFT) or editions (ERC-1155,
+-- TaedalEditions):
+--   unique   one token; a sale moves it and artworks.owner_id
+--   limited  edition_size units, all issued to the creator on creation; sales
+--            move units between ownerships
+--   open     no cap; the creator's own (primary) sales issue new units,
+--            resales move held units like a limited edition
+-- A listing offers `quantity` units (null = as many as the seller can issue,
+-- i.e. an open edition's primary listing); `quantity_sold` counts settled
+-- sales and the listing ends as sold out when they meet. Pending checkouts
+-- hold their units for 30 minutes (listing_available) so a paid order isn't
+-- refused at settlement for a unit someone else just bought. The mint's
+-- provenance event (record-mint) carries the issued quantity.
+
+-- --- artworks -------------------------------------------------------------------
+alter table public.artworks
+  add column if not exists editions_issued integer not null default 1;  -- units in existence
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'artworks_edition_check') then
+    alter table public.artworks
+      add constraint artworks_edition_check
+      check (
+        coalesce(edition_type, 'unique') in ('unique','limited','open')
+        and (coalesce(edition_type, 'unique') <> 'limited' or coalesce(edition_size, 0) > 0)
+      ) not valid;
+  end if;
+end $$;
+
+-- issued supply follows the edition type; limited runs start out with the creator
+create or replace function public.artworks_init_edition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.editions_issued := case coalesce(new.edition_type, 'unique')
+    when 'limited' then new.edition_size
+    when 'open' then 0
+    else 1
+  end;
+  if coalesce(new.edition_type, 'unique') <> 'limited' then
+    new.edition_size := null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.artworks_issue_edition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.edition_type = 'limited' then
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (new.id, coalesce(new.owner_id, new.creator_id), new.edition_size)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = excluded.quantity, updated_at = now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_artworks_init_edition on public.artworks;
+create trigger trg_artworks_init_edition
+  before insert on public.artworks
+  for each row execute function public.artworks_init_edition();
+
+drop trigger if exists trg_artworks_issue_edition on public.artworks;
+create trigger trg_artworks_issue_edition
+  after insert on public.artworks
+  for each row execute function public.artworks_issue_edition();
+
+-- --- listings -------------------------------------------------------------------
+alter table public.listings
+  add column if not exists quantity_sold integer not null default 0,
+  add column if not exists sold_out_at   timestamptz;
+
+-- Units a buyer can still check out right now: offered − sold − held by
+-- pending checkouts. Null when the listing has no cap (open edition, primary).
+create or replace function public.listing_available(p_listing_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when l.status <> 'active' then 0
+    when l.quantity is null then null
+    else greatest(
+      l.quantity - l.quantity_sold - coalesce((
+        select sum(o.quantity)::integer
+        from public.orders o
+        where o.listing_id = l.id
+          and o.payment_status in ('pending','processing')
+          and o.created_at > now() - interval '30 minutes'
+      ), 0),
+      0
+    )
+  end
+  from public.listings l
+  where l.id = p_listing_id;
+$$;
+
+grant execute on function public.listing_available(uuid) to anon, authenticated;
+
+-- Seller sets how many units an edition listing offers (null: open edition,
+-- creator only). Can't offer more than they hold, or fewer than already sold.
+create or replace function public.set_listing_quantity(p_listing_id uuid, p_quantity integer)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.listings%rowtype;
+  v_artwork public.artworks%rowtype;
+  v_held    integer;
+begin
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.seller_id is distinct from auth.uid() then
+    raise exception 'Not your listing';
+  end if;
+
+  select * into v_artwork from public.artworks where id = v_listing.artwork_id;
+  if coalesce(v_artwork.edition_type, 'unique') = 'unique' then
+    raise exception 'One-of-one artworks are listed one at a time';
+  end if;
+
+  if p_quantity is null then
+    if v_artwork.edition_type <> 'open' or v_listing.seller_id <> v_artwork.creator_id then
+      raise exception 'Only the creator of an open edition can list without a quantity';
+    end if;
+  else
+    if p_quantity < greatest(v_listing.quantity_sold, 1) then
+      raise exception 'Quantity must be at least %', greatest(v_listing.quantity_sold, 1);
+    end if;
+    if not (v_artwork.edition_type = 'open' and v_listing.seller_id = v_artwork.creator_id) then
+      select quantity into v_held
+      from public.ownerships
+      where artwork_id = v_listing.artwork_id and owner_id = v_listing.seller_id;
+      if p_quantity - v_listing.quantity_sold > coalesce(v_held, 0) then
+        raise exception 'You hold % of this edition', coalesce(v_held, 0);
+      end if;
+    end if;
+  end if;
+
+  update public.listings
+  set quantity = p_quantity, updated_at = now()
+  where id = p_listing_id
+  returning * into v_listing;
+  return v_listing;
+end;
+$$;
+
+revoke all on function public.set_listing_quantity(uuid, integer) from public, anon;
+grant execute on function public.set_listing_quantity(uuid, integer) to authenticated;
+
+-- --- settle_order: edition-aware ownership and supply ------------------------------
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_edition        text;
+  v_held           integer;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id
+  for update;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+
+  -- supply: a paid order can only be refused here if its checkout hold lapsed
+  if v_edition <> 'unique' and v_listing.id is not null and v_listing.quantity is not null
+     and v_listing.quantity_sold + v_order.quantity > v_listing.quantity then
+    raise exception 'Sold out: % of % left', greatest(v_listing.quantity - v_listing.quantity_sold, 0), v_order.quantity;
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership
+  if v_edition = 'open' and v_order.seller_id = v_artwork.creator_id then
+    -- primary sale of an open edition issues new units
+    update public.artworks
+    set editions_issued = editions_issued + v_order.quantity
+    where id = v_artwork.id;
+  elsif v_edition <> 'unique' then
+    select quantity into v_held
+    from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id
+    for update;
+    if coalesce(v_held, 0) < v_order.quantity then
+      raise exception 'Seller holds % of this edition, order is for %', coalesce(v_held, 0), v_order.quantity;
+    end if;
+
+    update public.ownerships
+      set quantity = quantity - v_order.quantity, updated_at = now()
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+    delete from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+  else
+    -- ERC-721 semantics
+    update public.ownerships
+      set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+    delete from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+    update public.artworks
+    set owner_id = v_order.buyer_id
+    where id = v_order.artwork_id;
+  end if;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  -- listing: a one-of-one ends on sale; an edition listing when it sells out
+  if v_listing.id is not null then
+    update public.listings
+    set quantity_sold = quantity_sold + v_order.quantity,
+        status = case
+          when v_edition = 'unique' then 'ended'
+          when quantity is not null and quantity_sold + v_order.quantity >= quantity then 'ended'
+          else status
+        end,
+        sold_out_at = case
+          when v_edition <> 'unique' and quantity is not null and quantity_sold + v_order.quantity >= quantity then now()
+          else sold_out_at
+        end,
+        updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- sales history (price charts, Studio)
+  insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.seller_id, v_total, v_currency, now(), p_tx_hash);
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+    v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+  );
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = 'transferred',
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_order(uuid, bigint, text) from public, anon, authenticated;
+
+-- --- buy_fixed_price: multi-quantity for editions ---------------------------------
+create or replace function public.buy_fixed_price(
+  p_listing_id uuid,
+  p_quantity integer default 1
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing        public.listings%rowtype;
+  v_edition        text;
+  v_available      integer;
+  v_buyer_id       uuid := auth.uid();
+  v_total          numeric;
+  v_order          public.orders%rowtype;
+begin
+  if v_buyer_id is null then
+    raise exception 'Unauthorized';
+  end if;
+
+  -- lock listing row
+  select * into v_listing
+  from public.listings
+  where id = p_listing_id
+  for update;
+
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+
+  if v_listing.status <> 'active' then
+    raise exception 'Listing is not active';
+  end if;
+
+  if v_listing.type <> 'fixed_price' then
+    raise exception 'Only fixed_price listings supported in this RPC';
+  end if;
+
+  if coalesce(p_quantity, 1) <= 0 then
+    raise exception 'Quantity must be > 0';
+  end if;
+
+  select coalesce(edition_type, 'unique') into v_edition
+  from public.artworks
+  where id = v_listing.artwork_id;
+
+  if v_edition = 'unique' and p_quantity <> 1 then
+    raise exception 'One-of-one artworks sell one at a time';
+  end if;
+
+  v_available := public.listing_available(v_listing.id);
+  if v_available is not null and v_available < p_quantity then
+    if v_available = 0 then
+      raise exception 'Sold out';
+    end if;
+    raise exception 'Only % left', v_available;
+  end if;
+
+  if v_listing.seller_id = v_buyer_id then
+    raise exception 'You cannot buy your own listing';
+  end if;
+
+  v_total := coalesce(v_listing.fixed_price, 0) * p_quantity;
+  if v_total <= 0 then
+    raise exception 'Listing has no price';
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    chain_id, tx_hash
+  )
+  values (
+    v_listing.id, v_buyer_id, v_listing.seller_id, v_listing.artwork_id, p_quantity,
+    v_listing.fixed_price, v_total, v_listing.sale_currency, 'fixed_price', 'pending', 'pending',
+    null, null
+  )
+  returning * into v_order;
+
+  -- treat as already paid for MVP
+  return public.settle_order(v_order.id);
+end;
+$$;
+
+-- --- refund_order: give edition units back to the listing -------------------------
+create or replace function public.refund_order(p_refund_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund  public.refunds%rowtype;
+  v_order   public.orders%rowtype;
+  v_edition text;
+  v_held    integer;
+begin
+  select * into v_refund from public.refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund not found';
+  end if;
+
+  select * into v_order from public.orders where id = v_refund.order_id for update;
+
+  if v_refund.status = 'succeeded' then
+    return v_order;
+  end if;
+  if v_refund.status <> 'processing' then
+    raise exception 'Refund is %', v_refund.status;
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  select coalesce(edition_type, 'unique') into v_edition
+  from public.artworks
+  where id = v_order.artwork_id;
+
+  -- the buyer must still hold what they bought
+  select quantity into v_held
+  from public.ownerships
+  where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id
+  for update;
+  if coalesce(v_held, 0) < v_order.quantity then
+    raise exception 'Buyer no longer holds this artwork';
+  end if;
+
+  -- reverse payout splits
+  insert into public.payout_splits(
+    order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency, reversal_of
+  )
+  select s.order_id, s.recipient_type, s.recipient_profile_id, s.recipient_wallet_address, -s.amount, s.currency, s.id
+  from public.payout_splits s
+  where s.order_id = v_order.id and s.reversal_of is null
+  on conflict (reversal_of) where reversal_of is not null do nothing;
+
+  -- ownership back to the seller (an open edition's issued units stay issued)
+  update public.ownerships
+    set quantity = quantity - v_order.quantity, updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id and quantity <= 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.seller_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  if v_edition = 'unique' then
+    update public.artworks
+    set owner_id = v_order.seller_id
+    where id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+    if v_refund.restore_listing and v_order.listing_id is not null then
+      update public.listings
+      set status = 'active', quantity_sold = greatest(quantity_sold - v_order.quantity, 0), updated_at = now()
+      where id = v_order.listing_id and status = 'ended';
+    end if;
+  elsif v_order.listing_id is not null then
+    -- the units are offered again on a live listing, or on a sold-out one when restoring
+    update public.listings
+    set quantity_sold = greatest(quantity_sold - v_order.quantity, 0),
+        status        = 'active',
+        sold_out_at   = null,
+        updated_at    = now()
+    where id = v_order.listing_id
+      and (status = 'active' or (status = 'ended' and sold_out_at is not null and v_refund.restore_listing));
+  end if;
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.buyer_id, v_order.seller_id, 'refund',
+    v_order.quantity, v_refund.amount, v_refund.currency, 'system',
+    case when v_refund.provider_refund_id like '0x%' then v_order.chain_id end,
+    case when v_refund.provider_refund_id like '0x%' then v_refund.provider_refund_id end
+  );
+
+  update public.refunds
+  set status = 'succeeded', completed_at = now(), updated_at = now(), last_error = null
+  where id = v_refund.id;
+
+  update public.orders
+  set payment_status = 'refunded',
+      refunded_at    = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.refund_order(uuid) from public, anon, authenticated;
@@ -0,0 +1,176 @@
+-- === OFFERS ===================================================================
+-- Offers on artworks, listed or not. The API (server/src/lib/offers.ts) makes,
+-- counters, withdraws, declines and accepts them; accepting creates an order
+-- that settles through settle_order() like any checkout.
+--   awaiting_funds  made with a Stripe pre-authorization the buyer hasn't completed
+--   open            live until expires_at; the recipient can accept, counter or decline
+--   countered       superseded by a counter (a new row, parent_offer_id → this one)
+--   accepted        order_id created; settles when paid / captured / transferred
+--   declined        recipient said no (or the artwork sold to someone else)
+--   withdrawn       the maker took it back
+--   expired         expires_at passed while open
+--   failed          the hold or payment didn't go through (last_error)
+-- Funding, chosen by the buyer:
+--   none            buyer pays through checkout once accepted
+--   stripe_preauth  Stripe Checkout with manual capture; captured on accept
+--   weth_allowance  buyer approved the seller's wallet to pull `amount` WETH;
+--                   the seller pulls it on accept and the transfer is verified
+-- Amounts are per unit; quantity > 1 only for editions.
+
+create table if not exists public.offers (
+  id               uuid primary key default gen_random_uuid(),
+  artwork_id       uuid not null references public.artworks(id) on delete cascade,
+  listing_id       uuid references public.listings(id) on delete set null,
+  buyer_id         uuid not null references public.profiles(id),
+  seller_id        uuid not null references public.profiles(id),
+  made_by          text not null default 'buyer' check (made_by in ('buyer','seller')),
+  parent_offer_id  uuid references public.offers(id) on delete set null,
+  quantity         integer not null default 1 check (quantity > 0),
+  amount           numeric not null check (amount > 0),
+  currency         text not null,
+  message          text,
+  status           text not null default 'open'
+                   check (status in ('awaiting_funds','open','countered','accepted','declined','withdrawn','expired','failed')),
+  expires_at       timestamptz not null,
+  funding          text not null default 'none' check (funding in ('none','stripe_preauth','weth_allowance')),
+  hold_session_id  text,            -- stripe_preauth: Checkout session holding the funds
+  buyer_wallet     text,            -- weth_allowance: wallet holding the WETH
+  weth_spender     text,            -- weth_allowance: wallet allowed to pull it (the seller's)
+  order_id         uuid references public.orders(id) on delete set null,
+  last_error       text,
+  responded_at     timestamptz,
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now()
+);
+
+create index if not exists idx_offers_artwork_status on public.offers (artwork_id, status, amount desc);
+create index if not exists idx_offers_buyer on public.offers (buyer_id, created_at desc);
+create index if not exists idx_offers_seller on public.offers (seller_id, created_at desc);
+create index if not exists idx_offers_expiry on public.offers (expires_at) where status in ('awaiting_funds','open');
+
+-- one live offer per buyer per artwork (counters are separate rows)
+create unique index if not exists uq_offers_live_per_buyer
+  on public.offers (artwork_id, buyer_id)
+  where made_by = 'buyer' and status in ('awaiting_funds','open');
+
+create unique index if not exists uq_offers_hold_session
+  on public.offers (hold_session_id)
+  where hold_session_id is not null;
+
+-- Open offers are public (top offer on the artwork page); the parties see their own.
+-- Writes go through the API.
+alter table public.offers enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname='public' and tablename='offers' and policyname='offers_read'
+  ) then
+    create policy offers_read
+      on public.offers for select
+      using (status = 'open' or auth.uid() in (buyer_id, seller_id));
+  end if;
+end $$;
+
+-- notifications: offer events for both parties
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+  check (kind in ('like','comment','follow','system','offer'));
+
+-- Accept an open offer: checks the seller can still deliver, creates the
+-- pending order (settled later by settle_order) and marks the offer accepted.
+create or replace function public.accept_offer(p_offer_id uuid, p_actor uuid)
+returns public.offers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer    public.offers%rowtype;
+  v_artwork  public.artworks%rowtype;
+  v_edition  text;
+  v_held     integer;
+  v_listing  uuid;
+  v_order    uuid;
+begin
+  select * into v_offer from public.offers where id = p_offer_id for update;
+  if not found then
+    raise exception 'Offer not found';
+  end if;
+  if v_offer.status <> 'open' then
+    raise exception 'Offer is %', v_offer.status;
+  end if;
+  if v_offer.expires_at <= now() then
+    update public.offers set status = 'expired', updated_at = now() where id = v_offer.id;
+    raise exception 'Offer has expired';
+  end if;
+  if p_actor is distinct from (case when v_offer.made_by = 'buyer' then v_offer.seller_id else v_offer.buyer_id end) then
+    raise exception 'Only the recipient can accept this offer';
+  end if;
+
+  select * into v_artwork from public.artworks where id = v_offer.artwork_id;
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+
+  if v_edition = 'unique' then
+    if v_artwork.owner_id is distinct from v_offer.seller_id then
+      raise exception 'Seller no longer owns this artwork';
+    end if;
+    -- the sale ends the seller's listing, as a checkout would
+    select id into v_listing
+    from public.listings
+    where artwork_id = v_offer.artwork_id and seller_id = v_offer.seller_id and status = 'active'
+    limit 1;
+  elsif not (v_edition = 'open' and v_offer.seller_id = v_artwork.creator_id) then
+    select quantity into v_held
+    from public.ownerships
+    where artwork_id = v_offer.artwork_id and owner_id = v_offer.seller_id;
+    if coalesce(v_held, 0) < v_offer.quantity then
+      raise exception 'Seller holds % of this edition', coalesce(v_held, 0);
+    end if;
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    settlement_kind, stripe_session_id
+  )
+  values (
+    v_listing, v_offer.buyer_id, v_offer.seller_id, v_offer.artwork_id, v_offer.quantity,
+    v_offer.amount, v_offer.amount * v_offer.quantity, v_offer.currency, 'offer', 'pending', 'pending',
+    case v_offer.funding when 'stripe_preauth' then 'stripe' when 'weth_allowance' then 'onchain' end,
+    v_offer.hold_session_id
+  )
+  returning id into v_order;
+
+  update public.offers
+  set status = 'accepted', order_id = v_order, responded_at = now(), updated_at = now()
+  where id = v_offer.id
+  returning * into v_offer;
+
+  return v_offer;
+end;
+$$;
+
+-- Job: close live offers past their expiry; the API releases holds and notifies.
+create or replace function public.expire_offers(p_limit integer default 200)
+returns setof public.offers
+language sql
+security definer
+set search_path = public
+as $$
+  update public.offers o
+  set status = 'expired', updated_at = now()
+  where o.id in (
+    select id from public.offers
+    where status in ('awaiting_funds','open') and expires_at <= now()
+    order by expires_at
+    limit p_limit
+    for update skip locked
+  )
+  returning o.*;
+$$;
+
+revoke all on function public.accept_offer(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.expire_offers(integer) from public, anon, authenticated;
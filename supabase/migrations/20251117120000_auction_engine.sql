@@ -0,0 +1,312 @@
+-- === AUCTION ENGINE ===========================================================
+-- Auctions used to end only when a browser's countdown called end_auction(),
+-- and the 5% minimum raise lived in the UI. Now the database enforces the
+-- rules and the API's sweeper (server/src/lib/auctions.ts) ends auctions:
+--   place_bid            first bid ≥ reserve, later bids ≥ top × (1 + min_increment_bps);
+--                        a bid inside the last soft_close_seconds pushes end_at out
+--   end_auction          idempotent; awards the highest bid at/over the reserve as a
+--                        pending 'auction' order the winner must pay by pay_by
+--   settle_due_auctions  job: ends every active auction past end_at
+--   lapse_auction_awards job: a winner who didn't pay by pay_by loses the award
+--                        (order expired, bid lapsed) and it passes to the next
+--                        highest bidder, if any is at/over the reserve
+-- Payment goes through the normal providers; settle_order() does the rest.
+
+-- --- listings: per-auction rules --------------------------------------------------
+alter table public.listings
+  add column if not exists min_increment_bps   integer not null default 500,
+  add column if not exists soft_close_seconds  integer not null default 300,
+  add column if not exists checkout_hours      integer not null default 48,
+  add column if not exists extension_count     integer not null default 0,
+  add column if not exists winning_bid_id      uuid references public.bids(id) on delete set null,
+  add column if not exists ended_at            timestamptz;
+
+alter table public.listings drop constraint if exists listings_auction_rules_check;
+alter table public.listings
+  add constraint listings_auction_rules_check
+  check (min_increment_bps between 0 and 10000
+         and soft_close_seconds between 0 and 86400
+         and checkout_hours between 1 and 720);
+
+-- --- bids: awards that weren't paid -------------------------------------------------
+alter table public.bids
+  add column if not exists lapsed_at timestamptz;
+
+create index if not exists idx_bids_listing_amount
+  on public.bids (listing_id, amount desc, created_at);
+
+-- --- orders: the winner's deadline ------------------------------------------------
+alter table public.orders
+  add column if not exists bid_id  uuid references public.bids(id) on delete set null,
+  add column if not exists pay_by  timestamptz;
+
+create index if not exists idx_orders_auction_pay_by
+  on public.orders (pay_by)
+  where kind = 'auction' and payment_status = 'pending';
+
+create index if not exists idx_listings_auction_end
+  on public.listings (end_at)
+  where type = 'auction' and status = 'active';
+
+-- --- notifications: auction results ----------------------------------------------
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+  check (kind in ('like','comment','follow','system','offer','auction'));
+
+-- --- auction_min_bid: what the next bid has to reach ------------------------------
+create or replace function public.auction_min_bid(p_listing_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when b.amount is null then coalesce(l.reserve_price, 0)
+    else greatest(coalesce(l.reserve_price, 0), round(b.amount * (10000 + l.min_increment_bps) / 10000.0, 8))
+  end
+  from public.listings l
+  left join lateral (
+    select amount from public.bids
+    where listing_id = l.id
+    order by amount desc
+    limit 1
+  ) b on true
+  where l.id = p_listing_id;
+$$;
+
+grant execute on function public.auction_min_bid(uuid) to anon, authenticated;
+
+-- --- place_bid --------------------------------------------------------------------
+drop function if exists public.place_bid(uuid, numeric);
+
+create or replace function public.place_bid(p_listing_id uuid, p_amount numeric)
+returns public.bids
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bidder   uuid := auth.uid();
+  v_listing  public.listings%rowtype;
+  v_min      numeric;
+  v_bid      public.bids%rowtype;
+begin
+  if v_bidder is null then
+    raise exception 'Unauthorized';
+  end if;
+
+  -- serializes bids on the listing, so the minimum below can't go stale
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.type <> 'auction' then
+    raise exception 'Not an auction';
+  end if;
+  if v_listing.status <> 'active' or (v_listing.end_at is not null and v_listing.end_at <= now()) then
+    raise exception 'Auction has ended';
+  end if;
+  if v_listing.start_at is not null and v_listing.start_at > now() then
+    raise exception 'Auction has not started';
+  end if;
+  if v_listing.seller_id = v_bidder then
+    raise exception 'Sellers can''t bid on their own auction';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Bid must be > 0';
+  end if;
+
+  v_min := public.auction_min_bid(p_listing_id);
+  if p_amount < v_min then
+    if not exists (select 1 from public.bids where listing_id = p_listing_id) then
+      raise exception 'Bid must meet the reserve of % %', v_min, v_listing.sale_currency;
+    end if;
+    raise exception 'Bid must be at least % %', v_min, v_listing.sale_currency;
+  end if;
+
+  insert into public.bids(listing_id, bidder_id, amount)
+  values (p_listing_id, v_bidder, p_amount)
+  returning * into v_bid;
+
+  -- soft close: a late bid gives everyone soft_close_seconds to answer it
+  if v_listing.end_at is not null and v_listing.soft_close_seconds > 0
+     and v_listing.end_at < now() + make_interval(secs => v_listing.soft_close_seconds) then
+    update public.listings
+    set end_at = now() + make_interval(secs => soft_close_seconds),
+        extension_count = extension_count + 1,
+        updated_at = now()
+    where id = p_listing_id;
+  end if;
+
+  return v_bid;
+end;
+$$;
+
+grant execute on function public.place_bid(uuid, numeric) to authenticated;
+
+-- --- award_auction_bid: the order for the best bid still standing -----------------
+-- Internal: the caller holds the listing lock. Returns null when no bid qualifies.
+create or replace function public.award_auction_bid(p_listing_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_bid      public.bids%rowtype;
+  v_order    public.orders%rowtype;
+begin
+  select * into v_listing from public.listings where id = p_listing_id;
+
+  -- a bidder who let an award lapse doesn't get it back through a lower bid
+  select * into v_bid
+  from public.bids b
+  where b.listing_id = p_listing_id
+    and b.amount >= coalesce(v_listing.reserve_price, 0)
+    and not exists (
+      select 1 from public.bids x
+      where x.listing_id = p_listing_id and x.bidder_id = b.bidder_id and x.lapsed_at is not null
+    )
+  order by b.amount desc, b.created_at
+  limit 1;
+
+  if not found then
+    update public.listings set winning_bid_id = null, updated_at = now() where id = p_listing_id;
+    return null;
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    settlement_kind, bid_id, pay_by
+  )
+  values (
+    v_listing.id, v_bid.bidder_id, v_listing.seller_id, v_listing.artwork_id, 1,
+    v_bid.amount, v_bid.amount, v_listing.sale_currency, 'auction', 'pending', 'pending',
+    v_listing.settlement_kind, v_bid.id, now() + make_interval(hours => v_listing.checkout_hours)
+  )
+  returning * into v_order;
+
+  update public.listings set winning_bid_id = v_bid.id, updated_at = now() where id = p_listing_id;
+  return v_order;
+end;
+$$;
+
+-- --- end_auction ------------------------------------------------------------------
+-- Safe to call from anyone, any number of times: before end_at it refuses, after
+-- the first successful call it returns the same award.
+drop function if exists public.end_auction(uuid);
+
+create or replace function public.end_auction(p_listing_id uuid)
+returns table (order_id uuid, winning_bid_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_order    public.orders%rowtype;
+begin
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.type <> 'auction' then
+    raise exception 'Not an auction';
+  end if;
+
+  if v_listing.status = 'active' then
+    if v_listing.end_at is null or v_listing.end_at > now() then
+      raise exception 'Auction still running';
+    end if;
+
+    update public.listings
+    set status = 'ended', ended_at = now(), updated_at = now()
+    where id = p_listing_id;
+
+    v_order := public.award_auction_bid(p_listing_id);
+    return query select v_order.id, v_order.bid_id;
+    return;
+  end if;
+
+  -- already ended: report the current award
+  return query
+    select o.id, o.bid_id
+    from public.orders o
+    where o.listing_id = p_listing_id and o.kind = 'auction'
+      and o.payment_status in ('pending','processing','paid')
+    order by o.created_at desc
+    limit 1;
+  if not found then
+    return query select null::uuid, null::uuid;
+  end if;
+end;
+$$;
+
+grant execute on function public.end_auction(uuid) to anon, authenticated;
+
+-- --- settle_due_auctions: job ---------------------------------------------------
+create or replace function public.settle_due_auctions(p_limit integer default 100)
+returns table (listing_id uuid, order_id uuid, winning_bid_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  for v_id in
+    select l.id from public.listings l
+    where l.type = 'auction' and l.status = 'active' and l.end_at <= now()
+    order by l.end_at
+    limit p_limit
+    for update skip locked
+  loop
+    return query select v_id, e.order_id, e.winning_bid_id from public.end_auction(v_id) e;
+  end loop;
+end;
+$$;
+
+-- --- lapse_auction_awards: job ----------------------------------------------------
+-- One row per lapsed award: who lost it, and the order that replaced it (null
+-- when no bid is left that meets the reserve).
+create or replace function public.lapse_auction_awards(p_limit integer default 100)
+returns table (
+  listing_id uuid,
+  lapsed_order_id uuid,
+  lapsed_buyer_id uuid,
+  next_order_id uuid,
+  next_buyer_id uuid
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lapsed  public.orders%rowtype;
+  v_next    public.orders%rowtype;
+begin
+  for v_lapsed in
+    select o.* from public.orders o
+    where o.kind = 'auction' and o.payment_status = 'pending' and o.pay_by <= now()
+    order by o.pay_by
+    limit p_limit
+    for update skip locked
+  loop
+    perform 1 from public.listings where id = v_lapsed.listing_id for update;
+
+    update public.orders set payment_status = 'expired' where id = v_lapsed.id and payment_status = 'pending';
+    update public.bids set lapsed_at = now() where id = v_lapsed.bid_id;
+
+    v_next := public.award_auction_bid(v_lapsed.listing_id);
+    return query select v_lapsed.listing_id, v_lapsed.id, v_lapsed.buyer_id, v_next.id, v_next.buyer_id;
+  end loop;
+end;
+$$;
+
+revoke all on function public.award_auction_bid(uuid) from public, anon, authenticated;
+revoke all on function public.settle_due_auctions(integer) from public, anon, authenticated;
+revoke all on function public.lapse_auction_awards(integer) from public, anon, authenticated;
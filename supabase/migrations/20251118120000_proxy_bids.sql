@@ -0,0 +1,308 @@
+-- === PROXY BIDDING ============================================================
+-- A bidder can leave a private maximum instead of rebidding by hand. The engine
+-- then bids for them, one increment (listings.min_increment_bps) over the
+-- strongest competitor, never past the maximum:
+--   bid_maxes        one row per bidder per listing; readable only by its bidder.
+--                    A manual bid raises the bidder's max to at least its amount,
+--                    so every bidder competes through the same table.
+--   bids             only the visible amounts; engine-placed bids have is_auto.
+--   resolve_proxy_bids  run after every bid / max change (listing locked): the
+--                    outbid competitor is shown at their max, then the leader
+--                    at one increment over it (capped at their max).
+-- Ties go to the earlier max (placed_at). The engine always writes the leader's
+-- bid last, so among equal amounts the latest bid is the leading one: "top bid"
+-- is amount desc, created_at desc everywhere.
+-- With no reserve, a proxy's opening bid is one increment of its max.
+
+create table if not exists public.bid_maxes (
+  listing_id  uuid not null references public.listings(id) on delete cascade,
+  bidder_id   uuid not null references public.profiles(id) on delete cascade,
+  max_amount  numeric not null check (max_amount > 0),
+  placed_at   timestamptz not null default now(),   -- tie-break; moves only when the max rises
+  updated_at  timestamptz not null default now(),
+  primary key (listing_id, bidder_id)
+);
+
+create index if not exists idx_bid_maxes_rank
+  on public.bid_maxes (listing_id, max_amount desc, placed_at);
+
+alter table public.bid_maxes enable row level security;
+
+drop policy if exists bid_maxes_own on public.bid_maxes;
+create policy bid_maxes_own on public.bid_maxes
+  for select to authenticated
+  using (bidder_id = auth.uid());
+
+alter table public.bids
+  add column if not exists is_auto boolean not null default false;
+
+-- --- resolve_proxy_bids -------------------------------------------------------------
+-- Internal; the caller holds the listing lock. Returns how many bids it placed.
+create or replace function public.resolve_proxy_bids(p_listing_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_top      public.bids%rowtype;
+  v_lead     public.bid_maxes%rowtype;
+  v_second   public.bid_maxes%rowtype;
+  v_price    numeric;
+  v_placed   integer := 0;
+begin
+  select * into v_listing from public.listings where id = p_listing_id;
+
+  select * into v_lead from public.bid_maxes
+  where listing_id = p_listing_id
+  order by max_amount desc, placed_at
+  limit 1;
+  if not found then
+    return 0;
+  end if;
+
+  select * into v_second from public.bid_maxes
+  where listing_id = p_listing_id and bidder_id <> v_lead.bidder_id
+  order by max_amount desc, placed_at
+  limit 1;
+
+  select * into v_top from public.bids
+  where listing_id = p_listing_id
+  order by amount desc, created_at desc
+  limit 1;
+
+  -- the outbid competitor goes down at their full max
+  if v_second.bidder_id is not null and v_second.max_amount > coalesce(v_top.amount, 0) then
+    insert into public.bids(listing_id, bidder_id, amount, is_auto)
+    values (p_listing_id, v_second.bidder_id, v_second.max_amount, true)
+    returning * into v_top;
+    v_placed := v_placed + 1;
+  end if;
+
+  if v_top.bidder_id = v_lead.bidder_id then
+    return v_placed;
+  end if;
+
+  if v_second.bidder_id is not null then
+    v_price := round(v_second.max_amount * (10000 + v_listing.min_increment_bps) / 10000.0, 8);
+  else
+    v_price := coalesce(nullif(v_listing.reserve_price, 0),
+                        round(v_lead.max_amount * greatest(v_listing.min_increment_bps, 1) / 10000.0, 8));
+  end if;
+  v_price := least(v_lead.max_amount, greatest(v_price, coalesce(v_listing.reserve_price, 0), coalesce(v_top.amount, 0)));
+
+  insert into public.bids(listing_id, bidder_id, amount, is_auto)
+  values (p_listing_id, v_lead.bidder_id, v_price, true);
+  return v_placed + 1;
+end;
+$$;
+
+-- --- raise_bid_max: the caller's max is never lowered --------------------------------
+create or replace function public.raise_bid_max(p_listing_id uuid, p_bidder_id uuid, p_amount numeric)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.bid_maxes(listing_id, bidder_id, max_amount)
+  values (p_listing_id, p_bidder_id, p_amount)
+  on conflict (listing_id, bidder_id) do update
+    set max_amount = excluded.max_amount, placed_at = now(), updated_at = now()
+    where public.bid_maxes.max_amount < excluded.max_amount;
+$$;
+
+-- --- auction_lock_for_bid: shared checks for place_bid / place_max_bid ---------------
+create or replace function public.auction_lock_for_bid(p_listing_id uuid, p_bidder_id uuid)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.listings%rowtype;
+begin
+  if p_bidder_id is null then
+    raise exception 'Unauthorized';
+  end if;
+
+  -- serializes bids on the listing, so minimums and maxes can't go stale
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.type <> 'auction' then
+    raise exception 'Not an auction';
+  end if;
+  if v_listing.status <> 'active' or (v_listing.end_at is not null and v_listing.end_at <= now()) then
+    raise exception 'Auction has ended';
+  end if;
+  if v_listing.start_at is not null and v_listing.start_at > now() then
+    raise exception 'Auction has not started';
+  end if;
+  if v_listing.seller_id = p_bidder_id then
+    raise exception 'Sellers can''t bid on their own auction';
+  end if;
+  return v_listing;
+end;
+$$;
+
+-- --- auction_soft_close ----------------------------------------------------------------
+-- A bid inside the last soft_close_seconds gives everyone that long to answer it.
+create or replace function public.auction_soft_close(p_listing_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.listings
+  set end_at = now() + make_interval(secs => soft_close_seconds),
+      extension_count = extension_count + 1,
+      updated_at = now()
+  where id = p_listing_id
+    and end_at is not null
+    and soft_close_seconds > 0
+    and end_at < now() + make_interval(secs => soft_close_seconds);
+$$;
+
+-- --- place_bid: a manual bid, then let the maxes answer it ---------------------------
+create or replace function public.place_bid(p_listing_id uuid, p_amount numeric)
+returns public.bids
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bidder   uuid := auth.uid();
+  v_listing  public.listings%rowtype;
+  v_min      numeric;
+  v_bid      public.bids%rowtype;
+begin
+  v_listing := public.auction_lock_for_bid(p_listing_id, v_bidder);
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Bid must be > 0';
+  end if;
+
+  v_min := public.auction_min_bid(p_listing_id);
+  if p_amount < v_min then
+    if not exists (select 1 from public.bids where listing_id = p_listing_id) then
+      raise exception 'Bid must meet the reserve of % %', v_min, v_listing.sale_currency;
+    end if;
+    raise exception 'Bid must be at least % %', v_min, v_listing.sale_currency;
+  end if;
+
+  insert into public.bids(listing_id, bidder_id, amount)
+  values (p_listing_id, v_bidder, p_amount)
+  returning * into v_bid;
+
+  perform public.raise_bid_max(p_listing_id, v_bidder, p_amount);
+  perform public.resolve_proxy_bids(p_listing_id);
+  perform public.auction_soft_close(p_listing_id);
+
+  return v_bid;
+end;
+$$;
+
+-- --- place_max_bid ----------------------------------------------------------------------
+-- Set (or raise) the caller's private maximum; the engine bids only what it must.
+create or replace function public.place_max_bid(p_listing_id uuid, p_max_amount numeric)
+returns table (is_leading boolean, top_amount numeric, my_max numeric)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bidder   uuid := auth.uid();
+  v_listing  public.listings%rowtype;
+  v_current  numeric;
+  v_min      numeric;
+  v_top      public.bids%rowtype;
+begin
+  v_listing := public.auction_lock_for_bid(p_listing_id, v_bidder);
+
+  if p_max_amount is null or p_max_amount <= 0 then
+    raise exception 'Maximum must be > 0';
+  end if;
+
+  select m.max_amount into v_current
+  from public.bid_maxes m
+  where m.listing_id = p_listing_id and m.bidder_id = v_bidder;
+  if v_current is not null and p_max_amount <= v_current then
+    raise exception 'Your maximum is already %; a new one has to be higher', v_current;
+  end if;
+
+  v_min := public.auction_min_bid(p_listing_id);
+  if p_max_amount < v_min then
+    raise exception 'Maximum must be at least % %', v_min, v_listing.sale_currency;
+  end if;
+
+  perform public.raise_bid_max(p_listing_id, v_bidder, p_max_amount);
+  if public.resolve_proxy_bids(p_listing_id) > 0 then
+    perform public.auction_soft_close(p_listing_id);
+  end if;
+
+  select * into v_top from public.bids b
+  where b.listing_id = p_listing_id
+  order by b.amount desc, b.created_at desc
+  limit 1;
+
+  return query select coalesce(v_top.bidder_id = v_bidder, false), v_top.amount, p_max_amount;
+end;
+$$;
+
+grant execute on function public.place_bid(uuid, numeric) to authenticated;
+grant execute on function public.place_max_bid(uuid, numeric) to authenticated;
+
+-- --- award_auction_bid: same award, latest-wins tie order -----------------------------
+create or replace function public.award_auction_bid(p_listing_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_bid      public.bids%rowtype;
+  v_order    public.orders%rowtype;
+begin
+  select * into v_listing from public.listings where id = p_listing_id;
+
+  -- a bidder who let an award lapse doesn't get it back through a lower bid
+  select * into v_bid
+  from public.bids b
+  where b.listing_id = p_listing_id
+    and b.amount >= coalesce(v_listing.reserve_price, 0)
+    and not exists (
+      select 1 from public.bids x
+      where x.listing_id = p_listing_id and x.bidder_id = b.bidder_id and x.lapsed_at is not null
+    )
+  order by b.amount desc, b.created_at desc
+  limit 1;
+
+  if not found then
+    update public.listings set winning_bid_id = null, updated_at = now() where id = p_listing_id;
+    return null;
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    settlement_kind, bid_id, pay_by
+  )
+  values (
+    v_listing.id, v_bid.bidder_id, v_listing.seller_id, v_listing.artwork_id, 1,
+    v_bid.amount, v_bid.amount, v_listing.sale_currency, 'auction', 'pending', 'pending',
+    v_listing.settlement_kind, v_bid.id, now() + make_interval(hours => v_listing.checkout_hours)
+  )
+  returning * into v_order;
+
+  update public.listings set winning_bid_id = v_bid.id, updated_at = now() where id = p_listing_id;
+  return v_order;
+end;
+$$;
+
+revoke all on function public.resolve_proxy_bids(uuid) from public, anon, authenticated;
+revoke all on function public.raise_bid_max(uuid, uuid, numeric) from public, anon, authenticated;
+revoke all on function public.auction_lock_for_bid(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.auction_soft_close(uuid) from public, anon, authenticated;
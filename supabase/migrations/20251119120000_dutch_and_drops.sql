@@ -0,0 +1,474 @@
+-- === DUTCH AUCTIONS AND DROPS ===================================================
+-- Two more ways to sell at a price the server sets:
+--   dutch        the price falls from dutch_start_price to dutch_floor_price over
+--                dutch_decay_seconds after start_at; 'linear' moves continuously,
+--                'stepped' drops once per dutch_interval_seconds. The first buyer
+--                pays whatever listing_current_price() says at checkout; end_at,
+--                if set, closes the sale.
+--   coming_soon  a scheduled drop: at start_at open_due_drops() turns it into its
+--                drop_sale_type ('fixed_price' or 'dutch'). Until then nobody can
+--                buy. A drop can be limited to an allowlist (drop_allowlist) and
+--                cap how many units one buyer takes (per_wallet_limit; buyers are
+--                accounts, and each account settles to its own wallet).
+-- listing_checkout_price() is the one gate every checkout path goes through:
+-- it opens the drop if it's due, applies the drop rules and returns the unit
+-- price to charge.
+
+-- --- listings ----------------------------------------------------------------------
+-- the original type check may not carry the default name; drop whichever one it is
+do $$
+declare
+  v_name text;
+begin
+  for v_name in
+    select conname from pg_constraint
+    where conrelid = 'public.listings'::regclass and contype = 'c'
+      and pg_get_constraintdef(oid) like '%coming_soon%'
+  loop
+    execute format('alter table public.listings drop constraint %I', v_name);
+  end loop;
+end $$;
+
+alter table public.listings
+  add constraint listings_type_check
+  check (type in ('coming_soon','fixed_price','auction','dutch'));
+
+alter table public.listings
+  add column if not exists dutch_start_price      numeric,
+  add column if not exists dutch_floor_price      numeric,
+  add column if not exists dutch_curve            text,
+  add column if not exists dutch_decay_seconds    integer,
+  add column if not exists dutch_interval_seconds integer,
+  add column if not exists drop_sale_type         text,
+  add column if not exists allowlist_only         boolean not null default false,
+  add column if not exists per_wallet_limit       integer,
+  add column if not exists dropped_at             timestamptz;
+
+-- Rules are checked once set; set_dutch_pricing / schedule_drop fill them in
+-- right after create_listing, so a fresh row may not have them yet.
+alter table public.listings drop constraint if exists listings_dutch_rules_check;
+alter table public.listings
+  add constraint listings_dutch_rules_check
+  check (
+    dutch_start_price is null
+    or (dutch_floor_price > 0
+        and dutch_start_price > dutch_floor_price
+        and dutch_curve in ('linear','stepped')
+        and dutch_decay_seconds > 0
+        and (dutch_curve = 'linear' or dutch_interval_seconds between 1 and dutch_decay_seconds))
+  );
+
+alter table public.listings drop constraint if exists listings_drop_rules_check;
+alter table public.listings
+  add constraint listings_drop_rules_check
+  check (
+    (drop_sale_type is null or drop_sale_type in ('fixed_price','dutch'))
+    and (per_wallet_limit is null or per_wallet_limit > 0)
+  );
+
+create index if not exists idx_listings_drop_start
+  on public.listings (start_at)
+  where type = 'coming_soon' and status = 'active';
+
+-- --- drop_allowlist ------------------------------------------------------------------
+create table if not exists public.drop_allowlist (
+  listing_id  uuid not null references public.listings(id) on delete cascade,
+  profile_id  uuid not null references public.profiles(id) on delete cascade,
+  added_at    timestamptz not null default now(),
+  primary key (listing_id, profile_id)
+);
+
+alter table public.drop_allowlist enable row level security;
+
+-- the seller manages it through set_drop_allowlist; a collector can see they're on it
+drop policy if exists drop_allowlist_read on public.drop_allowlist;
+create policy drop_allowlist_read on public.drop_allowlist
+  for select to authenticated
+  using (
+    profile_id = auth.uid()
+    or exists (select 1 from public.listings l where l.id = listing_id and l.seller_id = auth.uid())
+  );
+
+-- --- listing_current_price -------------------------------------------------------------
+-- What one unit costs right now: fixed_price, the Dutch price at now(), or for a
+-- drop that hasn't opened, the price it will open at. Null for auctions and for
+-- listings without a price.
+create or replace function public.listing_current_price(p_listing_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when s.sale_type = 'fixed_price' then s.fixed_price
+    when s.sale_type = 'dutch' and s.dutch_start_price is not null then
+      case
+        when s.elapsed <= 0 then s.dutch_start_price
+        when s.elapsed >= s.dutch_decay_seconds then s.dutch_floor_price
+        else round(
+          s.dutch_start_price - (s.dutch_start_price - s.dutch_floor_price)
+            * (case when s.dutch_curve = 'stepped'
+                    then floor(s.elapsed / s.dutch_interval_seconds) * s.dutch_interval_seconds
+                    else s.elapsed end)
+            / s.dutch_decay_seconds,
+          8)
+      end
+  end
+  from (
+    select l.*,
+           case when l.type = 'coming_soon' then l.drop_sale_type else l.type end as sale_type,
+           extract(epoch from now() - coalesce(l.start_at, l.created_at)) as elapsed
+    from public.listings l
+    where l.id = p_listing_id
+  ) s;
+$$;
+
+grant execute on function public.listing_current_price(uuid) to anon, authenticated;
+
+-- --- set_dutch_pricing: seller sets the curve ------------------------------------------
+-- Also turns an unsold fixed-price listing into a Dutch one. fixed_price is
+-- cleared so nothing reading it shows a price the buyer won't pay; the decay
+-- starts now, or at start_at if that's still ahead (a drop).
+create or replace function public.set_dutch_pricing(
+  p_listing_id       uuid,
+  p_start_price      numeric,
+  p_floor_price      numeric,
+  p_curve            text,
+  p_decay_seconds    integer,
+  p_interval_seconds integer default null
+)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.listings%rowtype;
+begin
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.seller_id is distinct from auth.uid() then
+    raise exception 'Not your listing';
+  end if;
+  if not (v_listing.type in ('fixed_price','dutch') or (v_listing.type = 'coming_soon' and v_listing.drop_sale_type = 'dutch')) then
+    raise exception 'Only fixed-price listings and Dutch drops take a price curve';
+  end if;
+  if v_listing.quantity_sold > 0 then
+    raise exception 'The price can''t change after a sale';
+  end if;
+  if p_floor_price is null or p_floor_price <= 0 or p_start_price is null or p_start_price <= p_floor_price then
+    raise exception 'Start price must be above a floor price > 0';
+  end if;
+  if p_curve not in ('linear','stepped') then
+    raise exception 'Curve must be linear or stepped';
+  end if;
+  if p_decay_seconds is null or p_decay_seconds <= 0 then
+    raise exception 'Decay time must be > 0';
+  end if;
+  if p_curve = 'stepped' and (p_interval_seconds is null or p_interval_seconds < 1 or p_interval_seconds > p_decay_seconds) then
+    raise exception 'A stepped curve needs an interval between 1 second and the decay time';
+  end if;
+
+  update public.listings
+  set type = case when type = 'fixed_price' then 'dutch' else type end,
+      fixed_price = null,
+      dutch_start_price = p_start_price,
+      dutch_floor_price = p_floor_price,
+      dutch_curve = p_curve,
+      dutch_decay_seconds = p_decay_seconds,
+      dutch_interval_seconds = case when p_curve = 'stepped' then p_interval_seconds end,
+      start_at = case when start_at is null or start_at < now() then now() else start_at end,
+      updated_at = now()
+  where id = p_listing_id
+  returning * into v_listing;
+  return v_listing;
+end;
+$$;
+
+-- --- schedule_drop: seller turns a listing into a timed drop -------------------------
+create or replace function public.schedule_drop(
+  p_listing_id       uuid,
+  p_start_at         timestamptz,
+  p_sale_type        text,
+  p_allowlist_only   boolean default false,
+  p_per_wallet_limit integer default null
+)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.listings%rowtype;
+begin
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.seller_id is distinct from auth.uid() then
+    raise exception 'Not your listing';
+  end if;
+  if v_listing.status <> 'active' or v_listing.type not in ('coming_soon','fixed_price','dutch') then
+    raise exception 'Only active fixed-price or Dutch listings can be scheduled as a drop';
+  end if;
+  if v_listing.dropped_at is not null or v_listing.quantity_sold > 0 then
+    raise exception 'This drop has already opened';
+  end if;
+  if p_start_at is null or p_start_at <= now() then
+    raise exception 'A drop has to start in the future';
+  end if;
+  if v_listing.end_at is not null and v_listing.end_at <= p_start_at then
+    raise exception 'The drop would end before it starts';
+  end if;
+  if p_sale_type not in ('fixed_price','dutch') then
+    raise exception 'A drop opens as fixed_price or dutch';
+  end if;
+  if p_per_wallet_limit is not null and p_per_wallet_limit <= 0 then
+    raise exception 'Per-wallet limit must be > 0';
+  end if;
+
+  update public.listings
+  set type = 'coming_soon',
+      drop_sale_type = p_sale_type,
+      start_at = p_start_at,
+      allowlist_only = coalesce(p_allowlist_only, false),
+      per_wallet_limit = p_per_wallet_limit,
+      updated_at = now()
+  where id = p_listing_id
+  returning * into v_listing;
+  return v_listing;
+end;
+$$;
+
+-- --- set_drop_allowlist: replaces the list; returns how many are on it -----------------
+create or replace function public.set_drop_allowlist(p_listing_id uuid, p_profile_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.listings%rowtype;
+  v_count   integer;
+begin
+  select * into v_listing from public.listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.seller_id is distinct from auth.uid() then
+    raise exception 'Not your listing';
+  end if;
+
+  delete from public.drop_allowlist
+  where listing_id = p_listing_id and profile_id <> all (coalesce(p_profile_ids, '{}'));
+
+  insert into public.drop_allowlist(listing_id, profile_id)
+  select p_listing_id, p.id
+  from public.profiles p
+  where p.id = any (coalesce(p_profile_ids, '{}'))
+  on conflict do nothing;
+
+  select count(*) into v_count from public.drop_allowlist where listing_id = p_listing_id;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.set_dutch_pricing(uuid, numeric, numeric, text, integer, integer) from public, anon;
+revoke all on function public.schedule_drop(uuid, timestamptz, text, boolean, integer) from public, anon;
+revoke all on function public.set_drop_allowlist(uuid, uuid[]) from public, anon;
+grant execute on function public.set_dutch_pricing(uuid, numeric, numeric, text, integer, integer) to authenticated;
+grant execute on function public.schedule_drop(uuid, timestamptz, text, boolean, integer) to authenticated;
+grant execute on function public.set_drop_allowlist(uuid, uuid[]) to authenticated;
+
+-- --- open_due_drops: job (and called per listing at checkout) --------------------------
+create or replace function public.open_due_drops(p_listing_id uuid default null, p_limit integer default 100)
+returns table (listing_id uuid, artwork_id uuid, seller_id uuid, sale_type text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  for v_id in
+    select l.id from public.listings l
+    where l.type = 'coming_soon' and l.status = 'active'
+      and l.drop_sale_type is not null and l.start_at <= now()
+      and (p_listing_id is null or l.id = p_listing_id)
+    order by l.start_at
+    limit p_limit
+    for update skip locked
+  loop
+    return query
+      update public.listings l
+      set type = l.drop_sale_type, dropped_at = now(), updated_at = now()
+      where l.id = v_id
+      returning l.id, l.artwork_id, l.seller_id, l.type;
+  end loop;
+end;
+$$;
+
+-- --- listing_checkout_price --------------------------------------------------------------
+-- Unit price for p_quantity units bought by p_buyer_id now, or an exception
+-- saying why they can't buy. Pending checkouts from the last 30 minutes count
+-- against the per-wallet limit like listing_available holds their units.
+create or replace function public.listing_checkout_price(p_listing_id uuid, p_buyer_id uuid, p_quantity integer default 1)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_bought   integer;
+  v_price    numeric;
+begin
+  perform 1 from public.open_due_drops(p_listing_id);
+
+  select * into v_listing from public.listings where id = p_listing_id;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.status <> 'active' then
+    raise exception 'Listing is not active';
+  end if;
+  if v_listing.type = 'coming_soon' then
+    raise exception 'Drop opens at %', coalesce(to_char(v_listing.start_at at time zone 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'), 'a time the seller hasn''t set');
+  end if;
+  if v_listing.type not in ('fixed_price','dutch') then
+    raise exception 'This listing isn''t sold at a set price';
+  end if;
+  if v_listing.start_at is not null and v_listing.start_at > now() then
+    raise exception 'Sale has not started';
+  end if;
+  if v_listing.end_at is not null and v_listing.end_at <= now() then
+    raise exception 'Sale has ended';
+  end if;
+
+  if v_listing.allowlist_only and not exists (
+    select 1 from public.drop_allowlist a where a.listing_id = p_listing_id and a.profile_id = p_buyer_id
+  ) then
+    raise exception 'This drop is for allowlisted collectors only';
+  end if;
+
+  if v_listing.per_wallet_limit is not null then
+    select coalesce(sum(o.quantity), 0)::integer into v_bought
+    from public.orders o
+    where o.listing_id = p_listing_id
+      and o.buyer_id = p_buyer_id
+      and (o.payment_status = 'paid'
+           or (o.payment_status in ('pending','processing') and o.created_at > now() - interval '30 minutes'));
+    if v_bought + coalesce(p_quantity, 1) > v_listing.per_wallet_limit then
+      raise exception 'Limit of % per collector (you have %)', v_listing.per_wallet_limit, v_bought;
+    end if;
+  end if;
+
+  v_price := public.listing_current_price(p_listing_id);
+  if v_price is null or v_price <= 0 then
+    raise exception 'Listing has no price';
+  end if;
+  return v_price;
+end;
+$$;
+
+revoke all on function public.open_due_drops(uuid, integer) from public, anon, authenticated;
+revoke all on function public.listing_checkout_price(uuid, uuid, integer) from public, anon, authenticated;
+
+-- --- buy_fixed_price: Dutch listings and drop rules ------------------------------------
+create or replace function public.buy_fixed_price(
+  p_listing_id uuid,
+  p_quantity integer default 1
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing        public.listings%rowtype;
+  v_edition        text;
+  v_available      integer;
+  v_buyer_id       uuid := auth.uid();
+  v_unit           numeric;
+  v_order          public.orders%rowtype;
+begin
+  if v_buyer_id is null then
+    raise exception 'Unauthorized';
+  end if;
+
+  if coalesce(p_quantity, 1) <= 0 then
+    raise exception 'Quantity must be > 0';
+  end if;
+
+  -- opens a due drop, checks allowlist / per-wallet limit, prices a Dutch listing
+  v_unit := public.listing_checkout_price(p_listing_id, v_buyer_id, p_quantity);
+
+  -- lock listing row
+  select * into v_listing
+  from public.listings
+  where id = p_listing_id
+  for update;
+
+  if v_listing.seller_id = v_buyer_id then
+    raise exception 'You cannot buy your own listing';
+  end if;
+
+  select coalesce(edition_type, 'unique') into v_edition
+  from public.artworks
+  where id = v_listing.artwork_id;
+
+  if v_edition = 'unique' and p_quantity <> 1 then
+    raise exception 'One-of-one artworks sell one at a time';
+  end if;
+
+  v_available := public.listing_available(v_listing.id);
+  if v_available is not null and v_available < p_quantity then
+    if v_available = 0 then
+      raise exception 'Sold out';
+    end if;
+    raise exception 'Only % left', v_available;
+  end if;
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    chain_id, tx_hash
+  )
+  values (
+    v_listing.id, v_buyer_id, v_listing.seller_id, v_listing.artwork_id, p_quantity,
+    v_unit, v_unit * p_quantity, v_listing.sale_currency, 'fixed_price', 'pending', 'pending',
+    null, null
+  )
+  returning * into v_order;
+
+  -- treat as already paid for MVP
+  return public.settle_order(v_order.id);
+end;
+$$;
+
+-- --- v_discover_items: sale mode, live price and drop timing ----------------------------
+-- The base view predates this migration; keep it as v_discover_items_base and
+-- put the new columns on top so existing filters keep working.
+do $$
+begin
+  if to_regclass('public.v_discover_items_base') is null and to_regclass('public.v_discover_items') is not null then
+    alter view public.v_discover_items rename to v_discover_items_base;
+  end if;
+end $$;
+
+create or replace view public.v_discover_items as
+select
+  b.*,
+  l.type                                            as sale_mode,
+  (l.type = 'dutch')                                as is_dutch,
+  (l.drop_sale_type is not null)                    as is_drop,
+  case when l.type = 'coming_soon' then l.start_at end as drop_starts_at,
+  l.dropped_at                                      as dropped_at,
+  public.listing_current_price(l.id)                as price_now
+from public.v_discover_items_base b
+left join public.listings l on l.id = b.listing_id;
+
+grant select on public.v_discover_items to anon, authenticated;
@@ -0,0 +1,776 @@
+-- === BUNDLES ======================================================================
+-- A bundle listing sells several one-of-one artworks the seller owns as one lot,
+-- at one price or through one auction:
+--   listings.is_bundle  the row lists its first artwork in artwork_id (the cover)
+--                       like any listing, so orders, auctions and checkout work
+--                       unchanged; bundle_items holds every artwork in the lot
+--   bundle_items        artwork + declared weight (share of the price) + position
+--   lock                while a bundle is active none of its artworks can be
+--                       listed or ordered on their own (triggers on listings and
+--                       orders), and it can't take an artwork that already is
+--   settlement          settle_order moves every artwork in one transaction; each
+--                       artwork's royalty is on its weighted share of the price,
+--                       so payout_splits now carries artwork_id and allows one
+--                       creator_royalty per artwork
+-- A refund gives the whole lot back (refund_order).
+
+-- --- listings / bundle_items ----------------------------------------------------------
+alter table public.listings
+  add column if not exists is_bundle boolean not null default false;
+
+create table if not exists public.bundle_items (
+  listing_id  uuid not null references public.listings(id) on delete cascade,
+  artwork_id  uuid not null references public.artworks(id) on delete cascade,
+  weight      numeric not null default 1 check (weight > 0),
+  position    integer not null default 0,
+  primary key (listing_id, artwork_id)
+);
+
+create index if not exists idx_bundle_items_artwork on public.bundle_items (artwork_id);
+
+alter table public.bundle_items enable row level security;
+
+drop policy if exists bundle_items_read on public.bundle_items;
+create policy bundle_items_read on public.bundle_items
+  for select to anon, authenticated
+  using (true);
+
+-- The active bundle holding an artwork, other than p_except (null when free).
+create or replace function public.artwork_bundle_listing(p_artwork_id uuid, p_except uuid default null)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.id
+  from public.bundle_items bi
+  join public.listings l on l.id = bi.listing_id
+  where bi.artwork_id = p_artwork_id
+    and l.status = 'active'
+    and l.id is distinct from p_except
+  limit 1;
+$$;
+
+grant execute on function public.artwork_bundle_listing(uuid, uuid) to anon, authenticated;
+
+-- --- lock: no separate listing or order while bundled ---------------------------------
+create or replace function public.listings_bundle_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'active' and not new.is_bundle
+     and public.artwork_bundle_listing(new.artwork_id, new.id) is not null then
+    raise exception 'This artwork is part of an active bundle';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_listings_bundle_lock on public.listings;
+create trigger trg_listings_bundle_lock
+  before insert or update of status, artwork_id on public.listings
+  for each row execute function public.listings_bundle_lock();
+
+create or replace function public.orders_bundle_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.artwork_bundle_listing(new.artwork_id, new.listing_id) is not null then
+    raise exception 'This artwork is part of an active bundle';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_orders_bundle_lock on public.orders;
+create trigger trg_orders_bundle_lock
+  before insert on public.orders
+  for each row execute function public.orders_bundle_lock();
+
+-- --- payout_splits: one royalty per artwork ----------------------------------------------
+alter table public.payout_splits
+  add column if not exists artwork_id uuid references public.artworks(id) on delete set null;
+
+drop index if exists public.uq_payout_splits_order_recipient;
+create unique index if not exists uq_payout_splits_order_recipient
+  on public.payout_splits (order_id, recipient_type, coalesce(artwork_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  where reversal_of is null;
+
+-- --- create_bundle_listing --------------------------------------------------------------
+-- p_weights defaults to equal shares. Fixed price needs p_price; an auction runs
+-- start_at → end_at with an optional reserve, under the auction engine's rules.
+create or replace function public.create_bundle_listing(
+  p_artwork_ids   uuid[],
+  p_weights       numeric[] default null,
+  p_type          text default 'fixed_price',
+  p_currency      text default 'ETH',
+  p_price         numeric default null,
+  p_reserve_price numeric default null,
+  p_start_at      timestamptz default null,
+  p_end_at        timestamptz default null
+)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seller   uuid := auth.uid();
+  v_count    integer := coalesce(array_length(p_artwork_ids, 1), 0);
+  v_art      public.artworks%rowtype;
+  v_listing  public.listings%rowtype;
+  v_weight   numeric;
+  i          integer;
+begin
+  if v_seller is null then
+    raise exception 'Unauthorized';
+  end if;
+  if v_count < 2 then
+    raise exception 'A bundle needs at least two artworks';
+  end if;
+  if (select count(distinct a) from unnest(p_artwork_ids) a) <> v_count then
+    raise exception 'An artwork can only be in a bundle once';
+  end if;
+  if p_weights is not null and coalesce(array_length(p_weights, 1), 0) <> v_count then
+    raise exception 'Give one weight per artwork';
+  end if;
+  if p_type not in ('fixed_price','auction') then
+    raise exception 'A bundle sells at a fixed price or by auction';
+  end if;
+  if p_type = 'fixed_price' and (p_price is null or p_price <= 0) then
+    raise exception 'Price must be > 0';
+  end if;
+  if p_type = 'auction' and (p_end_at is null or p_end_at <= greatest(coalesce(p_start_at, now()), now())) then
+    raise exception 'An auction needs an end time in the future';
+  end if;
+
+  for i in 1 .. v_count loop
+    select * into v_art from public.artworks where id = p_artwork_ids[i] for update;
+    if not found then
+      raise exception 'Artwork % not found', p_artwork_ids[i];
+    end if;
+    if v_art.owner_id is distinct from v_seller then
+      raise exception 'You don''t own “%”', coalesce(v_art.title, v_art.id::text);
+    end if;
+    if coalesce(v_art.edition_type, 'unique') <> 'unique' then
+      raise exception 'Bundles hold one-of-one artworks; “%” is an edition', coalesce(v_art.title, v_art.id::text);
+    end if;
+    if exists (select 1 from public.listings l where l.artwork_id = v_art.id and l.status = 'active')
+       or public.artwork_bundle_listing(v_art.id) is not null then
+      raise exception '“%” is already for sale; end that listing first', coalesce(v_art.title, v_art.id::text);
+    end if;
+    v_weight := coalesce(p_weights[i], 1);
+    if v_weight <= 0 then
+      raise exception 'Weights must be > 0';
+    end if;
+  end loop;
+
+  insert into public.listings(
+    artwork_id, seller_id, type, status, sale_currency, fixed_price, reserve_price,
+    start_at, end_at, quantity, is_bundle
+  )
+  values (
+    p_artwork_ids[1], v_seller, p_type, 'active', coalesce(p_currency, 'ETH'),
+    case when p_type = 'fixed_price' then p_price end,
+    case when p_type = 'auction' then p_reserve_price end,
+    coalesce(p_start_at, now()), p_end_at, 1, true
+  )
+  returning * into v_listing;
+
+  insert into public.bundle_items(listing_id, artwork_id, weight, position)
+  select v_listing.id, a.id, coalesce(p_weights[a.n::integer], 1), a.n::integer
+  from unnest(p_artwork_ids) with ordinality as a(id, n);
+
+  return v_listing;
+end;
+$$;
+
+revoke all on function public.create_bundle_listing(uuid[], numeric[], text, text, numeric, numeric, timestamptz, timestamptz) from public, anon;
+grant execute on function public.create_bundle_listing(uuid[], numeric[], text, text, numeric, numeric, timestamptz, timestamptz) to authenticated;
+
+-- --- settle_bundle_order --------------------------------------------------------------
+-- Internal; settle_order calls it with the order and listing locked. All or
+-- nothing: if the seller no longer owns any one artwork, nothing moves.
+create or replace function public.settle_bundle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_item           record;
+  v_platform_bps   integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_weights        numeric;
+  v_left           numeric;
+  v_share          numeric;
+  v_n              integer;
+  v_i              integer := 0;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric;
+  v_royalties      numeric := 0;
+  v_charity_amt    numeric := 0;
+begin
+  select * into v_order from public.orders where id = p_order_id;
+  select * into v_listing from public.listings where id = v_order.listing_id;
+
+  select sum(weight), count(*) into v_weights, v_n
+  from public.bundle_items where listing_id = v_listing.id;
+
+  -- lock the whole lot, then check it's all still the seller's
+  perform 1 from public.artworks a
+  join public.bundle_items bi on bi.artwork_id = a.id
+  where bi.listing_id = v_listing.id
+  order by a.id
+  for update of a;
+
+  if exists (
+    select 1 from public.bundle_items bi
+    join public.artworks a on a.id = bi.artwork_id
+    where bi.listing_id = v_listing.id and a.owner_id is distinct from v_order.seller_id
+  ) then
+    raise exception 'The seller no longer owns every artwork in this bundle';
+  end if;
+
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+  v_platform_fee := round(v_total * coalesce(v_platform_bps, 0) / 10000.0, 8);
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  -- per artwork: its weighted share of the price (the last one takes the rounding
+  -- remainder), a royalty on that share, and the transfer
+  v_left := v_total;
+  for v_item in
+    select bi.artwork_id, bi.weight, a.creator_id, coalesce(a.royalty_bps, 0) as royalty_bps
+    from public.bundle_items bi
+    join public.artworks a on a.id = bi.artwork_id
+    where bi.listing_id = v_listing.id
+    order by bi.position, bi.artwork_id
+  loop
+    v_i := v_i + 1;
+    v_share := case when v_i = v_n then v_left else round(v_total * v_item.weight / v_weights, 8) end;
+    v_left := v_left - v_share;
+
+    v_royalty_amt := round(v_share * v_item.royalty_bps / 10000.0, 8);
+    if v_royalty_amt > 0 then
+      insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, artwork_id, amount, currency)
+      values (v_order.id, 'creator_royalty', v_item.creator_id, v_item.artwork_id, v_royalty_amt, v_currency);
+      v_royalties := v_royalties + v_royalty_amt;
+    end if;
+
+    delete from public.ownerships
+      where artwork_id = v_item.artwork_id and owner_id = v_order.seller_id;
+
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (v_item.artwork_id, v_order.buyer_id, 1)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = 1, updated_at = now();
+
+    update public.artworks set owner_id = v_order.buyer_id where id = v_item.artwork_id;
+
+    insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+    values (v_item.artwork_id, v_order.buyer_id, v_order.seller_id, v_share, v_currency, now(), p_tx_hash);
+
+    insert into public.provenance_events(
+      artwork_id, from_owner_id, to_owner_id, event_type,
+      quantity, amount, currency, source, chain_id, tx_hash
+    )
+    values (
+      v_item.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+      1, v_share, v_currency, 'system', p_chain_id, p_tx_hash
+    );
+  end loop;
+
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_total - v_platform_fee - v_royalties - v_charity_amt, v_currency);
+
+  update public.listings
+  set quantity_sold = quantity_sold + 1, status = 'ended', updated_at = now()
+  where id = v_listing.id and status = 'active';
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = 'transferred',
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_bundle_order(uuid, bigint, text) from public, anon, authenticated;
+
+-- --- settle_order: bundles settle through settle_bundle_order ----------------------------
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_edition        text;
+  v_held           integer;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  if v_listing.is_bundle then
+    return public.settle_bundle_order(v_order.id, p_chain_id, p_tx_hash);
+  end if;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id
+  for update;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+
+  -- supply: a paid order can only be refused here if its checkout hold lapsed
+  if v_edition <> 'unique' and v_listing.id is not null and v_listing.quantity is not null
+     and v_listing.quantity_sold + v_order.quantity > v_listing.quantity then
+    raise exception 'Sold out: % of % left', greatest(v_listing.quantity - v_listing.quantity_sold, 0), v_order.quantity;
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership
+  if v_edition = 'open' and v_order.seller_id = v_artwork.creator_id then
+    -- primary sale of an open edition issues new units
+    update public.artworks
+    set editions_issued = editions_issued + v_order.quantity
+    where id = v_artwork.id;
+  elsif v_edition <> 'unique' then
+    select quantity into v_held
+    from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id
+    for update;
+    if coalesce(v_held, 0) < v_order.quantity then
+      raise exception 'Seller holds % of this edition, order is for %', coalesce(v_held, 0), v_order.quantity;
+    end if;
+
+    update public.ownerships
+      set quantity = quantity - v_order.quantity, updated_at = now()
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+    delete from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+  else
+    -- ERC-721 semantics
+    update public.ownerships
+      set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+    delete from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+    update public.artworks
+    set owner_id = v_order.buyer_id
+    where id = v_order.artwork_id;
+  end if;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  -- listing: a one-of-one ends on sale; an edition listing when it sells out
+  if v_listing.id is not null then
+    update public.listings
+    set quantity_sold = quantity_sold + v_order.quantity,
+        status = case
+          when v_edition = 'unique' then 'ended'
+          when quantity is not null and quantity_sold + v_order.quantity >= quantity then 'ended'
+          else status
+        end,
+        sold_out_at = case
+          when v_edition <> 'unique' and quantity is not null and quantity_sold + v_order.quantity >= quantity then now()
+          else sold_out_at
+        end,
+        updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- sales history (price charts, Studio)
+  insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.seller_id, v_total, v_currency, now(), p_tx_hash);
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+    v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+  );
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = 'transferred',
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_order(uuid, bigint, text) from public, anon, authenticated;
+
+-- --- refund_bundle_order ----------------------------------------------------------------
+-- Internal; refund_order calls it for a bundle order with the refund locked. The
+-- buyer must still hold every artwork; the whole lot goes back to the seller.
+create or replace function public.refund_bundle_order(p_refund_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund  public.refunds%rowtype;
+  v_order   public.orders%rowtype;
+  v_item    record;
+begin
+  select * into v_refund from public.refunds where id = p_refund_id;
+  select * into v_order from public.orders where id = v_refund.order_id for update;
+
+  perform 1 from public.artworks a
+  join public.bundle_items bi on bi.artwork_id = a.id
+  where bi.listing_id = v_order.listing_id
+  order by a.id
+  for update of a;
+
+  if exists (
+    select 1 from public.bundle_items bi
+    join public.artworks a on a.id = bi.artwork_id
+    where bi.listing_id = v_order.listing_id and a.owner_id is distinct from v_order.buyer_id
+  ) then
+    raise exception 'Buyer no longer holds every artwork in this bundle';
+  end if;
+
+  insert into public.payout_splits(
+    order_id, recipient_type, recipient_profile_id, recipient_wallet_address, artwork_id, amount, currency, reversal_of
+  )
+  select s.order_id, s.recipient_type, s.recipient_profile_id, s.recipient_wallet_address, s.artwork_id, -s.amount, s.currency, s.id
+  from public.payout_splits s
+  where s.order_id = v_order.id and s.reversal_of is null
+  on conflict (reversal_of) where reversal_of is not null do nothing;
+
+  for v_item in
+    select bi.artwork_id, s.price
+    from public.bundle_items bi
+    left join lateral (
+      select price from public.sales
+      where artwork_id = bi.artwork_id and buyer_id = v_order.buyer_id
+      order by sold_at desc
+      limit 1
+    ) s on true
+    where bi.listing_id = v_order.listing_id
+  loop
+    delete from public.ownerships
+      where artwork_id = v_item.artwork_id and owner_id = v_order.buyer_id;
+
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (v_item.artwork_id, v_order.seller_id, 1)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = 1, updated_at = now();
+
+    update public.artworks set owner_id = v_order.seller_id where id = v_item.artwork_id;
+
+    insert into public.provenance_events(
+      artwork_id, from_owner_id, to_owner_id, event_type,
+      quantity, amount, currency, source, chain_id, tx_hash
+    )
+    values (
+      v_item.artwork_id, v_order.buyer_id, v_order.seller_id, 'refund',
+      1, coalesce(v_item.price, v_refund.amount), v_refund.currency, 'system',
+      case when v_refund.provider_refund_id like '0x%' then v_order.chain_id end,
+      case when v_refund.provider_refund_id like '0x%' then v_refund.provider_refund_id end
+    );
+  end loop;
+
+  -- relisting puts the bundle back up only if none of its artworks went elsewhere
+  if v_refund.restore_listing
+     and not exists (
+       select 1 from public.bundle_items bi
+       where bi.listing_id = v_order.listing_id
+         and (exists (select 1 from public.listings l where l.artwork_id = bi.artwork_id and l.status = 'active')
+              or public.artwork_bundle_listing(bi.artwork_id, v_order.listing_id) is not null)
+     ) then
+    update public.listings
+    set status = 'active', quantity_sold = greatest(quantity_sold - 1, 0), updated_at = now()
+    where id = v_order.listing_id and status = 'ended';
+  end if;
+
+  update public.refunds
+  set status = 'succeeded', completed_at = now(), updated_at = now(), last_error = null
+  where id = v_refund.id;
+
+  update public.orders
+  set payment_status = 'refunded',
+      refunded_at    = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.refund_bundle_order(uuid) from public, anon, authenticated;
+
+-- --- refund_order: bundles, and reversals keep the split's artwork -----------------------
+create or replace function public.refund_order(p_refund_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund  public.refunds%rowtype;
+  v_order   public.orders%rowtype;
+  v_edition text;
+  v_held    integer;
+begin
+  select * into v_refund from public.refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund not found';
+  end if;
+
+  select * into v_order from public.orders where id = v_refund.order_id for update;
+
+  if v_refund.status = 'succeeded' then
+    return v_order;
+  end if;
+  if v_refund.status <> 'processing' then
+    raise exception 'Refund is %', v_refund.status;
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  if exists (select 1 from public.listings where id = v_order.listing_id and is_bundle) then
+    return public.refund_bundle_order(v_refund.id);
+  end if;
+
+  select coalesce(edition_type, 'unique') into v_edition
+  from public.artworks
+  where id = v_order.artwork_id;
+
+  -- the buyer must still hold what they bought
+  select quantity into v_held
+  from public.ownerships
+  where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id
+  for update;
+  if coalesce(v_held, 0) < v_order.quantity then
+    raise exception 'Buyer no longer holds this artwork';
+  end if;
+
+  -- reverse payout splits
+  insert into public.payout_splits(
+    order_id, recipient_type, recipient_profile_id, recipient_wallet_address, artwork_id, amount, currency, reversal_of
+  )
+  select s.order_id, s.recipient_type, s.recipient_profile_id, s.recipient_wallet_address, s.artwork_id, -s.amount, s.currency, s.id
+  from public.payout_splits s
+  where s.order_id = v_order.id and s.reversal_of is null
+  on conflict (reversal_of) where reversal_of is not null do nothing;
+
+  -- ownership back to the seller (an open edition's issued units stay issued)
+  update public.ownerships
+    set quantity = quantity - v_order.quantity, updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id and quantity <= 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.seller_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  if v_edition = 'unique' then
+    update public.artworks
+    set owner_id = v_order.seller_id
+    where id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+    if v_refund.restore_listing and v_order.listing_id is not null then
+      update public.listings
+      set status = 'active', quantity_sold = greatest(quantity_sold - v_order.quantity, 0), updated_at = now()
+      where id = v_order.listing_id and status = 'ended';
+    end if;
+  elsif v_order.listing_id is not null then
+    -- the units are offered again on a live listing, or on a sold-out one when restoring
+    update public.listings
+    set quantity_sold = greatest(quantity_sold - v_order.quantity, 0),
+        status        = 'active',
+        sold_out_at   = null,
+        updated_at    = now()
+    where id = v_order.listing_id
+      and (status = 'active' or (status = 'ended' and sold_out_at is not null and v_refund.restore_listing));
+  end if;
+
+  -- provenance
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.buyer_id, v_order.seller_id, 'refund',
+    v_order.quantity, v_refund.amount, v_refund.currency, 'system',
+    case when v_refund.provider_refund_id like '0x%' then v_order.chain_id end,
+    case when v_refund.provider_refund_id like '0x%' then v_refund.provider_refund_id end
+  );
+
+  update public.refunds
+  set status = 'succeeded', completed_at = now(), updated_at = now(), last_error = null
+  where id = v_refund.id;
+
+  update public.orders
+  set payment_status = 'refunded',
+      refunded_at    = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.refund_order(uuid) from public, anon, authenticated;
+
+-- --- v_discover_items: bundles show as their cover artwork --------------------------------
+create or replace view public.v_discover_items as
+select
+  b.*,
+  l.type                                            as sale_mode,
+  (l.type = 'dutch')                                as is_dutch,
+  (l.drop_sale_type is not null)                    as is_drop,
+  case when l.type = 'coming_soon' then l.start_at end as drop_starts_at,
+  l.dropped_at                                      as dropped_at,
+  public.listing_current_price(l.id)                as price_now,
+  coalesce(l.is_bundle, false)                      as is_bundle,
+  (select count(*) from public.bundle_items bi where bi.listing_id = l.id)::integer as bundle_size
+from public.v_discover_items_base b
+left join public.listings l on l.id = b.listing_id;
+
+grant select on public.v_discover_items to anon, authenticated;
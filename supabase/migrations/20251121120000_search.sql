@@ -0,0 +1,367 @@
+-- === SEARCH: RANKED, TYPO-TOLERANT, FACETED ===================================
+-- One search backend for the navbar and Discover, served by GET /api/search
+-- (server/src/routes/search.ts):
+--   search_everything()      artworks, profiles and collections ranked together
+--   search_artworks()        the Discover grid: filters, sort, keyset cursor
+--   search_artwork_facets()  counts for medium, price range, currency,
+--                            physical/digital and tags
+-- An artwork matches on full text (v_discover_items.search_tsv) or on trigram
+-- word similarity with its title or creator, so "sunflwer" still finds
+-- "Sunflowers". Profiles and collections match on trigrams only. Exact and
+-- prefix matches on a name are boosted above fuzzy ones.
+-- Facets are disjunctive: each is counted with every other filter applied but
+-- not its own, so picking one medium doesn't hide the others.
+-- Pages are keyset on (sort_key desc, id): sort_key is a numeric that already
+-- encodes the sort direction, returned as text so the cursor round-trips
+-- exactly. New listings never shift or repeat items on later pages.
+-- Ending-soon (auction closing within 24h) and new-today (listed in the last
+-- 24h) are filters here, before the page is cut, not on the client after it.
+-- Everything is called by the API with the service key only.
+
+create extension if not exists pg_trgm with schema extensions;
+
+set search_path = public, extensions;
+
+create index if not exists idx_artworks_title_trgm
+  on public.artworks using gin (title gin_trgm_ops);
+
+create index if not exists idx_artworks_tags
+  on public.artworks using gin (tags);
+
+create index if not exists idx_profiles_username_trgm
+  on public.profiles using gin (username gin_trgm_ops);
+
+create index if not exists idx_profiles_display_name_trgm
+  on public.profiles using gin (display_name gin_trgm_ops);
+
+create index if not exists idx_collections_name_trgm
+  on public.collections using gin (name gin_trgm_ops);
+
+-- --- ranking helper -----------------------------------------------------------------
+-- Bonus on top of similarity: the whole name (0.5) or its start (0.25) typed.
+create or replace function public.search_name_boost(p_q text, p_name text)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+           when p_q is null or p_name is null then 0
+           when lower(p_name) = lower(p_q) then 0.5
+           when starts_with(lower(p_name), lower(p_q)) then 0.25
+           else 0
+         end::numeric;
+$$;
+
+revoke all on function public.search_name_boost(text, text) from public, anon, authenticated;
+
+-- --- search_artwork_matches: the shared filter ------------------------------------------
+-- Every discoverable artwork matching the query and filters, with its score and
+-- the columns facets group on. p_status takes Discover's status tabs.
+create or replace function public.search_artwork_matches(
+  p_q            text    default null,
+  p_status       text    default 'all',
+  p_medium       text[]  default null,
+  p_currency     text[]  default null,
+  p_min_price    numeric default null,
+  p_max_price    numeric default null,
+  p_physical     boolean default null,
+  p_tags         text[]  default null,
+  p_ending_soon  boolean default false,
+  p_new_today    boolean default false
+)
+returns table (
+  artwork_id   uuid,
+  item         jsonb,
+  score        numeric,
+  price        numeric,
+  currency     text,
+  medium       text,
+  is_physical  boolean,
+  tags         text[],
+  listed_at    timestamptz,
+  updated_at   timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  with q as (
+    select nullif(btrim(p_q), '') as text,
+           case when length(btrim(coalesce(p_q, ''))) >= 2
+                then websearch_to_tsquery('simple', btrim(p_q)) end as ts
+  )
+  select v.artwork_id,
+         to_jsonb(v) - 'search_tsv',
+         case when q.text is null then 0
+              else greatest(
+                     coalesce(ts_rank(v.search_tsv, q.ts), 0),
+                     word_similarity(q.text, coalesce(a.title, '')),
+                     word_similarity(q.text, coalesce(v.creator_name, '')) * 0.8,
+                     word_similarity(q.text, coalesce(v.creator_handle, '')) * 0.8
+                   )::numeric
+                   + public.search_name_boost(q.text, a.title)
+         end,
+         coalesce(v.price_native, v.price_now),
+         v.currency,
+         nullif(btrim(a.medium), ''),
+         (a.type = 'physical'),
+         coalesce(a.tags, '{}'),
+         v.listed_at,
+         v.updated_at
+  from public.v_discover_items v
+  join public.artworks a on a.id = v.artwork_id
+  cross join q
+  where (q.text is null
+         or coalesce(v.search_tsv @@ q.ts, false)
+         or q.text <% a.title
+         or q.text <% v.creator_name
+         or q.text <% v.creator_handle)
+    and coalesce(case coalesce(p_status, 'all')
+          when 'buy-now'    then v.listing_id is not null
+                                 and (v.price_native is not null or v.is_dutch)
+                                 and v.drop_starts_at is null
+          when 'on-auction' then v.listing_status = 'active' and v.is_auction
+          when 'dutch'      then v.listing_status = 'active' and v.is_dutch
+          when 'drops'      then v.listing_status = 'active' and v.is_drop
+          when 'new'        then v.listed_at >= now() - interval '7 days'
+          when 'has-offers' then v.has_offers
+          else true
+        end, false)
+    and (p_medium is null or nullif(btrim(a.medium), '') = any (p_medium))
+    and (p_currency is null or v.currency = any (p_currency))
+    and (p_min_price is null or coalesce(v.price_native, v.price_now) >= p_min_price)
+    and (p_max_price is null or coalesce(v.price_native, v.price_now) <= p_max_price)
+    and (p_physical is null or (a.type = 'physical') = p_physical)
+    and (p_tags is null or coalesce(a.tags, '{}') @> p_tags)
+    and (not coalesce(p_ending_soon, false)
+         or (coalesce(v.is_auction, false)
+             and v.end_at > now()
+             and v.end_at <= now() + interval '24 hours'))
+    and (not coalesce(p_new_today, false) or v.listed_at >= now() - interval '24 hours');
+$$;
+
+revoke all on function public.search_artwork_matches(text, text, text[], text[], numeric, numeric, boolean, text[], boolean, boolean)
+  from public, anon, authenticated;
+
+-- --- search_artworks: one page of the Discover grid -------------------------------------
+-- p_sort: relevance (trending when there is no query), recent, trending,
+-- price-asc, price-desc. Items without the sort value (unpriced, never listed)
+-- come last. Pass the last row's sort_key and artwork_id to get the next page.
+create or replace function public.search_artworks(
+  p_q            text    default null,
+  p_status       text    default 'all',
+  p_medium       text[]  default null,
+  p_currency     text[]  default null,
+  p_min_price    numeric default null,
+  p_max_price    numeric default null,
+  p_physical     boolean default null,
+  p_tags         text[]  default null,
+  p_ending_soon  boolean default false,
+  p_new_today    boolean default false,
+  p_sort         text    default 'relevance',
+  p_cursor_key   numeric default null,
+  p_cursor_id    uuid    default null,
+  p_limit        integer default 24
+)
+returns table (artwork_id uuid, item jsonb, sort_key text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.artwork_id,
+         m.item || jsonb_build_object('score', round(m.score, 4)),
+         k.sort_key::text
+  from public.search_artwork_matches(
+         p_q, p_status, p_medium, p_currency, p_min_price, p_max_price,
+         p_physical, p_tags, p_ending_soon, p_new_today
+       ) m
+  cross join lateral (
+    select round(case
+             when p_sort = 'price-asc'  then coalesce(-m.price, -1e30)
+             when p_sort = 'price-desc' then coalesce(m.price, -1e30)
+             when p_sort = 'recent'     then coalesce(extract(epoch from m.listed_at), -1e30)
+             when p_sort = 'trending' or nullif(btrim(p_q), '') is null
+                                        then coalesce(extract(epoch from m.updated_at), -1e30)
+             else m.score
+           end, 6) as sort_key
+  ) k
+  where p_cursor_key is null
+     or k.sort_key < p_cursor_key
+     or (k.sort_key = p_cursor_key and m.artwork_id > p_cursor_id)
+  order by k.sort_key desc, m.artwork_id
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+$$;
+
+revoke all on function public.search_artworks(text, text, text[], text[], numeric, numeric, boolean, text[], boolean, boolean, text, numeric, uuid, integer)
+  from public, anon, authenticated;
+
+-- --- search_artwork_facets ---------------------------------------------------------------
+-- { medium: [{value, count}], currency: [...], tags: [...],
+--   physical: [{value: "physical"|"digital", count}],
+--   price: [{min, max, count}] }   (max null: and above)
+create or replace function public.search_artwork_facets(
+  p_q            text    default null,
+  p_status       text    default 'all',
+  p_medium       text[]  default null,
+  p_currency     text[]  default null,
+  p_min_price    numeric default null,
+  p_max_price    numeric default null,
+  p_physical     boolean default null,
+  p_tags         text[]  default null,
+  p_ending_soon  boolean default false,
+  p_new_today    boolean default false
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'medium', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', x.medium, 'count', x.n) order by x.n desc, x.medium), '[]'::jsonb)
+      from (
+        select m.medium, count(*) as n
+        from public.search_artwork_matches(p_q, p_status, null, p_currency, p_min_price, p_max_price,
+                                           p_physical, p_tags, p_ending_soon, p_new_today) m
+        where m.medium is not null
+        group by m.medium
+        order by n desc, m.medium
+        limit 20
+      ) x
+    ),
+    'currency', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', x.currency, 'count', x.n) order by x.n desc, x.currency), '[]'::jsonb)
+      from (
+        select m.currency, count(*) as n
+        from public.search_artwork_matches(p_q, p_status, p_medium, null, p_min_price, p_max_price,
+                                           p_physical, p_tags, p_ending_soon, p_new_today) m
+        where m.currency is not null
+        group by m.currency
+      ) x
+    ),
+    'price', (
+      select coalesce(jsonb_agg(jsonb_build_object('min', b.lo, 'max', b.hi, 'count', b.n) order by b.lo), '[]'::jsonb)
+      from (
+        select r.lo, r.hi, count(m.artwork_id) as n
+        from (values (0::numeric, 0.1::numeric), (0.1, 0.5), (0.5, 1), (1, 5), (5, null)) as r(lo, hi)
+        left join public.search_artwork_matches(p_q, p_status, p_medium, p_currency, null, null,
+                                                p_physical, p_tags, p_ending_soon, p_new_today) m
+          on m.price >= r.lo and (r.hi is null or m.price < r.hi)
+        group by r.lo, r.hi
+      ) b
+    ),
+    'physical', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', x.kind, 'count', x.n) order by x.kind desc), '[]'::jsonb)
+      from (
+        select case when m.is_physical then 'physical' else 'digital' end as kind, count(*) as n
+        from public.search_artwork_matches(p_q, p_status, p_medium, p_currency, p_min_price, p_max_price,
+                                           null, p_tags, p_ending_soon, p_new_today) m
+        group by 1
+      ) x
+    ),
+    'tags', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', x.tag, 'count', x.n) order by x.n desc, x.tag), '[]'::jsonb)
+      from (
+        select t.tag, count(*) as n
+        from public.search_artwork_matches(p_q, p_status, p_medium, p_currency, p_min_price, p_max_price,
+                                           p_physical, null, p_ending_soon, p_new_today) m
+        cross join lateral unnest(m.tags) as t(tag)
+        where not (t.tag = any (coalesce(p_tags, '{}')))
+        group by t.tag
+        order by n desc, t.tag
+        limit 30
+      ) x
+    )
+  );
+$$;
+
+revoke all on function public.search_artwork_facets(text, text, text[], text[], numeric, numeric, boolean, text[], boolean, boolean)
+  from public, anon, authenticated;
+
+-- --- search_everything: artworks, profiles and collections in one ranking -----------------
+-- For the navbar. handle is what the app links with: artwork id, username or
+-- collection slug. Keyset on (score desc, kind, id).
+create or replace function public.search_everything(
+  p_q             text,
+  p_kinds         text[]  default null,
+  p_cursor_score  numeric default null,
+  p_cursor_kind   text    default null,
+  p_cursor_id     uuid    default null,
+  p_limit         integer default 20
+)
+returns table (
+  kind       text,
+  id         uuid,
+  title      text,
+  subtitle   text,
+  image_url  text,
+  handle     text,
+  score      text
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  with q as (
+    select nullif(btrim(p_q), '') as text
+  ),
+  hits as (
+    select 'artwork'::text as kind,
+           m.artwork_id as id,
+           m.item->>'title' as title,
+           coalesce(m.item->>'creator_name', m.item->>'creator_handle') as subtitle,
+           m.item->>'image_url' as image_url,
+           m.artwork_id::text as handle,
+           m.score
+    from q
+    cross join lateral public.search_artwork_matches(q.text) m
+    where q.text is not null
+      and (p_kinds is null or 'artwork' = any (p_kinds))
+
+    union all
+
+    select 'profile', p.id,
+           coalesce(nullif(p.display_name, ''), p.username),
+           '@' || p.username,
+           p.avatar_url,
+           p.username,
+           greatest(word_similarity(q.text, p.username),
+                    word_similarity(q.text, coalesce(p.display_name, '')))::numeric
+             + greatest(public.search_name_boost(q.text, p.username),
+                        public.search_name_boost(q.text, p.display_name))
+    from q
+    join public.profiles p
+      on p.username is not null
+     and (q.text <% p.username or q.text <% p.display_name)
+    where p_kinds is null or 'profile' = any (p_kinds)
+
+    union all
+
+    select 'collection', c.id, c.name, null, c.logo_url, c.slug,
+           word_similarity(q.text, c.name)::numeric + public.search_name_boost(q.text, c.name)
+    from q
+    join public.collections c on q.text <% c.name
+    where p_kinds is null or 'collection' = any (p_kinds)
+  ),
+  ranked as (
+    select h.*, round(h.score, 6) as sort_key from hits h
+  )
+  select r.kind, r.id, r.title, r.subtitle, r.image_url, r.handle, r.sort_key::text
+  from ranked r
+  where p_cursor_score is null
+     or r.sort_key < p_cursor_score
+     or (r.sort_key = p_cursor_score and (r.kind, r.id) > (p_cursor_kind, p_cursor_id))
+  order by r.sort_key desc, r.kind, r.id
+  limit least(greatest(coalesce(p_limit, 20), 1), 50);
+$$;
+
+revoke all on function public.search_everything(text, text[], numeric, text, uuid, integer)
+  from public, anon, authenticated;
+
+reset search_path;
@@ -0,0 +1,432 @@
+-- === NOTIFICATION PIPELINE ====================================================
+-- One notifications table for every event. `kind` is the category the Bell
+-- renders and preferences key on:
+--   like, comment, follow       social triggers (follow_core / social_notify)
+--   system                      drops opening and other platform notices
+--   sale                        an order was paid (seller and buyer)
+--   bid, outbid                 a new top bid (seller) / you lost the lead
+--   offer, auction              written by the API (server/src/lib/notify.ts)
+--   license                     license requests and thread messages
+--   shipment                    a shipment was created or changed status
+--   chip_scan                   an NFC chip or QR tag on your artwork was scanned
+-- payload.message is the line shown; payload.event narrows the kind. `link` is
+-- the app path the notification opens, derived from the payload on insert.
+-- Every insert goes through notification_settings (one optional row per
+-- profile; defaults apply without one):
+--   in_app_muted   kinds hidden from the Bell (the row still lands, for email)
+--   email_muted    kinds left out of the digest (likes, comments, follows by default)
+--   digest         off | daily | weekly
+-- Rows owed to a digest carry email_pending; the API's digest mailer
+-- (server/src/lib/digest.ts) claims them per profile once the period is up.
+-- Events that happen in the database (bids, paid orders, license messages,
+-- shipments, scans) are raised here by triggers so every writer (API, edge
+-- functions, RPCs) is covered.
+
+alter table public.notifications
+  add column if not exists link           text,
+  add column if not exists in_app         boolean not null default true,
+  add column if not exists email_pending  boolean not null default false,
+  add column if not exists emailed_at     timestamptz;
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+  check (kind in ('like','comment','follow','system','sale','bid','outbid','offer','auction',
+                  'license','shipment','chip_scan'));
+
+create index if not exists idx_notifications_email_pending
+  on public.notifications (profile_id, created_at)
+  where email_pending;
+
+-- the Bell only sees what the profile wants in-app
+drop policy if exists notif_read_own on public.notifications;
+create policy notif_read_own
+  on public.notifications for select
+  using (profile_id = auth.uid() and in_app);
+
+-- --- notification_settings ------------------------------------------------------------
+create table if not exists public.notification_settings (
+  profile_id      uuid primary key references public.profiles(id) on delete cascade,
+  in_app_muted    text[] not null default '{}',
+  email_muted     text[] not null default '{like,comment,follow}',
+  digest          text not null default 'daily' check (digest in ('off','daily','weekly')),
+  last_digest_at  timestamptz,
+  updated_at      timestamptz not null default now()
+);
+
+alter table public.notification_settings enable row level security;
+
+drop policy if exists notification_settings_own on public.notification_settings;
+create policy notification_settings_own
+  on public.notification_settings for all to authenticated
+  using (profile_id = auth.uid())
+  with check (profile_id = auth.uid());
+
+-- --- notification_link: where a notification opens -----------------------------------
+create or replace function public.notification_link(p_kind text, p_payload jsonb)
+returns text
+language sql
+immutable
+as $$
+  select case
+           when p_kind = 'license' and p_payload ? 'request_id'
+             then '/contracts/' || (p_payload->>'request_id')
+           when p_kind = 'follow' and p_payload ? 'by'
+             then '/u/' || (p_payload->>'by')
+           when p_payload ? 'artwork_id'
+             then '/art/' || (p_payload->>'artwork_id')
+         end;
+$$;
+
+-- --- apply preferences on insert -----------------------------------------------------
+create or replace function public.notifications_apply_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_s public.notification_settings%rowtype;
+begin
+  select * into v_s from public.notification_settings where profile_id = new.profile_id;
+  if not found then
+    v_s.in_app_muted := '{}';
+    v_s.email_muted := '{like,comment,follow}';
+    v_s.digest := 'daily';
+  end if;
+
+  new.link := coalesce(new.link, public.notification_link(new.kind, new.payload));
+  new.in_app := not (new.kind = any (v_s.in_app_muted));
+  new.email_pending := v_s.digest <> 'off' and not (new.kind = any (v_s.email_muted));
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_notifications_apply_settings on public.notifications;
+create trigger trg_notifications_apply_settings
+  before insert on public.notifications
+  for each row execute function public.notifications_apply_settings();
+
+-- --- push_notification: the SQL side of notify() ------------------------------------
+create or replace function public.push_notification(p_profile_id uuid, p_kind text, p_payload jsonb)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (profile_id, kind, payload)
+  select p_profile_id, p_kind, p_payload
+  where p_profile_id is not null;
+$$;
+
+revoke all on function public.push_notification(uuid, text, jsonb) from public, anon, authenticated;
+
+-- --- bids: the seller hears of a new top bid, the runner-up that they were outbid -----
+-- Deferred to commit so a proxy exchange (several engine bids in one
+-- transaction) raises one pair of notifications for the bid left on top.
+create or replace function public.notify_bid_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_top      public.bids%rowtype;
+  v_runner   public.bids%rowtype;
+  v_listing  public.listings%rowtype;
+  v_title    text;
+  v_amount   text;
+begin
+  select * into v_top
+  from public.bids
+  where listing_id = new.listing_id
+  order by amount desc, created_at desc
+  limit 1;
+  if v_top.id is distinct from new.id then
+    return null;
+  end if;
+
+  select * into v_listing from public.listings where id = new.listing_id;
+  select coalesce(title, 'your artwork') into v_title from public.artworks where id = v_listing.artwork_id;
+  v_amount := new.amount::text || coalesce(' ' || v_listing.sale_currency, '');
+
+  if v_listing.seller_id is distinct from new.bidder_id then
+    perform public.push_notification(v_listing.seller_id, 'bid', jsonb_build_object(
+      'event', 'new_top_bid', 'listing_id', new.listing_id, 'artwork_id', v_listing.artwork_id,
+      'bid_id', new.id, 'amount', new.amount, 'currency', v_listing.sale_currency,
+      'message', format('New top bid of %s on “%s”', v_amount, v_title)));
+  end if;
+
+  select * into v_runner
+  from public.bids
+  where listing_id = new.listing_id and bidder_id <> new.bidder_id
+  order by amount desc, created_at desc
+  limit 1;
+  if found then
+    perform public.push_notification(v_runner.bidder_id, 'outbid', jsonb_build_object(
+      'event', 'outbid', 'listing_id', new.listing_id, 'artwork_id', v_listing.artwork_id,
+      'amount', new.amount, 'currency', v_listing.sale_currency, 'your_amount', v_runner.amount,
+      'message', format('You were outbid on “%s”: the top bid is now %s', v_title, v_amount)));
+  end if;
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_bid_events() from public, anon, authenticated;
+
+drop trigger if exists trg_bids_notify on public.bids;
+create constraint trigger trg_bids_notify
+  after insert on public.bids
+  deferrable initially deferred
+  for each row execute function public.notify_bid_events();
+
+-- --- orders: paid ---------------------------------------------------------------------
+create or replace function public.notify_order_paid()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title  text;
+  v_amount text;
+  v_base   jsonb;
+begin
+  select coalesce(title, 'the artwork') into v_title from public.artworks where id = new.artwork_id;
+  v_amount := coalesce(new.total_amount::text || ' ' || new.currency, 'the agreed price');
+  v_base := jsonb_build_object('order_id', new.id, 'listing_id', new.listing_id, 'artwork_id', new.artwork_id,
+                               'amount', new.total_amount, 'currency', new.currency);
+
+  perform public.push_notification(new.seller_id, 'sale', v_base || jsonb_build_object(
+    'event', 'sold', 'message', format('“%s” sold for %s', v_title, v_amount)));
+  perform public.push_notification(new.buyer_id, 'sale', v_base || jsonb_build_object(
+    'event', 'purchased', 'message', format('You bought “%s” for %s', v_title, v_amount)));
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_order_paid() from public, anon, authenticated;
+
+drop trigger if exists trg_orders_notify_paid on public.orders;
+create trigger trg_orders_notify_paid
+  after update of payment_status on public.orders
+  for each row
+  when (new.payment_status = 'paid' and old.payment_status is distinct from 'paid')
+  execute function public.notify_order_paid();
+
+-- --- chip and QR scans: tell the owner ------------------------------------------------
+-- chip_scan_events (verify-chip) records `state`; scan_events (/qr/verify) `result`.
+create or replace function public.notify_scan()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row     jsonb := to_jsonb(new);
+  v_result  text := coalesce(v_row->>'result', v_row->>'state', 'unknown');
+  v_art     public.artworks%rowtype;
+begin
+  if new.artwork_id is null then
+    return null;
+  end if;
+  select * into v_art from public.artworks where id = new.artwork_id;
+  if not found then
+    return null;
+  end if;
+
+  perform public.push_notification(coalesce(v_art.owner_id, v_art.creator_id), 'chip_scan', jsonb_build_object(
+    'event', case when v_result in ('authentic', 'verified') then 'verified' else 'mismatch' end,
+    'artwork_id', new.artwork_id, 'result', v_result,
+    'tag_kind', coalesce(v_row->>'tag_kind', 'nfc'),
+    'message', case when v_result in ('authentic', 'verified')
+                    then format('The tag on “%s” was scanned and verified', coalesce(v_art.title, 'your artwork'))
+                    else format('A scan of “%s” didn’t match its tag (%s)', coalesce(v_art.title, 'your artwork'), v_result)
+               end));
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_scan() from public, anon, authenticated;
+
+drop trigger if exists trg_chip_scan_events_notify on public.chip_scan_events;
+create trigger trg_chip_scan_events_notify
+  after insert on public.chip_scan_events
+  for each row execute function public.notify_scan();
+
+-- --- shipments: created or a new status -----------------------------------------------
+-- Both the owner and the creator follow a physical work's shipment.
+create or replace function public.notify_shipment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new     jsonb := to_jsonb(new);
+  v_status  text := coalesce(v_new->>'status_v2', v_new->>'status');
+  v_art     public.artworks%rowtype;
+  v_payload jsonb;
+begin
+  if tg_op = 'UPDATE'
+     and v_status is not distinct from coalesce(to_jsonb(old)->>'status_v2', to_jsonb(old)->>'status') then
+    return null;
+  end if;
+  select * into v_art from public.artworks where id = (v_new->>'artwork_id')::uuid;
+  if not found then
+    return null;
+  end if;
+
+  v_payload := jsonb_build_object(
+    'event', case when tg_op = 'INSERT' then 'created' else 'status' end,
+    'shipment_id', v_new->>'id', 'artwork_id', v_art.id, 'status', v_status,
+    'carrier', v_new->>'carrier', 'tracking_no', v_new->>'tracking_no',
+    'message', format('Shipment of “%s”: %s', coalesce(v_art.title, 'your artwork'),
+                      replace(coalesce(v_status, 'updated'), '_', ' ')));
+
+  perform public.push_notification(v_art.owner_id, 'shipment', v_payload);
+  if v_art.creator_id is distinct from v_art.owner_id then
+    perform public.push_notification(v_art.creator_id, 'shipment', v_payload);
+  end if;
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_shipment() from public, anon, authenticated;
+
+-- --- license requests and messages: tell the other party -----------------------------
+create or replace function public.notify_license()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new     jsonb := to_jsonb(new);
+  v_is_req  boolean := tg_table_name = 'license_requests';
+  v_req     jsonb;
+  v_author  uuid;
+  v_to      uuid;
+  v_title   text;
+  v_from    text;
+begin
+  if v_is_req then
+    v_req := v_new;
+    v_author := (v_req->>'requester_id')::uuid;
+    v_to := (v_req->>'owner_id')::uuid;
+  else
+    select to_jsonb(r) into v_req from public.license_requests r where r.id = (v_new->>'request_id')::uuid;
+    if v_req is null then
+      return null;
+    end if;
+    v_author := (v_new->>'author_id')::uuid;
+    v_to := case when v_author = (v_req->>'owner_id')::uuid
+                 then (v_req->>'requester_id')::uuid
+                 else (v_req->>'owner_id')::uuid end;
+  end if;
+
+  select coalesce(title, 'your artwork') into v_title from public.artworks where id = (v_req->>'artwork_id')::uuid;
+  select coalesce(display_name, username) into v_from from public.profiles where id = v_author;
+
+  perform public.push_notification(v_to, 'license', jsonb_build_object(
+    'event', case when v_is_req then 'requested' else 'message' end,
+    'request_id', v_req->>'id', 'artwork_id', v_req->>'artwork_id',
+    'message', case when v_is_req
+                    then format('%s asked to license “%s”', coalesce(v_from, 'Someone'), coalesce(v_title, 'your artwork'))
+                    else format('%s replied about licensing “%s”', coalesce(v_from, 'Someone'), coalesce(v_title, 'your artwork'))
+               end));
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_license() from public, anon, authenticated;
+
+-- shipments, scan_events and the license tables predate these migrations;
+-- attach only where they exist
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    drop trigger if exists trg_shipments_notify on public.shipments;
+    create trigger trg_shipments_notify
+      after insert or update on public.shipments
+      for each row execute function public.notify_shipment();
+  end if;
+
+  if to_regclass('public.scan_events') is not null then
+    drop trigger if exists trg_scan_events_notify on public.scan_events;
+    create trigger trg_scan_events_notify
+      after insert on public.scan_events
+      for each row execute function public.notify_scan();
+  end if;
+
+  if to_regclass('public.license_requests') is not null then
+    drop trigger if exists trg_license_requests_notify on public.license_requests;
+    create trigger trg_license_requests_notify
+      after insert on public.license_requests
+      for each row execute function public.notify_license();
+  end if;
+
+  if to_regclass('public.license_threads') is not null then
+    drop trigger if exists trg_license_threads_notify on public.license_threads;
+    create trigger trg_license_threads_notify
+      after insert on public.license_threads
+      for each row execute function public.notify_license();
+  end if;
+end $$;
+
+-- --- digests ----------------------------------------------------------------------------
+-- Profiles with mail owed whose digest period is up.
+create or replace function public.due_notification_digests(p_limit integer default 100)
+returns table (profile_id uuid, pending integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select n.profile_id, count(*)::integer
+  from public.notifications n
+  left join public.notification_settings s on s.profile_id = n.profile_id
+  where n.email_pending
+    and coalesce(s.digest, 'daily') <> 'off'
+    and (s.last_digest_at is null
+         or s.last_digest_at <= now() - case coalesce(s.digest, 'daily')
+                                          when 'weekly' then interval '7 days'
+                                          else interval '1 day'
+                                        end)
+  group by n.profile_id
+  order by min(n.created_at)
+  limit greatest(coalesce(p_limit, 100), 1);
+$$;
+
+revoke all on function public.due_notification_digests(integer) from public, anon, authenticated;
+
+-- Takes a profile's pending rows (oldest first, at most p_limit) off the queue
+-- and starts its next period. The API puts them back if the mail fails.
+create or replace function public.claim_notification_digest(p_profile_id uuid, p_limit integer default 50)
+returns setof public.notifications
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notification_settings (profile_id, last_digest_at)
+  values (p_profile_id, now())
+  on conflict (profile_id) do update set last_digest_at = now();
+
+  return query
+  update public.notifications n
+     set email_pending = false,
+         emailed_at = now()
+   where n.id in (
+           select id
+           from public.notifications
+           where profile_id = p_profile_id and email_pending
+           order by created_at
+           limit greatest(coalesce(p_limit, 50), 1)
+           for update skip locked
+         )
+  returning n.*;
+end;
+$$;
+
+revoke all on function public.claim_notification_digest(uuid, integer) from public, anon, authenticated;
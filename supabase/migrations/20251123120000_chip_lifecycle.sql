@@ -0,0 +1,393 @@
+-- === CHIP LIFECYCLE ===============================================================
+-- chips (what verify-chip checks) gets a lifecycle:
+--   unassigned  enrolled from a manufacturer batch, not on an artwork yet
+--   bound       on one artwork (chip_artworks); the artwork's owner manages it
+--   revoked     lost, damaged or replaced; verify-chip answers 'revoked'
+-- chip_batches   one manufacturer CSV import (API: POST /admin/chips/enroll)
+-- chip_artworks  one live binding per chip; owner_id follows the artwork when it
+--                changes hands, so the tag re-associates with the new owner
+-- chip_events    audit trail of every step
+-- Secrets are generated by the API with a CSPRNG when the CSV has none, and
+-- chips is no longer readable by clients.
+
+create table if not exists public.chip_batches (
+  id            uuid primary key default gen_random_uuid(),
+  manufacturer  text not null,
+  label         text,
+  kind          text not null default 'nfc' check (kind in ('nfc','qr')),
+  chip_count    integer not null default 0,
+  created_at    timestamptz not null default now()
+);
+
+alter table public.chips
+  add column if not exists kind          text not null default 'nfc',
+  add column if not exists status        text not null default 'unassigned',
+  add column if not exists batch_id      uuid references public.chip_batches(id),
+  add column if not exists revoked_at    timestamptz,
+  add column if not exists revoke_reason text,
+  add column if not exists replaced_by   uuid references public.chips(id);
+
+alter table public.chips drop constraint if exists chips_kind_check;
+alter table public.chips
+  add constraint chips_kind_check check (kind in ('nfc','qr'));
+alter table public.chips drop constraint if exists chips_status_check;
+alter table public.chips
+  add constraint chips_status_check check (status in ('unassigned','bound','revoked'));
+
+create index if not exists idx_chips_batch on public.chips (batch_id);
+
+alter table public.chip_artworks
+  add column if not exists bound_by uuid references public.profiles(id),
+  add column if not exists bound_at timestamptz not null default now(),
+  add column if not exists owner_id uuid references public.profiles(id);
+
+-- chips linked before this migration
+update public.chips c
+   set status = 'bound'
+ where c.status = 'unassigned'
+   and exists (select 1 from public.chip_artworks ca where ca.chip_id = c.id);
+
+update public.chip_artworks ca
+   set owner_id = a.owner_id
+  from public.artworks a
+ where a.id = ca.artwork_id and ca.owner_id is null;
+
+-- a chip authenticates one artwork
+create unique index if not exists uq_chip_artworks_chip on public.chip_artworks (chip_id);
+create index if not exists idx_chip_artworks_artwork on public.chip_artworks (artwork_id);
+
+create table if not exists public.chip_events (
+  id             uuid primary key default gen_random_uuid(),
+  chip_id        uuid not null references public.chips(id) on delete cascade,
+  artwork_id     uuid references public.artworks(id) on delete set null,
+  event          text not null
+                 check (event in ('enrolled','bound','unbound','transferred','revoked','replaced','rotated')),
+  actor_id       uuid references public.profiles(id),
+  from_owner_id  uuid references public.profiles(id),
+  to_owner_id    uuid references public.profiles(id),
+  note           text,
+  created_at     timestamptz not null default now()
+);
+
+create index if not exists idx_chip_events_chip on public.chip_events (chip_id, created_at desc);
+create index if not exists idx_chip_events_artwork on public.chip_events (artwork_id, created_at desc);
+
+-- read through the API (service role) only; secrets never reach a client
+alter table public.chips enable row level security;
+alter table public.chip_batches enable row level security;
+alter table public.chip_events enable row level security;
+
+-- --- enroll_chip_batch --------------------------------------------------------------
+-- p_chips: [{ tag_id, secret?, public_key?, counter? }]. Tags already enrolled
+-- are skipped and reported back, so a CSV can be re-imported safely.
+create or replace function public.enroll_chip_batch(
+  p_manufacturer text,
+  p_label        text,
+  p_kind         text,
+  p_chips        jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch    public.chip_batches%rowtype;
+  v_enrolled integer;
+  v_skipped  text[];
+begin
+  if coalesce(jsonb_array_length(p_chips), 0) = 0 then
+    raise exception 'No chips to enroll';
+  end if;
+
+  insert into public.chip_batches(manufacturer, label, kind)
+  values (p_manufacturer, p_label, coalesce(p_kind, 'nfc'))
+  returning * into v_batch;
+
+  with rows as (
+    select distinct on (r->>'tag_id')
+           r->>'tag_id'                         as tag_id,
+           nullif(r->>'secret', '')             as secret,
+           nullif(r->>'public_key', '')         as public_key,
+           coalesce((r->>'counter')::bigint, 0) as counter
+    from jsonb_array_elements(p_chips) r
+    where coalesce(r->>'tag_id', '') <> ''
+  ), added as (
+    insert into public.chips(tag_id, secret, public_key, counter, kind, status, batch_id)
+    select tag_id, secret, public_key, counter, v_batch.kind, 'unassigned', v_batch.id
+    from rows
+    on conflict (tag_id) do nothing
+    returning id
+  ), logged as (
+    insert into public.chip_events(chip_id, event, note)
+    select id, 'enrolled', format('%s batch %s', p_manufacturer, v_batch.id)
+    from added
+    returning chip_id
+  )
+  select count(*) into v_enrolled from logged;
+
+  select coalesce(array_agg(r->>'tag_id'), '{}') into v_skipped
+  from jsonb_array_elements(p_chips) r
+  where not exists (
+    select 1 from public.chips c where c.tag_id = r->>'tag_id' and c.batch_id = v_batch.id
+  );
+
+  update public.chip_batches set chip_count = v_enrolled where id = v_batch.id;
+
+  return jsonb_build_object('batch_id', v_batch.id, 'enrolled', v_enrolled, 'skipped', to_jsonb(v_skipped));
+end;
+$$;
+
+-- --- bind_chip ------------------------------------------------------------------------
+-- The creator puts an enrolled tag on a physical work they still hold.
+create or replace function public.bind_chip(p_tag_id text, p_artwork_id uuid, p_actor uuid)
+returns public.chips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_chip    public.chips%rowtype;
+  v_artwork public.artworks%rowtype;
+begin
+  select * into v_chip from public.chips where tag_id = p_tag_id for update;
+  if not found then
+    raise exception 'Chip not found';
+  end if;
+  if v_chip.status <> 'unassigned' then
+    raise exception 'Chip is %', v_chip.status;
+  end if;
+
+  select * into v_artwork from public.artworks where id = p_artwork_id;
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+  if v_artwork.type is distinct from 'physical' then
+    raise exception 'Only physical artworks take a chip';
+  end if;
+  if p_actor is distinct from v_artwork.creator_id or p_actor is distinct from v_artwork.owner_id then
+    raise exception 'Only the creator can bind a chip while they hold the artwork';
+  end if;
+
+  insert into public.chip_artworks(chip_id, artwork_id, bound_by, bound_at, owner_id)
+  values (v_chip.id, v_artwork.id, p_actor, now(), v_artwork.owner_id);
+
+  update public.chips set status = 'bound' where id = v_chip.id
+  returning * into v_chip;
+
+  insert into public.chip_events(chip_id, artwork_id, event, actor_id, to_owner_id)
+  values (v_chip.id, v_artwork.id, 'bound', p_actor, v_artwork.owner_id);
+
+  return v_chip;
+end;
+$$;
+
+-- --- unbind_chip ----------------------------------------------------------------------
+-- Undo a binding made by mistake. Once the work has changed hands a tag can only
+-- be revoked or replaced, never moved to another artwork.
+create or replace function public.unbind_chip(p_chip_id uuid, p_actor uuid)
+returns public.chips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_chip    public.chips%rowtype;
+  v_link    public.chip_artworks%rowtype;
+  v_artwork public.artworks%rowtype;
+begin
+  select * into v_chip from public.chips where id = p_chip_id for update;
+  if not found then
+    raise exception 'Chip not found';
+  end if;
+  select * into v_link from public.chip_artworks where chip_id = v_chip.id;
+  if not found then
+    raise exception 'Chip is not bound';
+  end if;
+
+  select * into v_artwork from public.artworks where id = v_link.artwork_id;
+  if p_actor is distinct from v_artwork.creator_id or p_actor is distinct from v_artwork.owner_id then
+    raise exception 'Only the creator can unbind a chip while they hold the artwork';
+  end if;
+  if exists (
+    select 1 from public.chip_events
+    where chip_id = v_chip.id and artwork_id = v_artwork.id and event = 'transferred'
+  ) then
+    raise exception 'This artwork has changed hands; revoke or replace the chip instead';
+  end if;
+
+  delete from public.chip_artworks where chip_id = v_chip.id;
+
+  update public.chips set status = 'unassigned' where id = v_chip.id
+  returning * into v_chip;
+
+  insert into public.chip_events(chip_id, artwork_id, event, actor_id, from_owner_id)
+  values (v_chip.id, v_artwork.id, 'unbound', p_actor, v_artwork.owner_id);
+
+  return v_chip;
+end;
+$$;
+
+-- --- revoke_chip ----------------------------------------------------------------------
+-- The owner (or support, p_actor null) retires a lost or damaged tag. Scans of
+-- it are answered 'revoked' from then on.
+create or replace function public.revoke_chip(p_chip_id uuid, p_actor uuid, p_reason text default null)
+returns public.chips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_chip public.chips%rowtype;
+  v_link public.chip_artworks%rowtype;
+begin
+  select * into v_chip from public.chips where id = p_chip_id for update;
+  if not found then
+    raise exception 'Chip not found';
+  end if;
+  if v_chip.status = 'revoked' then
+    return v_chip;
+  end if;
+
+  select * into v_link from public.chip_artworks where chip_id = v_chip.id;
+  if p_actor is not null and p_actor is distinct from v_link.owner_id then
+    raise exception 'Only the owner of the artwork can revoke its chip';
+  end if;
+
+  delete from public.chip_artworks where chip_id = v_chip.id;
+
+  update public.chips
+     set status = 'revoked', revoked_at = now(), revoke_reason = p_reason
+   where id = v_chip.id
+  returning * into v_chip;
+
+  insert into public.chip_events(chip_id, artwork_id, event, actor_id, from_owner_id, note)
+  values (v_chip.id, v_link.artwork_id, 'revoked', p_actor, v_link.owner_id, p_reason);
+
+  return v_chip;
+end;
+$$;
+
+-- --- replace_chip ---------------------------------------------------------------------
+-- Revokes the old tag and binds an enrolled one to the same artwork, for its
+-- current owner (no creator check: the owner holds the work now).
+create or replace function public.replace_chip(
+  p_chip_id    uuid,
+  p_new_tag_id text,
+  p_actor      uuid,
+  p_reason     text default null
+)
+returns public.chips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old  public.chips%rowtype;
+  v_new  public.chips%rowtype;
+  v_link public.chip_artworks%rowtype;
+begin
+  select * into v_old from public.chips where id = p_chip_id for update;
+  if not found then
+    raise exception 'Chip not found';
+  end if;
+  select * into v_link from public.chip_artworks where chip_id = v_old.id;
+  if not found then
+    raise exception 'Chip is not bound';
+  end if;
+  if p_actor is not null and p_actor is distinct from v_link.owner_id then
+    raise exception 'Only the owner of the artwork can replace its chip';
+  end if;
+
+  select * into v_new from public.chips where tag_id = p_new_tag_id for update;
+  if not found then
+    raise exception 'Replacement chip not found';
+  end if;
+  if v_new.status <> 'unassigned' then
+    raise exception 'Replacement chip is %', v_new.status;
+  end if;
+
+  delete from public.chip_artworks where chip_id = v_old.id;
+  update public.chips
+     set status = 'revoked', revoked_at = now(), revoke_reason = coalesce(p_reason, 'replaced'), replaced_by = v_new.id
+   where id = v_old.id;
+
+  insert into public.chip_artworks(chip_id, artwork_id, bound_by, bound_at, owner_id)
+  values (v_new.id, v_link.artwork_id, p_actor, now(), v_link.owner_id);
+  update public.chips set status = 'bound' where id = v_new.id
+  returning * into v_new;
+
+  insert into public.chip_events(chip_id, artwork_id, event, actor_id, from_owner_id, note)
+  values (v_old.id, v_link.artwork_id, 'replaced', p_actor, v_link.owner_id, coalesce(p_reason, v_new.tag_id));
+  insert into public.chip_events(chip_id, artwork_id, event, actor_id, to_owner_id, note)
+  values (v_new.id, v_link.artwork_id, 'bound', p_actor, v_link.owner_id, format('replaces %s', v_old.tag_id));
+
+  return v_new;
+end;
+$$;
+
+-- --- rotate_chip_secret -----------------------------------------------------------------
+-- Support re-keys a reprogrammable tag; the counter starts over with the new key.
+create or replace function public.rotate_chip_secret(p_chip_id uuid, p_secret text)
+returns public.chips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_chip public.chips%rowtype;
+begin
+  if coalesce(length(p_secret), 0) < 32 then
+    raise exception 'Secret is too short';
+  end if;
+
+  update public.chips
+     set secret = p_secret, counter = 0
+   where id = p_chip_id and status <> 'revoked'
+  returning * into v_chip;
+  if not found then
+    raise exception 'Chip not found or revoked';
+  end if;
+
+  insert into public.chip_events(chip_id, artwork_id, event)
+  select v_chip.id, (select artwork_id from public.chip_artworks where chip_id = v_chip.id), 'rotated';
+
+  return v_chip;
+end;
+$$;
+
+-- --- ownership transfer: bound chips follow the artwork ---------------------------------
+create or replace function public.chips_follow_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with moved as (
+    update public.chip_artworks
+       set owner_id = new.owner_id
+     where artwork_id = new.id
+    returning chip_id
+  )
+  insert into public.chip_events(chip_id, artwork_id, event, from_owner_id, to_owner_id)
+  select chip_id, new.id, 'transferred', old.owner_id, new.owner_id
+  from moved;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_artworks_chips_follow_owner on public.artworks;
+create trigger trg_artworks_chips_follow_owner
+  after update of owner_id on public.artworks
+  for each row
+  when (new.owner_id is distinct from old.owner_id)
+  execute function public.chips_follow_owner();
+
+revoke all on function public.enroll_chip_batch(text, text, text, jsonb) from public, anon, authenticated;
+revoke all on function public.bind_chip(text, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.unbind_chip(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.revoke_chip(uuid, uuid, text) from public, anon, authenticated;
+revoke all on function public.replace_chip(uuid, text, uuid, text) from public, anon, authenticated;
+revoke all on function public.rotate_chip_secret(uuid, text) from public, anon, authenticated;
+revoke all on function public.chips_follow_owner() from public, anon, authenticated;
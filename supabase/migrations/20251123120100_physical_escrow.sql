@@ -0,0 +1,845 @@
+-- === PHYSICAL ESCROW ================================================================
+-- A paid order for a physical one-of-one no longer hands the work over at payment
+-- time. settle_order writes the payout splits and the sale, and the order's escrow
+-- goes through these states:
+--   held      the seller still owns the artwork and the splits can't be batched.
+--             The carrier reporting 'delivered' starts the inspection window
+--             (platform_config.escrow_inspection_hours).
+--   released  the buyer confirmed receipt, or the window passed without a dispute.
+--             Ownership, physical_status and the chips move to the buyer, and the
+--             payouts become available.
+--   disputed  the buyer opened a dispute inside the window. Nothing is released
+--             until support resolves it, either by releasing or by refunding.
+--   refunded  refunded before release, so nothing has to be handed back.
+-- Every payment path settles through settle_order, so buy_fixed_price, the
+-- provider webhooks, offers and auctions all escrow physical works the same way.
+-- Bundles settle as before.
+
+alter table public.orders
+  add column if not exists escrow_status         text,
+  add column if not exists escrow_shipment_id    uuid,
+  add column if not exists escrow_delivered_at   timestamptz,
+  add column if not exists escrow_release_after  timestamptz,
+  add column if not exists escrow_released_at    timestamptz,
+  add column if not exists escrow_release_reason text;
+
+alter table public.orders drop constraint if exists orders_escrow_status_check;
+alter table public.orders
+  add constraint orders_escrow_status_check
+  check (escrow_status in ('held','released','disputed','refunded'));
+
+create index if not exists idx_orders_escrow_due
+  on public.orders (escrow_release_after)
+  where escrow_status = 'held';
+create index if not exists idx_orders_escrow_artwork
+  on public.orders (artwork_id)
+  where escrow_status in ('held','disputed');
+
+alter table public.platform_config
+  add column if not exists escrow_inspection_hours integer not null default 72;
+
+create table if not exists public.order_disputes (
+  id               uuid primary key default gen_random_uuid(),
+  order_id         uuid not null references public.orders(id),
+  opened_by        uuid not null references public.profiles(id),
+  reason           text not null,
+  status           text not null default 'open' check (status in ('open','released','refunded')),
+  resolution_note  text,
+  created_at       timestamptz not null default now(),
+  resolved_at      timestamptz
+);
+
+-- one open dispute per order
+create unique index if not exists uq_order_disputes_open
+  on public.order_disputes (order_id)
+  where status = 'open';
+
+alter table public.order_disputes enable row level security;
+drop policy if exists order_disputes_select_involved on public.order_disputes;
+create policy order_disputes_select_involved
+  on public.order_disputes for select
+  to authenticated
+  using (exists (
+    select 1 from public.orders o
+    where o.id = order_id and auth.uid() in (o.buyer_id, o.seller_id)
+  ));
+
+-- shipments predates the migrations; when it exists it can name the order it ships
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    alter table public.shipments add column if not exists order_id uuid references public.orders(id);
+  end if;
+end $$;
+
+-- --- lock: an artwork in escrow can't be sold again ----------------------------------
+create or replace function public.artwork_in_escrow(p_artwork_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.orders
+    where artwork_id = p_artwork_id and escrow_status in ('held','disputed')
+  );
+$$;
+
+create or replace function public.escrow_sale_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'listings' and new.status is distinct from 'active' then
+    return new;
+  end if;
+  if public.artwork_in_escrow(new.artwork_id) then
+    raise exception 'This artwork is on its way to a buyer';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_listings_escrow_lock on public.listings;
+create trigger trg_listings_escrow_lock
+  before insert or update of status, artwork_id on public.listings
+  for each row execute function public.escrow_sale_lock();
+
+drop trigger if exists trg_orders_escrow_lock on public.orders;
+create trigger trg_orders_escrow_lock
+  before insert on public.orders
+  for each row execute function public.escrow_sale_lock();
+
+drop trigger if exists trg_bundle_items_escrow_lock on public.bundle_items;
+create trigger trg_bundle_items_escrow_lock
+  before insert on public.bundle_items
+  for each row execute function public.escrow_sale_lock();
+
+-- --- settle_order: physical one-of-ones are held in escrow ----------------------------
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_edition        text;
+  v_held           integer;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+  v_escrow         boolean;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  if v_listing.is_bundle then
+    return public.settle_bundle_order(v_order.id, p_chain_id, p_tx_hash);
+  end if;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id
+  for update;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+  v_escrow  := coalesce(v_artwork.type = 'physical', false) and v_edition = 'unique';
+
+  -- supply: a paid order can only be refused here if its checkout hold lapsed
+  if v_edition <> 'unique' and v_listing.id is not null and v_listing.quantity is not null
+     and v_listing.quantity_sold + v_order.quantity > v_listing.quantity then
+    raise exception 'Sold out: % of % left', greatest(v_listing.quantity - v_listing.quantity_sold, 0), v_order.quantity;
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership (a physical work waits for release_order_escrow)
+  if not v_escrow then
+    if v_edition = 'open' and v_order.seller_id = v_artwork.creator_id then
+      -- primary sale of an open edition issues new units
+      update public.artworks
+      set editions_issued = editions_issued + v_order.quantity
+      where id = v_artwork.id;
+    elsif v_edition <> 'unique' then
+      select quantity into v_held
+      from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id
+      for update;
+      if coalesce(v_held, 0) < v_order.quantity then
+        raise exception 'Seller holds % of this edition, order is for %', coalesce(v_held, 0), v_order.quantity;
+      end if;
+
+      update public.ownerships
+        set quantity = quantity - v_order.quantity, updated_at = now()
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+      delete from public.ownerships
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+    else
+      -- ERC-721 semantics
+      update public.ownerships
+        set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+      delete from public.ownerships
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+      update public.artworks
+      set owner_id = v_order.buyer_id
+      where id = v_order.artwork_id;
+    end if;
+
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = public.ownerships.quantity + excluded.quantity,
+                 updated_at = now();
+  end if;
+
+  -- listing: a one-of-one ends on sale; an edition listing when it sells out
+  if v_listing.id is not null then
+    update public.listings
+    set quantity_sold = quantity_sold + v_order.quantity,
+        status = case
+          when v_edition = 'unique' then 'ended'
+          when quantity is not null and quantity_sold + v_order.quantity >= quantity then 'ended'
+          else status
+        end,
+        sold_out_at = case
+          when v_edition <> 'unique' and quantity is not null and quantity_sold + v_order.quantity >= quantity then now()
+          else sold_out_at
+        end,
+        updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- sales history (price charts, Studio)
+  insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.seller_id, v_total, v_currency, now(), p_tx_hash);
+
+  -- provenance (escrow records it on release)
+  if not v_escrow then
+    insert into public.provenance_events(
+      artwork_id, from_owner_id, to_owner_id, event_type,
+      quantity, amount, currency, source, chain_id, tx_hash
+    )
+    values (
+      v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+      v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+    );
+  end if;
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = case when v_escrow then 'pending' else 'transferred' end,
+      escrow_status   = case when v_escrow then 'held' else escrow_status end,
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_order(uuid, bigint, text) from public, anon, authenticated;
+
+-- --- release_order_escrow -----------------------------------------------------------------
+-- Internal. Hands the work to the buyer: ownership, physical_status, provenance
+-- (chips follow through trg_artworks_chips_follow_owner) and frees the payouts.
+create or replace function public.release_order_escrow(p_order_id uuid, p_reason text)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order   public.orders%rowtype;
+  v_artwork public.artworks%rowtype;
+  v_base    jsonb;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+  if v_order.escrow_status = 'released' then
+    return v_order;
+  end if;
+  if v_order.escrow_status is distinct from 'held' then
+    raise exception 'Escrow is %', coalesce(v_order.escrow_status, 'not used for this order');
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  select * into v_artwork from public.artworks where id = v_order.artwork_id for update;
+  if v_artwork.owner_id is distinct from v_order.seller_id then
+    raise exception 'Seller no longer owns this artwork';
+  end if;
+
+  -- ERC-721 semantics, as settle_order does for everything else
+  update public.ownerships
+    set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+  delete from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+  insert into public.ownerships(artwork_id, owner_id, quantity)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+  on conflict (artwork_id, owner_id)
+  do update set quantity = public.ownerships.quantity + excluded.quantity,
+               updated_at = now();
+
+  update public.artworks
+  set owner_id = v_order.buyer_id,
+      physical_status = 'with_buyer'
+  where id = v_order.artwork_id;
+
+  insert into public.provenance_events(
+    artwork_id, from_owner_id, to_owner_id, event_type,
+    quantity, amount, currency, source, chain_id, tx_hash
+  )
+  values (
+    v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+    v_order.quantity, v_order.total_amount, v_order.currency, 'system', v_order.chain_id, v_order.tx_hash
+  );
+
+  update public.orders
+  set escrow_status         = 'released',
+      escrow_released_at    = now(),
+      escrow_release_reason = p_reason,
+      delivery_status       = 'transferred'
+  where id = v_order.id
+  returning * into v_order;
+
+  v_base := jsonb_build_object('order_id', v_order.id, 'listing_id', v_order.listing_id, 'artwork_id', v_order.artwork_id,
+                               'amount', v_order.total_amount, 'currency', v_order.currency, 'event', 'escrow_released');
+  perform public.push_notification(v_order.seller_id, 'sale', v_base || jsonb_build_object(
+    'message', format('Payment for “%s” was released to you', coalesce(v_artwork.title, 'your artwork'))));
+  perform public.push_notification(v_order.buyer_id, 'sale', v_base || jsonb_build_object(
+    'message', format('“%s” is now in your collection', coalesce(v_artwork.title, 'the artwork'))));
+
+  return v_order;
+end;
+$$;
+
+-- --- confirm_escrow_receipt ------------------------------------------------------------------
+-- The buyer says the work arrived; no need to wait out the inspection window.
+create or replace function public.confirm_escrow_receipt(p_order_id uuid, p_actor uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+  if p_actor is distinct from v_order.buyer_id then
+    raise exception 'Only the buyer can confirm receipt';
+  end if;
+  if v_order.escrow_status = 'disputed' then
+    raise exception 'This order is disputed; support will resolve it';
+  end if;
+  return public.release_order_escrow(v_order.id, 'buyer_confirmed');
+end;
+$$;
+
+-- --- shipments: delivery starts the inspection window ------------------------------------
+-- The escrow follows the latest shipment of the artwork (or the one naming the
+-- order). carrier-webhook's 'delivered' opens the window; the buyer's
+-- confirm_shipment_received (buyer_confirmed_at) releases right away.
+create or replace function public.escrow_track_shipment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new       jsonb := to_jsonb(new);
+  v_old       jsonb := case when tg_op = 'UPDATE' then to_jsonb(old) end;
+  v_status    text := coalesce(v_new->>'status_v2', v_new->>'status');
+  v_order     public.orders%rowtype;
+  v_hours     integer;
+  v_delivered timestamptz;
+  v_title     text;
+begin
+  select * into v_order
+  from public.orders
+  where escrow_status in ('held','disputed')
+    and case when v_new->>'order_id' is not null
+             then id = (v_new->>'order_id')::uuid
+             else artwork_id = (v_new->>'artwork_id')::uuid end
+  order by settled_at desc
+  limit 1
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    update public.orders set escrow_shipment_id = new.id where id = v_order.id;
+    v_order.escrow_shipment_id := new.id;
+  end if;
+  if v_order.escrow_shipment_id is distinct from new.id then
+    return null;
+  end if;
+
+  if v_new->>'buyer_confirmed_at' is not null and v_old->>'buyer_confirmed_at' is null
+     and v_order.escrow_status = 'held' then
+    perform public.release_order_escrow(v_order.id, 'buyer_confirmed');
+    return null;
+  end if;
+
+  if v_status = 'delivered' and v_order.escrow_delivered_at is null then
+    select escrow_inspection_hours into v_hours from public.platform_config where id = true;
+    v_delivered := coalesce((v_new->>'delivered_at')::timestamptz, now());
+
+    update public.orders
+    set escrow_delivered_at  = v_delivered,
+        escrow_release_after = v_delivered + make_interval(hours => coalesce(v_hours, 72))
+    where id = v_order.id
+    returning * into v_order;
+
+    select coalesce(title, 'your artwork') into v_title from public.artworks where id = v_order.artwork_id;
+    perform public.push_notification(v_order.buyer_id, 'shipment', jsonb_build_object(
+      'event', 'inspection', 'order_id', v_order.id, 'artwork_id', v_order.artwork_id,
+      'shipment_id', new.id, 'status', v_status,
+      'message', format('“%s” was delivered. Confirm receipt, or report a problem before %s',
+                        v_title, to_char(v_order.escrow_release_after at time zone 'UTC', 'Mon DD HH24:MI "UTC"'))));
+  end if;
+  return null;
+end;
+$$;
+
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    drop trigger if exists trg_shipments_escrow on public.shipments;
+    create trigger trg_shipments_escrow
+      after insert or update on public.shipments
+      for each row execute function public.escrow_track_shipment();
+  end if;
+end $$;
+
+-- --- release_due_escrows: job -----------------------------------------------------------------
+-- One row per order whose inspection window passed without a dispute.
+create or replace function public.release_due_escrows(p_limit integer default 100)
+returns table (order_id uuid, buyer_id uuid, seller_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  for v_id in
+    select o.id from public.orders o
+    where o.escrow_status = 'held' and o.escrow_release_after <= now()
+    order by o.escrow_release_after
+    limit p_limit
+    for update skip locked
+  loop
+    return query select r.id, r.buyer_id, r.seller_id from public.release_order_escrow(v_id, 'inspection_passed') r;
+  end loop;
+end;
+$$;
+
+-- --- disputes -------------------------------------------------------------------------------------
+-- The buyer can dispute while the escrow is held: before delivery, or inside the
+-- inspection window. It freezes release until support decides.
+create or replace function public.open_order_dispute(p_order_id uuid, p_actor uuid, p_reason text)
+returns public.order_disputes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order   public.orders%rowtype;
+  v_dispute public.order_disputes%rowtype;
+  v_title   text;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+  if p_actor is distinct from v_order.buyer_id then
+    raise exception 'Only the buyer can open a dispute';
+  end if;
+  if v_order.escrow_status = 'disputed' then
+    raise exception 'A dispute is already open for this order';
+  end if;
+  if v_order.escrow_status is distinct from 'held' then
+    raise exception 'Escrow is %', coalesce(v_order.escrow_status, 'not used for this order');
+  end if;
+  if v_order.escrow_release_after is not null and v_order.escrow_release_after <= now() then
+    raise exception 'The inspection window has closed';
+  end if;
+  if coalesce(btrim(p_reason), '') = '' then
+    raise exception 'Say what went wrong';
+  end if;
+
+  insert into public.order_disputes(order_id, opened_by, reason)
+  values (v_order.id, p_actor, btrim(p_reason))
+  returning * into v_dispute;
+
+  update public.orders set escrow_status = 'disputed' where id = v_order.id;
+
+  select coalesce(title, 'your artwork') into v_title from public.artworks where id = v_order.artwork_id;
+  perform public.push_notification(v_order.seller_id, 'sale', jsonb_build_object(
+    'event', 'dispute_opened', 'order_id', v_order.id, 'artwork_id', v_order.artwork_id,
+    'amount', v_order.total_amount, 'currency', v_order.currency,
+    'message', format('The buyer of “%s” reported a problem; the payment stays on hold', v_title)));
+
+  return v_dispute;
+end;
+$$;
+
+-- Support's decision. 'release' hands the work over now; 'refund' keeps the
+-- escrow frozen until the API's refund lands (refund_order ends it as 'refunded').
+create or replace function public.resolve_order_dispute(p_dispute_id uuid, p_outcome text, p_note text default null)
+returns public.order_disputes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_dispute public.order_disputes%rowtype;
+  v_order   public.orders%rowtype;
+  v_title   text;
+  v_payload jsonb;
+begin
+  if p_outcome not in ('release','refund') then
+    raise exception 'Outcome must be release or refund';
+  end if;
+
+  select * into v_dispute from public.order_disputes where id = p_dispute_id for update;
+  if not found then
+    raise exception 'Dispute not found';
+  end if;
+  if v_dispute.status <> 'open' then
+    raise exception 'Dispute is %', v_dispute.status;
+  end if;
+
+  select * into v_order from public.orders where id = v_dispute.order_id for update;
+
+  update public.order_disputes
+  set status = case when p_outcome = 'release' then 'released' else 'refunded' end,
+      resolution_note = p_note,
+      resolved_at = now()
+  where id = v_dispute.id
+  returning * into v_dispute;
+
+  if p_outcome = 'release' then
+    update public.orders set escrow_status = 'held' where id = v_order.id;
+    perform public.release_order_escrow(v_order.id, 'dispute_resolved');
+  end if;
+
+  select coalesce(title, 'the artwork') into v_title from public.artworks where id = v_order.artwork_id;
+  v_payload := jsonb_build_object(
+    'event', 'dispute_resolved', 'order_id', v_order.id, 'artwork_id', v_order.artwork_id,
+    'amount', v_order.total_amount, 'currency', v_order.currency, 'status', v_dispute.status,
+    'message', case when p_outcome = 'release'
+                    then format('The dispute over “%s” was closed and the sale completed', v_title)
+                    else format('The dispute over “%s” was settled with a refund', v_title) end);
+  perform public.push_notification(v_order.buyer_id, 'sale', v_payload);
+  perform public.push_notification(v_order.seller_id, 'sale', v_payload);
+
+  return v_dispute;
+end;
+$$;
+
+revoke all on function public.artwork_in_escrow(uuid) from public, anon, authenticated;
+revoke all on function public.escrow_sale_lock() from public, anon, authenticated;
+revoke all on function public.release_order_escrow(uuid, text) from public, anon, authenticated;
+revoke all on function public.confirm_escrow_receipt(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.escrow_track_shipment() from public, anon, authenticated;
+revoke all on function public.release_due_escrows(integer) from public, anon, authenticated;
+revoke all on function public.open_order_dispute(uuid, uuid, text) from public, anon, authenticated;
+revoke all on function public.resolve_order_dispute(uuid, text, text) from public, anon, authenticated;
+
+-- --- refund_order: an order still in escrow only reverses the money --------------------
+create or replace function public.refund_order(p_refund_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund  public.refunds%rowtype;
+  v_order   public.orders%rowtype;
+  v_edition text;
+  v_held    integer;
+  v_escrow  boolean;
+begin
+  select * into v_refund from public.refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund not found';
+  end if;
+
+  select * into v_order from public.orders where id = v_refund.order_id for update;
+
+  if v_refund.status = 'succeeded' then
+    return v_order;
+  end if;
+  if v_refund.status <> 'processing' then
+    raise exception 'Refund is %', v_refund.status;
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  if exists (select 1 from public.listings where id = v_order.listing_id and is_bundle) then
+    return public.refund_bundle_order(v_refund.id);
+  end if;
+
+  select coalesce(edition_type, 'unique') into v_edition
+  from public.artworks
+  where id = v_order.artwork_id;
+
+  -- still in escrow: the seller never handed the work over
+  v_escrow := coalesce(v_order.escrow_status in ('held','disputed'), false);
+
+  -- the buyer must still hold what they bought
+  if not v_escrow then
+    select quantity into v_held
+    from public.ownerships
+    where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id
+    for update;
+    if coalesce(v_held, 0) < v_order.quantity then
+      raise exception 'Buyer no longer holds this artwork';
+    end if;
+  end if;
+
+  -- reverse payout splits
+  insert into public.payout_splits(
+    order_id, recipient_type, recipient_profile_id, recipient_wallet_address, artwork_id, amount, currency, reversal_of
+  )
+  select s.order_id, s.recipient_type, s.recipient_profile_id, s.recipient_wallet_address, s.artwork_id, -s.amount, s.currency, s.id
+  from public.payout_splits s
+  where s.order_id = v_order.id and s.reversal_of is null
+  on conflict (reversal_of) where reversal_of is not null do nothing;
+
+  -- ownership back to the seller (an open edition's issued units stay issued)
+  if not v_escrow then
+    update public.ownerships
+      set quantity = quantity - v_order.quantity, updated_at = now()
+      where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+    delete from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id and quantity <= 0;
+
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (v_order.artwork_id, v_order.seller_id, v_order.quantity)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = public.ownerships.quantity + excluded.quantity,
+                 updated_at = now();
+  end if;
+
+  if v_edition = 'unique' then
+    update public.artworks
+    set owner_id = v_order.seller_id
+    where id = v_order.artwork_id and owner_id = v_order.buyer_id;
+
+    if v_refund.restore_listing and v_order.listing_id is not null then
+      update public.listings
+      set status = 'active', quantity_sold = greatest(quantity_sold - v_order.quantity, 0), updated_at = now()
+      where id = v_order.listing_id and status = 'ended';
+    end if;
+  elsif v_order.listing_id is not null then
+    -- the units are offered again on a live listing, or on a sold-out one when restoring
+    update public.listings
+    set quantity_sold = greatest(quantity_sold - v_order.quantity, 0),
+        status        = 'active',
+        sold_out_at   = null,
+        updated_at    = now()
+    where id = v_order.listing_id
+      and (status = 'active' or (status = 'ended' and sold_out_at is not null and v_refund.restore_listing));
+  end if;
+
+  -- provenance (an escrowed work never left the seller)
+  if not v_escrow then
+    insert into public.provenance_events(
+      artwork_id, from_owner_id, to_owner_id, event_type,
+      quantity, amount, currency, source, chain_id, tx_hash
+    )
+    values (
+      v_order.artwork_id, v_order.buyer_id, v_order.seller_id, 'refund',
+      v_order.quantity, v_refund.amount, v_refund.currency, 'system',
+      case when v_refund.provider_refund_id like '0x%' then v_order.chain_id end,
+      case when v_refund.provider_refund_id like '0x%' then v_refund.provider_refund_id end
+    );
+  end if;
+
+  update public.refunds
+  set status = 'succeeded', completed_at = now(), updated_at = now(), last_error = null
+  where id = v_refund.id;
+
+  update public.orders
+  set payment_status = 'refunded',
+      refunded_at    = now(),
+      escrow_status  = case when v_escrow then 'refunded' else escrow_status end
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.refund_order(uuid) from public, anon, authenticated;
+-- --- payouts: escrowed splits are earned but not available yet ----------------------------
+create or replace view public.payout_balances as
+select
+  s.recipient_profile_id,
+  s.currency,
+  coalesce(sum(s.amount), 0)                                             as earned,
+  coalesce(sum(s.amount) filter (where b.status = 'sent'), 0)            as paid_out,
+  coalesce(sum(s.amount) filter (where b.status = 'pending'), 0)         as in_payout,
+  coalesce(sum(s.amount) filter (where s.payout_batch_id is null
+                                    and o.escrow_status is distinct from 'held'
+                                    and o.escrow_status is distinct from 'disputed'), 0) as available,
+  max(s.created_at)                                                      as last_earned_at,
+  coalesce(sum(s.amount) filter (where o.escrow_status in ('held','disputed')), 0) as in_escrow
+from public.payout_splits s
+join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+left join public.payout_batches b on b.id = s.payout_batch_id
+where s.recipient_profile_id is not null
+group by s.recipient_profile_id, s.currency;
+
+revoke all on public.payout_balances from public, anon, authenticated;
+
+-- same, for what a batch picks up
+create or replace function public.create_payout_batch(
+  p_recipient uuid,
+  p_currency  text,
+  p_method    text default null
+)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch  public.payout_batches%rowtype;
+  v_amount numeric;
+  v_count  integer;
+begin
+  -- serialize batch creation per recipient
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_recipient::text));
+
+  select coalesce(sum(s.amount), 0), count(*)
+    into v_amount, v_count
+  from public.payout_splits s
+  join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+  where s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null
+    and o.escrow_status is distinct from 'held'
+    and o.escrow_status is distinct from 'disputed';
+
+  if v_amount <= 0 then
+    raise exception 'Nothing to pay out';
+  end if;
+
+  insert into public.payout_batches(recipient_profile_id, currency, amount, split_count, method)
+  values (p_recipient, p_currency, v_amount, v_count, p_method)
+  returning * into v_batch;
+
+  update public.payout_splits s
+     set payout_batch_id = v_batch.id
+  from public.orders o
+  where o.id = s.order_id and o.payment_status in ('paid','refunded')
+    and s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null
+    and o.escrow_status is distinct from 'held'
+    and o.escrow_status is distinct from 'disputed';
+
+  return v_batch;
+end;
+$$;
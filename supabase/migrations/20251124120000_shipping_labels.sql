@@ -0,0 +1,54 @@
+-- === SHIPPING LABELS ================================================================
+-- Outbound shipping through a carrier provider (EasyPost, AfterShip or the offline
+-- fake, see server/src/lib/carriers). The API quotes rates for a packed artwork and
+-- keeps the quote here, so what gets bought is exactly what was priced. Buying a rate
+-- creates the shipment with its tracking number already set and stores the label
+-- PDF in the private shipping-labels bucket.
+
+create table if not exists public.shipping_quotes (
+  id            uuid primary key default gen_random_uuid(),
+  artwork_id    uuid not null references public.artworks(id),
+  requested_by  uuid not null references public.profiles(id),
+  provider      text not null,
+  from_address  jsonb not null,
+  to_address    jsonb not null,
+  parcel        jsonb not null,
+  -- normalized rates, including the provider refs needed to buy one
+  rates         jsonb not null default '[]'::jsonb,
+  expires_at    timestamptz not null default now() + interval '24 hours',
+  -- set when a rate is being bought; cleared again if the purchase fails
+  purchased_at  timestamptz,
+  rate_id       text,
+  shipment_id   uuid,
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_shipping_quotes_artwork on public.shipping_quotes (artwork_id, created_at desc);
+
+-- quotes carry provider refs; only the API reads them
+alter table public.shipping_quotes enable row level security;
+
+-- shipments predates the migrations
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    alter table public.shipments
+      add column if not exists label_provider        text,
+      add column if not exists label_service         text,
+      add column if not exists label_cost            numeric(18,2),
+      add column if not exists label_currency        text,
+      add column if not exists label_path            text,
+      add column if not exists provider_shipment_id  text,
+      add column if not exists quote_id              uuid references public.shipping_quotes(id);
+  end if;
+end $$;
+
+-- labels are read through signed URLs minted by the API
+do $$
+begin
+  if to_regclass('storage.buckets') is not null then
+    insert into storage.buckets (id, name, public)
+    values ('shipping-labels', 'shipping-labels', false)
+    on conflict (id) do nothing;
+  end if;
+end $$;
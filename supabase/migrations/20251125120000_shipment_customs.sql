@@ -0,0 +1,89 @@
+-- === SHIPMENT INSURANCE & CUSTOMS ===================================================
+-- Shipments carry what the parcel is worth and what customs needs to clear it:
+--   declared_value / declared_currency   what the work sold for (sale currency). It
+--                                        defaults from the order being shipped, or
+--                                        from the artwork's latest paid sale.
+--   insured_value / insurance_cost       coverage bought through the carrier provider,
+--                                        in the fiat currency the carrier bills in
+--   hs_code, customs_description,
+--   origin_country                       the declaration; the API suggests them from
+--                                        the artwork's medium, year and dimensions
+--   customs_doc_path / customs_doc_kind  the generated commercial invoice or CN23,
+--                                        stored next to the label
+-- from_address / to_address are kept on the shipment so the paperwork can be
+-- regenerated. Labels bought through a provider fill all of this in.
+
+alter table public.shipping_quotes
+  add column if not exists declared_value     numeric(38,18),
+  add column if not exists declared_currency  text,
+  add column if not exists insurance          jsonb,
+  add column if not exists customs            jsonb;
+
+-- shipments predates the migrations
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    alter table public.shipments
+      add column if not exists from_address         jsonb,
+      add column if not exists to_address           jsonb,
+      add column if not exists declared_value       numeric(38,18),
+      add column if not exists declared_currency    text,
+      add column if not exists insured_value        numeric(18,2),
+      add column if not exists insured_currency     text,
+      add column if not exists insurance_cost       numeric(18,2),
+      add column if not exists insurance_currency   text,
+      add column if not exists hs_code              text,
+      add column if not exists customs_description  text,
+      add column if not exists origin_country       text,
+      add column if not exists customs_doc_kind     text,
+      add column if not exists customs_doc_path     text;
+
+    alter table public.shipments drop constraint if exists shipments_customs_doc_kind_check;
+    alter table public.shipments
+      add constraint shipments_customs_doc_kind_check
+      check (customs_doc_kind in ('commercial_invoice','cn23'));
+  end if;
+end $$;
+
+-- --- declared value defaults from the sale -------------------------------------------
+-- Covers every writer, including shipments entered by hand in the app.
+create or replace function public.shipments_default_declared_value()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order record;
+begin
+  if new.declared_value is not null then
+    return new;
+  end if;
+
+  select o.total_amount, o.currency into v_order
+  from public.orders o
+  where o.payment_status = 'paid'
+    and (case when new.order_id is not null then o.id = new.order_id
+              else o.artwork_id = new.artwork_id end)
+  order by o.settled_at desc nulls last
+  limit 1;
+
+  if found then
+    new.declared_value := v_order.total_amount;
+    new.declared_currency := coalesce(new.declared_currency, upper(v_order.currency));
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function public.shipments_default_declared_value() from public, anon, authenticated;
+
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    drop trigger if exists trg_shipments_declared_value on public.shipments;
+    create trigger trg_shipments_declared_value
+      before insert on public.shipments
+      for each row execute function public.shipments_default_declared_value();
+  end if;
+end $$;
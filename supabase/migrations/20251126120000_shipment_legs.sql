@@ -0,0 +1,117 @@
+-- === SHIPMENT LEGS & CONDITION REPORTS ===============================================
+-- A shipment can move through several hands (gallery → framer → collector). Each leg
+-- has its own carrier, tracking number and handler. At every handoff the receiving
+-- side files a condition report (condition, notes, photos, signature); reports are
+-- shipment_events rows tied to their leg, so the timeline doubles as the chain of
+-- custody. Photos and drawn signatures live in the private condition-reports bucket
+-- under <shipment>/<leg>/ and are read through signed URLs minted by the API.
+--
+-- A shipment without legs behaves as before: its own carrier/tracking is the only leg.
+
+create table if not exists public.shipment_legs (
+  id               uuid primary key default gen_random_uuid(),
+  shipment_id      uuid not null,
+  seq              int not null,
+  -- who holds the work on this leg: a member, or just a name (a framer, a courier)
+  handler_id       uuid references public.profiles(id),
+  handler_name     text,
+  handler_role     text not null default 'other'
+                   check (handler_role in ('carrier','courier','framer','gallery','storage','collector','other')),
+  from_label       text,
+  to_label         text,
+  carrier          text,
+  tracking_number  text,
+  tracking_slug    text,
+  status           text not null default 'pending'
+                   check (status in ('pending','handed_to_carrier','in_transit','out_for_delivery',
+                                     'delivered','returned','exception')),
+  last_checkpoint  jsonb,
+  started_at       timestamptz,
+  delivered_at     timestamptz,
+  created_by       uuid references public.profiles(id),
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now(),
+  unique (shipment_id, seq)
+);
+
+create index if not exists idx_shipment_legs_tracking
+  on public.shipment_legs (tracking_number) where tracking_number is not null;
+create index if not exists idx_shipment_legs_handler
+  on public.shipment_legs (handler_id) where handler_id is not null;
+
+-- writes go through the API; readers are whoever can see the shipment, plus the handler
+alter table public.shipment_legs enable row level security;
+
+drop policy if exists shipment_legs_read on public.shipment_legs;
+create policy shipment_legs_read
+  on public.shipment_legs for select to authenticated
+  using (
+    handler_id = auth.uid()
+    or exists (select 1 from public.shipments s where s.id = shipment_legs.shipment_id)
+  );
+
+-- shipments and shipment_events predate the migrations
+do $$
+begin
+  if to_regclass('public.shipments') is not null then
+    alter table public.shipment_legs drop constraint if exists shipment_legs_shipment_id_fkey;
+    alter table public.shipment_legs
+      add constraint shipment_legs_shipment_id_fkey
+      foreign key (shipment_id) references public.shipments(id) on delete cascade;
+  end if;
+
+  if to_regclass('public.shipment_events') is not null then
+    alter table public.shipment_events
+      add column if not exists leg_id       uuid references public.shipment_legs(id) on delete set null,
+      -- condition reports only
+      add column if not exists condition    text,
+      add column if not exists photo_paths  text[] not null default '{}',
+      add column if not exists signature    jsonb,
+      add column if not exists reported_by  uuid references public.profiles(id),
+      add column if not exists payload      jsonb;
+
+    alter table public.shipment_events drop constraint if exists shipment_events_condition_check;
+    alter table public.shipment_events
+      add constraint shipment_events_condition_check
+      check (condition is null or condition in ('excellent','good','fair','damaged'));
+
+    create index if not exists idx_shipment_events_leg
+      on public.shipment_events (leg_id, created_at) where leg_id is not null;
+  end if;
+end $$;
+
+-- --- legacy shipments.legs ---------------------------------------------------------
+-- POST /shipments used to stash legs as a jsonb array on the shipment; lift them into
+-- rows once, for shipments that have no leg rows yet.
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'shipments' and column_name = 'legs'
+  ) then
+    insert into public.shipment_legs
+      (shipment_id, seq, handler_name, carrier, tracking_number, from_label, to_label)
+    select s.id,
+           l.ord::int,
+           nullif(coalesce(l.leg->>'handler_name', l.leg->>'handler'), ''),
+           nullif(l.leg->>'carrier', ''),
+           nullif(coalesce(l.leg->>'tracking_number', l.leg->>'tracking_no'), ''),
+           nullif(l.leg->>'from', ''),
+           nullif(l.leg->>'to', '')
+    from public.shipments s
+    cross join lateral jsonb_array_elements(
+      case when jsonb_typeof(s.legs) = 'array' then s.legs else '[]'::jsonb end
+    ) with ordinality as l(leg, ord)
+    where jsonb_typeof(l.leg) = 'object'
+      and not exists (select 1 from public.shipment_legs x where x.shipment_id = s.id);
+  end if;
+end $$;
+
+do $$
+begin
+  if to_regclass('storage.buckets') is not null then
+    insert into storage.buckets (id, name, public)
+    values ('condition-reports', 'condition-reports', false)
+    on conflict (id) do nothing;
+  end if;
+end $$;
@@ -0,0 +1,116 @@
+-- === CONTRACT E-SIGNATURE ============================================================
+-- License contracts are rendered to PDF by the generate-contract-pdf function from the
+-- accepted terms; the file and its SHA-256 are recorded on the request. Both parties
+-- sign in the app (sign-contract function): each signature pins the hash of the exact
+-- document the signer was shown, with time, IP and user agent. Once both have signed,
+-- the function seals an executed PDF — the contract plus a signature page and an audit
+-- page — and records its path and SHA-256, computed server-side.
+--
+-- license_requests predates the migrations; the execution fields it already had
+-- (executed_pdf_url, executed_pdf_sha256, signed_at, signer_name, signer_title) are
+-- now written only by the functions.
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    alter table public.license_requests
+      add column if not exists contract_path          text,
+      add column if not exists contract_sha256        text,
+      add column if not exists contract_generated_at  timestamptz,
+      add column if not exists executed_pdf_path      text;
+  end if;
+end $$;
+
+create table if not exists public.license_signatures (
+  id               uuid primary key default gen_random_uuid(),
+  request_id       uuid not null,
+  signer_id        uuid not null references public.profiles(id),
+  role             text not null check (role in ('licensor','licensee')),
+  name             text not null,
+  title            text,
+  method           text not null check (method in ('typed','drawn')),
+  -- drawn signatures: PNG in the contracts bucket
+  image_path       text,
+  -- the contract PDF the signer was shown
+  document_sha256  text not null,
+  ip               text,
+  user_agent       text,
+  signed_at        timestamptz not null default now(),
+  unique (request_id, role)
+);
+
+create index if not exists idx_license_signatures_request on public.license_signatures (request_id, signed_at);
+
+-- written by the sign-contract function only; both parties can read them
+alter table public.license_signatures enable row level security;
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    alter table public.license_signatures drop constraint if exists license_signatures_request_id_fkey;
+    alter table public.license_signatures
+      add constraint license_signatures_request_id_fkey
+      foreign key (request_id) references public.license_requests(id) on delete cascade;
+
+    drop policy if exists license_signatures_read on public.license_signatures;
+    create policy license_signatures_read
+      on public.license_signatures for select to authenticated
+      using (exists (
+        select 1 from public.license_requests r
+        where r.id = license_signatures.request_id
+          and auth.uid() in (r.owner_id, r.requester_id)
+      ));
+  end if;
+end $$;
+
+-- --- guard: the document and execution record come from the functions ----------------
+create or replace function public.license_requests_guard_execution()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if new.contract_path is distinct from old.contract_path
+     or new.contract_sha256 is distinct from old.contract_sha256
+     or new.contract_generated_at is distinct from old.contract_generated_at
+     or new.executed_pdf_path is distinct from old.executed_pdf_path
+     or new.executed_pdf_url is distinct from old.executed_pdf_url
+     or new.executed_pdf_sha256 is distinct from old.executed_pdf_sha256
+     or new.signed_at is distinct from old.signed_at
+     or new.signer_name is distinct from old.signer_name
+     or new.signer_title is distinct from old.signer_title then
+    raise exception 'contract documents and signatures are recorded by the signing service';
+  end if;
+
+  -- what was signed can't be renegotiated in place
+  if new.accepted_terms is distinct from old.accepted_terms
+     and exists (select 1 from public.license_signatures s where s.request_id = old.id) then
+    raise exception 'this contract has been signed; start a new request to change its terms';
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    drop trigger if exists trg_license_requests_guard_execution on public.license_requests;
+    create trigger trg_license_requests_guard_execution
+      before update on public.license_requests
+      for each row execute function public.license_requests_guard_execution();
+  end if;
+end $$;
+
+-- private; contract files are read through signed URLs minted by the functions
+do $$
+begin
+  if to_regclass('storage.buckets') is not null then
+    insert into storage.buckets (id, name, public)
+    values ('contracts', 'contracts', false)
+    on conflict (id) do nothing;
+  end if;
+end $$;
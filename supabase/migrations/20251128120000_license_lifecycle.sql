@@ -0,0 +1,374 @@
+-- === LICENSE LIFECYCLE ==================================================================
+-- An accepted license request becomes a licenses row: the accepted terms with the dates
+-- they imply. It starts on start_date (else effective_date, else the day it was
+-- accepted) and runs term_months; ends_on is its last day. The invoice falls due
+-- payment_terms.due_days after the start when there is a fee.
+--
+-- run_license_lifecycle() is the job (the API runs it every LICENSE_LIFECYCLE_SECONDS):
+--   expiry reminder  once, max(termination.notice_days, lead) days before ends_on
+--   invoice reminder once, a few days before fee_due_on
+--   expiry           status 'expired' the day after ends_on; both parties hear of it
+-- Reminders go to both parties as 'license' notifications linking to the contract.
+--
+-- Renewal: the licensor calls renew_license() with the terms to propose (the app
+-- merges the old terms with new dates); it opens a new request in negotiation with
+-- renewal_of set. Once that is accepted, the old license is marked renewed and its
+-- remaining reminders are skipped.
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    alter table public.license_requests
+      add column if not exists renewal_of uuid;
+  end if;
+end $$;
+
+create table if not exists public.licenses (
+  id                  uuid primary key default gen_random_uuid(),
+  request_id          uuid not null unique,
+  artwork_id          uuid not null,
+  owner_id            uuid not null references public.profiles(id),
+  licensee_id         uuid not null references public.profiles(id),
+  terms               jsonb not null,
+  starts_on           date not null,
+  -- last day of the term; null when the terms set no term_months
+  ends_on             date,
+  notice_days         integer,
+  fee_due_on          date,
+  status              text not null default 'active' check (status in ('active','expired')),
+  expired_at          timestamptz,
+  expiry_reminded_at  timestamptz,
+  invoice_reminded_at timestamptz,
+  -- the request opened to renew this license, and when that renewal was accepted
+  renewal_request_id  uuid,
+  renewed_at          timestamptz,
+  created_at          timestamptz not null default now(),
+  updated_at          timestamptz not null default now()
+);
+
+create index if not exists idx_licenses_artwork on public.licenses (artwork_id, status);
+create index if not exists idx_licenses_active_end on public.licenses (ends_on) where status = 'active';
+create index if not exists idx_licenses_fee_due on public.licenses (fee_due_on) where invoice_reminded_at is null;
+
+-- written by triggers and the job; each party reads their own
+alter table public.licenses enable row level security;
+
+drop policy if exists licenses_read on public.licenses;
+create policy licenses_read
+  on public.licenses for select to authenticated
+  using (auth.uid() in (owner_id, licensee_id));
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    alter table public.licenses drop constraint if exists licenses_request_id_fkey;
+    alter table public.licenses
+      add constraint licenses_request_id_fkey
+      foreign key (request_id) references public.license_requests(id) on delete cascade;
+  end if;
+end $$;
+
+-- --- term parsing: accepted_terms is client-shaped jsonb; bad values mean "not set" ----
+create or replace function public.license_term_date(p text)
+returns date
+language plpgsql
+stable
+as $$
+begin
+  return nullif(btrim(p), '')::date;
+exception when others then
+  return null;
+end;
+$$;
+
+create or replace function public.license_term_int(p text)
+returns integer
+language sql
+immutable
+as $$
+  select case when btrim(p) ~ '^\d{1,6}$' then btrim(p)::integer end;
+$$;
+
+-- --- activate_license: the license record for an accepted request ----------------------
+-- Re-running it (the terms were corrected before signing) recomputes the dates; a
+-- reminder already sent for a date that moved is sent again for the new one.
+create or replace function public.activate_license(p_request_id uuid)
+returns public.licenses
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req    record;
+  v_terms  jsonb;
+  v_start  date;
+  v_months integer;
+  v_end    date;
+  v_due    integer;
+  v_lic    public.licenses%rowtype;
+begin
+  select id, artwork_id, owner_id, requester_id, status, accepted_terms, renewal_of
+    into v_req
+  from public.license_requests where id = p_request_id;
+  if not found or v_req.status is distinct from 'accepted' or v_req.accepted_terms is null then
+    return null;
+  end if;
+  v_terms := v_req.accepted_terms;
+
+  v_start := coalesce(public.license_term_date(v_terms->>'start_date'),
+                      public.license_term_date(v_terms->>'effective_date'),
+                      current_date);
+  v_months := public.license_term_int(v_terms->>'term_months');
+  v_end := case when v_months > 0 then (v_start + make_interval(months => v_months))::date - 1 end;
+  v_due := public.license_term_int(v_terms #>> '{payment_terms,due_days}');
+
+  insert into public.licenses as l
+    (request_id, artwork_id, owner_id, licensee_id, terms, starts_on, ends_on, notice_days, fee_due_on, status, expired_at)
+  values (
+    v_req.id, v_req.artwork_id, v_req.owner_id, v_req.requester_id, v_terms, v_start, v_end,
+    public.license_term_int(v_terms #>> '{termination,notice_days}'),
+    case when jsonb_typeof(v_terms->'fee') = 'object' and v_due is not null then v_start + v_due end,
+    case when v_end < current_date then 'expired' else 'active' end,
+    case when v_end < current_date then now() end
+  )
+  on conflict (request_id) do update
+    set terms = excluded.terms,
+        starts_on = excluded.starts_on,
+        ends_on = excluded.ends_on,
+        notice_days = excluded.notice_days,
+        fee_due_on = excluded.fee_due_on,
+        status = excluded.status,
+        expired_at = case when excluded.status = 'expired' then coalesce(l.expired_at, now()) end,
+        expiry_reminded_at = case when l.ends_on is not distinct from excluded.ends_on
+                                   and l.notice_days is not distinct from excluded.notice_days
+                                  then l.expiry_reminded_at end,
+        invoice_reminded_at = case when l.fee_due_on is not distinct from excluded.fee_due_on
+                                   then l.invoice_reminded_at end,
+        updated_at = now()
+  returning * into v_lic;
+
+  if v_req.renewal_of is not null then
+    update public.licenses
+    set renewed_at = coalesce(renewed_at, now()), updated_at = now()
+    where id = v_req.renewal_of;
+  end if;
+  return v_lic;
+end;
+$$;
+
+create or replace function public.license_requests_activate()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'accepted' and new.accepted_terms is not null
+     and (tg_op = 'INSERT'
+          or old.status is distinct from new.status
+          or old.accepted_terms is distinct from new.accepted_terms) then
+    perform public.activate_license(new.id);
+  end if;
+  return null;
+end;
+$$;
+
+revoke all on function public.activate_license(uuid) from public, anon, authenticated;
+revoke all on function public.license_requests_activate() from public, anon, authenticated;
+
+do $$
+begin
+  if to_regclass('public.license_requests') is not null then
+    drop trigger if exists trg_license_requests_activate on public.license_requests;
+    create trigger trg_license_requests_activate
+      after insert or update of status, accepted_terms on public.license_requests
+      for each row execute function public.license_requests_activate();
+
+    -- licenses accepted before this migration
+    perform public.activate_license(r.id)
+    from public.license_requests r
+    where r.status = 'accepted' and r.accepted_terms is not null
+      and not exists (select 1 from public.licenses l where l.request_id = r.id);
+    -- don't chase invoices that fell due before there were reminders
+    update public.licenses set invoice_reminded_at = now()
+    where fee_due_on < current_date and invoice_reminded_at is null;
+  end if;
+end $$;
+
+-- --- run_license_lifecycle: job ------------------------------------------------------------
+-- One row per license acted on: 'expired', 'expiry_reminder' or 'invoice_reminder'.
+create or replace function public.run_license_lifecycle(
+  p_expiry_lead_days  integer default 30,
+  p_invoice_lead_days integer default 7,
+  p_limit             integer default 100
+)
+returns table (license_id uuid, event text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_l     public.licenses%rowtype;
+  v_title text;
+  v_when  text;
+begin
+  for v_l in
+    select * from public.licenses l
+    where l.status = 'active' and l.ends_on < current_date
+    order by l.ends_on
+    limit p_limit
+    for update skip locked
+  loop
+    update public.licenses set status = 'expired', expired_at = now(), updated_at = now() where id = v_l.id;
+    -- a renewed license rolls straight into its successor; nothing to announce
+    if v_l.renewed_at is null then
+      select title into v_title from public.artworks where id = v_l.artwork_id;
+      perform public.push_notification(p.id, 'license', jsonb_build_object(
+        'event', 'expired', 'request_id', v_l.request_id, 'artwork_id', v_l.artwork_id, 'license_id', v_l.id,
+        'message', format('The license for “%s” has expired', coalesce(v_title, 'your artwork'))))
+      from unnest(array[v_l.owner_id, v_l.licensee_id]) as p(id);
+    end if;
+    license_id := v_l.id; event := 'expired';
+    return next;
+  end loop;
+
+  for v_l in
+    select * from public.licenses l
+    where l.status = 'active' and l.ends_on is not null
+      and l.expiry_reminded_at is null and l.renewed_at is null
+      and l.ends_on - greatest(coalesce(l.notice_days, 0), p_expiry_lead_days) <= current_date
+    order by l.ends_on
+    limit p_limit
+    for update skip locked
+  loop
+    update public.licenses set expiry_reminded_at = now(), updated_at = now() where id = v_l.id;
+    select title into v_title from public.artworks where id = v_l.artwork_id;
+    v_when := to_char(v_l.ends_on, 'FMMonth FMDD, YYYY');
+    perform public.push_notification(p.id, 'license', jsonb_build_object(
+      'event', 'expiry_reminder', 'request_id', v_l.request_id, 'artwork_id', v_l.artwork_id, 'license_id', v_l.id,
+      'message', format('The license for “%s” ends on %s%s', coalesce(v_title, 'your artwork'), v_when,
+                        case when v_l.notice_days > 0 and v_l.ends_on - v_l.notice_days >= current_date
+                             then format(' (notice due by %s)', to_char(v_l.ends_on - v_l.notice_days, 'FMMonth FMDD, YYYY'))
+                             else '' end)))
+    from unnest(array[v_l.owner_id, v_l.licensee_id]) as p(id);
+    license_id := v_l.id; event := 'expiry_reminder';
+    return next;
+  end loop;
+
+  for v_l in
+    select * from public.licenses l
+    where l.status = 'active' and l.fee_due_on is not null and l.invoice_reminded_at is null
+      and l.fee_due_on - p_invoice_lead_days <= current_date
+    order by l.fee_due_on
+    limit p_limit
+    for update skip locked
+  loop
+    update public.licenses set invoice_reminded_at = now(), updated_at = now() where id = v_l.id;
+    select title into v_title from public.artworks where id = v_l.artwork_id;
+    v_when := to_char(v_l.fee_due_on, 'FMMonth FMDD, YYYY');
+    perform public.push_notification(v_l.licensee_id, 'license', jsonb_build_object(
+      'event', 'invoice_reminder', 'request_id', v_l.request_id, 'artwork_id', v_l.artwork_id, 'license_id', v_l.id,
+      'message', format('Payment for the “%s” license is due %s', coalesce(v_title, 'artwork'), v_when)));
+    perform public.push_notification(v_l.owner_id, 'license', jsonb_build_object(
+      'event', 'invoice_reminder', 'request_id', v_l.request_id, 'artwork_id', v_l.artwork_id, 'license_id', v_l.id,
+      'message', format('The “%s” license fee falls due %s', coalesce(v_title, 'artwork'), v_when)));
+    license_id := v_l.id; event := 'invoice_reminder';
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.run_license_lifecycle(integer, integer, integer) from public, anon, authenticated;
+
+-- --- renew_license: the licensor reopens negotiation with proposed terms --------------------
+create or replace function public.renew_license(p_license_id uuid, p_terms jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_l  public.licenses%rowtype;
+  v_id uuid;
+begin
+  select * into v_l from public.licenses where id = p_license_id for update;
+  if not found then
+    raise exception 'License not found';
+  end if;
+  if v_l.owner_id is distinct from auth.uid() then
+    raise exception 'Only the licensor can renew this license';
+  end if;
+  if v_l.renewed_at is not null then
+    raise exception 'This license has already been renewed';
+  end if;
+  if v_l.renewal_request_id is not null and exists (
+       select 1 from public.license_requests r
+       where r.id = v_l.renewal_request_id and r.status in ('open','negotiating','accepted')) then
+    raise exception 'A renewal is already open for this license';
+  end if;
+  if jsonb_typeof(p_terms) is distinct from 'object' then
+    raise exception 'Renewal terms required';
+  end if;
+
+  insert into public.license_requests (artwork_id, owner_id, requester_id, requested, status, renewal_of)
+  values (v_l.artwork_id, v_l.owner_id, v_l.licensee_id, p_terms, 'negotiating', v_l.id)
+  returning id into v_id;
+
+  update public.licenses set renewal_request_id = v_id, updated_at = now() where id = v_l.id;
+  return v_id;
+end;
+$$;
+
+revoke all on function public.renew_license(uuid, jsonb) from public, anon;
+grant execute on function public.renew_license(uuid, jsonb) to authenticated;
+
+-- --- notify_license: a renewal is the licensor writing to the licensee ---------------------
+create or replace function public.notify_license()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new     jsonb := to_jsonb(new);
+  v_is_req  boolean := tg_table_name = 'license_requests';
+  v_renewal boolean := false;
+  v_req     jsonb;
+  v_author  uuid;
+  v_to      uuid;
+  v_title   text;
+  v_from    text;
+begin
+  if v_is_req then
+    v_req := v_new;
+    v_renewal := v_req->>'renewal_of' is not null;
+    v_author := case when v_renewal then (v_req->>'owner_id')::uuid else (v_req->>'requester_id')::uuid end;
+    v_to := case when v_renewal then (v_req->>'requester_id')::uuid else (v_req->>'owner_id')::uuid end;
+  else
+    select to_jsonb(r) into v_req from public.license_requests r where r.id = (v_new->>'request_id')::uuid;
+    if v_req is null then
+      return null;
+    end if;
+    v_author := (v_new->>'author_id')::uuid;
+    v_to := case when v_author = (v_req->>'owner_id')::uuid
+                 then (v_req->>'requester_id')::uuid
+                 else (v_req->>'owner_id')::uuid end;
+  end if;
+
+  select coalesce(title, 'your artwork') into v_title from public.artworks where id = (v_req->>'artwork_id')::uuid;
+  select coalesce(display_name, username) into v_from from public.profiles where id = v_author;
+
+  perform public.push_notification(v_to, 'license', jsonb_build_object(
+    'event', case when v_renewal then 'renewal' when v_is_req then 'requested' else 'message' end,
+    'request_id', v_req->>'id', 'artwork_id', v_req->>'artwork_id',
+    'message', case when v_renewal
+                    then format('%s offered to renew your license for “%s”', coalesce(v_from, 'Someone'), coalesce(v_title, 'the artwork'))
+                    when v_is_req
+                    then format('%s asked to license “%s”', coalesce(v_from, 'Someone'), coalesce(v_title, 'your artwork'))
+                    else format('%s replied about licensing “%s”', coalesce(v_from, 'Someone'), coalesce(v_title, 'your artwork'))
+               end));
+  return null;
+end;
+$$;
+
+revoke all on function public.notify_license() from public, anon, authenticated;
@@ -0,0 +1,229 @@
+-- === ONE-OF-ONE SALE GUARD ===========================================================
+-- Checkout holds a one-of-one for the buyer who opened it (see /api/checkout), but
+-- a provider session outlives that hold, so several pending orders on the same
+-- work can still be paid. settle_order now refuses a unique artwork the seller no
+-- longer owns, one already sold into escrow, or (for checkout orders) one whose
+-- listing has ended, as settle_bundle_order does for a lot. The refused payment
+-- stays unsettled in the webhook ledger for support to refund.
+
+-- --- settle_order ---------------------------------------------------------------------
+create or replace function public.settle_order(
+  p_order_id uuid,
+  p_chain_id bigint default null,
+  p_tx_hash  text   default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order          public.orders%rowtype;
+  v_listing        public.listings%rowtype;
+  v_artwork        public.artworks%rowtype;
+  v_edition        text;
+  v_held           integer;
+  v_platform_bps   integer := 0;
+  v_royalty_bps    integer := 0;
+  v_total          numeric;
+  v_currency       text;
+  v_platform_fee   numeric := 0;
+  v_royalty_amt    numeric := 0;
+  v_charity_amt    numeric := 0;
+  v_seller_take    numeric := 0;
+  v_escrow         boolean;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  -- idempotent: a settled order is returned as-is
+  if v_order.payment_status = 'paid' then
+    return v_order;
+  end if;
+
+  if v_order.payment_status = 'refunded' then
+    raise exception 'Order was refunded';
+  end if;
+
+  select * into v_listing
+  from public.listings
+  where id = v_order.listing_id
+  for update;
+
+  if v_listing.is_bundle then
+    return public.settle_bundle_order(v_order.id, p_chain_id, p_tx_hash);
+  end if;
+
+  select * into v_artwork
+  from public.artworks
+  where id = v_order.artwork_id
+  for update;
+
+  if not found then
+    raise exception 'Artwork not found';
+  end if;
+
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+  v_escrow  := coalesce(v_artwork.type = 'physical', false) and v_edition = 'unique';
+
+  -- a one-of-one sells once: after one order took it, the others are refused
+  if v_edition = 'unique' then
+    if v_artwork.owner_id is distinct from v_order.seller_id then
+      raise exception 'The seller no longer owns this artwork';
+    end if;
+    if public.artwork_in_escrow(v_artwork.id) then
+      raise exception 'This artwork is already sold and awaiting delivery';
+    end if;
+    -- auction awards and accepted offers are paid after their listing closed
+    if v_listing.id is not null and v_listing.status <> 'active'
+       and v_order.kind is distinct from 'auction' and v_order.kind is distinct from 'offer' then
+      raise exception 'This listing has ended';
+    end if;
+  end if;
+
+  -- supply: a paid order can only be refused here if its checkout hold lapsed
+  if v_edition <> 'unique' and v_listing.id is not null and v_listing.quantity is not null
+     and v_listing.quantity_sold + v_order.quantity > v_listing.quantity then
+    raise exception 'Sold out: % of % left', greatest(v_listing.quantity - v_listing.quantity_sold, 0), v_order.quantity;
+  end if;
+
+  -- fees (on the amount locked into the order, not the listing's current price)
+  select platform_fee_bps into v_platform_bps
+  from public.platform_config
+  where id = true;
+
+  v_platform_bps := coalesce(v_platform_bps, 0);
+  v_royalty_bps  := coalesce(v_artwork.royalty_bps, 0);
+  v_total        := v_order.total_amount;
+  v_currency     := coalesce(v_order.currency, v_listing.sale_currency);
+
+  v_platform_fee := round(v_total * v_platform_bps / 10000.0, 8);
+  v_royalty_amt  := round(v_total * v_royalty_bps / 10000.0, 8);
+
+  if coalesce(v_listing.charity_flag, false) then
+    v_charity_amt := round(v_total * coalesce(v_listing.charity_pct_bps,0) / 10000.0, 8);
+  end if;
+
+  v_seller_take := v_total - v_platform_fee - v_royalty_amt - v_charity_amt;
+
+  -- payout splits
+  if v_platform_fee > 0 then
+    insert into public.payout_splits(order_id, recipient_type, amount, currency)
+    values (v_order.id, 'platform_fee', v_platform_fee, v_currency);
+  end if;
+
+  if v_royalty_amt > 0 then
+    insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+    values (v_order.id, 'creator_royalty', v_artwork.creator_id, v_royalty_amt, v_currency);
+  end if;
+
+  if v_charity_amt > 0 then
+    insert into public.payout_splits(
+      order_id, recipient_type, recipient_profile_id, recipient_wallet_address, amount, currency
+    ) values (
+      v_order.id, 'charity',
+      v_listing.charity_target_id, v_listing.charity_wallet_address,
+      v_charity_amt, v_currency
+    );
+  end if;
+
+  insert into public.payout_splits(order_id, recipient_type, recipient_profile_id, amount, currency)
+  values (v_order.id, 'seller', v_order.seller_id, v_seller_take, v_currency);
+
+  -- move ownership (a physical work waits for release_order_escrow)
+  if not v_escrow then
+    if v_edition = 'open' and v_order.seller_id = v_artwork.creator_id then
+      -- primary sale of an open edition issues new units
+      update public.artworks
+      set editions_issued = editions_issued + v_order.quantity
+      where id = v_artwork.id;
+    elsif v_edition <> 'unique' then
+      select quantity into v_held
+      from public.ownerships
+      where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id
+      for update;
+      if coalesce(v_held, 0) < v_order.quantity then
+        raise exception 'Seller holds % of this edition, order is for %', coalesce(v_held, 0), v_order.quantity;
+      end if;
+
+      update public.ownerships
+        set quantity = quantity - v_order.quantity, updated_at = now()
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+      delete from public.ownerships
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+    else
+      -- ERC-721 semantics
+      update public.ownerships
+        set quantity = greatest(quantity - v_order.quantity, 0), updated_at = now()
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id;
+
+      delete from public.ownerships
+        where artwork_id = v_order.artwork_id and owner_id = v_order.seller_id and quantity = 0;
+
+      update public.artworks
+      set owner_id = v_order.buyer_id
+      where id = v_order.artwork_id;
+    end if;
+
+    insert into public.ownerships(artwork_id, owner_id, quantity)
+    values (v_order.artwork_id, v_order.buyer_id, v_order.quantity)
+    on conflict (artwork_id, owner_id)
+    do update set quantity = public.ownerships.quantity + excluded.quantity,
+                 updated_at = now();
+  end if;
+
+  -- listing: a one-of-one ends on sale; an edition listing when it sells out
+  if v_listing.id is not null then
+    update public.listings
+    set quantity_sold = quantity_sold + v_order.quantity,
+        status = case
+          when v_edition = 'unique' then 'ended'
+          when quantity is not null and quantity_sold + v_order.quantity >= quantity then 'ended'
+          else status
+        end,
+        sold_out_at = case
+          when v_edition <> 'unique' and quantity is not null and quantity_sold + v_order.quantity >= quantity then now()
+          else sold_out_at
+        end,
+        updated_at = now()
+    where id = v_listing.id and status = 'active';
+  end if;
+
+  -- sales history (price charts, Studio)
+  insert into public.sales(artwork_id, buyer_id, seller_id, price, currency, sold_at, tx_hash)
+  values (v_order.artwork_id, v_order.buyer_id, v_order.seller_id, v_total, v_currency, now(), p_tx_hash);
+
+  -- provenance (escrow records it on release)
+  if not v_escrow then
+    insert into public.provenance_events(
+      artwork_id, from_owner_id, to_owner_id, event_type,
+      quantity, amount, currency, source, chain_id, tx_hash
+    )
+    values (
+      v_order.artwork_id, v_order.seller_id, v_order.buyer_id, 'sale',
+      v_order.quantity, v_total, v_currency, 'system', p_chain_id, p_tx_hash
+    );
+  end if;
+
+  update public.orders
+  set payment_status  = 'paid',
+      delivery_status = case when v_escrow then 'pending' else 'transferred' end,
+      escrow_status   = case when v_escrow then 'held' else escrow_status end,
+      chain_id        = coalesce(p_chain_id, chain_id),
+      tx_hash         = coalesce(p_tx_hash, tx_hash),
+      settled_at      = now()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+revoke all on function public.settle_order(uuid, bigint, text) from public, anon, authenticated;
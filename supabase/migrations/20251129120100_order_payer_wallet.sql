@@ -0,0 +1,7 @@
+-- === ORDER PAYER WALLET ===============================================================
+-- An on-chain order records the wallet the buyer opened it with. Only a transfer
+-- sent from that wallet settles it (server/src/lib/payments/onchain.ts), so a
+-- buyer can't claim somebody else's matching payment to the same seller.
+
+alter table public.orders
+  add column if not exists payer_wallet text;   -- lowercased; on-chain orders only
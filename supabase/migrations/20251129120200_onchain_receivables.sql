@@ -0,0 +1,181 @@
+-- === ON-CHAIN SPLITS AND RECEIVABLES ===================================================
+-- An on-chain order (direct ETH payment, voucher redeem) pays the seller's wallet,
+-- not the platform: the seller split is already settled when the order is, and
+-- the platform fee, royalty and charity shares are money the seller owes.
+--   settlement = 'platform'    the platform holds it; batched as before
+--                'onchain'     paid to the recipient by the buyer's tx; counts as
+--                              paid out, never available or batched
+--                'receivable'  owed by the order's seller; available to its
+--                              recipient only once collected (collected_at)
+
+alter table public.payout_splits
+  add column if not exists settlement           text not null default 'platform',
+  add column if not exists collected_at         timestamptz,
+  add column if not exists collection_reference text;
+
+alter table public.payout_splits drop constraint if exists payout_splits_settlement_check;
+alter table public.payout_splits
+  add constraint payout_splits_settlement_check
+  check (settlement in ('platform','onchain','receivable'));
+
+-- settle_order and settle_bundle_order insert the splits; this files them by how
+-- the order was paid. A refund's reversal follows its original.
+create or replace function public.payout_splits_settlement()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.reversal_of is not null then
+    select settlement into new.settlement from public.payout_splits where id = new.reversal_of;
+  elsif exists (select 1 from public.orders where id = new.order_id and settlement_kind = 'onchain') then
+    new.settlement := case when new.recipient_type = 'seller' then 'onchain' else 'receivable' end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_payout_splits_settlement on public.payout_splits;
+create trigger trg_payout_splits_settlement
+  before insert on public.payout_splits
+  for each row execute function public.payout_splits_settlement();
+
+-- on-chain splits recorded before this, and not batched yet
+update public.payout_splits s
+set settlement = case when s.recipient_type = 'seller' then 'onchain' else 'receivable' end
+from public.orders o
+where o.id = s.order_id
+  and o.settlement_kind = 'onchain'
+  and s.settlement = 'platform'
+  and s.payout_batch_id is null;
+
+-- --- what sellers owe ---------------------------------------------------------------------
+create or replace view public.payout_receivables as
+select
+  s.id                   as split_id,
+  s.order_id,
+  o.seller_id            as debtor_profile_id,
+  s.recipient_type,
+  s.recipient_profile_id,
+  s.amount,
+  s.currency,
+  s.created_at,
+  s.collected_at,
+  s.collection_reference
+from public.payout_splits s
+join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+where s.settlement = 'receivable'
+  and s.reversal_of is null;
+
+revoke all on public.payout_receivables from public, anon, authenticated;
+
+-- Marks an order's receivables (and their reversals) collected, e.g. once the
+-- seller has paid the fee and royalty back. Returns how many splits it released.
+create or replace function public.collect_order_receivables(
+  p_order_id  uuid,
+  p_reference text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.payout_splits
+  set collected_at = now(), collection_reference = p_reference
+  where order_id = p_order_id
+    and settlement = 'receivable'
+    and collected_at is null;
+  get diagnostics v_count = row_count;
+
+  if v_count = 0 then
+    raise exception 'Nothing to collect on this order';
+  end if;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.collect_order_receivables(uuid, text) from public, anon, authenticated;
+
+-- --- payouts: on-chain splits are paid out, receivables wait for collection ---------------
+create or replace view public.payout_balances as
+select
+  s.recipient_profile_id,
+  s.currency,
+  coalesce(sum(s.amount), 0)                                             as earned,
+  coalesce(sum(s.amount) filter (where b.status = 'sent' or s.settlement = 'onchain'), 0) as paid_out,
+  coalesce(sum(s.amount) filter (where b.status = 'pending'), 0)         as in_payout,
+  coalesce(sum(s.amount) filter (where s.payout_batch_id is null
+                                    and s.settlement <> 'onchain'
+                                    and (s.settlement <> 'receivable' or s.collected_at is not null)
+                                    and o.escrow_status is distinct from 'held'
+                                    and o.escrow_status is distinct from 'disputed'), 0) as available,
+  max(s.created_at)                                                      as last_earned_at,
+  coalesce(sum(s.amount) filter (where o.escrow_status in ('held','disputed')), 0) as in_escrow,
+  coalesce(sum(s.amount) filter (where s.settlement = 'receivable' and s.collected_at is null), 0) as uncollected
+from public.payout_splits s
+join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+left join public.payout_batches b on b.id = s.payout_batch_id
+where s.recipient_profile_id is not null
+group by s.recipient_profile_id, s.currency;
+
+revoke all on public.payout_balances from public, anon, authenticated;
+
+-- same, for what a batch picks up
+create or replace function public.create_payout_batch(
+  p_recipient uuid,
+  p_currency  text,
+  p_method    text default null
+)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch  public.payout_batches%rowtype;
+  v_amount numeric;
+  v_count  integer;
+begin
+  -- serialize batch creation per recipient
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_recipient::text));
+
+  select coalesce(sum(s.amount), 0), count(*)
+    into v_amount, v_count
+  from public.payout_splits s
+  join public.orders o on o.id = s.order_id and o.payment_status in ('paid','refunded')
+  where s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null
+    and s.settlement <> 'onchain'
+    and (s.settlement <> 'receivable' or s.collected_at is not null)
+    and o.escrow_status is distinct from 'held'
+    and o.escrow_status is distinct from 'disputed';
+
+  if v_amount <= 0 then
+    raise exception 'Nothing to pay out';
+  end if;
+
+  insert into public.payout_batches(recipient_profile_id, currency, amount, split_count, method)
+  values (p_recipient, p_currency, v_amount, v_count, p_method)
+  returning * into v_batch;
+
+  update public.payout_splits s
+     set payout_batch_id = v_batch.id
+  from public.orders o
+  where o.id = s.order_id and o.payment_status in ('paid','refunded')
+    and s.recipient_profile_id = p_recipient
+    and s.currency = p_currency
+    and s.payout_batch_id is null
+    and s.settlement <> 'onchain'
+    and (s.settlement <> 'receivable' or s.collected_at is not null)
+    and o.escrow_status is distinct from 'held'
+    and o.escrow_status is distinct from 'disputed';
+
+  return v_batch;
+end;
+$$;
+
+revoke all on function public.create_payout_batch(uuid, text, text) from public, anon, authenticated;
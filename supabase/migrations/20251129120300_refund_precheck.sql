@@ -0,0 +1,51 @@
+-- === REFUND PRECHECK ===================================================================
+-- refund_order() refuses an order whose buyer no longer holds what they bought,
+-- but the API only calls it after the provider has returned the money. The API
+-- now asks refund_precheck() first, so a refund that can't be unwound is refused
+-- before any money moves. It raises the same errors refund_order would.
+
+create or replace function public.refund_precheck(p_order_id uuid)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_order  public.orders%rowtype;
+  v_held   integer;
+begin
+  select * into v_order from public.orders where id = p_order_id;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+  if v_order.payment_status <> 'paid' then
+    raise exception 'Order is not paid (%)', v_order.payment_status;
+  end if;
+
+  if exists (select 1 from public.listings where id = v_order.listing_id and is_bundle) then
+    if exists (
+      select 1 from public.bundle_items bi
+      join public.artworks a on a.id = bi.artwork_id
+      where bi.listing_id = v_order.listing_id and a.owner_id is distinct from v_order.buyer_id
+    ) then
+      raise exception 'Buyer no longer holds every artwork in this bundle';
+    end if;
+    return;
+  end if;
+
+  -- still in escrow: nothing left the seller
+  if coalesce(v_order.escrow_status in ('held','disputed'), false) then
+    return;
+  end if;
+
+  select quantity into v_held
+  from public.ownerships
+  where artwork_id = v_order.artwork_id and owner_id = v_order.buyer_id;
+  if coalesce(v_held, 0) < v_order.quantity then
+    raise exception 'Buyer no longer holds this artwork';
+  end if;
+end;
+$$;
+
+revoke all on function public.refund_precheck(uuid) from public, anon, authenticated;
@@ -0,0 +1,136 @@
+-- === ACCEPTED OFFER GUARD ==============================================================
+-- accept_offer() created an order per accepted offer, so a seller could accept
+-- several offers on the same one-of-one, and an unfunded acceptance (funding
+-- 'none') held the work for the buyer with no deadline. Now:
+--   - a one-of-one takes one accepted offer at a time: another accept is refused
+--     while an accepted offer's order is still pending
+--   - an unfunded acceptance must be paid by pay_by (the seller's listing's
+--     checkout_hours, 48 without one), like an auction award;
+--     lapse_offer_orders() expires the order and the offer after that
+
+create index if not exists idx_orders_offer_pay_by
+  on public.orders (pay_by)
+  where kind = 'offer' and payment_status = 'pending';
+
+-- --- accept_offer -----------------------------------------------------------------------
+create or replace function public.accept_offer(p_offer_id uuid, p_actor uuid)
+returns public.offers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer    public.offers%rowtype;
+  v_artwork  public.artworks%rowtype;
+  v_edition  text;
+  v_held     integer;
+  v_listing  uuid;
+  v_hours    integer;
+  v_order    uuid;
+begin
+  select * into v_offer from public.offers where id = p_offer_id for update;
+  if not found then
+    raise exception 'Offer not found';
+  end if;
+  if v_offer.status <> 'open' then
+    raise exception 'Offer is %', v_offer.status;
+  end if;
+  if v_offer.expires_at <= now() then
+    update public.offers set status = 'expired', updated_at = now() where id = v_offer.id;
+    raise exception 'Offer has expired';
+  end if;
+  if p_actor is distinct from (case when v_offer.made_by = 'buyer' then v_offer.seller_id else v_offer.buyer_id end) then
+    raise exception 'Only the recipient can accept this offer';
+  end if;
+
+  -- locked, so two accepts on the same work run one after the other
+  select * into v_artwork from public.artworks where id = v_offer.artwork_id for update;
+  v_edition := coalesce(v_artwork.edition_type, 'unique');
+
+  if v_edition = 'unique' then
+    if v_artwork.owner_id is distinct from v_offer.seller_id then
+      raise exception 'Seller no longer owns this artwork';
+    end if;
+    -- one accepted offer at a time: the next can be accepted once its order is paid, fails or lapses
+    if exists (
+      select 1 from public.offers o
+      join public.orders ord on ord.id = o.order_id
+      where o.artwork_id = v_offer.artwork_id and o.id <> v_offer.id
+        and o.status = 'accepted' and ord.payment_status in ('pending','processing')
+    ) then
+      raise exception 'Another accepted offer on this artwork is awaiting payment';
+    end if;
+    -- the sale ends the seller's listing, as a checkout would
+    select id into v_listing
+    from public.listings
+    where artwork_id = v_offer.artwork_id and seller_id = v_offer.seller_id and status = 'active'
+    limit 1;
+  elsif not (v_edition = 'open' and v_offer.seller_id = v_artwork.creator_id) then
+    select quantity into v_held
+    from public.ownerships
+    where artwork_id = v_offer.artwork_id and owner_id = v_offer.seller_id;
+    if coalesce(v_held, 0) < v_offer.quantity then
+      raise exception 'Seller holds % of this edition', coalesce(v_held, 0);
+    end if;
+  end if;
+
+  -- an unfunded offer is paid through checkout, within the listing's checkout window
+  select checkout_hours into v_hours from public.listings where id = v_listing;
+  v_hours := coalesce(v_hours, 48);
+
+  insert into public.orders(
+    listing_id, buyer_id, seller_id, artwork_id, quantity,
+    unit_price, total_amount, currency, kind, payment_status, delivery_status,
+    settlement_kind, stripe_session_id, pay_by
+  )
+  values (
+    v_listing, v_offer.buyer_id, v_offer.seller_id, v_offer.artwork_id, v_offer.quantity,
+    v_offer.amount, v_offer.amount * v_offer.quantity, v_offer.currency, 'offer', 'pending', 'pending',
+    case v_offer.funding when 'stripe_preauth' then 'stripe' when 'weth_allowance' then 'onchain' end,
+    v_offer.hold_session_id,
+    case when v_offer.funding = 'none' then now() + make_interval(hours => v_hours) end
+  )
+  returning id into v_order;
+
+  update public.offers
+  set status = 'accepted', order_id = v_order, responded_at = now(), updated_at = now()
+  where id = v_offer.id
+  returning * into v_offer;
+
+  return v_offer;
+end;
+$$;
+
+revoke all on function public.accept_offer(uuid, uuid) from public, anon, authenticated;
+
+-- --- lapse_offer_orders -----------------------------------------------------------------
+-- Job: an accepted offer whose order wasn't paid by pay_by expires; the API
+-- notifies both sides. The work can take another offer.
+create or replace function public.lapse_offer_orders(p_limit integer default 200)
+returns setof public.offers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+begin
+  for v_order in
+    select o.* from public.orders o
+    where o.kind = 'offer' and o.payment_status = 'pending' and o.pay_by <= now()
+    order by o.pay_by
+    limit p_limit
+    for update skip locked
+  loop
+    update public.orders set payment_status = 'expired' where id = v_order.id and payment_status = 'pending';
+
+    return query
+    update public.offers
+    set status = 'expired', last_error = 'not paid by the deadline', updated_at = now()
+    where order_id = v_order.id and status = 'accepted'
+    returning *;
+  end loop;
+end;
+$$;
+
+revoke all on function public.lapse_offer_orders(integer) from public, anon, authenticated;
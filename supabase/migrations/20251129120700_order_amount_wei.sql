@@ -0,0 +1,9 @@
+-- === ORDER AMOUNT IN WEI =============================================================
+-- An on-chain order records the exact wei its checkout asked for (unit price ×
+-- quantity, computed as an integer), and the payment is verified against that.
+-- total_amount is a float product and can be a hair off (0.1 × 3), which made
+-- an exact payment look short. Text, so PostgREST doesn't round it through a
+-- JSON number.
+
+alter table public.orders
+  add column if not exists amount_wei text;   -- on-chain orders only
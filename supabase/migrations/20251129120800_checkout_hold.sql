@@ -0,0 +1,97 @@
+-- === CHECKOUT HOLD: 35 MINUTES =========================================================
+-- A pending checkout holds its units for 35 minutes instead of 30. The API asks
+-- Stripe to expire a Checkout Session when its order's hold ends, and Stripe
+-- won't expire one sooner than 30 minutes after it is created; the extra five
+-- minutes cover the time between the order insert and the session. Keep in step
+-- with CHECKOUT_HOLD_MS (server/src/routes/checkout.ts, create-checkout).
+
+-- --- listing_available -------------------------------------------------------------------
+create or replace function public.listing_available(p_listing_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when l.status <> 'active' then 0
+    when l.quantity is null then null
+    else greatest(
+      l.quantity - l.quantity_sold - coalesce((
+        select sum(o.quantity)::integer
+        from public.orders o
+        where o.listing_id = l.id
+          and o.payment_status in ('pending','processing')
+          and o.created_at > now() - interval '35 minutes'
+      ), 0),
+      0
+    )
+  end
+  from public.listings l
+  where l.id = p_listing_id;
+$$;
+
+grant execute on function public.listing_available(uuid) to anon, authenticated;
+
+-- --- listing_checkout_price ----------------------------------------------------------------
+-- Pending checkouts count against the per-wallet limit for as long as they hold units.
+create or replace function public.listing_checkout_price(p_listing_id uuid, p_buyer_id uuid, p_quantity integer default 1)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing  public.listings%rowtype;
+  v_bought   integer;
+  v_price    numeric;
+begin
+  perform 1 from public.open_due_drops(p_listing_id);
+
+  select * into v_listing from public.listings where id = p_listing_id;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if v_listing.status <> 'active' then
+    raise exception 'Listing is not active';
+  end if;
+  if v_listing.type = 'coming_soon' then
+    raise exception 'Drop opens at %', coalesce(to_char(v_listing.start_at at time zone 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'), 'a time the seller hasn''t set');
+  end if;
+  if v_listing.type not in ('fixed_price','dutch') then
+    raise exception 'This listing isn''t sold at a set price';
+  end if;
+  if v_listing.start_at is not null and v_listing.start_at > now() then
+    raise exception 'Sale has not started';
+  end if;
+  if v_listing.end_at is not null and v_listing.end_at <= now() then
+    raise exception 'Sale has ended';
+  end if;
+
+  if v_listing.allowlist_only and not exists (
+    select 1 from public.drop_allowlist a where a.listing_id = p_listing_id and a.profile_id = p_buyer_id
+  ) then
+    raise exception 'This drop is for allowlisted collectors only';
+  end if;
+
+  if v_listing.per_wallet_limit is not null then
+    select coalesce(sum(o.quantity), 0)::integer into v_bought
+    from public.orders o
+    where o.listing_id = p_listing_id
+      and o.buyer_id = p_buyer_id
+      and (o.payment_status = 'paid'
+           or (o.payment_status in ('pending','processing') and o.created_at > now() - interval '35 minutes'));
+    if v_bought + coalesce(p_quantity, 1) > v_listing.per_wallet_limit then
+      raise exception 'Limit of % per collector (you have %)', v_listing.per_wallet_limit, v_bought;
+    end if;
+  end if;
+
+  v_price := public.listing_current_price(p_listing_id);
+  if v_price is null or v_price <= 0 then
+    raise exception 'Listing has no price';
+  end if;
+  return v_price;
+end;
+$$;
+
+revoke all on function public.listing_checkout_price(uuid, uuid, integer) from public, anon, authenticated;
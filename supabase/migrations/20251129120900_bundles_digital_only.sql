@@ -0,0 +1,99 @@
+-- === BUNDLES ARE DIGITAL ONLY =========================================================
+-- A paid single physical one-of-one waits in escrow until delivery (physical
+-- escrow migration), but settle_bundle_order pays the seller and hands every
+-- work over at payment. Rather than a second escrow path for lots, bundles
+-- only take digital artworks; a physical work is listed on its own. Bundle
+-- listings created before this are left as they are.
+
+-- --- create_bundle_listing: refuses physical artworks -----------------------------------
+create or replace function public.create_bundle_listing(
+  p_artwork_ids   uuid[],
+  p_weights       numeric[] default null,
+  p_type          text default 'fixed_price',
+  p_currency      text default 'ETH',
+  p_price         numeric default null,
+  p_reserve_price numeric default null,
+  p_start_at      timestamptz default null,
+  p_end_at        timestamptz default null
+)
+returns public.listings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seller   uuid := auth.uid();
+  v_count    integer := coalesce(array_length(p_artwork_ids, 1), 0);
+  v_art      public.artworks%rowtype;
+  v_listing  public.listings%rowtype;
+  v_weight   numeric;
+  i          integer;
+begin
+  if v_seller is null then
+    raise exception 'Unauthorized';
+  end if;
+  if v_count < 2 then
+    raise exception 'A bundle needs at least two artworks';
+  end if;
+  if (select count(distinct a) from unnest(p_artwork_ids) a) <> v_count then
+    raise exception 'An artwork can only be in a bundle once';
+  end if;
+  if p_weights is not null and coalesce(array_length(p_weights, 1), 0) <> v_count then
+    raise exception 'Give one weight per artwork';
+  end if;
+  if p_type not in ('fixed_price','auction') then
+    raise exception 'A bundle sells at a fixed price or by auction';
+  end if;
+  if p_type = 'fixed_price' and (p_price is null or p_price <= 0) then
+    raise exception 'Price must be > 0';
+  end if;
+  if p_type = 'auction' and (p_end_at is null or p_end_at <= greatest(coalesce(p_start_at, now()), now())) then
+    raise exception 'An auction needs an end time in the future';
+  end if;
+
+  for i in 1 .. v_count loop
+    select * into v_art from public.artworks where id = p_artwork_ids[i] for update;
+    if not found then
+      raise exception 'Artwork % not found', p_artwork_ids[i];
+    end if;
+    if v_art.owner_id is distinct from v_seller then
+      raise exception 'You don''t own “%”', coalesce(v_art.title, v_art.id::text);
+    end if;
+    if coalesce(v_art.edition_type, 'unique') <> 'unique' then
+      raise exception 'Bundles hold one-of-one artworks; “%” is an edition', coalesce(v_art.title, v_art.id::text);
+    end if;
+    if v_art.type = 'physical' then
+      raise exception 'Bundles hold digital artworks; “%” is physical and sells on its own', coalesce(v_art.title, v_art.id::text);
+    end if;
+    if exists (select 1 from public.listings l where l.artwork_id = v_art.id and l.status = 'active')
+       or public.artwork_bundle_listing(v_art.id) is not null then
+      raise exception '“%” is already for sale; end that listing first', coalesce(v_art.title, v_art.id::text);
+    end if;
+    v_weight := coalesce(p_weights[i], 1);
+    if v_weight <= 0 then
+      raise exception 'Weights must be > 0';
+    end if;
+  end loop;
+
+  insert into public.listings(
+    artwork_id, seller_id, type, status, sale_currency, fixed_price, reserve_price,
+    start_at, end_at, quantity, is_bundle
+  )
+  values (
+    p_artwork_ids[1], v_seller, p_type, 'active', coalesce(p_currency, 'ETH'),
+    case when p_type = 'fixed_price' then p_price end,
+    case when p_type = 'auction' then p_reserve_price end,
+    coalesce(p_start_at, now()), p_end_at, 1, true
+  )
+  returning * into v_listing;
+
+  insert into public.bundle_items(listing_id, artwork_id, weight, position)
+  select v_listing.id, a.id, coalesce(p_weights[a.n::integer], 1), a.n::integer
+  from unnest(p_artwork_ids) with ordinality as a(id, n);
+
+  return v_listing;
+end;
+$$;
+
+revoke all on function public.create_bundle_listing(uuid[], numeric[], text, text, numeric, numeric, timestamptz, timestamptz) from public, anon;
+grant execute on function public.create_bundle_listing(uuid[], numeric[], text, text, numeric, numeric, timestamptz, timestamptz) to authenticated;